@@ -10,22 +10,30 @@ import { getProvider } from './Registry.js';
 import { getBLTCYBalance, getRHBalance } from '../services/balance.js';
 import { autoDownloadResource } from '../utils/resourceDownloader.js';
 import { recordTaskHistory, TaskType } from '../services/taskHistory.js';
+import { isCancellationError } from './utils/Cancellation.js';
+import { classifyError, classifyErrorMessage } from './utils/Retry.js';
+import { AIScheduler } from './Scheduler.js';
+import { listPendingJobs, removePendingJob, savePendingJob } from '../services/pendingJobs.js';
 
 /**
  * AI 核心调度器
- * 支持并发控制：最多20个并行的Image模块请求
+ * 所有任务经 AIScheduler 按 Provider / 上游模型限制并发与每分钟请求数
  */
 export class AICore {
   private mainWindow: BrowserWindow | null = null;
-  
-  // 并发控制：最多20个并行的Image模块请求
-  private readonly MAX_CONCURRENT_IMAGE_REQUESTS = 20;
-  private activeImageRequests = 0;
-  private imageRequestQueue: Array<{
-    params: AIInvokeParams;
-    resolve: () => void;
-    reject: (error: Error) => void;
-  }> = [];
+
+  // 并发与限流调度（按 Provider 与上游模型分别限额，支持优先级通道）
+  private readonly scheduler = new AIScheduler();
+
+  // 运行中任务的取消控制器（`${projectId}:${nodeId}` -> AbortController），用于 ai:cancel 中断任务
+  private abortControllers = new Map<string, AbortController>();
+
+  /**
+   * 任务标识：节点 ID 在不同项目间可能重复（模板、版本分支），按项目区分
+   */
+  private getTaskKey(projectId: string | undefined, nodeId: string): string {
+    return `${projectId || ''}:${nodeId}`;
+  }
 
   /**
    * 设置主窗口引用（用于发送状态更新）
@@ -56,92 +64,116 @@ export class AICore {
    * @returns Promise<void>
    */
   async invoke(params: AIInvokeParams): Promise<void> {
-    const { modelId, nodeId } = params;
+    const { modelId, nodeId, projectId, priority } = params;
     
-    console.log(`[AICore] 收到任务提交: modelId=${modelId}, nodeId=${nodeId}`);
-
-    // 如果是 Image 模块，需要并发控制（限制最多20个并发）
-    if (modelId === 'image') {
-      return this.invokeWithConcurrencyControl(params);
-    }
-
-    // 其他模块（Video、Chat等）直接执行，完全独立，不阻塞其他任务
-    console.log(`[AICore] 模块 ${modelId} 直接执行，不阻塞其他任务`);
-    return this.executeInvoke(params);
+    console.log(`[AICore] 收到任务提交: modelId=${modelId}, nodeId=${nodeId}, projectId=${projectId || '-'}, priority=${priority || 'normal'}`);
+    await this.runScheduled(params);
   }
 
   /**
-   * 带并发控制的调用（用于 Image 模块）
+   * 经调度器执行任务（受 Provider / 模型级并发与每分钟限额约束）
+   *
+   * @param resumeTaskId 恢复模式：跳过提交，按此远程任务 ID 继续轮询
    */
-  private async invokeWithConcurrencyControl(params: AIInvokeParams): Promise<void> {
-    return new Promise<void>((resolve, reject) => {
-      // 如果当前并发数未达到上限，直接执行
-      if (this.activeImageRequests < this.MAX_CONCURRENT_IMAGE_REQUESTS) {
-        this.activeImageRequests++;
-        this.executeInvoke(params)
-          .then(() => {
-            this.activeImageRequests--;
-            this.processImageQueue();
-            resolve();
-          })
-          .catch((error) => {
-            this.activeImageRequests--;
-            this.processImageQueue();
-            reject(error);
-          });
-      } else {
-        // 加入队列等待
-        console.log(`[并发控制] Image 请求 ${params.nodeId} 加入队列，当前并发数: ${this.activeImageRequests}/${this.MAX_CONCURRENT_IMAGE_REQUESTS}`);
-        this.imageRequestQueue.push({
-          params,
-          resolve,
-          reject,
-        });
+  private async runScheduled(params: AIInvokeParams, resumeTaskId?: string): Promise<void> {
+    const { modelId, nodeId, projectId, input, priority } = params;
+    try {
+      await this.scheduler.run(
+        {
+          taskKey: this.getTaskKey(projectId, nodeId),
+          keys: this.scheduler.getKeys(modelId, input),
+          priority,
+          // 排队等待时通知渲染进程当前位置（节点显示「排队中 #3」）
+          onQueuePosition: (position) => {
+            this.sendStatusUpdate({
+              nodeId,
+              status: 'PROCESSING',
+              payload: {
+                queuePosition: position,
+                text: `排队中 #${position}`,
+              },
+            });
+          },
+        },
+        () => this.executeInvoke(params, resumeTaskId)
+      );
+    } catch (error) {
+      // 排队中被取消（执行中的取消由 executeInvoke 处理，不会抛出）
+      if (isCancellationError(error)) {
+        this.sendCancelledStatus(nodeId);
+        return;
       }
-    });
+      throw error;
+    }
   }
 
   /**
-   * 处理队列中的 Image 请求
+   * 取消指定节点的运行中任务
+   * 排队中的任务直接移出队列；执行中的任务通过 AbortSignal 中断轮询与网络请求
+   *
+   * @param nodeId 节点 ID
+   * @param projectId 所属项目 ID（只取消该项目中的任务）
+   * @returns 是否找到并取消了任务
    */
-  private processImageQueue(): void {
-    if (this.imageRequestQueue.length === 0) {
-      return;
+  cancel(nodeId: string, projectId?: string): boolean {
+    const taskKey = this.getTaskKey(projectId, nodeId);
+    if (this.scheduler.cancelQueued(taskKey)) {
+      return true;
     }
 
-    if (this.activeImageRequests >= this.MAX_CONCURRENT_IMAGE_REQUESTS) {
-      return;
+    const controller = this.abortControllers.get(taskKey);
+    if (!controller) {
+      console.log(`[AICore] 取消任务失败，未找到运行中的任务: nodeId=${nodeId}, projectId=${projectId || '-'}`);
+      return false;
     }
+    console.log(`[AICore] 取消运行中的任务: nodeId=${nodeId}, projectId=${projectId || '-'}`);
+    controller.abort();
+    return true;
+  }
 
-    const next = this.imageRequestQueue.shift();
-    if (!next) {
-      return;
-    }
+  /**
+   * 恢复应用重启前未完成的远程任务
+   * 由渲染进程在项目加载完成后调用，确保结果能回填到已打开项目的对应节点
+   *
+   * @param projectId 当前打开的项目 ID（只恢复属于该项目或未记录项目的任务）
+   * @returns 已恢复轮询的节点 ID 列表
+   */
+  resumePendingJobs(projectId?: string): string[] {
+    const resumed: string[] = [];
+    for (const job of listPendingJobs()) {
+      if (job.projectId && job.projectId !== projectId) continue;
+      const taskKey = this.getTaskKey(job.projectId, job.nodeId);
+      if (this.abortControllers.has(taskKey) || this.scheduler.isQueued(taskKey)) continue; // 已在运行或排队（如重复调用）
 
-    this.activeImageRequests++;
-    console.log(`[并发控制] 从队列中取出 Image 请求 ${next.params.nodeId}，当前并发数: ${this.activeImageRequests}/${this.MAX_CONCURRENT_IMAGE_REQUESTS}`);
-    
-    this.executeInvoke(next.params)
-      .then(() => {
-        this.activeImageRequests--;
-        next.resolve();
-        this.processImageQueue();
-      })
-      .catch((error) => {
-        this.activeImageRequests--;
-        next.reject(error);
-        this.processImageQueue();
+      const provider = getProvider(job.modelId);
+      if (!provider?.resume) {
+        console.warn(`[AICore] Provider ${job.modelId} 不支持恢复远程任务，丢弃: nodeId=${job.nodeId}, taskId=${job.taskId}`);
+        removePendingJob(job.projectId, job.nodeId, job.taskId);
+        continue;
+      }
+
+      console.log(`[AICore] 恢复远程任务: modelId=${job.modelId}, nodeId=${job.nodeId}, taskId=${job.taskId}`);
+      resumed.push(job.nodeId);
+      // 与新任务一样经调度器执行，恢复的任务同样占用并发与每分钟限额
+      this.runScheduled({ modelId: job.modelId, nodeId: job.nodeId, projectId: job.projectId, input: job.input }, job.taskId).catch((error) => {
+        console.error(`[AICore] 恢复远程任务失败: nodeId=${job.nodeId}`, error);
       });
+    }
+    return resumed;
   }
 
   /**
    * 执行实际的 AI 调用
    * 每个任务完全独立，不共享状态
+   *
+   * @param params AI 调用参数
+   * @param resumeTaskId 恢复模式：跳过提交，按此远程任务 ID 继续轮询
    */
-  private async executeInvoke(params: AIInvokeParams): Promise<void> {
-    const { modelId, nodeId, input } = params;
+  private async executeInvoke(params: AIInvokeParams, resumeTaskId?: string): Promise<void> {
+    const { modelId, nodeId, projectId, input } = params;
+    const taskKey = this.getTaskKey(projectId, nodeId);
     
-    console.log(`[AICore] 开始执行任务: modelId=${modelId}, nodeId=${nodeId}`);
+    console.log(`[AICore] 开始执行任务: modelId=${modelId}, nodeId=${nodeId}, projectId=${projectId || '-'}`);
 
     // 记录任务开始时间
     const startTime = Date.now();
@@ -165,16 +197,39 @@ export class AICore {
       throw new Error(`AI Provider "${modelId}" not registered`);
     }
 
+    // 同一项目的同一节点重复提交时，先中断旧任务，避免旧任务的状态覆盖新任务
+    this.abortControllers.get(taskKey)?.abort();
+    const controller = new AbortController();
+    const { signal } = controller;
+    this.abortControllers.set(taskKey, controller);
+
     // 创建状态回调函数（传递 input 以便保存元数据）
+    // 任务取消后丢弃 Provider 的后续状态，由 AICore 统一发送 CANCELLED
     const onStatus = async (packet: AIStatusPacket) => {
+      if (signal.aborted) return;
       await this.sendStatusUpdate(packet, input);
     };
 
+    // 远程任务提交后持久化 taskId，应用重启后可恢复轮询
+    let submittedTaskId: string | undefined = resumeTaskId;
+    const onTaskSubmitted = (taskId: string) => {
+      submittedTaskId = taskId;
+      savePendingJob({
+        modelId,
+        nodeId,
+        projectId,
+        taskId,
+        input,
+        submittedAt: Date.now(),
+      });
+    };
+
     try {
       // 发送 START 状态
       onStatus({
         nodeId,
         status: 'START',
+        ...(resumeTaskId ? { payload: { text: '正在恢复上次未完成的任务...', taskId: resumeTaskId } } : {}),
       });
 
       // 方式2：调用模型时触发余额刷新（后台执行，不阻塞任务）
@@ -196,23 +251,49 @@ export class AICore {
         console.warn('[余额刷新] 余额查询失败:', err);
       });
 
-      // 执行 Provider（不等待余额查询完成）
-      await provider.execute({
-        nodeId,
-        input,
-        onStatus,
-      });
+      // 执行 Provider（不等待余额查询完成）；恢复模式下直接轮询已提交的远程任务
+      if (resumeTaskId && provider.resume) {
+        await provider.resume({
+          nodeId,
+          input,
+          onStatus,
+          signal,
+          onTaskSubmitted,
+          taskId: resumeTaskId,
+        });
+      } else {
+        await provider.execute({
+          nodeId,
+          input,
+          onStatus,
+          signal,
+          onTaskSubmitted,
+        });
+      }
+
+      // 部分 Provider 内部吞掉了错误，这里再检查一次是否在执行期间被取消
+      if (signal.aborted) {
+        this.sendCancelledStatus(nodeId);
+        return;
+      }
 
       // 任务成功完成，记录时长
       const duration = (Date.now() - startTime) / 1000;
       this.recordTaskDuration(modelId, duration, true);
     } catch (error) {
+      // 用户取消：发送 CANCELLED 状态，不计入失败，也不向调用方抛出
+      if (signal.aborted || isCancellationError(error)) {
+        this.sendCancelledStatus(nodeId);
+        return;
+      }
+
       // 发送 ERROR 状态
       const errorPacket: AIStatusPacket = {
         nodeId,
         status: 'ERROR',
         payload: {
           error: error instanceof Error ? error.message : String(error),
+          errorCode: classifyError(error).code,
         },
       };
       this.sendStatusUpdate(errorPacket);
@@ -222,9 +303,29 @@ export class AICore {
       this.recordTaskDuration(modelId, duration, false);
       
       throw error;
+    } finally {
+      // 仅移除自己的控制器，避免误删同一节点后续提交的新任务
+      if (this.abortControllers.get(taskKey) === controller) {
+        this.abortControllers.delete(taskKey);
+      }
+      // 任务已结束（成功/失败/取消），不再需要恢复
+      if (submittedTaskId) {
+        removePendingJob(projectId, nodeId, submittedTaskId);
+      }
     }
   }
 
+  /**
+   * 发送任务已取消状态
+   */
+  private sendCancelledStatus(nodeId: string): void {
+    console.log(`[AICore] 任务已取消: nodeId=${nodeId}`);
+    this.sendStatusUpdate({
+      nodeId,
+      status: 'CANCELLED',
+    });
+  }
+
   /**
    * 记录任务执行时长
    */
@@ -252,8 +353,8 @@ export class AICore {
 
   /**
    * 发送状态更新到渲染进程
-   * 在发送 SUCCESS 状态时，先自动下载资源到本地，再发送状态更新（确保持久化）
-   * 注意：资源下载在后台进行，不阻塞状态更新
+   * SUCCESS 状态先自动下载资源到本地（视频按需转码），下载完成后只发送一次携带本地路径的 SUCCESS，
+   * 避免渲染进程（如工作流执行器）先拿到会过期的远程 URL
    * 
    * @param packet 状态数据包
    * @param input 原始输入参数（包含 prompt、model 等信息）
@@ -265,8 +366,17 @@ export class AICore {
       nodeId: packet.nodeId != null ? String(packet.nodeId).trim() : '',
     };
 
-    // 先立即发送状态更新（不等待资源下载），确保 UI 及时响应
-    if (this.mainWindow && !this.mainWindow.isDestroyed()) {
+    // Provider 未携带错误分类码时，按错误消息补充分类，保证前端总能拿到 errorCode
+    if (normalizedPacket.status === 'ERROR' && !normalizedPacket.payload?.errorCode) {
+      normalizedPacket.payload = {
+        ...normalizedPacket.payload,
+        errorCode: classifyErrorMessage(normalizedPacket.payload?.error),
+      };
+    }
+
+    // 非 SUCCESS 状态立即发送；SUCCESS 等资源落地后再发送（见下方）
+    const isSuccessWithPayload = normalizedPacket.status === 'SUCCESS' && !!normalizedPacket.payload;
+    if (!isSuccessWithPayload && this.mainWindow && !this.mainWindow.isDestroyed()) {
       // 调试日志：记录发送的状态更新，确保路径正确编码
       const hasText = !!(normalizedPacket.payload as any)?.text;
       const textLength = (normalizedPacket.payload as any)?.text?.length || 0;
@@ -295,7 +405,7 @@ export class AICore {
     }
 
     // 如果是 SUCCESS 状态且包含图片或视频 URL，在后台下载资源
-    if (normalizedPacket.status === 'SUCCESS' && normalizedPacket.payload) {
+    if (isSuccessWithPayload && normalizedPacket.payload) {
       const { imageUrl, videoUrl, text } = normalizedPacket.payload;
 
       // 从 input 中提取元数据信息
@@ -370,7 +480,16 @@ export class AICore {
         normalizedPacket.payload.originalVideoUrl = originalVideoUrl; // 保存原始远程 URL
         
         console.log(`[持久化] 开始下载视频: ${videoUrl}`);
-        const localPath = await autoDownloadResource(videoUrl, 'video', metadata);
+        // 不兼容的视频在下载后转码，通过 PROCESSING 包回报进度（最终仍以下面的 SUCCESS 包交付本地视频）
+        const localPath = await autoDownloadResource(videoUrl, 'video', metadata, {
+          onTranscodeProgress: (progress) => {
+            this.safeSend('ai:status-update', {
+              nodeId: normalizedPacket.nodeId,
+              status: 'PROCESSING',
+              payload: { progress, text: `正在转码为 H.264 ${progress}%` },
+            } as AIStatusPacket);
+          },
+        });
         if (localPath) {
           // 将本地路径转换为 local-resource:// URL
           // 确保路径格式正确：Windows 路径 C:\Users -> C:/Users
@@ -431,7 +550,7 @@ export class AICore {
         }
       }
 
-      // 资源下载完成后，发送更新后的状态（包含本地路径）
+      // 资源下载完成后发送唯一的 SUCCESS（包含本地路径；下载失败时保留远程 URL）
       console.log(`[AICore] 发送状态更新（包含本地路径）: nodeId=${normalizedPacket.nodeId}, status=${normalizedPacket.status}, hasPayload=${!!normalizedPacket.payload}, localPath=${(normalizedPacket.payload as any)?.localPath || 'none'}`);
       this.safeSend('ai:status-update', normalizedPacket);
     }
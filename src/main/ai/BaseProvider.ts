@@ -3,7 +3,9 @@
  * 所有未来接入的 AI 模型必须继承此类
  */
 
-import { AIExecuteParams, AIStatusPacket } from './types.js';
+import { AIErrorCode, AIExecuteParams, AIResumeParams, AIStatusPacket } from './types.js';
+import { sleepWithSignal, throwIfCancelled } from './utils/Cancellation.js';
+import { classifyError, RetryOptions, withRetry } from './utils/Retry.js';
 
 /**
  * BaseProvider 抽象基类
@@ -22,11 +24,21 @@ export abstract class BaseProvider {
    * @param params.nodeId 节点 ID
    * @param params.input 模型特定的输入参数
    * @param params.onStatus 状态回调函数，用于实时推送任务状态
+   * @param params.signal 取消信号，中断后应尽快停止轮询并抛出取消错误
    * 
    * @returns Promise<void> 任务完成或失败
    */
   abstract execute(params: AIExecuteParams): Promise<void>;
 
+  /**
+   * 恢复应用重启前未完成的远程任务（可选实现）
+   * 支持异步任务（提交后返回 taskId 再轮询）的 Provider 实现此方法，
+   * 并在 execute 中拿到 taskId 后调用 params.onTaskSubmitted
+   * 
+   * @param params 执行参数，额外包含远程任务 ID
+   */
+  resume?(params: AIResumeParams): Promise<void>;
+
   /**
    * 验证输入参数
    * 子类可以重写此方法以实现自定义验证逻辑
@@ -58,4 +70,43 @@ export abstract class BaseProvider {
       payload,
     };
   }
+
+  /**
+   * 可中断的等待（轮询间隔统一使用此方法）
+   * 
+   * @param ms 等待毫秒数
+   * @param signal 取消信号，中断时立即抛出 AICancelledError
+   */
+  protected sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return sleepWithSignal(ms, signal);
+  }
+
+  /**
+   * 检查任务是否已被取消，已取消则抛出 AICancelledError
+   * 
+   * @param signal 取消信号
+   */
+  protected throwIfCancelled(signal?: AbortSignal): void {
+    throwIfCancelled(signal);
+  }
+
+  /**
+   * 以指数退避重试执行网络调用（仅对超时、5xx、429 等瞬时错误重试）
+   * 提交类请求需传 idempotent: false，避免结果不确定时重复提交导致重复扣费
+   * 
+   * @param fn 实际调用
+   * @param options 重试选项
+   */
+  protected withRetry<T>(fn: () => Promise<T>, options?: RetryOptions): Promise<T> {
+    return withRetry(fn, options);
+  }
+
+  /**
+   * 获取错误分类码，用于 ERROR 包的 payload.errorCode
+   * 
+   * @param error 捕获到的错误
+   */
+  protected getErrorCode(error: unknown): AIErrorCode {
+    return classifyError(error).code;
+  }
 }
@@ -0,0 +1,213 @@
+/**
+ * AI 插件化架构 - 并发与限流调度器
+ * 按 Provider（如 'video'）和上游模型（如 'video:sora-2'）分别限制并发数与每分钟请求数，
+ * 超出限额的任务进入队列，按优先级通道依次放行，避免批量运行时触发上游 429
+ */
+
+import { store } from '../services/store.js';
+import { AIPriority } from './types.js';
+import { AICancelledError } from './utils/Cancellation.js';
+
+/**
+ * 单个调度键的限额
+ */
+export interface SchedulerLimit {
+  maxConcurrent?: number; // 最大并发数（不填表示不限）
+  requestsPerMinute?: number; // 每分钟最多启动的请求数（不填表示不限）
+}
+
+/**
+ * 默认限额：键为 Provider 的 modelId，或 `${modelId}:${上游模型}`
+ * 可通过 store 的 aiSchedulerLimits 覆盖
+ */
+const DEFAULT_LIMITS: Record<string, SchedulerLimit> = {
+  image: { maxConcurrent: 20 },
+  video: { maxConcurrent: 10, requestsPerMinute: 30 },
+  chat: { maxConcurrent: 10, requestsPerMinute: 60 },
+  audio: { maxConcurrent: 5, requestsPerMinute: 20 },
+  'video:sora-2': { maxConcurrent: 5 },
+  'video:sora-2-pro': { maxConcurrent: 3 },
+  'video:kling-v2.6-pro': { maxConcurrent: 3 },
+};
+
+const PRIORITY_ORDER: Record<AIPriority, number> = { high: 0, normal: 1, low: 2 };
+const RATE_WINDOW_MS = 60 * 1000;
+
+interface QueueEntry {
+  taskKey: string;
+  keys: string[];
+  priority: AIPriority;
+  seq: number;
+  start: () => void;
+  cancel: () => void;
+  onQueuePosition?: (position: number) => void;
+  lastReportedPosition?: number;
+}
+
+/**
+ * 并发与限流调度器
+ */
+export class AIScheduler {
+  private queue: QueueEntry[] = [];
+  private active = new Map<string, number>(); // 调度键 -> 运行中任务数
+  private startTimes = new Map<string, number[]>(); // 调度键 -> 最近一分钟内的启动时间
+  private seq = 0;
+  private pumpTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * 获取任务对应的调度键（Provider 级 + 上游模型级）
+   */
+  getKeys(modelId: string, input: any): string[] {
+    const keys = [modelId];
+    const upstreamModel = typeof input?.model === 'string' ? input.model.trim() : '';
+    if (upstreamModel) keys.push(`${modelId}:${upstreamModel}`);
+    return keys;
+  }
+
+  /**
+   * 在限额内执行任务：有空位立即执行，否则排队等待
+   *
+   * @param options.taskKey 任务标识（`${projectId}:${nodeId}`，用于取消排队）
+   * @param options.keys 调度键
+   * @param options.priority 优先级通道
+   * @param options.onQueuePosition 排队位置变化时回调（从 1 开始）
+   * @param task 实际执行的任务
+   */
+  run<T>(
+    options: { taskKey: string; keys: string[]; priority?: AIPriority; onQueuePosition?: (position: number) => void },
+    task: () => Promise<T>
+  ): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const entry: QueueEntry = {
+        taskKey: options.taskKey,
+        keys: options.keys,
+        priority: options.priority || 'normal',
+        seq: this.seq++,
+        onQueuePosition: options.onQueuePosition,
+        start: () => {
+          this.acquire(entry.keys);
+          task()
+            .then(resolve, reject)
+            .finally(() => {
+              this.release(entry.keys);
+              this.pump();
+            });
+        },
+        cancel: () => reject(new AICancelledError()),
+      };
+
+      this.queue.push(entry);
+      this.queue.sort((a, b) => PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority] || a.seq - b.seq);
+      this.pump();
+    });
+  }
+
+  /**
+   * 任务是否在排队
+   */
+  isQueued(taskKey: string): boolean {
+    return this.queue.some((entry) => entry.taskKey === taskKey);
+  }
+
+  /**
+   * 取消排队中的任务
+   *
+   * @returns 是否找到并移出了队列
+   */
+  cancelQueued(taskKey: string): boolean {
+    const index = this.queue.findIndex((entry) => entry.taskKey === taskKey);
+    if (index === -1) return false;
+    const [entry] = this.queue.splice(index, 1);
+    console.log(`[调度器] 取消排队中的任务: ${taskKey}`);
+    entry.cancel();
+    this.reportQueuePositions();
+    return true;
+  }
+
+  /**
+   * 读取限额（store 中的自定义配置优先）
+   */
+  private getLimit(key: string): SchedulerLimit {
+    const overrides = (store.get('aiSchedulerLimits') as Record<string, SchedulerLimit> | undefined) || {};
+    return { ...DEFAULT_LIMITS[key], ...overrides[key] };
+  }
+
+  /**
+   * 返回该键需要等待的毫秒数，0 表示可以立即启动
+   */
+  private getWaitMs(key: string, now: number): number {
+    const limit = this.getLimit(key);
+    if (limit.maxConcurrent != null && (this.active.get(key) || 0) >= limit.maxConcurrent) {
+      return Infinity; // 等待运行中任务结束
+    }
+    if (limit.requestsPerMinute != null) {
+      const recent = (this.startTimes.get(key) || []).filter((t) => now - t < RATE_WINDOW_MS);
+      this.startTimes.set(key, recent);
+      if (recent.length >= limit.requestsPerMinute) {
+        return recent[0] + RATE_WINDOW_MS - now;
+      }
+    }
+    return 0;
+  }
+
+  private acquire(keys: string[]): void {
+    const now = Date.now();
+    keys.forEach((key) => {
+      this.active.set(key, (this.active.get(key) || 0) + 1);
+      const times = this.startTimes.get(key) || [];
+      times.push(now);
+      this.startTimes.set(key, times);
+    });
+  }
+
+  private release(keys: string[]): void {
+    keys.forEach((key) => {
+      this.active.set(key, Math.max(0, (this.active.get(key) || 0) - 1));
+    });
+  }
+
+  /**
+   * 按优先级顺序放行所有满足限额的任务；仅受每分钟限额阻塞时，定时重试
+   */
+  private pump(): void {
+    if (this.pumpTimer) {
+      clearTimeout(this.pumpTimer);
+      this.pumpTimer = null;
+    }
+
+    const now = Date.now();
+    let nextRetryMs = Infinity;
+    for (let i = 0; i < this.queue.length; ) {
+      const entry = this.queue[i];
+      const waitMs = Math.max(...entry.keys.map((key) => this.getWaitMs(key, now)));
+      if (waitMs === 0) {
+        this.queue.splice(i, 1);
+        entry.start();
+        continue;
+      }
+      nextRetryMs = Math.min(nextRetryMs, waitMs);
+      i++;
+    }
+
+    if (nextRetryMs !== Infinity) {
+      this.pumpTimer = setTimeout(() => this.pump(), Math.max(50, nextRetryMs));
+    }
+    this.reportQueuePositions();
+  }
+
+  /**
+   * 通知排队任务的当前位置（同一 Provider 内从 1 开始计数，仅在位置变化时通知）
+   */
+  private reportQueuePositions(): void {
+    const counters = new Map<string, number>();
+    this.queue.forEach((entry) => {
+      const providerKey = entry.keys[0];
+      const position = (counters.get(providerKey) || 0) + 1;
+      counters.set(providerKey, position);
+      if (entry.lastReportedPosition !== position) {
+        entry.lastReportedPosition = position;
+        entry.onQueuePosition?.(position);
+      }
+    });
+  }
+}
@@ -0,0 +1,1009 @@
+/**
+ * 模型目录（声明式）
+ * 描述每个视频 / 图片模型的 Provider、接口地址、支持的生成模式、参数、参考图数量限制与价格，
+ * 主进程 VideoProvider / ImageProvider 与渲染进程输入面板、价格计算共用此目录，新增模型只需在此登记
+ *
+ * 注意：本文件会被渲染进程直接引用，不得依赖 Node / Electron 模块
+ */
+
+/** RunningHub 插件算力 OpenAPI 根地址 */
+export const RUNNINGHUB_OPENAPI_BASE = 'https://www.runninghub.cn/openapi/v2';
+
+/**
+ * 视频生成模式
+ * - t2v: 文生视频（无参考图）
+ * - i2v: 图生视频
+ * - first-last-frame: 首尾帧生视频（恰好 2 张图）
+ * - reference: 参考视频生视频
+ */
+export type VideoGenerationMode = 't2v' | 'i2v' | 'first-last-frame' | 'reference';
+
+/** 模型所用的算力接口：runninghub 为插件算力，bltcy 为核心算力 */
+export type ModelProvider = 'runninghub' | 'bltcy';
+
+/** 图片生成模式：t2i 文生图，i2i 图生图 */
+export type ImageGenerationMode = 't2i' | 'i2i';
+
+/** 参数取值 */
+export type ModelParamValue = string | number | boolean | string[];
+
+/**
+ * 参数定义
+ * 输入面板按此渲染控件，批量运行按此构建请求；key 与节点数据字段名一致，写入请求时使用 payloadKey（缺省同 key）
+ * - enum: 下拉选择；取值不在 options 中时回落到 default
+ * - range: 滑块，取值限制在 min–max
+ * - boolean: 复选框；以字符串存储时使用 trueValue / falseValue
+ * - image-slot: 由画布连线提供的参考图（字符串数组），数量限制在 min–max，面板只展示数量
+ * - text: 单行文本，去除首尾空白后为空则不写入请求
+ */
+export interface ModelParamSpec {
+  key: string;
+  payloadKey?: string;
+  label: string;
+  type: 'enum' | 'range' | 'boolean' | 'image-slot' | 'text';
+  options?: readonly { value: string; label: string }[]; // enum
+  min?: number; // range 取值范围 / image-slot 图片数量范围
+  max?: number;
+  step?: number;
+  /** boolean 参数以字符串存储时的取值（如 kling 的 sound: 'true' | 'false'） */
+  trueValue?: string;
+  falseValue?: string;
+  default?: string | number | boolean;
+  required?: boolean; // text 是否必填
+  description?: string;
+  /** 显示条件：仅在指定生成模式下显示；隐藏的参数不校验、不写入请求 */
+  visibleWhen?: { modes: readonly (VideoGenerationMode | ImageGenerationMode)[] };
+  /**
+   * 写入视频接口请求体的方式（VideoProvider 使用，缺省以 key 为字段名原样写入）
+   * - key: 请求体字段名；为 null 时不写入，仅用于面板展示与计价
+   * - values: 取值映射（如万相2.6 文生视频按比例换算分辨率）
+   * - modes: 仅在指定生成模式下写入
+   */
+  request?: { key?: string | null; values?: Record<string, string>; modes?: readonly VideoGenerationMode[] };
+}
+
+/**
+ * 参考图写入视频接口请求体的字段（图片先上传 OSS 换成公网 URL）
+ * - 字段名数组：按顺序一张图对应一个字段（如首帧、尾帧），图片不足时不写入多余字段
+ * - { list }: 全部图片以 URL 数组写入该字段
+ */
+export type VideoImageFields = readonly string[] | { list: string };
+
+/**
+ * 价格规则（元/次）
+ * - fixed: 固定价格
+ * - table: 按参数取值查表，键为 keys 对应取值以 '|' 拼接
+ * - perSecond: 按秒计费，单价按 keys 查表，秒数取 secondsKey
+ */
+export type PriceRule =
+  | { type: 'fixed'; price: number }
+  | { type: 'table'; keys: readonly string[]; prices: Record<string, number>; fallback?: number | null }
+  | { type: 'perSecond'; secondsKey: string; keys: readonly string[]; rates: Record<string, number> };
+
+/**
+ * 视频模型描述
+ */
+export interface VideoModelSpec {
+  id: string;
+  label: string; // 模型选择器中的名称
+  /** 不同模式下选择器中的名称（缺省使用 label） */
+  modeLabels?: Partial<Record<VideoGenerationMode, string>>;
+  name: string; // 完整名称，用于日志与错误提示
+  provider: ModelProvider;
+  modes: readonly VideoGenerationMode[];
+  /** 各模式的接口路径（相对 RUNNINGHUB_OPENAPI_BASE） */
+  endpoints: Partial<Record<VideoGenerationMode, string>>;
+  /** 图生 / 首尾帧模式下参考图数量范围 */
+  refImages?: { min: number; max: number };
+  params: readonly ModelParamSpec[]; // 第一项为比例
+  notes?: string; // 面板中展示的固定说明（如固定时长）
+  price?: PriceRule;
+  /** 请求体中的固定字段（参数取值会覆盖同名字段） */
+  fixedFields?: Record<string, ModelParamValue>;
+  /** 各模式下参考图写入请求体的字段 */
+  imageFields?: Partial<Record<VideoGenerationMode, VideoImageFields>>;
+  /** 查询结果中视频 URL 的取值路径，按顺序尝试（缺省 RUNNINGHUB_RESULT_PATHS） */
+  resultPaths?: readonly string[];
+  /** 已下线模型的提示信息（不再出现在选择器中，运行时直接报错） */
+  deprecated?: string;
+}
+
+/**
+ * 图片模型描述
+ */
+export interface ImageModelSpec {
+  id: string;
+  label: string;
+  provider: ModelProvider;
+  modes: readonly ImageGenerationMode[];
+  maxRefImages: number; // 图生图模式下最多参考图数量
+  /** 可用于局部重绘：没有独立蒙版参数，原图与蒙版作为前两张参考图传入 */
+  inpaint?: boolean;
+  params: readonly ModelParamSpec[];
+  price?: PriceRule;
+}
+
+const DURATION_OPTIONS = (values: string[]) => values.map((v) => ({ value: v, label: `${v.replace(/s$/, '')}s` }));
+
+const KLING_O1_PARAMS: ModelParamSpec[] = [
+  {
+    key: 'durationKlingO1',
+    label: '时长',
+    type: 'enum',
+    options: DURATION_OPTIONS(['5', '10']),
+    default: '5',
+    request: { key: 'duration' },
+  },
+  {
+    key: 'modeKlingO1',
+    label: '模式',
+    type: 'enum',
+    options: [
+      { value: 'std', label: 'std' },
+      { value: 'pro', label: 'pro' },
+    ],
+    default: 'std',
+    request: { key: 'mode' },
+  },
+];
+
+const KLING_O1_PRICE: PriceRule = {
+  type: 'table',
+  keys: ['durationKlingO1', 'modeKlingO1'],
+  prices: { '5|std': 2.1, '10|std': 4.2, '5|pro': 2.8, '10|pro': 5.6 },
+  fallback: null,
+};
+
+const HAILUO_PARAMS: ModelParamSpec[] = [
+  {
+    key: 'durationHailuo02',
+    label: '时长',
+    type: 'enum',
+    options: DURATION_OPTIONS(['6', '10']),
+    default: '6',
+    request: { key: 'duration' },
+  },
+];
+
+/** 海螺系列接口默认开启提示词扩写 */
+const HAILUO_FIXED_FIELDS = { enablePromptExpansion: true };
+
+const HAILUO_PRICE: PriceRule = { type: 'table', keys: ['durationHailuo02'], prices: { '6': 1.5, '10': 3 }, fallback: 1.5 };
+
+const RHART_V31_RESOLUTION: ModelParamSpec = {
+  key: 'resolutionRhartV31',
+  label: '分辨率',
+  type: 'enum',
+  options: [
+    { value: '720p', label: '720p' },
+    { value: '1080p', label: '1080p' },
+    { value: '4k', label: '4k' },
+  ],
+  default: '1080p',
+  request: { key: 'resolution' },
+};
+
+/** 全能视频V3.1 固定时长 8 秒 */
+const RHART_V31_FIXED_FIELDS = { duration: '8' };
+
+/** 首尾帧模式：两张参考图依次为首帧、尾帧 */
+const RHART_V31_FRAME_FIELDS = { 'first-last-frame': ['firstFrameUrl', 'lastFrameUrl'] } as const;
+
+const RHART_V31_FAST_PRICE: PriceRule = {
+  type: 'table',
+  keys: ['resolutionRhartV31'],
+  prices: { '720p': 0.2, '1080p': 0.25, '4k': 0.5 },
+  fallback: 0.25,
+};
+
+const RHART_V31_PRO_PRICE: PriceRule = {
+  type: 'table',
+  keys: ['resolutionRhartV31'],
+  prices: { '720p': 0.8, '1080p': 1, '4k': 1.4 },
+  fallback: 1,
+};
+
+const SHOT_TYPE: ModelParamSpec = {
+  key: 'shotType',
+  label: '镜头',
+  type: 'enum',
+  options: [
+    { value: 'single', label: '单镜头' },
+    { value: 'multi', label: '多镜头' },
+  ],
+  default: 'single',
+};
+
+const RESOLUTION_WAN26: ModelParamSpec = {
+  key: 'resolutionWan26',
+  label: '分辨率',
+  type: 'enum',
+  options: [
+    { value: '720p', label: '720p' },
+    { value: '1080p', label: '1080p' },
+  ],
+  default: '1080p',
+  request: { key: 'resolution' },
+};
+
+const NEGATIVE_PROMPT: ModelParamSpec = { key: 'negativePrompt', label: '反向提示词', type: 'text', default: '' };
+
+const SORA_PRO_DURATION: ModelParamSpec = {
+  key: 'duration',
+  label: '时长',
+  type: 'enum',
+  options: DURATION_OPTIONS(['15', '25']),
+  default: '15',
+};
+
+/** 比例选项的显示名称 */
+const ASPECT_RATIO_LABELS: Record<string, string> = {
+  '16:9': '16:9 横屏',
+  '9:16': '9:16 竖屏',
+  '1:1': '1:1 方形',
+};
+
+const aspectRatioParam = (options: readonly { value: string; label: string }[], defaultValue = options[0].value): ModelParamSpec => ({
+  key: 'aspectRatio',
+  payloadKey: 'aspect_ratio',
+  label: '比例',
+  type: 'enum',
+  options,
+  default: defaultValue,
+});
+
+const videoAspectRatios = (ratios: string[]) =>
+  aspectRatioParam(ratios.map((r) => ({ value: r, label: ASPECT_RATIO_LABELS[r] || r })));
+
+const ASPECT_RATIO_LANDSCAPE_PORTRAIT = videoAspectRatios(['16:9', '9:16']);
+const ASPECT_RATIO_KLING = videoAspectRatios(['16:9', '9:16', '1:1']);
+
+/** 接口没有比例参数的模型：比例仅用于面板展示 */
+const ASPECT_RATIO_DISPLAY_ONLY: ModelParamSpec = { ...ASPECT_RATIO_LANDSCAPE_PORTRAIT, request: { key: null } };
+
+/** 单张参考图写入 imageUrl 字段 */
+const SINGLE_IMAGE_FIELDS = { i2v: ['imageUrl'] } as const;
+
+/** RunningHub 通用查询接口中视频 URL 的路径 */
+export const RUNNINGHUB_RESULT_PATHS = ['results.0.url', 'data.results.0.url'] as const;
+
+/**
+ * 视频模型目录（顺序即模型选择器中的显示顺序）
+ */
+export const VIDEO_MODELS = [
+  {
+    id: 'sora-2',
+    label: 'Sora2',
+    name: 'Sora2',
+    provider: 'runninghub',
+    modes: ['t2v', 'i2v'],
+    endpoints: { t2v: 'rhart-video-s/text-to-video', i2v: 'rhart-video-s/image-to-video' },
+    refImages: { min: 1, max: 1 },
+    params: [
+      ASPECT_RATIO_LANDSCAPE_PORTRAIT,
+      { key: 'duration', label: '时长', type: 'enum', options: DURATION_OPTIONS(['10', '15']), default: '10' },
+    ],
+    imageFields: SINGLE_IMAGE_FIELDS,
+    price: { type: 'fixed', price: 0.5 },
+  },
+  {
+    id: 'sora-2-pro',
+    label: 'Sora2 Pro',
+    name: 'Sora2 Pro 文生视频',
+    provider: 'runninghub',
+    modes: ['t2v'],
+    endpoints: { t2v: 'rhart-video-s/text-to-video-pro' },
+    params: [ASPECT_RATIO_LANDSCAPE_PORTRAIT, SORA_PRO_DURATION],
+    fixedFields: { storyboard: false },
+    price: { type: 'fixed', price: 2 },
+  },
+  {
+    id: 'rhart-video-s-i2v-pro',
+    label: 'Sora2 Pro',
+    name: '全能视频S-图生视频-pro',
+    provider: 'runninghub',
+    modes: ['i2v'],
+    endpoints: { i2v: 'rhart-video-s/image-to-video-pro' },
+    refImages: { min: 1, max: 1 },
+    params: [ASPECT_RATIO_LANDSCAPE_PORTRAIT, SORA_PRO_DURATION],
+    fixedFields: { storyboard: false },
+    imageFields: SINGLE_IMAGE_FIELDS,
+    price: { type: 'fixed', price: 2 },
+  },
+  {
+    id: 'kling-v2.6-pro',
+    label: '可灵2.6 Pro',
+    name: 'kling-v2.6-pro',
+    provider: 'runninghub',
+    modes: ['t2v', 'i2v'],
+    endpoints: { t2v: 'kling-v2.6-pro/text-to-video', i2v: 'kling-v2.6-pro/image-to-video' },
+    refImages: { min: 1, max: 1 },
+    params: [
+      ASPECT_RATIO_KLING,
+      { key: 'duration', label: '时长', type: 'enum', options: DURATION_OPTIONS(['5', '10']), default: '10' },
+      {
+        key: 'guidanceScale',
+        label: '自由度',
+        type: 'range',
+        min: 0,
+        max: 1,
+        step: 0.1,
+        default: 0.5,
+        description: '生成视频的自由度，值越大与提示词相关性越强',
+      },
+      {
+        key: 'sound',
+        label: '声音',
+        type: 'boolean',
+        trueValue: 'true',
+        falseValue: 'false',
+        default: 'false',
+        description: '生成视频时是否同时生成声音',
+      },
+    ],
+    imageFields: SINGLE_IMAGE_FIELDS,
+    // 兼容可灵原生接口的结果格式
+    resultPaths: [...RUNNINGHUB_RESULT_PATHS, 'data.task_result.videos.0.url'],
+    price: {
+      type: 'table',
+      keys: ['duration', 'sound'],
+      prices: { '5|true': 3.5, '5|false': 1.75, '10|true': 7, '10|false': 3.5 },
+      fallback: null,
+    },
+  },
+  {
+    id: 'wan-2.6',
+    label: '万相 2.6',
+    name: '万相2.6',
+    provider: 'runninghub',
+    modes: ['t2v', 'i2v'],
+    endpoints: { t2v: 'alibaba/wan-2.6/text-to-video', i2v: 'alibaba/wan-2.6/image-to-video' },
+    refImages: { min: 1, max: 1 },
+    params: [
+      // 文生视频按比例换算分辨率；图生视频没有比例参数，使用下方分辨率
+      {
+        ...ASPECT_RATIO_LANDSCAPE_PORTRAIT,
+        request: { key: 'resolution', values: { '16:9': '1920*1080', '9:16': '1080*1920' }, modes: ['t2v'] },
+      },
+      { key: 'duration', label: '时长', type: 'enum', options: DURATION_OPTIONS(['5', '10', '15']), default: '5' },
+      SHOT_TYPE,
+      { ...RESOLUTION_WAN26, visibleWhen: { modes: ['i2v'] } }, // 文生视频不支持选择分辨率
+      NEGATIVE_PROMPT,
+    ],
+    fixedFields: { negativePrompt: '' },
+    imageFields: SINGLE_IMAGE_FIELDS,
+    price: {
+      type: 'table',
+      keys: ['resolutionWan26', 'duration'],
+      prices: {
+        '720p|5': 2.25,
+        '720p|10': 4.5,
+        '720p|15': 6.75,
+        '1080p|5': 3.75,
+        '1080p|10': 7.5,
+        '1080p|15': 11.25,
+      },
+      fallback: 4.5,
+    },
+  },
+  {
+    id: 'wan-2.6-flash',
+    label: '万相 2.6 flash',
+    name: '万相2.6 Flash',
+    provider: 'runninghub',
+    modes: ['i2v'],
+    endpoints: { i2v: 'alibaba/wan-2.6/image-to-video-flash' },
+    refImages: { min: 1, max: 1 },
+    params: [
+      ASPECT_RATIO_DISPLAY_ONLY,
+      {
+        key: 'durationWan26Flash',
+        label: '时长',
+        type: 'enum',
+        options: DURATION_OPTIONS(['2', '3', '4', '5', '6', '7', '8', '9', '10', '11', '12', '13', '14', '15']),
+        default: '5',
+        request: { key: 'duration' },
+      },
+      SHOT_TYPE,
+      RESOLUTION_WAN26,
+      { key: 'enableAudio', label: '生成音频', type: 'boolean', default: true, description: '生成带音频的视频' },
+      NEGATIVE_PROMPT,
+    ],
+    fixedFields: { negativePrompt: '', audioUrl: '', enablePromptExpansion: false },
+    imageFields: SINGLE_IMAGE_FIELDS,
+    price: {
+      type: 'perSecond',
+      secondsKey: 'durationWan26Flash',
+      keys: ['resolutionWan26', 'enableAudio'],
+      rates: { '720p|true': 0.23, '720p|false': 0.11, '1080p|true': 0.38, '1080p|false': 0.19 },
+    },
+  },
+  {
+    id: 'rhart-v3.1-fast',
+    label: 'Veo3.1 fast',
+    modeLabels: { i2v: 'Veo 3.1 fast' },
+    name: '全能视频V3.1-fast',
+    provider: 'runninghub',
+    modes: ['t2v', 'i2v'],
+    endpoints: { t2v: 'rhart-video-v3.1-fast/text-to-video', i2v: 'rhart-video-v3.1-fast/image-to-video' },
+    refImages: { min: 1, max: 3 },
+    params: [ASPECT_RATIO_LANDSCAPE_PORTRAIT, RHART_V31_RESOLUTION],
+    fixedFields: RHART_V31_FIXED_FIELDS,
+    imageFields: { i2v: { list: 'imageUrls' } },
+    price: RHART_V31_FAST_PRICE,
+  },
+  {
+    id: 'rhart-v3.1-fast-se',
+    label: 'Veo3.1 fast (首尾帧)',
+    name: '全能视频V3.1-fast 首尾帧生视频',
+    provider: 'runninghub',
+    modes: ['first-last-frame'],
+    endpoints: { 'first-last-frame': 'rhart-video-v3.1-fast/start-end-to-video' },
+    refImages: { min: 2, max: 2 },
+    params: [ASPECT_RATIO_LANDSCAPE_PORTRAIT, RHART_V31_RESOLUTION],
+    fixedFields: RHART_V31_FIXED_FIELDS,
+    imageFields: RHART_V31_FRAME_FIELDS,
+    price: RHART_V31_FAST_PRICE,
+  },
+  {
+    id: 'rhart-v3.1-pro',
+    label: 'Veo3.1 Pro',
+    name: '全能视频V3.1-pro',
+    provider: 'runninghub',
+    modes: ['t2v'],
+    endpoints: { t2v: 'rhart-video-v3.1-pro/text-to-video' },
+    params: [ASPECT_RATIO_LANDSCAPE_PORTRAIT, RHART_V31_RESOLUTION],
+    fixedFields: RHART_V31_FIXED_FIELDS,
+    notes: '时长: 8s',
+    price: RHART_V31_PRO_PRICE,
+  },
+  {
+    id: 'rhart-v3.1-pro-se',
+    label: 'Veo3.1 Pro (首尾帧)',
+    name: '全能视频V3.1-pro 首尾帧生视频',
+    provider: 'runninghub',
+    modes: ['first-last-frame'],
+    endpoints: { 'first-last-frame': 'rhart-video-v3.1-pro/start-end-to-video' },
+    refImages: { min: 2, max: 2 },
+    params: [ASPECT_RATIO_LANDSCAPE_PORTRAIT, RHART_V31_RESOLUTION],
+    fixedFields: RHART_V31_FIXED_FIELDS,
+    imageFields: RHART_V31_FRAME_FIELDS,
+    notes: '时长: 8s',
+    price: RHART_V31_PRO_PRICE,
+  },
+  {
+    id: 'rhart-video-g',
+    label: 'Grok',
+    modeLabels: { i2v: 'Grok 1.5（仅1张图）' },
+    name: '全能视频G（Grok 1.5）',
+    provider: 'runninghub',
+    modes: ['t2v', 'i2v'],
+    endpoints: { t2v: 'rhart-video-g/text-to-video', i2v: 'rhart-video-g/image-to-video' },
+    refImages: { min: 1, max: 1 },
+    params: [
+      videoAspectRatios(['2:3', '3:2', '1:1']),
+      {
+        key: 'durationRhartVideoG',
+        label: '时长',
+        type: 'enum',
+        options: DURATION_OPTIONS(['6s', '10s']),
+        default: '6s',
+        request: { key: 'duration' },
+      },
+    ],
+    fixedFields: { resolution: '720P' },
+    imageFields: { i2v: { list: 'imageUrls' } },
+    price: { type: 'table', keys: ['durationRhartVideoG'], prices: { '6s': 0.2, '10s': 0.35 }, fallback: 0.2 },
+  },
+  {
+    id: 'hailuo-02-t2v-standard',
+    label: '海螺 02 (标准)',
+    name: '海螺-02-文生视频-标准',
+    provider: 'runninghub',
+    modes: ['t2v'],
+    endpoints: { t2v: 'minimax/hailuo-02/t2v-standard' },
+    params: [ASPECT_RATIO_DISPLAY_ONLY, ...HAILUO_PARAMS],
+    fixedFields: HAILUO_FIXED_FIELDS,
+    price: HAILUO_PRICE,
+  },
+  {
+    id: 'hailuo-2.3-t2v-standard',
+    label: '海螺 2.3 (标准)',
+    name: '海螺-2.3-文生视频-标准',
+    provider: 'runninghub',
+    modes: ['t2v'],
+    endpoints: { t2v: 'minimax/hailuo-2.3/t2v-standard' },
+    params: [ASPECT_RATIO_DISPLAY_ONLY, ...HAILUO_PARAMS],
+    fixedFields: HAILUO_FIXED_FIELDS,
+    price: HAILUO_PRICE,
+  },
+  {
+    id: 'hailuo-02-i2v-standard',
+    label: '海螺 02 (标准)',
+    modeLabels: { 'first-last-frame': '海螺 02 (首尾帧)' },
+    name: '海螺-02-图生视频-标准',
+    provider: 'runninghub',
+    modes: ['i2v', 'first-last-frame'],
+    // 同一接口：1 张图为首帧，2 张图为首帧+尾帧
+    endpoints: { i2v: 'minimax/hailuo-02/i2v-standard', 'first-last-frame': 'minimax/hailuo-02/i2v-standard' },
+    refImages: { min: 1, max: 2 },
+    params: [ASPECT_RATIO_DISPLAY_ONLY, ...HAILUO_PARAMS],
+    fixedFields: HAILUO_FIXED_FIELDS,
+    imageFields: {
+      i2v: ['firstImageUrl', 'lastImageUrl'],
+      'first-last-frame': ['firstImageUrl', 'lastImageUrl'],
+    },
+    price: HAILUO_PRICE,
+  },
+  {
+    id: 'hailuo-2.3-i2v-standard',
+    label: '海螺 2.3 (标准)',
+    name: '海螺-2.3-图生视频-标准',
+    provider: 'runninghub',
+    modes: ['i2v'],
+    endpoints: { i2v: 'minimax/hailuo-2.3/i2v-standard' },
+    refImages: { min: 1, max: 1 },
+    params: [ASPECT_RATIO_DISPLAY_ONLY, ...HAILUO_PARAMS],
+    fixedFields: HAILUO_FIXED_FIELDS,
+    imageFields: SINGLE_IMAGE_FIELDS,
+    price: HAILUO_PRICE,
+  },
+  {
+    id: 'kling-video-o1',
+    label: '可灵O1',
+    name: '可灵文生视频o1',
+    provider: 'runninghub',
+    modes: ['t2v'],
+    endpoints: { t2v: 'kling-video-o1/text-to-video' },
+    params: [ASPECT_RATIO_KLING, ...KLING_O1_PARAMS],
+    price: KLING_O1_PRICE,
+  },
+  {
+    id: 'kling-video-o1-i2v',
+    label: '可灵 O1',
+    name: '可灵图生视频o1',
+    provider: 'runninghub',
+    modes: ['i2v'],
+    endpoints: { i2v: 'kling-video-o1/image-to-video' },
+    refImages: { min: 1, max: 1 },
+    params: [ASPECT_RATIO_KLING, ...KLING_O1_PARAMS],
+    imageFields: { i2v: ['firstImageUrl'] },
+    price: KLING_O1_PRICE,
+  },
+  {
+    id: 'kling-video-o1-start-end',
+    label: '可灵O1 (首尾帧)',
+    name: '可灵首尾帧生视频o1',
+    provider: 'runninghub',
+    modes: ['first-last-frame'],
+    endpoints: { 'first-last-frame': 'kling-video-o1/start-to-end' },
+    refImages: { min: 2, max: 2 },
+    params: [ASPECT_RATIO_KLING, ...KLING_O1_PARAMS],
+    imageFields: { 'first-last-frame': ['firstImageUrl', 'lastImageUrl'] },
+    // 可灵首尾帧未提供定价
+  },
+  {
+    id: 'kling-video-o1-ref',
+    label: '可灵O1 (参考)',
+    name: '可灵参考生视频o1',
+    provider: 'runninghub',
+    modes: ['reference'],
+    endpoints: {},
+    params: [ASPECT_RATIO_KLING, 
+      ...KLING_O1_PARAMS,
+      { key: 'keepOriginalSound', label: '保留参考视频原声', type: 'boolean', default: false },
+    ],
+    price: {
+      type: 'table',
+      keys: ['durationKlingO1', 'modeKlingO1'],
+      prices: { '5|std': 3.15, '10|std': 6.3, '5|pro': 4.2, '10|pro': 8.4 },
+      fallback: 3.15,
+    },
+    deprecated: '可灵O1 (参考) 模型已下线，请切换为其他模型（如可灵O1）。',
+  },
+] as const satisfies readonly VideoModelSpec[];
+
+/** 视频模型 ID */
+export type VideoModelId = (typeof VIDEO_MODELS)[number]['id'];
+
+/** 图片通用比例 */
+const IMAGE_ASPECT_RATIO_GENERAL = aspectRatioParam([
+  { value: '1:1', label: '1:1 (正方形)' },
+  { value: '2:3', label: '2:3 (纵向)' },
+  { value: '3:2', label: '3:2 (横向)' },
+  { value: '3:4', label: '3:4 (纵向)' },
+  { value: '4:3', label: '4:3 (横向)' },
+  { value: '4:5', label: '4:5 (纵向)' },
+  { value: '5:4', label: '5:4 (横向)' },
+  { value: '9:16', label: '9:16 (纵向)' },
+  { value: '16:9', label: '16:9 (横向)' },
+  { value: '21:9', label: '21:9 (超宽屏)' },
+]);
+
+/**
+ * 图片模型目录（顺序即模型选择器中的显示顺序）
+ */
+export const IMAGE_MODELS = [
+  {
+    id: 'nano-banana-2',
+    label: 'Nano banana Pro 1K',
+    provider: 'runninghub',
+    modes: ['t2i', 'i2i'],
+    maxRefImages: 5,
+    inpaint: true,
+    params: [IMAGE_ASPECT_RATIO_GENERAL],
+    price: { type: 'fixed', price: 0.2 },
+  },
+  {
+    id: 'nano-banana-2-2k',
+    label: 'Nano banana Pro 2K',
+    provider: 'runninghub',
+    modes: ['t2i', 'i2i'],
+    maxRefImages: 5,
+    inpaint: true,
+    params: [IMAGE_ASPECT_RATIO_GENERAL],
+    price: { type: 'fixed', price: 0.2 },
+  },
+  {
+    id: 'nano-banana-2-4k',
+    label: 'Nano banana Pro 4K',
+    provider: 'runninghub',
+    modes: ['t2i', 'i2i'],
+    maxRefImages: 5,
+    inpaint: true,
+    params: [IMAGE_ASPECT_RATIO_GENERAL],
+    price: { type: 'fixed', price: 0.3 },
+  },
+  {
+    id: 'youchuan-text-to-image-v7',
+    label: 'Midjourney v7',
+    provider: 'runninghub',
+    modes: ['t2i'],
+    maxRefImages: 0,
+    params: [IMAGE_ASPECT_RATIO_GENERAL],
+    price: { type: 'fixed', price: 0.54 },
+  },
+  {
+    id: 'rhart-image-g-1.5',
+    label: 'Grok 1.5',
+    provider: 'runninghub',
+    modes: ['t2i', 'i2i'],
+    maxRefImages: 2,
+    // 全能图片G-1.5 仅支持 auto / 1:1 / 3:2 / 2:3
+    params: [
+      aspectRatioParam(
+        [
+          { value: 'auto', label: 'auto (自动)' },
+          { value: '1:1', label: '1:1 (正方形)' },
+          { value: '3:2', label: '3:2 (横向)' },
+          { value: '2:3', label: '2:3 (纵向)' },
+        ],
+        '2:3'
+      ),
+    ],
+    price: { type: 'fixed', price: 0.03 },
+  },
+  {
+    id: 'seedream-v4.5',
+    label: 'Seedream 4.5',
+    provider: 'runninghub',
+    modes: ['t2i', 'i2i'],
+    maxRefImages: 10,
+    inpaint: true,
+    // seedream-v4.5 使用固定 8 档比例→宽高映射
+    params: [
+      aspectRatioParam([
+        { value: '1:1', label: '1:1 (正方形 2048×2048)' },
+        { value: '2:3', label: '2:3 (纵向 1664×2496)' },
+        { value: '3:2', label: '3:2 (横向 2496×1664)' },
+        { value: '3:4', label: '3:4 (纵向 1728×2304)' },
+        { value: '4:3', label: '4:3 (横向 2304×1728)' },
+        { value: '9:16', label: '9:16 (纵向 1440×2560)' },
+        { value: '16:9', label: '16:9 (横向 2560×1440)' },
+        { value: '21:9', label: '21:9 (超宽屏 3024×1296)' },
+      ]),
+    ],
+    price: { type: 'fixed', price: 0.2 },
+  },
+] as const satisfies readonly ImageModelSpec[];
+
+/** 图片模型 ID */
+export type ImageModelId = (typeof IMAGE_MODELS)[number]['id'];
+
+/**
+ * 查找视频模型
+ */
+export function getVideoModel(model: string | undefined): VideoModelSpec | undefined {
+  return (VIDEO_MODELS as readonly VideoModelSpec[]).find((m) => m.id === model);
+}
+
+/**
+ * 查找图片模型
+ */
+export function getImageModel(model: string | undefined): ImageModelSpec | undefined {
+  return (IMAGE_MODELS as readonly ImageModelSpec[]).find((m) => m.id === model);
+}
+
+/**
+ * 图片模型是否可用于局部重绘（需能同时接收原图与蒙版两张参考图）
+ */
+export function supportsInpaint(spec: ImageModelSpec | undefined): boolean {
+  return !!spec?.inpaint && spec.maxRefImages >= 2;
+}
+
+/**
+ * 根据参考图数量推断生成模式：0 张为文生；2 张且模型支持首尾帧时为首尾帧；其余为图生
+ */
+export function resolveVideoMode(spec: VideoModelSpec, imageCount: number): VideoGenerationMode {
+  if (spec.modes.includes('reference')) return 'reference';
+  if (imageCount === 0) return 't2v';
+  if (imageCount === 2 && spec.modes.includes('first-last-frame')) return 'first-last-frame';
+  return spec.modes.includes('i2v') ? 'i2v' : spec.modes[0];
+}
+
+/**
+ * 校验模型与参考图数量是否匹配
+ *
+ * @returns 错误提示；通过校验时返回 null
+ */
+export function validateVideoModelInput(model: string, imageCount: number): string | null {
+  const spec = getVideoModel(model);
+  if (!spec) return null; // 未登记的模型交由核心算力接口处理
+  if (spec.deprecated) return spec.deprecated;
+
+  const supportsT2v = spec.modes.includes('t2v');
+  const refImages = spec.refImages;
+  if (imageCount === 0) {
+    if (supportsT2v || spec.modes.includes('reference')) return null;
+    const count = refImages && refImages.min === refImages.max ? `${refImages.min}` : `${refImages?.min ?? 1}–${refImages?.max ?? 1}`;
+    return `${spec.name} 仅支持图生视频，请接入 ${count} 张参考图。`;
+  }
+  if (!refImages) {
+    return `${spec.name} 仅支持文生视频，请勿传入参考图。`;
+  }
+  if (imageCount < refImages.min || imageCount > refImages.max) {
+    const range = refImages.min === refImages.max ? `${refImages.min}` : `${refImages.min}–${refImages.max}`;
+    return `${spec.name} 支持 ${range} 张参考图，当前提供了 ${imageCount} 张。`;
+  }
+  return null;
+}
+
+/**
+ * 获取视频模型在指定模式下的完整接口地址
+ */
+export function getVideoEndpoint(model: string, mode: VideoGenerationMode): string {
+  const path = getVideoModel(model)?.endpoints[mode];
+  if (!path) {
+    throw new Error(`模型 ${model} 未配置 ${mode} 接口`);
+  }
+  return `${RUNNINGHUB_OPENAPI_BASE}/${path}`;
+}
+
+/**
+ * 按模型目录构建视频接口请求体（不含提示词与参考图）
+ * values 为渲染进程按 buildModelPayload 生成的请求参数（以 payloadKey 为键），此处换成接口字段名并补齐固定字段
+ */
+export function buildVideoRequestBody(
+  spec: VideoModelSpec,
+  values: Record<string, unknown>,
+  mode: VideoGenerationMode
+): Record<string, ModelParamValue> {
+  const requestParams = spec.params
+    .filter((param) => param.request?.key !== null && (!param.request?.modes || param.request.modes.includes(mode)))
+    .map((param) => ({ ...param, key: param.payloadKey || param.key, payloadKey: param.request?.key || param.key }));
+  const body: Record<string, ModelParamValue> = { ...spec.fixedFields, ...buildModelPayload(requestParams, values, mode) };
+  requestParams.forEach((param) => {
+    const value = body[param.payloadKey];
+    const mapped = typeof value === 'string' ? param.request?.values?.[value] : undefined;
+    if (mapped !== undefined) body[param.payloadKey] = mapped;
+  });
+  return body;
+}
+
+/**
+ * 按模型目录将参考图 URL 写入请求体字段
+ */
+export function buildVideoImageFields(
+  spec: VideoModelSpec,
+  mode: VideoGenerationMode,
+  imageUrls: readonly string[]
+): Record<string, ModelParamValue> {
+  const fields = spec.imageFields?.[mode];
+  if (!fields || imageUrls.length === 0) return {};
+  if ('list' in fields) return { [fields.list]: [...imageUrls] };
+  const body: Record<string, ModelParamValue> = {};
+  fields.forEach((field, index) => {
+    if (imageUrls[index]) body[field] = imageUrls[index];
+  });
+  return body;
+}
+
+/**
+ * 按模型目录的结果路径从接口响应中取视频 URL
+ */
+export function getVideoResultUrl(spec: VideoModelSpec | undefined, data: unknown): string | undefined {
+  for (const resultPath of spec?.resultPaths ?? RUNNINGHUB_RESULT_PATHS) {
+    const value = resultPath
+      .split('.')
+      .reduce<unknown>((node, segment) => (node && typeof node === 'object' ? (node as Record<string, unknown>)[segment] : undefined), data);
+    if (typeof value === 'string' && value) return value;
+  }
+  return undefined;
+}
+
+/**
+ * 模型选择器中可选的视频模型
+ * 0 张图：文生；1 张图：图生；2 张图：首尾帧；3 张及以上：支持该数量的图生模型
+ */
+export function getVideoModelOptions(imageCount: number): { value: VideoModelId; label: string }[] {
+  const mode: VideoGenerationMode = imageCount === 0 ? 't2v' : imageCount === 2 ? 'first-last-frame' : 'i2v';
+  return (VIDEO_MODELS as readonly VideoModelSpec[])
+    .filter((spec) => {
+      if (spec.deprecated || !spec.modes.includes(mode)) return false;
+      if (imageCount === 0) return true;
+      return !!spec.refImages && imageCount >= spec.refImages.min && imageCount <= spec.refImages.max;
+    })
+    .map((spec) => ({ value: spec.id as VideoModelId, label: spec.modeLabels?.[mode] || spec.label }));
+}
+
+/**
+ * 视频模型完整参数表：模型参数 + 参考图槽（图生 / 首尾帧模式显示）
+ */
+export function getVideoParamSchema(spec: VideoModelSpec): ModelParamSpec[] {
+  if (!spec.refImages) return [...spec.params];
+  const firstLastOnly = !spec.modes.includes('i2v');
+  return [
+    ...spec.params,
+    {
+      key: 'inputImages',
+      payloadKey: 'images',
+      label: firstLastOnly ? '首尾帧' : '参考图',
+      type: 'image-slot',
+      min: spec.refImages.min,
+      max: spec.refImages.max,
+      visibleWhen: { modes: ['i2v', 'first-last-frame'] },
+    },
+  ];
+}
+
+/**
+ * 图片模型完整参数表：模型参数 + 参考图槽（图生图模式显示）
+ */
+export function getImageParamSchema(spec: ImageModelSpec): ModelParamSpec[] {
+  if (spec.maxRefImages === 0) return [...spec.params];
+  return [
+    ...spec.params,
+    {
+      key: 'inputImages',
+      payloadKey: 'image',
+      label: '参考图',
+      type: 'image-slot',
+      min: 1,
+      max: spec.maxRefImages,
+      visibleWhen: { modes: ['i2i'] },
+    },
+  ];
+}
+
+/**
+ * 参数在当前生成模式下是否显示
+ */
+export function isParamVisible(param: ModelParamSpec, mode: VideoGenerationMode | ImageGenerationMode): boolean {
+  return !param.visibleWhen || param.visibleWhen.modes.includes(mode);
+}
+
+/**
+ * 解析参数的有效取值：缺省或取值不合法时回落到默认值
+ */
+export function resolveParamValue(param: ModelParamSpec, values: Record<string, unknown>): ModelParamValue | undefined {
+  const value = values[param.key];
+  switch (param.type) {
+    case 'enum':
+      return typeof value === 'string' && param.options?.some((opt) => opt.value === value) ? value : param.default;
+    case 'range': {
+      const num = typeof value === 'number' ? value : Number(value);
+      if (value === undefined || value === null || value === '' || Number.isNaN(num)) return param.default;
+      return Math.min(param.max ?? num, Math.max(param.min ?? num, num));
+    }
+    case 'boolean':
+      if (param.trueValue !== undefined) {
+        return value === param.trueValue || value === param.falseValue ? (value as string) : param.default;
+      }
+      return typeof value === 'boolean' ? value : param.default;
+    case 'image-slot':
+      return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && item !== '') : [];
+    case 'text':
+      return typeof value === 'string' ? value : param.default;
+  }
+}
+
+/**
+ * 模型参数默认值（切换模型时用于重置）
+ */
+export function getModelParamDefaults(params: readonly ModelParamSpec[]): Record<string, string | number | boolean> {
+  const defaults: Record<string, string | number | boolean> = {};
+  params.forEach((param) => {
+    if (param.default !== undefined) defaults[param.key] = param.default;
+  });
+  return defaults;
+}
+
+/**
+ * 校验当前显示的参数
+ *
+ * @returns 第一条错误提示；通过校验时返回 null
+ */
+export function validateModelParams(
+  params: readonly ModelParamSpec[],
+  values: Record<string, unknown>,
+  mode: VideoGenerationMode | ImageGenerationMode
+): string | null {
+  for (const param of params) {
+    if (!isParamVisible(param, mode)) continue;
+    const value = resolveParamValue(param, values);
+    if (param.type === 'image-slot') {
+      const count = (value as string[]).length;
+      const min = param.min ?? 0;
+      const max = param.max ?? Infinity;
+      if (count < min || count > max) {
+        const range = min === max ? `${min}` : `${min}–${max}`;
+        return `${param.label}需要 ${range} 张图片，当前连接了 ${count} 张`;
+      }
+    } else if (param.type === 'enum' && value === undefined) {
+      return `请选择${param.label}`;
+    } else if (param.type === 'text' && param.required && !String(value ?? '').trim()) {
+      return `请填写${param.label}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * 按参数表构建请求参数（仅包含当前显示的参数，取值经 resolveParamValue 规整）
+ */
+export function buildModelPayload(
+  params: readonly ModelParamSpec[],
+  values: Record<string, unknown>,
+  mode: VideoGenerationMode | ImageGenerationMode
+): Record<string, ModelParamValue> {
+  const payload: Record<string, ModelParamValue> = {};
+  params.forEach((param) => {
+    if (!isParamVisible(param, mode)) return;
+    let value = resolveParamValue(param, values);
+    if (param.type === 'text') {
+      value = typeof value === 'string' ? value.trim() : undefined;
+      if (!value) return;
+    }
+    if (param.type === 'image-slot' && (value as string[]).length === 0) return;
+    if (value !== undefined) payload[param.payloadKey || param.key] = value;
+  });
+  return payload;
+}
+
+/**
+ * 按价格规则计算单次价格（参数缺省或不合法时使用参数默认值）
+ *
+ * @returns 价格（元/次）；未定价时返回 null
+ */
+export function calcModelPrice(
+  price: PriceRule | undefined,
+  params: readonly ModelParamSpec[],
+  values: Record<string, unknown>
+): number | null {
+  if (!price) return null;
+  if (price.type === 'fixed') return price.price;
+
+  const valueOf = (key: string) => {
+    const param = params.find((p) => p.key === key);
+    return String((param ? resolveParamValue(param, values) : values[key]) ?? '');
+  };
+  const lookupKey = price.keys.map(valueOf).join('|');
+
+  if (price.type === 'table') {
+    return price.prices[lookupKey] ?? price.fallback ?? null;
+  }
+
+  const rate = price.rates[lookupKey];
+  if (rate === undefined) return null;
+  return rate * (Number(valueOf(price.secondsKey)) || 0);
+}
@@ -4,7 +4,8 @@
  */
 
 import { BaseProvider } from '../BaseProvider.js';
-import { AIExecuteParams } from '../types.js';
+import { AIExecuteParams, AIResumeParams } from '../types.js';
+import { isCancellationError } from '../utils/Cancellation.js';
 import { store } from '../../services/store.js';
 import axios from 'axios';
 import path from 'path';
@@ -47,7 +48,7 @@ export class AudioProvider extends BaseProvider {
   }
 
   async execute(params: AIExecuteParams): Promise<void> {
-    const { nodeId, input, onStatus } = params;
+    const { nodeId, input, onStatus, signal } = params;
 
     try {
       const audioInput = input as AudioInput;
@@ -88,6 +89,7 @@ export class AudioProvider extends BaseProvider {
           status: 'ERROR',
           payload: {
             error: 'RunningHub API Key 未配置，请在设置中配置插件算力 API KEY',
+            errorCode: 'AUTH',
           },
         });
         return;
@@ -117,23 +119,28 @@ export class AudioProvider extends BaseProvider {
           instanceType: 'default',
           usePersonalQueue: 'false',
         };
-        const response = await axios.post(
-          `${this.runningHubApiBaseUrl}/run/ai-app/2021841072451756033`,
-          appPayload,
-          {
-            headers: {
-              Authorization: `Bearer ${apiKey}`,
-              'Content-Type': 'application/json',
-              Accept: 'application/json',
+        const response = await this.withRetry(
+          () => axios.post(
+            `${this.runningHubApiBaseUrl}/run/ai-app/2021841072451756033`,
+            appPayload,
+            {
+              signal,
+              headers: {
+                Authorization: `Bearer ${apiKey}`,
+                'Content-Type': 'application/json',
+                Accept: 'application/json',
+              },
+              proxy: false,
+              timeout: 30000,
             },
-            proxy: false,
-            timeout: 30000,
-          },
+          ),
+          { signal, idempotent: false, label: '[音频生成] 全能写歌提交任务' },
         );
         const data = response.data || {};
         const taskId = data.taskId || data.task_id;
         if (!taskId) throw new Error('全能写歌 提交失败：未返回 taskId');
-        const pollResult = await this.pollTaskUntilSuccess(apiKey, taskId, nodeId, onStatus);
+        params.onTaskSubmitted?.(taskId);
+        const pollResult = await this.pollTaskUntilSuccess(apiKey, taskId, nodeId, onStatus, signal);
         if (pollResult.audioUrl) await this.handleAudioResult(pollResult.audioUrl, nodeId, onStatus, projectId, nodeTitle);
         return;
       }
@@ -172,23 +179,28 @@ export class AudioProvider extends BaseProvider {
           usePersonalQueue: 'false',
         };
         console.log('[音频生成] Index-TTS2.0 提交任务，nodeInfoList(参考音已处理)');
-        const response = await axios.post(
-          `${this.runningHubApiBaseUrl}/run/ai-app/2008113338793857025`,
-          appPayload,
-          {
-            headers: {
-              Authorization: `Bearer ${apiKey}`,
-              'Content-Type': 'application/json',
-              Accept: 'application/json',
+        const response = await this.withRetry(
+          () => axios.post(
+            `${this.runningHubApiBaseUrl}/run/ai-app/2008113338793857025`,
+            appPayload,
+            {
+              signal,
+              headers: {
+                Authorization: `Bearer ${apiKey}`,
+                'Content-Type': 'application/json',
+                Accept: 'application/json',
+              },
+              proxy: false,
+              timeout: 30000,
             },
-            proxy: false,
-            timeout: 30000,
-          },
+          ),
+          { signal, idempotent: false, label: '[音频生成] Index-TTS2.0 提交任务' },
         );
         const data = response.data || {};
         const taskId = data.taskId || data.task_id;
         if (!taskId) throw new Error('Index-TTS2.0 提交失败：未返回 taskId');
-        const pollResult = await this.pollTaskUntilSuccess(apiKey, taskId, nodeId, onStatus);
+        params.onTaskSubmitted?.(taskId);
+        const pollResult = await this.pollTaskUntilSuccess(apiKey, taskId, nodeId, onStatus, signal);
         if (pollResult.audioUrl) await this.handleAudioResult(pollResult.audioUrl, nodeId, onStatus, projectId, nodeTitle);
         return;
       }
@@ -207,18 +219,22 @@ export class AudioProvider extends BaseProvider {
       if (emotion) payload.emotion = emotion;
       console.log('[音频生成] 提交任务，参数:', JSON.stringify(payload, null, 2));
 
-      const response = await axios.post(
-        `${this.runningHubApiBaseUrl}/rhart-audio/text-to-audio/speech-2.8-hd`,
-        payload,
-        {
-          headers: {
-            Authorization: `Bearer ${apiKey}`,
-            'Content-Type': 'application/json',
-            Accept: 'application/json',
+      const response = await this.withRetry(
+        () => axios.post(
+          `${this.runningHubApiBaseUrl}/rhart-audio/text-to-audio/speech-2.8-hd`,
+          payload,
+          {
+            signal,
+            headers: {
+              Authorization: `Bearer ${apiKey}`,
+              'Content-Type': 'application/json',
+              Accept: 'application/json',
+            },
+            proxy: false,
+            timeout: 30000,
           },
-          proxy: false,
-          timeout: 30000,
-        },
+        ),
+        { signal, idempotent: false, label: '[音频生成] 提交任务' },
       );
 
       console.log('[音频生成] 提交响应:', JSON.stringify(response.data, null, 2));
@@ -242,6 +258,7 @@ export class AudioProvider extends BaseProvider {
       }
 
       console.log(`[音频生成] 获取到 taskId: ${taskId}，开始轮询...`);
+      params.onTaskSubmitted?.(taskId);
 
       // 轮询配置：10 分钟总超时时间
       const totalTimeout = 10 * 60 * 1000; // 10 分钟（毫秒）
@@ -251,6 +268,7 @@ export class AudioProvider extends BaseProvider {
 
       // 轮询循环
       while (true) {
+        this.throwIfCancelled(signal);
         // 检查总超时时间
         const elapsed = Date.now() - startTime;
         if (elapsed >= totalTimeout) {
@@ -264,7 +282,7 @@ export class AudioProvider extends BaseProvider {
         // 等待到下一次轮询时间
         const timeSinceLastPoll = Date.now() - lastPollTime;
         if (timeSinceLastPoll < pollInterval) {
-          await new Promise(resolve => setTimeout(resolve, pollInterval - timeSinceLastPoll));
+          await this.sleep(pollInterval - timeSinceLastPoll, signal);
         }
 
         attempt++;
@@ -276,6 +294,7 @@ export class AudioProvider extends BaseProvider {
             `${this.runningHubApiBaseUrl}/query`,
             { taskId },
             {
+              signal,
               headers: {
                 Authorization: `Bearer ${apiKey}`,
                 'Content-Type': 'application/json',
@@ -304,7 +323,7 @@ export class AudioProvider extends BaseProvider {
               break; // 退出轮询循环
             } else {
               console.warn('[音频生成] SUCCESS 状态但未找到音频 URL，继续轮询...');
-              await new Promise(resolve => setTimeout(resolve, 2000));
+              await this.sleep(2000, signal);
               continue;
             }
           } else if (status === 'FAILED' || status === 'FAILURE') {
@@ -331,7 +350,7 @@ export class AudioProvider extends BaseProvider {
           } else {
             // 未知状态，继续轮询
             console.warn(`[音频生成] 未知任务状态: ${status}，继续轮询...`);
-            await new Promise(resolve => setTimeout(resolve, 2000));
+            await this.sleep(2000, signal);
             continue;
           }
         } catch (pollError: any) {
@@ -349,7 +368,7 @@ export class AudioProvider extends BaseProvider {
           if (isConnectionError) {
             // 网络连接错误，等待 5 秒后重试
             console.warn(`[音频生成] 轮询网络错误 (第 ${attempt} 次): ${errorMessage}，等待 5 秒后重试...`);
-            await new Promise(resolve => setTimeout(resolve, 5000));
+            await this.sleep(5000, signal);
             lastPollTime = Date.now();
             continue;
           } else if (pollError?.response?.status === 404) {
@@ -365,7 +384,7 @@ export class AudioProvider extends BaseProvider {
               throw new Error(`轮询失败: ${errorMsg}`);
             }
             // 5xx 服务器错误，继续重试
-            await new Promise(resolve => setTimeout(resolve, 5000));
+            await this.sleep(5000, signal);
             lastPollTime = Date.now();
           }
         }
@@ -384,6 +403,37 @@ export class AudioProvider extends BaseProvider {
         status: 'ERROR',
         payload: {
           error: message,
+          errorCode: this.getErrorCode(error),
+        },
+      });
+    }
+  }
+
+  /**
+   * 恢复应用重启前未完成的 RunningHub 音频任务：跳过提交，直接按 taskId 继续轮询
+   */
+  async resume(params: AIResumeParams): Promise<void> {
+    const { nodeId, input, taskId, onStatus, signal } = params;
+    const { projectId, nodeTitle = 'audio' } = (input || {}) as AudioInput;
+
+    try {
+      const apiKey = this.getRunningHubApiKey();
+      if (!apiKey) {
+        throw new Error('插件算力 API Key 未配置，无法恢复音频任务');
+      }
+      console.log(`[音频生成] 恢复远程任务轮询: taskId=${taskId}, nodeId=${nodeId}`);
+      const pollResult = await this.pollTaskUntilSuccess(apiKey, taskId, nodeId, onStatus, signal);
+      if (pollResult.audioUrl) await this.handleAudioResult(pollResult.audioUrl, nodeId, onStatus, projectId, nodeTitle);
+    } catch (error: any) {
+      if (isCancellationError(error)) throw error;
+      const message = error?.response?.data?.errorMessage || error?.message || '恢复音频任务失败';
+      console.error('[音频生成] 恢复远程任务失败:', message);
+      onStatus({
+        nodeId,
+        status: 'ERROR',
+        payload: {
+          error: message,
+          errorCode: this.getErrorCode(error),
         },
       });
     }
@@ -397,23 +447,25 @@ export class AudioProvider extends BaseProvider {
     taskId: string,
     nodeId: string,
     onStatus: (packet: any) => void,
+    signal?: AbortSignal,
   ): Promise<{ audioUrl: string }> {
     const totalTimeout = 10 * 60 * 1000;
     const startTime = Date.now();
     let attempt = 0;
     let lastPollTime = startTime;
     while (true) {
+      this.throwIfCancelled(signal);
       const elapsed = Date.now() - startTime;
       if (elapsed >= totalTimeout) throw new Error(`轮询超时（10分钟），任务 ID: ${taskId}`);
       const pollInterval = elapsed < 30000 ? 2000 : 5000;
       const timeSinceLastPoll = Date.now() - lastPollTime;
-      if (timeSinceLastPoll < pollInterval) await new Promise((r) => setTimeout(r, pollInterval - timeSinceLastPoll));
+      if (timeSinceLastPoll < pollInterval) await this.sleep(pollInterval - timeSinceLastPoll, signal);
       attempt++;
       lastPollTime = Date.now();
       const pollResponse = await axios.post(
         `${this.runningHubApiBaseUrl}/query`,
         { taskId },
-        { headers: { Authorization: `Bearer ${apiKey}`, 'Content-Type': 'application/json', Accept: 'application/json' }, proxy: false, timeout: 15000 },
+        { signal, headers: { Authorization: `Bearer ${apiKey}`, 'Content-Type': 'application/json', Accept: 'application/json' }, proxy: false, timeout: 15000 },
       );
       const pollData = pollResponse.data || {};
       const status = pollData.status;
@@ -1,16 +1,20 @@
 /**
  * Chat API Provider - 大语言模型调用
  * 基于 OpenAPI 规范的 Chat Completions API
- * 使用 BLTCY 核心算力 API
+ * 默认使用 BLTCY 核心算力 API，也可通过 endpointId 指定设置中配置的 OpenAI 兼容端点
  */
 
 import { BaseProvider } from '../BaseProvider.js';
 import { AIExecuteParams, AIStatusPacket } from '../types.js';
+import { isCancellationError } from '../utils/Cancellation.js';
 import { store } from '../../services/store.js';
 import { ApiService } from '../../services/api.js';
+import { resolveLLMEndpoint } from '../../services/llmEndpoints.js';
 import { autoDownloadResource } from '../../utils/resourceDownloader.js';
 import fs from 'fs';
 import path from 'path';
+import { Readable } from 'stream';
+import { StringDecoder } from 'string_decoder';
 import { isLocalResourcePathAllowed } from '../../utils/projectFolderHelper.js';
 import axios from 'axios';
 
@@ -38,21 +42,55 @@ interface ChatInput {
   seen?: number;
   tools?: string[];
   tool_choice?: any;
+  endpointId?: string; // LLM 端点 ID（见设置中的 LLM 端点；缺省为内置核心算力）
   [key: string]: any;
 }
 
-export class ChatProvider extends BaseProvider {
-  readonly modelId = 'chat';
+interface ChatCompletionResponse {
+  id: string;
+  object: string;
+  created: number;
+  choices: Array<{
+    index: number;
+    message: {
+      role: string;
+      content: string;
+    };
+    finish_reason: string;
+  }>;
+  usage: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  };
+}
 
-  // BLTCY API 配置（国内中转 API）
-  private readonly apiBaseUrl = 'https://api.bltcy.ai/v1';
+/** 流式增量合并下发间隔（毫秒），避免逐 token 发送 IPC */
+const STREAM_FLUSH_INTERVAL_MS = 50;
 
-  /**
-   * 获取 BLTCY API Key（从 store 中读取）
-   */
-  private getApiKey(): string {
-    return (store.get('bltcyApiKey') as string) || '';
+/**
+ * 读取错误响应体：流式请求失败时 response.data 为可读流，需先读出再解析
+ */
+async function readErrorBody(data: unknown): Promise<any> {
+  if (!(data instanceof Readable)) return data;
+  let text = '';
+  try {
+    for await (const chunk of data) {
+      text += chunk.toString();
+      if (text.length > 64 * 1024) break;
+    }
+  } catch {
+    // 读取失败时忽略错误体
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
   }
+}
+
+export class ChatProvider extends BaseProvider {
+  readonly modelId = 'chat';
 
   /**
    * 获取 RunningHub API Key（用于 joy-caption-two 等 AI 应用）
@@ -62,7 +100,7 @@ export class ChatProvider extends BaseProvider {
   }
 
   async execute(params: AIExecuteParams): Promise<void> {
-    const { nodeId, input, onStatus } = params;
+    const { nodeId, input, onStatus, signal } = params;
 
     // 验证输入
     if (!this.validateInput(input)) {
@@ -106,6 +144,10 @@ export class ChatProvider extends BaseProvider {
       payload: {},
     });
 
+    // 请求目标：节点指定的 OpenAI 兼容端点，缺省为内置核心算力
+    const endpoint = resolveLLMEndpoint(chatInput.endpointId);
+    const apiBaseUrl = endpoint?.baseUrl || '';
+
     try {
       // Joy Caption Two 反推提示词：RunningHub AI 应用
       if (chatInput.model === 'joy-caption-two') {
@@ -167,22 +209,31 @@ export class ChatProvider extends BaseProvider {
           instanceType: 'default',
           usePersonalQueue: 'false',
         };
-        const submitRes = await axios.post(submitUrl, appPayload, {
-          headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${runningHubKey}` },
-          proxy: false,
-          timeout: 30000,
-        });
+        const submitRes = await this.withRetry(
+          () => axios.post(submitUrl, appPayload, {
+            signal,
+            headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${runningHubKey}` },
+            proxy: false,
+            timeout: 30000,
+          }),
+          { signal, idempotent: false, label: '[ChatProvider] Joy Caption Two 提交任务' }
+        );
         const taskId = submitRes.data?.taskId ?? submitRes.data?.task_id;
         if (!taskId) throw new Error('Joy Caption Two 提交失败：未返回 taskId');
         const queryUrl = 'https://www.runninghub.cn/openapi/v2/query';
         let attempts = 0;
         while (attempts < 120) {
-          await new Promise((r) => setTimeout(r, 5000));
-          const queryRes = await axios.post(queryUrl, { taskId }, {
-            headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${runningHubKey}` },
-            proxy: false,
-            timeout: 15000,
-          });
+          this.throwIfCancelled(signal);
+          await this.sleep(5000, signal);
+          const queryRes = await this.withRetry(
+            () => axios.post(queryUrl, { taskId }, {
+              signal,
+              headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${runningHubKey}` },
+              proxy: false,
+              timeout: 15000,
+            }),
+            { signal, label: '[ChatProvider] Joy Caption Two 查询任务' }
+          );
           const status = queryRes.data?.status;
           if (status === 'SUCCESS') {
             const results = queryRes.data?.results;
@@ -195,7 +246,7 @@ export class ChatProvider extends BaseProvider {
                 const txtResult = results.find((r: any) => r?.url && (r.outputType === 'txt' || (typeof r.url === 'string' && r.url.toLowerCase().endsWith('.txt'))));
                 if (txtResult?.url) {
                   try {
-                    const fetchRes = await axios.get(txtResult.url, { responseType: 'text', timeout: 15000 });
+                    const fetchRes = await axios.get(txtResult.url, { signal, responseType: 'text', timeout: 15000 });
                     captionText = typeof fetchRes.data === 'string' ? fetchRes.data.trim() : '';
                   } catch (e) {
                     console.warn('[ChatProvider] Joy Caption Two 拉取 txt 结果失败:', txtResult.url, e);
@@ -219,11 +270,15 @@ export class ChatProvider extends BaseProvider {
       }
 
       // 获取 API Key（核心算力 API Key）
-      const apiKey = this.getApiKey();
-      if (!apiKey) {
+      if (!endpoint) {
+        throw new Error(`LLM 端点不存在（可能已在设置中删除）: ${chatInput.endpointId}`);
+      }
+      const apiKey = endpoint.apiKey;
+      // 自定义端点（如本地 Ollama）允许不配置 Key
+      if (!apiKey && endpoint.isDefault) {
         throw new Error('BLTCY API Key 未配置，请在设置中配置核心算力 API Key');
       }
-      console.log(`[ChatProvider] 使用核心算力 API Key (BLTCY)，API 端点: ${this.apiBaseUrl}/chat/completions`);
+      console.log(`[ChatProvider] 使用端点「${endpoint.name}」，API 端点: ${apiBaseUrl}/chat/completions`);
 
       // 处理 messages 中的 local-resource:// 图片 URL，转换为 base64
       let imageConversionError: string | null = null;
@@ -383,187 +438,130 @@ export class ChatProvider extends BaseProvider {
       }
 
       // 使用 ApiService 发送请求（支持 keepAlive 和 429 退避）
-      const apiService = new ApiService(this.apiBaseUrl);
+      const apiService = new ApiService(apiBaseUrl);
       
-      console.log(`[ChatProvider] 发送请求到 ${this.apiBaseUrl}/chat/completions`);
+      console.log(`[ChatProvider] 发送请求到 ${apiBaseUrl}/chat/completions`);
       console.log(`[ChatProvider] 使用模型: ${requestPayload.model}`);
-      console.log(`[ChatProvider] 使用核心算力 API Key (BLTCY)`);
       console.log(`[ChatProvider] 请求体:`, JSON.stringify(requestPayload, null, 2));
       
-      // 重试逻辑：最多重试 2 次
-      let lastError: Error | null = null;
-      let retryCount = 0;
-      const maxRetries = 2;
-      
-      let response: {
-        id: string;
-        object: string;
-        created: number;
-        choices: Array<{
-          index: number;
-          message: {
-            role: string;
-            content: string;
-          };
-          finish_reason: string;
-        }>;
-        usage: {
-          prompt_tokens: number;
-          completion_tokens: number;
-          total_tokens: number;
-        };
-      } | null = null;
+      // stream: true 时以 SSE 接收增量，逐段以 PROCESSING 包（payload.delta）推送给节点
+      const isStream = chatInput.stream === true;
 
-      while (retryCount <= maxRetries) {
-        try {
-          response = await apiService.post<{
-            id: string;
-            object: string;
-            created: number;
-            choices: Array<{
-              index: number;
-              message: {
-                role: string;
-                content: string;
-              };
-              finish_reason: string;
-            }>;
-            usage: {
-              prompt_tokens: number;
-              completion_tokens: number;
-              total_tokens: number;
-            };
-          }>(
-            '/chat/completions',
-            requestPayload,
-            {
-              headers: {
-                'Accept': 'application/json',
-                'Authorization': `Bearer ${apiKey}`,
-                'Content-Type': 'application/json; charset=utf-8',
-              },
-              timeout: 30000, // 30 秒超时
-            }
-          );
-          break; // 成功则跳出重试循环
-        } catch (error) {
-          lastError = error instanceof Error ? error : new Error(String(error));
-          retryCount++;
-          
-          // 提取详细的错误信息
-          let errorMessage = lastError.message;
-          let errorDetails: any = null;
-          
-          // 如果是 axios 错误，尝试提取响应数据
-          if ((error as any).response) {
-            const axiosError = error as any;
-            errorDetails = axiosError.response?.data;
-            if (axiosError.response?.status) {
-              errorMessage = `HTTP ${axiosError.response.status}: ${errorMessage}`;
-            }
-            if (errorDetails && typeof errorDetails === 'object') {
-              // 尝试提取 API 返回的错误信息
-              const apiErrorMsg = errorDetails.error?.message || errorDetails.message || JSON.stringify(errorDetails);
-              if (apiErrorMsg && apiErrorMsg !== errorMessage) {
-                errorMessage = `${errorMessage} - ${apiErrorMsg}`;
-              }
-            }
-          }
-          
-          console.error(`[ChatProvider] API 请求失败 (尝试 ${retryCount}/${maxRetries + 1}):`, errorMessage);
-          if (errorDetails) {
-            console.error(`[ChatProvider] 错误详情:`, JSON.stringify(errorDetails, null, 2));
+      // 对话补全不创建远程任务，超时后重发只会多消耗少量 token，因此按幂等请求重试（最多 3 次）
+      // 流式请求只在建立连接阶段重试，开始接收数据后的中断直接失败
+      const response = await this.withRetry(
+        () => apiService.post<ChatCompletionResponse | Readable>(
+          '/chat/completions',
+          requestPayload,
+          {
+            signal,
+            headers: {
+              'Accept': isStream ? 'text/event-stream' : 'application/json',
+              ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+              'Content-Type': 'application/json; charset=utf-8',
+            },
+            timeout: 30000, // 30 秒超时（流式请求为连接空闲超时）
+            ...(isStream ? { responseType: 'stream' as const } : {}),
           }
-          
-          // 如果是连接超时或网络错误，进行重试
-          const shouldRetry = 
-            errorMessage.includes('ETIMEDOUT') ||
-            errorMessage.includes('ECONNREFUSED') ||
-            errorMessage.includes('ENOTFOUND') ||
-            errorMessage.includes('timeout') ||
-            errorMessage.includes('Network Error');
-          
-          // 图片处理错误不应该重试
-          const isImageError = errorMessage.includes('图片处理失败') || errorMessage.includes('文件不存在') || errorMessage.includes('访问路径超出');
-          
-          if (isImageError) {
-            // 图片处理错误，立即抛出
-            throw lastError;
-          } else if (shouldRetry && retryCount <= maxRetries) {
-            console.warn(`[ChatProvider] 请求失败，${retryCount} 秒后重试 (${retryCount}/${maxRetries})...`);
-            await new Promise(resolve => setTimeout(resolve, 1000 * retryCount)); // 递增延迟
-            continue;
-          } else {
-            throw lastError; // 不应该重试或已达到最大重试次数，抛出错误
+        ),
+        {
+          signal,
+          label: '[ChatProvider] API 请求',
+          onRetry: (_attempt, _delayMs, error: any) => {
+            if (error?.response?.data && !(error.response.data instanceof Readable)) {
+              console.error(`[ChatProvider] 错误详情:`, JSON.stringify(error.response.data, null, 2));
+            }
+          },
+        }
+      ).catch(async (error: any) => {
+        if (isCancellationError(error)) throw error;
+        // 将 API 返回的错误信息拼接到错误消息中，便于节点展示与错误分类
+        const errorDetails = await readErrorBody(error?.response?.data);
+        let errorMessage = error instanceof Error ? error.message : String(error);
+        if (error?.response?.status) {
+          errorMessage = `HTTP ${error.response.status}: ${errorMessage}`;
+        }
+        if (errorDetails && typeof errorDetails === 'object') {
+          const apiErrorMsg = errorDetails.error?.message || errorDetails.message || JSON.stringify(errorDetails);
+          if (apiErrorMsg && apiErrorMsg !== errorMessage) {
+            errorMessage = `${errorMessage} - ${apiErrorMsg}`;
           }
+        } else if (typeof errorDetails === 'string' && errorDetails.trim()) {
+          errorMessage = `${errorMessage} - ${errorDetails.trim().slice(0, 500)}`;
         }
-      }
+        console.error(`[ChatProvider] API 请求失败:`, errorMessage);
+        const wrapped: Error & { code?: string } = new Error(errorMessage);
+        wrapped.name = error?.name || wrapped.name;
+        wrapped.code = error?.code;
+        throw wrapped;
+      });
 
-      if (!response) {
-        throw lastError || new Error('请求失败：未知错误');
+      let content: string;
+      if (isStream) {
+        content = await this.readChatStream(response as Readable, nodeId, onStatus, signal);
+        console.log(`[ChatProvider] 流式响应结束，内容长度: ${content.length}`);
+      } else {
+        // 处理响应（符合 OpenAPI 规范）
+        const data = response as ChatCompletionResponse;
+        console.log(`[ChatProvider] 处理响应，response 存在: ${!!data}, choices 存在: ${!!data?.choices}, choices 长度: ${data?.choices?.length || 0}`);
+        if (!data?.choices?.length) {
+          console.error(`[ChatProvider] 响应格式无效: response存在=${!!data}, choices存在=${!!data?.choices}, choices长度=${data?.choices?.length || 0}`);
+          throw new Error('Invalid response format: missing choices or message');
+        }
+        content = data.choices[0].message?.content || '';
+        console.log(`[ChatProvider] 提取到内容，长度: ${content.length}`);
       }
 
-      // 处理响应（符合 OpenAPI 规范）
-      console.log(`[ChatProvider] 处理响应，response 存在: ${!!response}, choices 存在: ${!!response?.choices}, choices 长度: ${response?.choices?.length || 0}`);
-      
-      if (response && response.choices && response.choices.length > 0) {
-        const content = response.choices[0].message?.content || '';
-        console.log(`[ChatProvider] 提取到内容，长度: ${content.length}`);
+      // 自动下载文本到本地（如果提供了 projectId）
+      let localPath: string | null = null;
+      try {
+        const projectId = (chatInput as any)?.projectId;
+        const nodeTitle = (chatInput as any)?.nodeTitle || 'llm';
+        console.log(`[ChatProvider] projectId: ${projectId}, nodeTitle: ${nodeTitle}, content 存在: ${!!content}`);
         
-        // 自动下载文本到本地（如果提供了 projectId）
-        let localPath: string | null = null;
-        try {
-          const projectId = (chatInput as any)?.projectId;
-          const nodeTitle = (chatInput as any)?.nodeTitle || 'llm';
-          console.log(`[ChatProvider] projectId: ${projectId}, nodeTitle: ${nodeTitle}, content 存在: ${!!content}`);
-          
-          if (projectId && content) {
-            // 保存文本到本地
-            console.log(`[ChatProvider] 开始保存文本到本地...`);
-            localPath = await autoDownloadResource(
-              null, // 文本类型不需要远程 URL
-              'text',
-              {
-                text: content,
-                prompt: chatInput.messages?.map((m: ChatMessage) => 
-                  typeof m.content === 'string' ? m.content : JSON.stringify(m.content)
-                ).join('\n') || '',
-                model: chatInput.model,
-                nodeId: nodeId,
-                nodeTitle: nodeTitle,
-                projectId: projectId,
-              }
-            );
-            
-            if (localPath) {
-              console.log(`[ChatProvider] 文本已保存到本地: ${localPath}`);
-            } else {
-              console.warn(`[ChatProvider] 文本保存返回 null`);
+        if (projectId && content) {
+          // 保存文本到本地
+          console.log(`[ChatProvider] 开始保存文本到本地...`);
+          localPath = await autoDownloadResource(
+            null, // 文本类型不需要远程 URL
+            'text',
+            {
+              text: content,
+              prompt: chatInput.messages?.map((m: ChatMessage) => 
+                typeof m.content === 'string' ? m.content : JSON.stringify(m.content)
+              ).join('\n') || '',
+              model: chatInput.model,
+              nodeId: nodeId,
+              nodeTitle: nodeTitle,
+              projectId: projectId,
             }
+          );
+          
+          if (localPath) {
+            console.log(`[ChatProvider] 文本已保存到本地: ${localPath}`);
           } else {
-            console.log(`[ChatProvider] 跳过保存文本: projectId=${projectId}, content存在=${!!content}`);
+            console.warn(`[ChatProvider] 文本保存返回 null`);
           }
-        } catch (error) {
-          console.error(`[ChatProvider] 保存文本到本地失败:`, error);
-          // 保存失败不影响主流程，继续发送 SUCCESS 状态
+        } else {
+          console.log(`[ChatProvider] 跳过保存文本: projectId=${projectId}, content存在=${!!content}`);
         }
-        
-        // 发送 SUCCESS 状态
-        const successPacket = {
-          nodeId,
-          status: 'SUCCESS' as const,
-          payload: {
-            text: content,
-            localPath: localPath || undefined, // 包含本地路径（如果已保存）
-          },
-        };
-        console.log(`[ChatProvider] 准备发送 SUCCESS 状态，text 长度: ${content.length}, localPath: ${localPath || 'none'}, payload keys: ${Object.keys(successPacket.payload).join(', ')}`);
-        onStatus(successPacket);
-        console.log(`[ChatProvider] SUCCESS 状态已发送`);
-      } else {
-        console.error(`[ChatProvider] 响应格式无效: response存在=${!!response}, choices存在=${!!response?.choices}, choices长度=${response?.choices?.length || 0}`);
-        throw new Error('Invalid response format: missing choices or message');
+      } catch (error) {
+        console.error(`[ChatProvider] 保存文本到本地失败:`, error);
+        // 保存失败不影响主流程，继续发送 SUCCESS 状态
       }
+      
+      // 发送 SUCCESS 状态
+      const successPacket = {
+        nodeId,
+        status: 'SUCCESS' as const,
+        payload: {
+          text: content,
+          localPath: localPath || undefined, // 包含本地路径（如果已保存）
+        },
+      };
+      console.log(`[ChatProvider] 准备发送 SUCCESS 状态，text 长度: ${content.length}, localPath: ${localPath || 'none'}, payload keys: ${Object.keys(successPacket.payload).join(', ')}`);
+      onStatus(successPacket);
+      console.log(`[ChatProvider] SUCCESS 状态已发送`);
     } catch (error) {
       let errorMessage = '未知错误';
       
@@ -572,11 +570,11 @@ export class ChatProvider extends BaseProvider {
         
         // 处理连接超时错误
         if (errorMessage.includes('ETIMEDOUT') || errorMessage.includes('timeout')) {
-          errorMessage = `连接超时：无法连接到 ${this.apiBaseUrl}。请检查网络连接或稍后重试。`;
+          errorMessage = `连接超时：无法连接到 ${apiBaseUrl}。请检查网络连接或稍后重试。`;
         } else if (errorMessage.includes('ECONNREFUSED')) {
-          errorMessage = `连接被拒绝：无法连接到 ${this.apiBaseUrl}。请检查 API 端点是否正确。`;
+          errorMessage = `连接被拒绝：无法连接到 ${apiBaseUrl}。请检查 API 端点是否正确。`;
         } else if (errorMessage.includes('ENOTFOUND')) {
-          errorMessage = `DNS 解析失败：无法解析 ${this.apiBaseUrl}。请检查网络连接。`;
+          errorMessage = `DNS 解析失败：无法解析 ${apiBaseUrl}。请检查网络连接。`;
         }
         
         console.error(`[ChatProvider] API 调用失败:`, errorMessage);
@@ -590,10 +588,88 @@ export class ChatProvider extends BaseProvider {
         status: 'ERROR',
         payload: {
           error: `Chat API 错误: ${errorMessage}`,
+          errorCode: this.getErrorCode(error),
         },
       };
       onStatus(errorPacket);
       throw error;
     }
   }
+
+  /**
+   * 读取 SSE 流式响应：解析 data: 行中的 choices[0].delta.content，
+   * 合并后以 PROCESSING 包（payload.delta）下发，返回完整文本
+   */
+  private async readChatStream(
+    stream: Readable,
+    nodeId: string,
+    onStatus: (packet: AIStatusPacket) => void,
+    signal?: AbortSignal
+  ): Promise<string> {
+    const decoder = new StringDecoder('utf8');
+    let content = '';
+    let pending = '';
+    let buffer = '';
+    let lastFlushAt = Date.now();
+    let done = false;
+
+    const flush = () => {
+      if (!pending) return;
+      onStatus({ nodeId, status: 'PROCESSING', payload: { delta: pending } });
+      pending = '';
+      lastFlushAt = Date.now();
+    };
+
+    // 处理一行 SSE；遇到 [DONE] 返回 true
+    const handleLine = (line: string): boolean => {
+      const trimmed = line.trim();
+      if (!trimmed.startsWith('data:')) return false;
+      const data = trimmed.slice(5).trim();
+      if (data === '[DONE]') return true;
+      let chunk: any;
+      try {
+        chunk = JSON.parse(data);
+      } catch {
+        console.warn(`[ChatProvider] 无法解析的流式数据: ${data.slice(0, 200)}`);
+        return false;
+      }
+      if (chunk?.error) {
+        throw new Error(chunk.error.message || JSON.stringify(chunk.error));
+      }
+      const delta = chunk?.choices?.[0]?.delta?.content;
+      if (typeof delta === 'string' && delta) {
+        content += delta;
+        pending += delta;
+      }
+      return false;
+    };
+
+    try {
+      for await (const chunk of stream) {
+        buffer += decoder.write(chunk as Buffer);
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+        for (const line of lines) {
+          if (handleLine(line)) {
+            done = true;
+            break;
+          }
+        }
+        if (done) break;
+        if (Date.now() - lastFlushAt >= STREAM_FLUSH_INTERVAL_MS) flush();
+      }
+      if (!done) {
+        buffer += decoder.end();
+        if (buffer.trim()) handleLine(buffer);
+      }
+    } catch (error) {
+      // 取消导致的流中断统一转换为取消错误
+      this.throwIfCancelled(signal);
+      throw error;
+    }
+
+    this.throwIfCancelled(signal);
+    flush();
+    return content;
+  }
 }
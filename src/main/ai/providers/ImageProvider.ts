@@ -12,6 +12,7 @@ import { app } from 'electron';
 import path from 'path';
 import fs from 'fs';
 import { isLocalResourcePathAllowed } from '../../utils/projectFolderHelper.js';
+import { getImageModel } from '../modelCatalog.js';
 
 interface ImageInput {
   model?: string;
@@ -39,7 +40,7 @@ export class ImageProvider extends BaseProvider {
   }
 
   async execute(params: AIExecuteParams): Promise<void> {
-    const { nodeId, input, onStatus } = params;
+    const { nodeId, input, onStatus, signal } = params;
 
     // 解析输入参数
     const imageInput = input as ImageInput;
@@ -53,6 +54,7 @@ export class ImageProvider extends BaseProvider {
         status: 'ERROR',
         payload: {
           error: 'RunningHub API Key 未配置，请在设置中配置插件算力 API KEY',
+          errorCode: 'AUTH',
         },
       });
       return;
@@ -180,11 +182,15 @@ export class ImageProvider extends BaseProvider {
         const submitPayload = { prompt: trimmedPrompt, imageUrls: imageUrlsG15, aspectRatio: finalAspectRatio };
         console.log(`[图片生成] 提交全能图片G-1.5-图生图，aspectRatio: ${finalAspectRatio}, 图片数: ${imageUrlsG15.length}`);
 
-        const submitResponse = await axios.post(submitUrl, submitPayload, {
-          headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${runningHubApiKey}` },
-          proxy: false,
-          timeout: 30000,
-        });
+        const submitResponse = await this.withRetry(
+          () => axios.post(submitUrl, submitPayload, {
+            signal,
+            headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${runningHubApiKey}` },
+            proxy: false,
+            timeout: 30000,
+          }),
+          { signal, idempotent: false, label: '[图片生成] 提交任务' }
+        );
         if (submitResponse.status !== 200) throw new Error(`提交任务失败: ${submitResponse.status} ${submitResponse.statusText}`);
         const data = submitResponse.data;
         const taskId = data?.taskId || data?.task_id || data?.data?.taskId || data?.result?.taskId;
@@ -201,9 +207,11 @@ export class ImageProvider extends BaseProvider {
         let imageUrl: string | null = null;
         let pollingAttempts = 0;
         while (pollingAttempts < 120) {
-          await new Promise(resolve => setTimeout(resolve, 5000));
+          this.throwIfCancelled(signal);
+          await this.sleep(5000, signal);
           try {
             const queryResponse = await axios.post(queryUrl, { taskId }, {
+              signal,
               headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${runningHubApiKey}` },
               proxy: false,
               timeout: 30000,
@@ -244,9 +252,9 @@ export class ImageProvider extends BaseProvider {
           throw new Error('RunningHub API Key 未配置，图生图需要插件算力 API KEY');
         }
         
-        // 检查图片数量（全能图片PRO 最多5张；seedream-v4.5 最多10张）
+        // 检查图片数量（上限见模型目录：全能图片PRO 最多5张；seedream-v4.5 最多10张）
         const imageArray = Array.isArray(imageInput.image) ? imageInput.image : [imageInput.image];
-        const maxImagesAllowed = model === 'seedream-v4.5' ? 10 : 5;
+        const maxImagesAllowed = getImageModel(model)?.maxRefImages ?? 5;
         if (imageArray.length > maxImagesAllowed) {
           throw new Error(`连接已满：最多支持 ${maxImagesAllowed} 张参考图片`);
         }
@@ -468,17 +476,21 @@ export class ImageProvider extends BaseProvider {
         
         let submitResponse;
         try {
-          submitResponse = await axios.post(
-            submitUrl,
-            submitPayload,
-            {
-              headers: {
-                'Content-Type': 'application/json; charset=utf-8',
-                'Authorization': `Bearer ${runningHubApiKey}`,
-              },
-              proxy: false,
-              timeout: 30000,
-            }
+          submitResponse = await this.withRetry(
+            () => axios.post(
+              submitUrl,
+              submitPayload,
+              {
+                signal,
+                headers: {
+                  'Content-Type': 'application/json; charset=utf-8',
+                  'Authorization': `Bearer ${runningHubApiKey}`,
+                },
+                proxy: false,
+                timeout: 30000,
+              }
+            ),
+            { signal, idempotent: false, label: '[图片生成] 提交任务' }
           );
           console.log(`[图片生成] 提交任务响应状态: ${submitResponse.status}`);
           console.log(`[图片生成] 提交任务响应数据:`, JSON.stringify(submitResponse.data, null, 2));
@@ -527,13 +539,15 @@ export class ImageProvider extends BaseProvider {
         let pollingAttempts = 0;
         
         while (pollingAttempts < maxPollingAttempts) {
-          await new Promise(resolve => setTimeout(resolve, 5000)); // 每5秒查询一次
+          this.throwIfCancelled(signal);
+          await this.sleep(5000, signal); // 每5秒查询一次
           
           try {
             const queryResponse = await axios.post(
               queryUrl,
               { taskId },
               {
+                signal,
                 headers: {
                   'Content-Type': 'application/json',
                   'Authorization': `Bearer ${runningHubApiKey}`,
@@ -796,17 +810,21 @@ export class ImageProvider extends BaseProvider {
 
       console.log('[图片生成] 提交任务到 RunningHub API:', submitUrl, submitPayload);
 
-      const submitResponse = await axios.post(
-        submitUrl,
-        submitPayload,
-        {
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${runningHubApiKey}`,
-          },
-          proxy: false,
-          timeout: 30000,
-        }
+      const submitResponse = await this.withRetry(
+        () => axios.post(
+          submitUrl,
+          submitPayload,
+          {
+            signal,
+            headers: {
+              'Content-Type': 'application/json',
+              'Authorization': `Bearer ${runningHubApiKey}`,
+            },
+            proxy: false,
+            timeout: 30000,
+          }
+        ),
+        { signal, idempotent: false, label: '[图片生成] 提交任务' }
       );
 
       if (submitResponse.status !== 200) {
@@ -835,13 +853,15 @@ export class ImageProvider extends BaseProvider {
       let pollingAttempts = 0;
 
       while (pollingAttempts < maxPollingAttempts) {
-        await new Promise(resolve => setTimeout(resolve, 5000)); // 每5秒查询一次
+        this.throwIfCancelled(signal);
+        await this.sleep(5000, signal); // 每5秒查询一次
 
         try {
           const queryResponse = await axios.post(
             queryUrl,
             { taskId },
             {
+              signal,
               headers: {
                 'Content-Type': 'application/json',
                 'Authorization': `Bearer ${runningHubApiKey}`,
@@ -1034,6 +1054,7 @@ export class ImageProvider extends BaseProvider {
         status: 'ERROR',
         payload: {
           error: `图片生成失败: ${errorMsg}`,
+          errorCode: this.getErrorCode(error),
           progress: 0, // 错误时重置进度
         },
       });
@@ -0,0 +1,280 @@
+/**
+ * Mock Provider - 离线模拟
+ * 不访问任何网络，按输入内容确定性地生成文本、图片（SVG）、音频（WAV）或复制本地占位文件，
+ * 用于离线演示与整张画布的回归测试。通过 store 的 mockProvider 配置或环境变量 NEXFLOW_MOCK_AI=1 启用，
+ * 启动时以同名 modelId 替换真实 Provider 注册到 Registry
+ */
+
+import { BaseProvider } from '../BaseProvider.js';
+import { AIErrorCode, AIExecuteParams, AIStatusPacket } from '../types.js';
+import { isCancellationError } from '../utils/Cancellation.js';
+import { store } from '../../services/store.js';
+import { app } from 'electron';
+import path from 'path';
+import fs from 'fs';
+
+/** 可被模拟的 Provider */
+export type MockModelId = 'chat' | 'image' | 'video' | 'audio';
+
+export const MOCK_MODEL_IDS: readonly MockModelId[] = ['chat', 'image', 'video', 'audio'];
+
+/**
+ * 离线模拟配置（store: mockProvider）
+ */
+export interface MockProviderConfig {
+  enabled: boolean;
+  /** 仅模拟这些 Provider；为空时全部模拟 */
+  modelIds?: MockModelId[];
+  /** 单次任务总耗时（毫秒） */
+  latencyMs: number;
+  /** 进度推送次数（均匀分布在 latencyMs 内） */
+  progressSteps: number;
+  /** 随机失败概率 0-1（提示词含 [mock-fail] 时必定失败，不受此项影响） */
+  failureRate: number;
+  /** 注入失败时使用的错误分类码；提示词中 [mock-fail:AUTH] 等可单独指定 */
+  failureCode: AIErrorCode;
+  /** 本地占位文件（存在时复制后返回，代替程序生成的内容）；视频无程序生成内容，需配置此项 */
+  placeholderFiles?: Partial<Record<'image' | 'video' | 'audio', string>>;
+}
+
+const DEFAULT_CONFIG: MockProviderConfig = {
+  enabled: false,
+  latencyMs: 3000,
+  progressSteps: 5,
+  failureRate: 0,
+  failureCode: 'UNKNOWN',
+};
+
+const FAIL_MARKER_PATTERN = /\[mock-fail(?::(RETRYABLE|CONTENT_POLICY|AUTH|INSUFFICIENT_BALANCE|UNKNOWN))?\]/i;
+
+const FAILURE_MESSAGES: Record<AIErrorCode, string> = {
+  RETRYABLE: '离线模拟：请求超时（timeout）',
+  CONTENT_POLICY: '离线模拟：内容审核未通过',
+  AUTH: '离线模拟：API Key 无效',
+  INSUFFICIENT_BALANCE: '离线模拟：账户余额不足',
+  UNKNOWN: '离线模拟：任务失败',
+};
+
+/**
+ * 读取离线模拟配置（环境变量 NEXFLOW_MOCK_AI=1 时强制启用）
+ */
+export function getMockProviderConfig(): MockProviderConfig {
+  const stored = (store.get('mockProvider') as Partial<MockProviderConfig> | undefined) || {};
+  const config = { ...DEFAULT_CONFIG, ...stored };
+  if (process.env.NEXFLOW_MOCK_AI === '1' || process.env.NEXFLOW_MOCK_AI === 'true') {
+    config.enabled = true;
+  }
+  return config;
+}
+
+/**
+ * 当前是否应以离线模拟替换该 Provider
+ */
+export function isMockEnabledFor(modelId: MockModelId): boolean {
+  const config = getMockProviderConfig();
+  if (!config.enabled) return false;
+  return !config.modelIds || config.modelIds.length === 0 || config.modelIds.includes(modelId);
+}
+
+/** 字符串哈希（FNV-1a），保证相同输入得到相同输出 */
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/[<>&'"]/g, (ch) => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', "'": '&apos;', '"': '&quot;' })[ch]!);
+}
+
+/**
+ * 从各 Provider 的输入中提取提示词（chat 取最后一条 user 消息的文本）
+ */
+function extractPrompt(modelId: MockModelId, input: any): string {
+  if (modelId === 'chat') {
+    const messages: any[] = Array.isArray(input?.messages) ? input.messages : [];
+    const lastUser = [...messages].reverse().find((m) => m?.role === 'user');
+    const content = lastUser?.content;
+    if (typeof content === 'string') return content;
+    if (Array.isArray(content)) {
+      return content.filter((part) => part?.type === 'text').map((part) => part.text).join('\n');
+    }
+    return '';
+  }
+  if (modelId === 'audio') return String(input?.text || input?.lyrics || input?.songName || '');
+  return String(input?.prompt || '');
+}
+
+/**
+ * 离线模拟 Provider
+ */
+export class MockProvider extends BaseProvider {
+  readonly modelId: MockModelId;
+
+  constructor(modelId: MockModelId) {
+    super();
+    this.modelId = modelId;
+  }
+
+  async execute(params: AIExecuteParams): Promise<void> {
+    const { nodeId, input, onStatus, signal } = params;
+    const config = getMockProviderConfig();
+    const prompt = extractPrompt(this.modelId, input);
+    const model = String(input?.model || this.modelId);
+
+    try {
+      onStatus(this.createStatusPacket(nodeId, 'START', { model }));
+
+      const steps = Math.max(1, Math.floor(config.progressSteps));
+      const stepDelay = Math.max(0, config.latencyMs) / steps;
+      // chat 流式请求：把模拟文本切成与进度步数相同的增量逐段推送
+      const streamText = this.modelId === 'chat' && input?.stream === true ? this.buildChatText(prompt, model) : '';
+      const chunkSize = Math.ceil(streamText.length / steps);
+      for (let step = 1; step <= steps; step++) {
+        await this.sleep(stepDelay, signal);
+        if (streamText) {
+          const delta = streamText.slice((step - 1) * chunkSize, step * chunkSize);
+          if (delta) onStatus(this.createStatusPacket(nodeId, 'PROCESSING', { delta }));
+        } else if (step < steps) {
+          onStatus(
+            this.createStatusPacket(nodeId, 'PROCESSING', {
+              progress: Math.round((step / steps) * 95),
+              text: `离线模拟中（${step}/${steps}）`,
+            })
+          );
+        }
+      }
+
+      const failureCode = this.pickFailure(config, prompt);
+      if (failureCode) {
+        console.log(`[离线模拟] ${this.modelId} 节点 ${nodeId} 注入失败: ${failureCode}`);
+        onStatus(
+          this.createStatusPacket(nodeId, 'ERROR', {
+            error: FAILURE_MESSAGES[failureCode],
+            errorCode: failureCode,
+          })
+        );
+        return;
+      }
+
+      onStatus(this.createStatusPacket(nodeId, 'SUCCESS', this.buildResult(config, nodeId, prompt, model, input)));
+    } catch (error: any) {
+      if (isCancellationError(error)) throw error;
+      console.error(`[离线模拟] ${this.modelId} 节点 ${nodeId} 失败:`, error);
+      onStatus(
+        this.createStatusPacket(nodeId, 'ERROR', {
+          error: error?.message || '离线模拟失败',
+          errorCode: this.getErrorCode(error),
+        })
+      );
+    }
+  }
+
+  /**
+   * 失败注入：提示词含 [mock-fail] / [mock-fail:CODE] 时必定失败，否则按 failureRate 随机失败
+   */
+  private pickFailure(config: MockProviderConfig, prompt: string): AIErrorCode | null {
+    const marker = prompt.match(FAIL_MARKER_PATTERN);
+    if (marker) return (marker[1]?.toUpperCase() as AIErrorCode | undefined) || config.failureCode;
+    if (config.failureRate > 0 && Math.random() < config.failureRate) return config.failureCode;
+    return null;
+  }
+
+  private buildResult(
+    config: MockProviderConfig,
+    nodeId: string,
+    prompt: string,
+    model: string,
+    input: any
+  ): AIStatusPacket['payload'] {
+    if (this.modelId === 'chat') {
+      return { text: this.buildChatText(prompt, model), model };
+    }
+
+    const kind = this.modelId;
+    const placeholder = config.placeholderFiles?.[kind];
+    let localPath: string;
+    if (placeholder && fs.existsSync(placeholder)) {
+      localPath = this.writeOutput(nodeId, path.extname(placeholder) || '.bin', fs.readFileSync(placeholder));
+    } else if (kind === 'image') {
+      localPath = this.writeOutput(nodeId, '.svg', Buffer.from(this.renderImage(prompt, model, input)));
+    } else if (kind === 'audio') {
+      localPath = this.writeOutput(nodeId, '.wav', this.renderAudio(prompt));
+    } else {
+      throw new Error('离线模拟：视频需在 mockProvider.placeholderFiles.video 中配置本地占位视频文件');
+    }
+
+    const url = `local-resource://${localPath.replace(/\\/g, '/')}`;
+    const common = { url, localPath, model, prompt, progress: 100 };
+    if (kind === 'image') return { ...common, imageUrl: url };
+    if (kind === 'video') return { ...common, videoUrl: url };
+    return { ...common, text: `音频生成完成: ${url}` };
+  }
+
+  private buildChatText(prompt: string, model: string): string {
+    const summary = prompt.trim().slice(0, 200) || '(空输入)';
+    return `【离线模拟 · ${model}】\n${summary}`;
+  }
+
+  private writeOutput(nodeId: string, ext: string, data: Buffer): string {
+    const dir = path.join(app.getPath('userData'), 'mock-outputs');
+    fs.mkdirSync(dir, { recursive: true });
+    const filePath = path.join(dir, `${this.modelId}_${nodeId}_${Date.now()}${ext}`);
+    fs.writeFileSync(filePath, data);
+    return filePath;
+  }
+
+  /**
+   * 程序生成的占位图：按比例出图，背景色由提示词哈希决定
+   */
+  private renderImage(prompt: string, model: string, input: any): string {
+    const [w, h] = String(input?.aspect_ratio || '1:1').split(':').map(Number);
+    const ratio = w > 0 && h > 0 ? w / h : 1;
+    const width = ratio >= 1 ? 1024 : Math.round(1024 * ratio);
+    const height = ratio >= 1 ? Math.round(1024 / ratio) : 1024;
+    const hue = hashString(prompt) % 360;
+    const caption = escapeXml(prompt.trim().slice(0, 40) || '(空提示词)');
+    return [
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+      `<defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1">`,
+      `<stop offset="0" stop-color="hsl(${hue},70%,55%)"/><stop offset="1" stop-color="hsl(${(hue + 60) % 360},70%,35%)"/>`,
+      `</linearGradient></defs>`,
+      `<rect width="100%" height="100%" fill="url(#g)"/>`,
+      `<text x="50%" y="45%" text-anchor="middle" font-size="48" fill="#fff" font-family="sans-serif">离线模拟 · ${escapeXml(model)}</text>`,
+      `<text x="50%" y="55%" text-anchor="middle" font-size="32" fill="#fff" fill-opacity="0.8" font-family="sans-serif">${caption}</text>`,
+      `</svg>`,
+    ].join('');
+  }
+
+  /**
+   * 程序生成的占位音频：2 秒单声道 16-bit PCM 正弦波，音高由提示词哈希决定
+   */
+  private renderAudio(prompt: string): Buffer {
+    const sampleRate = 22050;
+    const samples = sampleRate * 2;
+    const frequency = 220 + (hashString(prompt) % 440);
+    const buffer = Buffer.alloc(44 + samples * 2);
+    buffer.write('RIFF', 0);
+    buffer.writeUInt32LE(36 + samples * 2, 4);
+    buffer.write('WAVE', 8);
+    buffer.write('fmt ', 12);
+    buffer.writeUInt32LE(16, 16);
+    buffer.writeUInt16LE(1, 20); // PCM
+    buffer.writeUInt16LE(1, 22); // 单声道
+    buffer.writeUInt32LE(sampleRate, 24);
+    buffer.writeUInt32LE(sampleRate * 2, 28);
+    buffer.writeUInt16LE(2, 32);
+    buffer.writeUInt16LE(16, 34);
+    buffer.write('data', 36);
+    buffer.writeUInt32LE(samples * 2, 40);
+    for (let i = 0; i < samples; i++) {
+      const fade = Math.min(1, i / 1000, (samples - i) / 1000);
+      const value = Math.sin((2 * Math.PI * frequency * i) / sampleRate) * 0.3 * fade;
+      buffer.writeInt16LE(Math.round(value * 32767), 44 + i * 2);
+    }
+    return buffer;
+  }
+}
@@ -5,8 +5,19 @@
 
 /**
  * AI 任务状态枚举
+ * CANCELLED：用户通过 ai:cancel 主动取消，与 ERROR 区分展示
  */
-export type AIStatus = 'START' | 'PROCESSING' | 'SUCCESS' | 'ERROR';
+export type AIStatus = 'START' | 'PROCESSING' | 'SUCCESS' | 'ERROR' | 'CANCELLED';
+
+/**
+ * 错误分类码（随 ERROR 状态下发，前端据此提供对应操作）
+ * RETRYABLE：网络抖动、超时、5xx、429 等瞬时错误，可直接重试
+ * CONTENT_POLICY：提示词或素材触发内容审核，需修改提示词
+ * AUTH：API Key 未配置或无效，需前往设置修改
+ * INSUFFICIENT_BALANCE：账户余额/额度不足，需充值
+ * UNKNOWN：其他错误
+ */
+export type AIErrorCode = 'RETRYABLE' | 'CONTENT_POLICY' | 'AUTH' | 'INSUFFICIENT_BALANCE' | 'UNKNOWN';
 
 /**
  * AI 状态数据包
@@ -18,6 +29,7 @@ export interface AIStatusPacket {
   status: AIStatus;
   payload?: {
     text?: string;      // 文本片段（流式或完整）
+    delta?: string;     // 流式输出的文本增量（仅 PROCESSING 状态，节点自行拼接）
     url?: string;       // 生成的图片/视频链接（远程 URL）
     imageUrl?: string;  // 生成的图片 URL（用于图片生成，远程 URL）
     videoUrl?: string;  // 生成的视频 URL（用于视频生成，远程 URL）
@@ -26,14 +38,21 @@ export interface AIStatusPacket {
     originalVideoUrl?: string; // 原始视频远程 URL（备用，用于视频加载失败时回退）
     progress?: number;  // 0-100 的进度值
     error?: string;     // 错误描述
+    errorCode?: AIErrorCode; // 错误分类码（仅 ERROR 状态）
     taskId?: string;    // 任务 ID（用于轮询查询任务状态）
     prompt?: string;    // 提示词（用于保存元数据）
     model?: string;     // 使用的模型（用于保存元数据）
     nodeTitle?: string; // 节点标题（用于保存元数据）
     projectId?: string; // 项目 ID（用于保存元数据）
+    queuePosition?: number; // 排队位置（从 1 开始，仅排队等待调度时下发）
   };
 }
 
+/**
+ * 任务调度优先级通道：high 为交互式单次运行，normal 为默认，low 为批量/工作流运行
+ */
+export type AIPriority = 'high' | 'normal' | 'low';
+
 /**
  * AI 调用参数
  * 渲染进程通过 IPC 发送给主进程
@@ -41,7 +60,9 @@ export interface AIStatusPacket {
 export interface AIInvokeParams {
   modelId: string;     // 模型标识符（如 'gemini', 'nanobanana', 'sora2'）
   nodeId: string;      // 节点 ID
+  projectId?: string;  // 所属项目 ID（模板、版本分支可能复用节点 ID，与 nodeId 共同标识任务）
   input: any;          // 模型特定的输入参数
+  priority?: AIPriority; // 调度优先级（默认 normal）
 }
 
 /**
@@ -51,4 +72,14 @@ export interface AIExecuteParams {
   nodeId: string;
   input: any;
   onStatus: (packet: AIStatusPacket) => void;
+  signal?: AbortSignal; // 取消信号：中断后 Provider 需停止轮询并中止网络请求
+  onTaskSubmitted?: (taskId: string) => void; // 远程任务提交成功（拿到 taskId）时回调，用于持久化以便重启后恢复轮询
+}
+
+/**
+ * AI Provider 恢复参数
+ * 应用重启后，按持久化的 taskId 继续轮询未完成的远程任务
+ */
+export interface AIResumeParams extends AIExecuteParams {
+  taskId: string;
 }
@@ -0,0 +1,57 @@
+/**
+ * AI 任务取消工具
+ * 统一 AbortSignal 的判断、可中断等待与取消错误识别，供 AICore 与各 Provider 共用
+ */
+
+import axios from 'axios';
+
+/**
+ * 任务被用户取消时抛出的错误
+ */
+export class AICancelledError extends Error {
+  constructor(message: string = '任务已取消') {
+    super(message);
+    this.name = 'AICancelledError';
+  }
+}
+
+/**
+ * 判断错误是否由取消引起（包括 axios 因 signal 中断抛出的 CanceledError）
+ */
+export function isCancellationError(error: unknown): boolean {
+  if (!error) return false;
+  if (error instanceof AICancelledError) return true;
+  if (axios.isCancel(error)) return true;
+  const name = (error as { name?: string }).name;
+  return name === 'AbortError' || name === 'CanceledError';
+}
+
+/**
+ * signal 已中断时抛出 AICancelledError
+ */
+export function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new AICancelledError();
+  }
+}
+
+/**
+ * 可中断的等待：用于轮询间隔，取消时立即以 AICancelledError 结束
+ */
+export function sleepWithSignal(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new AICancelledError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new AICancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
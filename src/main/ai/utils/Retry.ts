@@ -0,0 +1,185 @@
+/**
+ * AI 任务重试与错误分类工具
+ * 统一 Provider 调用的指数退避重试策略，并将错误归类为可重试 / 内容违规 / 鉴权 / 余额不足，
+ * 分类结果通过 AIStatusPacket.payload.errorCode 下发，供前端给出对应操作（充值、修改 Key、修改提示词）
+ */
+
+import { AIErrorCode } from '../types.js';
+import { isCancellationError, sleepWithSignal } from './Cancellation.js';
+
+/**
+ * 错误分类结果
+ */
+export interface AIErrorClassification {
+  code: AIErrorCode;
+  retryable: boolean; // 是否为瞬时错误（超时、5xx、429、网络抖动）
+  retryAfterMs?: number; // 服务端要求的等待时间（Retry-After / 限流提示）
+}
+
+/**
+ * 重试选项
+ */
+export interface RetryOptions {
+  maxAttempts?: number; // 最多尝试次数（含首次），默认 3
+  baseDelayMs?: number; // 首次重试等待，默认 1000
+  maxDelayMs?: number; // 单次等待上限，默认 8000；服务端要求更久时放弃重试
+  signal?: AbortSignal; // 取消信号：取消后立即停止重试
+  /**
+   * 请求是否幂等（查询、下载、OSS 上传为 true）
+   * 非幂等的提交请求只在「确定未被服务端受理」的错误上重试（429、503、连接失败），
+   * 超时等结果不确定的错误不重试，避免重复扣费
+   */
+  idempotent?: boolean;
+  label?: string; // 日志前缀，如 '[视频生成] 提交任务'
+  onRetry?: (attempt: number, delayMs: number, error: unknown) => void;
+}
+
+const RETRYABLE_STATUS = new Set([408, 425, 429, 500, 502, 503, 504]);
+/** 非幂等请求可安全重试的状态码：服务端明确未处理该请求 */
+const SAFE_SUBMIT_STATUS = new Set([429, 503]);
+
+const RETRYABLE_NETWORK_CODES = new Set([
+  'ECONNRESET',
+  'ETIMEDOUT',
+  'ECONNABORTED',
+  'ECONNREFUSED',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'EPIPE',
+  'ERR_NETWORK',
+  'RequestError', // ali-oss 网络错误
+  'ConnectionTimeoutError',
+  'ResponseTimeoutError',
+]);
+/** 连接阶段即失败的网络错误：请求未到达服务端，非幂等请求也可重试 */
+const SAFE_SUBMIT_NETWORK_CODES = new Set(['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN']);
+
+const AUTH_PATTERN = /unauthorized|forbidden|invalid[\s_-]*(api[\s_-]*key|token|key)|api[\s_-]*key\s*(未配置|无效|错误|不正确)|未配置.*api[\s_-]*key|令牌无效|无效的令牌|鉴权失败|认证失败/i;
+const BALANCE_PATTERN = /余额不足|额度不足|算力不足|欠费|insufficient[\s_-]*(balance|quota|credit|fund)|quota is not enough|remain quota|exceeded your current quota|payment required/i;
+const CONTENT_POLICY_PATTERN = /敏感|违规|违禁|审核未通过|内容安全|content[\s_-]*policy|moderation|safety system|sensitive|nsfw|flagged/i;
+const RETRYABLE_PATTERN = /timeout|timed out|超时|socket hang up|network error|rate limit|too many requests|请求过于频繁|ECONNRESET|ETIMEDOUT|ECONNREFUSED|ENOTFOUND|EAI_AGAIN|bad gateway|service unavailable|gateway timeout/i;
+/** 从包装后的错误消息中提取 HTTP 状态码，如「提交任务失败: 401 - ...」「HTTP 503: ...」 */
+const STATUS_IN_MESSAGE_PATTERN = /(?:HTTP|status|失败)[\s:：]*(\d{3})\b/i;
+
+function getErrorMessage(error: any): string {
+  if (!error) return '';
+  if (typeof error === 'string') return error;
+  const data = error.response?.data;
+  const dataMessage =
+    typeof data === 'string'
+      ? data
+      : data?.error?.message || data?.errorMessage || data?.message || data?.msg || '';
+  return [error.message, dataMessage].filter(Boolean).join(' ');
+}
+
+function getHttpStatus(error: any): number | undefined {
+  const status = error?.response?.status ?? (typeof error?.status === 'number' && error.status > 0 ? error.status : undefined);
+  if (typeof status === 'number') return status;
+  const match = getErrorMessage(error).match(STATUS_IN_MESSAGE_PATTERN);
+  return match ? Number(match[1]) : undefined;
+}
+
+function getRetryAfterMs(error: any): number | undefined {
+  const header = error?.response?.headers?.['retry-after'];
+  if (header != null) {
+    const seconds = Number(header);
+    if (!Number.isNaN(seconds)) return seconds * 1000;
+    const date = Date.parse(String(header));
+    if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+  }
+  // ApiService 限流拦截器的提示：「请等待 N 秒后重试」「已自动暂停 60 秒」
+  const match = getErrorMessage(error).match(/(?:等待|暂停)\s*(\d+)\s*秒/);
+  return match ? Number(match[1]) * 1000 : undefined;
+}
+
+/**
+ * 对错误进行分类
+ * 优先依据 HTTP 状态码与网络错误码，其次依据错误消息关键字（上游常以 200 + 错误消息返回业务错误）
+ */
+export function classifyError(error: unknown): AIErrorClassification {
+  const err = error as any;
+  const message = getErrorMessage(err);
+  const status = getHttpStatus(err);
+  const networkCode = err?.code || err?.name;
+
+  if (status === 402 || BALANCE_PATTERN.test(message)) {
+    return { code: 'INSUFFICIENT_BALANCE', retryable: false };
+  }
+  if (status === 401 || status === 403 || AUTH_PATTERN.test(message)) {
+    return { code: 'AUTH', retryable: false };
+  }
+  if (CONTENT_POLICY_PATTERN.test(message)) {
+    return { code: 'CONTENT_POLICY', retryable: false };
+  }
+  if (
+    (status !== undefined && RETRYABLE_STATUS.has(status)) ||
+    (typeof networkCode === 'string' && RETRYABLE_NETWORK_CODES.has(networkCode)) ||
+    RETRYABLE_PATTERN.test(message)
+  ) {
+    return { code: 'RETRYABLE', retryable: true, retryAfterMs: getRetryAfterMs(err) };
+  }
+  return { code: 'UNKNOWN', retryable: false };
+}
+
+/**
+ * 仅凭错误消息分类（用于 Provider 已下发但未携带 errorCode 的 ERROR 包）
+ */
+export function classifyErrorMessage(message: string | undefined): AIErrorCode {
+  if (!message) return 'UNKNOWN';
+  return classifyError(new Error(message)).code;
+}
+
+/**
+ * 非幂等请求是否可以安全重试
+ */
+function isSafeToResubmit(error: any): boolean {
+  const status = error?.response?.status;
+  if (typeof status === 'number') return SAFE_SUBMIT_STATUS.has(status);
+  return typeof error?.code === 'string' && SAFE_SUBMIT_NETWORK_CODES.has(error.code);
+}
+
+/**
+ * 以指数退避（含随机抖动）执行异步调用，仅对可重试错误重试
+ *
+ * @param fn 实际调用
+ * @param options 重试选项
+ */
+export async function withRetry<T>(fn: () => Promise<T>, options: RetryOptions = {}): Promise<T> {
+  const {
+    maxAttempts = 3,
+    baseDelayMs = 1000,
+    maxDelayMs = 8000,
+    signal,
+    idempotent = true,
+    label = '[重试]',
+    onRetry,
+  } = options;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (isCancellationError(error) || signal?.aborted) throw error;
+
+      const classification = classifyError(error);
+      const canRetry =
+        attempt < maxAttempts &&
+        classification.retryable &&
+        (idempotent || isSafeToResubmit(error));
+      if (!canRetry) throw error;
+
+      const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+      const delayMs = classification.retryAfterMs ?? Math.round(backoff * (0.5 + Math.random() * 0.5));
+      if (delayMs > maxDelayMs) {
+        // 服务端要求等待的时间超过上限，直接失败交由用户稍后重试
+        throw error;
+      }
+
+      console.warn(
+        `${label} 第 ${attempt}/${maxAttempts} 次调用失败（${getErrorMessage(error) || '未知错误'}），${delayMs}ms 后重试`
+      );
+      onRetry?.(attempt, delayMs, error);
+      await sleepWithSignal(delayMs, signal);
+    }
+  }
+}
@@ -18,12 +18,38 @@ import { getBLTCYBalance, getRHBalance } from './services/balance.js';
 import { activateLicense, checkLicenseStatus, generateActivationCode } from './services/licenseManager.js';
 import { runMatting } from './services/matting.js';
 import { runWatermarkRemoval } from './services/watermarkRemoval.js';
+import { VideoTranscodeGuard } from './media/VideoTranscodeGuard.js';
+import { discoverLLMEndpointModels, getLLMEndpoints, saveLLMEndpoints, type LLMEndpoint } from './services/llmEndpoints.js';
+import { deleteLibraryModule, getModuleLibrary, saveLibraryModule, type LibraryModule } from './services/moduleLibrary.js';
+import {
+  applyTemplateParams,
+  deleteProjectTemplate,
+  getProjectTemplate,
+  listProjectTemplates,
+  remapGraphIds,
+  saveProjectTemplate,
+} from './services/projectTemplates.js';
+import {
+  createProjectVersion,
+  deleteProjectVersion,
+  getAutoSnapshotMinutes,
+  getProjectVersion,
+  listProjectVersions,
+  setAutoSnapshotMinutes,
+} from './services/projectVersions.js';
+import { clearProjectHistory, loadProjectHistory, saveProjectHistory } from './services/projectHistory.js';
+import { getProjectDataRecoveryMessage, listProjectBackups, readProjectData, restoreProjectBackup, writeProjectData } from './services/projectData.js';
+import { bundleProjectMedia, restorePackageReferences, type ProjectExportOptions } from './services/projectBundle.js';
+import { listProjectAssets } from './services/projectAssets.js';
+import { renderSequence, type SequenceRenderSpec } from './services/sequenceRender.js';
+import { extractVideoFrames, type FrameExtractOptions } from './services/frameExtract.js';
 import { aiCore } from './ai/AICore.js';
 import { registerProvider } from './ai/Registry.js';
 import { ChatProvider } from './ai/providers/ChatProvider.js';
 import { ImageProvider } from './ai/providers/ImageProvider.js';
 import { VideoProvider } from './ai/providers/VideoProvider.js';
 import { AudioProvider } from './ai/providers/AudioProvider.js';
+import { MockProvider, MOCK_MODEL_IDS, isMockEnabledFor } from './ai/providers/MockProvider.js';
 import { migrateProjectFolders, migrateNameBasedFoldersToIdBased, migrateProjectsFromUserDataToAppDir, removeOrphanedProjects, getProjectFolderPath, getProjectOriginalFolderPath, getProjectsBasePath, getProjectFolderPathSync, sanitizeProjectName, isLocalResourcePathAllowed } from './utils/projectFolderHelper.js';
 import { getAverageDuration, recordTaskHistory, TaskType } from './services/taskHistory.js';
 
@@ -643,18 +669,16 @@ function importProjectFromNexflowPath(filePath: string): { project: ProjectRecor
       assetRelativePaths.add(entryName.substring('assets/'.length));
     }
   }
-  // 将 outputImage 等 local-resource 路径重写为新项目目录，解决导入后图片加载失败
-  const rewritten = rewriteAssetPathsForImport(importData.nodes || [], assetRelativePaths, projectFolderPath);
+  // 自包含导出的节点使用包内引用，直接映射到新项目目录；旧格式将 outputImage 等 local-resource 路径重写为新项目目录
+  const rewritten = importData.selfContained
+    ? { nodes: restorePackageReferences(importData.nodes || [], projectFolderPath) }
+    : rewriteAssetPathsForImport(importData.nodes || [], assetRelativePaths, projectFolderPath);
   for (const entry of zipEntries) {
     const entryName = entry.entryName;
     if (entry.isDirectory) continue;
     if (entryName === 'card-bg.txt') continue;
     if (entryName === 'data.json') {
-      fs.writeFileSync(
-        path.join(projectFolderPath, 'data.json'),
-        JSON.stringify({ nodes: rewritten.nodes, edges: importData.edges || [] }, null, 2),
-        'utf-8'
-      );
+      writeProjectData(projectFolderPath, { nodes: rewritten.nodes, edges: importData.edges || [] });
       continue;
     }
     if (entryName === 'metadata.json') {
@@ -664,6 +688,8 @@ function importProjectFromNexflowPath(filePath: string): { project: ProjectRecor
     if (entryName.startsWith('assets/')) {
       const relativePath = entryName.substring('assets/'.length);
       const targetPath = path.join(projectFolderPath, 'assets', relativePath);
+      // 忽略指向项目目录之外的条目（如 ../）
+      if (path.relative(path.join(projectFolderPath, 'assets'), targetPath).startsWith('..')) continue;
       const targetDir = path.dirname(targetPath);
       if (!fs.existsSync(targetDir)) fs.mkdirSync(targetDir, { recursive: true });
       fs.writeFileSync(targetPath, entry.getData());
@@ -781,6 +807,11 @@ app.whenReady().then(() => {
   registerProvider(new ImageProvider());
   registerProvider(new VideoProvider());
   registerProvider(new AudioProvider());
+  // 离线模拟（store.mockProvider 或 NEXFLOW_MOCK_AI=1）：以同名 modelId 覆盖真实 Provider
+  MOCK_MODEL_IDS.filter(isMockEnabledFor).forEach((modelId) => {
+    registerProvider(new MockProvider(modelId));
+    console.log(`[离线模拟] ${modelId} 已切换为离线模拟 Provider`);
+  });
 
   // 启动统计 API 服务器
   startStatsServer();
@@ -1038,7 +1069,10 @@ ipcMain.handle('get-projects', () => {
   return store.get('projects') || [];
 });
 
-ipcMain.handle('create-project', async (_, name: string) => {
+/**
+ * 新建项目记录并创建项目目录与 assets 子目录；projectDir 在路径不可用时为 null
+ */
+function createProjectRecord(name: string) {
   const projects = (store.get('projects') || []) as Array<{
     id: string;
     name: string;
@@ -1065,7 +1099,11 @@ ipcMain.handle('create-project', async (_, name: string) => {
     if (!fs.existsSync(assetsDir)) fs.mkdirSync(assetsDir, { recursive: true });
   }
 
-  return newProject;
+  return { project: newProject, projectDir };
+}
+
+ipcMain.handle('create-project', async (_, name: string) => {
+  return createProjectRecord(name).project;
 });
 
 ipcMain.handle('update-project', async (_, projectId: string, name: string) => {
@@ -1152,8 +1190,7 @@ ipcMain.handle('save-project-data', async (_, projectId: string, nodes: any[], e
     fs.mkdirSync(assetsDir, { recursive: true });
   }
   
-  const dataPath = path.join(projectFolderPath, 'data.json');
-  fs.writeFileSync(dataPath, JSON.stringify({ nodes, edges }, null, 2), 'utf-8');
+  writeProjectData(projectFolderPath, { nodes, edges });
   return { success: true };
 });
 
@@ -1164,20 +1201,128 @@ ipcMain.handle('load-project-data', async (_, projectId: string) => {
     return { nodes: [], edges: [] };
   }
   
-  const dataPath = path.join(projectFolderPath, 'data.json');
-  if (!fs.existsSync(dataPath)) {
-    return { nodes: [], edges: [] };
-  }
-  
   try {
-    const data = JSON.parse(fs.readFileSync(dataPath, 'utf-8'));
-    return { nodes: data.nodes || [], edges: data.edges || [] };
+    const result = readProjectData(projectFolderPath);
+    if (result.status === 'ok') {
+      return { nodes: result.data.nodes, edges: result.data.edges, recovered: result.recovered };
+    }
+    if (result.status === 'corrupted') {
+      // 损坏的文件已移入 backups/，由渲染进程弹出恢复对话框
+      return { nodes: [], edges: [], recovery: { reason: result.reason, backups: result.backups } };
+    }
+    return { nodes: [], edges: [] };
   } catch (error) {
     console.error('加载项目数据失败:', error);
     return { nodes: [], edges: [] };
   }
 });
 
+ipcMain.handle('list-project-backups', async (_, projectId: string) => {
+  const projectFolderPath = await getProjectFolderPath(projectId);
+  return projectFolderPath ? listProjectBackups(projectFolderPath) : [];
+});
+
+ipcMain.handle('restore-project-backup', async (_, projectId: string, backupId: string) => {
+  try {
+    const projectFolderPath = await getProjectFolderPath(projectId);
+    if (!projectFolderPath) throw new Error('项目不存在');
+    restoreProjectBackup(projectFolderPath, backupId);
+    return { success: true };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+});
+
+// 素材浏览：项目 assets 中的媒体文件及其元数据
+ipcMain.handle('list-project-assets', async (_, projectId: string) => {
+  const projectFolderPath = await getProjectFolderPath(projectId);
+  return projectFolderPath ? listProjectAssets(projectFolderPath) : [];
+});
+
+// 序列节点：ffmpeg 本地渲染成片到项目 assets，进度通过 sequence:render-progress 推送
+ipcMain.handle(
+  'render-sequence',
+  async (_, spec: SequenceRenderSpec, meta: { projectId?: string; nodeId: string; nodeTitle?: string }) => {
+    try {
+      const { autoDownloadResource, getResourceSaveDir } = await import('./utils/resourceDownloader.js');
+      const saveDir = await getResourceSaveDir({ projectId: meta.projectId });
+      const outputPath = path.join(saveDir, `sequence-${Date.now()}.mp4`);
+      const duration = await renderSequence(spec, outputPath, (progress) => {
+        safeSendToRenderer('sequence:render-progress', { nodeId: meta.nodeId, progress });
+      });
+      await autoDownloadResource(null, 'sequence', {
+        resourceType: 'sequence',
+        localPath: outputPath,
+        projectId: meta.projectId,
+        nodeId: meta.nodeId,
+        nodeTitle: meta.nodeTitle,
+        clipCount: spec.clips.length,
+        duration,
+      });
+      return { success: true, localPath: outputPath, url: `local-resource://${outputPath.replace(/\\/g, '/')}` };
+    } catch (error) {
+      console.error('[序列渲染] 渲染失败:', error);
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+);
+
+// 抽帧节点：从视频截取首帧/末帧/指定时间/均匀 N 帧，保存到项目 assets
+ipcMain.handle(
+  'extract-video-frames',
+  async (_, videoUrl: string, options: FrameExtractOptions, meta: { projectId?: string; nodeId: string; nodeTitle?: string }) => {
+    try {
+      const { autoDownloadResource, getResourceSaveDir } = await import('./utils/resourceDownloader.js');
+      const saveDir = await getResourceSaveDir({ projectId: meta.projectId });
+      const frames = await extractVideoFrames(videoUrl, options, saveDir, `frame-${Date.now()}`);
+      for (const frame of frames) {
+        await autoDownloadResource(null, 'frame', {
+          resourceType: 'frame',
+          localPath: frame.localPath,
+          projectId: meta.projectId,
+          nodeId: meta.nodeId,
+          nodeTitle: meta.nodeTitle,
+          sourceVideo: videoUrl,
+          frameTime: frame.time,
+        });
+      }
+      return {
+        success: true,
+        frames: frames.map((frame) => ({ time: frame.time, url: `local-resource://${frame.localPath.replace(/\\/g, '/')}` })),
+      };
+    } catch (error) {
+      console.error('[抽帧] 抽帧失败:', error);
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+);
+
+// 图片编辑节点：渲染进程 canvas 处理后的 PNG 保存到项目 assets
+ipcMain.handle(
+  'save-edited-image',
+  async (_, buffer: ArrayBuffer, meta: { projectId?: string; nodeId: string; nodeTitle?: string; operations?: string }) => {
+    try {
+      const { autoDownloadResource, getResourceSaveDir } = await import('./utils/resourceDownloader.js');
+      const saveDir = await getResourceSaveDir({ projectId: meta.projectId });
+      fs.mkdirSync(saveDir, { recursive: true });
+      const outputPath = path.join(saveDir, `edit-${Date.now()}.png`);
+      fs.writeFileSync(outputPath, Buffer.from(buffer));
+      await autoDownloadResource(null, 'edit', {
+        resourceType: 'edit',
+        localPath: outputPath,
+        projectId: meta.projectId,
+        nodeId: meta.nodeId,
+        nodeTitle: meta.nodeTitle,
+        prompt: meta.operations,
+      });
+      return { success: true, url: `local-resource://${outputPath.replace(/\\/g, '/')}` };
+    } catch (error) {
+      console.error('[图片编辑] 保存失败:', error);
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+);
+
 // 将本地文件复制到项目 assets（拖拽到画布的图片/视频/音频持久化到项目，避免 OSS 过期或原路径失效导致“图片加载失败”）
 ipcMain.handle('copy-file-to-project-assets', async (_, projectId: string | undefined, sourceFilePath: string) => {
   const normalized = (sourceFilePath || '').trim().replace(/^file:\/\/\/?/i, '');
@@ -1240,7 +1385,7 @@ ipcMain.handle('save-dropped-file-buffer-to-project-assets', async (_, projectId
 });
 
 // 导出项目
-ipcMain.handle('export-project', async (_, projectId: string, cardBgDataUrl?: string) => {
+ipcMain.handle('export-project', async (_, projectId: string, cardBgDataUrl?: string, options: ProjectExportOptions = {}) => {
   // 导出时使用原始路径（中文路径），确保导出功能正常
   const projectFolderPath = getProjectOriginalFolderPath(projectId);
   
@@ -1248,13 +1393,17 @@ ipcMain.handle('export-project', async (_, projectId: string, cardBgDataUrl?: st
     throw new Error('项目不存在');
   }
   
-  const dataPath = path.join(projectFolderPath, 'data.json');
-  if (!fs.existsSync(dataPath)) {
+  // 经校验读取，损坏的项目文件不导出（原文件保留，重新打开项目时走恢复流程）
+  const dataResult = readProjectData(projectFolderPath, { quarantine: false });
+  if (dataResult.status === 'missing') {
     throw new Error('项目数据文件不存在');
   }
+  if (dataResult.status === 'corrupted') {
+    throw new Error(getProjectDataRecoveryMessage(dataResult.reason));
+  }
   
   try {
-    const projectData = JSON.parse(fs.readFileSync(dataPath, 'utf-8'));
+    const projectData = dataResult.data;
     const projects = (store.get('projects') as Array<{
       id: string;
       name: string;
@@ -1268,14 +1417,25 @@ ipcMain.handle('export-project', async (_, projectId: string, cardBgDataUrl?: st
       throw new Error('项目信息不存在');
     }
     
+    // 自包含导出：收集节点引用的全部媒体，节点路径改为包内引用
+    const mappedFolderPath = await getProjectFolderPath(projectId);
+    const bundle = options.selfContained
+      ? await bundleProjectMedia(
+          projectData.nodes || [],
+          [projectFolderPath, ...(mappedFolderPath && mappedFolderPath !== projectFolderPath ? [mappedFolderPath] : [])],
+          options
+        )
+      : null;
+
     // 构建导出数据（包含项目信息和节点/边数据）
     const exportData = {
-      version: '1.0',
+      version: bundle ? '2.0' : '1.0',
       projectName: project.name,
       projectId: project.id,
       createdAt: project.createdAt,
       lastModified: project.lastModified,
-      nodes: projectData.nodes || [],
+      ...(bundle ? { selfContained: true } : {}),
+      nodes: bundle ? bundle.nodes : projectData.nodes || [],
       edges: projectData.edges || [],
     };
     
@@ -1309,9 +1469,14 @@ ipcMain.handle('export-project', async (_, projectId: string, cardBgDataUrl?: st
     if (cardBgDataUrl && typeof cardBgDataUrl === 'string' && cardBgDataUrl.trim()) {
       zip.addFile('card-bg.txt', Buffer.from(cardBgDataUrl.trim(), 'utf-8'));
     }
+    if (bundle) {
+      // 只打包被引用的媒体（含项目外的头像、拖入文件与下载的远程媒体）
+      bundle.files.forEach((file) => zip.addFile(file.zipPath, file.content));
+      console.log(`[导出] 自包含导出：打包 ${bundle.files.length} 个媒体文件，${bundle.missing.length} 个引用无法打包`);
+    }
     // 添加 assets 文件夹中的所有文件（text、image、video、声音文件）
     const assetsPath = path.join(projectFolderPath, 'assets');
-    if (fs.existsSync(assetsPath)) {
+    if (!bundle && fs.existsSync(assetsPath)) {
       const addDirectoryToZip = (dirPath: string, zipPath: string = '') => {
         const files = fs.readdirSync(dirPath);
         for (const file of files) {
@@ -1342,7 +1507,11 @@ ipcMain.handle('export-project', async (_, projectId: string, cardBgDataUrl?: st
     zip.writeZip(result.filePath);
     console.log(`[导出] 项目已导出到: ${result.filePath}`);
     
-    return { success: true, filePath: result.filePath };
+    return {
+      success: true,
+      filePath: result.filePath,
+      ...(bundle ? { bundledCount: bundle.files.length, missing: bundle.missing } : {}),
+    };
   } catch (error: any) {
     console.error('导出项目失败:', error);
     throw new Error(`导出项目失败: ${error.message}`);
@@ -1423,19 +1592,10 @@ ipcMain.handle('import-project', async () => {
       if (!fs.existsSync(projectFolderPath)) {
         fs.mkdirSync(projectFolderPath, { recursive: true });
       }
-      const dataPath = path.join(projectFolderPath, 'data.json');
-      fs.writeFileSync(
-        dataPath,
-        JSON.stringify(
-          {
-            nodes: importData.nodes || [],
-            edges: importData.edges || [],
-          },
-          null,
-          2
-        ),
-        'utf-8'
-      );
+      writeProjectData(projectFolderPath, {
+        nodes: importData.nodes || [],
+        edges: importData.edges || [],
+      });
       
       return { success: true, project: newProject };
     }
@@ -1445,15 +1605,31 @@ ipcMain.handle('import-project', async () => {
   }
 });
 
-// AI 调用（统一规范化 nodeId，避免前后端匹配失败）
+// AI 调用（统一规范化 nodeId，避免前后端匹配失败；未传 projectId 时取 input 中的项目 ID）
 ipcMain.handle('ai:invoke', async (_, params: any) => {
+  const projectId = params?.projectId ?? params?.input?.projectId;
   const normalized = {
     ...params,
     nodeId: params?.nodeId != null ? String(params.nodeId).trim() : '',
+    projectId: projectId != null && String(projectId).trim() ? String(projectId).trim() : undefined,
   };
   return await aiCore.invoke(normalized);
 });
 
+// 恢复应用重启前未完成的远程任务（渲染进程加载项目后调用）
+ipcMain.handle('ai:resume-pending', (_, projectId?: string) => {
+  const nodeIds = aiCore.resumePendingJobs(projectId ? String(projectId) : undefined);
+  return { success: true, nodeIds };
+});
+
+// AI 任务取消
+ipcMain.handle('ai:cancel', (_, nodeId: string, projectId?: string) => {
+  const normalizedId = nodeId != null ? String(nodeId).trim() : '';
+  if (!normalizedId) return { success: false };
+  const normalizedProjectId = projectId != null && String(projectId).trim() ? String(projectId).trim() : undefined;
+  return { success: aiCore.cancel(normalizedId, normalizedProjectId) };
+});
+
 // 窗口操作
 ipcMain.handle('resize-window', (_, width: number, height: number) => {
   if (mainWindow) {
@@ -1516,6 +1692,175 @@ ipcMain.handle('delete-global-llm-persona', (_, personaId: string) => {
   return { success: true };
 });
 
+// LLM 端点管理（OpenAI 兼容端点）
+ipcMain.handle('get-llm-endpoints', () => {
+  return getLLMEndpoints();
+});
+
+ipcMain.handle('save-llm-endpoints', (_, endpoints: LLMEndpoint[]) => {
+  return { success: true, endpoints: saveLLMEndpoints(endpoints || []) };
+});
+
+// ffmpeg 路径（视频编码检测与 H.264 转码）
+ipcMain.handle('get-ffmpeg-config', async () => {
+  return {
+    path: (store.get('ffmpegPath') as string) || '',
+    resolvedPath: await VideoTranscodeGuard.resolveFfmpegPath(),
+  };
+});
+
+ipcMain.handle('save-ffmpeg-path', async (_, ffmpegPath: string) => {
+  store.set('ffmpegPath', (ffmpegPath || '').trim());
+  VideoTranscodeGuard.resetFfmpegPath();
+  return { success: true, resolvedPath: await VideoTranscodeGuard.resolveFfmpegPath() };
+});
+
+ipcMain.handle('discover-llm-endpoint-models', async (_, baseUrl: string, apiKey?: string) => {
+  try {
+    const models = await discoverLLMEndpointModels(baseUrl, apiKey);
+    return { success: true, models };
+  } catch (error: any) {
+    const status = error?.response?.status;
+    const message = status ? `HTTP ${status}: ${error.message}` : error?.message || String(error);
+    console.error('[LLM端点] 获取模型列表失败:', message);
+    return { success: false, models: [], error: message };
+  }
+});
+
+// 模块库（分组保存的可复用模块）
+ipcMain.handle('get-module-library', () => {
+  return getModuleLibrary();
+});
+
+ipcMain.handle('save-library-module', (_, module: LibraryModule) => {
+  try {
+    return { success: true, module: saveLibraryModule(module) };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+});
+
+ipcMain.handle('delete-library-module', (_, moduleId: string) => {
+  deleteLibraryModule(moduleId);
+  return { success: true };
+});
+
+// 工作流模板
+ipcMain.handle('get-project-templates', () => {
+  return listProjectTemplates();
+});
+
+ipcMain.handle('create-project-from-template', (_, templateId: string, name: string, values: Record<string, string>) => {
+  const template = getProjectTemplate(templateId);
+  if (!template) return { success: false, error: '模板不存在' };
+  const { project, projectDir } = createProjectRecord(name.trim() || template.name);
+  if (projectDir) {
+    const nodes = applyTemplateParams(template.nodes, template.params, values || {});
+    writeProjectData(projectDir, remapGraphIds(nodes, template.edges));
+  }
+  console.log(`[模板] 已从模板「${template.name}」新建项目「${project.name}」`);
+  return { success: true, project };
+});
+
+ipcMain.handle('save-project-as-template', async (_, projectId: string, info: { name: string; description?: string; thumbnail?: string }) => {
+  try {
+    const projectFolderPath = await getProjectFolderPath(projectId);
+    if (!projectFolderPath) throw new Error('项目不存在');
+    const result = readProjectData(projectFolderPath, { quarantine: false });
+    if (result.status === 'corrupted') throw new Error(getProjectDataRecoveryMessage(result.reason));
+    if (result.status === 'missing' || result.data.nodes.length === 0) throw new Error('项目中没有节点');
+    const template = saveProjectTemplate({ ...info, nodes: result.data.nodes, edges: result.data.edges });
+    return { success: true, template: { id: template.id, name: template.name, paramCount: template.params.length } };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+});
+
+ipcMain.handle('delete-project-template', (_, templateId: string) => {
+  deleteProjectTemplate(templateId);
+  return { success: true };
+});
+
+// 项目版本快照
+ipcMain.handle('list-project-versions', async (_, projectId: string) => {
+  const projectFolderPath = await getProjectFolderPath(projectId);
+  return projectFolderPath ? listProjectVersions(projectFolderPath) : [];
+});
+
+ipcMain.handle('create-project-version', async (_, projectId: string, options: { note?: string; auto?: boolean }) => {
+  try {
+    const projectFolderPath = await getProjectFolderPath(projectId);
+    if (!projectFolderPath) throw new Error('项目不存在');
+    return { success: true, version: createProjectVersion(projectFolderPath, options || {}) };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+});
+
+ipcMain.handle('get-project-version', async (_, projectId: string, versionId: string) => {
+  const projectFolderPath = await getProjectFolderPath(projectId);
+  return projectFolderPath ? getProjectVersion(projectFolderPath, versionId) : null;
+});
+
+ipcMain.handle('delete-project-version', async (_, projectId: string, versionId: string) => {
+  const projectFolderPath = await getProjectFolderPath(projectId);
+  if (projectFolderPath) deleteProjectVersion(projectFolderPath, versionId);
+  return { success: true };
+});
+
+// 从快照分支出新项目：复制 assets，把节点中指向原项目目录的路径改为新项目目录，节点与连线换新 ID
+ipcMain.handle('branch-project-version', async (_, projectId: string, versionId: string, name: string) => {
+  try {
+    const sourceDir = await getProjectFolderPath(projectId);
+    const version = sourceDir ? getProjectVersion(sourceDir, versionId) : null;
+    if (!sourceDir || !version) throw new Error('快照不存在');
+    const { project, projectDir } = createProjectRecord(name.trim() || '分支项目');
+    if (!projectDir) throw new Error('项目目录不可用');
+    const sourceAssets = path.join(sourceDir, 'assets');
+    if (fs.existsSync(sourceAssets)) fs.cpSync(sourceAssets, path.join(projectDir, 'assets'), { recursive: true });
+    let json = JSON.stringify({ nodes: version.nodes, edges: version.edges });
+    // 带上末尾分隔符匹配，避免 project-1 误匹配 project-10 目录下的路径
+    const fromPaths = [...new Set([`${sourceDir}\\`, `${sourceDir}/`, `${sourceDir.replace(/\\/g, '/')}/`])];
+    const toPath = `${projectDir.replace(/\\/g, '/')}/`;
+    fromPaths.forEach((from) => {
+      json = json.split(JSON.stringify(from).slice(1, -1)).join(JSON.stringify(toPath).slice(1, -1));
+    });
+    const data = JSON.parse(json);
+    writeProjectData(projectDir, remapGraphIds(data.nodes, data.edges));
+    console.log(`[版本] 已从快照 ${versionId} 分支出项目「${project.name}」`);
+    return { success: true, project };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+});
+
+ipcMain.handle('get-version-auto-snapshot-minutes', () => getAutoSnapshotMinutes());
+
+ipcMain.handle('set-version-auto-snapshot-minutes', (_, minutes: number) => setAutoSnapshotMinutes(minutes));
+
+// 画布操作历史（撤销/重做跨会话保留）
+ipcMain.handle('load-project-history', async (_, projectId: string) => {
+  const projectFolderPath = await getProjectFolderPath(projectId);
+  return projectFolderPath ? loadProjectHistory(projectFolderPath) : null;
+});
+
+ipcMain.handle('save-project-history', async (_, projectId: string, history: { entries: any[]; index: number }) => {
+  try {
+    const projectFolderPath = await getProjectFolderPath(projectId);
+    if (!projectFolderPath) throw new Error('项目不存在');
+    saveProjectHistory(projectFolderPath, history);
+    return { success: true };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+});
+
+ipcMain.handle('clear-project-history', async (_, projectId: string) => {
+  const projectFolderPath = await getProjectFolderPath(projectId);
+  if (projectFolderPath) clearProjectHistory(projectFolderPath);
+  return { success: true };
+});
+
 // 选择自定义保存路径
 ipcMain.handle('select-save-path', async () => {
   try {
@@ -1877,6 +2222,33 @@ ipcMain.handle('show-open-video-dialog', async () => {
   return { success: true, filePath };
 });
 
+// 选择图片文件夹（循环节点逐项处理文件夹中的图片），按文件名排序返回图片路径
+ipcMain.handle('show-open-image-folder-dialog', async () => {
+  const mainWindow = BrowserWindow.getAllWindows()[0];
+  if (!mainWindow) return { success: false, filePaths: [], error: '窗口未就绪' };
+  const result = await dialog.showOpenDialog(mainWindow, {
+    title: '选择图片文件夹',
+    properties: ['openDirectory'],
+  });
+  if (result.canceled || !result.filePaths?.length) return { success: false, filePaths: [] };
+  const folderPath = result.filePaths[0];
+  if (!isLocalResourcePathAllowed(folderPath)) {
+    return { success: false, filePaths: [], error: '该文件夹不在允许访问的目录内' };
+  }
+  try {
+    const imageExts = ['.png', '.jpg', '.jpeg', '.webp', '.gif', '.bmp'];
+    const filePaths = fs.readdirSync(folderPath, { withFileTypes: true })
+      .filter((entry) => entry.isFile() && imageExts.includes(path.extname(entry.name).toLowerCase()))
+      .map((entry) => entry.name)
+      .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }))
+      .map((name) => path.join(folderPath, name).replace(/\\/g, '/'));
+    return { success: true, folderPath: folderPath.replace(/\\/g, '/'), filePaths };
+  } catch (error) {
+    console.error('[主进程] 读取图片文件夹失败:', error);
+    return { success: false, filePaths: [], error: error instanceof Error ? error.message : String(error) };
+  }
+});
+
 // 检查文件是否存在（用于播放器预检查）
 // 项目路径 IPC 处理器（统一使用 projects/[项目名]，无软链接）
 ipcMain.handle('ensure-project-mapping', async (_, projectId: string) => {
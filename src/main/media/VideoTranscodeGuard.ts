@@ -1,67 +1,275 @@
 /**
  * VideoTranscodeGuard
  *
- * 未来用于：
- * 1. 检测 AI 返回的视频编码格式
- * 2. 若不兼容浏览器，自动触发 ffmpeg 转码
- * 3. 确保最终交付给前端的视频为 H.264 + MP4
+ * 1. 使用 ffprobe 检测 AI 返回视频的编码与封装格式
+ * 2. 若不兼容浏览器（HEVC / VP9 / AV1、mkv 等），使用 ffmpeg 转码
+ * 3. 确保最终交付给前端的视频为 H.264 + AAC 的 MP4
  *
- * ⚠️ 当前仅作为架构占位，不实现任何逻辑
+ * ffmpeg 查找顺序：设置中的自定义路径（store.ffmpegPath）→ 安装包内置 resources/ffmpeg → 系统 PATH；
+ * ffprobe 取与 ffmpeg 同目录的可执行文件。找不到 ffmpeg 时不做任何处理，直接返回原视频
  */
+
+import { app } from 'electron';
+import { spawn } from 'child_process';
+import fs from 'fs';
+import path from 'path';
+import { store } from '../services/store.js';
+
+export interface VideoCodecInfo {
+  /** 视频流编码（如 h264、hevc、vp9），无法检测时为 unknown */
+  codec: string;
+  /** 音频流编码，无音轨时为 none */
+  audioCodec: string;
+  /** 封装格式（ffprobe format_name，如 mov,mp4,m4a,3gp,3g2,mj2） */
+  container: string;
+  /** 时长（秒），用于计算转码进度 */
+  duration: number;
+  compatible: boolean;
+}
+
+export interface TranscodeOptions {
+  /** 转码进度回调（0-100） */
+  onProgress?: (percent: number) => void;
+}
+
+/** 浏览器（Chromium 内置解码）可直接播放的组合 */
+const COMPATIBLE_VIDEO_CODECS = new Set(['h264']);
+const COMPATIBLE_AUDIO_CODECS = new Set(['aac', 'mp3', 'none']);
+const COMPATIBLE_CONTAINERS = ['mp4', 'mov'];
+
+const PROBE_TIMEOUT_MS = 30 * 1000;
+const TRANSCODE_TIMEOUT_MS = 30 * 60 * 1000;
+
+const exeName = (name: string) => (process.platform === 'win32' ? `${name}.exe` : name);
+
+/** 安装包内置 ffmpeg 目录（打包后从 extraResources 复制到 resources/ffmpeg） */
+function getBundledFfmpegDir(): string {
+  if (app.isPackaged && process.resourcesPath) {
+    return path.join(process.resourcesPath, 'ffmpeg');
+  }
+  return path.join(app.getAppPath(), 'resources', 'ffmpeg');
+}
+
+/** 运行命令并收集输出；超时或无法启动时 reject */
+export function runProcess(
+  command: string,
+  args: string[],
+  timeoutMs: number,
+  onStderr?: (chunk: string) => void
+): Promise<{ code: number | null; stdout: string; stderr: string }> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { windowsHide: true });
+    let stdout = '';
+    let stderr = '';
+    const timer = setTimeout(() => {
+      child.kill();
+      reject(new Error(`${path.basename(command)} 执行超时`));
+    }, timeoutMs);
+    child.stdout.on('data', (data: Buffer) => {
+      stdout += data.toString();
+    });
+    child.stderr.on('data', (data: Buffer) => {
+      const chunk = data.toString();
+      // 只保留末尾输出，避免长视频转码日志占用过多内存
+      stderr = (stderr + chunk).slice(-8000);
+      onStderr?.(chunk);
+    });
+    child.on('error', (error) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+    child.on('close', (code) => {
+      clearTimeout(timer);
+      resolve({ code, stdout, stderr });
+    });
+  });
+}
+
+/** 解析 ffmpeg 进度输出中的 time=hh:mm:ss.xx（秒），没有时返回 null */
+export function parseFfmpegTime(chunk: string): number | null {
+  const match = chunk.match(/time=(\d+):(\d+):(\d+(?:\.\d+)?)/);
+  return match ? Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]) : null;
+}
+
 export class VideoTranscodeGuard {
+  /** 已确认可用的 ffmpeg 路径缓存（设置变更时清除） */
+  private static resolvedFfmpeg: string | null | undefined;
+
   /**
-   * 确保视频可播放
-   * 
-   * @param videoPath 视频路径（本地文件路径或 URL）
+   * 查找可用的 ffmpeg 可执行文件，找不到时返回 null
+   */
+  static async resolveFfmpegPath(): Promise<string | null> {
+    if (this.resolvedFfmpeg !== undefined) return this.resolvedFfmpeg;
+
+    const customPath = ((store.get('ffmpegPath') as string) || '').trim();
+    const candidates = [
+      customPath && fs.existsSync(customPath) && fs.statSync(customPath).isDirectory()
+        ? path.join(customPath, exeName('ffmpeg'))
+        : customPath,
+      path.join(getBundledFfmpegDir(), exeName('ffmpeg')),
+      'ffmpeg',
+    ].filter(Boolean);
+
+    for (const candidate of candidates) {
+      if (candidate !== 'ffmpeg' && !fs.existsSync(candidate)) continue;
+      try {
+        const { code } = await runProcess(candidate, ['-version'], PROBE_TIMEOUT_MS);
+        if (code === 0) {
+          this.resolvedFfmpeg = candidate;
+          return candidate;
+        }
+      } catch {
+        /* 尝试下一个候选 */
+      }
+    }
+    console.warn('[转码] 未找到可用的 ffmpeg，跳过视频编码检测与转码');
+    this.resolvedFfmpeg = null;
+    return null;
+  }
+
+  /** 设置中修改 ffmpeg 路径后调用，下次使用时重新查找 */
+  static resetFfmpegPath(): void {
+    this.resolvedFfmpeg = undefined;
+  }
+
+  /** ffprobe 与 ffmpeg 同目录；ffmpeg 来自 PATH 时同样从 PATH 查找 ffprobe */
+  static getFfprobePath(ffmpegPath: string): string {
+    if (ffmpegPath === 'ffmpeg') return 'ffprobe';
+    return path.join(path.dirname(ffmpegPath), exeName('ffprobe'));
+  }
+
+  /**
+   * 确保视频可播放：不兼容时在同目录转码为 <原文件名>.h264.mp4 并返回新路径；
+   * 无法检测或转码失败时返回原路径（由播放器的远程 URL 回退兜底）
+   *
+   * @param videoPath 本地视频文件路径
    * @returns 可播放的视频路径
-   * 
+   *
    * @example
    * ```typescript
-   * const playablePath = await VideoTranscodeGuard.ensurePlayable('/path/to/video.mp4');
+   * const playablePath = await VideoTranscodeGuard.ensurePlayable('/path/to/video.mp4', { onProgress: (p) => console.log(p) });
    * ```
    */
-  static async ensurePlayable(videoPath: string): Promise<string> {
-    // TODO: 未来实现
-    // 1. 检测视频编码格式（使用 ffprobe）
-    // 2. 如果编码不是 H.264，使用 ffmpeg 转码
-    // 3. 返回转码后的视频路径
-    
-    return videoPath;
+  static async ensurePlayable(videoPath: string, options: TranscodeOptions = {}): Promise<string> {
+    if (!fs.existsSync(videoPath)) return videoPath;
+
+    const info = await this.detectCodec(videoPath);
+    if (info.compatible) return videoPath;
+
+    const parsed = path.parse(videoPath);
+    const outputPath = path.join(parsed.dir, `${parsed.name}.h264.mp4`);
+    if (fs.existsSync(outputPath)) {
+      console.log(`[转码] 已存在转码结果，直接使用: ${outputPath}`);
+      return outputPath;
+    }
+
+    console.log(`[转码] 视频不兼容（${info.codec}/${info.audioCodec}，${info.container}），开始转码: ${videoPath}`);
+    const success = await this.transcodeToH264(videoPath, outputPath, { ...options, duration: info.duration });
+    if (!success) return videoPath;
+
+    // 转码成功后删除原文件，避免素材库中出现无法播放的重复视频
+    try {
+      fs.unlinkSync(videoPath);
+    } catch (error) {
+      console.warn('[转码] 删除原视频失败:', error);
+    }
+    return outputPath;
   }
 
   /**
-   * 检测视频编码格式
-   * 
+   * 检测视频编码格式；没有 ffmpeg 或检测失败时视为兼容（不触发转码）
+   *
    * @param videoPath 视频路径
    * @returns 视频编码信息
    */
-  static async detectCodec(_videoPath: string): Promise<{
-    codec: string;
-    compatible: boolean;
-  }> {
-    // TODO: 未来实现
-    // 使用 ffprobe 检测视频编码
-    
-    return {
-      codec: 'unknown',
-      compatible: true,
-    };
+  static async detectCodec(videoPath: string): Promise<VideoCodecInfo> {
+    const unknown: VideoCodecInfo = { codec: 'unknown', audioCodec: 'unknown', container: 'unknown', duration: 0, compatible: true };
+    const ffmpegPath = await this.resolveFfmpegPath();
+    if (!ffmpegPath) return unknown;
+
+    try {
+      const { code, stdout, stderr } = await runProcess(
+        this.getFfprobePath(ffmpegPath),
+        ['-v', 'error', '-print_format', 'json', '-show_streams', '-show_format', videoPath],
+        PROBE_TIMEOUT_MS
+      );
+      if (code !== 0) {
+        console.warn(`[转码] ffprobe 检测失败: ${stderr.trim()}`);
+        return unknown;
+      }
+      const probe = JSON.parse(stdout);
+      const streams: Array<{ codec_type?: string; codec_name?: string }> = probe.streams || [];
+      const codec = streams.find((s) => s.codec_type === 'video')?.codec_name || 'none';
+      const audioCodec = streams.find((s) => s.codec_type === 'audio')?.codec_name || 'none';
+      const container = String(probe.format?.format_name || 'unknown');
+      const duration = Number(probe.format?.duration) || 0;
+      const compatible =
+        (codec === 'none' || COMPATIBLE_VIDEO_CODECS.has(codec)) &&
+        COMPATIBLE_AUDIO_CODECS.has(audioCodec) &&
+        COMPATIBLE_CONTAINERS.some((name) => container.split(',').includes(name));
+      return { codec, audioCodec, container, duration, compatible };
+    } catch (error) {
+      console.warn('[转码] ffprobe 检测失败:', error);
+      return unknown;
+    }
   }
 
   /**
-   * 转码视频为浏览器兼容格式
-   * 
+   * 转码视频为浏览器兼容格式（H.264 + AAC，MP4 faststart）
+   *
    * @param inputPath 输入视频路径
    * @param outputPath 输出视频路径
    * @returns 转码是否成功
    */
   static async transcodeToH264(
-    _inputPath: string,
-    _outputPath: string
+    inputPath: string,
+    outputPath: string,
+    options: TranscodeOptions & { duration?: number } = {}
   ): Promise<boolean> {
-    // TODO: 未来实现
-    // 使用 ffmpeg 转码为 H.264 + MP4
-    
-    return false;
+    const ffmpegPath = await this.resolveFfmpegPath();
+    if (!ffmpegPath) return false;
+
+    // 先写临时文件，成功后再改名，避免中断时留下半个视频被当作转码结果
+    const tempPath = `${outputPath}.part.mp4`;
+    const duration = options.duration || 0;
+    let lastPercent = -1;
+
+    try {
+      const { code, stderr } = await runProcess(
+        ffmpegPath,
+        [
+          '-y', '-i', inputPath,
+          '-map', '0:v:0', '-map', '0:a:0?',
+          '-c:v', 'libx264', '-preset', 'veryfast', '-crf', '20', '-pix_fmt', 'yuv420p',
+          '-c:a', 'aac', '-b:a', '160k',
+          '-movflags', '+faststart',
+          tempPath,
+        ],
+        TRANSCODE_TIMEOUT_MS,
+        (chunk) => {
+          if (!duration || !options.onProgress) return;
+          const seconds = parseFfmpegTime(chunk);
+          if (seconds === null) return;
+          const percent = Math.min(99, Math.floor((seconds / duration) * 100));
+          if (percent > lastPercent) {
+            lastPercent = percent;
+            options.onProgress(percent);
+          }
+        }
+      );
+      if (code !== 0) {
+        console.error(`[转码] ffmpeg 转码失败 (code=${code}): ${stderr.trim().split('\n').slice(-5).join('\n')}`);
+        if (fs.existsSync(tempPath)) fs.unlinkSync(tempPath);
+        return false;
+      }
+      fs.renameSync(tempPath, outputPath);
+      options.onProgress?.(100);
+      console.log(`[转码] 转码完成: ${outputPath}`);
+      return true;
+    } catch (error) {
+      console.error('[转码] ffmpeg 转码失败:', error);
+      if (fs.existsSync(tempPath)) fs.unlinkSync(tempPath);
+      return false;
+    }
   }
 }
@@ -0,0 +1,89 @@
+/**
+ * 视频抽帧：从视频中截取首帧、末帧、指定时间点或均匀分布的 N 帧，保存为 PNG
+ * 用于镜头衔接（上一段末帧作为下一段首帧）与关键帧采样
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { runProcess, VideoTranscodeGuard } from '../media/VideoTranscodeGuard.js';
+import { probeMedia, toFfmpegInput } from './sequenceRender.js';
+
+export type FrameExtractMode = 'first' | 'last' | 'time' | 'even';
+
+export interface FrameExtractOptions {
+  mode: FrameExtractMode;
+  /** mode 为 time 时的时间点（秒） */
+  time?: number;
+  /** mode 为 even 时的帧数 */
+  count?: number;
+}
+
+export interface ExtractedFrame {
+  /** 帧所在时间点（秒） */
+  time: number;
+  localPath: string;
+}
+
+const FRAME_TIMEOUT_MS = 60 * 1000;
+/** 均匀抽帧的最大帧数（与图片节点参考图上限一致） */
+export const MAX_EVEN_FRAMES = 10;
+/** 末帧从结尾往前回退的时长（秒），避免部分视频最后时间戳没有画面 */
+const LAST_FRAME_SEEK_SECONDS = 1;
+
+const num = (value: number) => Number(value.toFixed(3));
+
+/** 截取单帧；seekFromEnd 为 true 时读取最后一秒并保留最后一帧 */
+async function extractFrame(ffmpegPath: string, input: string, outputPath: string, seconds: number, seekFromEnd = false): Promise<void> {
+  const args = seekFromEnd
+    ? ['-y', '-sseof', String(-LAST_FRAME_SEEK_SECONDS), '-i', input, '-update', '1', outputPath]
+    : ['-y', '-ss', String(num(seconds)), '-i', input, '-frames:v', '1', outputPath];
+  const { code, stderr } = await runProcess(ffmpegPath, args, FRAME_TIMEOUT_MS);
+  if (code !== 0 || !fs.existsSync(outputPath)) {
+    throw new Error(`ffmpeg 抽帧失败: ${stderr.trim().split('\n').slice(-3).join(' ')}`);
+  }
+}
+
+/**
+ * 从视频中抽帧，输出到 outputDir/<filePrefix>-<序号>.png
+ * @returns 按时间顺序排列的帧
+ */
+export async function extractVideoFrames(
+  videoUrl: string,
+  options: FrameExtractOptions,
+  outputDir: string,
+  filePrefix: string
+): Promise<ExtractedFrame[]> {
+  const ffmpegPath = await VideoTranscodeGuard.resolveFfmpegPath();
+  if (!ffmpegPath) throw new Error('未找到可用的 ffmpeg，请在设置中配置 ffmpeg 路径');
+  const input = toFfmpegInput(videoUrl);
+  fs.mkdirSync(outputDir, { recursive: true });
+  const outputPathAt = (index: number) => path.join(outputDir, `${filePrefix}-${index + 1}.png`);
+
+  const frames: ExtractedFrame[] = [];
+  if (options.mode === 'first') {
+    await extractFrame(ffmpegPath, input, outputPathAt(0), 0);
+    frames.push({ time: 0, localPath: outputPathAt(0) });
+  } else {
+    const { duration } = await probeMedia(VideoTranscodeGuard.getFfprobePath(ffmpegPath), input);
+    if (options.mode === 'last') {
+      await extractFrame(ffmpegPath, input, outputPathAt(0), duration, true);
+      frames.push({ time: num(duration), localPath: outputPathAt(0) });
+    } else {
+      if (!(duration > 0)) throw new Error('无法读取视频时长');
+      // 时间点限制在视频范围内，超出结尾时取最后一帧附近
+      const clamp = (seconds: number) => Math.min(Math.max(0, seconds), Math.max(0, duration - 0.05));
+      const count = Math.min(MAX_EVEN_FRAMES, Math.max(1, Math.floor(options.count || 1)));
+      // 均匀抽帧：取每一等分区间的中点，避开片头片尾的黑场/淡入淡出
+      const times =
+        options.mode === 'time'
+          ? [clamp(options.time ?? 0)]
+          : Array.from({ length: count }, (_, i) => clamp(((i + 0.5) * duration) / count));
+      for (const [index, time] of times.entries()) {
+        await extractFrame(ffmpegPath, input, outputPathAt(index), time);
+        frames.push({ time: num(time), localPath: outputPathAt(index) });
+      }
+    }
+  }
+  console.log(`[抽帧] 已从 ${videoUrl} 抽取 ${frames.length} 帧（${options.mode}）`);
+  return frames;
+}
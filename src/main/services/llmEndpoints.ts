@@ -0,0 +1,102 @@
+/**
+ * LLM 端点配置服务
+ * 内置端点为 BLTCY 核心算力；用户可在设置中添加任意 OpenAI 兼容端点（自建 vLLM、Ollama、企业网关等），
+ * LLM 节点通过 endpointId 选择端点，ChatProvider 据此决定请求地址与 API Key
+ */
+
+import axios from 'axios';
+import { store } from './store.js';
+
+export interface LLMEndpoint {
+  id: string;
+  name: string; // 显示名称
+  baseUrl: string; // OpenAI 兼容根地址，如 http://localhost:11434/v1
+  apiKey: string; // 可为空（本地 Ollama 等无需鉴权）
+  models: string[]; // 可选模型（通过 /models 获取或手动填写）
+}
+
+/** 内置端点 ID（BLTCY 核心算力，使用设置中的核心算力密钥） */
+export const DEFAULT_LLM_ENDPOINT_ID = 'bltcy';
+
+const DEFAULT_BASE_URL = 'https://api.bltcy.ai/v1';
+
+/**
+ * 解析后的请求目标
+ */
+export interface ResolvedLLMEndpoint {
+  id: string;
+  name: string;
+  baseUrl: string;
+  apiKey: string;
+  isDefault: boolean;
+}
+
+function normalizeBaseUrl(baseUrl: string): string {
+  return baseUrl.trim().replace(/\/+$/, '');
+}
+
+/**
+ * 读取用户自定义端点（不含内置端点）
+ */
+export function getLLMEndpoints(): LLMEndpoint[] {
+  const endpoints = store.get('llmEndpoints') as LLMEndpoint[] | undefined;
+  return Array.isArray(endpoints) ? endpoints : [];
+}
+
+/**
+ * 保存用户自定义端点（整体覆盖；忽略名称或地址为空的项）
+ */
+export function saveLLMEndpoints(endpoints: LLMEndpoint[]): LLMEndpoint[] {
+  const normalized = endpoints
+    .filter((e) => e.id && e.id !== DEFAULT_LLM_ENDPOINT_ID && e.name?.trim() && e.baseUrl?.trim())
+    .map((e) => ({
+      id: e.id,
+      name: e.name.trim(),
+      baseUrl: normalizeBaseUrl(e.baseUrl),
+      apiKey: (e.apiKey || '').trim(),
+      models: Array.from(new Set((e.models || []).map((m) => m.trim()).filter(Boolean))),
+    }));
+  store.set('llmEndpoints', normalized);
+  console.log(`[LLM端点] 已保存 ${normalized.length} 个自定义端点`);
+  return normalized;
+}
+
+/**
+ * 按 endpointId 解析请求目标；未指定时使用内置端点
+ *
+ * @returns 端点不存在（已被删除）时返回 null
+ */
+export function resolveLLMEndpoint(endpointId?: string): ResolvedLLMEndpoint | null {
+  if (!endpointId || endpointId === DEFAULT_LLM_ENDPOINT_ID) {
+    return {
+      id: DEFAULT_LLM_ENDPOINT_ID,
+      name: 'NEXFLOW 核心算力',
+      baseUrl: DEFAULT_BASE_URL,
+      apiKey: (store.get('bltcyApiKey') as string) || '',
+      isDefault: true,
+    };
+  }
+  const endpoint = getLLMEndpoints().find((e) => e.id === endpointId);
+  if (!endpoint) return null;
+  return { ...endpoint, isDefault: false };
+}
+
+/**
+ * 通过 GET {baseUrl}/models 获取端点可用模型
+ */
+export async function discoverLLMEndpointModels(baseUrl: string, apiKey?: string): Promise<string[]> {
+  const url = `${normalizeBaseUrl(baseUrl)}/models`;
+  const response = await axios.get(url, {
+    headers: apiKey?.trim() ? { Authorization: `Bearer ${apiKey.trim()}` } : {},
+    proxy: false,
+    timeout: 15000,
+  });
+  const data = response.data;
+  // OpenAI 格式 { data: [{ id }] }；部分网关直接返回数组或 { models: [{ name }] }
+  const list: any[] = Array.isArray(data) ? data : data?.data || data?.models || [];
+  const models = list
+    .map((item) => (typeof item === 'string' ? item : item?.id || item?.name))
+    .filter((id): id is string => typeof id === 'string' && id.length > 0);
+  console.log(`[LLM端点] ${url} 返回 ${models.length} 个模型`);
+  return Array.from(new Set(models)).sort();
+}
@@ -0,0 +1,49 @@
+/**
+ * 模块库服务
+ * 用户把画布上的分组保存为可复用模块（节点 + 组内连线），在任意项目中通过添加节点菜单插入
+ */
+
+import { store } from './store.js';
+
+export interface LibraryModule {
+  id: string;
+  name: string;
+  /** 组内节点（已去除运行状态与产物） */
+  nodes: any[];
+  /** 组内连线（两端都在组内） */
+  edges: any[];
+  createdAt: number;
+}
+
+/**
+ * 读取模块库（按创建时间倒序）
+ */
+export function getModuleLibrary(): LibraryModule[] {
+  const modules = store.get('moduleLibrary') as LibraryModule[] | undefined;
+  return Array.isArray(modules) ? [...modules].sort((a, b) => b.createdAt - a.createdAt) : [];
+}
+
+/**
+ * 保存模块；同 ID 覆盖，名称为空或没有节点时拒绝
+ */
+export function saveLibraryModule(module: LibraryModule): LibraryModule {
+  const name = module.name?.trim();
+  if (!module.id || !name) throw new Error('模块名称不能为空');
+  if (!Array.isArray(module.nodes) || module.nodes.length === 0) throw new Error('模块中没有节点');
+
+  const normalized: LibraryModule = {
+    id: module.id,
+    name,
+    nodes: module.nodes,
+    edges: Array.isArray(module.edges) ? module.edges : [],
+    createdAt: module.createdAt || Date.now(),
+  };
+  const modules = getModuleLibrary().filter((m) => m.id !== normalized.id);
+  store.set('moduleLibrary', [normalized, ...modules]);
+  console.log(`[模块库] 已保存模块「${name}」（${normalized.nodes.length} 个节点）`);
+  return normalized;
+}
+
+export function deleteLibraryModule(moduleId: string): void {
+  store.set('moduleLibrary', getModuleLibrary().filter((m) => m.id !== moduleId));
+}
@@ -0,0 +1,99 @@
+/**
+ * 未完成远程任务持久化服务
+ * 异步生成任务（提交后返回 taskId 再轮询）在拿到 taskId 时写入 JSON 文件，
+ * 任务结束后移除；应用在任务运行中被关闭时，下次启动据此恢复轮询，避免算力白白消耗
+ */
+
+import { app } from 'electron';
+import fs from 'fs';
+import path from 'path';
+
+export interface PendingJob {
+  modelId: string; // Provider 标识（如 'video'、'audio'）
+  nodeId: string; // 画布节点 ID
+  projectId?: string; // 所属项目 ID（恢复后结果回填到该项目）
+  taskId: string; // 远程任务 ID（BLTCY / RunningHub）
+  input: any; // 提交时的输入参数（恢复轮询时用于确定模型与元数据）
+  submittedAt: number; // 提交时间戳
+}
+
+interface PendingJobsData {
+  jobs: PendingJob[];
+}
+
+const PENDING_JOBS_FILE = path.join(app.getPath('userData'), 'pending_ai_jobs.json');
+const MAX_JOB_AGE = 24 * 60 * 60 * 1000; // 超过 24 小时的任务视为失效（远程结果通常已过期）
+
+/**
+ * 读取未完成任务
+ */
+function readJobs(): PendingJobsData {
+  try {
+    if (fs.existsSync(PENDING_JOBS_FILE)) {
+      const content = fs.readFileSync(PENDING_JOBS_FILE, 'utf-8');
+      const data = JSON.parse(content);
+      if (Array.isArray(data?.jobs)) return data;
+    }
+  } catch (error) {
+    console.error('[PendingJobs] 读取未完成任务失败:', error);
+  }
+  return { jobs: [] };
+}
+
+/**
+ * 写入未完成任务
+ */
+function writeJobs(data: PendingJobsData): void {
+  try {
+    fs.writeFileSync(PENDING_JOBS_FILE, JSON.stringify(data, null, 2), 'utf-8');
+  } catch (error) {
+    console.error('[PendingJobs] 写入未完成任务失败:', error);
+  }
+}
+
+/**
+ * 是否为同一项目的同一节点（节点 ID 在不同项目间可能重复）
+ */
+function isSameNode(job: PendingJob, projectId: string | undefined, nodeId: string): boolean {
+  return job.nodeId === nodeId && (job.projectId || '') === (projectId || '');
+}
+
+/**
+ * 记录未完成任务（同一项目的同一节点只保留最新一条）
+ */
+export function savePendingJob(job: PendingJob): void {
+  const data = readJobs();
+  data.jobs = data.jobs.filter((j) => !isSameNode(j, job.projectId, job.nodeId));
+  data.jobs.push(job);
+  writeJobs(data);
+  console.log(`[PendingJobs] 记录远程任务: modelId=${job.modelId}, projectId=${job.projectId || '-'}, nodeId=${job.nodeId}, taskId=${job.taskId}`);
+}
+
+/**
+ * 移除已结束的任务
+ *
+ * @param projectId 所属项目 ID
+ * @param nodeId 节点 ID
+ * @param taskId 远程任务 ID；传入时仅当 taskId 一致才移除，避免误删同一节点后续提交的任务
+ */
+export function removePendingJob(projectId: string | undefined, nodeId: string, taskId?: string): void {
+  const data = readJobs();
+  const remaining = data.jobs.filter((j) => !(isSameNode(j, projectId, nodeId) && (!taskId || j.taskId === taskId)));
+  if (remaining.length === data.jobs.length) return;
+  writeJobs({ jobs: remaining });
+  console.log(`[PendingJobs] 移除远程任务: projectId=${projectId || '-'}, nodeId=${nodeId}, taskId=${taskId || 'any'}`);
+}
+
+/**
+ * 获取所有未完成任务（自动清理过期任务）
+ */
+export function listPendingJobs(): PendingJob[] {
+  const data = readJobs();
+  const now = Date.now();
+  const valid = data.jobs.filter((j) => j.taskId && j.nodeId && now - (j.submittedAt || 0) < MAX_JOB_AGE);
+  if (valid.length !== data.jobs.length) {
+    console.log(`[PendingJobs] 清理过期任务 ${data.jobs.length - valid.length} 条`);
+    writeJobs({ jobs: valid });
+  }
+  return valid;
+}
@@ -0,0 +1,95 @@
+/**
+ * 项目素材浏览：列出项目 assets 目录中的图片/视频/音频/文本，并合并 metadata.json 中的提示词、模型、节点等信息
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+export type ProjectAssetType = 'image' | 'video' | 'audio' | 'text';
+
+export interface ProjectAsset {
+  /** 相对 assets 目录的路径（正斜杠） */
+  relativePath: string;
+  name: string;
+  /** 可直接用于 img/video/audio 的 local-resource URL */
+  url: string;
+  type: ProjectAssetType;
+  size: number;
+  createdAt: number;
+  prompt?: string;
+  model?: string;
+  nodeId?: string;
+  nodeTitle?: string;
+  /** 文本素材的开头内容（用于预览与搜索） */
+  textPreview?: string;
+}
+
+const ASSET_TYPES: Record<string, ProjectAssetType> = {
+  '.png': 'image', '.jpg': 'image', '.jpeg': 'image', '.webp': 'image', '.gif': 'image', '.bmp': 'image',
+  '.mp4': 'video', '.webm': 'video', '.mov': 'video', '.mkv': 'video', '.m4v': 'video',
+  '.mp3': 'audio', '.wav': 'audio', '.ogg': 'audio', '.aac': 'audio', '.m4a': 'audio', '.flac': 'audio',
+  '.txt': 'text', '.md': 'text',
+};
+
+const TEXT_PREVIEW_LENGTH = 300;
+
+function readMetadata(projectFolderPath: string): Record<string, any> {
+  const metadataPath = path.join(projectFolderPath, 'metadata.json');
+  if (!fs.existsSync(metadataPath)) return {};
+  try {
+    return JSON.parse(fs.readFileSync(metadataPath, 'utf-8')) || {};
+  } catch (error) {
+    console.warn('[素材] 读取 metadata.json 失败:', error);
+    return {};
+  }
+}
+
+function walkFiles(dir: string, out: string[] = []): string[] {
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) walkFiles(fullPath, out);
+    else if (entry.isFile()) out.push(fullPath);
+  }
+  return out;
+}
+
+/**
+ * 素材列表（按创建时间倒序）；metadata.json 的 key 为相对项目目录的路径（assets/xxx）
+ */
+export function listProjectAssets(projectFolderPath: string): ProjectAsset[] {
+  const assetsDir = path.join(projectFolderPath, 'assets');
+  if (!fs.existsSync(assetsDir)) return [];
+  const metadata = readMetadata(projectFolderPath);
+
+  return walkFiles(assetsDir)
+    .map((filePath): ProjectAsset | null => {
+      const type = ASSET_TYPES[path.extname(filePath).toLowerCase()];
+      if (!type) return null;
+      const stats = fs.statSync(filePath);
+      const relativePath = path.relative(assetsDir, filePath).replace(/\\/g, '/');
+      const meta = metadata[`assets/${relativePath}`] || {};
+      let textPreview: string | undefined;
+      if (type === 'text') {
+        try {
+          textPreview = fs.readFileSync(filePath, 'utf-8').slice(0, TEXT_PREVIEW_LENGTH);
+        } catch {
+          textPreview = undefined;
+        }
+      }
+      return {
+        relativePath,
+        name: path.basename(filePath),
+        url: `local-resource://${filePath.replace(/\\/g, '/')}`,
+        type,
+        size: stats.size,
+        createdAt: meta.createdAt || stats.mtimeMs,
+        prompt: meta.prompt || undefined,
+        model: meta.model || undefined,
+        nodeId: meta.nodeId || undefined,
+        nodeTitle: meta.nodeTitle || undefined,
+        textPreview: textPreview ?? (meta.text ? String(meta.text).slice(0, TEXT_PREVIEW_LENGTH) : undefined),
+      };
+    })
+    .filter((asset): asset is ProjectAsset => !!asset)
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
@@ -0,0 +1,183 @@
+/**
+ * 自包含项目导出/导入
+ * 导出时收集节点中引用的全部媒体（项目 assets、全局头像、拖入的外部文件，可选下载远程 URL），
+ * 打包进 .nexflow 并把节点路径改为包内相对引用 nexflow-package://<包内路径>；导入时再映射到新项目目录
+ */
+
+import axios from 'axios';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { RUNTIME_DATA_KEYS } from './projectTemplates.js';
+
+export interface ProjectExportOptions {
+  /** 打包节点引用的全部媒体并改写为包内引用 */
+  selfContained?: boolean;
+  /** 不导出生成结果（outputImage / outputVideo 等） */
+  stripOutputs?: boolean;
+  /** 下载并打包远程媒体 URL */
+  includeRemote?: boolean;
+}
+
+export interface BundledFile {
+  zipPath: string;
+  content: Buffer;
+}
+
+export const PACKAGE_REFERENCE_PREFIX = 'nexflow-package://';
+
+const MEDIA_EXTENSIONS = new Set([
+  '.txt', '.png', '.jpg', '.jpeg', '.webp', '.gif', '.bmp',
+  '.mp4', '.webm', '.mov', '.mkv', '.mp3', '.wav', '.ogg', '.aac', '.m4a', '.flac',
+]);
+
+const REMOTE_DOWNLOAD_TIMEOUT_MS = 60 * 1000;
+
+/** 递归处理节点 data 中的全部字符串（支持异步替换） */
+async function mapStringsAsync(value: any, fn: (text: string) => Promise<string>): Promise<any> {
+  if (typeof value === 'string') return fn(value);
+  if (Array.isArray(value)) return Promise.all(value.map((item) => mapStringsAsync(item, fn)));
+  if (value && typeof value === 'object') {
+    const entries = await Promise.all(Object.entries(value).map(async ([k, v]) => [k, await mapStringsAsync(v, fn)] as const));
+    return Object.fromEntries(entries);
+  }
+  return value;
+}
+
+function mapStrings(value: any, fn: (text: string) => string): any {
+  if (typeof value === 'string') return fn(value);
+  if (Array.isArray(value)) return value.map((item) => mapStrings(item, fn));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, mapStrings(v, fn)]));
+  }
+  return value;
+}
+
+function parseUrlPath(url: string): string | null {
+  try {
+    return decodeURIComponent(new URL(url).pathname);
+  } catch {
+    return null;
+  }
+}
+
+const hasMediaExtension = (p: string) => MEDIA_EXTENSIONS.has(path.extname(p.split(/[?#]/)[0]).toLowerCase());
+
+/**
+ * 把节点中的本地媒体引用解析为文件路径；不是本地媒体引用时返回 null
+ */
+export function resolveLocalMediaPath(value: string): string | null {
+  let filePath: string;
+  if (value.startsWith('local-resource://') || value.startsWith('file://')) {
+    filePath = value.replace(/^(local-resource|file):\/\/+/, '');
+    try {
+      filePath = decodeURIComponent(filePath);
+    } catch {
+      /* 保持原样 */
+    }
+    if (!/^[a-zA-Z]:/.test(filePath)) filePath = `/${filePath}`;
+  } else if (/^([a-zA-Z]:[\\/]|\/)/.test(value) && hasMediaExtension(value)) {
+    filePath = value;
+  } else {
+    return null;
+  }
+  return path.normalize(filePath.split(/[?#]/)[0]);
+}
+
+/** 文件位于某个项目 assets 目录内时保留相对路径，否则放入 assets/bundled/ 并加短哈希防重名 */
+function getBundlePath(filePath: string, assetsDirs: string[], key: string): string {
+  for (const dir of assetsDirs) {
+    const relative = path.relative(dir, filePath);
+    if (relative && !relative.startsWith('..') && !path.isAbsolute(relative)) {
+      return `assets/${relative.replace(/\\/g, '/')}`;
+    }
+  }
+  const hash = crypto.createHash('sha1').update(key).digest('hex').slice(0, 8);
+  const baseName = path.basename(filePath).replace(/[<>:"/\\|?*]/g, '_') || 'file';
+  return `assets/bundled/${hash}-${baseName}`;
+}
+
+export function stripGeneratedOutputs(nodes: any[]): any[] {
+  return nodes.map((node) => {
+    if (!node?.data) return node;
+    const data = { ...node.data };
+    RUNTIME_DATA_KEYS.forEach((key) => delete data[key]);
+    return { ...node, data };
+  });
+}
+
+/**
+ * 收集并打包节点引用的媒体，返回改写后的节点、要写入包的文件以及无法打包的引用
+ * @param projectFolderPaths 项目目录（原始路径与映射路径），用于保持 assets 内文件的相对结构
+ */
+export async function bundleProjectMedia(
+  nodes: any[],
+  projectFolderPaths: string[],
+  options: ProjectExportOptions
+): Promise<{ nodes: any[]; files: BundledFile[]; missing: string[] }> {
+  const assetsDirs = projectFolderPaths.map((dir) => path.join(dir, 'assets'));
+  const files = new Map<string, BundledFile>();
+  // 同一引用只解析/下载一次（节点并行处理，缓存 Promise）
+  const resolved = new Map<string, Promise<string | null>>();
+  const missing = new Set<string>();
+
+  const bundleReference = async (value: string): Promise<string | null> => {
+    const localPath = resolveLocalMediaPath(value);
+    if (localPath) {
+      if (!fs.existsSync(localPath) || !fs.statSync(localPath).isFile()) return null;
+      const zipPath = getBundlePath(localPath, assetsDirs, localPath);
+      if (!files.has(zipPath)) files.set(zipPath, { zipPath, content: fs.readFileSync(localPath) });
+      return zipPath;
+    }
+    const remotePath = options.includeRemote && /^https?:\/\//i.test(value) ? parseUrlPath(value) : null;
+    if (remotePath && hasMediaExtension(remotePath)) {
+      try {
+        const response = await axios.get<ArrayBuffer>(value, { responseType: 'arraybuffer', timeout: REMOTE_DOWNLOAD_TIMEOUT_MS });
+        const zipPath = getBundlePath(remotePath, [], value);
+        files.set(zipPath, { zipPath, content: Buffer.from(response.data) });
+        return zipPath;
+      } catch (error) {
+        console.warn(`[导出] 下载远程媒体失败: ${value}`, error);
+        return null;
+      }
+    }
+    return value;
+  };
+
+  const sourceNodes = options.stripOutputs ? stripGeneratedOutputs(nodes) : nodes;
+  const bundledNodes = await Promise.all(
+    sourceNodes.map(async (node) => {
+      if (!node?.data) return node;
+      const data = await mapStringsAsync(node.data, async (text) => {
+        if (!resolved.has(text)) resolved.set(text, bundleReference(text));
+        const zipPath = await resolved.get(text);
+        if (zipPath === null) {
+          missing.add(text);
+          return text;
+        }
+        return zipPath === text ? text : `${PACKAGE_REFERENCE_PREFIX}${zipPath}`;
+      });
+      return { ...node, data };
+    })
+  );
+
+  return { nodes: bundledNodes, files: [...files.values()], missing: [...missing] };
+}
+
+/**
+ * 导入自包含项目：把包内引用映射为新项目目录下的 local-resource 路径
+ */
+export function restorePackageReferences(nodes: any[], projectFolderPath: string): any[] {
+  let base = projectFolderPath.replace(/\\/g, '/');
+  if (/^\/[a-zA-Z]:/.test(base)) base = base.substring(1);
+  return nodes.map((node) =>
+    node?.data
+      ? {
+          ...node,
+          data: mapStrings(node.data, (text) =>
+            text.startsWith(PACKAGE_REFERENCE_PREFIX) ? `local-resource://${base}/${text.slice(PACKAGE_REFERENCE_PREFIX.length)}` : text
+          ),
+        }
+      : node
+  );
+}
@@ -0,0 +1,239 @@
+/**
+ * 项目数据（data.json）安全读写
+ * 写入：先写临时文件并落盘，记录日志后原子重命名；覆盖前按间隔把上一份完好的数据轮换备份到 backups/
+ * 读取：按日志中的校验和验证；上次写入中断时用完整的临时文件补完；损坏时把原文件移入 backups/ 并返回可恢复的备份
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+export interface ProjectData {
+  nodes: any[];
+  edges: any[];
+}
+
+export interface ProjectBackupMeta {
+  id: string;
+  savedAt: number;
+  nodeCount: number;
+  edgeCount: number;
+  /** 加载失败时移入备份目录的原文件（仍可解析，但校验和不匹配） */
+  corrupted: boolean;
+}
+
+export type ProjectDataLoadResult =
+  | { status: 'ok'; data: ProjectData; recovered: boolean }
+  | { status: 'missing' }
+  | { status: 'corrupted'; reason: string; backups: ProjectBackupMeta[] };
+
+interface SaveJournal {
+  /** pending：临时文件已写完、尚未替换 data.json；committed：替换完成 */
+  state: 'pending' | 'committed';
+  checksum: string;
+  size: number;
+  savedAt: number;
+}
+
+const DATA_FILE = 'data.json';
+const TEMP_FILE = 'data.json.tmp';
+const JOURNAL_FILE = 'data.journal.json';
+const BACKUPS_DIR = 'backups';
+const MAX_BACKUPS = 10;
+/** 画布保存很频繁（防抖 300ms），备份按时间间隔轮换 */
+const BACKUP_INTERVAL_MS = 5 * 60 * 1000;
+
+const sha256 = (content: string) => crypto.createHash('sha256').update(content, 'utf-8').digest('hex');
+
+/** 写入并 fsync，确保重命名前内容已落盘 */
+function writeFileDurable(filePath: string, content: string): void {
+  const fd = fs.openSync(filePath, 'w');
+  try {
+    fs.writeSync(fd, content, null, 'utf-8');
+    fs.fsyncSync(fd);
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+/** Windows 上目标文件被占用时 rename 可能失败，退化为复制后删除临时文件 */
+function replaceFile(source: string, target: string): void {
+  try {
+    fs.renameSync(source, target);
+  } catch (error) {
+    console.warn('[项目数据] 原子替换失败，改为复制:', error);
+    fs.copyFileSync(source, target);
+    fs.rmSync(source, { force: true });
+  }
+}
+
+function readJournal(projectFolderPath: string): SaveJournal | null {
+  try {
+    const journal = JSON.parse(fs.readFileSync(path.join(projectFolderPath, JOURNAL_FILE), 'utf-8'));
+    return typeof journal?.checksum === 'string' ? (journal as SaveJournal) : null;
+  } catch {
+    return null;
+  }
+}
+
+function writeJournal(projectFolderPath: string, journal: SaveJournal): void {
+  const journalPath = path.join(projectFolderPath, JOURNAL_FILE);
+  const tempPath = `${journalPath}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(journal), 'utf-8');
+  replaceFile(tempPath, journalPath);
+}
+
+function parseProjectData(content: string): ProjectData | null {
+  try {
+    const data = JSON.parse(content);
+    if (!data || typeof data !== 'object') return null;
+    if (data.nodes !== undefined && !Array.isArray(data.nodes)) return null;
+    if (data.edges !== undefined && !Array.isArray(data.edges)) return null;
+    return { nodes: data.nodes || [], edges: data.edges || [] };
+  } catch {
+    return null;
+  }
+}
+
+const getBackupsDir = (projectFolderPath: string) => path.join(projectFolderPath, BACKUPS_DIR);
+
+function listBackupFiles(projectFolderPath: string): string[] {
+  const dir = getBackupsDir(projectFolderPath);
+  if (!fs.existsSync(dir)) return [];
+  return fs
+    .readdirSync(dir)
+    .filter((fileName) => /^(data|corrupted)-\d+\.json$/.test(fileName))
+    .sort((a, b) => Number(b.replace(/\D/g, '')) - Number(a.replace(/\D/g, '')));
+}
+
+/**
+ * 覆盖前轮换备份：距上次备份超过间隔且当前文件完好时复制一份，只保留最近 MAX_BACKUPS 份
+ */
+function rotateBackup(projectFolderPath: string): void {
+  const dataPath = path.join(projectFolderPath, DATA_FILE);
+  if (!fs.existsSync(dataPath)) return;
+  const regular = listBackupFiles(projectFolderPath).filter((f) => f.startsWith('data-'));
+  const latestAt = regular[0] ? Number(regular[0].replace(/\D/g, '')) : 0;
+  if (Date.now() - latestAt < BACKUP_INTERVAL_MS) return;
+
+  const content = fs.readFileSync(dataPath, 'utf-8');
+  const journal = readJournal(projectFolderPath);
+  if ((journal && journal.state === 'committed' && journal.checksum !== sha256(content)) || !parseProjectData(content)) return;
+
+  const dir = getBackupsDir(projectFolderPath);
+  if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(path.join(dir, `data-${Date.now()}.json`), content, 'utf-8');
+  regular.slice(MAX_BACKUPS - 1).forEach((f) => fs.rmSync(path.join(dir, f), { force: true }));
+}
+
+/**
+ * 原子写入 data.json；写临时文件失败（如磁盘已满）时原文件保持不变并抛出错误
+ */
+export function writeProjectData(projectFolderPath: string, data: ProjectData): void {
+  const content = JSON.stringify({ nodes: data.nodes || [], edges: data.edges || [] }, null, 2);
+  const journal: SaveJournal = {
+    state: 'pending',
+    checksum: sha256(content),
+    size: Buffer.byteLength(content, 'utf-8'),
+    savedAt: Date.now(),
+  };
+  try {
+    rotateBackup(projectFolderPath);
+  } catch (error) {
+    console.warn('[项目数据] 备份失败（不影响保存）:', error);
+  }
+  const tempPath = path.join(projectFolderPath, TEMP_FILE);
+  try {
+    writeFileDurable(tempPath, content);
+  } catch (error) {
+    fs.rmSync(tempPath, { force: true });
+    throw error;
+  }
+  writeJournal(projectFolderPath, journal);
+  replaceFile(tempPath, path.join(projectFolderPath, DATA_FILE));
+  writeJournal(projectFolderPath, { ...journal, state: 'committed' });
+}
+
+/** 上次写入在替换前中断：临时文件与日志校验和一致时补完替换 */
+function completePendingWrite(projectFolderPath: string, journal: SaveJournal | null): boolean {
+  const tempPath = path.join(projectFolderPath, TEMP_FILE);
+  if (!journal || journal.state !== 'pending' || !fs.existsSync(tempPath)) return false;
+  if (sha256(fs.readFileSync(tempPath, 'utf-8')) !== journal.checksum) {
+    fs.rmSync(tempPath, { force: true });
+    return false;
+  }
+  replaceFile(tempPath, path.join(projectFolderPath, DATA_FILE));
+  writeJournal(projectFolderPath, { ...journal, state: 'committed' });
+  console.log(`[项目数据] 已补完上次中断的保存: ${projectFolderPath}`);
+  return true;
+}
+
+export function listProjectBackups(projectFolderPath: string): ProjectBackupMeta[] {
+  const dir = getBackupsDir(projectFolderPath);
+  return listBackupFiles(projectFolderPath)
+    .map((fileName): ProjectBackupMeta | null => {
+      const data = parseProjectData(fs.readFileSync(path.join(dir, fileName), 'utf-8'));
+      if (!data) return null;
+      return {
+        id: path.basename(fileName, '.json'),
+        savedAt: Number(fileName.replace(/\D/g, '')),
+        nodeCount: data.nodes.length,
+        edgeCount: data.edges.length,
+        corrupted: fileName.startsWith('corrupted-'),
+      };
+    })
+    .filter((b): b is ProjectBackupMeta => !!b);
+}
+
+/**
+ * 读取并校验 data.json；旧项目没有日志时只校验能否解析
+ * @param options.quarantine 损坏时是否把原文件移入 backups/（默认是）；快照、导出等只读场景传 false，留给打开项目时的恢复流程处理
+ */
+export function readProjectData(projectFolderPath: string, options: { quarantine?: boolean } = {}): ProjectDataLoadResult {
+  const dataPath = path.join(projectFolderPath, DATA_FILE);
+  const journal = readJournal(projectFolderPath);
+  const recovered = completePendingWrite(projectFolderPath, journal);
+  if (!fs.existsSync(dataPath)) return { status: 'missing' };
+
+  const content = fs.readFileSync(dataPath, 'utf-8');
+  const data = parseProjectData(content);
+  const currentJournal = recovered ? readJournal(projectFolderPath) : journal;
+  let reason: string | null = null;
+  if (!data) {
+    reason = '项目文件无法解析';
+  } else if (currentJournal?.state === 'committed' && currentJournal.checksum !== sha256(content)) {
+    reason = '项目文件校验失败（内容与上次保存不一致）';
+  }
+  if (data && !reason) return { status: 'ok', data, recovered };
+  if (options.quarantine === false) {
+    console.warn(`[项目数据] ${reason}: ${dataPath}`);
+    return { status: 'corrupted', reason: reason as string, backups: listProjectBackups(projectFolderPath) };
+  }
+
+  // 把损坏的文件移入备份目录，之后的保存不会覆盖它
+  const dir = getBackupsDir(projectFolderPath);
+  if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+  fs.renameSync(dataPath, path.join(dir, `corrupted-${Date.now()}.json`));
+  fs.rmSync(path.join(projectFolderPath, JOURNAL_FILE), { force: true });
+  console.warn(`[项目数据] ${reason}: ${dataPath}`);
+  return { status: 'corrupted', reason: reason as string, backups: listProjectBackups(projectFolderPath) };
+}
+
+/**
+ * 只读场景（快照、导出、另存为模板）遇到损坏的项目文件时的提示
+ */
+export function getProjectDataRecoveryMessage(reason: string): string {
+  return `${reason}，请重新打开项目并从备份恢复后再试`;
+}
+
+/**
+ * 用指定备份恢复 data.json（恢复本身也走原子写入）
+ */
+export function restoreProjectBackup(projectFolderPath: string, backupId: string): ProjectData {
+  const backupPath = path.join(getBackupsDir(projectFolderPath), `${path.basename(backupId)}.json`);
+  const data = fs.existsSync(backupPath) ? parseProjectData(fs.readFileSync(backupPath, 'utf-8')) : null;
+  if (!data) throw new Error('备份不存在或已损坏');
+  writeProjectData(projectFolderPath, data);
+  console.log(`[项目数据] 已从备份 ${backupId} 恢复: ${projectFolderPath}`);
+  return data;
+}
@@ -0,0 +1,43 @@
+/**
+ * 画布操作历史持久化
+ * 历史保存在项目目录下 history.json（操作记录 + 当前位置），重新打开项目后仍可撤销/重做
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+export interface ProjectHistoryFile {
+  entries: any[];
+  /** 当前位置：已应用的最后一条记录下标，-1 表示全部已撤销 */
+  index: number;
+  savedAt: number;
+}
+
+const HISTORY_FILE = 'history.json';
+
+export function loadProjectHistory(projectFolderPath: string): ProjectHistoryFile | null {
+  const filePath = path.join(projectFolderPath, HISTORY_FILE);
+  if (!fs.existsSync(filePath)) return null;
+  try {
+    const raw = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    if (!Array.isArray(raw?.entries)) return null;
+    const index = Number.isInteger(raw.index) ? Math.min(Math.max(raw.index, -1), raw.entries.length - 1) : raw.entries.length - 1;
+    return { entries: raw.entries, index, savedAt: raw.savedAt || 0 };
+  } catch (error) {
+    console.warn(`[历史] 读取操作历史失败: ${filePath}`, error);
+    return null;
+  }
+}
+
+export function saveProjectHistory(projectFolderPath: string, history: { entries: any[]; index: number }): void {
+  const file: ProjectHistoryFile = {
+    entries: Array.isArray(history.entries) ? history.entries : [],
+    index: history.index,
+    savedAt: Date.now(),
+  };
+  fs.writeFileSync(path.join(projectFolderPath, HISTORY_FILE), JSON.stringify(file), 'utf-8');
+}
+
+export function clearProjectHistory(projectFolderPath: string): void {
+  fs.rmSync(path.join(projectFolderPath, HISTORY_FILE), { force: true });
+}
@@ -0,0 +1,233 @@
+/**
+ * 工作流模板服务
+ * 内置模板随安装包分发（resources/templates/*.json），用户可把项目另存为模板；
+ * 模板节点文本中的 ${参数名} 在「从模板新建项目」时替换为用户填写的值
+ */
+
+import { app } from 'electron';
+import fs from 'fs';
+import path from 'path';
+import { store } from './store.js';
+
+export interface TemplateParam {
+  key: string;
+  label: string;
+  description?: string;
+  defaultValue?: string;
+  /** 有值时以下拉选择填写（如画面比例） */
+  options?: string[];
+}
+
+export interface ProjectTemplate {
+  id: string;
+  name: string;
+  description: string;
+  /** 缩略图 dataUrl */
+  thumbnail?: string;
+  params: TemplateParam[];
+  nodes: any[];
+  edges: any[];
+  builtIn?: boolean;
+  createdAt: number;
+}
+
+/** 模板列表项（不含节点与连线） */
+export type ProjectTemplateSummary = Omit<ProjectTemplate, 'nodes' | 'edges'> & { nodeCount: number };
+
+const TEMPLATE_PARAM_PATTERN = /\$\{\s*([^\s{}$]+)\s*\}/g;
+
+/** 另存为模板时去除的运行状态与产物字段（产物引用原项目 assets，新项目中不存在） */
+export const RUNTIME_DATA_KEYS = [
+  'aiStatus', 'progress', 'progressMessage', 'errorMessage', 'errorCode', 'queuePosition', 'streamingText', 'fanOutItems',
+  'outputText', 'outputImage', 'outputVideo', 'originalVideoUrl', 'outputAudio', 'originalAudioUrl', 'localPath', 'originalImageUrl',
+];
+
+const THUMBNAIL_MIME: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webp': 'image/webp',
+};
+
+/** 安装包内置模板目录（打包后从 extraResources 复制到 resources/templates） */
+function getBuiltInTemplatesDir(): string {
+  if (app.isPackaged && process.resourcesPath) {
+    return path.join(process.resourcesPath, 'templates');
+  }
+  return path.join(app.getAppPath(), 'resources', 'templates');
+}
+
+/**
+ * 读取内置模板；thumbnail 为同目录下的图片文件名时转为 dataUrl
+ */
+function loadBuiltInTemplates(): ProjectTemplate[] {
+  const dir = getBuiltInTemplatesDir();
+  if (!fs.existsSync(dir)) return [];
+  const templates: ProjectTemplate[] = [];
+  for (const fileName of fs.readdirSync(dir)) {
+    if (path.extname(fileName).toLowerCase() !== '.json') continue;
+    try {
+      const raw = JSON.parse(fs.readFileSync(path.join(dir, fileName), 'utf-8'));
+      let thumbnail: string | undefined = raw.thumbnail;
+      if (thumbnail && !thumbnail.startsWith('data:')) {
+        const thumbnailPath = path.join(dir, thumbnail);
+        const mime = THUMBNAIL_MIME[path.extname(thumbnail).toLowerCase()];
+        thumbnail = mime && fs.existsSync(thumbnailPath)
+          ? `data:${mime};base64,${fs.readFileSync(thumbnailPath).toString('base64')}`
+          : undefined;
+      }
+      templates.push({
+        id: raw.id || `builtin-${path.basename(fileName, '.json')}`,
+        name: raw.name || path.basename(fileName, '.json'),
+        description: raw.description || '',
+        thumbnail,
+        params: Array.isArray(raw.params) ? raw.params : [],
+        nodes: Array.isArray(raw.nodes) ? raw.nodes : [],
+        edges: Array.isArray(raw.edges) ? raw.edges : [],
+        builtIn: true,
+        createdAt: raw.createdAt || 0,
+      });
+    } catch (error) {
+      console.warn(`[模板] 读取内置模板 ${fileName} 失败:`, error);
+    }
+  }
+  return templates;
+}
+
+function getUserTemplates(): ProjectTemplate[] {
+  const templates = store.get('projectTemplates') as ProjectTemplate[] | undefined;
+  return Array.isArray(templates) ? templates : [];
+}
+
+/**
+ * 模板列表：内置模板在前，用户模板按创建时间倒序
+ */
+export function listProjectTemplates(): ProjectTemplateSummary[] {
+  const userTemplates = [...getUserTemplates()].sort((a, b) => b.createdAt - a.createdAt);
+  return [...loadBuiltInTemplates(), ...userTemplates].map(({ nodes, edges: _edges, ...summary }) => ({
+    ...summary,
+    nodeCount: nodes.length,
+  }));
+}
+
+export function getProjectTemplate(templateId: string): ProjectTemplate | null {
+  return [...loadBuiltInTemplates(), ...getUserTemplates()].find((t) => t.id === templateId) ?? null;
+}
+
+/** 递归处理节点 data 中的全部字符串 */
+function mapStrings(value: any, fn: (text: string) => string): any {
+  if (typeof value === 'string') return fn(value);
+  if (Array.isArray(value)) return value.map((item) => mapStrings(item, fn));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, mapStrings(v, fn)]));
+  }
+  return value;
+}
+
+/**
+ * 收集节点文本中声明的参数名（按首次出现顺序）
+ */
+export function collectTemplateParamKeys(nodes: any[]): string[] {
+  const keys: string[] = [];
+  nodes.forEach((node) => {
+    mapStrings(node?.data, (text) => {
+      for (const match of text.matchAll(TEMPLATE_PARAM_PATTERN)) {
+        if (!keys.includes(match[1])) keys.push(match[1]);
+      }
+      return text;
+    });
+  });
+  return keys;
+}
+
+/**
+ * 把参数值注入节点文本；未填写的参数使用默认值，仍为空则替换为空串
+ */
+export function applyTemplateParams(nodes: any[], params: TemplateParam[], values: Record<string, string>): any[] {
+  const resolved: Record<string, string> = {};
+  params.forEach((p) => {
+    const value = values[p.key];
+    resolved[p.key] = value != null && value !== '' ? value : p.defaultValue ?? '';
+  });
+  const replace = (text: string) => text.replace(TEMPLATE_PARAM_PATTERN, (_, key: string) => resolved[key] ?? values[key] ?? '');
+  return nodes.map((node) => (node?.data ? { ...node, data: mapStrings(node.data, replace) } : node));
+}
+
+/**
+ * 节点与连线换新 ID，并同步 data 中引用节点 ID 的字段（分组成员、时间线片段、背景音乐来源）
+ * 模板与版本快照会被多次实例化成新项目，沿用原 ID 会让不同项目出现相同节点 ID
+ */
+export function remapGraphIds(nodes: any[], edges: any[]): { nodes: any[]; edges: any[] } {
+  const stamp = Date.now();
+  const idMap = new Map<string, string>();
+  nodes.forEach((node, i) => {
+    if (node?.id != null) idMap.set(String(node.id), `${node.type || 'node'}-${stamp}-${i}`);
+  });
+  const mapId = (id: unknown) => (id != null ? idMap.get(String(id)) : undefined);
+
+  const remappedNodes = nodes.map((node) => {
+    const newId = mapId(node?.id);
+    if (!newId) return node;
+    const data = node.data ? { ...node.data } : node.data;
+    if (Array.isArray(data?.memberIds)) {
+      data.memberIds = data.memberIds.map(mapId).filter((id: string | undefined): id is string => !!id);
+    }
+    if (Array.isArray(data?.clips)) {
+      data.clips = data.clips
+        .map((clip: any) => {
+          const sourceNodeId = mapId(clip?.sourceNodeId);
+          return sourceNodeId ? { ...clip, sourceNodeId } : null;
+        })
+        .filter(Boolean);
+    }
+    if (data?.musicNodeId != null) data.musicNodeId = mapId(data.musicNodeId);
+    return { ...node, id: newId, data };
+  });
+  const remappedEdges = edges
+    .filter((edge) => mapId(edge?.source) && mapId(edge?.target))
+    .map((edge, i) => {
+      const source = mapId(edge.source)!;
+      const target = mapId(edge.target)!;
+      return { ...edge, id: `e-${source}-${target}-${stamp}-${i}`, source, target };
+    });
+  return { nodes: remappedNodes, edges: remappedEdges };
+}
+
+/**
+ * 把项目节点与连线另存为用户模板；参数由节点文本中的 ${参数名} 自动识别
+ */
+export function saveProjectTemplate(input: {
+  name: string;
+  description?: string;
+  thumbnail?: string;
+  nodes: any[];
+  edges: any[];
+}): ProjectTemplate {
+  const name = input.name?.trim();
+  if (!name) throw new Error('模板名称不能为空');
+  if (!Array.isArray(input.nodes) || input.nodes.length === 0) throw new Error('项目中没有节点');
+
+  const nodes = input.nodes.map((node) => {
+    const data = { ...(node.data || {}) };
+    RUNTIME_DATA_KEYS.forEach((key) => delete data[key]);
+    return { ...node, selected: false, data };
+  });
+  const template: ProjectTemplate = {
+    id: `template-${Date.now()}`,
+    name,
+    description: input.description?.trim() || '',
+    thumbnail: input.thumbnail,
+    params: collectTemplateParamKeys(nodes).map((key) => ({ key, label: key })),
+    nodes,
+    edges: Array.isArray(input.edges) ? input.edges : [],
+    createdAt: Date.now(),
+  };
+  store.set('projectTemplates', [template, ...getUserTemplates()]);
+  console.log(`[模板] 已保存模板「${name}」（${nodes.length} 个节点，${template.params.length} 个参数）`);
+  return template;
+}
+
+/** 删除用户模板（内置模板不可删除） */
+export function deleteProjectTemplate(templateId: string): void {
+  store.set('projectTemplates', getUserTemplates().filter((t) => t.id !== templateId));
+}
@@ -0,0 +1,134 @@
+/**
+ * 项目版本快照服务
+ * 快照保存在项目目录下 versions/<versionId>.json；自动快照在内容未变化时跳过，且只保留最近若干个
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { getProjectDataRecoveryMessage, readProjectData } from './projectData.js';
+import { store } from './store.js';
+
+export interface ProjectVersionMeta {
+  id: string;
+  createdAt: number;
+  note: string;
+  /** 定时自动快照（恢复前的备份也算自动快照） */
+  auto: boolean;
+  nodeCount: number;
+  edgeCount: number;
+}
+
+export interface ProjectVersion extends ProjectVersionMeta {
+  nodes: any[];
+  edges: any[];
+}
+
+const VERSIONS_DIR = 'versions';
+const MAX_AUTO_VERSIONS = 30;
+export const DEFAULT_AUTO_SNAPSHOT_MINUTES = 10;
+
+function getVersionsDir(projectFolderPath: string): string {
+  return path.join(projectFolderPath, VERSIONS_DIR);
+}
+
+function readVersionFile(filePath: string): ProjectVersion | null {
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as ProjectVersion;
+  } catch (error) {
+    console.warn(`[版本] 读取快照失败: ${filePath}`, error);
+    return null;
+  }
+}
+
+function listVersionFiles(projectFolderPath: string): ProjectVersion[] {
+  const dir = getVersionsDir(projectFolderPath);
+  if (!fs.existsSync(dir)) return [];
+  return fs
+    .readdirSync(dir)
+    .filter((fileName) => fileName.endsWith('.json'))
+    .map((fileName) => readVersionFile(path.join(dir, fileName)))
+    .filter((v): v is ProjectVersion => !!v)
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+const toMeta = ({ nodes: _nodes, edges: _edges, ...meta }: ProjectVersion): ProjectVersionMeta => meta;
+
+/**
+ * 快照列表（按时间倒序，不含节点与连线）
+ */
+export function listProjectVersions(projectFolderPath: string): ProjectVersionMeta[] {
+  return listVersionFiles(projectFolderPath).map(toMeta);
+}
+
+export function getProjectVersion(projectFolderPath: string, versionId: string): ProjectVersion | null {
+  const filePath = path.join(getVersionsDir(projectFolderPath), `${path.basename(versionId)}.json`);
+  return fs.existsSync(filePath) ? readVersionFile(filePath) : null;
+}
+
+/**
+ * 读取项目当前 data.json 并保存为快照；自动快照与最近一次快照内容相同、或项目数据未通过校验时返回 null
+ */
+export function createProjectVersion(projectFolderPath: string, options: { note?: string; auto?: boolean }): ProjectVersionMeta | null {
+  const auto = !!options.auto;
+  // 经校验读取；损坏的文件不做快照，也不移动（留给打开项目时的恢复流程）
+  const result = readProjectData(projectFolderPath, { quarantine: false });
+  if (result.status !== 'ok') {
+    const reason = result.status === 'corrupted' ? result.reason : '项目数据文件不存在';
+    if (auto) {
+      console.warn(`[版本] 跳过自动快照：${reason}（${projectFolderPath}）`);
+      return null;
+    }
+    throw new Error(result.status === 'corrupted' ? getProjectDataRecoveryMessage(reason) : reason);
+  }
+  const { nodes, edges } = result.data;
+
+  const existing = listVersionFiles(projectFolderPath);
+  if (auto) {
+    const latest = existing[0];
+    if (nodes.length === 0 && edges.length === 0) return null;
+    if (latest && JSON.stringify({ nodes: latest.nodes, edges: latest.edges }) === JSON.stringify({ nodes, edges })) return null;
+  }
+
+  const now = Date.now();
+  const version: ProjectVersion = {
+    id: `version-${now}`,
+    createdAt: now,
+    note: options.note?.trim() || (auto ? '自动快照' : ''),
+    auto,
+    nodeCount: nodes.length,
+    edgeCount: edges.length,
+    nodes,
+    edges,
+  };
+  const dir = getVersionsDir(projectFolderPath);
+  if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(path.join(dir, `${version.id}.json`), JSON.stringify(version), 'utf-8');
+
+  // 自动快照只保留最近 MAX_AUTO_VERSIONS 个，手动版本不清理
+  if (auto) {
+    existing
+      .filter((v) => v.auto)
+      .slice(MAX_AUTO_VERSIONS - 1)
+      .forEach((v) => fs.rmSync(path.join(dir, `${v.id}.json`), { force: true }));
+  }
+  console.log(`[版本] 已保存${auto ? '自动' : ''}快照 ${version.id}（${nodes.length} 个节点）`);
+  return toMeta(version);
+}
+
+export function deleteProjectVersion(projectFolderPath: string, versionId: string): void {
+  fs.rmSync(path.join(getVersionsDir(projectFolderPath), `${path.basename(versionId)}.json`), { force: true });
+}
+
+/**
+ * 自动快照间隔（分钟，0 表示关闭）
+ */
+export function getAutoSnapshotMinutes(): number {
+  const minutes = store.get('versionAutoSnapshotMinutes') as number | undefined;
+  return typeof minutes === 'number' && minutes >= 0 ? minutes : DEFAULT_AUTO_SNAPSHOT_MINUTES;
+}
+
+export function setAutoSnapshotMinutes(minutes: number): number {
+  const normalized = Math.max(0, Math.floor(Number(minutes) || 0));
+  store.set('versionAutoSnapshotMinutes', normalized);
+  return normalized;
+}
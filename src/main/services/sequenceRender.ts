@@ -0,0 +1,181 @@
+/**
+ * 序列剪辑渲染：把多个视频片段按时间线顺序拼接为一条 MP4（H.264 + AAC）
+ * 支持每段入点/出点裁剪、与下一段的交叉淡化、每段音量，以及循环铺满全片的背景音乐
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { parseFfmpegTime, runProcess, VideoTranscodeGuard } from '../media/VideoTranscodeGuard.js';
+import { resolveLocalMediaPath } from './projectBundle.js';
+
+export interface SequenceClipSpec {
+  /** 视频地址（local-resource:// / file:// / 本地路径 / http(s)） */
+  url: string;
+  /** 入点（秒） */
+  trimIn?: number;
+  /** 出点（秒），为空时到片段结尾 */
+  trimOut?: number;
+  /** 片段音量（1 为原始音量） */
+  volume?: number;
+  /** 与下一段的交叉淡化时长（秒），0 为硬切 */
+  crossfade?: number;
+}
+
+export interface SequenceRenderSpec {
+  clips: SequenceClipSpec[];
+  music?: { url: string; volume?: number };
+  width?: number;
+  height?: number;
+  fps?: number;
+}
+
+const PROBE_TIMEOUT_MS = 30 * 1000;
+const RENDER_TIMEOUT_MS = 60 * 60 * 1000;
+/** 背景音乐在结尾的淡出时长（秒） */
+const MUSIC_FADE_OUT_SECONDS = 2;
+
+/** 节点中的媒体地址转为 ffmpeg 可读取的输入（本地文件路径或远程 URL） */
+export function toFfmpegInput(url: string): string {
+  if (/^https?:\/\//i.test(url)) return url;
+  const localPath = resolveLocalMediaPath(url);
+  if (!localPath || !fs.existsSync(localPath)) {
+    throw new Error(`找不到媒体文件: ${url}`);
+  }
+  return localPath;
+}
+
+/** ffprobe 获取时长与是否有音轨 */
+export async function probeMedia(ffprobePath: string, input: string): Promise<{ duration: number; hasAudio: boolean }> {
+  const { code, stdout, stderr } = await runProcess(
+    ffprobePath,
+    ['-v', 'error', '-print_format', 'json', '-show_streams', '-show_format', input],
+    PROBE_TIMEOUT_MS
+  );
+  if (code !== 0) throw new Error(`无法读取媒体信息: ${stderr.trim() || input}`);
+  const probe = JSON.parse(stdout);
+  const streams: Array<{ codec_type?: string }> = probe.streams || [];
+  return {
+    duration: Number(probe.format?.duration) || 0,
+    hasAudio: streams.some((s) => s.codec_type === 'audio'),
+  };
+}
+
+const num = (value: number) => Number(value.toFixed(3));
+
+/**
+ * 渲染序列到 outputPath
+ * @param onProgress 渲染进度回调（0-100）
+ * @returns 成片时长（秒）
+ */
+export async function renderSequence(
+  spec: SequenceRenderSpec,
+  outputPath: string,
+  onProgress?: (percent: number) => void
+): Promise<number> {
+  if (!spec.clips?.length) throw new Error('序列中没有视频片段');
+  const ffmpegPath = await VideoTranscodeGuard.resolveFfmpegPath();
+  if (!ffmpegPath) throw new Error('未找到可用的 ffmpeg，请在设置中配置 ffmpeg 路径');
+  const ffprobePath = VideoTranscodeGuard.getFfprobePath(ffmpegPath);
+
+  const width = spec.width || 1280;
+  const height = spec.height || 720;
+  const fps = spec.fps || 30;
+
+  // 解析片段：裁剪后的实际时长、是否有音轨
+  const clips = await Promise.all(
+    spec.clips.map(async (clip) => {
+      const input = toFfmpegInput(clip.url);
+      const info = await probeMedia(ffprobePath, input);
+      const trimIn = Math.max(0, clip.trimIn || 0);
+      const end = clip.trimOut && clip.trimOut > trimIn ? Math.min(clip.trimOut, info.duration || clip.trimOut) : info.duration;
+      const duration = end - trimIn;
+      if (!(duration > 0)) throw new Error(`片段裁剪后时长为 0: ${clip.url}`);
+      return { input, trimIn, duration, hasAudio: info.hasAudio, volume: clip.volume ?? 1, crossfade: Math.max(0, clip.crossfade || 0) };
+    })
+  );
+
+  const args: string[] = ['-y'];
+  clips.forEach((clip) => args.push('-ss', String(num(clip.trimIn)), '-t', String(num(clip.duration)), '-i', clip.input));
+
+  const filters: string[] = [];
+  clips.forEach((clip, i) => {
+    filters.push(
+      `[${i}:v]scale=${width}:${height}:force_original_aspect_ratio=decrease,pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2,` +
+        `setsar=1,fps=${fps},format=yuv420p,setpts=PTS-STARTPTS,settb=AVTB[v${i}]`
+    );
+    filters.push(
+      clip.hasAudio
+        ? `[${i}:a]aresample=44100,aformat=sample_fmts=fltp:channel_layouts=stereo,volume=${num(clip.volume)},asetpts=PTS-STARTPTS[a${i}]`
+        : `anullsrc=r=44100:cl=stereo,atrim=duration=${num(clip.duration)},aformat=sample_fmts=fltp:channel_layouts=stereo[a${i}]`
+    );
+  });
+
+  // 逐段连接：有交叉淡化用 xfade / acrossfade，否则 concat；淡化时长不超过相邻两段的一半
+  let videoLabel = 'v0';
+  let audioLabel = 'a0';
+  let total = clips[0].duration;
+  for (let i = 1; i < clips.length; i++) {
+    const fade = Math.min(clips[i - 1].crossfade, clips[i - 1].duration / 2, clips[i].duration / 2);
+    const nextVideo = `vx${i}`;
+    const nextAudio = `ax${i}`;
+    if (fade > 0) {
+      filters.push(`[${videoLabel}][v${i}]xfade=transition=fade:duration=${num(fade)}:offset=${num(total - fade)}[${nextVideo}]`);
+      filters.push(`[${audioLabel}][a${i}]acrossfade=d=${num(fade)}[${nextAudio}]`);
+      total += clips[i].duration - fade;
+    } else {
+      filters.push(`[${videoLabel}][${audioLabel}][v${i}][a${i}]concat=n=2:v=1:a=1[${nextVideo}][${nextAudio}]`);
+      total += clips[i].duration;
+    }
+    videoLabel = nextVideo;
+    audioLabel = nextAudio;
+  }
+
+  // 背景音乐：循环铺满全片，结尾淡出后与片段音轨混合
+  if (spec.music?.url) {
+    const musicIndex = clips.length;
+    args.push('-stream_loop', '-1', '-i', toFfmpegInput(spec.music.url));
+    const fadeStart = Math.max(0, total - MUSIC_FADE_OUT_SECONDS);
+    filters.push(
+      `[${musicIndex}:a]aresample=44100,aformat=sample_fmts=fltp:channel_layouts=stereo,volume=${num(spec.music.volume ?? 0.5)},` +
+        `atrim=duration=${num(total)},afade=t=out:st=${num(fadeStart)}:d=${MUSIC_FADE_OUT_SECONDS}[bgm]`
+    );
+    filters.push(`[${audioLabel}][bgm]amix=inputs=2:duration=first:dropout_transition=0:normalize=0[amix]`);
+    audioLabel = 'amix';
+  }
+
+  // 先写临时文件，成功后再改名，避免中断时留下半个视频
+  const tempPath = `${outputPath}.part.mp4`;
+  fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+  args.push(
+    '-filter_complex', filters.join(';'),
+    '-map', `[${videoLabel}]`, '-map', `[${audioLabel}]`,
+    '-c:v', 'libx264', '-preset', 'veryfast', '-crf', '20', '-pix_fmt', 'yuv420p',
+    '-c:a', 'aac', '-b:a', '192k',
+    '-movflags', '+faststart',
+    tempPath
+  );
+
+  console.log(`[序列渲染] 开始渲染 ${clips.length} 个片段，总时长 ${num(total)}s: ${outputPath}`);
+  let lastPercent = -1;
+  try {
+    const { code, stderr } = await runProcess(ffmpegPath, args, RENDER_TIMEOUT_MS, (chunk) => {
+      const seconds = parseFfmpegTime(chunk);
+      if (seconds === null || !onProgress) return;
+      const percent = Math.min(99, Math.floor((seconds / total) * 100));
+      if (percent > lastPercent) {
+        lastPercent = percent;
+        onProgress(percent);
+      }
+    });
+    if (code !== 0) {
+      throw new Error(`ffmpeg 渲染失败: ${stderr.trim().split('\n').slice(-3).join(' ')}`);
+    }
+    fs.renameSync(tempPath, outputPath);
+  } catch (error) {
+    if (fs.existsSync(tempPath)) fs.unlinkSync(tempPath);
+    throw error;
+  }
+  onProgress?.(100);
+  console.log(`[序列渲染] 渲染完成: ${outputPath}`);
+  return total;
+}
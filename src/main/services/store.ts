@@ -32,6 +32,35 @@ export const store = new Store({
       name: string;
       content: string;
     }>,
+    // 自定义 OpenAI 兼容 LLM 端点（内置 BLTCY 端点不在此列表中）
+    llmEndpoints: [] as Array<{
+      id: string;
+      name: string;
+      baseUrl: string;
+      apiKey: string;
+      models: string[];
+    }>,
+    // 模块库（画布分组保存的可复用模块，跨项目共享）
+    moduleLibrary: [] as Array<{
+      id: string;
+      name: string;
+      nodes: any[];
+      edges: any[];
+      createdAt: number;
+    }>,
+    // 用户模板（项目另存的工作流模板，内置模板在 resources/templates）
+    projectTemplates: [] as Array<{
+      id: string;
+      name: string;
+      description: string;
+      thumbnail?: string;
+      params: Array<{ key: string; label: string; description?: string; defaultValue?: string; options?: string[] }>;
+      nodes: any[];
+      edges: any[];
+      createdAt: number;
+    }>,
+    // 项目版本自动快照间隔（分钟，0 为关闭）
+    versionAutoSnapshotMinutes: 10,
     // 角色列表
     characters: [] as Array<{
       id: string;
@@ -62,6 +91,26 @@ export const store = new Store({
     }>,
     // 项目存储根路径（空则使用安装目录下的 projects）
     customProjectPath: '' as string,
+    // ffmpeg 可执行文件或所在目录（空则使用安装包内置 resources/ffmpeg，再回退到系统 PATH）
+    ffmpegPath: '' as string,
+    // AI 任务调度限额覆盖（键为 Provider 或 Provider:上游模型，如 'video'、'video:sora-2'）
+    aiSchedulerLimits: {} as Record<string, { maxConcurrent?: number; requestsPerMinute?: number }>,
+    // 离线模拟 Provider（不访问网络，用于演示与回归测试；环境变量 NEXFLOW_MOCK_AI=1 也可启用）
+    mockProvider: {
+      enabled: false,
+      latencyMs: 3000,
+      progressSteps: 5,
+      failureRate: 0,
+      failureCode: 'UNKNOWN',
+    } as {
+      enabled: boolean;
+      modelIds?: Array<'chat' | 'image' | 'video' | 'audio'>;
+      latencyMs: number;
+      progressSteps: number;
+      failureRate: number;
+      failureCode: 'RETRYABLE' | 'CONTENT_POLICY' | 'AUTH' | 'INSUFFICIENT_BALANCE' | 'UNKNOWN';
+      placeholderFiles?: Partial<Record<'image' | 'video' | 'audio', string>>;
+    },
     // 其他配置项
   },
 });
@@ -8,12 +8,19 @@ import path from 'path';
 import fs from 'fs';
 import axios from 'axios';
 import crypto from 'crypto';
+import { VideoTranscodeGuard } from '../media/VideoTranscodeGuard.js';
+
+/** autoDownloadResource 支持的资源类型（sequence：序列节点本地渲染的成片；frame：抽帧节点从视频截取的图片；edit：图片编辑节点的结果） */
+export type ResourceType = 'image' | 'video' | 'text' | 'audio' | 'sequence' | 'frame' | 'edit';
+
+/** 已在本地生成好文件、只需记录元数据的资源类型 */
+const LOCAL_GENERATED_TYPES: ResourceType[] = ['sequence', 'frame', 'edit'];
 
 /**
  * 资源元数据接口
  */
 export interface ResourceMetadata {
-  resourceType: 'image' | 'video' | 'text' | 'audio' | 'character-avatar';
+  resourceType: ResourceType | 'character-avatar';
   prompt?: string; // 提示词
   text?: string; // 文本内容（用于 text 类型）
   nodeId?: string; // 节点 ID
@@ -26,46 +33,52 @@ export interface ResourceMetadata {
   [key: string]: any; // 允许其他扩展字段
 }
 
+/**
+ * 资源保存目录：角色头像 → 全局 avatars；有项目 → 项目 assets；否则全局 assets
+ */
+export async function getResourceSaveDir(metadata: Partial<ResourceMetadata>): Promise<string> {
+  const userDataPath = app.getPath('userData');
+
+  // 如果是角色头像（通过 nodeId 判断，或者 metadata 中有特殊标记）
+  const isCharacterAvatar = metadata.nodeId?.startsWith('character-') || metadata.resourceType === 'character-avatar';
+
+  if (isCharacterAvatar) {
+    // 角色头像保存到全局 avatars 文件夹
+    return path.join(userDataPath, 'avatars');
+  }
+  if (metadata.projectId) {
+    // 使用统一的项目文件夹路径获取函数
+    const { getProjectFolderPath } = await import('./projectFolderHelper.js');
+    const projectFolderPath = await getProjectFolderPath(metadata.projectId);
+    if (projectFolderPath) {
+      // 保存到项目文件夹的 assets 子文件夹
+      return path.join(projectFolderPath, 'assets');
+    }
+    // 项目不存在，保存到全局 assets 文件夹
+    console.warn(`[自动下载] 项目不存在: ${metadata.projectId}，保存到全局 assets 文件夹`);
+  }
+  // 没有项目ID，保存到全局 assets 文件夹
+  return path.join(userDataPath, 'assets');
+}
+
 /**
  * 自动下载资源到本地 assets 文件夹，并保存元数据
- * @param remoteUrl 远程 URL（对于 text 类型可以为空）
- * @param resourceType 'image' | 'video' | 'text' | 'audio'
+ * @param remoteUrl 远程 URL（对于 text / sequence / frame / edit 类型可以为空）
+ * @param resourceType 'image' | 'video' | 'text' | 'audio' | 'sequence' | 'frame' | 'edit'（sequence / frame / edit 为本地生成的文件，metadata.localPath 为已生成的文件）
  * @param metadata 资源元数据（包括提示词等）
+ * @param options.onTranscodeProgress 视频不兼容浏览器时转码为 H.264/AAC MP4 的进度回调（0-100）
  * @returns 本地文件路径，如果下载失败则返回 null
  */
 export async function autoDownloadResource(
   remoteUrl: string | null,
-  resourceType: 'image' | 'video' | 'text' | 'audio',
-  metadata: Partial<ResourceMetadata> = {}
+  resourceType: ResourceType,
+  metadata: Partial<ResourceMetadata> = {},
+  options: { onTranscodeProgress?: (percent: number) => void } = {}
 ): Promise<string | null> {
   try {
     // 确定保存目录：如果有 projectId，保存到项目文件夹的 assets 子文件夹，否则保存到全局 assets 或 avatars
-    const userDataPath = app.getPath('userData');
-    let saveDir: string;
-    
-    // 如果是角色头像（通过 nodeId 判断，或者 metadata 中有特殊标记）
-    const isCharacterAvatar = metadata.nodeId?.startsWith('character-') || metadata.resourceType === 'character-avatar';
-    
-    if (isCharacterAvatar) {
-      // 角色头像保存到全局 avatars 文件夹
-      saveDir = path.join(userDataPath, 'avatars');
-    } else if (metadata.projectId) {
-      // 使用统一的项目文件夹路径获取函数
-      const { getProjectFolderPath } = await import('./projectFolderHelper.js');
-      const projectFolderPath = await getProjectFolderPath(metadata.projectId);
-      if (projectFolderPath) {
-        // 保存到项目文件夹的 assets 子文件夹
-        saveDir = path.join(projectFolderPath, 'assets');
-      } else {
-        // 项目不存在，保存到全局 assets 文件夹
-        console.warn(`[自动下载] 项目不存在: ${metadata.projectId}，保存到全局 assets 文件夹`);
-        saveDir = path.join(userDataPath, 'assets');
-      }
-    } else {
-      // 没有项目ID，保存到全局 assets 文件夹
-      saveDir = path.join(userDataPath, 'assets');
-    }
-    
+    const saveDir = await getResourceSaveDir(metadata);
+
     // 确保目录存在
     if (!fs.existsSync(saveDir)) {
       fs.mkdirSync(saveDir, { recursive: true });
@@ -75,7 +88,14 @@ export async function autoDownloadResource(
     let fileName: string;
     let filePath: string;
 
-    if (resourceType === 'text') {
+    if (LOCAL_GENERATED_TYPES.includes(resourceType)) {
+      // 序列成片 / 抽帧图片 / 编辑结果已在本地生成到 assets，只记录元数据
+      if (!metadata.localPath || !fs.existsSync(metadata.localPath)) {
+        console.error(`[自动保存] ${resourceType} 类型需要已生成的 localPath`);
+        return null;
+      }
+      filePath = metadata.localPath;
+    } else if (resourceType === 'text') {
       // 文本类型：使用时间戳和内容哈希
       const textContent = metadata.text || '';
       const textHash = crypto.createHash('md5').update(textContent).digest('hex').substring(0, 8);
@@ -109,6 +129,12 @@ export async function autoDownloadResource(
       fileName = `${urlHash}${ext}`;
       filePath = path.join(saveDir, fileName);
 
+      // 视频曾被转码时只保留转码结果（<hash>.h264.mp4）
+      const transcodedPath = path.join(saveDir, `${urlHash}.h264.mp4`);
+      if (resourceType === 'video' && !fs.existsSync(filePath) && fs.existsSync(transcodedPath)) {
+        filePath = transcodedPath;
+      }
+
       // 如果文件已存在，直接返回路径（避免重复下载）
       if (fs.existsSync(filePath)) {
         console.log(`[自动下载] 文件已存在，跳过下载: ${filePath}`);
@@ -129,6 +155,11 @@ export async function autoDownloadResource(
       // 确保路径正确编码（使用 UTF-8）
       const normalizedPath = filePath.replace(/\\/g, '/');
       console.log(`[自动下载] 资源已保存: ${normalizedPath}`);
+
+      // 部分 Provider 返回 HEVC/VP9 或非常见封装，转码为 H.264/AAC MP4 以保证 VideoPreview 可播放
+      if (resourceType === 'video') {
+        filePath = await VideoTranscodeGuard.ensurePlayable(filePath, { onProgress: options.onTranscodeProgress });
+      }
     }
 
     // 保存元数据
@@ -146,7 +177,7 @@ export async function autoDownloadResource(
  */
 async function saveResourceMetadata(
   filePath: string,
-  resourceType: 'image' | 'video' | 'text' | 'audio',
+  resourceType: ResourceType,
   metadata: Partial<ResourceMetadata>,
   remoteUrl?: string
 ): Promise<void> {
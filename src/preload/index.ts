@@ -38,15 +38,38 @@ contextBridge.exposeInMainWorld('electronAPI', {
   // 项目数据（节点和边）
   saveProjectData: (projectId: string, nodes: any[], edges: any[]) => ipcRenderer.invoke('save-project-data', projectId, nodes, edges),
   loadProjectData: (projectId: string) => ipcRenderer.invoke('load-project-data', projectId),
+  listProjectBackups: (projectId: string) => ipcRenderer.invoke('list-project-backups', projectId),
+  listProjectAssets: (projectId: string) => ipcRenderer.invoke('list-project-assets', projectId),
+  // 序列节点：本地渲染成片（进度通过 onSequenceRenderProgress 推送，返回取消监听函数）
+  renderSequence: (spec: any, meta: { projectId?: string; nodeId: string; nodeTitle?: string }) => ipcRenderer.invoke('render-sequence', spec, meta),
+  onSequenceRenderProgress: (callback: (data: { nodeId: string; progress: number }) => void) => {
+    const handler = (_: any, data: { nodeId: string; progress: number }) => callback(data);
+    ipcRenderer.on('sequence:render-progress', handler);
+    return () => {
+      ipcRenderer.removeListener('sequence:render-progress', handler);
+    };
+  },
+  // 抽帧节点：从视频截取首帧/末帧/指定时间/均匀 N 帧
+  extractVideoFrames: (videoUrl: string, options: { mode: string; time?: number; count?: number }, meta: { projectId?: string; nodeId: string; nodeTitle?: string }) =>
+    ipcRenderer.invoke('extract-video-frames', videoUrl, options, meta),
+  // 图片编辑节点：保存处理结果到项目 assets
+  saveEditedImage: (buffer: ArrayBuffer, meta: { projectId?: string; nodeId: string; nodeTitle?: string; operations?: string }) =>
+    ipcRenderer.invoke('save-edited-image', buffer, meta),
+  restoreProjectBackup: (projectId: string, backupId: string) => ipcRenderer.invoke('restore-project-backup', projectId, backupId),
   copyFileToProjectAssets: (projectId: string | undefined, sourceFilePath: string) => ipcRenderer.invoke('copy-file-to-project-assets', projectId, sourceFilePath),
   saveDroppedFileBufferToProjectAssets: (projectId: string | undefined, fileName: string, buffer: ArrayBuffer) => ipcRenderer.invoke('save-dropped-file-buffer-to-project-assets', projectId, fileName, buffer),
 
   // 项目导入导出
-  exportProject: (projectId: string, cardBgDataUrl?: string) => ipcRenderer.invoke('export-project', projectId, cardBgDataUrl),
+  exportProject: (projectId: string, cardBgDataUrl?: string, options?: { selfContained?: boolean; stripOutputs?: boolean; includeRemote?: boolean }) =>
+    ipcRenderer.invoke('export-project', projectId, cardBgDataUrl, options),
   importProject: () => ipcRenderer.invoke('import-project'),
 
   // AI 调用
-  invokeAI: (params: { modelId: string; nodeId: string; input: any }) => ipcRenderer.invoke('ai:invoke', params),
+  invokeAI: (params: { modelId: string; nodeId: string; projectId?: string; input: any; priority?: 'high' | 'normal' | 'low' }) => ipcRenderer.invoke('ai:invoke', params),
+  // AI 任务取消（中断指定节点的运行中/排队中任务）
+  cancelAI: (nodeId: string, projectId?: string) => ipcRenderer.invoke('ai:cancel', nodeId, projectId),
+  // 恢复应用重启前未完成的远程任务（返回已恢复的节点 ID）
+  resumePendingAIJobs: (projectId?: string) => ipcRenderer.invoke('ai:resume-pending', projectId),
   
   // AI 状态更新监听（支持多个监听器，每个组件独立管理）
   onAIStatusUpdate: (callback: (packet: { nodeId: string; status: string; payload?: any }) => void) => {
@@ -104,6 +127,41 @@ contextBridge.exposeInMainWorld('electronAPI', {
   updateGlobalLLMPersonas: (personas: Array<{ id: string; name: string; content: string }>) => ipcRenderer.invoke('update-global-llm-personas', personas),
   deleteGlobalLLMPersona: (personaId: string) => ipcRenderer.invoke('delete-global-llm-persona', personaId),
 
+  // LLM 端点管理（OpenAI 兼容端点）
+  getLLMEndpoints: () => ipcRenderer.invoke('get-llm-endpoints'),
+  saveLLMEndpoints: (endpoints: Array<{ id: string; name: string; baseUrl: string; apiKey: string; models: string[] }>) => ipcRenderer.invoke('save-llm-endpoints', endpoints),
+  discoverLLMEndpointModels: (baseUrl: string, apiKey?: string) => ipcRenderer.invoke('discover-llm-endpoint-models', baseUrl, apiKey),
+  getFfmpegConfig: () => ipcRenderer.invoke('get-ffmpeg-config'),
+  saveFfmpegPath: (ffmpegPath: string) => ipcRenderer.invoke('save-ffmpeg-path', ffmpegPath),
+
+  // 模块库（分组保存的可复用模块）
+  getModuleLibrary: () => ipcRenderer.invoke('get-module-library'),
+  saveLibraryModule: (module: { id: string; name: string; nodes: any[]; edges: any[]; createdAt: number }) => ipcRenderer.invoke('save-library-module', module),
+  deleteLibraryModule: (moduleId: string) => ipcRenderer.invoke('delete-library-module', moduleId),
+
+  // 工作流模板
+  getProjectTemplates: () => ipcRenderer.invoke('get-project-templates'),
+  createProjectFromTemplate: (templateId: string, name: string, values: Record<string, string>) =>
+    ipcRenderer.invoke('create-project-from-template', templateId, name, values),
+  saveProjectAsTemplate: (projectId: string, info: { name: string; description?: string; thumbnail?: string }) =>
+    ipcRenderer.invoke('save-project-as-template', projectId, info),
+  deleteProjectTemplate: (templateId: string) => ipcRenderer.invoke('delete-project-template', templateId),
+
+  // 项目版本快照
+  listProjectVersions: (projectId: string) => ipcRenderer.invoke('list-project-versions', projectId),
+  createProjectVersion: (projectId: string, options: { note?: string; auto?: boolean }) =>
+    ipcRenderer.invoke('create-project-version', projectId, options),
+  getProjectVersion: (projectId: string, versionId: string) => ipcRenderer.invoke('get-project-version', projectId, versionId),
+  deleteProjectVersion: (projectId: string, versionId: string) => ipcRenderer.invoke('delete-project-version', projectId, versionId),
+  branchProjectVersion: (projectId: string, versionId: string, name: string) =>
+    ipcRenderer.invoke('branch-project-version', projectId, versionId, name),
+  getVersionAutoSnapshotMinutes: () => ipcRenderer.invoke('get-version-auto-snapshot-minutes'),
+  setVersionAutoSnapshotMinutes: (minutes: number) => ipcRenderer.invoke('set-version-auto-snapshot-minutes', minutes),
+  loadProjectHistory: (projectId: string) => ipcRenderer.invoke('load-project-history', projectId),
+  saveProjectHistory: (projectId: string, history: { entries: any[]; index: number }) =>
+    ipcRenderer.invoke('save-project-history', projectId, history),
+  clearProjectHistory: (projectId: string) => ipcRenderer.invoke('clear-project-history', projectId),
+
   // 选择自定义保存路径
   selectSavePath: () => ipcRenderer.invoke('select-save-path'),
   
@@ -127,6 +185,8 @@ contextBridge.exposeInMainWorld('electronAPI', {
   showOpenAudioDialog: () => ipcRenderer.invoke('show-open-audio-dialog'),
   // 选择视频文件（与 AudioNode 一致的 IPC 方案）
   showOpenVideoDialog: () => ipcRenderer.invoke('show-open-video-dialog'),
+  // 选择图片文件夹（循环节点）
+  showOpenImageFolderDialog: () => ipcRenderer.invoke('show-open-image-folder-dialog'),
   // 在文件管理器中显示文件（打开文件所在的文件夹并选中文件）
   showItemInFolder: (filePath: string) => ipcRenderer.invoke('show-item-in-folder', filePath),
   
@@ -0,0 +1,263 @@
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { X, RefreshCw, Search, Music, FileText } from 'lucide-react';
+import type { Node } from 'reactflow';
+
+export type ProjectAsset = Awaited<ReturnType<Window['electronAPI']['listProjectAssets']>>[number];
+
+/** 拖拽素材到画布时使用的 dataTransfer 类型（内容为 ProjectAsset JSON） */
+export const ASSET_DRAG_MIME = 'application/nexflow-asset';
+
+type TypeFilter = 'all' | ProjectAsset['type'];
+
+const TYPE_OPTIONS: { value: TypeFilter; label: string }[] = [
+  { value: 'all', label: '全部' },
+  { value: 'image', label: '图片' },
+  { value: 'video', label: '视频' },
+  { value: 'audio', label: '音频' },
+  { value: 'text', label: '文本' },
+];
+
+const DATE_OPTIONS = [
+  { value: 0, label: '全部时间' },
+  { value: 1, label: '今天' },
+  { value: 7, label: '最近 7 天' },
+  { value: 30, label: '最近 30 天' },
+];
+
+interface AssetBrowserPanelProps {
+  projectId: string;
+  /** 当前画布节点，用于判断素材是否仍被引用 */
+  nodes: Node[];
+  onClose: () => void;
+}
+
+/**
+ * 收集节点中引用的 assets 相对路径（local-resource://<项目目录>/assets/<相对路径>）
+ */
+function collectReferencedAssets(nodes: Node[]): Set<string> {
+  const refs = new Set<string>();
+  const visit = (value: unknown) => {
+    if (typeof value === 'string') {
+      if (!value.includes('assets/')) return;
+      let text = value;
+      try {
+        text = decodeURIComponent(value);
+      } catch {
+        /* 保持原样 */
+      }
+      const normalized = text.replace(/\\/g, '/');
+      const index = normalized.indexOf('/assets/');
+      if (index >= 0) refs.add(normalized.slice(index + '/assets/'.length).split(/[?#]/)[0]);
+    } else if (Array.isArray(value)) {
+      value.forEach(visit);
+    } else if (value && typeof value === 'object') {
+      Object.values(value).forEach(visit);
+    }
+  };
+  nodes.forEach((node) => visit(node.data));
+  return refs;
+}
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+const formatDate = (timestamp: number) => {
+  const d = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getMonth() + 1}/${d.getDate()} ${pad(d.getHours())}:${pad(d.getMinutes())}`;
+};
+
+/**
+ * 素材库：浏览项目 assets 中的生成结果与拖入文件，按类型/模型/节点/时间筛选、按提示词搜索，拖到画布创建节点
+ */
+const AssetBrowserPanel: React.FC<AssetBrowserPanelProps> = ({ projectId, nodes, onClose }) => {
+  const [assets, setAssets] = useState<ProjectAsset[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [typeFilter, setTypeFilter] = useState<TypeFilter>('all');
+  const [modelFilter, setModelFilter] = useState('');
+  const [nodeFilter, setNodeFilter] = useState('');
+  const [days, setDays] = useState(0);
+  const [query, setQuery] = useState('');
+  const [unusedOnly, setUnusedOnly] = useState(false);
+
+  const loadAssets = useCallback(async () => {
+    if (!window.electronAPI?.listProjectAssets) return;
+    setLoading(true);
+    try {
+      setAssets(await window.electronAPI.listProjectAssets(projectId));
+    } catch (error) {
+      console.error('[AssetBrowser] 加载素材失败:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    loadAssets();
+  }, [loadAssets]);
+
+  const referenced = useMemo(() => collectReferencedAssets(nodes), [nodes]);
+  const models = useMemo(() => [...new Set(assets.map((a) => a.model).filter((m): m is string => !!m))].sort(), [assets]);
+  const sourceNodes = useMemo(() => {
+    const byId = new Map<string, string>();
+    assets.forEach((a) => {
+      if (a.nodeId && !byId.has(a.nodeId)) byId.set(a.nodeId, a.nodeTitle || a.nodeId);
+    });
+    return [...byId.entries()];
+  }, [assets]);
+
+  const filtered = useMemo(() => {
+    const keyword = query.trim().toLowerCase();
+    const since = days > 0 ? new Date().setHours(0, 0, 0, 0) - (days - 1) * 24 * 60 * 60 * 1000 : 0;
+    return assets.filter((asset) => {
+      if (typeFilter !== 'all' && asset.type !== typeFilter) return false;
+      if (modelFilter && asset.model !== modelFilter) return false;
+      if (nodeFilter && asset.nodeId !== nodeFilter) return false;
+      if (since && asset.createdAt < since) return false;
+      if (unusedOnly && referenced.has(asset.relativePath)) return false;
+      if (keyword) {
+        const haystack = [asset.prompt, asset.name, asset.nodeTitle, asset.textPreview].filter(Boolean).join('\n').toLowerCase();
+        if (!haystack.includes(keyword)) return false;
+      }
+      return true;
+    });
+  }, [assets, typeFilter, modelFilter, nodeFilter, days, query, unusedOnly, referenced]);
+
+  const handleDragStart = (event: React.DragEvent, asset: ProjectAsset) => {
+    event.dataTransfer.setData(ASSET_DRAG_MIME, JSON.stringify(asset));
+    event.dataTransfer.effectAllowed = 'copy';
+  };
+
+  const selectClass = 'px-2 py-1 apple-panel rounded-lg text-white text-xs min-w-0';
+
+  return (
+    <div
+      className="fixed top-16 left-4 z-[100] w-[380px] h-[72vh] apple-panel rounded-xl flex flex-col shadow-2xl"
+      onMouseDown={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between px-3 py-2 border-b border-white/10">
+        <h3 className="text-sm font-bold text-white">素材库</h3>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={loadAssets}
+            className="p-1 rounded-lg text-white/60 hover:text-white hover:bg-white/10"
+            title="刷新"
+          >
+            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+          </button>
+          <button onClick={onClose} className="p-1 rounded-lg text-white/60 hover:text-white hover:bg-white/10" title="关闭">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="p-3 space-y-2 border-b border-white/10">
+        <div className="flex items-center gap-2 px-2 py-1 apple-panel rounded-lg">
+          <Search className="w-3.5 h-3.5 text-white/40" />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="搜索提示词、文件名、文本内容"
+            className="flex-1 bg-transparent text-white text-xs placeholder-white/40 focus:outline-none"
+            style={{ caretColor: 'white' }}
+          />
+        </div>
+        <div className="flex gap-1">
+          {TYPE_OPTIONS.map((option) => (
+            <button
+              key={option.value}
+              onClick={() => setTypeFilter(option.value)}
+              className={`flex-1 px-2 py-1 rounded-lg text-xs ${
+                typeFilter === option.value ? 'bg-white/20 text-white' : 'text-white/60 hover:bg-white/10'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <div className="grid grid-cols-3 gap-1">
+          <select value={modelFilter} onChange={(e) => setModelFilter(e.target.value)} className={selectClass} title="按模型筛选">
+            <option value="" className="bg-zinc-900">全部模型</option>
+            {models.map((model) => (
+              <option key={model} value={model} className="bg-zinc-900">
+                {model}
+              </option>
+            ))}
+          </select>
+          <select value={nodeFilter} onChange={(e) => setNodeFilter(e.target.value)} className={selectClass} title="按来源节点筛选">
+            <option value="" className="bg-zinc-900">全部节点</option>
+            {sourceNodes.map(([id, title]) => (
+              <option key={id} value={id} className="bg-zinc-900">
+                {title}
+              </option>
+            ))}
+          </select>
+          <select value={days} onChange={(e) => setDays(Number(e.target.value))} className={selectClass} title="按时间筛选">
+            {DATE_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value} className="bg-zinc-900">
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <label className="flex items-center gap-2 text-white/70 text-xs cursor-pointer">
+          <input type="checkbox" checked={unusedOnly} onChange={(e) => setUnusedOnly(e.target.checked)} />
+          只显示画布中未使用的素材
+        </label>
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar p-2">
+        {filtered.length === 0 ? (
+          <p className="p-2 text-white/40 text-xs">{loading ? '加载中…' : '没有符合条件的素材'}</p>
+        ) : (
+          <div className="grid grid-cols-2 gap-2">
+            {filtered.map((asset) => {
+              const unused = !referenced.has(asset.relativePath);
+              return (
+                <div
+                  key={asset.relativePath}
+                  draggable
+                  onDragStart={(e) => handleDragStart(e, asset)}
+                  className="rounded-lg overflow-hidden bg-white/5 hover:bg-white/10 cursor-grab active:cursor-grabbing"
+                  title={[asset.name, asset.prompt].filter(Boolean).join('\n')}
+                >
+                  <div className="relative aspect-video bg-black/30 flex items-center justify-center">
+                    {asset.type === 'image' && (
+                      <img src={asset.url} alt="" loading="lazy" className="w-full h-full object-cover" draggable={false} />
+                    )}
+                    {asset.type === 'video' && (
+                      <video src={asset.url} preload="metadata" muted className="w-full h-full object-cover pointer-events-none" />
+                    )}
+                    {asset.type === 'audio' && <Music className="w-8 h-8 text-white/40" />}
+                    {asset.type === 'text' &&
+                      (asset.textPreview ? (
+                        <p className="p-2 text-[10px] leading-snug text-white/70 line-clamp-5 self-start">{asset.textPreview}</p>
+                      ) : (
+                        <FileText className="w-8 h-8 text-white/40" />
+                      ))}
+                    {unused && (
+                      <span className="absolute top-1 right-1 text-[10px] px-1 rounded bg-yellow-500/30 text-yellow-200">未使用</span>
+                    )}
+                  </div>
+                  <div className="px-2 py-1 space-y-0.5">
+                    <p className="text-white/80 text-[11px] truncate">{asset.prompt || asset.name}</p>
+                    <p className="text-white/40 text-[10px] truncate">
+                      {formatDate(asset.createdAt)} · {formatSize(asset.size)}
+                      {asset.model ? ` · ${asset.model}` : ''}
+                    </p>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+      <p className="px-3 py-1.5 border-t border-white/10 text-white/40 text-[11px]">
+        共 {filtered.length} / {assets.length} 个素材，拖到画布即可创建节点
+      </p>
+    </div>
+  );
+};
+
+export default AssetBrowserPanel;
@@ -1,7 +1,10 @@
-import React, { useState, useRef, useCallback, useEffect } from 'react';
+import React, { useState, useRef, useCallback, useEffect, useMemo } from 'react';
 import { Play } from 'lucide-react';
 import { useAI } from '../../hooks/useAI';
 import { getAudioPrice } from '../../utils/priceCalc';
+import { renderPromptTemplate, type TemplateVariable } from '../../utils/promptTemplate';
+import PromptTemplateField from './PromptTemplateField';
+import { FanOutToggle } from './FanOutGallery';
 
 // 音频模型选项
 const audioModelOptions = [
@@ -29,6 +32,20 @@ interface AudioInputPanelProps {
   onStart?: () => void;
   onErrorTask?: (message: string) => void;
   onTextChange: (value: string) => void;
+  /** 文本/歌词模板（{{变量}} 引用上游节点，启用时运行前解析为文本，全能写歌模型解析为歌词） */
+  promptTemplate?: string;
+  /** 当前节点可用的模板变量 */
+  templateVariables?: TemplateVariable[];
+  onPromptTemplateChange?: (value: string) => void;
+  /** 逐段批量：上游文本拆分的分段数量（0 表示未连接，不显示开关） */
+  fanOutSegmentCount?: number;
+  fanOutEnabled?: boolean;
+  /** 连接循环节点时逐项运行不可关闭 */
+  fanOutLocked?: boolean;
+  /** 逐段批量是否有段仍在运行 */
+  fanOutRunning?: boolean;
+  onFanOutToggle?: (enabled: boolean) => void;
+  onFanOutRun?: () => void;
   onModelChange?: (value: string) => void;
   onVoiceIdChange: (value: string) => void;
   onSpeedChange: (value: number) => void;
@@ -92,6 +109,15 @@ const AudioInputPanel: React.FC<AudioInputPanelProps> = ({
   onStart,
   onErrorTask,
   onTextChange,
+  promptTemplate = '',
+  templateVariables = [],
+  onPromptTemplateChange,
+  fanOutSegmentCount = 0,
+  fanOutEnabled = false,
+  fanOutLocked = false,
+  fanOutRunning = false,
+  onFanOutToggle,
+  onFanOutRun,
   onModelChange,
   onVoiceIdChange,
   onSpeedChange,
@@ -169,27 +195,49 @@ const AudioInputPanel: React.FC<AudioInputPanelProps> = ({
     },
   });
 
+  // 文本/歌词模板：启用时以解析结果替代文本（全能写歌为歌词）
+  const renderedTemplate = useMemo(
+    () => (promptTemplate.trim() ? renderPromptTemplate(promptTemplate, templateVariables) : null),
+    [promptTemplate, templateVariables]
+  );
+  const effectiveText = renderedTemplate && !isRhartSong ? renderedTemplate.text : text;
+  const effectiveLyrics = renderedTemplate && isRhartSong ? renderedTemplate.text : lyrics;
+  const templateError = renderedTemplate?.missing.length ? `未找到模板变量：${renderedTemplate.missing.join('、')}` : null;
+  const isFanOutMode = fanOutEnabled && fanOutSegmentCount > 0;
+
   // 执行音频生成
   const handleExecute = useCallback(async () => {
+    // 逐段批量：交由 Workspace 对每个分段各运行一次
+    if (isFanOutMode) {
+      onFanOutRun?.();
+      return;
+    }
+    if (templateError) return;
     if (isRhartSong) {
-      if (!(songName ?? '').trim() || !(styleDesc ?? '').trim() || !(lyrics ?? '').trim()) return;
-    } else if (!text.trim()) {
+      if (!(songName ?? '').trim() || !(styleDesc ?? '').trim() || !(effectiveLyrics ?? '').trim()) return;
+    } else if (!effectiveText.trim()) {
       return;
     }
 
+    // 模板解析结果写回文本/歌词，任务记录保存实际使用的内容
+    if (renderedTemplate) {
+      if (isRhartSong) onLyricsChange?.(effectiveLyrics);
+      else onTextChange(effectiveText);
+    }
+
     onStart?.();
 
     try {
       const requestParams: any = {
         model,
-        text: (text || '').trim(),
+        text: (effectiveText || '').trim(),
         enable_base64_output: false,
         english_normalization: false,
       };
       if (isRhartSong) {
         requestParams.songName = (songName ?? '').trim();
         requestParams.styleDesc = (styleDesc ?? '').trim();
-        requestParams.lyrics = (lyrics ?? '').trim();
+        requestParams.lyrics = (effectiveLyrics ?? '').trim();
       } else if (isIndexTts2) {
         let refUrl = (referenceAudioUrl || '').trim();
         if (refUrl.startsWith('local-resource://') || refUrl.startsWith('file://')) {
@@ -208,13 +256,14 @@ const AudioInputPanel: React.FC<AudioInputPanelProps> = ({
     } catch (error) {
       console.error('音频生成失败:', error);
     }
-  }, [text, model, isIndexTts2, isRhartSong, songName, styleDesc, lyrics, referenceAudioUrl, voiceId, speed, volume, pitch, emotion, executeAI, onStart, projectId]);
+  }, [isFanOutMode, onFanOutRun, effectiveText, effectiveLyrics, templateError, renderedTemplate, onTextChange, onLyricsChange, model, isIndexTts2, isRhartSong, songName, styleDesc, referenceAudioUrl, voiceId, speed, volume, pitch, emotion, executeAI, onStart, projectId]);
 
-  const isRunDisabled =
+  const isRunDisabled = isFanOutMode ? fanOutRunning :
     aiStatus === 'PROCESSING' ||
+    !!templateError ||
     (isRhartSong
-      ? !(songName ?? '').trim() || !(styleDesc ?? '').trim() || !(lyrics ?? '').trim()
-      : !text.trim() || (isIndexTts2 && !(referenceAudioUrl || '').trim()));
+      ? !(songName ?? '').trim() || !(styleDesc ?? '').trim() || !(effectiveLyrics ?? '').trim()
+      : !effectiveText.trim() || (isIndexTts2 && !(referenceAudioUrl || '').trim()));
 
   return (
     <div 
@@ -331,6 +380,9 @@ const AudioInputPanel: React.FC<AudioInputPanelProps> = ({
               </span>
             );
           })()}
+          {fanOutSegmentCount > 0 && onFanOutToggle && (
+            <FanOutToggle segmentCount={fanOutSegmentCount} enabled={fanOutEnabled} locked={fanOutLocked} isDarkMode={isDarkMode} onChange={onFanOutToggle} />
+          )}
           <button
             onClick={handleExecute}
             disabled={isRunDisabled}
@@ -341,7 +393,7 @@ const AudioInputPanel: React.FC<AudioInputPanelProps> = ({
                   ? 'bg-green-500 text-white'
                   : 'bg-green-500 text-white hover:bg-green-600 shadow-md shadow-green-500/30'
             }`}
-            title="生成音频"
+            title={templateError || '生成音频'}
           >
             {aiStatus === 'PROCESSING' ? (
               <>
@@ -358,6 +410,17 @@ const AudioInputPanel: React.FC<AudioInputPanelProps> = ({
         </div>
       </div>
 
+      {onPromptTemplateChange && (
+        <div className="mb-3 flex-shrink-0">
+          <PromptTemplateField
+            template={promptTemplate}
+            variables={templateVariables}
+            isDarkMode={isDarkMode}
+            onChange={onPromptTemplateChange}
+          />
+        </div>
+      )}
+
       {/* 主要内容区域 - 左右分栏布局 */}
       <div className="flex-1 min-h-0 flex gap-4 overflow-hidden">
         {/* 左侧：文本内容 或 全能写歌（左：歌曲名+风格描述，右：歌词） */}
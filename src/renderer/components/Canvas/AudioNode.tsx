@@ -1,8 +1,12 @@
 import React, { useState, useRef, useEffect, useCallback, memo, useMemo } from 'react';
 import { Handle, Position, NodeProps, useReactFlow, useUpdateNodeInternals, useStoreApi, useStore } from 'reactflow';
-import { Loader2, Mic, Play, Pause, Volume2, Upload } from 'lucide-react';
+import { Ban, Loader2, Mic, Play, Pause, Volume2, Upload } from 'lucide-react';
 import { normalizeVideoUrl } from '../../utils/normalizeVideoUrl';
 import { ModuleProgressBar } from './ModuleProgressBar';
+import ErrorActionHint from './ErrorActionHint';
+import type { AIErrorCode } from '../../hooks/useAI';
+import type { FanOutItem } from '../../utils/fanOut';
+import { FanOutGallery } from './FanOutGallery';
 
 interface AudioNodeData {
   width?: number;
@@ -11,17 +15,25 @@ interface AudioNodeData {
   originalAudioUrl?: string; // 原始远程 URL（备用）
   title?: string;
   errorMessage?: string;
+  errorCode?: AIErrorCode; // 错误分类（决定错误区展示的操作提示）
+  cancelled?: boolean; // 任务已被用户取消
+  queuePosition?: number; // 调度排队位置（排队等待时显示）
   text?: string;
   aiStatus?: 'idle' | 'START' | 'PROCESSING' | 'SUCCESS' | 'ERROR';
   progress?: number; // 生成进度 0-100
   referenceAudioUrl?: string; // Index-TTS2 参考音：URL 或 local-resource://
   model?: string; // 如 'rhart-song' 全能写歌
   songName?: string; // 全能写歌时生成的歌曲名，用于在播放器上方显示
+  fanOutItems?: FanOutItem[]; // 逐段批量的每段结果
 }
 
 interface AudioNodeProps extends NodeProps<AudioNodeData> {
   isDarkMode?: boolean;
   performanceMode?: boolean;
+  /** 错误提示中「前往设置」的回调（保存项目后跳转设置页） */
+  onOpenSettings?: () => void;
+  /** 逐段批量：重新运行失败的单段 */
+  onFanOutRetry?: (nodeId: string, index: number) => void;
 }
 
 // 与视频一致：统一使用 normalizeVideoUrl，得到 local-resource://C:/path 格式，避免二次编码和 404
@@ -369,6 +381,8 @@ const AudioNodeComponent: React.FC<AudioNodeProps> = (props) => {
     isDarkMode = true,
     performanceMode = false,
     onDataChange,
+    onOpenSettings,
+    onFanOutRetry,
     // React Flow 专有属性，不应传递给 DOM（显式解构以过滤）
     xPos = 0,
     yPos = 0,
@@ -667,6 +681,7 @@ const AudioNodeComponent: React.FC<AudioNodeProps> = (props) => {
           visible={aiStatus === 'START' || aiStatus === 'PROCESSING' || (typeof data?.progress === 'number' && data.progress > 0)}
           progress={data?.progress ?? 0}
           borderRadius={16}
+          label={data?.queuePosition ? `排队中 #${data.queuePosition}` : undefined}
           onFadeComplete={() => updateNodeData({ progress: 0 })}
         />
 
@@ -706,6 +721,14 @@ const AudioNodeComponent: React.FC<AudioNodeProps> = (props) => {
               setOutputAudio={setOutputAudio}
               updateNodeData={updateNodeData}
             />
+          ) : data?.cancelled && aiStatus !== 'START' && aiStatus !== 'PROCESSING' ? (
+            // 已取消状态：与失败区分显示
+            <div className="flex flex-col items-center justify-center gap-2 p-4">
+              <Ban className={`w-6 h-6 ${isDarkMode ? 'text-white/40' : 'text-gray-400'}`} />
+              <p className={`text-sm font-semibold text-center ${isDarkMode ? 'text-white/60' : 'text-gray-500'}`}>
+                已取消
+              </p>
+            </div>
           ) : aiStatus === 'ERROR' || errorMessage ? (
             // 错误状态：显示错误信息
             <div className="flex flex-col items-center justify-center gap-3 p-4">
@@ -718,6 +741,7 @@ const AudioNodeComponent: React.FC<AudioNodeProps> = (props) => {
               <p className={`text-xs text-center line-clamp-3 ${isDarkMode ? 'text-white/60' : 'text-gray-600'}`}>
                 {errorMessage || '音频生成失败，请稍后重试'}
               </p>
+              <ErrorActionHint errorCode={data?.errorCode} isDarkMode={isDarkMode} onOpenSettings={onOpenSettings} />
             </div>
           ) : aiStatus === 'START' || aiStatus === 'PROCESSING' ? (
             // 生成中状态：显示 Loading 动画
@@ -855,6 +879,9 @@ const AudioNodeComponent: React.FC<AudioNodeProps> = (props) => {
             isDarkMode ? 'border-white/40' : 'border-gray-400/60'
           }`} />
         </div>
+        {data?.fanOutItems && data.fanOutItems.length > 0 && (
+          <FanOutGallery nodeId={id} nodeType="audio" items={data.fanOutItems} isDarkMode={isDarkMode} onRetry={onFanOutRetry} />
+        )}
         </>
         )}
       </div>
@@ -0,0 +1,196 @@
+import React, { useState, useCallback, useEffect } from 'react';
+import { Handle, Position, NodeProps, useReactFlow, useStore, useUpdateNodeInternals } from 'reactflow';
+import { Plus, X } from 'lucide-react';
+import {
+  CONDITION_DEFAULT_BRANCH,
+  evaluateCondition,
+  getConditionBranchHandle,
+  getConditionInputText,
+  getRegexError,
+  type ConditionBranch,
+  type ConditionMode,
+} from '../../utils/controlFlow';
+
+const MAX_BRANCHES = 8;
+const MIN_WIDTH = 300;
+
+export interface ConditionNodeData {
+  mode?: ConditionMode;
+  branches?: ConditionBranch[];
+  /** 计算得到的输入文本与命中分支（供下游与工作流执行读取） */
+  inputText?: string;
+  matchedBranch?: string;
+  width?: number;
+  title?: string;
+}
+
+interface ConditionNodeProps extends NodeProps<ConditionNodeData> {
+  isDarkMode?: boolean;
+  onCleanupEdgesForHandles?: (nodeId: string, keepSourceHandles: string[]) => void;
+}
+
+const MODE_HINTS: Record<ConditionMode, string> = {
+  regex: '正则表达式，不区分大小写',
+  keyword: '关键词，逗号或 | 分隔，包含任一即命中',
+  llm: '上游 LLM 输出类别名，与分支名称一致即命中',
+};
+
+/**
+ * 条件分支节点：按正则 / 关键词 / LLM 分类结果把输入文本路由到命中的分支，其余分支下游在批量运行中跳过
+ */
+export const ConditionNode: React.FC<ConditionNodeProps> = ({ id, data, selected, isDarkMode = true, onCleanupEdgesForHandles }) => {
+  const { setNodes } = useReactFlow();
+  const updateNodeInternals = useUpdateNodeInternals();
+  const [isHovered, setIsHovered] = useState(false);
+  const mode: ConditionMode = data?.mode ?? 'keyword';
+  const branches = data?.branches ?? [];
+
+  const inputText = useStore((s) => getConditionInputText(id, s.getNodes(), s.edges));
+  const matchedBranch = evaluateCondition(mode, branches, inputText);
+
+  const updateNodeData = useCallback(
+    (updates: Partial<ConditionNodeData>) => {
+      setNodes((nds) => nds.map((n) => (n.id === id ? { ...n, data: { ...n.data, ...updates } } : n)));
+    },
+    [id, setNodes]
+  );
+
+  // 输入与命中分支写回 data，下游取文本与工作流执行直接读取
+  useEffect(() => {
+    if (data?.inputText === inputText && data?.matchedBranch === matchedBranch) return;
+    updateNodeData({ inputText, matchedBranch });
+  }, [inputText, matchedBranch, updateNodeData]);
+
+  // 分支增删后输出把手位置变化
+  useEffect(() => {
+    updateNodeInternals(id);
+  }, [branches.length, id, updateNodeInternals]);
+
+  const updateBranch = useCallback((branchId: string, updates: Partial<ConditionBranch>) => {
+    updateNodeData({ branches: branches.map((b) => (b.id === branchId ? { ...b, ...updates } : b)) });
+  }, [branches, updateNodeData]);
+
+  const addBranch = useCallback(() => {
+    if (branches.length >= MAX_BRANCHES) return;
+    updateNodeData({ branches: [...branches, { id: `b${Date.now()}`, label: `分支${branches.length + 1}`, pattern: '' }] });
+  }, [branches, updateNodeData]);
+
+  // 删除分支时一并删除从该分支连出的线
+  const removeBranch = useCallback((branchId: string) => {
+    const remaining = branches.filter((b) => b.id !== branchId);
+    updateNodeData({ branches: remaining });
+    onCleanupEdgesForHandles?.(id, [...remaining.map((b) => b.id), CONDITION_DEFAULT_BRANCH].map(getConditionBranchHandle));
+  }, [branches, id, updateNodeData, onCleanupEdgesForHandles]);
+
+  const width = data?.width ?? MIN_WIDTH;
+  const handleVisibility = (selected || isHovered) ? 'opacity-100' : 'opacity-0 pointer-events-none';
+  const inputClass = isDarkMode
+    ? 'bg-white/10 border-white/20 text-white placeholder:text-white/50'
+    : 'bg-white border-gray-300 text-gray-900';
+  const rowClass = (branchId: string) =>
+    `relative flex items-center gap-1 rounded px-1 py-0.5 pr-4 ${
+      matchedBranch === branchId ? (isDarkMode ? 'bg-green-500/20' : 'bg-green-100') : ''
+    }`;
+  const renderHandle = (branchId: string) => (
+    <Handle
+      type="source"
+      position={Position.Right}
+      id={getConditionBranchHandle(branchId)}
+      className={`w-3 h-3 !-right-2 bg-green-500 border-2 ${isDarkMode ? 'border-[#1C1C1E]' : 'border-[#FEFCF8]'} ${handleVisibility}`}
+    />
+  );
+
+  return (
+    <div
+      className={`rounded-lg border-2 relative ${
+        isDarkMode ? 'bg-[#1C1C1E] border-white/20' : 'bg-gray-50 border-gray-300'
+      } ${selected && isDarkMode ? 'ring-2 ring-green-400/80 border-green-400/70' : ''}`}
+      style={{ width, minWidth: MIN_WIDTH }}
+      onMouseEnter={() => setIsHovered(true)}
+      onMouseLeave={() => setIsHovered(false)}
+    >
+      <Handle type="target" position={Position.Left} id="input" className={`w-3 h-3 !left-0 bg-green-500 border-2 ${isDarkMode ? 'border-[#1C1C1E]' : 'border-[#FEFCF8]'} ${handleVisibility}`} />
+
+      {/* 框体外左上角小标题 */}
+      <div className="title-area absolute -top-7 left-0 z-10">
+        <span className={`font-bold text-xs select-none ${isDarkMode ? 'text-white/80' : 'text-gray-900'}`}>
+          condition
+        </span>
+      </div>
+
+      <div className="p-2 space-y-1.5 nodrag" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center gap-2">
+          <label className={`text-xs shrink-0 ${isDarkMode ? 'text-white' : 'text-gray-700'}`}>匹配方式</label>
+          <select
+            value={mode}
+            onChange={(e) => updateNodeData({ mode: e.target.value as ConditionMode })}
+            className={`flex-1 text-xs rounded px-1.5 py-1 border ${inputClass}`}
+            title={MODE_HINTS[mode]}
+          >
+            <option value="keyword">关键词</option>
+            <option value="regex">正则</option>
+            <option value="llm">LLM 分类</option>
+          </select>
+        </div>
+
+        <div
+          className={`text-[11px] truncate rounded px-1.5 py-1 ${isDarkMode ? 'bg-black/30 text-white/70' : 'bg-gray-100 text-gray-600'}`}
+          title={inputText}
+        >
+          输入：{inputText || '（等待上游输入）'}
+        </div>
+
+        <div className="space-y-1">
+          {branches.map((branch) => {
+            const regexError = mode === 'regex' ? getRegexError(branch.pattern) : null;
+            return (
+              <div key={branch.id} className={rowClass(branch.id)}>
+                <input
+                  type="text"
+                  value={branch.label}
+                  onChange={(e) => updateBranch(branch.id, { label: e.target.value })}
+                  placeholder={mode === 'llm' ? '类别名' : '分支名'}
+                  className={`min-w-0 text-xs rounded px-1.5 py-1 border ${mode === 'llm' ? 'flex-1' : 'w-20'} ${inputClass}`}
+                />
+                {mode !== 'llm' && (
+                  <input
+                    type="text"
+                    value={branch.pattern}
+                    onChange={(e) => updateBranch(branch.id, { pattern: e.target.value })}
+                    placeholder={mode === 'regex' ? '正则' : '关键词'}
+                    title={regexError ?? MODE_HINTS[mode]}
+                    className={`flex-1 min-w-0 text-xs rounded px-1.5 py-1 border ${regexError ? '!border-red-500' : ''} ${inputClass}`}
+                  />
+                )}
+                <button
+                  type="button"
+                  onClick={() => removeBranch(branch.id)}
+                  className={`shrink-0 p-0.5 rounded ${isDarkMode ? 'text-white/50 hover:text-white' : 'text-gray-400 hover:text-gray-700'}`}
+                  title="删除分支"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+                {renderHandle(branch.id)}
+              </div>
+            );
+          })}
+          <div className={rowClass(CONDITION_DEFAULT_BRANCH)}>
+            <span className={`flex-1 text-xs px-1.5 py-1 ${isDarkMode ? 'text-white/60' : 'text-gray-500'}`}>默认（均未命中）</span>
+            {renderHandle(CONDITION_DEFAULT_BRANCH)}
+          </div>
+        </div>
+
+        {branches.length < MAX_BRANCHES && (
+          <button
+            type="button"
+            onClick={addBranch}
+            className={`flex items-center gap-1 text-xs ${isDarkMode ? 'text-white/70 hover:text-white' : 'text-gray-600 hover:text-gray-900'}`}
+          >
+            <Plus className="w-3 h-3" />
+            添加分支
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,5 +1,6 @@
-import React from 'react';
-import { FileText, Image, Video, User, Volume2, Brain, SplitSquareVertical, Cuboid } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { FileText, Image, Video, User, Volume2, Brain, SplitSquareVertical, Cuboid, Repeat, GitBranch, Film, ScanLine, Crop, Library, X } from 'lucide-react';
+import { MODULE_MENU_TYPE_PREFIX, type LibraryModule } from '../../utils/groups';
 
 interface ContextMenuProps {
   x: number;
@@ -19,6 +20,11 @@ const menuItems = [
   { type: 'character', label: '角色', icon: User },
   { type: 'audio', label: '声音', icon: Volume2 },
   { type: 'cameraControl', label: '3D视角控制器', icon: Cuboid },
+  { type: 'foreach', label: '循环', icon: Repeat },
+  { type: 'condition', label: '条件分支', icon: GitBranch },
+  { type: 'sequence', label: '序列剪辑', icon: Film },
+  { type: 'frameExtract', label: '抽帧', icon: ScanLine },
+  { type: 'imageEdit', label: '图片编辑', icon: Crop },
 ];
 
 const ContextMenu: React.FC<ContextMenuProps> = ({ x, y, onClose, onSelect, allowedTypes }) => {
@@ -27,6 +33,25 @@ const ContextMenu: React.FC<ContextMenuProps> = ({ x, y, onClose, onSelect, allo
     onClose();
   };
 
+  // 模块库：仅在展示全部类型（非拖线创建）时列出
+  const showModules = !allowedTypes;
+  const [modules, setModules] = useState<LibraryModule[]>([]);
+  useEffect(() => {
+    if (!showModules || typeof window.electronAPI?.getModuleLibrary !== 'function') return;
+    let cancelled = false;
+    window.electronAPI.getModuleLibrary().then((list) => {
+      if (!cancelled) setModules(list);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [showModules]);
+
+  const handleDeleteModule = async (moduleId: string) => {
+    await window.electronAPI?.deleteLibraryModule?.(moduleId);
+    setModules((prev) => prev.filter((m) => m.id !== moduleId));
+  };
+
   const items =
     allowedTypes && allowedTypes.length > 0
       ? menuItems.filter((item) => allowedTypes.includes(item.type))
@@ -65,6 +90,33 @@ const ContextMenu: React.FC<ContextMenuProps> = ({ x, y, onClose, onSelect, allo
             </button>
           );
         })}
+        {showModules && modules.length > 0 && (
+          <>
+            <div className="my-1 border-t border-white/10" />
+            <div className="px-4 py-1 text-xs text-white/40">模块库</div>
+            <div className="max-h-48 overflow-y-auto custom-scrollbar">
+              {modules.map((module) => (
+                <div key={module.id} className="group flex items-center hover:bg-white/15 transition-colors">
+                  <button
+                    onClick={() => handleItemClick(`${MODULE_MENU_TYPE_PREFIX}${module.id}`)}
+                    className="flex-1 min-w-0 pl-4 py-2 flex items-center gap-3 text-white text-sm"
+                    title={`${module.nodes.length} 个节点`}
+                  >
+                    <Library className="w-4 h-4 shrink-0 text-white/60" />
+                    <span className="truncate">{module.name}</span>
+                  </button>
+                  <button
+                    onClick={() => handleDeleteModule(module.id)}
+                    className="px-2 py-2 text-white/40 hover:text-white opacity-0 group-hover:opacity-100 transition-opacity"
+                    title="从模块库删除"
+                  >
+                    <X className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
       </div>
     </>
   );
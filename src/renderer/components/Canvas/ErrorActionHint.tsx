@@ -0,0 +1,55 @@
+import React from 'react';
+import { Settings, Wallet, PenLine, RotateCw } from 'lucide-react';
+import type { AIErrorCode } from '../../hooks/useAI';
+
+interface ErrorActionHintProps {
+  /** 主进程下发的错误分类码；UNKNOWN 或缺省时不展示 */
+  errorCode?: AIErrorCode;
+  isDarkMode?: boolean;
+  /** 保存项目后跳转到设置页（充值 / 修改 API Key） */
+  onOpenSettings?: () => void;
+}
+
+const HINTS: Partial<Record<AIErrorCode, { text: string; action?: string; icon: typeof Settings }>> = {
+  INSUFFICIENT_BALANCE: { text: '账户余额不足', action: '前往设置充值', icon: Wallet },
+  AUTH: { text: 'API Key 未配置或无效', action: '前往设置修改 API Key', icon: Settings },
+  CONTENT_POLICY: { text: '内容可能触发了审核，请修改提示词或素材后重试', icon: PenLine },
+  RETRYABLE: { text: '网络波动或服务繁忙，请稍后重试', icon: RotateCw },
+};
+
+/**
+ * 节点错误区的操作提示：根据错误分类给出充值、修改 Key、修改提示词等建议
+ */
+const ErrorActionHint: React.FC<ErrorActionHintProps> = ({ errorCode, isDarkMode, onOpenSettings }) => {
+  const hint = errorCode ? HINTS[errorCode] : undefined;
+  if (!hint) return null;
+  const Icon = hint.icon;
+
+  if (hint.action && onOpenSettings) {
+    return (
+      <button
+        className={`nodrag flex items-center gap-1.5 px-3 py-1 rounded-lg text-xs transition-colors ${
+          isDarkMode ? 'bg-white/10 hover:bg-white/20 text-white/80' : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
+        }`}
+        onMouseDown={(e) => e.stopPropagation()}
+        onClick={(e) => {
+          e.stopPropagation();
+          onOpenSettings();
+        }}
+        title={hint.text}
+      >
+        <Icon className="w-3.5 h-3.5" />
+        <span>{hint.action}</span>
+      </button>
+    );
+  }
+
+  return (
+    <p className={`flex items-center gap-1.5 text-xs text-center ${isDarkMode ? 'text-white/50' : 'text-gray-500'}`}>
+      <Icon className="w-3.5 h-3.5 flex-shrink-0" />
+      <span>{hint.text}</span>
+    </p>
+  );
+};
+
+export default ErrorActionHint;
@@ -0,0 +1,119 @@
+import React, { memo } from 'react';
+import { RotateCcw, Music } from 'lucide-react';
+import { getFanOutProgress, type FanOutItem } from '../../utils/fanOut';
+
+interface FanOutGalleryProps {
+  nodeId: string;
+  nodeType: 'image' | 'video' | 'audio';
+  items: FanOutItem[];
+  isDarkMode: boolean;
+  /** 重新运行单段（仅失败/取消的段显示重试） */
+  onRetry?: (nodeId: string, index: number) => void;
+}
+
+const CIRCLE_NUMS = ['①', '②', '③', '④', '⑤', '⑥', '⑦', '⑧', '⑨', '⑩', '⑪', '⑫', '⑬', '⑭', '⑮', '⑯', '⑰', '⑱', '⑲', '⑳'];
+
+/**
+ * 逐段批量结果画廊：显示在节点下方，含合并进度条与每段结果（失败段可单独重试）
+ */
+const FanOutGalleryComponent: React.FC<FanOutGalleryProps> = ({ nodeId, nodeType, items, isDarkMode, onRetry }) => {
+  if (items.length === 0) return null;
+
+  const progress = getFanOutProgress(items);
+  const successCount = items.filter((item) => item.status === 'success').length;
+  const failedCount = items.filter((item) => item.status === 'error' || item.status === 'cancelled').length;
+  const isRunning = items.some((item) => item.status === 'pending' || item.status === 'running');
+
+  return (
+    <div
+      className={`nodrag nowheel absolute left-0 top-full mt-2 w-full rounded-xl border p-2 space-y-2 ${
+        isDarkMode ? 'bg-[#1C1C1E]/95 border-white/15' : 'bg-white/95 border-gray-200'
+      }`}
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className={`flex items-center justify-between text-xs ${isDarkMode ? 'text-white/80' : 'text-gray-700'}`}>
+        <span>逐段批量 {successCount}/{items.length}</span>
+        {failedCount > 0 && <span className="text-red-400">失败 {failedCount}</span>}
+        {isRunning && <span>{progress}%</span>}
+      </div>
+      <div className={`h-1 rounded-full overflow-hidden ${isDarkMode ? 'bg-white/10' : 'bg-gray-200'}`}>
+        <div
+          className={`h-full transition-all duration-300 ${failedCount > 0 && !isRunning ? 'bg-amber-500' : 'bg-blue-500'}`}
+          style={{ width: `${progress}%` }}
+        />
+      </div>
+      <div className="grid grid-cols-4 gap-1.5 max-h-64 overflow-y-auto custom-scrollbar">
+        {items.map((item) => (
+          <div
+            key={item.index}
+            className={`relative aspect-square rounded-lg overflow-hidden border ${
+              isDarkMode ? 'border-white/10 bg-black/40' : 'border-gray-200 bg-gray-100'
+            }`}
+            title={item.error ? `${item.prompt}\n${item.error}` : item.prompt}
+          >
+            {item.status === 'success' && item.url ? (
+              nodeType === 'image' ? (
+                <img src={item.url} alt={item.prompt} className="w-full h-full object-cover" draggable={false} />
+              ) : nodeType === 'video' ? (
+                <video src={item.url} className="w-full h-full object-cover" muted preload="metadata" />
+              ) : (
+                <div className="w-full h-full flex items-center justify-center">
+                  <Music className={`w-5 h-5 ${isDarkMode ? 'text-white/60' : 'text-gray-500'}`} />
+                </div>
+              )
+            ) : (
+              <div className={`w-full h-full flex flex-col items-center justify-center gap-1 text-[10px] ${
+                item.status === 'error' ? 'text-red-400' : isDarkMode ? 'text-white/50' : 'text-gray-500'
+              }`}>
+                {item.status === 'running' && <span>{item.progress ? `${Math.round(item.progress)}%` : '生成中'}</span>}
+                {item.status === 'pending' && <span>等待中</span>}
+                {item.status === 'error' && <span>失败</span>}
+                {item.status === 'cancelled' && <span>已取消</span>}
+                {(item.status === 'error' || item.status === 'cancelled') && onRetry && (
+                  <button
+                    type="button"
+                    onClick={() => onRetry(nodeId, item.index)}
+                    className={`flex items-center gap-0.5 px-1.5 py-0.5 rounded ${
+                      isDarkMode ? 'bg-white/10 text-white/80 hover:bg-white/20' : 'bg-white text-gray-700 hover:bg-gray-50'
+                    }`}
+                  >
+                    <RotateCcw className="w-3 h-3" />
+                    重试
+                  </button>
+                )}
+              </div>
+            )}
+            <span className="absolute top-0.5 left-1 text-[10px] text-white drop-shadow">
+              {CIRCLE_NUMS[item.index] ?? item.index + 1}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export const FanOutGallery = memo(FanOutGalleryComponent);
+
+interface FanOutToggleProps {
+  /** 上游文本拆分的分段数量 */
+  segmentCount: number;
+  enabled: boolean;
+  /** 来自循环节点时固定开启 */
+  locked?: boolean;
+  isDarkMode: boolean;
+  onChange: (enabled: boolean) => void;
+}
+
+/**
+ * 输入面板中的「逐段批量」开关（仅连接了文本拆分 / 循环节点时显示）
+ */
+export const FanOutToggle: React.FC<FanOutToggleProps> = ({ segmentCount, enabled, locked = false, isDarkMode, onChange }) => (
+  <label
+    className={`flex items-center gap-1 text-xs select-none ${locked ? 'cursor-default' : 'cursor-pointer'} ${isDarkMode ? 'text-white/80' : 'text-gray-700'}`}
+    title={locked ? '已连接循环节点，对列表中的每一项各生成一次' : '对上游文本拆分的每一段各生成一次，结果显示在节点下方'}
+  >
+    <input type="checkbox" checked={enabled} disabled={locked} onChange={(e) => onChange(e.target.checked)} className="accent-blue-500" />
+    逐段批量（{segmentCount} 段）
+  </label>
+);
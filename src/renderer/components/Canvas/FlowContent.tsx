@@ -23,9 +23,12 @@ import ReactFlow, {
 import { Maximize2 } from 'lucide-react';
 import ContextMenu from './ContextMenu';
 import BatchRunButton from './BatchRunButton';
+import NodeRunMenu from './NodeRunMenu';
 import { getAllowedMenuTypes, isConnectionAllowed } from '../../utils/connectionRules';
 import { ErrorBoundary } from '../ErrorBoundary';
 import { getNodePrice } from '../../utils/priceCalc';
+import { isRunnableNodeType, GraphRunMode } from '../../utils/graphExecutor';
+import { applyGroupDisplay, isGroupNode, resolveGroupConnection, type GroupNodeData } from '../../utils/groups';
 import AnimatedGradientEdge from './AnimatedGradientEdge';
 import 'reactflow/dist/style.css';
 
@@ -294,7 +297,11 @@ interface FlowContentProps {
   selectedNode: Node | null;
   onPaneMouseDown?: (event: React.MouseEvent) => void;
   onBatchRun?: (nodeIds: string[]) => void; // 批量运行回调
+  onGraphRun?: (mode: GraphRunMode, anchorIds: string[]) => void; // 按依赖运行：从此处 / 到此处 / 全部
   batchRunInProgress?: boolean; // 批量运行中，用于禁用按钮并显示绿色
+  runningNodeIds?: Set<string>; // 有运行中任务的节点 ID（用于右键菜单显示「停止此节点」）
+  onCancelNodeRun?: (nodeId: string) => void; // 取消单个节点的运行中任务
+  onStopGraphRun?: () => void; // 停止当前工作流运行
   characterListCollapsed?: boolean; // 角色列表是否收起
   setNodes?: (nodes: Node[] | ((nodes: Node[]) => Node[])) => void; // 用于复制粘贴
   setEdges?: (edges: Edge[] | ((edges: Edge[]) => Edge[])) => void; // 用于复制粘贴
@@ -304,6 +311,7 @@ interface FlowContentProps {
     getLastMousePosition: () => { x: number; y: number };
   } | null>;
   onPerformanceModeChange?: (enabled: boolean) => void;
+  onGroupNodes?: (nodeIds: string[]) => void; // 选中节点成组（Ctrl+G / 节点右键菜单）
 }
 
 const FlowContent: React.FC<FlowContentProps> = (props) => {
@@ -332,12 +340,17 @@ const FlowContent: React.FC<FlowContentProps> = (props) => {
     selectedNode,
     onPaneMouseDown: externalOnPaneMouseDown,
     onBatchRun,
+    onGraphRun,
     batchRunInProgress = false,
+    runningNodeIds,
+    onCancelNodeRun,
+    onStopGraphRun,
     characterListCollapsed = true, // 默认收起
     setNodes: externalSetNodes,
     setEdges: externalSetEdges,
     flowContentApiRef,
     onPerformanceModeChange,
+    onGroupNodes,
   } = props || ({} as FlowContentProps);
   const { screenToFlowPosition, flowToScreenPosition, getNodes, fitView, setViewport, getViewport, setCenter, setNodes: reactFlowSetNodes, setEdges: reactFlowSetEdges } = useReactFlow();
   const viewportWidth = useStore((s) => s.width ?? 800);
@@ -521,22 +534,26 @@ const FlowContent: React.FC<FlowContentProps> = (props) => {
     animatedGradient: AnimatedGradientEdge,
   }), []);
 
+  // 分组显示：折叠分组隐藏成员、跨边界连线改接到分组端口；仅用于渲染，nodes/edges 保持真实连线
+  const displayGraph = useMemo(() => applyGroupDisplay(nodes, edges), [nodes, edges]);
+
   const renderedEdges = useMemo(
     () =>
-      edges.map((edge) => ({
+      displayGraph.edges.map((edge) => ({
         ...edge,
         // 强制统一使用 SVG 渐变流光边，确保历史边（type=default）也有动画
         type: 'animatedGradient',
         className: edge.className ? `${edge.className} rf-edge-gradient` : 'rf-edge-gradient',
       })),
-    [edges]
+    [displayGraph.edges]
   );
 
   // 拖线时：将连接线终点转为 flow 坐标，找到所在节点，不兼容则加红框（class + 内联样式保证可见）
   const renderedNodes = useMemo(() => {
-    if (!connectionNodeId || !connectionPosition || !nodes.length) return nodes;
-    const sourceNode = nodes.find((n) => n.id === connectionNodeId);
-    if (!sourceNode) return nodes;
+    const displayNodes = displayGraph.nodes;
+    if (!connectionNodeId || !connectionPosition || !displayNodes.length) return displayNodes;
+    const sourceNode = displayNodes.find((n) => n.id === connectionNodeId);
+    if (!sourceNode) return displayNodes;
     // connectionPosition 可能为容器坐标，统一转为 flow 坐标
     const [tx, ty, tz] = transform;
     const flowX = (connectionPosition.x - tx) / tz;
@@ -548,16 +565,16 @@ const FlowContent: React.FC<FlowContentProps> = (props) => {
       const y = n.position.y;
       return flowX >= x && flowX <= x + w(n) && flowY >= y && flowY <= y + h(n);
     };
-    const atPosition = nodes.filter(contains);
+    const atPosition = displayNodes.filter((n) => !n.hidden && !isGroupNode(n) && contains(n));
     const targetNode = atPosition.length > 0 ? atPosition[atPosition.length - 1] : null;
-    if (!targetNode || targetNode.id === connectionNodeId) return nodes;
-    if (isConnectionAllowed(sourceNode.type ?? '', targetNode.type ?? '')) return nodes;
-    return nodes.map((n) =>
+    if (!targetNode || targetNode.id === connectionNodeId) return displayNodes;
+    if (isGroupNode(sourceNode) || isConnectionAllowed(sourceNode.type ?? '', targetNode.type ?? '')) return displayNodes;
+    return displayNodes.map((n) =>
       n.id === targetNode.id
         ? { ...n, className: `${n.className || ''} connection-invalid-target`.trim() }
         : n
     );
-  }, [nodes, connectionNodeId, connectionPosition, transform]);
+  }, [displayGraph.nodes, connectionNodeId, connectionPosition, transform]);
 
   const defaultEdgeOptions = useMemo(() => ({
     type: 'animatedGradient',
@@ -573,8 +590,10 @@ const FlowContent: React.FC<FlowContentProps> = (props) => {
   const isValidConnection = useCallback(
     (params: Connection | null) => {
       if (!params?.source || !params?.target) return false;
-      const sourceNode = nodes.find((n) => n.id === params!.source);
-      const targetNode = nodes.find((n) => n.id === params!.target);
+      // 折叠分组的端口连线按组内实际节点校验
+      const resolved = resolveGroupConnection(params, nodes);
+      const sourceNode = nodes.find((n) => n.id === resolved.source);
+      const targetNode = nodes.find((n) => n.id === resolved.target);
       if (!sourceNode || !targetNode) return false;
       return isConnectionAllowed(sourceNode.type ?? '', targetNode.type ?? '');
     },
@@ -585,10 +604,33 @@ const FlowContent: React.FC<FlowContentProps> = (props) => {
   const handleConnect = useCallback((params: Connection) => {
     pendingConnectRef.current = null;
     if (onConnect) {
-      onConnect(params);
+      onConnect(resolveGroupConnection(params, nodes));
       // 连接完成后，边会自动应用实线样式（通过 edgeTypes 或默认样式）
     }
-  }, [onConnect]);
+  }, [onConnect, nodes]);
+
+  // 成组：选中的非分组节点（至少两个）
+  const selectedGroupableIds = useMemo(
+    () => nodes.filter((n) => n.selected && !isGroupNode(n)).map((n) => n.id),
+    [nodes]
+  );
+  const handleGroupSelected = useCallback(() => {
+    if (!onGroupNodes || selectedGroupableIds.length < 2) return;
+    onGroupNodes(selectedGroupableIds);
+  }, [onGroupNodes, selectedGroupableIds]);
+
+  // 成组快捷键 (Ctrl+G / Cmd+G)
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.key.toLowerCase() !== 'g') return;
+      const target = event.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable) return;
+      event.preventDefault();
+      handleGroupSelected();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleGroupSelected]);
   
   // 处理画布右键点击：clientX/Y 用于菜单 fixed 定位，screenToFlowPosition 用于节点创建
   const onPaneContextMenu = useCallback(
@@ -605,6 +647,19 @@ const FlowContent: React.FC<FlowContentProps> = (props) => {
     [setContextMenu, screenToFlowPosition]
   );
 
+  // 节点右键菜单：从此处运行 / 运行到此处 / 运行全部
+  const [nodeRunMenu, setNodeRunMenu] = useState<{ x: number; y: number; nodeId: string; isRunnable: boolean } | null>(null);
+  const onNodeContextMenu = useCallback(
+    (event: React.MouseEvent, node: Node) => {
+      if (!onGraphRun) return;
+      event.preventDefault();
+      event.stopPropagation();
+      setContextMenu(null);
+      setNodeRunMenu({ x: event.clientX, y: event.clientY, nodeId: node.id, isRunnable: isRunnableNodeType(node.type) });
+    },
+    [onGraphRun, setContextMenu]
+  );
+
   const updateNodeInternals = useUpdateNodeInternals();
 
   // 从节点拖出连线开始时记录 source，并刷新 handleBounds 确保连接线起点精确
@@ -723,8 +778,13 @@ const FlowContent: React.FC<FlowContentProps> = (props) => {
           return;
         }
         
-        // 获取所有选中的节点
-        const selectedNodes = nodes.filter((node) => node.selected);
+        // 获取所有选中的节点（选中分组时连同其成员，折叠分组的成员不可见也不会被框选）
+        const selectedGroupMemberIds = new Set(
+          nodes
+            .filter((node) => node.selected && isGroupNode(node))
+            .flatMap((node) => (node.data as GroupNodeData).memberIds ?? [])
+        );
+        const selectedNodes = nodes.filter((node) => node.selected || selectedGroupMemberIds.has(node.id));
         
         if (selectedNodes.length === 0) {
           return;
@@ -804,7 +864,9 @@ const FlowContent: React.FC<FlowContentProps> = (props) => {
         }
         
         // 计算节点组的边界框和中心点
-        const bounds = getNodesBounds(copiedNodes);
+        // 展开分组的位置由成员决定，不参与边界计算
+        const nonGroupNodes = copiedNodes.filter((node) => !isGroupNode(node));
+        const bounds = getNodesBounds(nonGroupNodes.length > 0 ? nonGroupNodes : copiedNodes);
         if (!bounds) {
           console.warn('[FlowContent] 无法计算节点边界，使用默认位置');
           return;
@@ -849,6 +911,15 @@ const FlowContent: React.FC<FlowContentProps> = (props) => {
           return newNode;
         });
         
+        // 分组成员改为新节点 ID（成员未一起复制时从分组中移除）
+        newNodes.forEach((node) => {
+          if (!isGroupNode(node)) return;
+          const memberIds = ((node.data as GroupNodeData).memberIds ?? [])
+            .map((memberId) => idMap.get(memberId))
+            .filter((memberId): memberId is string => !!memberId);
+          node.data = { ...node.data, memberIds };
+        });
+
         // 生成新连线
         const newEdges = copiedEdges.map((edge) => {
           const newId = generateId('edge');
@@ -1091,6 +1162,7 @@ const FlowContent: React.FC<FlowContentProps> = (props) => {
           onConnectStart={onConnectStart}
           onConnectEnd={onConnectEnd}
           onNodeClick={onNodeClick}
+          onNodeContextMenu={onNodeContextMenu}
           onSelectionChange={onSelectionChange}
           onNodeDragStart={onNodeDragStart}
           onNodeDragStop={onNodeDragStop}
@@ -1255,6 +1327,27 @@ const FlowContent: React.FC<FlowContentProps> = (props) => {
           />
       )}
 
+      {/* 节点右键菜单：按依赖运行 */}
+      {nodeRunMenu && onGraphRun && (
+          <NodeRunMenu
+            x={nodeRunMenu.x}
+            y={nodeRunMenu.y}
+            nodeId={nodeRunMenu.nodeId}
+            isRunnable={nodeRunMenu.isRunnable}
+            isRunning={batchRunInProgress}
+            isNodeRunning={!!runningNodeIds?.has(nodeRunMenu.nodeId)}
+            onClose={() => setNodeRunMenu(null)}
+            onRun={onGraphRun}
+            onStopNode={onCancelNodeRun}
+            onStopAll={onStopGraphRun}
+            onGroupSelected={
+              onGroupNodes && selectedGroupableIds.length >= 2 && selectedGroupableIds.includes(nodeRunMenu.nodeId)
+                ? handleGroupSelected
+                : undefined
+            }
+          />
+      )}
+
       {/* 选框 */}
       {/* 使用 React Flow 内置的框选高亮，不再自绘矩形 */}
     </ErrorBoundary>
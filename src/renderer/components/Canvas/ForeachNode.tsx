@@ -0,0 +1,166 @@
+import React, { useState, useCallback, useEffect } from 'react';
+import { Handle, Position, NodeProps, useReactFlow, useStore } from 'reactflow';
+import { FolderOpen } from 'lucide-react';
+import { getForeachItems, type ForeachItemKind, type ForeachSource } from '../../utils/controlFlow';
+
+const PREVIEW_COUNT = 6;
+const MIN_WIDTH = 260;
+
+export interface ForeachNodeData {
+  source?: ForeachSource;
+  /** 未连接上游时自身输入的列表（每行一项） */
+  text?: string;
+  folderPath?: string;
+  folderImages?: string[];
+  /** 计算得到的列表（供下游逐项运行与批量运行读取） */
+  items?: string[];
+  itemKind?: ForeachItemKind;
+  width?: number;
+  title?: string;
+}
+
+interface ForeachNodeProps extends NodeProps<ForeachNodeData> {
+  isDarkMode?: boolean;
+}
+
+/**
+ * 循环节点：把列表交给下游图片 / 视频 / 声音节点逐项运行
+ * 列表来源：上游文本拆分的 segments、上游文本逐行、自身输入的文本逐行，或文件夹中的图片
+ */
+export const ForeachNode: React.FC<ForeachNodeProps> = ({ id, data, selected, isDarkMode = true }) => {
+  const { setNodes } = useReactFlow();
+  const [isHovered, setIsHovered] = useState(false);
+  const [folderError, setFolderError] = useState<string | null>(null);
+  const source: ForeachSource = data?.source ?? 'lines';
+
+  // 选择器返回序列化结果，仅在列表实际变化时重新渲染
+  const computedJson = useStore((s) => JSON.stringify(getForeachItems({ id, data } as any, s.getNodes(), s.edges)));
+  const hasUpstream = useStore((s) => s.edges.some((e) => e.target === id));
+  const computed = JSON.parse(computedJson) as ReturnType<typeof getForeachItems>;
+
+  const updateNodeData = useCallback(
+    (updates: Partial<ForeachNodeData>) => {
+      setNodes((nds) => nds.map((n) => (n.id === id ? { ...n, data: { ...n.data, ...updates } } : n)));
+    },
+    [id, setNodes]
+  );
+
+  // 列表写回 data.items，下游逐项运行与工作流执行直接读取
+  useEffect(() => {
+    if (JSON.stringify(data?.items ?? []) === JSON.stringify(computed.items) && data?.itemKind === computed.kind) return;
+    updateNodeData({ items: computed.items, itemKind: computed.kind });
+  }, [computedJson, updateNodeData]);
+
+  const handleSelectFolder = useCallback(async () => {
+    if (typeof window.electronAPI?.showOpenImageFolderDialog !== 'function') {
+      console.warn('[ForeachNode] showOpenImageFolderDialog 不可用，请确保运行在 Electron 环境');
+      return;
+    }
+    const res = await window.electronAPI.showOpenImageFolderDialog();
+    if (!res.success) {
+      setFolderError(res.error ?? null);
+      return;
+    }
+    setFolderError(res.filePaths.length === 0 ? '文件夹中没有图片' : null);
+    updateNodeData({
+      folderPath: res.folderPath,
+      folderImages: res.filePaths.map((filePath) => `local-resource://${filePath}`),
+    });
+  }, [updateNodeData]);
+
+  const width = data?.width ?? MIN_WIDTH;
+  const preview = computed.items.slice(0, PREVIEW_COUNT);
+  const inputClass = isDarkMode
+    ? 'bg-white/10 border-white/20 text-white placeholder:text-white/50'
+    : 'bg-white border-gray-300 text-gray-900';
+
+  return (
+    <div
+      className={`rounded-lg border-2 relative ${
+        isDarkMode ? 'bg-[#1C1C1E] border-white/20' : 'bg-gray-50 border-gray-300'
+      } ${selected && isDarkMode ? 'ring-2 ring-green-400/80 border-green-400/70' : ''}`}
+      style={{ width, minWidth: MIN_WIDTH }}
+      onMouseEnter={() => setIsHovered(true)}
+      onMouseLeave={() => setIsHovered(false)}
+    >
+      <Handle type="target" position={Position.Left} id="input" className={`w-3 h-3 !left-0 bg-green-500 border-2 ${isDarkMode ? 'border-[#1C1C1E]' : 'border-[#FEFCF8]'} ${(selected || isHovered) ? 'opacity-100' : 'opacity-0 pointer-events-none'}`} />
+      <Handle type="source" position={Position.Right} id="output" className={`w-3 h-3 !right-0 bg-green-500 border-2 ${isDarkMode ? 'border-[#1C1C1E]' : 'border-[#FEFCF8]'} ${(selected || isHovered) ? 'opacity-100' : 'opacity-0 pointer-events-none'}`} />
+
+      {/* 框体外左上角小标题 */}
+      <div className="title-area absolute -top-7 left-0 z-10">
+        <span className={`font-bold text-xs select-none ${isDarkMode ? 'text-white/80' : 'text-gray-900'}`}>
+          foreach
+        </span>
+      </div>
+
+      <div className="p-2 space-y-1.5 nodrag" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center gap-2">
+          <label className={`text-xs shrink-0 ${isDarkMode ? 'text-white' : 'text-gray-700'}`}>列表来源</label>
+          <select
+            value={source}
+            onChange={(e) => updateNodeData({ source: e.target.value as ForeachSource })}
+            className={`flex-1 text-xs rounded px-1.5 py-1 border ${inputClass}`}
+          >
+            <option value="lines">文本（逐行 / 文本拆分）</option>
+            <option value="folder">文件夹中的图片</option>
+          </select>
+        </div>
+
+        {source === 'folder' ? (
+          <div className="space-y-1">
+            <button
+              type="button"
+              onClick={handleSelectFolder}
+              className={`w-full flex items-center justify-center gap-1 text-xs rounded px-2 py-1.5 border ${
+                isDarkMode ? 'border-white/20 text-white/80 hover:bg-white/10' : 'border-gray-300 text-gray-700 hover:bg-gray-100'
+              }`}
+            >
+              <FolderOpen className="w-3.5 h-3.5" />
+              {data?.folderPath ? '重新选择文件夹' : '选择文件夹'}
+            </button>
+            {data?.folderPath && (
+              <div className={`text-[11px] truncate ${isDarkMode ? 'text-white/50' : 'text-gray-500'}`} title={data.folderPath}>
+                {data.folderPath}
+              </div>
+            )}
+            {folderError && <div className="text-[11px] text-red-400">{folderError}</div>}
+          </div>
+        ) : hasUpstream ? (
+          <div className={`text-[11px] ${isDarkMode ? 'text-white/50' : 'text-gray-500'}`}>使用上游输入（文本拆分取全部分段，其余按行拆分）</div>
+        ) : (
+          <textarea
+            value={data?.text ?? ''}
+            onChange={(e) => updateNodeData({ text: e.target.value })}
+            rows={4}
+            placeholder="每行一项"
+            className={`w-full custom-scrollbar resize-y text-xs rounded px-2 py-1.5 border outline-none ${inputClass}`}
+          />
+        )}
+
+        <div className={`text-xs ${isDarkMode ? 'text-white/80' : 'text-gray-700'}`}>共 {computed.items.length} 项</div>
+        {preview.length > 0 && (
+          computed.kind === 'image' ? (
+            <div className="grid grid-cols-3 gap-1">
+              {preview.map((url, i) => (
+                <img key={i} src={url} alt="" className="w-full aspect-square object-cover rounded" draggable={false} />
+              ))}
+            </div>
+          ) : (
+            <div className="space-y-0.5">
+              {preview.map((item, i) => (
+                <div key={i} className={`text-[11px] truncate ${isDarkMode ? 'text-white' : 'text-gray-800'}`} title={item}>
+                  {i + 1}. {item}
+                </div>
+              ))}
+            </div>
+          )
+        )}
+        {computed.items.length > PREVIEW_COUNT && (
+          <div className={`text-[11px] ${isDarkMode ? 'text-white/50' : 'text-gray-500'}`}>
+            +{computed.items.length - PREVIEW_COUNT} More...
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
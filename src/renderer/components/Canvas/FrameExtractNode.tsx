@@ -0,0 +1,212 @@
+import React, { useState, useCallback, useMemo } from 'react';
+import { Handle, Position, NodeProps, useReactFlow, useStore } from 'reactflow';
+import { Film, Loader2, ScanLine } from 'lucide-react';
+
+const MIN_WIDTH = 300;
+/** 可作为抽帧来源的上游节点 */
+const FRAME_SOURCE_TYPES = ['video', 'sequence'];
+/** 均匀抽帧上限（与主进程、图片节点参考图上限一致） */
+const MAX_EVEN_FRAMES = 10;
+
+export type FrameExtractMode = 'first' | 'last' | 'time' | 'even';
+
+export interface FrameExtractNodeData {
+  mode?: FrameExtractMode;
+  /** mode 为 time 时的时间点（秒） */
+  time?: number;
+  /** mode 为 even 时的帧数 */
+  count?: number;
+  /** 抽出的全部帧（连入 Image / Video 节点时全部作为参考图） */
+  outputImages?: string[];
+  /** 第一帧，兼容只读取 outputImage 的逻辑 */
+  outputImage?: string;
+  /** 各帧所在时间点（秒） */
+  frameTimes?: number[];
+  /** 本次抽帧使用的视频，与上游当前视频不同时提示重新抽帧 */
+  sourceVideo?: string;
+  errorMessage?: string;
+  width?: number;
+  title?: string;
+}
+
+interface FrameExtractNodeProps extends NodeProps<FrameExtractNodeData> {
+  isDarkMode?: boolean;
+  projectId?: string;
+  onDataChange?: (nodeId: string, updates: Partial<FrameExtractNodeData>) => void;
+}
+
+const MODE_OPTIONS: Array<{ value: FrameExtractMode; label: string }> = [
+  { value: 'last', label: '末帧' },
+  { value: 'first', label: '首帧' },
+  { value: 'time', label: '指定时间' },
+  { value: 'even', label: '均匀 N 帧' },
+];
+
+/**
+ * 抽帧节点：从上游视频 / 序列节点截取首帧、末帧、指定时间点或均匀分布的 N 帧，
+ * 作为图片输出连入 Image / Video 节点（如上一段末帧作为下一段的首帧）
+ */
+export const FrameExtractNode: React.FC<FrameExtractNodeProps> = ({ id, data, selected, isDarkMode = true, projectId, onDataChange }) => {
+  const { setNodes } = useReactFlow();
+  const [isHovered, setIsHovered] = useState(false);
+  const [extracting, setExtracting] = useState(false);
+  const mode = data?.mode ?? 'last';
+  const outputImages = data?.outputImages ?? [];
+
+  // 上游第一个已连接的视频 / 序列节点（选择器返回序列化结果，仅在来源或其成片变化时重新渲染）
+  const sourceJson = useStore((s) => {
+    const edge = s.edges.find((e) => {
+      if (e.target !== id) return false;
+      const type = s.nodeInternals.get(e.source)?.type;
+      return !!type && FRAME_SOURCE_TYPES.includes(type);
+    });
+    const node = edge ? s.nodeInternals.get(edge.source) : undefined;
+    return JSON.stringify(node ? { title: node.data?.title || node.data?.label || node.id, video: node.data?.outputVideo || '' } : null);
+  });
+  const source = useMemo(() => JSON.parse(sourceJson) as { title: string; video: string } | null, [sourceJson]);
+  const sourceTitle = source?.title ?? '';
+  const sourceVideo = source?.video ?? '';
+
+  const updateNodeData = useCallback(
+    (updates: Partial<FrameExtractNodeData>) => {
+      setNodes((nds) => nds.map((n) => (n.id === id ? { ...n, data: { ...n.data, ...updates } } : n)));
+    },
+    [id, setNodes]
+  );
+
+  const handleExtract = async () => {
+    if (extracting || !window.electronAPI?.extractVideoFrames) return;
+    if (!sourceVideo) {
+      updateNodeData({ errorMessage: sourceTitle ? `「${sourceTitle}」还没有生成视频` : '请先连接视频节点' });
+      return;
+    }
+    setExtracting(true);
+    updateNodeData({ errorMessage: undefined });
+    try {
+      const result = await window.electronAPI.extractVideoFrames(
+        sourceVideo,
+        { mode, time: data?.time, count: data?.count ?? 4 },
+        { projectId, nodeId: id, nodeTitle: data?.title }
+      );
+      if (result.success && result.frames?.length) {
+        const images = result.frames.map((frame) => frame.url);
+        const updates = { outputImages: images, outputImage: images[0], frameTimes: result.frames.map((frame) => frame.time), sourceVideo };
+        // 经 Workspace 回调写入，同步下游 Image 节点的参考图
+        if (onDataChange) onDataChange(id, updates);
+        else updateNodeData(updates);
+      } else {
+        updateNodeData({ errorMessage: result.error || '抽帧失败' });
+      }
+    } catch (error) {
+      console.error('[FrameExtractNode] 抽帧失败:', error);
+      updateNodeData({ errorMessage: error instanceof Error ? error.message : String(error) });
+    } finally {
+      setExtracting(false);
+    }
+  };
+
+  const width = data?.width ?? MIN_WIDTH;
+  const isStale = !!data?.sourceVideo && !!sourceVideo && data.sourceVideo !== sourceVideo;
+  const inputClass = isDarkMode
+    ? 'bg-white/10 border-white/20 text-white placeholder:text-white/40'
+    : 'bg-white border-gray-300 text-gray-900';
+  const mutedText = isDarkMode ? 'text-white/50' : 'text-gray-500';
+
+  return (
+    <div
+      className={`rounded-lg border-2 relative ${
+        isDarkMode ? 'bg-[#1C1C1E] border-white/20' : 'bg-gray-50 border-gray-300'
+      } ${selected && isDarkMode ? 'ring-2 ring-green-400/80 border-green-400/70' : ''}`}
+      style={{ width, minWidth: MIN_WIDTH }}
+      onMouseEnter={() => setIsHovered(true)}
+      onMouseLeave={() => setIsHovered(false)}
+    >
+      <Handle type="target" position={Position.Left} id="input" className={`w-3 h-3 !left-0 bg-green-500 border-2 ${isDarkMode ? 'border-[#1C1C1E]' : 'border-[#FEFCF8]'} ${(selected || isHovered) ? 'opacity-100' : 'opacity-0 pointer-events-none'}`} />
+      <Handle type="source" position={Position.Right} id="output" className={`w-3 h-3 !right-0 bg-green-500 border-2 ${isDarkMode ? 'border-[#1C1C1E]' : 'border-[#FEFCF8]'} ${(selected || isHovered) ? 'opacity-100' : 'opacity-0 pointer-events-none'}`} />
+
+      {/* 框体外左上角小标题 */}
+      <div className="title-area absolute -top-7 left-0 z-10">
+        <span className={`font-bold text-xs select-none ${isDarkMode ? 'text-white/80' : 'text-gray-900'}`}>
+          frameExtract
+        </span>
+      </div>
+
+      <div className="p-2 space-y-2 nodrag nowheel" onClick={(e) => e.stopPropagation()}>
+        <div className={`flex items-center gap-1 text-[11px] ${mutedText}`}>
+          <Film className="w-3.5 h-3.5 shrink-0" />
+          <span className="truncate">
+            {sourceTitle ? `来源：${sourceTitle}${sourceVideo ? '' : '（未生成）'}` : '连接视频或序列节点作为来源'}
+          </span>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <select
+            value={mode}
+            onChange={(e) => updateNodeData({ mode: e.target.value as FrameExtractMode })}
+            className={`flex-1 min-w-0 text-xs rounded px-1.5 py-1 border ${inputClass}`}
+          >
+            {MODE_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          {mode === 'time' && (
+            <label className={`flex items-center gap-1 text-[11px] ${mutedText}`}>
+              <input
+                type="number"
+                min={0}
+                step={0.1}
+                value={data?.time ?? 0}
+                onChange={(e) => updateNodeData({ time: Math.max(0, Number(e.target.value) || 0) })}
+                className={`w-16 text-[11px] rounded px-1 py-0.5 border ${inputClass}`}
+              />
+              秒
+            </label>
+          )}
+          {mode === 'even' && (
+            <label className={`flex items-center gap-1 text-[11px] ${mutedText}`}>
+              <input
+                type="number"
+                min={1}
+                max={MAX_EVEN_FRAMES}
+                step={1}
+                value={data?.count ?? 4}
+                onChange={(e) => updateNodeData({ count: Math.min(MAX_EVEN_FRAMES, Math.max(1, Math.floor(Number(e.target.value) || 1))) })}
+                className={`w-12 text-[11px] rounded px-1 py-0.5 border ${inputClass}`}
+              />
+              帧
+            </label>
+          )}
+          <button
+            type="button"
+            onClick={handleExtract}
+            disabled={extracting || !sourceTitle}
+            className="flex items-center justify-center gap-1 px-3 py-1 rounded text-xs text-white bg-green-600 hover:bg-green-500 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {extracting ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <ScanLine className="w-3.5 h-3.5" />}
+            {extracting ? '抽帧中' : '抽帧'}
+          </button>
+        </div>
+
+        {isStale && !extracting && <div className="text-[11px] text-yellow-400">上游视频已更新，重新抽帧以使用最新画面</div>}
+        {data?.errorMessage && !extracting && <div className="text-[11px] text-red-400 break-all">{data.errorMessage}</div>}
+
+        {outputImages.length > 0 && (
+          <div className={`grid gap-1 ${outputImages.length === 1 ? 'grid-cols-1' : 'grid-cols-3'}`}>
+            {outputImages.map((url, index) => (
+              <div key={url} className="relative rounded overflow-hidden bg-black/40">
+                <img src={url} alt={`frame-${index + 1}`} className="w-full h-auto object-contain pointer-events-none" />
+                {data?.frameTimes?.[index] !== undefined && (
+                  <span className="absolute bottom-0.5 right-0.5 text-[10px] px-1 rounded bg-black/60 text-white">
+                    {data.frameTimes[index].toFixed(1)}s
+                  </span>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
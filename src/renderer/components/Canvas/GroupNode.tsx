@@ -0,0 +1,178 @@
+import React, { useState, useCallback, useMemo } from 'react';
+import { Handle, Position, NodeProps, useReactFlow, useStore } from 'reactflow';
+import { Minimize2, Maximize2, Library, Ungroup, Check, X } from 'lucide-react';
+import {
+  getGroupPorts,
+  toggleGroupCollapsed,
+  GROUP_HEADER_HEIGHT,
+  type GroupNodeData,
+} from '../../utils/groups';
+
+const COLLAPSED_WIDTH = 240;
+
+interface GroupNodeProps extends NodeProps<GroupNodeData> {
+  isDarkMode?: boolean;
+  /** 保存为模块：由 Workspace 读取真实节点与连线（折叠时画布上的连线已改接到分组端口） */
+  onSaveModule?: (groupId: string, name: string) => Promise<{ success: boolean; error?: string }>;
+}
+
+/**
+ * 分组节点：展开时为包住成员的框（标题栏可折叠、保存为模块、解组），折叠时为带输入 / 输出端口的卡片
+ */
+export const GroupNode: React.FC<GroupNodeProps> = ({ id, data, selected, isDarkMode = true, onSaveModule }) => {
+  const { setNodes } = useReactFlow();
+  const [isEditingTitle, setIsEditingTitle] = useState(false);
+  const [moduleName, setModuleName] = useState<string | null>(null);
+  const [saveStatus, setSaveStatus] = useState<string | null>(null);
+  const collapsed = !!data?.collapsed;
+  const title = data?.title || 'group';
+  const memberCount = data?.memberIds?.length ?? 0;
+
+  // 折叠时才需要端口：选择器返回序列化结果，仅在端口变化时重新渲染
+  const portsJson = useStore((s) =>
+    collapsed ? JSON.stringify(getGroupPorts(id, s.getNodes(), s.edges)) : ''
+  );
+  const ports = useMemo(
+    () => (portsJson ? (JSON.parse(portsJson) as ReturnType<typeof getGroupPorts>) : { inputs: [], outputs: [] }),
+    [portsJson]
+  );
+
+  const updateTitle = useCallback((value: string) => {
+    setNodes((nds) => nds.map((n) => (n.id === id ? { ...n, data: { ...n.data, title: value } } : n)));
+  }, [id, setNodes]);
+
+  const handleToggle = useCallback(() => {
+    setNodes((nds) => toggleGroupCollapsed(nds, id));
+  }, [id, setNodes]);
+
+  // 解组：只删除分组节点，成员与连线保持不变
+  const handleUngroup = useCallback(() => {
+    setNodes((nds) => {
+      const expanded = collapsed ? toggleGroupCollapsed(nds, id) : nds;
+      return expanded.filter((n) => n.id !== id);
+    });
+  }, [id, collapsed, setNodes]);
+
+  const handleSaveModule = useCallback(async () => {
+    const name = (moduleName || '').trim();
+    if (!name || !onSaveModule) return;
+    const res = await onSaveModule(id, name);
+    setModuleName(null);
+    setSaveStatus(res.success ? '已保存到模块库' : res.error || '保存失败');
+    setTimeout(() => setSaveStatus(null), 2000);
+  }, [moduleName, id, onSaveModule]);
+
+  const mutedClass = isDarkMode ? 'text-white/60' : 'text-gray-500';
+  const iconButtonClass = `p-1 rounded ${isDarkMode ? 'text-white/70 hover:bg-white/10 hover:text-white' : 'text-gray-600 hover:bg-gray-200'}`;
+  const handleClass = `w-3 h-3 bg-green-500 border-2 ${isDarkMode ? 'border-[#1C1C1E]' : 'border-[#FEFCF8]'}`;
+
+  const header = (
+    <div
+      className="flex items-center gap-1 px-2"
+      style={{ height: GROUP_HEADER_HEIGHT, pointerEvents: 'auto' }}
+    >
+      {isEditingTitle ? (
+        <input
+          autoFocus
+          defaultValue={title}
+          onBlur={(e) => {
+            updateTitle(e.target.value.trim() || 'group');
+            setIsEditingTitle(false);
+          }}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') (e.target as HTMLInputElement).blur();
+          }}
+          className={`nodrag flex-1 min-w-0 text-xs rounded px-1.5 py-0.5 border ${
+            isDarkMode ? 'bg-white/10 border-white/20 text-white' : 'bg-white border-gray-300 text-gray-900'
+          }`}
+        />
+      ) : (
+        <span
+          className={`flex-1 min-w-0 truncate font-bold text-xs select-none ${isDarkMode ? 'text-white/80' : 'text-gray-900'}`}
+          onDoubleClick={() => setIsEditingTitle(true)}
+          title="双击重命名"
+        >
+          {title}
+          <span className={`ml-1 font-normal ${mutedClass}`}>· {memberCount} 个节点</span>
+        </span>
+      )}
+      {moduleName !== null ? (
+        <div className="nodrag flex items-center gap-0.5">
+          <input
+            autoFocus
+            value={moduleName}
+            onChange={(e) => setModuleName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleSaveModule();
+              if (e.key === 'Escape') setModuleName(null);
+            }}
+            placeholder="模块名称"
+            className={`w-24 text-xs rounded px-1.5 py-0.5 border ${
+              isDarkMode ? 'bg-white/10 border-white/20 text-white' : 'bg-white border-gray-300 text-gray-900'
+            }`}
+          />
+          <button type="button" className={iconButtonClass} onClick={handleSaveModule} title="保存">
+            <Check className="w-3.5 h-3.5" />
+          </button>
+          <button type="button" className={iconButtonClass} onClick={() => setModuleName(null)} title="取消">
+            <X className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      ) : (
+        <div className="nodrag flex items-center gap-0.5">
+          {saveStatus && <span className={`text-[11px] ${mutedClass}`}>{saveStatus}</span>}
+          <button type="button" className={iconButtonClass} onClick={() => setModuleName(title)} title="保存为模块">
+            <Library className="w-3.5 h-3.5" />
+          </button>
+          <button type="button" className={iconButtonClass} onClick={handleToggle} title={collapsed ? '展开' : '折叠'}>
+            {collapsed ? <Maximize2 className="w-3.5 h-3.5" /> : <Minimize2 className="w-3.5 h-3.5" />}
+          </button>
+          <button type="button" className={iconButtonClass} onClick={handleUngroup} title="解组">
+            <Ungroup className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+
+  if (!collapsed) {
+    return (
+      <div
+        className={`w-full h-full rounded-xl border-2 border-dashed ${
+          isDarkMode ? 'border-white/25 bg-white/[0.03]' : 'border-gray-400/60 bg-gray-500/[0.04]'
+        } ${selected ? '!border-green-400/70' : ''}`}
+      >
+        {header}
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className={`rounded-lg border-2 relative ${
+        isDarkMode ? 'bg-[#1C1C1E] border-white/20' : 'bg-gray-50 border-gray-300'
+      } ${selected && isDarkMode ? 'ring-2 ring-green-400/80 border-green-400/70' : ''}`}
+      style={{ width: COLLAPSED_WIDTH }}
+      onDoubleClick={handleToggle}
+    >
+      {header}
+      <div className="pb-2 space-y-0.5">
+        {ports.inputs.map((port) => (
+          <div key={port.handleId} className={`relative px-3 text-[11px] truncate ${mutedClass}`} title={port.label}>
+            <Handle type="target" position={Position.Left} id={port.handleId} className={`${handleClass} !-left-2`} />
+            → {port.label}
+          </div>
+        ))}
+        {ports.outputs.map((port) => (
+          <div key={port.handleId} className={`relative px-3 text-[11px] text-right truncate ${mutedClass}`} title={port.label}>
+            {port.label} →
+            <Handle type="source" position={Position.Right} id={port.handleId} className={`${handleClass} !-right-2`} />
+          </div>
+        ))}
+        {ports.inputs.length === 0 && ports.outputs.length === 0 && (
+          <div className={`px-3 text-[11px] ${mutedClass}`}>无外部连线</div>
+        )}
+      </div>
+    </div>
+  );
+};
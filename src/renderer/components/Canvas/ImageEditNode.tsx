@@ -0,0 +1,487 @@
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { Handle, Position, NodeProps, useReactFlow, useStore } from 'reactflow';
+import { FlipHorizontal, FlipVertical, Loader2, RotateCw, Save, Wand2 } from 'lucide-react';
+import { getImagesFromSource, IMAGE_SOURCE_TYPES } from '../../utils/graphExecutor';
+import {
+  describeImageEdit,
+  IMAGE_EDIT_ASPECT_RATIOS,
+  loadImage,
+  renderImageEdit,
+  type ImageEditSettings,
+  type OverlayPosition,
+} from '../../utils/imageEdit';
+
+const MIN_WIDTH = 320;
+/** 预览图最大边长（预览缩小绘制，保存时按原尺寸处理） */
+const PREVIEW_MAX_SIZE = 640;
+
+export interface ImageEditNodeData {
+  settings?: ImageEditSettings;
+  /** 保存到项目 assets 的编辑结果（下游 Image / Video 节点读取） */
+  outputImage?: string;
+  /** 保存时的输入与设置，与当前不同时提示重新保存 */
+  savedKey?: string;
+  errorMessage?: string;
+  width?: number;
+  title?: string;
+}
+
+interface ImageEditNodeProps extends NodeProps<ImageEditNodeData> {
+  isDarkMode?: boolean;
+  projectId?: string;
+  onDataChange?: (nodeId: string, updates: Partial<ImageEditNodeData>) => void;
+}
+
+const POSITION_OPTIONS: Array<{ value: OverlayPosition; label: string }> = [
+  { value: 'top-left', label: '左上' },
+  { value: 'top-right', label: '右上' },
+  { value: 'bottom-left', label: '左下' },
+  { value: 'bottom-right', label: '右下' },
+  { value: 'center', label: '居中' },
+];
+
+/** 数字输入：空字符串表示未设置 */
+const parseOptionalNumber = (value: string): number | undefined => {
+  if (value.trim() === '') return undefined;
+  const n = Number(value);
+  return Number.isFinite(n) && n >= 0 ? n : undefined;
+};
+
+/**
+ * 图片编辑节点：对上游图片做本地处理（裁剪、缩放、按比例留边/裁切、旋转翻转、亮度对比度、叠加文字/Logo、多图宫格拼接），
+ * 实时预览，保存结果到项目 assets 后作为图片输出给下游节点
+ */
+export const ImageEditNode: React.FC<ImageEditNodeProps> = ({ id, data, selected, isDarkMode = true, projectId, onDataChange }) => {
+  const { setNodes } = useReactFlow();
+  const [isHovered, setIsHovered] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [preview, setPreview] = useState<string | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const imageCacheRef = useRef<Map<string, HTMLImageElement>>(new Map());
+  const settings = useMemo(() => data?.settings ?? {}, [data?.settings]);
+
+  // 按连线顺序收集上游图片（选择器返回序列化结果，仅在上游图片变化时重新渲染）
+  const inputsJson = useStore((s) => {
+    const images: string[] = [];
+    s.edges.forEach((e) => {
+      if (e.target !== id) return;
+      const src = s.nodeInternals.get(e.source);
+      if (!src || !IMAGE_SOURCE_TYPES.includes(src.type || '')) return;
+      getImagesFromSource(src).forEach((url) => {
+        if (!images.includes(url)) images.push(url);
+      });
+    });
+    return JSON.stringify(images);
+  });
+  const inputs = useMemo(() => JSON.parse(inputsJson) as string[], [inputsJson]);
+  const currentKey = useMemo(() => JSON.stringify({ inputs, settings }), [inputs, settings]);
+
+  const updateNodeData = useCallback(
+    (updates: Partial<ImageEditNodeData>) => {
+      setNodes((nds) => nds.map((n) => (n.id === id ? { ...n, data: { ...n.data, ...updates } } : n)));
+    },
+    [id, setNodes]
+  );
+
+  const updateSettings = (updates: Partial<ImageEditSettings>) => {
+    updateNodeData({ settings: { ...settings, ...updates } });
+  };
+
+  const loadInputs = useCallback(async (): Promise<HTMLImageElement[]> => {
+    const cache = imageCacheRef.current;
+    return Promise.all(
+      inputs.map(async (url) => {
+        const cached = cache.get(url);
+        if (cached) return cached;
+        const img = await loadImage(url);
+        cache.set(url, img);
+        return img;
+      })
+    );
+  }, [inputs]);
+
+  // 预览：设置或输入变化后防抖重绘（缩小到 PREVIEW_MAX_SIZE 以内）
+  useEffect(() => {
+    if (inputs.length === 0) {
+      setPreview(null);
+      setPreviewError(null);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const images = await loadInputs();
+        const result = renderImageEdit(images, settings);
+        const scale = Math.min(1, PREVIEW_MAX_SIZE / Math.max(result.width, result.height));
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.max(1, Math.round(result.width * scale));
+        canvas.height = Math.max(1, Math.round(result.height * scale));
+        canvas.getContext('2d')?.drawImage(result, 0, 0, canvas.width, canvas.height);
+        if (!cancelled) {
+          setPreview(canvas.toDataURL('image/jpeg', 0.85));
+          setPreviewError(null);
+        }
+      } catch (error) {
+        if (!cancelled) setPreviewError(error instanceof Error ? error.message : String(error));
+      }
+    }, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [currentKey, loadInputs]);
+
+  const handleSave = async () => {
+    if (saving || inputs.length === 0 || !window.electronAPI?.saveEditedImage) return;
+    setSaving(true);
+    updateNodeData({ errorMessage: undefined });
+    try {
+      const canvas = renderImageEdit(await loadInputs(), settings);
+      const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/png'));
+      if (!blob) throw new Error('导出图片失败');
+      const result = await window.electronAPI.saveEditedImage(await blob.arrayBuffer(), {
+        projectId,
+        nodeId: id,
+        nodeTitle: data?.title,
+        operations: describeImageEdit(settings),
+      });
+      if (result.success && result.url) {
+        const updates = { outputImage: result.url, savedKey: currentKey };
+        // 经 Workspace 回调写入，同步下游 Image 节点的参考图
+        if (onDataChange) onDataChange(id, updates);
+        else updateNodeData(updates);
+      } else {
+        updateNodeData({ errorMessage: result.error || '保存失败' });
+      }
+    } catch (error) {
+      console.error('[ImageEditNode] 保存失败:', error);
+      updateNodeData({ errorMessage: error instanceof Error ? error.message : String(error) });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const width = data?.width ?? MIN_WIDTH;
+  const isStale = !!data?.outputImage && data.savedKey !== currentKey;
+  const inputClass = isDarkMode
+    ? 'bg-white/10 border-white/20 text-white placeholder:text-white/40'
+    : 'bg-white border-gray-300 text-gray-900';
+  const mutedText = isDarkMode ? 'text-white/50' : 'text-gray-500';
+  const labelText = `text-[11px] shrink-0 w-12 ${isDarkMode ? 'text-white/80' : 'text-gray-700'}`;
+  const numberInput = `w-full text-[11px] rounded px-1 py-0.5 border ${inputClass}`;
+  const toggleButton = (active: boolean) =>
+    `p-1 rounded border ${active ? 'border-green-500 text-green-400' : isDarkMode ? 'border-white/20 text-white/70 hover:bg-white/10' : 'border-gray-300 text-gray-600 hover:bg-gray-200'}`;
+  const crop = settings.crop;
+
+  return (
+    <div
+      className={`rounded-lg border-2 relative ${
+        isDarkMode ? 'bg-[#1C1C1E] border-white/20' : 'bg-gray-50 border-gray-300'
+      } ${selected && isDarkMode ? 'ring-2 ring-green-400/80 border-green-400/70' : ''}`}
+      style={{ width, minWidth: MIN_WIDTH }}
+      onMouseEnter={() => setIsHovered(true)}
+      onMouseLeave={() => setIsHovered(false)}
+    >
+      <Handle type="target" position={Position.Left} id="input" className={`w-3 h-3 !left-0 bg-green-500 border-2 ${isDarkMode ? 'border-[#1C1C1E]' : 'border-[#FEFCF8]'} ${(selected || isHovered) ? 'opacity-100' : 'opacity-0 pointer-events-none'}`} />
+      <Handle type="source" position={Position.Right} id="output" className={`w-3 h-3 !right-0 bg-green-500 border-2 ${isDarkMode ? 'border-[#1C1C1E]' : 'border-[#FEFCF8]'} ${(selected || isHovered) ? 'opacity-100' : 'opacity-0 pointer-events-none'}`} />
+
+      {/* 框体外左上角小标题 */}
+      <div className="title-area absolute -top-7 left-0 z-10">
+        <span className={`font-bold text-xs select-none ${isDarkMode ? 'text-white/80' : 'text-gray-900'}`}>
+          imageEdit
+        </span>
+      </div>
+
+      <div className="p-2 space-y-2 nodrag nowheel" onClick={(e) => e.stopPropagation()}>
+        <div className="rounded overflow-hidden bg-black/40 flex items-center justify-center min-h-[120px]">
+          {preview ? (
+            <img src={preview} alt="preview" className="w-full h-auto object-contain pointer-events-none" />
+          ) : (
+            <span className={`text-[11px] ${mutedText}`}>{previewError || '连接图片、抽帧或图片编辑节点作为输入'}</span>
+          )}
+        </div>
+
+        {inputs.length > 1 && (
+          <div className="flex items-center gap-2">
+            <span className={labelText}>多图</span>
+            <select
+              value={settings.layout ?? 'single'}
+              onChange={(e) => updateSettings({ layout: e.target.value as ImageEditSettings['layout'] })}
+              className={`flex-1 min-w-0 text-xs rounded px-1.5 py-1 border ${inputClass}`}
+            >
+              <option value="single">只编辑第一张</option>
+              <option value="grid">宫格拼接</option>
+            </select>
+            {settings.layout === 'grid' && (
+              <>
+                <input
+                  type="number"
+                  min={1}
+                  step={1}
+                  value={settings.gridColumns ?? ''}
+                  placeholder="列数"
+                  title="列数（为空时自动）"
+                  onChange={(e) => updateSettings({ gridColumns: parseOptionalNumber(e.target.value) })}
+                  className={`${numberInput} !w-14`}
+                />
+                <input
+                  type="number"
+                  min={0}
+                  step={1}
+                  value={settings.gridGap ?? ''}
+                  placeholder="间距"
+                  title="间距（像素）"
+                  onChange={(e) => updateSettings({ gridGap: parseOptionalNumber(e.target.value) })}
+                  className={`${numberInput} !w-14`}
+                />
+              </>
+            )}
+          </div>
+        )}
+
+        <div className="flex items-center gap-2">
+          <label className={labelText}>
+            <input
+              type="checkbox"
+              checked={!!crop}
+              onChange={(e) => updateSettings({ crop: e.target.checked ? { x: 0, y: 0, width: 1, height: 1 } : undefined })}
+              className="mr-1 align-middle"
+            />
+            裁剪
+          </label>
+          {crop && (
+            <div className={`grid grid-cols-4 gap-1 flex-1 text-[10px] ${mutedText}`}>
+              {(['x', 'y', 'width', 'height'] as const).map((key) => (
+                <label key={key} className="space-y-0.5">
+                  <span>{key === 'x' ? '左 %' : key === 'y' ? '上 %' : key === 'width' ? '宽 %' : '高 %'}</span>
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    step={1}
+                    value={Math.round(crop[key] * 100)}
+                    onChange={(e) => updateSettings({ crop: { ...crop, [key]: Math.min(100, Math.max(0, Number(e.target.value) || 0)) / 100 } })}
+                    className={numberInput}
+                  />
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center gap-2">
+          <span className={labelText}>变换</span>
+          <button
+            type="button"
+            className={toggleButton(!!settings.rotate)}
+            onClick={() => updateSettings({ rotate: (((settings.rotate ?? 0) + 90) % 360) as ImageEditSettings['rotate'] })}
+            title={`顺时针旋转 90°（当前 ${settings.rotate ?? 0}°）`}
+          >
+            <RotateCw className="w-3.5 h-3.5" />
+          </button>
+          <button type="button" className={toggleButton(!!settings.flipH)} onClick={() => updateSettings({ flipH: !settings.flipH })} title="水平翻转">
+            <FlipHorizontal className="w-3.5 h-3.5" />
+          </button>
+          <button type="button" className={toggleButton(!!settings.flipV)} onClick={() => updateSettings({ flipV: !settings.flipV })} title="垂直翻转">
+            <FlipVertical className="w-3.5 h-3.5" />
+          </button>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <span className={labelText}>比例</span>
+          <select
+            value={settings.aspectRatio ?? ''}
+            onChange={(e) => updateSettings({ aspectRatio: e.target.value || undefined })}
+            className={`flex-1 min-w-0 text-xs rounded px-1.5 py-1 border ${inputClass}`}
+          >
+            <option value="">原比例</option>
+            {IMAGE_EDIT_ASPECT_RATIOS.map((ratio) => (
+              <option key={ratio} value={ratio}>
+                {ratio}
+              </option>
+            ))}
+          </select>
+          {settings.aspectRatio && (
+            <select
+              value={settings.fitMode ?? 'pad'}
+              onChange={(e) => updateSettings({ fitMode: e.target.value as ImageEditSettings['fitMode'] })}
+              className={`text-xs rounded px-1.5 py-1 border ${inputClass}`}
+            >
+              <option value="pad">留边</option>
+              <option value="crop">居中裁切</option>
+            </select>
+          )}
+          <input
+            type="color"
+            value={settings.background ?? '#000000'}
+            onChange={(e) => updateSettings({ background: e.target.value })}
+            className="w-6 h-6 shrink-0 rounded cursor-pointer bg-transparent"
+            title="留边 / 宫格背景色"
+          />
+        </div>
+
+        <div className="flex items-center gap-2">
+          <span className={labelText}>缩放</span>
+          <input
+            type="number"
+            min={1}
+            step={1}
+            value={settings.resizeWidth ?? ''}
+            placeholder="宽（自动）"
+            onChange={(e) => updateSettings({ resizeWidth: parseOptionalNumber(e.target.value) })}
+            className={numberInput}
+          />
+          <span className={mutedText}>×</span>
+          <input
+            type="number"
+            min={1}
+            step={1}
+            value={settings.resizeHeight ?? ''}
+            placeholder="高（自动）"
+            onChange={(e) => updateSettings({ resizeHeight: parseOptionalNumber(e.target.value) })}
+            className={numberInput}
+          />
+        </div>
+
+        <div className={`grid grid-cols-2 gap-2 text-[10px] ${mutedText}`}>
+          <label className="space-y-0.5">
+            <span>亮度 {settings.brightness ?? 100}%</span>
+            <input
+              type="range"
+              min={0}
+              max={200}
+              step={5}
+              value={settings.brightness ?? 100}
+              onChange={(e) => updateSettings({ brightness: Number(e.target.value) })}
+              className="w-full"
+            />
+          </label>
+          <label className="space-y-0.5">
+            <span>对比度 {settings.contrast ?? 100}%</span>
+            <input
+              type="range"
+              min={0}
+              max={200}
+              step={5}
+              value={settings.contrast ?? 100}
+              onChange={(e) => updateSettings({ contrast: Number(e.target.value) })}
+              className="w-full"
+            />
+          </label>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <span className={labelText}>文字</span>
+          <input
+            type="text"
+            value={settings.overlayText ?? ''}
+            placeholder="叠加文字"
+            onChange={(e) => updateSettings({ overlayText: e.target.value || undefined })}
+            className={`flex-1 min-w-0 text-xs rounded px-1.5 py-1 border ${inputClass}`}
+          />
+          {settings.overlayText && (
+            <>
+              <input
+                type="color"
+                value={settings.overlayTextColor ?? '#ffffff'}
+                onChange={(e) => updateSettings({ overlayTextColor: e.target.value })}
+                className="w-6 h-6 shrink-0 rounded cursor-pointer bg-transparent"
+                title="文字颜色"
+              />
+              <input
+                type="number"
+                min={1}
+                max={50}
+                step={1}
+                value={settings.overlayTextSize ?? 6}
+                onChange={(e) => updateSettings({ overlayTextSize: parseOptionalNumber(e.target.value) })}
+                className={`${numberInput} !w-12`}
+                title="文字大小（短边的百分比）"
+              />
+              <select
+                value={settings.overlayTextPosition ?? 'bottom-left'}
+                onChange={(e) => updateSettings({ overlayTextPosition: e.target.value as OverlayPosition })}
+                className={`text-xs rounded px-1 py-1 border ${inputClass}`}
+              >
+                {POSITION_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </>
+          )}
+        </div>
+
+        {inputs.length > 1 && (
+          <div className="flex items-center gap-2">
+            <span className={labelText}>Logo</span>
+            <select
+              value={settings.logoIndex ?? ''}
+              onChange={(e) => updateSettings({ logoIndex: e.target.value === '' ? undefined : Number(e.target.value) })}
+              className={`flex-1 min-w-0 text-xs rounded px-1.5 py-1 border ${inputClass}`}
+            >
+              <option value="">不叠加</option>
+              {inputs.map((_, index) => (
+                <option key={index} value={index}>
+                  输入图 {index + 1}
+                </option>
+              ))}
+            </select>
+            {settings.logoIndex !== undefined && (
+              <>
+                <input
+                  type="number"
+                  min={1}
+                  max={100}
+                  step={1}
+                  value={settings.logoScale ?? 15}
+                  onChange={(e) => updateSettings({ logoScale: parseOptionalNumber(e.target.value) })}
+                  className={`${numberInput} !w-12`}
+                  title="Logo 宽度（输出宽度的百分比）"
+                />
+                <select
+                  value={settings.logoPosition ?? 'bottom-right'}
+                  onChange={(e) => updateSettings({ logoPosition: e.target.value as OverlayPosition })}
+                  className={`text-xs rounded px-1 py-1 border ${inputClass}`}
+                >
+                  {POSITION_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </>
+            )}
+          </div>
+        )}
+
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={saving || inputs.length === 0 || !!previewError}
+            className="flex items-center justify-center gap-1 px-3 py-1.5 rounded text-xs text-white bg-green-600 hover:bg-green-500 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {saving ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Save className="w-3.5 h-3.5" />}
+            {saving ? '保存中' : '保存结果'}
+          </button>
+          <button
+            type="button"
+            onClick={() => updateNodeData({ settings: {} })}
+            className={`flex items-center gap-1 px-2 py-1.5 rounded text-xs ${isDarkMode ? 'text-white/70 hover:bg-white/10' : 'text-gray-600 hover:bg-gray-200'}`}
+            title="清空所有编辑设置"
+          >
+            <Wand2 className="w-3.5 h-3.5" />
+            重置
+          </button>
+          <span className={`text-[11px] truncate ${mutedText}`} title={describeImageEdit(settings)}>
+            {describeImageEdit(settings)}
+          </span>
+        </div>
+        {isStale && !saving && <div className="text-[11px] text-yellow-400">输入或设置已修改，保存后下游节点才会使用新结果</div>}
+        {data?.errorMessage && !saving && <div className="text-[11px] text-red-400 break-all">{data.errorMessage}</div>}
+      </div>
+    </div>
+  );
+};
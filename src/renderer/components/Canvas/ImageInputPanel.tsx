@@ -1,7 +1,23 @@
-import React, { useState, useRef, useCallback, useEffect } from 'react';
+import React, { useState, useRef, useCallback, useEffect, useMemo } from 'react';
 import { Play, ChevronDown } from 'lucide-react';
 import { useAI } from '../../hooks/useAI';
 import { getImagePrice } from '../../utils/priceCalc';
+import ModelParamControls from './ModelParamControls';
+import PromptTemplateField from './PromptTemplateField';
+import { FanOutToggle } from './FanOutGallery';
+import { renderPromptTemplate, type TemplateVariable } from '../../utils/promptTemplate';
+import { loadImage } from '../../utils/imageEdit';
+import { buildInpaintPrompt, compositeInpaintResult, exportMaskPng, type InpaintSource } from '../../utils/inpaintMask';
+import {
+  IMAGE_MODELS,
+  buildModelPayload,
+  getImageModel,
+  getImageParamSchema,
+  supportsInpaint,
+  validateModelParams,
+  type ImageGenerationMode,
+  type ModelParamValue,
+} from '../../../main/ai/modelCatalog';
 
 interface ImageInputPanelProps {
   nodeId: string;
@@ -20,6 +36,20 @@ interface ImageInputPanelProps {
   onStart?: () => void; // 任务开始时的回调
   onErrorTask?: (message: string) => void; // 任务失败时的回调（用于任务列表）
   onPromptChange: (value: string) => void;
+  /** 提示词模板（{{变量}} 引用上游节点，启用时运行前解析为提示词） */
+  promptTemplate?: string;
+  /** 当前节点可用的模板变量 */
+  templateVariables?: TemplateVariable[];
+  onPromptTemplateChange?: (value: string) => void;
+  /** 逐段批量：上游文本拆分的分段数量（0 表示未连接，不显示开关） */
+  fanOutSegmentCount?: number;
+  fanOutEnabled?: boolean;
+  /** 连接循环节点时逐项运行不可关闭 */
+  fanOutLocked?: boolean;
+  /** 逐段批量是否有段仍在运行 */
+  fanOutRunning?: boolean;
+  onFanOutToggle?: (enabled: boolean) => void;
+  onFanOutRun?: () => void;
   onResolutionChange: (value: string) => void;
   onAspectRatioChange: (value: string) => void;
   onModelChange: (value: string) => void;
@@ -28,8 +58,15 @@ interface ImageInputPanelProps {
   onOutputImageChange: (imageUrl: string) => void;
   onProgressChange?: (progress: number) => void;
   onProgressMessageChange?: (message: string) => void; // 进度文案更新回调
+  /** 局部重绘：当前节点图片与蒙版笔画（节点上涂抹了蒙版时传入） */
+  inpaintSource?: InpaintSource;
+  /** 局部重绘导出的二值蒙版，写回节点 maskImage */
+  onMaskExported?: (maskUrl: string) => void;
 }
 
+/** 参考图槽中蒙版的占位（校验数量用，运行时替换为导出的蒙版地址） */
+const INPAINT_MASK_SLOT = 'inpaint-mask';
+
 // seedream-v4.5 比例与宽高映射（比例选择后固定宽高）
 const SEEDREAM_RATIO_MAP: Record<string, { width: number; height: number }> = {
   '1:1': { width: 2048, height: 2048 },
@@ -41,17 +78,6 @@ const SEEDREAM_RATIO_MAP: Record<string, { width: number; height: number }> = {
   '16:9': { width: 2560, height: 1440 },
   '21:9': { width: 3024, height: 1296 },
 };
-const SEEDREAM_RATIO_OPTIONS = [
-  { value: '1:1', label: '1:1 (正方形 2048×2048)' },
-  { value: '2:3', label: '2:3 (纵向 1664×2496)' },
-  { value: '3:2', label: '3:2 (横向 2496×1664)' },
-  { value: '3:4', label: '3:4 (纵向 1728×2304)' },
-  { value: '4:3', label: '4:3 (横向 2304×1728)' },
-  { value: '9:16', label: '9:16 (纵向 1440×2560)' },
-  { value: '16:9', label: '16:9 (横向 2560×1440)' },
-  { value: '21:9', label: '21:9 (超宽屏 3024×1296)' },
-];
-
 /** 提示词标签：点击填入对应文案，颜色用于区分 */
 const PROMPT_TAGS: { label: string; text: string; color: string }[] = [
   { label: '多机位九宫格', text: 'A character sheet of [Subject], 9-grid split screen, different angles including front view, side view, back view, and close-up, cinematic lighting, high detail', color: 'bg-emerald-500/90 hover:bg-emerald-500 text-white border-emerald-400/50' },
@@ -78,6 +104,15 @@ const ImageInputPanel: React.FC<ImageInputPanelProps> = ({
   onStart,
   onErrorTask,
   onPromptChange,
+  promptTemplate = '',
+  templateVariables = [],
+  onPromptTemplateChange,
+  fanOutSegmentCount = 0,
+  fanOutEnabled = false,
+  fanOutLocked = false,
+  fanOutRunning = false,
+  onFanOutToggle,
+  onFanOutRun,
   onResolutionChange,
   onAspectRatioChange,
   onModelChange,
@@ -86,9 +121,14 @@ const ImageInputPanel: React.FC<ImageInputPanelProps> = ({
   onOutputImageChange,
   onProgressChange,
   onProgressMessageChange,
+  inpaintSource,
+  onMaskExported,
 }) => {
   const promptInputRef = useRef<HTMLTextAreaElement>(null);
   const [enlargeDropdownOpen, setEnlargeDropdownOpen] = useState(false);
+  const [inpaintEnabled, setInpaintEnabled] = useState(true);
+  /** 本次运行的局部重绘信息：结果返回后按蒙版合成回原图（SUCCESS 与 onComplete 共用同一次合成） */
+  const inpaintRunRef = useRef<{ source: InpaintSource; composite?: Promise<string> } | null>(null);
 
   /** 将文案填入提示词（追加，已有内容前加空格） */
   const appendToPrompt = useCallback((text: string) => {
@@ -97,75 +137,78 @@ const ImageInputPanel: React.FC<ImageInputPanelProps> = ({
     promptInputRef.current?.focus();
   }, [prompt, onPromptChange]);
 
-  // 模型选项
-  const allModelOptions = [
-    { value: 'nano-banana-2', label: 'Nano banana Pro 1K' },
-    { value: 'nano-banana-2-2k', label: 'Nano banana Pro 2K' },
-    { value: 'nano-banana-2-4k', label: 'Nano banana Pro 4K' },
-    { value: 'youchuan-text-to-image-v7', label: 'Midjourney v7' },
-    { value: 'rhart-image-g-1.5', label: 'Grok 1.5' },
-    { value: 'seedream-v4.5', label: 'Seedream 4.5' },
-  ];
+  // 模型选项（见模型目录 IMAGE_MODELS）
+  const allModelOptions = IMAGE_MODELS.map((m) => ({ value: m.id, label: m.label }));
   
   // 根据模式过滤模型选项
   // 只有当有输入图片（inputImages.length > 0）时才切换到图生图模式
   const isImageToImageMode = inputImages && inputImages.length > 0;
+  // 局部重绘：节点上有蒙版且未关闭时，原图与蒙版作为前两张参考图
+  const isInpaintMode = !!inpaintSource && inpaintEnabled;
 
-  /** 图生图模式下各模型最大参考图数量（与 ImageProvider 一致） */
-  const getMaxRefImages = (m: string): number => {
-    if (m === 'rhart-image-g-1.5') return 2;
-    if (m === 'seedream-v4.5') return 10;
-    return 5; // nano-banana 系列 / 全能图片PRO
-  };
-  const maxRefImages = getMaxRefImages(model);
   const imagePrice = getImagePrice({ model, resolution });
 
-  // 图生图模式下：排除仅文生图模型（文悠船文生图-v7），其余部分显示为「xxx-图生图」
-  const modelOptions = isImageToImageMode
-    ? allModelOptions
-        .filter((opt) => opt.value !== 'youchuan-text-to-image-v7')
-        .map((opt) => {
-          if (opt.value === 'rhart-image-g-1.5') return { ...opt, label: 'Grok 1.5' };
-          if (opt.value === 'seedream-v4.5') return { ...opt, label: 'Seedream 4.5' };
-          return opt;
-        })
-    : allModelOptions;
+  // 图生图模式下：排除仅文生图模型（文悠船文生图-v7）；局部重绘仅保留可接收原图 + 蒙版的模型
+  const modelOptions = isInpaintMode
+    ? allModelOptions.filter((opt) => supportsInpaint(getImageModel(opt.value)))
+    : isImageToImageMode
+      ? allModelOptions.filter((opt) => getImageModel(opt.value)?.modes.includes('i2i'))
+      : allModelOptions;
 
-  // 图生图模式下若当前为仅文生图模型（文悠船），自动切到第一个可用图生图模型
+  // 图生图 / 局部重绘模式下若当前模型不可用，自动切到第一个可用模型
   useEffect(() => {
-    if (isImageToImageMode && model === 'youchuan-text-to-image-v7' && modelOptions.length > 0) {
+    if ((isImageToImageMode || isInpaintMode) && !modelOptions.some((opt) => opt.value === model) && modelOptions.length > 0) {
       onModelChange?.(modelOptions[0].value);
     }
-  }, [isImageToImageMode, model, modelOptions, onModelChange]);
-
-  // 比例选项（根据 API 文档）
-  const aspectRatioOptions = [
-    { value: '1:1', label: '1:1 (正方形)' },
-    { value: '2:3', label: '2:3 (纵向)' },
-    { value: '3:2', label: '3:2 (横向)' },
-    { value: '3:4', label: '3:4 (纵向)' },
-    { value: '4:3', label: '4:3 (横向)' },
-    { value: '4:5', label: '4:5 (纵向)' },
-    { value: '5:4', label: '5:4 (横向)' },
-    { value: '9:16', label: '9:16 (纵向)' },
-    { value: '16:9', label: '16:9 (横向)' },
-    { value: '21:9', label: '21:9 (超宽屏)' },
-  ];
+  }, [isImageToImageMode, isInpaintMode, model, modelOptions, onModelChange]);
 
   const isSeedreamV45 = model === 'seedream-v4.5';
-  // 全能图片G-1.5 仅支持 auto / 1:1 / 3:2 / 2:3
-  const isRhartImageG15 = model === 'rhart-image-g-1.5';
-  const aspectRatioOptionsG15 = [
-    { value: 'auto', label: 'auto (自动)' },
-    { value: '1:1', label: '1:1 (正方形)' },
-    { value: '3:2', label: '3:2 (横向)' },
-    { value: '2:3', label: '2:3 (纵向)' },
-  ];
-  const effectiveAspectRatioOptions = isSeedreamV45
-    ? SEEDREAM_RATIO_OPTIONS
-    : isRhartImageG15
-      ? aspectRatioOptionsG15
-      : aspectRatioOptions;
+
+  // 参数表（见模型目录）：比例 + 参考图槽
+  const modelSpec = getImageModel(model);
+  const generationMode: ImageGenerationMode = isImageToImageMode || isInpaintMode ? 'i2i' : 't2i';
+  const paramSchema = useMemo(() => (modelSpec ? getImageParamSchema(modelSpec) : []), [modelSpec]);
+  const inpaintImage = isInpaintMode ? inpaintSource?.image : undefined;
+  const paramValues = useMemo<Record<string, unknown>>(
+    () => ({ aspectRatio, inputImages: inpaintImage ? [inpaintImage, INPAINT_MASK_SLOT, ...inputImages] : inputImages }),
+    [aspectRatio, inputImages, inpaintImage]
+  );
+  const paramError = validateModelParams(paramSchema, paramValues, generationMode);
+
+  const handleParamChange = useCallback((key: string, value: ModelParamValue) => {
+    if (key !== 'aspectRatio') return;
+    const ratio = String(value);
+    onAspectRatioChange(ratio);
+    // seedream-v4.5 比例选择后固定宽高
+    if (isSeedreamV45 && SEEDREAM_RATIO_MAP[ratio]) {
+      const { width, height } = SEEDREAM_RATIO_MAP[ratio];
+      onSeedreamWidthChange?.(width);
+      onSeedreamHeightChange?.(height);
+    }
+  }, [isSeedreamV45, onAspectRatioChange, onSeedreamWidthChange, onSeedreamHeightChange]);
+
+  /** 输出生成结果：局部重绘时先把结果按羽化蒙版合成回原图并保存，合成失败或比例不一致时使用模型原图 */
+  const deliverOutputImage = (imageUrl: string) => {
+    const run = inpaintRunRef.current;
+    if (!run) {
+      onOutputImageChange(imageUrl);
+      return;
+    }
+    if (!run.composite) {
+      const { source } = run;
+      run.composite = compositeInpaintResult(source.image, imageUrl, source.strokes, { feather: source.feather, inverted: source.inverted })
+        .then(async (blob) => {
+          if (!blob || !window.electronAPI?.saveEditedImage) return imageUrl;
+          const saved = await window.electronAPI.saveEditedImage(await blob.arrayBuffer(), { projectId, nodeId, operations: '局部重绘合成' });
+          return saved.success && saved.url ? saved.url : imageUrl;
+        })
+        .catch((error) => {
+          console.error('[局部重绘] 合成失败，使用模型结果:', error);
+          return imageUrl;
+        });
+    }
+    run.composite.then(onOutputImageChange);
+  };
 
   // AI Hook
   const { status: aiStatus, execute: executeAI } = useAI({
@@ -254,7 +297,7 @@ const ImageInputPanel: React.FC<ImageInputPanelProps> = ({
         if (imageUrl) {
           // 先更新图片，然后清除进度（确保图片显示）
           console.log('[ImageInputPanel] 调用 onOutputImageChange:', imageUrl);
-          onOutputImageChange(imageUrl);
+          deliverOutputImage(imageUrl);
         } else {
           console.warn('[ImageInputPanel] SUCCESS 状态但没有 imageUrl 或 localPath');
         }
@@ -266,7 +309,7 @@ const ImageInputPanel: React.FC<ImageInputPanelProps> = ({
         if (onProgressMessageChange) {
           onProgressMessageChange('');
         }
-      } else if (packet.status === 'ERROR') {
+      } else if (packet.status === 'ERROR' || packet.status === 'CANCELLED') {
         // 清除进度
         if (onProgressChange) {
           onProgressChange(0);
@@ -294,7 +337,7 @@ const ImageInputPanel: React.FC<ImageInputPanelProps> = ({
       }
       
       if (imageUrl) {
-        onOutputImageChange(imageUrl);
+        deliverOutputImage(imageUrl);
         // 图片生成完成后，ImageNode 会自动根据图片尺寸调整大小
       }
       // 清除进度
@@ -333,9 +376,23 @@ const ImageInputPanel: React.FC<ImageInputPanelProps> = ({
     },
   });
 
+  // 提示词模板：启用时以解析结果作为提示词
+  const renderedTemplate = useMemo(
+    () => (promptTemplate.trim() ? renderPromptTemplate(promptTemplate, templateVariables) : null),
+    [promptTemplate, templateVariables]
+  );
+  const effectivePrompt = renderedTemplate ? renderedTemplate.text : prompt;
+  const templateError = renderedTemplate?.missing.length ? `未找到模板变量：${renderedTemplate.missing.join('、')}` : null;
+  const isFanOutMode = fanOutEnabled && fanOutSegmentCount > 0;
+
   // 执行图片生成
   const handleExecute = useCallback(async () => {
-    if (!prompt.trim()) {
+    // 逐段批量：交由 Workspace 对每个分段各运行一次
+    if (isFanOutMode) {
+      onFanOutRun?.();
+      return;
+    }
+    if (!effectivePrompt.trim() || templateError) {
       return;
     }
 
@@ -345,6 +402,37 @@ const ImageInputPanel: React.FC<ImageInputPanelProps> = ({
       console.error("错误：图生图模式但无法获取源图片数据");
       return;
     }
+    if (paramError) {
+      console.warn(`[图片生成] 参数校验未通过: ${paramError}`);
+      return;
+    }
+
+    // 局部重绘：按当前图片尺寸导出二值蒙版（白色为重绘区域），替换参考图槽中的蒙版占位
+    let payloadValues = paramValues;
+    let requestPrompt = effectivePrompt;
+    inpaintRunRef.current = null;
+    if (isInpaintMode && inpaintSource) {
+      try {
+        if (!window.electronAPI?.saveEditedImage) throw new Error('当前环境不支持保存蒙版');
+        const original = await loadImage(inpaintSource.image);
+        const maskBlob = await exportMaskPng(inpaintSource.strokes, original.naturalWidth, original.naturalHeight, { inverted: inpaintSource.inverted });
+        const saved = await window.electronAPI.saveEditedImage(await maskBlob.arrayBuffer(), { projectId, nodeId, operations: '局部重绘蒙版' });
+        if (!saved.success || !saved.url) throw new Error(saved.error || '蒙版保存失败');
+        onMaskExported?.(saved.url);
+        payloadValues = { ...paramValues, inputImages: [inpaintSource.image, saved.url, ...inputImages] };
+        requestPrompt = buildInpaintPrompt(effectivePrompt, inputImages.length);
+        inpaintRunRef.current = { source: inpaintSource };
+      } catch (error) {
+        console.error('[局部重绘] 导出蒙版失败:', error);
+        onErrorTask?.(`局部重绘导出蒙版失败：${error instanceof Error ? error.message : String(error)}`);
+        return;
+      }
+    }
+
+    // 模板解析结果写回提示词，任务记录保存实际使用的提示词
+    if (renderedTemplate) {
+      onPromptChange(effectivePrompt);
+    }
 
     // 通知任务开始
     onStart?.();
@@ -369,23 +457,22 @@ const ImageInputPanel: React.FC<ImageInputPanelProps> = ({
       // 默认文生图模式，只有当有输入图片时才使用图生图模式
       const requestParams: any = {
         model,
-        prompt,
+        prompt: requestPrompt,
         response_format: 'url',
-        aspect_ratio: aspectRatio,
         image_size: imageSize,
         resolution,
+        // 比例与参考图（图生图模式）按模型参数表生成
+        ...buildModelPayload(paramSchema, payloadValues, generationMode),
       };
       if (isSeedreamV45) {
         requestParams.seedreamWidth = seedreamWidth;
         requestParams.seedreamHeight = seedreamHeight;
       }
 
-      // 图生图模式：如果有输入图片，添加 image 参数
-      if (isImageToImageMode && inputImages && inputImages.length > 0) {
-        // 限制最多10张参考图
-        const imagesToUse = inputImages.slice(0, 10);
-        requestParams.image = imagesToUse;
-        console.log(`[图片生成] 图生图模式，使用 ${imagesToUse.length} 张参考图`);
+      if (inpaintRunRef.current) {
+        console.log(`[图片生成] 局部重绘模式，原图 + 蒙版 + ${inputImages.length} 张参考图`);
+      } else if (requestParams.image) {
+        console.log(`[图片生成] 图生图模式，使用 ${requestParams.image.length} 张参考图`);
       }
 
       // 添加项目ID用于资源保存
@@ -397,12 +484,14 @@ const ImageInputPanel: React.FC<ImageInputPanelProps> = ({
     } catch (error) {
       console.error('图片生成失败:', error);
     }
-  }, [prompt, model, aspectRatio, resolution, seedreamWidth, seedreamHeight, inputImages, executeAI, isImageToImageMode, onStart, projectId, isSeedreamV45]);
+  }, [isFanOutMode, onFanOutRun, effectivePrompt, templateError, renderedTemplate, onPromptChange, model, resolution, seedreamWidth, seedreamHeight, inputImages, executeAI, isImageToImageMode, onStart, projectId, isSeedreamV45, paramSchema, paramValues, generationMode, paramError, isInpaintMode, inpaintSource, nodeId, onMaskExported, onErrorTask]);
 
   // 判断当前模式：根据输入图片数量自动切换（已在上面定义）
   // 图生图模式时，必须有图片数据才能运行
   // 按钮禁用逻辑：只基于当前模块自己的状态
-  const isRunDisabled = aiStatus === 'PROCESSING' || !prompt.trim() || (isImageToImageMode && (!inputImages || inputImages.length === 0));
+  const isRunDisabled = isFanOutMode
+    ? fanOutRunning || !!paramError
+    : aiStatus === 'PROCESSING' || !effectivePrompt.trim() || !!templateError || (isImageToImageMode && (!inputImages || inputImages.length === 0)) || !!paramError;
   
   // 调试日志：确认每个模块的状态是独立的
   useEffect(() => {
@@ -445,55 +534,18 @@ const ImageInputPanel: React.FC<ImageInputPanelProps> = ({
             </select>
           </div>
 
-          {/* 比例选择（seedream-v4.5 使用固定 8 档比例→宽高映射，其他模型用通用比例） */}
-          <div className="flex items-center gap-1.5">
-            <label className={`text-xs ${isDarkMode ? 'text-white/80' : 'text-gray-900'}`}>
-              比例:
-            </label>
-            <select
-              value={effectiveAspectRatioOptions.some((o) => o.value === aspectRatio) ? aspectRatio : (isRhartImageG15 ? '2:3' : isSeedreamV45 ? '1:1' : '1:1')}
-              onChange={(e) => {
-                const ratio = e.target.value;
-                onAspectRatioChange(ratio);
-                if (isSeedreamV45 && SEEDREAM_RATIO_MAP[ratio]) {
-                  const { width, height } = SEEDREAM_RATIO_MAP[ratio];
-                  onSeedreamWidthChange?.(width);
-                  onSeedreamHeightChange?.(height);
-                }
-              }}
-              className={`px-2 py-1 rounded-lg text-xs ${
-                isDarkMode 
-                  ? 'bg-black/30 text-white border border-gray-600/50' 
-                  : 'bg-white/90 text-gray-900 border border-gray-300'
-              } outline-none`}
-              title="选择比例"
-            >
-              {effectiveAspectRatioOptions.map((opt) => (
-                <option key={opt.value} value={opt.value}>
-                  {opt.label}
-                </option>
-              ))}
-            </select>
-          </div>
+          {/* 模型参数：按模型目录中的参数表渲染（seedream-v4.5 比例对应固定宽高） */}
+          <ModelParamControls
+            params={paramSchema}
+            values={paramValues}
+            mode={generationMode}
+            isDarkMode={isDarkMode}
+            onChange={handleParamChange}
+          />
         </div>
 
         {/* 右侧：模式按钮（自动切换文生图/图生图） */}
         <div className="flex items-center gap-2 flex-shrink-0">
-          {/* 图生图模式下显示参考图数量与当前模型最大数量 */}
-          {isImageToImageMode && inputImages && inputImages.length > 0 && (
-            <>
-              <span className={`text-xs font-medium px-2 py-1 rounded ${
-                isDarkMode ? 'text-white/80 bg-purple-500/20' : 'text-gray-700 bg-purple-100'
-              }`}>
-                参考图 {inputImages.length} 张
-              </span>
-              <span className={`text-xs font-medium px-2 py-1 rounded ${
-                isDarkMode ? 'text-white/50 bg-white/10' : 'text-gray-500 bg-gray-100'
-              }`} title={`当前模型最多支持 ${maxRefImages} 张参考图`}>
-                最多 {maxRefImages} 张
-              </span>
-            </>
-          )}
           {imagePrice !== null && (
             <span
               className={`text-xs font-medium px-2 py-1 rounded ${
@@ -504,6 +556,25 @@ const ImageInputPanel: React.FC<ImageInputPanelProps> = ({
               ¥{imagePrice.toFixed(2)}/次
             </span>
           )}
+          {fanOutSegmentCount > 0 && onFanOutToggle && (
+            <FanOutToggle segmentCount={fanOutSegmentCount} enabled={fanOutEnabled} locked={fanOutLocked} isDarkMode={isDarkMode} onChange={onFanOutToggle} />
+          )}
+          {inpaintSource && (
+            <button
+              type="button"
+              onClick={() => setInpaintEnabled((v) => !v)}
+              className={`text-xs font-medium px-2 py-1 rounded transition-colors ${
+                inpaintEnabled
+                  ? 'bg-amber-500/90 hover:bg-amber-500 text-white'
+                  : isDarkMode
+                    ? 'text-white/50 bg-white/10 hover:bg-white/20'
+                    : 'text-gray-500 bg-gray-100 hover:bg-gray-200'
+              }`}
+              title={inpaintEnabled ? '局部重绘：仅重新生成蒙版区域，点击改为整图生成' : '已忽略蒙版，点击启用局部重绘'}
+            >
+              局部重绘{inpaintEnabled ? '' : '（关）'}
+            </button>
+          )}
           {/* 模式按钮：根据输入状态自动切换文案和颜色 */}
           <button
             onClick={handleExecute}
@@ -512,24 +583,24 @@ const ImageInputPanel: React.FC<ImageInputPanelProps> = ({
               isRunDisabled
                 ? 'bg-gray-500/50 text-white/50 cursor-not-allowed'
                 : aiStatus === 'PROCESSING'
-                  ? isImageToImageMode
+                  ? isImageToImageMode || isInpaintMode
                     ? 'bg-purple-500 text-white'
                     : 'bg-blue-500 text-white'
-                  : isImageToImageMode
+                  : isImageToImageMode || isInpaintMode
                     ? 'bg-purple-500 text-white hover:bg-purple-600 shadow-md shadow-purple-500/30'
                     : 'bg-blue-500 text-white hover:bg-blue-600 shadow-md shadow-blue-500/30'
             }`}
-            title={isImageToImageMode ? `图生图模式（${inputImages.length}张参考图）` : '文生图模式'}
+            title={templateError || paramError || (isInpaintMode ? '局部重绘模式（原图 + 蒙版）' : isImageToImageMode ? `图生图模式（${inputImages.length}张参考图）` : '文生图模式')}
           >
             {aiStatus === 'PROCESSING' ? (
               <>
                 <div className={`w-3 h-3 border-2 border-white border-t-transparent rounded-full animate-spin`} />
-                {isImageToImageMode ? '图生图' : '文生图'}
+                {isInpaintMode ? '局部重绘' : isImageToImageMode ? '图生图' : '文生图'}
               </>
             ) : (
               <>
                 <Play className="w-3 h-3" />
-                {isImageToImageMode ? '图生图' : '文生图'}
+                {isInpaintMode ? '局部重绘' : isImageToImageMode ? '图生图' : '文生图'}
               </>
             )}
           </button>
@@ -588,6 +659,16 @@ const ImageInputPanel: React.FC<ImageInputPanelProps> = ({
             </button>
           ))}
         </div>
+        {onPromptTemplateChange && (
+          <div className="mb-2">
+            <PromptTemplateField
+              template={promptTemplate}
+              variables={templateVariables}
+              isDarkMode={isDarkMode}
+              onChange={onPromptTemplateChange}
+            />
+          </div>
+        )}
         <textarea
           ref={promptInputRef}
           value={prompt}
@@ -1,9 +1,21 @@
 import React, { useState, useRef, useEffect, useCallback, useMemo, memo } from 'react';
 import { createPortal } from 'react-dom';
 import { Handle, Position, NodeProps, useReactFlow, useUpdateNodeInternals, useStoreApi, useStore } from 'reactflow';
-import { Upload, Loader2, Scissors, Eraser, Pencil, RotateCcw } from 'lucide-react';
+import { Upload, Loader2, Scissors, Eraser, Pencil, RotateCcw, Ban, Paintbrush, Contrast, BoxSelect } from 'lucide-react';
 import { ModuleProgressBar } from './ModuleProgressBar';
+import ErrorActionHint from './ErrorActionHint';
+import type { AIErrorCode } from '../../hooks/useAI';
 import { mapProjectPath } from '../../utils/pathMapper';
+import type { FanOutItem } from '../../utils/fanOut';
+import { FanOutGallery } from './FanOutGallery';
+import {
+  DEFAULT_MASK_BRUSH_SIZE,
+  MASK_BRUSH_SIZES,
+  MAX_MASK_FEATHER,
+  drawMaskOverlay,
+  type MaskStroke,
+  type MaskStrokeMode,
+} from '../../utils/inpaintMask';
 
 interface ImageNodeData {
   width?: number;
@@ -19,8 +31,20 @@ interface ImageNodeData {
   progress?: number; // 图片生成进度 0-100
   progressMessage?: string; // 进度状态文案
   errorMessage?: string; // 错误信息
+  errorCode?: AIErrorCode; // 错误分类（决定错误区展示的操作提示）
+  cancelled?: boolean; // 任务已被用户取消
+  queuePosition?: number; // 调度排队位置（排队等待时显示）
+  fanOutItems?: FanOutItem[]; // 逐段批量的每段结果
   /** 参考图标记笔画（图生图时便于模型理解意图），归一化坐标 0-1 */
   imageDrawStrokes?: { color: string; points: { x: number; y: number }[] }[];
+  /** 局部重绘蒙版笔画（涂抹 / 擦除），归一化坐标 0-1 */
+  imageMaskStrokes?: MaskStroke[];
+  /** 蒙版羽化半径（相对图片宽度），合成重绘结果时的边缘过渡 */
+  maskFeather?: number;
+  /** 蒙版反选：重绘未涂抹的区域 */
+  maskInverted?: boolean;
+  /** 最近一次局部重绘导出的二值蒙版 */
+  maskImage?: string;
 }
 
 interface ImageNodeProps extends NodeProps<ImageNodeData> {
@@ -29,6 +53,10 @@ interface ImageNodeProps extends NodeProps<ImageNodeData> {
   projectId?: string; // 项目ID，用于路径映射
   /** 抠图/去水印完成后回调，用于将结果加入任务列表 */
   onAuxImageTaskComplete?: (params: { nodeId: string; type: 'matting' | 'watermark'; imageUrl: string }) => void;
+  /** 错误提示中「前往设置」的回调（保存项目后跳转设置页） */
+  onOpenSettings?: () => void;
+  /** 逐段批量：重新运行失败的单段 */
+  onFanOutRetry?: (nodeId: string, index: number) => void;
 }
 
 // 格式化图片路径：统一转换为 local-resource:// 协议
@@ -111,6 +139,8 @@ const ImageNodeComponent: React.FC<ImageNodeProps> = (props) => {
     performanceMode = false,
     onDataChange,
     onAuxImageTaskComplete,
+    onOpenSettings,
+    onFanOutRetry,
     // React Flow 专有属性，不应传递给 DOM（显式解构以过滤）
     xPos = 0,
     yPos = 0,
@@ -162,6 +192,13 @@ const ImageNodeComponent: React.FC<ImageNodeProps> = (props) => {
   const [dropdownPosition, setDropdownPosition] = useState<{ left: number; bottom: number } | null>(null);
   /** 画笔是否激活：未激活为灰色，点击后点亮才能绘制 */
   const [brushActive, setBrushActive] = useState(false);
+  /** 蒙版模式：激活后涂抹局部重绘区域，与标记画笔互斥 */
+  const [maskActive, setMaskActive] = useState(false);
+  const [maskTool, setMaskTool] = useState<MaskStrokeMode>('paint');
+  const [maskBrushSize, setMaskBrushSize] = useState(DEFAULT_MASK_BRUSH_SIZE);
+  const [maskStrokes, setMaskStrokes] = useState<MaskStroke[]>(data?.imageMaskStrokes ?? []);
+  const maskFeather = data?.maskFeather ?? 0;
+  const maskInverted = !!data?.maskInverted;
 
   const nodeRef = useRef<HTMLDivElement>(null);
   const resizeHandleRef = useRef<HTMLDivElement>(null);
@@ -182,6 +219,11 @@ const ImageNodeComponent: React.FC<ImageNodeProps> = (props) => {
   const currentStrokeColorRef = useRef(drawColor);
   const drawColorRef = useRef(drawColor);
   const drawStrokesRef = useRef(drawStrokes);
+  const maskCanvasRef = useRef<HTMLCanvasElement>(null);
+  const maskStrokesRef = useRef(maskStrokes);
+  const maskBrushRef = useRef({ tool: maskTool, size: maskBrushSize });
+  /** 当前笔画为蒙版笔画时记录其模式与大小，标记笔画为 null */
+  const currentMaskBrushRef = useRef<{ tool: MaskStrokeMode; size: number } | null>(null);
   const transform = useStore((s) => s.transform);
 
   // 更新节点数据（需在下方 useEffect 之前定义，避免 TDZ）
@@ -254,7 +296,10 @@ const ImageNodeComponent: React.FC<ImageNodeProps> = (props) => {
     if (data?.imageDrawStrokes !== undefined) {
       setDrawStrokes(data.imageDrawStrokes);
     }
-  }, [data?.width, data?.height, data?.outputImage, data?.title, data?.progress, data?.progressMessage, data?.errorMessage, data?.imageDrawStrokes, outputImage, updateNodeData, originalImageForRestore]);
+    if (data?.imageMaskStrokes !== undefined) {
+      setMaskStrokes(data.imageMaskStrokes);
+    }
+  }, [data?.width, data?.height, data?.outputImage, data?.title, data?.progress, data?.progressMessage, data?.errorMessage, data?.imageDrawStrokes, data?.imageMaskStrokes, outputImage, updateNodeData, originalImageForRestore]);
 
   // 测量图片在容器内的显示区域（用于画布叠层定位）
   const measureImgRect = useCallback(() => {
@@ -279,6 +324,14 @@ const ImageNodeComponent: React.FC<ImageNodeProps> = (props) => {
     drawColorRef.current = drawColor;
   }, [drawColor]);
 
+  useEffect(() => {
+    maskStrokesRef.current = maskStrokes;
+  }, [maskStrokes]);
+
+  useEffect(() => {
+    maskBrushRef.current = { tool: maskTool, size: maskBrushSize };
+  }, [maskTool, maskBrushSize]);
+
   // 平滑绘制：使用二次贝塞尔曲线连接中点
   const drawSmoothStroke = useCallback(
     (
@@ -286,11 +339,12 @@ const ImageNodeComponent: React.FC<ImageNodeProps> = (props) => {
       points: { x: number; y: number }[],
       color: string,
       w: number,
-      h: number
+      h: number,
+      lineWidth?: number
     ) => {
       if (points.length < 2) return;
       ctx.strokeStyle = color;
-      ctx.lineWidth = Math.max(2, w * 0.008);
+      ctx.lineWidth = lineWidth ?? Math.max(2, w * 0.008);
       ctx.lineCap = 'round';
       ctx.lineJoin = 'round';
       ctx.beginPath();
@@ -354,7 +408,9 @@ const ImageNodeComponent: React.FC<ImageNodeProps> = (props) => {
     ctx.scale(dpr, dpr);
     ctx.clearRect(0, 0, imgDisplayRect.width, imgDisplayRect.height);
     if (currentStrokeRef.current.length >= 2) {
-      drawSmoothStroke(ctx, currentStrokeRef.current, currentStrokeColorRef.current, imgDisplayRect.width, imgDisplayRect.height);
+      const maskBrush = currentMaskBrushRef.current;
+      const lineWidth = maskBrush ? Math.max(1, maskBrush.size * imgDisplayRect.width) : undefined;
+      drawSmoothStroke(ctx, currentStrokeRef.current, currentStrokeColorRef.current, imgDisplayRect.width, imgDisplayRect.height, lineWidth);
     }
   }, [imgDisplayRect, drawSmoothStroke]);
 
@@ -378,13 +434,20 @@ const ImageNodeComponent: React.FC<ImageNodeProps> = (props) => {
 
   // 激活画笔后强制刷新叠层定位与重绘，避免依赖 onLoad 时机导致无法绘制
   useEffect(() => {
-    if (!brushActive || !selected || !outputImage || isResizing) return;
+    if ((!brushActive && !maskActive) || !selected || !outputImage || isResizing) return;
     const rafId = requestAnimationFrame(() => {
       measureImgRect();
       redrawCanvas();
     });
     return () => cancelAnimationFrame(rafId);
-  }, [brushActive, selected, outputImage, isResizing, size.w, size.h, measureImgRect, redrawCanvas]);
+  }, [brushActive, maskActive, selected, outputImage, isResizing, size.w, size.h, measureImgRect, redrawCanvas]);
+
+  // 蒙版叠层：以半透明红色显示重绘区域（含羽化、反选效果）
+  useEffect(() => {
+    const canvas = maskCanvasRef.current;
+    if (!canvas || !imgDisplayRect || imgDisplayRect.width <= 0 || imgDisplayRect.height <= 0) return;
+    drawMaskOverlay(canvas, maskStrokes, imgDisplayRect.width, imgDisplayRect.height, { feather: maskFeather, inverted: maskInverted });
+  }, [maskStrokes, maskFeather, maskInverted, imgDisplayRect, selected, isResizing, maskActive]);
 
   // 某些场景图片已缓存完成但不再触发 onLoad，需要主动测量一次显示区域
   useEffect(() => {
@@ -402,10 +465,17 @@ const ImageNodeComponent: React.FC<ImageNodeProps> = (props) => {
     updateNodeData({ imageDrawStrokes: strokes });
   }, [updateNodeData]);
 
+  // 将蒙版笔画持久化到节点 data
+  const persistMaskStrokes = useCallback((strokes: MaskStroke[]) => {
+    maskStrokesRef.current = strokes;
+    setMaskStrokes(strokes);
+    updateNodeData({ imageMaskStrokes: strokes });
+  }, [updateNodeData]);
+
   // 原生指针事件监听：绘制过程完全脱离 React state，避免 move 时组件重渲染
   useEffect(() => {
     const canvas = activeCanvasRef.current;
-    if (!canvas || !selected || !brushActive || isResizing || !imgDisplayRect) return;
+    if (!canvas || !selected || (!brushActive && !maskActive) || isResizing || !imgDisplayRect) return;
 
     const toNormalized = (evt: PointerEvent) => {
       const rect = canvas.getBoundingClientRect();
@@ -438,7 +508,12 @@ const ImageNodeComponent: React.FC<ImageNodeProps> = (props) => {
         pendingPointsRef.current = [];
       }
       isDrawingRef.current = false;
-      if (currentStrokeRef.current.length >= 2) {
+      const maskBrush = currentMaskBrushRef.current;
+      if (maskBrush && currentStrokeRef.current.length >= 1) {
+        // 蒙版笔画：单击也记录（画圆点）
+        const stroke: MaskStroke = { mode: maskBrush.tool, size: maskBrush.size, points: [...currentStrokeRef.current] };
+        persistMaskStrokes([...maskStrokesRef.current, stroke]);
+      } else if (!maskBrush && currentStrokeRef.current.length >= 2) {
         const stroke = { color: currentStrokeColorRef.current, points: [...currentStrokeRef.current] };
         const next = [...drawStrokesRef.current, stroke];
         persistStrokes(next);
@@ -457,7 +532,12 @@ const ImageNodeComponent: React.FC<ImageNodeProps> = (props) => {
       const p = toNormalized(evt);
       isDrawingRef.current = true;
       currentStrokeRef.current = [p];
-      currentStrokeColorRef.current = drawColorRef.current;
+      currentMaskBrushRef.current = maskActive ? { ...maskBrushRef.current } : null;
+      if (maskActive) {
+        currentStrokeColorRef.current = maskBrushRef.current.tool === 'erase' ? 'rgba(255, 255, 255, 0.7)' : 'rgba(255, 59, 48, 0.5)';
+      } else {
+        currentStrokeColorRef.current = drawColorRef.current;
+      }
       pendingPointsRef.current = [];
       redrawActiveCanvas();
     };
@@ -495,7 +575,7 @@ const ImageNodeComponent: React.FC<ImageNodeProps> = (props) => {
       canvas.removeEventListener('pointercancel', onPointerUp);
       canvas.removeEventListener('pointerleave', onPointerLeave);
     };
-  }, [selected, brushActive, isResizing, imgDisplayRect, redrawActiveCanvas, redrawCanvas, persistStrokes]);
+  }, [selected, brushActive, maskActive, isResizing, imgDisplayRect, redrawActiveCanvas, redrawCanvas, persistStrokes, persistMaskStrokes]);
 
   // 容器尺寸变化时重新测量图片位置
   useEffect(() => {
@@ -797,6 +877,7 @@ const ImageNodeComponent: React.FC<ImageNodeProps> = (props) => {
           visible={progress > 0}
           progress={progress}
           borderRadius={16}
+          label={data?.queuePosition ? `排队中 #${data.queuePosition}` : undefined}
           onFadeComplete={() => updateNodeData({ progress: 0 })}
         />
 
@@ -838,83 +919,164 @@ const ImageNodeComponent: React.FC<ImageNodeProps> = (props) => {
           </>
         )}
 
-        {/* 颜色/画笔/应用/复原：整个图片模块框外、上方居中 */}
+        {/* 颜色/画笔/应用/复原/蒙版：整个图片模块框外、上方居中；蒙版模式下切换为蒙版工具 */}
         {selected && (
           <div
             className="nodrag nopan absolute -top-14 left-0 right-0 flex justify-center gap-1.5 z-10"
             style={{ pointerEvents: 'all' }}
           >
-            <div className="relative" ref={colorDropdownRef}>
+            {maskActive ? (
+              <>
+                <button
+                  type="button"
+                  onClick={(e) => { e.stopPropagation(); setMaskTool('paint'); }}
+                  title="涂抹需要重绘的区域"
+                  className={`flex items-center justify-center w-8 h-8 rounded-lg transition-colors ${maskTool === 'paint' ? (isDarkMode ? 'bg-green-500/30 ring-2 ring-green-400/60 text-green-300' : 'bg-green-500/40 ring-2 ring-green-600/70 text-green-700') : (isDarkMode ? 'bg-white/10 text-white/40' : 'bg-black/10 text-gray-400')}`}
+                  aria-label="蒙版画笔"
+                >
+                  <Paintbrush className="w-4 h-4" />
+                </button>
+                <button
+                  type="button"
+                  onClick={(e) => { e.stopPropagation(); setMaskTool('erase'); }}
+                  title="擦除蒙版"
+                  className={`flex items-center justify-center w-8 h-8 rounded-lg transition-colors ${maskTool === 'erase' ? (isDarkMode ? 'bg-green-500/30 ring-2 ring-green-400/60 text-green-300' : 'bg-green-500/40 ring-2 ring-green-600/70 text-green-700') : (isDarkMode ? 'bg-white/10 text-white/40' : 'bg-black/10 text-gray-400')}`}
+                  aria-label="蒙版橡皮擦"
+                >
+                  <Eraser className="w-4 h-4" />
+                </button>
+                <select
+                  value={maskBrushSize}
+                  onChange={(e) => setMaskBrushSize(Number(e.target.value))}
+                  onClick={(e) => e.stopPropagation()}
+                  className={`px-1.5 py-1.5 rounded-lg text-xs font-medium border ${isDarkMode ? 'bg-[#1C1C1E] border-white/20 text-white' : 'bg-white border-black/20 text-gray-800'}`}
+                  title="笔刷大小"
+                  aria-label="笔刷大小"
+                >
+                  {MASK_BRUSH_SIZES.map((value, index) => (
+                    <option key={value} value={value}>
+                      {['细', '中', '粗', '特粗'][index]}
+                    </option>
+                  ))}
+                </select>
+                <label
+                  className={`flex items-center gap-1 px-2 rounded-lg text-xs font-medium ${isDarkMode ? 'bg-white/15 text-white' : 'bg-black/15 text-gray-800'}`}
+                  title="羽化：重绘结果合成回原图时的边缘过渡宽度"
+                >
+                  羽化
+                  <input
+                    type="range"
+                    min={0}
+                    max={MAX_MASK_FEATHER}
+                    step={0.005}
+                    value={maskFeather}
+                    onChange={(e) => updateNodeData({ maskFeather: Number(e.target.value) })}
+                    className="w-16"
+                  />
+                </label>
+                <button
+                  type="button"
+                  onClick={(e) => { e.stopPropagation(); updateNodeData({ maskInverted: !maskInverted }); }}
+                  title={maskInverted ? '取消反选' : '反选：重绘未涂抹的区域'}
+                  className={`flex items-center justify-center w-8 h-8 rounded-lg transition-colors ${maskInverted ? (isDarkMode ? 'bg-green-500/30 ring-2 ring-green-400/60 text-green-300' : 'bg-green-500/40 ring-2 ring-green-600/70 text-green-700') : (isDarkMode ? 'bg-white/10 text-white/40' : 'bg-black/10 text-gray-400')}`}
+                  aria-label="反选蒙版"
+                >
+                  <Contrast className="w-4 h-4" />
+                </button>
+                <button
+                  type="button"
+                  onClick={(e) => { e.stopPropagation(); persistMaskStrokes([]); updateNodeData({ maskInverted: false }); }}
+                  disabled={maskStrokes.length === 0 && !maskInverted}
+                  className={`flex items-center gap-1 px-2 py-1.5 rounded-lg text-xs font-medium ${isDarkMode ? 'bg-white/15 hover:bg-white/25 text-white' : 'bg-black/15 hover:bg-black/25 text-gray-800'} disabled:opacity-50 disabled:cursor-not-allowed`}
+                  title="清空蒙版"
+                >
+                  清空
+                </button>
+              </>
+            ) : (
+              <>
+              <div className="relative" ref={colorDropdownRef}>
+                <button
+                  type="button"
+                  onClick={(e) => { e.stopPropagation(); setShowColorDropdown((v) => !v); }}
+                  className={`flex items-center gap-1.5 min-w-[72px] px-2 py-1.5 rounded-lg text-xs font-medium border ${isDarkMode ? 'bg-white/15 border-white/20 text-white' : 'bg-black/10 border-black/20 text-gray-800'}`}
+                  title="画笔颜色"
+                  aria-label="画笔颜色"
+                  aria-haspopup="listbox"
+                >
+                  <span
+                    className="w-4 h-4 rounded border border-white/40 shrink-0"
+                    style={{ backgroundColor: drawColor }}
+                  />
+                  <span>{DRAW_COLOR_OPTIONS.find((o) => o.value === drawColor)?.label ?? '红'}</span>
+                  <svg className={`w-3.5 h-3.5 shrink-0 transition-transform ${showColorDropdown ? 'rotate-180' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                  </svg>
+                </button>
+                {showColorDropdown && dropdownPosition && createPortal(
+                  <div
+                    ref={colorDropdownPanelRef}
+                    role="listbox"
+                    aria-label="画笔颜色"
+                    className="fixed p-2 rounded-xl shadow-xl border bg-[#1C1C1E] border-white/15"
+                    style={{ left: dropdownPosition.left, bottom: dropdownPosition.bottom + 4 }}
+                    onClick={(e) => e.stopPropagation()}
+                  >
+                    <div className="flex flex-nowrap gap-1.5">
+                      {DRAW_COLOR_OPTIONS.map((opt) => (
+                        <button
+                          key={opt.value}
+                          role="option"
+                          type="button"
+                          onClick={() => { setDrawColor(opt.value); setShowColorDropdown(false); }}
+                          className={`w-7 h-7 rounded-lg border-2 shrink-0 transition-transform hover:scale-105 ${drawColor === opt.value ? 'border-white ring-2 ring-offset-1 ring-offset-black/50 ring-white/60' : 'border-transparent'}`}
+                          style={{ backgroundColor: opt.value }}
+                          title={opt.label}
+                          aria-label={opt.label}
+                        />
+                      ))}
+                    </div>
+                  </div>,
+                  document.body
+                )}
+              </div>
               <button
                 type="button"
-                onClick={(e) => { e.stopPropagation(); setShowColorDropdown((v) => !v); }}
-                className={`flex items-center gap-1.5 min-w-[72px] px-2 py-1.5 rounded-lg text-xs font-medium border ${isDarkMode ? 'bg-white/15 border-white/20 text-white' : 'bg-black/10 border-black/20 text-gray-800'}`}
-                title="画笔颜色"
-                aria-label="画笔颜色"
-                aria-haspopup="listbox"
+                onClick={(e) => { e.stopPropagation(); setBrushActive((v) => !v); setMaskActive(false); }}
+                title={brushActive ? '点击关闭画笔' : '点击激活画笔后可绘制'}
+                className={`flex items-center justify-center w-8 h-8 rounded-lg transition-colors ${brushActive ? (isDarkMode ? 'bg-green-500/30 ring-2 ring-green-400/60 text-green-300' : 'bg-green-500/40 ring-2 ring-green-600/70 text-green-700') : (isDarkMode ? 'bg-white/10 text-white/40' : 'bg-black/10 text-gray-400')}`}
+                aria-label={brushActive ? '画笔已激活' : '激活画笔'}
               >
-                <span
-                  className="w-4 h-4 rounded border border-white/40 shrink-0"
-                  style={{ backgroundColor: drawColor }}
-                />
-                <span>{DRAW_COLOR_OPTIONS.find((o) => o.value === drawColor)?.label ?? '红'}</span>
-                <svg className={`w-3.5 h-3.5 shrink-0 transition-transform ${showColorDropdown ? 'rotate-180' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
-                </svg>
+                <Pencil className="w-4 h-4" />
               </button>
-              {showColorDropdown && dropdownPosition && createPortal(
-                <div
-                  ref={colorDropdownPanelRef}
-                  role="listbox"
-                  aria-label="画笔颜色"
-                  className="fixed p-2 rounded-xl shadow-xl border bg-[#1C1C1E] border-white/15"
-                  style={{ left: dropdownPosition.left, bottom: dropdownPosition.bottom + 4 }}
-                  onClick={(e) => e.stopPropagation()}
-                >
-                  <div className="flex flex-nowrap gap-1.5">
-                    {DRAW_COLOR_OPTIONS.map((opt) => (
-                      <button
-                        key={opt.value}
-                        role="option"
-                        type="button"
-                        onClick={() => { setDrawColor(opt.value); setShowColorDropdown(false); }}
-                        className={`w-7 h-7 rounded-lg border-2 shrink-0 transition-transform hover:scale-105 ${drawColor === opt.value ? 'border-white ring-2 ring-offset-1 ring-offset-black/50 ring-white/60' : 'border-transparent'}`}
-                        style={{ backgroundColor: opt.value }}
-                        title={opt.label}
-                        aria-label={opt.label}
-                      />
-                    ))}
-                  </div>
-                </div>,
-                document.body
-              )}
-            </div>
-            <button
-              type="button"
-              onClick={(e) => { e.stopPropagation(); setBrushActive((v) => !v); }}
-              title={brushActive ? '点击关闭画笔' : '点击激活画笔后可绘制'}
-              className={`flex items-center justify-center w-8 h-8 rounded-lg transition-colors ${brushActive ? (isDarkMode ? 'bg-green-500/30 ring-2 ring-green-400/60 text-green-300' : 'bg-green-500/40 ring-2 ring-green-600/70 text-green-700') : (isDarkMode ? 'bg-white/10 text-white/40' : 'bg-black/10 text-gray-400')}`}
-              aria-label={brushActive ? '画笔已激活' : '激活画笔'}
-            >
-              <Pencil className="w-4 h-4" />
-            </button>
-            <button
-              type="button"
-              onClick={(e) => { e.stopPropagation(); handleApplyMerge(); }}
-              disabled={drawStrokes.length === 0}
-              className={`flex items-center gap-1 px-2 py-1.5 rounded-lg text-xs font-medium disabled:opacity-50 disabled:cursor-not-allowed ${isDarkMode ? 'bg-white/15 hover:bg-white/25 text-white' : 'bg-black/15 hover:bg-black/25 text-gray-800'}`}
-              title="将当前标记融合到图片并覆盖"
-            >
-              应用
-            </button>
+              <button
+                type="button"
+                onClick={(e) => { e.stopPropagation(); handleApplyMerge(); }}
+                disabled={drawStrokes.length === 0}
+                className={`flex items-center gap-1 px-2 py-1.5 rounded-lg text-xs font-medium disabled:opacity-50 disabled:cursor-not-allowed ${isDarkMode ? 'bg-white/15 hover:bg-white/25 text-white' : 'bg-black/15 hover:bg-black/25 text-gray-800'}`}
+                title="将当前标记融合到图片并覆盖"
+              >
+                应用
+              </button>
+              <button
+                type="button"
+                onClick={(e) => { e.stopPropagation(); handleRestore(); }}
+                className={`flex items-center gap-1 px-2 py-1.5 rounded-lg text-xs font-medium ${isDarkMode ? 'bg-white/15 hover:bg-white/25 text-white' : 'bg-black/15 hover:bg-black/25 text-gray-800'}`}
+                title={originalImageForRestore != null ? '还原到原图' : '清空标记'}
+              >
+                <RotateCcw className="w-3.5 h-3.5" />
+                复原
+              </button>
+              </>
+            )}
             <button
               type="button"
-              onClick={(e) => { e.stopPropagation(); handleRestore(); }}
-              className={`flex items-center gap-1 px-2 py-1.5 rounded-lg text-xs font-medium ${isDarkMode ? 'bg-white/15 hover:bg-white/25 text-white' : 'bg-black/15 hover:bg-black/25 text-gray-800'}`}
-              title={originalImageForRestore != null ? '还原到原图' : '清空标记'}
+              onClick={(e) => { e.stopPropagation(); setMaskActive((v) => !v); setBrushActive(false); }}
+              title={maskActive ? '退出蒙版编辑' : '局部重绘：涂抹蒙版后运行，仅重新生成涂抹区域'}
+              className={`flex items-center justify-center w-8 h-8 rounded-lg transition-colors ${maskActive ? (isDarkMode ? 'bg-green-500/30 ring-2 ring-green-400/60 text-green-300' : 'bg-green-500/40 ring-2 ring-green-600/70 text-green-700') : (isDarkMode ? 'bg-white/10 text-white/40' : 'bg-black/10 text-gray-400')}`}
+              aria-label={maskActive ? '蒙版编辑已激活' : '编辑局部重绘蒙版'}
             >
-              <RotateCcw className="w-3.5 h-3.5" />
-              复原
+              <BoxSelect className="w-4 h-4" />
             </button>
           </div>
         )}
@@ -1057,7 +1219,7 @@ const ImageNodeComponent: React.FC<ImageNodeProps> = (props) => {
                   视口外暂停加载
                 </div>
               )}
-              {/* 参考图标记画布叠层（与图片同位置同尺寸）；缩放时不渲染 */}
+              {/* 参考图标记 / 局部重绘蒙版画布叠层（与图片同位置同尺寸）；缩放时不渲染 */}
               {selected && !isResizing && imgDisplayRect && imgDisplayRect.width > 0 && imgDisplayRect.height > 0 && (
                 <>
                   <canvas
@@ -1072,15 +1234,28 @@ const ImageNodeComponent: React.FC<ImageNodeProps> = (props) => {
                       touchAction: 'none',
                     }}
                   />
+                  {(maskActive || maskStrokes.length > 0 || maskInverted) && (
+                    <canvas
+                      ref={maskCanvasRef}
+                      className="absolute rounded-lg nodrag nopan z-20"
+                      style={{
+                        left: imgDisplayRect.left,
+                        top: imgDisplayRect.top,
+                        width: imgDisplayRect.width,
+                        height: imgDisplayRect.height,
+                        pointerEvents: 'none',
+                      }}
+                    />
+                  )}
                   <canvas
                     ref={activeCanvasRef}
-                    className={`absolute rounded-lg nodrag nopan z-30 ${brushActive ? 'cursor-crosshair' : ''}`}
+                    className={`absolute rounded-lg nodrag nopan z-30 ${brushActive || maskActive ? 'cursor-crosshair' : ''}`}
                     style={{
                       left: imgDisplayRect.left,
                       top: imgDisplayRect.top,
                       width: imgDisplayRect.width,
                       height: imgDisplayRect.height,
-                      pointerEvents: brushActive ? 'all' : 'none',
+                      pointerEvents: brushActive || maskActive ? 'all' : 'none',
                       touchAction: 'none',
                     }}
                   />
@@ -1099,6 +1274,13 @@ const ImageNodeComponent: React.FC<ImageNodeProps> = (props) => {
                 </div>
               )}
             </>
+          ) : data?.cancelled ? (
+            <div className="flex flex-col items-center justify-center gap-2 p-4">
+              <Ban className={`w-6 h-6 ${isDarkMode ? 'text-white/40' : 'text-gray-400'}`} />
+              <p className={`text-sm font-semibold text-center ${isDarkMode ? 'text-white/60' : 'text-gray-500'}`}>
+                已取消
+              </p>
+            </div>
           ) : errorMessage ? (
             <div className="flex flex-col items-center justify-center gap-3 p-4">
               <div className={`text-2xl ${isDarkMode ? 'text-red-400' : 'text-red-600'}`}>
@@ -1110,6 +1292,7 @@ const ImageNodeComponent: React.FC<ImageNodeProps> = (props) => {
               <p className={`text-xs text-center line-clamp-3 ${isDarkMode ? 'text-white/60' : 'text-gray-600'}`}>
                 {errorMessage}
               </p>
+              <ErrorActionHint errorCode={data?.errorCode} isDarkMode={isDarkMode} onOpenSettings={onOpenSettings} />
             </div>
           ) : (
             <p className={isDarkMode ? 'text-white/60' : 'text-gray-500'}>
@@ -1149,7 +1332,7 @@ const ImageNodeComponent: React.FC<ImageNodeProps> = (props) => {
                 } catch (err: any) {
                   const msg = err?.message || '抠图失败';
                   setErrorMessage(msg);
-                  updateNodeData({ errorMessage: msg });
+                  updateNodeData({ errorMessage: msg, errorCode: undefined });
                 } finally {
                   setIsMattingLoading(false);
                 }
@@ -1196,7 +1379,7 @@ const ImageNodeComponent: React.FC<ImageNodeProps> = (props) => {
                 } catch (err: any) {
                   const msg = err?.message || '去水印失败';
                   setErrorMessage(msg);
-                  updateNodeData({ errorMessage: msg });
+                  updateNodeData({ errorMessage: msg, errorCode: undefined });
                 } finally {
                   setIsWatermarkRemovalLoading(false);
                 }
@@ -1327,6 +1510,9 @@ const ImageNodeComponent: React.FC<ImageNodeProps> = (props) => {
             isDarkMode ? 'border-white/40' : 'border-gray-400/60'
           }`} />
         </div>
+        {data?.fanOutItems && data.fanOutItems.length > 0 && (
+          <FanOutGallery nodeId={id} nodeType="image" items={data.fanOutItems} isDarkMode={isDarkMode} onRetry={onFanOutRetry} />
+        )}
         </>
         )}
       </div>
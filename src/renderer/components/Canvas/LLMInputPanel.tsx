@@ -1,8 +1,10 @@
 /* eslint-disable react/forbid-dom-props */
-import React, { useState, useRef, useCallback, useEffect } from 'react';
+import React, { useState, useRef, useCallback, useEffect, useMemo } from 'react';
 import { Save, Play, Trash2 } from 'lucide-react';
 import { useAI } from '../../hooks/useAI';
 import { getImageReversePrice } from '../../utils/priceCalc';
+import { renderPromptTemplate, type TemplateVariable } from '../../utils/promptTemplate';
+import PromptTemplateField from './PromptTemplateField';
 
 interface LLMInputPanelProps {
   nodeId: string;
@@ -21,17 +23,31 @@ interface LLMInputPanelProps {
   /** 图像反推模型：gpt-4o | joy-caption-two */
   reverseCaptionModel?: 'gpt-4o' | 'joy-caption-two';
   onReverseCaptionModelChange?: (value: 'gpt-4o' | 'joy-caption-two') => void;
+  /** LLM 端点 ID（设置中配置的 OpenAI 兼容端点；缺省为内置核心算力） */
+  endpointId?: string;
+  /** 自定义端点下使用的模型 */
+  endpointModel?: string;
+  onEndpointChange?: (endpointId: string, model: string) => void;
   projectId?: string;
   // 节点标题，用于资源保存
   nodeTitle?: string;
   onUserInputChange: (value: string) => void;
   onInputTextChange: (value: string) => void;
+  /** 用户输入模板（{{变量}} 引用上游节点，启用时运行前解析为用户输入） */
+  promptTemplate?: string;
+  /** 当前节点可用的模板变量 */
+  templateVariables?: TemplateVariable[];
+  onPromptTemplateChange?: (value: string) => void;
   onSavedPromptsChange: (prompts: Array<{ id: string; name: string; content: string }>) => void;
   onOutputTextChange: (text: string) => void;
   // 当选择的人设变化时，用于同步到 LLM 节点小标题
   onPersonaChange?: (personaName: string | null) => void;
 }
 
+/** 内置核心算力端点 ID 与默认模型（与主进程 llmEndpoints 一致） */
+const DEFAULT_ENDPOINT_ID = 'bltcy';
+const DEFAULT_CHAT_MODEL = 'gpt-3.5-turbo';
+
 /** LLM 快捷标签：点击可快速填入系统人设文案 */
 const LLM_QUICK_TAGS: { label: string; content: string; color: string }[] = [
   {
@@ -327,12 +343,18 @@ const LLMInputPanel: React.FC<LLMInputPanelProps> = ({
   imageUrlForReverse,
   reverseCaptionModel = 'gpt-4o',
   onReverseCaptionModelChange,
+  endpointId = DEFAULT_ENDPOINT_ID,
+  endpointModel = '',
+  onEndpointChange,
   isInputLocked,
   savedPrompts,
   projectId,
   nodeTitle,
   onUserInputChange,
   onInputTextChange,
+  promptTemplate = '',
+  templateVariables = [],
+  onPromptTemplateChange,
   onSavedPromptsChange,
   onOutputTextChange,
   onPersonaChange,
@@ -345,6 +367,18 @@ const LLMInputPanel: React.FC<LLMInputPanelProps> = ({
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [personaToDelete, setPersonaToDelete] = useState<{ id: string; name: string } | null>(null);
   const dropdownRef = useRef<HTMLDivElement>(null);
+  const [llmEndpoints, setLlmEndpoints] = useState<Array<{ id: string; name: string; models: string[] }>>([]);
+
+  // 加载设置中配置的 LLM 端点
+  useEffect(() => {
+    window.electronAPI?.getLLMEndpoints()
+      .then((endpoints) => setLlmEndpoints(endpoints || []))
+      .catch((error) => console.error('[LLMInputPanel] 加载 LLM 端点失败:', error));
+  }, []);
+
+  const isCustomEndpoint = endpointId !== DEFAULT_ENDPOINT_ID;
+  const currentEndpoint = isCustomEndpoint ? llmEndpoints.find((e) => e.id === endpointId) : undefined;
+  const chatModel = isCustomEndpoint ? endpointModel.trim() : DEFAULT_CHAT_MODEL;
 
   // 获取光标颜色样式（caretColor 必须通过内联样式设置，CSS 类无法实现）
   // eslint-disable-next-line react-hooks/exhaustive-deps
@@ -522,6 +556,14 @@ const LLMInputPanel: React.FC<LLMInputPanelProps> = ({
 
 
   // 执行 AI
+  // 用户输入模板：启用时以解析结果作为用户输入（图像反推模式不使用）
+  const renderedTemplate = useMemo(
+    () => (!isImageReverseMode && promptTemplate.trim() ? renderPromptTemplate(promptTemplate, templateVariables) : null),
+    [isImageReverseMode, promptTemplate, templateVariables]
+  );
+  const effectiveInputText = renderedTemplate ? renderedTemplate.text : inputText;
+  const templateError = renderedTemplate?.missing.length ? `未找到模板变量：${renderedTemplate.missing.join('、')}` : null;
+
   const handleExecuteAI = useCallback(async () => {
     // 图像反推模式：构造带 image_url 的消息
     if (isImageReverseMode && imageUrlForReverse) {
@@ -568,7 +610,14 @@ const LLMInputPanel: React.FC<LLMInputPanelProps> = ({
       });
     }
 
-    const finalUserInput = inputText.trim();
+    if (templateError) {
+      return;
+    }
+    const finalUserInput = effectiveInputText.trim();
+    // 模板解析结果写回用户输入，任务记录保存实际使用的内容
+    if (renderedTemplate) {
+      onInputTextChange(finalUserInput);
+    }
     if (finalUserInput) {
       messages.push({
         role: 'user',
@@ -582,28 +631,32 @@ const LLMInputPanel: React.FC<LLMInputPanelProps> = ({
 
     try {
       await executeAI({
-        model: 'gpt-3.5-turbo',
+        model: chatModel,
+        ...(isCustomEndpoint ? { endpointId } : {}),
         messages,
         temperature: 0.7,
         max_tokens: 2000,
-        stream: false,
+        stream: true, // SSE 流式输出，节点实时展示
         projectId: projectId, // 传递项目ID用于资源保存
         nodeTitle: nodeTitle || 'llm', // 传递节点标题用于资源保存
       });
     } catch (error) {
       console.error('AI 调用失败:', error);
     }
-  }, [userInput, inputText, executeAI, isImageReverseMode, imageUrlForReverse, reverseCaptionModel, projectId, nodeTitle]);
+  }, [userInput, effectiveInputText, templateError, renderedTemplate, onInputTextChange, executeAI, isImageReverseMode, imageUrlForReverse, reverseCaptionModel, projectId, nodeTitle, chatModel, isCustomEndpoint, endpointId]);
 
   const hasUserContent =
     (isImageReverseMode ? !!imageUrlForReverse : false) ||
     userInput.trim().length > 0 ||
-    inputText.trim().length > 0;
+    effectiveInputText.trim().length > 0;
   // 处理运行中状态：除了 idle/SUCCESS/ERROR 之外的状态都视为运行中（包括 START / PROCESSING）
   // 按钮禁用逻辑：只基于当前模块自己的状态
   const isProcessing = aiStatus !== 'idle' && aiStatus !== 'SUCCESS' && aiStatus !== 'ERROR';
   const isRunDisabled =
-    isProcessing || (!hasUserContent && !(isImageReverseMode && imageUrlForReverse));
+    isProcessing ||
+    (!hasUserContent && !(isImageReverseMode && imageUrlForReverse)) ||
+    (!isImageReverseMode && !chatModel) ||
+    !!templateError;
   
   // 调试日志：确认每个模块的状态是独立的
   useEffect(() => {
@@ -696,6 +749,63 @@ const LLMInputPanel: React.FC<LLMInputPanelProps> = ({
             )}
           </div>
         </div>
+        {/* 文本对话模式下：端点与模型选择 */}
+        {!isImageReverseMode && (
+          <div className="flex items-center gap-1.5 flex-shrink-0">
+            <span className={`text-xs ${isDarkMode ? 'text-white/70' : 'text-gray-600'}`}>端点:</span>
+            <select
+              value={isCustomEndpoint && !currentEndpoint ? '' : endpointId}
+              onChange={(e) => {
+                const next = llmEndpoints.find((ep) => ep.id === e.target.value);
+                onEndpointChange?.(e.target.value, next?.models[0] || '');
+              }}
+              className={`px-2 py-1 rounded-lg text-xs max-w-[120px] ${
+                isDarkMode ? 'bg-black/30 text-white border border-gray-600/50' : 'bg-white/90 text-gray-900 border border-gray-300'
+              } outline-none`}
+              title="选择 LLM 端点（在设置中添加 OpenAI 兼容端点）"
+            >
+              <option value={DEFAULT_ENDPOINT_ID}>核心算力</option>
+              {isCustomEndpoint && !currentEndpoint && (
+                <option value="" disabled>端点已删除</option>
+              )}
+              {llmEndpoints.map((ep) => (
+                <option key={ep.id} value={ep.id}>
+                  {ep.name}
+                </option>
+              ))}
+            </select>
+            {isCustomEndpoint && currentEndpoint && (
+              currentEndpoint.models.length > 0 ? (
+                <select
+                  value={endpointModel}
+                  onChange={(e) => onEndpointChange?.(endpointId, e.target.value)}
+                  className={`px-2 py-1 rounded-lg text-xs max-w-[140px] ${
+                    isDarkMode ? 'bg-black/30 text-white border border-gray-600/50' : 'bg-white/90 text-gray-900 border border-gray-300'
+                  } outline-none`}
+                  title="选择模型"
+                >
+                  {!currentEndpoint.models.includes(endpointModel) && <option value={endpointModel}>{endpointModel || '选择模型'}</option>}
+                  {currentEndpoint.models.map((m) => (
+                    <option key={m} value={m}>
+                      {m}
+                    </option>
+                  ))}
+                </select>
+              ) : (
+                <input
+                  type="text"
+                  value={endpointModel}
+                  onChange={(e) => onEndpointChange?.(endpointId, e.target.value)}
+                  placeholder="模型名"
+                  className={`px-2 py-1 rounded-lg text-xs w-28 ${
+                    isDarkMode ? 'bg-black/30 text-white border border-gray-600/50' : 'bg-white/90 text-gray-900 border border-gray-300'
+                  } outline-none`}
+                  title="填写模型名"
+                />
+              )
+            )}
+          </div>
+        )}
         {/* 图像反推模式下：反推模型选择 */}
         {isImageReverseMode && (
           <div className="flex items-center gap-1.5 flex-shrink-0">
@@ -730,6 +840,7 @@ const LLMInputPanel: React.FC<LLMInputPanelProps> = ({
         <button
           onClick={handleExecuteAI}
           disabled={isRunDisabled}
+          title={templateError || undefined}
           className={`px-3 py-1 rounded-lg text-xs flex items-center gap-1.5 flex-shrink-0 ${
             isRunDisabled
               ? 'bg-gray-500/50 text-white/50 cursor-not-allowed'
@@ -870,6 +981,16 @@ const LLMInputPanel: React.FC<LLMInputPanelProps> = ({
           title="系统人设提示词输入"
           style={getCaretColorStyle()}
         />
+        {!isImageReverseMode && onPromptTemplateChange && (
+          <div className="mt-2 flex-shrink-0">
+            <PromptTemplateField
+              template={promptTemplate}
+              variables={templateVariables}
+              isDarkMode={isDarkMode}
+              onChange={onPromptTemplateChange}
+            />
+          </div>
+        )}
         {/* 底部用户输入框（可手动输入或由 Text 节点连线自动填充，图像反推模式下隐藏） */}
         <div className={`mt-2 flex-shrink-0 ${isImageReverseMode ? 'hidden' : ''}`}>
           <label className={`block text-xs font-medium mb-1 ${isDarkMode ? 'text-white/80' : 'text-gray-900'} flex items-center gap-2`}>
@@ -1,8 +1,9 @@
 import React, { useState, useRef, useEffect, useCallback, useMemo, memo } from 'react';
 import { Handle, Position, NodeProps, useReactFlow, useUpdateNodeInternals, useStoreApi, useStore } from 'reactflow';
-import { Copy, Pencil, Check, AlignLeft, AlignCenter, AlignRight, Bold, Italic } from 'lucide-react';
-import { useAI } from '../../hooks/useAI';
+import { Copy, Pencil, Check, AlignLeft, AlignCenter, AlignRight, Bold, Italic, Ban, Square } from 'lucide-react';
+import { useAI, type AIErrorCode } from '../../hooks/useAI';
 import { ModuleProgressBar } from './ModuleProgressBar';
+import ErrorActionHint from './ErrorActionHint';
 
 interface LLMNodeData {
   prompt?: string;
@@ -17,8 +18,15 @@ interface LLMNodeData {
   outputText?: string;
   userInput?: string;
   systemPrompt?: string;
+  /** LLM 端点 ID（设置中配置的 OpenAI 兼容端点；缺省为内置核心算力） */
+  endpointId?: string;
+  /** 自定义端点下使用的模型 */
+  endpointModel?: string;
   title?: string;
   errorMessage?: string;
+  errorCode?: AIErrorCode; // 错误分类（决定错误区展示的操作提示）
+  cancelled?: boolean; // 任务已被用户取消
+  queuePosition?: number; // 调度排队位置（排队等待时显示）
   isUserResized?: boolean; // 标记用户是否手动调整过尺寸
   /** 输出文本对齐 */
   textAlign?: 'left' | 'center' | 'right';
@@ -31,6 +39,8 @@ interface LLMNodeData {
 interface LLMNodeProps extends NodeProps<LLMNodeData> {
   isDarkMode?: boolean;
   performanceMode?: boolean;
+  /** 错误提示中「前往设置」的回调（保存项目后跳转设置页） */
+  onOpenSettings?: () => void;
 }
 
 const LLMNodeComponent: React.FC<LLMNodeProps> = (props) => {
@@ -41,6 +51,7 @@ const LLMNodeComponent: React.FC<LLMNodeProps> = (props) => {
     selected,
     isDarkMode = true,
     performanceMode = false,
+    onOpenSettings,
     // React Flow 专有属性，不应传递给 DOM（显式解构以过滤）
     xPos,
     yPos,
@@ -100,6 +111,8 @@ const LLMNodeComponent: React.FC<LLMNodeProps> = (props) => {
   const [isHovered, setIsHovered] = useState(false);
   const [showCopySuccess, setShowCopySuccess] = useState(false);
   const [errorMessage, setErrorMessage] = useState(data?.errorMessage || '');
+  // 流式输出中的文本（仅用于实时展示，完成后才写入 outputText）
+  const [streamingText, setStreamingText] = useState('');
   const [isTimerRunning, setIsTimerRunning] = useState(false);
   const [elapsedSeconds, setElapsedSeconds] = useState(0);
   const timerIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
@@ -114,7 +127,7 @@ const LLMNodeComponent: React.FC<LLMNodeProps> = (props) => {
   const outputTextareaRef = useRef<HTMLTextAreaElement>(null);
 
   // AI Hook（仅用于接收状态更新）
-  const { status: aiStatus } = useAI({
+  const { status: aiStatus, cancel: cancelAI } = useAI({
     nodeId: id,
     modelId: 'chat',
     onStatusUpdate: (packet) => {
@@ -129,7 +142,14 @@ const LLMNodeComponent: React.FC<LLMNodeProps> = (props) => {
       if (packet.status === 'START') {
         setIsTimerRunning(true);
         setElapsedSeconds(0);
-      } else if (packet.status === 'SUCCESS' || packet.status === 'ERROR') {
+        setStreamingText('');
+      } else if (packet.status === 'PROCESSING' && packet.payload?.delta) {
+        const delta = packet.payload.delta;
+        setStreamingText((prev) => prev + delta);
+        return;
+      } else if (packet.status === 'SUCCESS' || packet.status === 'ERROR' || packet.status === 'CANCELLED') {
+        // 完成、失败或取消时丢弃流式中间结果：成功时以 SUCCESS 的完整文本写入 outputText
+        setStreamingText('');
         setIsTimerRunning(false);
         if (timerIntervalRef.current) {
           clearInterval(timerIntervalRef.current);
@@ -168,6 +188,12 @@ const LLMNodeComponent: React.FC<LLMNodeProps> = (props) => {
         });
         return;
       }
+
+      // CANCELLED 状态：清除错误信息，由 Workspace 标记 cancelled
+      if (packet.status === 'CANCELLED') {
+        setErrorMessage('');
+        return;
+      }
     },
     onComplete: (result) => {
       if (result?.text && typeof result.text === 'string' && result.text.trim()) {
@@ -562,15 +588,34 @@ const LLMNodeComponent: React.FC<LLMNodeProps> = (props) => {
 
         {/* 全模块覆盖进度条（与 Image 模块相同：匀速循环 0%→100% 动画） */}
         <ModuleProgressBar
-          visible={showTimer}
+          visible={showTimer && !streamingText}
           progress={data?.progress ?? 0}
           borderRadius={16}
+          label={data?.queuePosition ? `排队中 #${data.queuePosition}` : undefined}
           onFadeComplete={() => updateNodeData({ progress: 0 })}
         />
 
+        {/* 生成中：右上角停止按钮（位于进度遮罩之上） */}
+        {showTimer && (
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              cancelAI();
+            }}
+            onMouseDown={(e) => e.stopPropagation()}
+            className={`nodrag absolute top-2 right-2 p-1.5 rounded-lg transition-all ${
+              isDarkMode ? 'apple-panel hover:bg-white/20' : 'apple-panel-light hover:bg-gray-200/30'
+            }`}
+            style={{ zIndex: 60 }}
+            title="停止生成"
+          >
+            <Square className={`w-3.5 h-3.5 ${isDarkMode ? 'text-white/80' : 'text-gray-700'}`} />
+          </button>
+        )}
+
         {/* 模块内右上角复制按钮 */}
         {/* 复制成功后显示勾标记，否则显示复制按钮 */}
-        {selected && outputText && (
+        {selected && outputText && !showTimer && (
           <button
             onClick={handleCopyOutput}
             className={`absolute top-2 right-2 p-1.5 rounded-lg transition-all z-10 ${
@@ -611,7 +656,28 @@ const LLMNodeComponent: React.FC<LLMNodeProps> = (props) => {
                    <p className={`text-xs text-center line-clamp-3 ${isDarkMode ? 'text-white/60' : 'text-gray-600'}`}>
                      {errorMessage}
                    </p>
+                   <ErrorActionHint errorCode={data?.errorCode} isDarkMode={isDarkMode} onOpenSettings={onOpenSettings} />
                  </div>
+               ) : data?.cancelled && !outputText && !showTimer ? (
+                 <div className="flex flex-col items-center justify-center gap-2 p-4">
+                   <Ban className={`w-6 h-6 ${isDarkMode ? 'text-white/40' : 'text-gray-400'}`} />
+                   <p className={`text-sm font-semibold text-center ${isDarkMode ? 'text-white/60' : 'text-gray-500'}`}>
+                     已取消
+                   </p>
+                 </div>
+               ) : showTimer && streamingText ? (
+                 // 流式输出中：实时展示已收到的文本
+                 <p
+                   className={`w-full h-full break-words whitespace-pre-wrap ${
+                     textAlign === 'left' ? 'text-left' : textAlign === 'right' ? 'text-right' : 'text-center'
+                   } ${fontWeight === 'bold' ? 'font-bold' : ''} ${fontStyle === 'italic' ? 'italic' : ''} ${
+                     isDarkMode ? 'text-white/80' : 'text-gray-900'
+                   }`}
+                   style={{ maxWidth: '100%', wordBreak: 'break-word', overflowWrap: 'break-word' }}
+                 >
+                   {streamingText}
+                   <span className="inline-block w-1.5 h-3.5 ml-0.5 align-middle bg-current opacity-60 animate-pulse" />
+                 </p>
                ) : showTimer ? (
                  // 生成中状态：由 ModuleProgressBar 全模块遮罩展示进度条动画，此处仅保留占位文案
                  <p className={`text-xs text-center ${isDarkMode ? 'text-white/40' : 'text-gray-500'}`}>
@@ -216,6 +216,13 @@ export const MinimalistTextNode: React.FC<MinimalistTextNodeProps> = (props) =>
         });
         return;
       }
+
+      // CANCELLED 状态：清除进度条
+      if (packet.status === 'CANCELLED') {
+        setProgress(0);
+        setProgressMessage('');
+        return;
+      }
     },
     onComplete: (result) => {
       // 完成回调：确保结果正确显示
@@ -0,0 +1,132 @@
+import React from 'react';
+import {
+  isParamVisible,
+  resolveParamValue,
+  type ImageGenerationMode,
+  type ModelParamSpec,
+  type ModelParamValue,
+  type VideoGenerationMode,
+} from '../../../main/ai/modelCatalog';
+
+interface ModelParamControlsProps {
+  /** 模型参数表（见模型目录） */
+  params: readonly ModelParamSpec[];
+  /** 当前取值，键为参数 key */
+  values: Record<string, unknown>;
+  /** 当前生成模式，用于判断参数是否显示 */
+  mode: VideoGenerationMode | ImageGenerationMode;
+  isDarkMode: boolean;
+  onChange: (key: string, value: ModelParamValue) => void;
+}
+
+/**
+ * 按模型参数表渲染输入面板控件（下拉、滑块、复选框、文本、参考图数量）
+ */
+const ModelParamControls: React.FC<ModelParamControlsProps> = ({ params, values, mode, isDarkMode, onChange }) => {
+  const labelClass = `text-xs ${isDarkMode ? 'text-white/70' : 'text-gray-700'}`;
+  const inputClass = `px-2 py-1 rounded-lg text-xs ${
+    isDarkMode ? 'bg-black/30 text-white border border-gray-600/50' : 'bg-white/90 text-gray-900 border border-gray-300'
+  } outline-none`;
+
+  return (
+    <>
+      {params.filter((param) => isParamVisible(param, mode)).map((param) => {
+        const value = resolveParamValue(param, values);
+
+        switch (param.type) {
+          case 'enum':
+            return (
+              <React.Fragment key={param.key}>
+                <span className={labelClass}>{param.label}:</span>
+                <select
+                  value={value as string}
+                  onChange={(e) => onChange(param.key, e.target.value)}
+                  className={inputClass}
+                  title={param.description || `选择${param.label}`}
+                >
+                  {param.options?.map((opt) => (
+                    <option key={opt.value} value={opt.value}>
+                      {opt.label}
+                    </option>
+                  ))}
+                </select>
+              </React.Fragment>
+            );
+          case 'range': {
+            const num = Number(value ?? param.min ?? 0);
+            return (
+              <React.Fragment key={param.key}>
+                <span className={labelClass}>{param.label}:</span>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="range"
+                    min={param.min}
+                    max={param.max}
+                    step={param.step}
+                    value={num}
+                    onChange={(e) => onChange(param.key, parseFloat(e.target.value))}
+                    className="w-24"
+                    title={param.description}
+                  />
+                  <span className={`${labelClass} w-8`}>{param.step && param.step < 1 ? num.toFixed(1) : num}</span>
+                </div>
+              </React.Fragment>
+            );
+          }
+          case 'boolean': {
+            const checked = param.trueValue !== undefined ? value === param.trueValue : value === true;
+            return (
+              <label key={param.key} className="flex items-center gap-1 text-xs cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={checked}
+                  onChange={(e) =>
+                    onChange(
+                      param.key,
+                      param.trueValue !== undefined
+                        ? e.target.checked
+                          ? param.trueValue
+                          : param.falseValue ?? ''
+                        : e.target.checked
+                    )
+                  }
+                  className="rounded border-gray-400"
+                  title={param.description}
+                />
+                <span className={isDarkMode ? 'text-white/70' : 'text-gray-700'}>{param.label}</span>
+              </label>
+            );
+          }
+          case 'text':
+            return (
+              <input
+                key={param.key}
+                type="text"
+                value={(value as string) || ''}
+                onChange={(e) => onChange(param.key, e.target.value)}
+                placeholder={param.label}
+                className={`${inputClass} w-28`}
+                title={param.description || param.label}
+              />
+            );
+          case 'image-slot': {
+            const count = (value as string[]).length;
+            return (
+              <span
+                key={param.key}
+                className={`text-xs font-medium px-2 py-1 rounded whitespace-nowrap ${
+                  isDarkMode ? 'text-white/50 bg-white/10' : 'text-gray-500 bg-gray-100'
+                }`}
+                title={`当前模型最多支持 ${param.max} 张参考图（通过连线接入）`}
+              >
+                {param.label} {count}/{param.max} 张
+              </span>
+            );
+          }
+        }
+      })}
+    </>
+  );
+};
+
+export default ModelParamControls;
@@ -11,6 +11,8 @@ export interface ModuleProgressBarProps {
   fadeDurationMs?: number;
   /** 可选：进度达到 100% 并渐隐结束后回调 */
   onFadeComplete?: () => void;
+  /** 可选：遮罩中央的状态文案（如「排队中 #3」） */
+  label?: string;
 }
 
 /**
@@ -23,6 +25,7 @@ export const ModuleProgressBar: React.FC<ModuleProgressBarProps> = ({
   borderRadius = 16,
   fadeDurationMs = 300,
   onFadeComplete,
+  label,
 }) => {
   const clampedProgress = Math.max(0, Math.min(100, progress));
   const isComplete = clampedProgress >= 100;
@@ -64,6 +67,20 @@ export const ModuleProgressBar: React.FC<ModuleProgressBarProps> = ({
           borderRadius: `${borderRadius}px`,
         }}
       />
+      {label && (
+        <div
+          className="text-xs font-medium text-white/90"
+          style={{
+            position: 'absolute',
+            left: 0,
+            right: 0,
+            bottom: 'calc(24% + 16px)',
+            textAlign: 'center',
+          }}
+        >
+          {label}
+        </div>
+      )}
       {/* 进度条轨道：底部居中，宽度 80%，高度 8px */}
       <div
         style={{
@@ -0,0 +1,129 @@
+import React from 'react';
+import { PlayCircle, ArrowRightToLine, ArrowRightFromLine, Square, XOctagon, Group } from 'lucide-react';
+import type { GraphRunMode } from '../../utils/graphExecutor';
+
+interface NodeRunMenuProps {
+  x: number;
+  y: number;
+  nodeId: string;
+  /** 锚点节点是否为可运行节点（LLM/图片/视频/声音）；非可运行节点只展示「从此处运行」与「运行全部」 */
+  isRunnable: boolean;
+  isRunning?: boolean;
+  /** 锚点节点是否有运行中的任务（显示「停止此节点」） */
+  isNodeRunning?: boolean;
+  onClose: () => void;
+  onRun: (mode: GraphRunMode, anchorIds: string[]) => void;
+  onStopNode?: (nodeId: string) => void;
+  onStopAll?: () => void;
+  /** 右键节点在多选之中时提供：把选中节点成组 */
+  onGroupSelected?: () => void;
+}
+
+const NodeRunMenu: React.FC<NodeRunMenuProps> = ({
+  x,
+  y,
+  nodeId,
+  isRunnable,
+  isRunning = false,
+  isNodeRunning = false,
+  onClose,
+  onRun,
+  onStopNode,
+  onStopAll,
+  onGroupSelected,
+}) => {
+  const items: Array<{ mode: GraphRunMode; label: string; icon: typeof PlayCircle; visible: boolean }> = [
+    { mode: 'from', label: '从此处运行', icon: ArrowRightFromLine, visible: true },
+    { mode: 'to', label: '运行到此处', icon: ArrowRightToLine, visible: isRunnable },
+    { mode: 'all', label: '运行全部', icon: PlayCircle, visible: true },
+  ];
+
+  return (
+    <>
+      {/* 背景遮罩，点击关闭菜单 */}
+      <div
+        className="fixed inset-0 z-40"
+        onClick={onClose}
+        onContextMenu={(e) => {
+          e.preventDefault();
+          onClose();
+        }}
+      />
+      <div
+        className="fixed z-50 apple-panel rounded-lg py-2 min-w-[140px] shadow-xl animate-menu-expand"
+        style={{
+          left: `${x}px`,
+          top: `${y}px`,
+        }}
+        onClick={(e) => e.stopPropagation()}
+        onContextMenu={(e) => e.preventDefault()}
+      >
+        {items.filter((item) => item.visible).map((item) => {
+          const Icon = item.icon;
+          return (
+            <button
+              key={item.mode}
+              disabled={isRunning}
+              onClick={() => {
+                onRun(item.mode, item.mode === 'all' ? [] : [nodeId]);
+                onClose();
+              }}
+              className={`w-full px-4 py-2 flex items-center gap-3 text-white transition-colors text-sm ${
+                isRunning ? 'opacity-50 cursor-not-allowed' : 'hover:bg-white/15'
+              }`}
+              title={isRunning ? '工作流运行中…' : undefined}
+            >
+              <Icon className="w-4 h-4 text-white/60" />
+              <span>{item.label}</span>
+            </button>
+          );
+        })}
+        {onGroupSelected && (
+          <>
+            <div className="my-1 border-t border-white/10" />
+            <button
+              onClick={() => {
+                onGroupSelected();
+                onClose();
+              }}
+              className="w-full px-4 py-2 flex items-center gap-3 text-white transition-colors text-sm hover:bg-white/15"
+            >
+              <Group className="w-4 h-4 text-white/60" />
+              <span>选中节点成组</span>
+              <span className="ml-auto text-xs text-white/40">Ctrl+G</span>
+            </button>
+          </>
+        )}
+        {((isNodeRunning && onStopNode) || (isRunning && onStopAll)) && (
+          <div className="my-1 border-t border-white/10" />
+        )}
+        {isNodeRunning && onStopNode && (
+          <button
+            onClick={() => {
+              onStopNode(nodeId);
+              onClose();
+            }}
+            className="w-full px-4 py-2 flex items-center gap-3 text-white transition-colors text-sm hover:bg-white/15"
+          >
+            <Square className="w-4 h-4 text-white/60" />
+            <span>停止此节点</span>
+          </button>
+        )}
+        {isRunning && onStopAll && (
+          <button
+            onClick={() => {
+              onStopAll();
+              onClose();
+            }}
+            className="w-full px-4 py-2 flex items-center gap-3 text-white transition-colors text-sm hover:bg-white/15"
+          >
+            <XOctagon className="w-4 h-4 text-white/60" />
+            <span>停止工作流</span>
+          </button>
+        )}
+      </div>
+    </>
+  );
+};
+
+export default NodeRunMenu;
@@ -0,0 +1,111 @@
+import React, { useCallback, useMemo, useRef, useState } from 'react';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import { renderPromptTemplate, type TemplateVariable } from '../../utils/promptTemplate';
+
+interface PromptTemplateFieldProps {
+  /** 提示词模板（为空表示不启用，沿用连线拼接的输入） */
+  template: string;
+  /** 当前节点可用的具名上游输入 */
+  variables: TemplateVariable[];
+  isDarkMode: boolean;
+  onChange: (value: string) => void;
+}
+
+/** 变量值预览（悬停提示用） */
+const previewValue = (variable: TemplateVariable): string => {
+  const text = typeof variable.value === 'string' ? variable.value : JSON.stringify(variable.value);
+  return text.length > 200 ? `${text.slice(0, 200)}…` : text;
+};
+
+/**
+ * 输入面板中的提示词模板编辑区：模板输入、可用变量、解析结果预览
+ * 没有上游文本输入且未设置模板时不显示
+ */
+const PromptTemplateField: React.FC<PromptTemplateFieldProps> = ({ template, variables, isDarkMode, onChange }) => {
+  const [expanded, setExpanded] = useState(!!template.trim());
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const rendered = useMemo(() => renderPromptTemplate(template, variables), [template, variables]);
+
+  // 在光标处插入占位符
+  const insertPlaceholder = useCallback((name: string) => {
+    const placeholder = `{{${name}}}`;
+    const el = textareaRef.current;
+    const start = el?.selectionStart ?? template.length;
+    const end = el?.selectionEnd ?? template.length;
+    onChange(template.slice(0, start) + placeholder + template.slice(end));
+    requestAnimationFrame(() => {
+      if (!el) return;
+      el.focus();
+      el.setSelectionRange(start + placeholder.length, start + placeholder.length);
+    });
+  }, [template, onChange]);
+
+  if (variables.length === 0 && !template.trim()) return null;
+
+  const mutedClass = isDarkMode ? 'text-white/50' : 'text-gray-500';
+
+  return (
+    <div className={`rounded-lg border p-2 space-y-1.5 ${isDarkMode ? 'border-gray-600/50' : 'border-gray-300/50'}`}>
+      <button
+        type="button"
+        onClick={() => setExpanded((v) => !v)}
+        className={`flex items-center gap-1 text-xs font-medium ${isDarkMode ? 'text-white/80' : 'text-gray-700'}`}
+        title="使用 {{变量}} 引用上游节点内容，运行时替换"
+      >
+        {expanded ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+        提示词模板
+        {template.trim() && <span className="px-1.5 rounded bg-blue-500/80 text-white text-[10px]">已启用</span>}
+      </button>
+      {expanded && (
+        <>
+          <div className="flex flex-wrap items-center gap-1">
+            {variables.map((variable) => (
+              <button
+                key={variable.sourceNodeId}
+                type="button"
+                onClick={() => insertPlaceholder(variable.name)}
+                className={`px-1.5 py-0.5 text-xs rounded border font-mono ${
+                  isDarkMode ? 'border-white/20 text-white/80 hover:bg-white/10' : 'border-gray-300 text-gray-700 hover:bg-gray-100'
+                }`}
+                title={previewValue(variable)}
+              >
+                {`{{${variable.name}}}`}
+              </button>
+            ))}
+            {variables.length === 0 && <span className={`text-xs ${mutedClass}`}>暂无上游文本输入</span>}
+          </div>
+          <textarea
+            ref={textareaRef}
+            value={template}
+            onChange={(e) => onChange(e.target.value)}
+            rows={3}
+            className={`w-full custom-scrollbar bg-transparent resize-y outline-none text-sm rounded-lg p-2 border ${
+              isDarkMode
+                ? 'text-white placeholder:text-white/40 border-gray-600/50'
+                : 'text-gray-900 placeholder:text-gray-500 border-gray-300/50'
+            }`}
+            placeholder="如：{{shot}}，{{character.name}} 站在雨中；{{segment[3]}} 取文本拆分第 3 段"
+            style={{ caretColor: isDarkMode ? '#0A84FF' : '#22c55e' }}
+          />
+          {template.trim() && (
+            <div className="space-y-1">
+              <div className={`text-xs ${mutedClass}`}>解析结果（运行时替代连线拼接的输入）：</div>
+              <div
+                className={`text-xs whitespace-pre-wrap break-words rounded p-1.5 max-h-24 overflow-y-auto custom-scrollbar ${
+                  isDarkMode ? 'bg-black/30 text-white/80' : 'bg-gray-100 text-gray-800'
+                }`}
+              >
+                {rendered.text || '（空）'}
+              </div>
+              {rendered.missing.length > 0 && (
+                <div className="text-xs text-red-400">未找到变量：{rendered.missing.join('、')}</div>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PromptTemplateField;
@@ -0,0 +1,303 @@
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
+import { Handle, Position, NodeProps, useReactFlow, useStore } from 'reactflow';
+import { ArrowDown, ArrowUp, Film, Loader2 } from 'lucide-react';
+import { normalizeVideoUrl } from '../../utils/normalizeVideoUrl';
+import {
+  buildSequenceRenderSpec,
+  estimateSequenceDuration,
+  getSequenceInputs,
+  syncSequenceClips,
+  type SequenceClip,
+} from '../../utils/sequence';
+
+const MIN_WIDTH = 360;
+
+export interface SequenceNodeData {
+  /** 时间线片段（按播放顺序） */
+  clips?: SequenceClip[];
+  /** 背景音乐来源的声音节点 ID（为空时不加背景音乐） */
+  musicNodeId?: string;
+  musicVolume?: number;
+  /** 渲染得到的成片 */
+  outputVideo?: string;
+  progress?: number;
+  errorMessage?: string;
+  width?: number;
+  title?: string;
+}
+
+interface SequenceNodeProps extends NodeProps<SequenceNodeData> {
+  isDarkMode?: boolean;
+  projectId?: string;
+}
+
+const formatSeconds = (seconds: number) => `${Math.floor(seconds / 60)}:${String(Math.round(seconds % 60)).padStart(2, '0')}`;
+
+/** 数字输入：空字符串表示未设置 */
+const parseOptionalNumber = (value: string): number | undefined => {
+  if (value.trim() === '') return undefined;
+  const n = Number(value);
+  return Number.isFinite(n) && n >= 0 ? n : undefined;
+};
+
+/**
+ * 序列剪辑节点：把上游视频按时间线顺序拼接（入点/出点、交叉淡化、片段音量、背景音乐），
+ * 由主进程 ffmpeg 渲染为 MP4 保存到项目 assets
+ */
+export const SequenceNode: React.FC<SequenceNodeProps> = ({ id, data, selected, isDarkMode = true, projectId }) => {
+  const { setNodes } = useReactFlow();
+  const [isHovered, setIsHovered] = useState(false);
+  const [rendering, setRendering] = useState(false);
+  // 片段原始时长（由缩略图 <video> 读取），用于估算成片时长
+  const [durations, setDurations] = useState<Record<string, number>>({});
+  const clips = data?.clips ?? [];
+
+  // 选择器返回序列化结果，仅在上游产物或连线变化时重新渲染
+  const inputsJson = useStore((s) => JSON.stringify(getSequenceInputs(id, s.getNodes(), s.edges)));
+  const inputs = useMemo(() => JSON.parse(inputsJson) as ReturnType<typeof getSequenceInputs>, [inputsJson]);
+  const videosById = useMemo(() => new Map(inputs.videos.map((v) => [v.nodeId, v])), [inputs]);
+
+  const updateNodeData = useCallback(
+    (updates: Partial<SequenceNodeData>) => {
+      setNodes((nds) => nds.map((n) => (n.id === id ? { ...n, data: { ...n.data, ...updates } } : n)));
+    },
+    [id, setNodes]
+  );
+
+  // 时间线与连线同步：新连接的视频追加到末尾，断开的移除
+  useEffect(() => {
+    const synced = syncSequenceClips(clips, inputs.videos);
+    const musicNodeId =
+      data?.musicNodeId && inputs.audios.some((a) => a.nodeId === data.musicNodeId) ? data.musicNodeId : undefined;
+    if (synced !== clips || musicNodeId !== data?.musicNodeId) {
+      updateNodeData({ clips: synced, musicNodeId });
+    }
+  }, [inputsJson]);
+
+  useEffect(() => {
+    if (!window.electronAPI?.onSequenceRenderProgress) return;
+    return window.electronAPI.onSequenceRenderProgress((packet) => {
+      if (packet.nodeId === id) updateNodeData({ progress: packet.progress });
+    });
+  }, [id, updateNodeData]);
+
+  const updateClip = (index: number, updates: Partial<SequenceClip>) => {
+    updateNodeData({ clips: clips.map((clip, i) => (i === index ? { ...clip, ...updates } : clip)) });
+  };
+
+  const moveClip = (index: number, delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= clips.length) return;
+    const next = [...clips];
+    [next[index], next[target]] = [next[target], next[index]];
+    updateNodeData({ clips: next });
+  };
+
+  const handleRender = async () => {
+    if (rendering || !window.electronAPI?.renderSequence) return;
+    const spec = buildSequenceRenderSpec(clips, inputs.videos, {
+      input: inputs.audios.find((a) => a.nodeId === data?.musicNodeId),
+      volume: data?.musicVolume,
+    });
+    if ('error' in spec) {
+      updateNodeData({ errorMessage: spec.error });
+      return;
+    }
+    setRendering(true);
+    updateNodeData({ progress: 0, errorMessage: undefined });
+    try {
+      const result = await window.electronAPI.renderSequence(spec, { projectId, nodeId: id, nodeTitle: data?.title });
+      if (result.success && result.url) {
+        updateNodeData({ outputVideo: result.url, progress: undefined });
+      } else {
+        updateNodeData({ errorMessage: result.error || '渲染失败', progress: undefined });
+      }
+    } catch (error) {
+      console.error('[SequenceNode] 渲染失败:', error);
+      updateNodeData({ errorMessage: error instanceof Error ? error.message : String(error), progress: undefined });
+    } finally {
+      setRendering(false);
+    }
+  };
+
+  const totalDuration = estimateSequenceDuration(clips, durations);
+  const width = data?.width ?? MIN_WIDTH;
+  const inputClass = isDarkMode
+    ? 'bg-white/10 border-white/20 text-white placeholder:text-white/40'
+    : 'bg-white border-gray-300 text-gray-900';
+  const mutedText = isDarkMode ? 'text-white/50' : 'text-gray-500';
+  const iconButton = `p-0.5 rounded disabled:opacity-30 ${isDarkMode ? 'text-white/70 hover:bg-white/10' : 'text-gray-600 hover:bg-gray-200'}`;
+
+  return (
+    <div
+      className={`rounded-lg border-2 relative ${
+        isDarkMode ? 'bg-[#1C1C1E] border-white/20' : 'bg-gray-50 border-gray-300'
+      } ${selected && isDarkMode ? 'ring-2 ring-green-400/80 border-green-400/70' : ''}`}
+      style={{ width, minWidth: MIN_WIDTH }}
+      onMouseEnter={() => setIsHovered(true)}
+      onMouseLeave={() => setIsHovered(false)}
+    >
+      <Handle type="target" position={Position.Left} id="input" className={`w-3 h-3 !left-0 bg-green-500 border-2 ${isDarkMode ? 'border-[#1C1C1E]' : 'border-[#FEFCF8]'} ${(selected || isHovered) ? 'opacity-100' : 'opacity-0 pointer-events-none'}`} />
+      <Handle type="source" position={Position.Right} id="output" className={`w-3 h-3 !right-0 bg-green-500 border-2 ${isDarkMode ? 'border-[#1C1C1E]' : 'border-[#FEFCF8]'} ${(selected || isHovered) ? 'opacity-100' : 'opacity-0 pointer-events-none'}`} />
+
+      {/* 框体外左上角小标题 */}
+      <div className="title-area absolute -top-7 left-0 z-10">
+        <span className={`font-bold text-xs select-none ${isDarkMode ? 'text-white/80' : 'text-gray-900'}`}>
+          sequence
+        </span>
+      </div>
+
+      <div className="p-2 space-y-2 nodrag nowheel" onClick={(e) => e.stopPropagation()}>
+        {clips.length === 0 ? (
+          <div className={`text-[11px] ${mutedText}`}>连接视频节点作为片段，连接声音节点作为背景音乐</div>
+        ) : (
+          <div className="space-y-1 max-h-[320px] overflow-y-auto custom-scrollbar">
+            {clips.map((clip, index) => {
+              const input = videosById.get(clip.sourceNodeId);
+              const isLast = index === clips.length - 1;
+              return (
+                <div key={clip.sourceNodeId} className={`flex gap-2 p-1.5 rounded ${isDarkMode ? 'bg-white/5' : 'bg-white'}`}>
+                  <div className="w-20 h-12 shrink-0 rounded overflow-hidden bg-black/40 flex items-center justify-center">
+                    {input?.url ? (
+                      <video
+                        src={normalizeVideoUrl(input.url)}
+                        preload="metadata"
+                        muted
+                        className="w-full h-full object-cover pointer-events-none"
+                        onLoadedMetadata={(e) => {
+                          const duration = e.currentTarget.duration;
+                          if (Number.isFinite(duration)) setDurations((prev) => ({ ...prev, [clip.sourceNodeId]: duration }));
+                        }}
+                      />
+                    ) : (
+                      <Film className="w-5 h-5 text-white/30" />
+                    )}
+                  </div>
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <div className="flex items-center gap-1">
+                      <span className={`flex-1 text-xs truncate ${isDarkMode ? 'text-white' : 'text-gray-800'}`} title={input?.title}>
+                        {index + 1}. {input?.title || clip.sourceNodeId}
+                        {!input?.url && <span className="text-yellow-400"> · 未生成</span>}
+                        {durations[clip.sourceNodeId] ? <span className={mutedText}> · {formatSeconds(durations[clip.sourceNodeId])}</span> : null}
+                      </span>
+                      <button type="button" className={iconButton} disabled={index === 0} onClick={() => moveClip(index, -1)} title="上移">
+                        <ArrowUp className="w-3 h-3" />
+                      </button>
+                      <button type="button" className={iconButton} disabled={isLast} onClick={() => moveClip(index, 1)} title="下移">
+                        <ArrowDown className="w-3 h-3" />
+                      </button>
+                    </div>
+                    <div className={`grid grid-cols-4 gap-1 text-[10px] ${mutedText}`}>
+                      <label className="space-y-0.5">
+                        <span>入点(s)</span>
+                        <input
+                          type="number"
+                          min={0}
+                          step={0.1}
+                          value={clip.trimIn ?? ''}
+                          placeholder="0"
+                          onChange={(e) => updateClip(index, { trimIn: parseOptionalNumber(e.target.value) })}
+                          className={`w-full text-[11px] rounded px-1 py-0.5 border ${inputClass}`}
+                        />
+                      </label>
+                      <label className="space-y-0.5">
+                        <span>出点(s)</span>
+                        <input
+                          type="number"
+                          min={0}
+                          step={0.1}
+                          value={clip.trimOut ?? ''}
+                          placeholder="结尾"
+                          onChange={(e) => updateClip(index, { trimOut: parseOptionalNumber(e.target.value) })}
+                          className={`w-full text-[11px] rounded px-1 py-0.5 border ${inputClass}`}
+                        />
+                      </label>
+                      <label className="space-y-0.5" title="与下一段的交叉淡化时长，0 为硬切">
+                        <span>淡化(s)</span>
+                        <input
+                          type="number"
+                          min={0}
+                          step={0.1}
+                          value={isLast ? '' : clip.crossfade ?? 0}
+                          disabled={isLast}
+                          onChange={(e) => updateClip(index, { crossfade: parseOptionalNumber(e.target.value) ?? 0 })}
+                          className={`w-full text-[11px] rounded px-1 py-0.5 border disabled:opacity-40 ${inputClass}`}
+                        />
+                      </label>
+                      <label className="space-y-0.5">
+                        <span>音量 {Math.round((clip.volume ?? 1) * 100)}%</span>
+                        <input
+                          type="range"
+                          min={0}
+                          max={2}
+                          step={0.05}
+                          value={clip.volume ?? 1}
+                          onChange={(e) => updateClip(index, { volume: Number(e.target.value) })}
+                          className="w-full"
+                        />
+                      </label>
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="flex items-center gap-2">
+          <label className={`text-xs shrink-0 ${isDarkMode ? 'text-white' : 'text-gray-700'}`}>背景音乐</label>
+          <select
+            value={data?.musicNodeId ?? ''}
+            onChange={(e) => updateNodeData({ musicNodeId: e.target.value || undefined })}
+            className={`flex-1 min-w-0 text-xs rounded px-1.5 py-1 border ${inputClass}`}
+          >
+            <option value="">无</option>
+            {inputs.audios.map((audio) => (
+              <option key={audio.nodeId} value={audio.nodeId} disabled={!audio.url}>
+                {audio.title}
+                {!audio.url ? '（未生成）' : ''}
+              </option>
+            ))}
+          </select>
+          {data?.musicNodeId && (
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.05}
+              value={data?.musicVolume ?? 0.5}
+              onChange={(e) => updateNodeData({ musicVolume: Number(e.target.value) })}
+              className="w-20"
+              title={`背景音乐音量 ${Math.round((data?.musicVolume ?? 0.5) * 100)}%`}
+            />
+          )}
+        </div>
+
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={handleRender}
+            disabled={rendering || clips.length === 0}
+            className="flex items-center justify-center gap-1 px-3 py-1.5 rounded text-xs text-white bg-green-600 hover:bg-green-500 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {rendering ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Film className="w-3.5 h-3.5" />}
+            {rendering ? `渲染中 ${data?.progress ?? 0}%` : '渲染成片'}
+          </button>
+          <span className={`text-[11px] ${mutedText}`}>
+            {clips.length} 个片段{totalDuration !== null ? ` · 约 ${formatSeconds(totalDuration)}` : ''}
+          </span>
+        </div>
+        {rendering && (
+          <div className={`h-1 rounded overflow-hidden ${isDarkMode ? 'bg-white/10' : 'bg-gray-200'}`}>
+            <div className="h-full bg-green-500 transition-all" style={{ width: `${data?.progress ?? 0}%` }} />
+          </div>
+        )}
+        {data?.errorMessage && !rendering && <div className="text-[11px] text-red-400 break-all">{data.errorMessage}</div>}
+
+        {data?.outputVideo && (
+          <video src={normalizeVideoUrl(data.outputVideo)} controls className="w-full rounded bg-black" />
+        )}
+      </div>
+    </div>
+  );
+};
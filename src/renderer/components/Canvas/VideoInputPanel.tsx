@@ -1,7 +1,22 @@
-import React, { useCallback, useRef, useEffect, useState } from 'react';
+import React, { useCallback, useRef, useEffect, useState, useMemo } from 'react';
 import { Play } from 'lucide-react';
 import { useAI } from '../../hooks/useAI';
-import { getVideoPrice } from '../../utils/priceCalc';
+import { getVideoPrice, type VideoPriceParams } from '../../utils/priceCalc';
+import ModelParamControls from './ModelParamControls';
+import PromptTemplateField from './PromptTemplateField';
+import { FanOutToggle } from './FanOutGallery';
+import { renderPromptTemplate, type TemplateVariable } from '../../utils/promptTemplate';
+import {
+  buildModelPayload,
+  getVideoModel,
+  getVideoModelOptions,
+  getVideoParamSchema,
+  resolveParamValue,
+  resolveVideoMode,
+  validateModelParams,
+  type ModelParamValue,
+  type VideoModelId,
+} from '../../../main/ai/modelCatalog';
 
 
 interface VideoInputPanelProps {
@@ -9,7 +24,7 @@ interface VideoInputPanelProps {
   isDarkMode: boolean;
   prompt: string;
   aspectRatio: '16:9' | '9:16' | '1:1' | '2:3' | '3:2';
-  model: 'sora-2' | 'sora-2-pro' | 'kling-v2.6-pro' | 'kling-video-o1' | 'kling-video-o1-i2v' | 'kling-video-o1-start-end' | 'kling-video-o1-ref' | 'wan-2.6' | 'wan-2.6-flash' | 'rhart-v3.1-fast' | 'rhart-v3.1-fast-se' | 'rhart-v3.1-pro' | 'rhart-v3.1-pro-se' | 'rhart-video-g' | 'rhart-video-s-i2v-pro' | 'hailuo-02-t2v-standard' | 'hailuo-2.3-t2v-standard' | 'hailuo-02-i2v-standard' | 'hailuo-2.3-i2v-standard';
+  model: VideoModelId;
   hd: boolean;
   duration: '5' | '10' | '15' | '25';
   inputImages?: string[]; // 图生视频参考图
@@ -51,8 +66,22 @@ interface VideoInputPanelProps {
   onDurationKlingO1Change?: (value: '5' | '10') => void;
   onModeKlingO1Change?: (value: 'std' | 'pro') => void;
   onPromptChange: (value: string) => void;
+  /** 提示词模板（{{变量}} 引用上游节点，启用时运行前解析为提示词） */
+  promptTemplate?: string;
+  /** 当前节点可用的模板变量 */
+  templateVariables?: TemplateVariable[];
+  onPromptTemplateChange?: (value: string) => void;
+  /** 逐段批量：上游文本拆分的分段数量（0 表示未连接，不显示开关） */
+  fanOutSegmentCount?: number;
+  fanOutEnabled?: boolean;
+  /** 连接循环节点时逐项运行不可关闭 */
+  fanOutLocked?: boolean;
+  /** 逐段批量是否有段仍在运行 */
+  fanOutRunning?: boolean;
+  onFanOutToggle?: (enabled: boolean) => void;
+  onFanOutRun?: () => void;
   onAspectRatioChange: (value: '16:9' | '9:16' | '1:1' | '2:3' | '3:2') => void;
-  onModelChange: (value: 'sora-2' | 'sora-2-pro' | 'kling-v2.6-pro' | 'kling-video-o1' | 'kling-video-o1-i2v' | 'kling-video-o1-start-end' | 'kling-video-o1-ref' | 'wan-2.6' | 'wan-2.6-flash' | 'rhart-v3.1-fast' | 'rhart-v3.1-fast-se' | 'rhart-v3.1-pro' | 'rhart-v3.1-pro-se' | 'rhart-video-g' | 'rhart-video-s-i2v-pro' | 'hailuo-02-t2v-standard' | 'hailuo-2.3-t2v-standard' | 'hailuo-02-i2v-standard' | 'hailuo-2.3-i2v-standard') => void;
+  onModelChange: (value: VideoModelId) => void;
   onHdChange: (value: boolean) => void;
   onDurationChange: (value: '5' | '10' | '15' | '25') => void;
   onOutputVideoChange: (url?: string, originalUrl?: string) => void;
@@ -67,12 +96,20 @@ const VideoInputPanel: React.FC<VideoInputPanelProps> = ({
   prompt,
   aspectRatio,
   model,
-  hd,
   duration,
   inputImages = [],
   isConnected = false,
   projectId,
   onPromptChange,
+  promptTemplate = '',
+  templateVariables = [],
+  onPromptTemplateChange,
+  fanOutSegmentCount = 0,
+  fanOutEnabled = false,
+  fanOutLocked = false,
+  fanOutRunning = false,
+  onFanOutToggle,
+  onFanOutRun,
   onAspectRatioChange,
   onModelChange,
   onHdChange,
@@ -112,102 +149,88 @@ const VideoInputPanel: React.FC<VideoInputPanelProps> = ({
   const promptInputRef = useRef<HTMLTextAreaElement>(null);
 
   const isImageToVideoMode = inputImages && inputImages.length > 0;
-  const isKlingModel = model === 'kling-v2.6-pro';
-  const isSora2Model = model === 'sora-2';
-  const isSora2ProModel = model === 'sora-2-pro';
-  const isWan26Model = model === 'wan-2.6';
-  const isWan26FlashModel = model === 'wan-2.6-flash';
-  const isRhartV31FastModel = model === 'rhart-v3.1-fast';
-  const isRhartV31FastSEModel = model === 'rhart-v3.1-fast-se';
-  const isRhartV31ProSEModel = model === 'rhart-v3.1-pro-se';
-  const isRhartV31ProModel = model === 'rhart-v3.1-pro'; // Veo3.1 Pro 文生视频（仅文生，固定 8s，必填 resolution）
-  const isRhartVideoGModel = model === 'rhart-video-g';
-  const isHailuo02Model = model === 'hailuo-02-t2v-standard';
-  const isHailuo23Model = model === 'hailuo-2.3-t2v-standard';
-  const isHailuo02I2vModel = model === 'hailuo-02-i2v-standard';
-  const isHailuo23I2vModel = model === 'hailuo-2.3-i2v-standard';
-  const isKlingVideoO1Model = model === 'kling-video-o1';
-  const isKlingVideoO1I2vModel = model === 'kling-video-o1-i2v';
-  const isKlingVideoO1StartEndModel = model === 'kling-video-o1-start-end';
   const isKlingVideoO1RefModel = model === 'kling-video-o1-ref';
-  const isRhartVideoSI2vProModel = model === 'rhart-video-s-i2v-pro';
 
-  // 图生视频支持的模型列表（根据 API 文档）
-  const supportedImageToVideoModels = [
-    'sora-2',
-    'kling-v2.6-pro',
-    'wan-2.6',
-    'wan-2.6-flash',
-    'rhart-v3.1-fast', // 全能V3.1-fast 图生视频，支持 1–3 张图
-    'rhart-video-g', // 全能视频G 图生视频，仅 1 张图，比例 2:3/3:2/1:1，时长 6s/10s
-    'rhart-video-s-i2v-pro', // 全能视频S-图生视频-pro，仅 1 张图，时长 15s/25s，比例 9:16/16:9
-    'hailuo-02-i2v-standard', // 海螺-02 图生视频标准，1 或 2 张图（2 张为首尾帧）
-    'hailuo-2.3-i2v-standard', // 海螺-2.3 图生视频标准，仅 1 张图
-    'kling-video-o1-i2v', // 可灵图生视频o1，仅 1 张图
-  ] as const;
-
-  // 2 张图：仅首尾帧模型（≥2 张图时去除 Veo 3.1 fast 图生、Grok 1.5）
-  const rhartV31FastTwoImageModels = ['rhart-v3.1-fast-se', 'rhart-v3.1-pro-se', 'hailuo-02-i2v-standard', 'kling-video-o1-start-end'] as const;
-  const rhartV31FastThreeImageModels = ['rhart-v3.1-fast'] as const; // Grok 1.5 图生仅支持 1 张
-
-  /** 图生视频模式下，当前模型最大参考图数量（与主进程 VideoProvider 校验一致） */
-  const getMaxRefImagesVideo = (m: string): number => {
-    if (m === 'rhart-v3.1-fast') return 3;
-    if (['rhart-v3.1-fast-se', 'rhart-v3.1-pro-se', 'hailuo-02-i2v-standard', 'kling-video-o1-start-end'].includes(m)) return 2;
-    return 1; // sora-2, kling-v2.6-pro, wan-2.6, wan-2.6-flash, rhart-video-g, rhart-video-s-i2v-pro, hailuo-2.3-i2v-standard, kling-video-o1-i2v 等
-  };
-
-  const maxRefImagesVideo = getMaxRefImagesVideo(model);
-
-  const videoPrice = getVideoPrice({
-    model,
+  const imageCount = inputImages?.length || 0;
+  const modelSpec = getVideoModel(model);
+  const generationMode = modelSpec ? resolveVideoMode(modelSpec, imageCount) : isImageToVideoMode ? 'i2v' : 't2v';
+  /** 当前模型的参数表（见模型目录），控件渲染、校验与请求构建共用 */
+  const paramSchema = useMemo(() => (modelSpec ? getVideoParamSchema(modelSpec) : []), [modelSpec]);
+
+  /** 各参数当前取值（键与参数表 key 一致） */
+  const paramValues = useMemo<Record<string, unknown>>(() => ({
+    aspectRatio,
     duration,
+    guidanceScale,
     sound,
-    durationHailuo02,
-    durationKlingO1,
-    modeKlingO1,
-    durationRhartVideoG,
-    resolutionRhartV31,
+    shotType,
+    negativePrompt,
     resolutionWan26,
     durationWan26Flash,
     enableAudio,
-  });
-
-  const imageCount = inputImages?.length || 0;
-  const availableModels = isImageToVideoMode
-    ? imageCount >= 3
-      ? rhartV31FastThreeImageModels // 3 张图：仅全能V3.1-fast 图生视频
-      : imageCount >= 2
-        ? rhartV31FastTwoImageModels // 2 张图：图生 或 首尾帧生视频
-        : supportedImageToVideoModels // 1 张图：显示所有图生视频支持的模型
-    : [];
-
-  // 当切换到图生视频模式时，如果当前模型不支持，自动切换到第一个支持的模型
-  // 如果模型是 sora-2 或 kling-v2.6-pro 且有图片输入，自动切换到图生视频模式（保持原模型）
+    resolutionRhartV31,
+    durationRhartVideoG,
+    durationHailuo02,
+    durationKlingO1,
+    modeKlingO1,
+    keepOriginalSound,
+    inputImages,
+  }), [aspectRatio, duration, guidanceScale, sound, shotType, negativePrompt, resolutionWan26, durationWan26Flash, enableAudio, resolutionRhartV31, durationRhartVideoG, durationHailuo02, durationKlingO1, modeKlingO1, keepOriginalSound, inputImages]);
+
+  /** 各参数的更新回调（键与参数表 key 一致） */
+  const paramSetters = useMemo<Record<string, ((value: any) => void) | undefined>>(() => ({
+    aspectRatio: onAspectRatioChange,
+    duration: onDurationChange,
+    guidanceScale: onGuidanceScaleChange,
+    sound: onSoundChange,
+    shotType: onShotTypeChange,
+    negativePrompt: onNegativePromptChange,
+    resolutionWan26: onResolutionWan26Change,
+    durationWan26Flash: onDurationWan26FlashChange,
+    enableAudio: onEnableAudioChange,
+    resolutionRhartV31: onResolutionRhartV31Change,
+    durationRhartVideoG: onDurationRhartVideoGChange,
+    durationHailuo02: onDurationHailuo02Change,
+    durationKlingO1: onDurationKlingO1Change,
+    modeKlingO1: onModeKlingO1Change,
+    keepOriginalSound: onKeepOriginalSoundChange,
+  }), [onAspectRatioChange, onDurationChange, onGuidanceScaleChange, onSoundChange, onShotTypeChange, onNegativePromptChange, onResolutionWan26Change, onDurationWan26FlashChange, onEnableAudioChange, onResolutionRhartV31Change, onDurationRhartVideoGChange, onDurationHailuo02Change, onDurationKlingO1Change, onModeKlingO1Change, onKeepOriginalSoundChange]);
+
+  const handleParamChange = useCallback((key: string, value: ModelParamValue) => {
+    paramSetters[key]?.(value);
+  }, [paramSetters]);
+
+  const paramError = validateModelParams(paramSchema, paramValues, generationMode);
+  const videoPrice = getVideoPrice({ ...paramValues, model } as VideoPriceParams);
+
+  // 模型选择器选项：0 张图为文生模型，1 张图为图生模型，2 张图为首尾帧模型，3 张图为支持多图的图生模型
+  const modelOptions = useMemo(() => getVideoModelOptions(imageCount), [imageCount]);
+
+  // 当前模型不支持当前图片数量时，自动切换到第一个支持的模型（文生视频模式下保持原模型）
   useEffect(() => {
-    if (isImageToVideoMode) {
-      // sora-2、kling-v2.6-pro、万相2.6、万相2.6 Flash、全能视频S-图生视频-pro、海螺-2.3 图生、可灵图生o1 只支持 1 张图片
-      const oneImageOnlyModels = ['sora-2', 'kling-v2.6-pro', 'wan-2.6', 'wan-2.6-flash', 'rhart-video-s-i2v-pro', 'hailuo-2.3-i2v-standard', 'kling-video-o1-i2v'];
-      if (oneImageOnlyModels.includes(model) && imageCount > 1) {
-        const defaultModel = availableModels.find(m => !oneImageOnlyModels.includes(m)) || 'sora-2';
-        console.log(`[VideoInputPanel] ${model} 图生视频只支持 1 张图片，当前有 ${imageCount} 张，自动切换到 ${defaultModel}`);
-        onModelChange(defaultModel as any);
-        return;
-      }
-      if (oneImageOnlyModels.includes(model) && imageCount === 1) {
-        return;
-      }
-      
-      if (!availableModels.includes(model as any)) {
-        const defaultModel = (availableModels[0] as string) || 'sora-2';
-        console.log(`[VideoInputPanel] 当前模型 ${model} 不支持当前图片数量(${imageCount})，自动切换到 ${defaultModel}`);
-        onModelChange(defaultModel as any);
-      }
-    } else {
-      // 文生视频模式：如果当前模型是 sora-2 或 kling-v2.6-pro，保持原模型（支持文生视频）
-      // 不需要特殊处理
+    if (!isImageToVideoMode) return;
+    if (!modelOptions.some((opt) => opt.value === model)) {
+      const defaultModel = modelOptions[0]?.value || 'sora-2';
+      console.log(`[VideoInputPanel] 当前模型 ${model} 不支持当前图片数量(${imageCount})，自动切换到 ${defaultModel}`);
+      onModelChange(defaultModel);
     }
-  }, [isImageToVideoMode, imageCount, model, availableModels, onModelChange, isSora2Model, isKlingModel]);
+  }, [isImageToVideoMode, imageCount, model, modelOptions, onModelChange]);
+
+  /**
+   * 切换模型时，当前取值不被新模型支持的参数重置为默认值（如时长、比例）；仍然有效的取值保留
+   */
+  const applyModelDefaults = useCallback((newModel: VideoModelId) => {
+    const spec = getVideoModel(newModel);
+    if (!spec) return;
+    spec.params.forEach((param) => {
+      if (param.type === 'text' || param.default === undefined) return;
+      const current = paramValues[param.key];
+      if (resolveParamValue(param, paramValues) !== current) {
+        paramSetters[param.key]?.(param.default);
+      }
+    });
+    onHdChange(false); // hd 仅旧版核心算力接口使用，切换模型时关闭
+  }, [paramValues, paramSetters, onHdChange]);
 
   // 模式标签和按钮文案
   const modeLabel = isImageToVideoMode ? '图生视频' : '文生视频';
@@ -257,6 +280,19 @@ const VideoInputPanel: React.FC<VideoInputPanelProps> = ({
         }, 15 * 60 * 1000); // 15分钟 = 900000毫秒
       }
       
+      // 处理 CANCELLED 状态：用户取消，清除超时定时器，不记录失败任务
+      if (packet.status === 'CANCELLED') {
+        if (timeoutRef.current) {
+          clearTimeout(timeoutRef.current);
+          timeoutRef.current = null;
+        }
+        startTimeRef.current = null;
+        if (onProgressChange) {
+          onProgressChange(0);
+        }
+        return;
+      }
+
       // 处理 ERROR 状态：停止进度条并显示错误
       if (packet.status === 'ERROR') {
         const errorMessage = payload.error || '视频生成失败';
@@ -499,8 +535,22 @@ const VideoInputPanel: React.FC<VideoInputPanelProps> = ({
     },
   });
 
+  // 提示词模板：启用时以解析结果作为提示词
+  const renderedTemplate = useMemo(
+    () => (promptTemplate.trim() ? renderPromptTemplate(promptTemplate, templateVariables) : null),
+    [promptTemplate, templateVariables]
+  );
+  const effectivePrompt = renderedTemplate ? renderedTemplate.text : prompt;
+  const templateError = renderedTemplate?.missing.length ? `未找到模板变量：${renderedTemplate.missing.join('、')}` : null;
+  const isFanOutMode = fanOutEnabled && fanOutSegmentCount > 0;
+
   const handleExecute = useCallback(async () => {
-    if (!prompt.trim()) return;
+    // 逐段批量：交由 Workspace 对每个分段各运行一次
+    if (isFanOutMode) {
+      onFanOutRun?.();
+      return;
+    }
+    if (!effectivePrompt.trim() || templateError) return;
 
     // 图生视频需要至少一张参考图
     if (isImageToVideoMode && (!inputImages || inputImages.length === 0)) {
@@ -508,6 +558,17 @@ const VideoInputPanel: React.FC<VideoInputPanelProps> = ({
       return;
     }
 
+    // 参数校验未通过（如参考图数量不符）时不提交
+    if (paramError) {
+      console.warn('[VideoInputPanel] 参数校验未通过:', paramError);
+      return;
+    }
+
+    // 模板解析结果写回提示词，任务记录保存实际使用的提示词
+    if (renderedTemplate) {
+      onPromptChange(effectivePrompt);
+    }
+
     // 立即重置并显示进度条（确保每次点击运行都能看到进度条，包括从 ERROR 状态重新生成）
     // 无论之前是什么状态，都重置为初始进度
     if (onProgressChange) {
@@ -537,76 +598,16 @@ const VideoInputPanel: React.FC<VideoInputPanelProps> = ({
       // 后端转运成功拿到 https URL 后，再由后端发起请求给 RunningHub
       console.log('[VideoInputPanel] 准备发送图片路径给后端处理:', inputImages);
 
+      // 按模型参数表构建请求参数（比例、时长、分辨率、参考图等，仅包含当前模式下显示的参数）
       const payload: any = {
-        prompt,
+        prompt: effectivePrompt,
         model,
-        aspect_ratio: aspectRatio,
+        ...buildModelPayload(paramSchema, paramValues, generationMode),
       };
 
-      // sora-2 系列参数
-      if (model === 'sora-2' || model === 'sora-2-pro') {
-        payload.hd = hd;
-        payload.duration = duration;
-      }
-
-      // 全能视频V3.1-fast / Veo3.1 Pro 文生视频参数（分辨率 720p/1080p/4k）
-      if (isRhartV31FastModel || isRhartV31ProModel) {
-        payload.resolutionRhartV31 = resolutionRhartV31;
-      }
-
-      // kling-v2.6-pro 系列参数
-      if (isKlingModel) {
-        payload.duration = duration;
-        if (guidanceScale !== undefined) {
-          payload.guidanceScale = guidanceScale;
-        }
-        if (sound) {
-          payload.sound = sound;
-        }
-      }
-
-      // 万相2.6 文生/图生视频参数
-      if (isWan26Model) {
-        payload.duration = duration;
-        payload.shotType = shotType;
-        if (negativePrompt !== undefined && negativePrompt.trim() !== '') {
-          payload.negativePrompt = negativePrompt.trim();
-        }
-        if (isImageToVideoMode) {
-          payload.resolutionWan26 = resolutionWan26;
-        }
-      }
-
-      // 海螺-02/2.3 文生、海螺-02/2.3 图生视频标准参数（时长 6|10 秒）
-      if (isHailuo02Model || isHailuo23Model || isHailuo02I2vModel || isHailuo23I2vModel) {
-        payload.durationHailuo02 = durationHailuo02;
-      }
-
-      // 可灵文生/图生/首尾帧/参考生视频o1 参数（时长 5|10 秒，模式 std|pro）
-      if (isKlingVideoO1Model || isKlingVideoO1I2vModel || isKlingVideoO1StartEndModel || isKlingVideoO1RefModel) {
-        payload.durationKlingO1 = durationKlingO1;
-        payload.modeKlingO1 = modeKlingO1;
-      }
+      // 可灵参考生视频o1：参考视频由画布连线提供
       if (isKlingVideoO1RefModel) {
         payload.referenceVideoUrl = (referenceVideoUrl || '').trim();
-        if (keepOriginalSound) payload.keepOriginalSound = true;
-      }
-
-      // 万相2.6 Flash 图生视频参数（仅图生，时长 2-15 秒）
-      if (isWan26FlashModel) {
-        payload.durationWan26Flash = durationWan26Flash;
-        payload.shotType = shotType;
-        payload.resolutionWan26 = resolutionWan26;
-        if (negativePrompt !== undefined && negativePrompt.trim() !== '') {
-          payload.negativePrompt = negativePrompt.trim();
-        }
-        payload.enableAudio = enableAudio;
-      }
-
-      // 直接传递原始图片路径给后端，不做任何前端处理
-      // 后端会检测本地路径并自动上传到 OSS
-      if (isImageToVideoMode && inputImages.length > 0) {
-        payload.images = inputImages.slice(0, 10);
       }
 
       // 传递 projectId 以便保存到项目文件夹
@@ -631,7 +632,7 @@ const VideoInputPanel: React.FC<VideoInputPanelProps> = ({
         onErrorTask(error.message || '视频生成失败，请检查提示词或稍后重试');
       }
     }
-  }, [prompt, model, aspectRatio, hd, duration, inputImages, executeAI, isImageToVideoMode, isKlingModel, isKlingVideoO1Model, isKlingVideoO1I2vModel, isKlingVideoO1StartEndModel, isKlingVideoO1RefModel, referenceVideoUrl, keepOriginalSound, isWan26Model, isWan26FlashModel, isRhartV31FastModel, isHailuo02Model, isHailuo23Model, isHailuo02I2vModel, isHailuo23I2vModel, guidanceScale, sound, shotType, negativePrompt, resolutionWan26, resolutionRhartV31, durationWan26Flash, durationHailuo02, durationKlingO1, modeKlingO1, enableAudio, projectId, onErrorTask]);
+  }, [isFanOutMode, onFanOutRun, effectivePrompt, templateError, renderedTemplate, onPromptChange, model, inputImages, executeAI, isImageToVideoMode, isKlingVideoO1RefModel, referenceVideoUrl, paramSchema, paramValues, paramError, generationMode, projectId, onErrorTask]);
 
   // 清理超时定时器
   useEffect(() => {
@@ -645,10 +646,12 @@ const VideoInputPanel: React.FC<VideoInputPanelProps> = ({
   }, []);
 
   // 按钮禁用逻辑：只基于当前模块自己的状态
-  const isRunDisabled =
+  const isRunDisabled = isFanOutMode ? fanOutRunning || !!paramError :
     aiStatus === 'PROCESSING' ||
-    !prompt.trim() ||
+    !effectivePrompt.trim() ||
+    !!templateError ||
     (isImageToVideoMode && (!inputImages || inputImages.length === 0)) ||
+    !!paramError ||
     (isKlingVideoO1RefModel && !(referenceVideoUrl || '').trim());
   
   // 调试日志：确认每个模块的状态是独立的
@@ -689,7 +692,7 @@ const VideoInputPanel: React.FC<VideoInputPanelProps> = ({
             onChange={(e) => {
               e.stopPropagation();
               e.preventDefault();
-              const newModel = e.target.value as 'sora-2' | 'sora-2-pro' | 'kling-v2.6-pro' | 'wan-2.6' | 'wan-2.6-flash' | 'rhart-v3.1-fast' | 'rhart-v3.1-fast-se' | 'rhart-v3.1-pro' | 'rhart-v3.1-pro-se' | 'rhart-video-g';
+              const newModel = e.target.value as VideoModelId;
               console.log('[VideoInputPanel] 模型切换:', newModel, '当前模型:', model, 'nodeId:', nodeId);
               
               // 如果模型没有变化，直接返回
@@ -704,50 +707,8 @@ const VideoInputPanel: React.FC<VideoInputPanelProps> = ({
                 onModelChange(newModel);
               });
               
-              // 切换模型时自动设置默认值
-              if (newModel === 'kling-v2.6-pro') {
-                // kling 系列默认值
-                if (onDurationChange) {
-                  onDurationChange('10');
-                }
-              } else if (newModel === 'wan-2.6') {
-                if (onDurationChange) onDurationChange('5');
-                if (onShotTypeChange) onShotTypeChange('single');
-                if (onResolutionWan26Change) onResolutionWan26Change('1080p');
-              } else if (newModel === 'wan-2.6-flash') {
-                if (onDurationWan26FlashChange) onDurationWan26FlashChange('5');
-                if (onShotTypeChange) onShotTypeChange('single');
-                if (onResolutionWan26Change) onResolutionWan26Change('1080p');
-                if (onEnableAudioChange) onEnableAudioChange(true);
-              } else if (newModel === 'rhart-v3.1-fast' || newModel === 'rhart-v3.1-fast-se' || newModel === 'rhart-v3.1-pro-se') {
-                if (onResolutionRhartV31Change) onResolutionRhartV31Change('1080p');
-                if (onAspectRatioChange) onAspectRatioChange('16:9');
-              } else if (newModel === 'rhart-video-g') {
-                if (onAspectRatioChange) onAspectRatioChange('2:3');
-                if (onDurationRhartVideoGChange) onDurationRhartVideoGChange('6s');
-              } else if (newModel === 'rhart-v3.1-pro') {
-                if (onAspectRatioChange) onAspectRatioChange('16:9');
-                if (onResolutionRhartV31Change) onResolutionRhartV31Change('1080p');
-              } else {
-                // sora-2 系列默认值
-                if (isSora2Model) {
-                  // sora-2 使用 runninghub-api，只支持 duration: [10, 15], aspectRatio: [9:16, 16:9]
-                  if (onDurationChange) {
-                    onDurationChange('10');
-                  }
-                  if (onAspectRatioChange) {
-                    onAspectRatioChange('16:9');
-                  }
-                } else {
-                  // sora-2-pro 默认值
-                  if (onHdChange) {
-                    onHdChange(false);
-                  }
-                  if (onDurationChange) {
-                    onDurationChange('10');
-                  }
-                }
-              }
+              // 切换模型时按模型目录重置参数默认值
+              applyModelDefaults(newModel);
             }}
             onClick={(e) => {
               e.stopPropagation();
@@ -762,385 +723,28 @@ const VideoInputPanel: React.FC<VideoInputPanelProps> = ({
             } outline-none`}
             title="选择模型"
           >
-            {isImageToVideoMode ? (
-              imageCount >= 3 ? (
-                // 3 张图：仅全能V3.1-fast（Grok 1.5 图生仅支持 1 张）
-                <>
-                  <option value="rhart-v3.1-fast">Veo 3.1 fast</option>
-                </>
-              ) : imageCount >= 2 ? (
-                // 2 张图：仅首尾帧模型（已去除 Veo 3.1 fast、Grok 1.5）
-                <>
-                  <option value="rhart-v3.1-fast-se">Veo3.1 fast (首尾帧)</option>
-                  <option value="rhart-v3.1-pro-se">Veo3.1 Pro (首尾帧)</option>
-                  <option value="hailuo-02-i2v-standard">海螺 02 (首尾帧)</option>
-                  <option value="kling-video-o1-start-end">可灵O1 (首尾帧)</option>
-                </>
-              ) : (
-                <>
-                  <option value="sora-2">Sora2</option>
-                  <option value="rhart-video-s-i2v-pro">Sora2 Pro</option>
-                  <option value="kling-v2.6-pro">可灵2.6 Pro</option>
-                  <option value="wan-2.6">万相 2.6</option>
-                  <option value="wan-2.6-flash">万相 2.6 flash</option>
-                  <option value="rhart-v3.1-fast">Veo 3.1 fast</option>
-                  <option value="rhart-video-g" title="仅支持 1 张图">Grok 1.5（仅1张图）</option>
-                  <option value="hailuo-02-i2v-standard">海螺 02 (标准)</option>
-                  <option value="hailuo-2.3-i2v-standard">海螺 2.3 (标准)</option>
-                  <option value="kling-video-o1-i2v">可灵 O1</option>
-                </>
-              )
-            ) : (
-              <>
-                <option value="sora-2">Sora2</option>
-                <option value="sora-2-pro">Sora2 Pro</option>
-                <option value="kling-v2.6-pro">可灵2.6 Pro</option>
-                <option value="wan-2.6">万相 2.6</option>
-                <option value="rhart-v3.1-fast">Veo3.1 fast</option>
-                <option value="rhart-v3.1-pro">Veo3.1 Pro</option>
-                <option value="rhart-video-g">Grok</option>
-                <option value="hailuo-02-t2v-standard">海螺 02 (标准)</option>
-                <option value="hailuo-2.3-t2v-standard">海螺 2.3 (标准)</option>
-                <option value="kling-video-o1">可灵O1</option>
-              </>
-            )}
-          </select>
-
-          <span
-            className={`text-xs ${
-              isDarkMode ? 'text-white/70' : 'text-gray-700'
-            }`}
-          >
-            比例:
-          </span>
-            <select
-            value={aspectRatio}
-            onChange={(e) => onAspectRatioChange(e.target.value as '16:9' | '9:16' | '1:1' | '2:3' | '3:2')}
-            className={`px-2 py-1 rounded-lg text-xs ${
-              isDarkMode
-                ? 'bg-black/30 text-white border border-gray-600/50'
-                : 'bg-white/90 text-gray-900 border border-gray-300'
-            } outline-none`}
-            title="选择输出比例"
-          >
-            {isRhartVideoGModel ? (
-              <>
-                <option value="2:3">2:3</option>
-                <option value="3:2">3:2</option>
-                <option value="1:1">1:1 方形</option>
-              </>
-            ) : (
-              <>
-                <option value="16:9">16:9 横屏</option>
-                <option value="9:16">9:16 竖屏</option>
-                {(isKlingModel || isKlingVideoO1Model || isKlingVideoO1I2vModel || isKlingVideoO1StartEndModel || isKlingVideoO1RefModel) && <option value="1:1">1:1 方形</option>}
-              </>
-            )}
+            {modelOptions.map((opt) => (
+              <option key={opt.value} value={opt.value}>
+                {opt.label}
+              </option>
+            ))}
           </select>
 
-          {/* 全能视频G：时长 6s/10s（仅图生，固定 720P） */}
-          {isRhartVideoGModel && (
-            <>
-              <span className={`text-xs ${isDarkMode ? 'text-white/70' : 'text-gray-700'}`}>时长:</span>
-              <select
-                value={durationRhartVideoG}
-                onChange={(e) => onDurationRhartVideoGChange?.(e.target.value as '6s' | '10s')}
-                className={`px-2 py-1 rounded-lg text-xs ${
-                  isDarkMode ? 'bg-black/30 text-white border border-gray-600/50' : 'bg-white/90 text-gray-900 border border-gray-300'
-                } outline-none`}
-                title="全能视频G 时长"
-              >
-                <option value="6s">6s</option>
-                <option value="10s">10s</option>
-              </select>
-            </>
-          )}
-
-          {/* 海螺-02/2.3 文生、海螺-02 图生视频标准：时长 6/10 秒 */}
-          {(isHailuo02Model || isHailuo23Model || isHailuo02I2vModel || isHailuo23I2vModel) && (
-            <>
-              <span className={`text-xs ${isDarkMode ? 'text-white/70' : 'text-gray-700'}`}>时长:</span>
-              <select
-                value={durationHailuo02}
-                onChange={(e) => onDurationHailuo02Change?.(e.target.value as '6' | '10')}
-                className={`px-2 py-1 rounded-lg text-xs ${
-                  isDarkMode ? 'bg-black/30 text-white border border-gray-600/50' : 'bg-white/90 text-gray-900 border border-gray-300'
-                } outline-none`}
-                title="海螺-02 时长"
-              >
-                <option value="6">6s</option>
-                <option value="10">10s</option>
-              </select>
-            </>
-          )}
-
-          {/* 可灵文生视频o1：时长 5/10 秒，模式 std/pro */}
-          {/* 可灵文生/图生/首尾帧/参考生视频o1：时长 5/10 秒，模式 std/pro */}
-          {(isKlingVideoO1Model || isKlingVideoO1I2vModel || isKlingVideoO1StartEndModel || isKlingVideoO1RefModel) && (
-            <>
-              <span className={`text-xs ${isDarkMode ? 'text-white/70' : 'text-gray-700'}`}>时长:</span>
-              <select
-                value={durationKlingO1}
-                onChange={(e) => onDurationKlingO1Change?.(e.target.value as '5' | '10')}
-                className={`px-2 py-1 rounded-lg text-xs ${
-                  isDarkMode ? 'bg-black/30 text-white border border-gray-600/50' : 'bg-white/90 text-gray-900 border border-gray-300'
-                } outline-none`}
-                title="可灵o1 时长"
-              >
-                <option value="5">5s</option>
-                <option value="10">10s</option>
-              </select>
-              <span className={`text-xs ${isDarkMode ? 'text-white/70' : 'text-gray-700'}`}>模式:</span>
-              <select
-                value={modeKlingO1}
-                onChange={(e) => onModeKlingO1Change?.(e.target.value as 'std' | 'pro')}
-                className={`px-2 py-1 rounded-lg text-xs ${
-                  isDarkMode ? 'bg-black/30 text-white border border-gray-600/50' : 'bg-white/90 text-gray-900 border border-gray-300'
-                } outline-none`}
-                title="可灵o1 模式"
-              >
-                <option value="std">std</option>
-                <option value="pro">pro</option>
-              </select>
-              {isKlingVideoO1RefModel && (
-                <label className="flex items-center gap-1.5 cursor-pointer">
-                  <input
-                    type="checkbox"
-                    checked={keepOriginalSound}
-                    onChange={(e) => onKeepOriginalSoundChange?.(e.target.checked)}
-                    className="rounded border-gray-500"
-                  />
-                  <span className={`text-xs ${isDarkMode ? 'text-white/70' : 'text-gray-700'}`}>保留参考视频原声</span>
-                </label>
-              )}
-            </>
-          )}
-
-          {/* 全能视频V3.1-fast / V3.1-pro 首尾帧 / Veo3.1 Pro 文生：分辨率 720p/1080p/4k（比例仅 16:9/9:16）；Pro 文生/首尾帧固定 8s */}
-          {(isRhartV31FastModel || isRhartV31FastSEModel || isRhartV31ProSEModel || isRhartV31ProModel) && (
-            <>
-              <span className={`text-xs ${isDarkMode ? 'text-white/70' : 'text-gray-700'}`}>分辨率:</span>
-              <select
-                value={resolutionRhartV31}
-                onChange={(e) => onResolutionRhartV31Change?.(e.target.value as '720p' | '1080p' | '4k')}
-                className={`px-2 py-1 rounded-lg text-xs ${
-                  isDarkMode ? 'bg-black/30 text-white border border-gray-600/50' : 'bg-white/90 text-gray-900 border border-gray-300'
-                } outline-none`}
-                title="输出分辨率"
-                aria-label="分辨率"
-              >
-                <option value="720p">720p</option>
-                <option value="1080p">1080p</option>
-                <option value="4k">4k</option>
-              </select>
-              {(isRhartV31ProModel || isRhartV31ProSEModel) && (
-                <span className={`text-xs ${isDarkMode ? 'text-white/70' : 'text-gray-700'}`}>时长: 8s</span>
-              )}
-            </>
-          )}
-
-          {/* sora-2、kling、万相2.6：显示时长选项（Veo3.1 Pro 文生固定 8s，不显示此项） */}
-          {!isWan26FlashModel && !isRhartV31FastModel && !isRhartVideoGModel && !isHailuo02Model && !isHailuo23Model && !isHailuo02I2vModel && !isHailuo23I2vModel && !isKlingVideoO1Model && !isKlingVideoO1I2vModel && !isKlingVideoO1StartEndModel && !isKlingVideoO1RefModel && !isRhartV31ProSEModel && !isRhartV31ProModel && (
-            <>
-              <span
-                className={`text-xs ${
-                  isDarkMode ? 'text-white/70' : 'text-gray-700'
-                }`}
-              >
-                时长:
-              </span>
-              <select
-                value={(isRhartVideoSI2vProModel || isSora2ProModel) ? (duration === '25' ? '25' : '15') : duration}
-                onChange={(e) => onDurationChange(e.target.value as '5' | '10' | '15' | '25')}
-                className={`px-2 py-1 rounded-lg text-xs ${
-                  isDarkMode
-                    ? 'bg-black/30 text-white border border-gray-600/50'
-                    : 'bg-white/90 text-gray-900 border border-gray-300'
-                } outline-none`}
-                title="选择视频时长"
-              >
-                {(isKlingModel || isWan26Model) && !isRhartVideoSI2vProModel && !isSora2ProModel && <option value="5">5s</option>}
-                {(isRhartVideoSI2vProModel || isSora2ProModel) ? (
-                  <>
-                    <option value="15">15s</option>
-                    <option value="25">25s</option>
-                  </>
-                ) : isSora2Model ? (
-                  <>
-                    <option value="10">10s</option>
-                    <option value="15">15s</option>
-                  </>
-                ) : (
-                  <>
-                    <option value="10">10s</option>
-                    {!isKlingModel && (
-                      <>
-                        <option value="15">15s</option>
-                      </>
-                    )}
-                  </>
-                )}
-              </select>
-
-            </>
-          )}
-
-          {/* 万相2.6：镜头类型 + 图生视频时显示分辨率 */}
-          {isWan26Model && (
-            <>
-              <span className={`text-xs ${isDarkMode ? 'text-white/70' : 'text-gray-700'}`}>镜头:</span>
-              <select
-                value={shotType}
-                onChange={(e) => onShotTypeChange?.(e.target.value as 'single' | 'multi')}
-                className={`px-2 py-1 rounded-lg text-xs ${
-                  isDarkMode ? 'bg-black/30 text-white border border-gray-600/50' : 'bg-white/90 text-gray-900 border border-gray-300'
-                } outline-none`}
-                title="单镜头 / 多镜头"
-              >
-                <option value="single">单镜头</option>
-                <option value="multi">多镜头</option>
-              </select>
-              {isImageToVideoMode && (
-                <>
-                  <span className={`text-xs ${isDarkMode ? 'text-white/70' : 'text-gray-700'}`}>分辨率:</span>
-                  <select
-                    value={resolutionWan26}
-                    onChange={(e) => onResolutionWan26Change?.(e.target.value as '720p' | '1080p')}
-                    className={`px-2 py-1 rounded-lg text-xs ${
-                      isDarkMode ? 'bg-black/30 text-white border border-gray-600/50' : 'bg-white/90 text-gray-900 border border-gray-300'
-                    } outline-none`}
-                    title="图生视频输出分辨率"
-                  >
-                    <option value="720p">720p</option>
-                    <option value="1080p">1080p</option>
-                  </select>
-                </>
-              )}
-            </>
-          )}
-
-          {/* 万相2.6 Flash 图生视频：第一行 时长、镜头、分辨率；第二行 生成音频 */}
-          {isWan26FlashModel && (
-            <div className="flex flex-col gap-1">
-              <div className="flex items-center gap-2">
-                <span className={`text-xs ${isDarkMode ? 'text-white/70' : 'text-gray-700'}`}>时长:</span>
-                <select
-                  value={durationWan26Flash}
-                  onChange={(e) => onDurationWan26FlashChange?.(e.target.value as '2'|'3'|'4'|'5'|'6'|'7'|'8'|'9'|'10'|'11'|'12'|'13'|'14'|'15')}
-                  className={`px-2 py-1 rounded-lg text-xs ${
-                    isDarkMode ? 'bg-black/30 text-white border border-gray-600/50' : 'bg-white/90 text-gray-900 border border-gray-300'
-                  } outline-none`}
-                  title="2-15 秒"
-                >
-                  {([2,3,4,5,6,7,8,9,10,11,12,13,14,15] as const).map((n) => (
-                    <option key={n} value={String(n)}>{n}s</option>
-                  ))}
-                </select>
-                <span className={`text-xs ${isDarkMode ? 'text-white/70' : 'text-gray-700'}`}>镜头:</span>
-                <select
-                  value={shotType}
-                  onChange={(e) => onShotTypeChange?.(e.target.value as 'single' | 'multi')}
-                  className={`px-2 py-1 rounded-lg text-xs ${
-                    isDarkMode ? 'bg-black/30 text-white border border-gray-600/50' : 'bg-white/90 text-gray-900 border border-gray-300'
-                  } outline-none`}
-                  title="单镜头 / 多镜头"
-                  aria-label="镜头类型"
-                >
-                  <option value="single">单镜头</option>
-                  <option value="multi">多镜头</option>
-                </select>
-                <span className={`text-xs ${isDarkMode ? 'text-white/70' : 'text-gray-700'}`}>分辨率:</span>
-                <select
-                  value={resolutionWan26}
-                  onChange={(e) => onResolutionWan26Change?.(e.target.value as '720p' | '1080p')}
-                  className={`px-2 py-1 rounded-lg text-xs ${
-                    isDarkMode ? 'bg-black/30 text-white border border-gray-600/50' : 'bg-white/90 text-gray-900 border border-gray-300'
-                  } outline-none`}
-                  title="输出分辨率"
-                  aria-label="分辨率"
-                >
-                  <option value="720p">720p</option>
-                  <option value="1080p">1080p</option>
-                </select>
-              </div>
-              <div className="flex items-center">
-                <label className="flex items-center gap-1 text-xs cursor-pointer">
-                  <input
-                    type="checkbox"
-                    checked={enableAudio}
-                    onChange={(e) => onEnableAudioChange?.(e.target.checked)}
-                    className="rounded border-gray-400"
-                    title="生成带音频的视频"
-                  />
-                  <span className={isDarkMode ? 'text-white/70' : 'text-gray-700'}>生成音频</span>
-                </label>
-              </div>
-            </div>
-          )}
-
-          {/* kling-v2.6-pro 系列：显示额外参数 */}
-          {isKlingModel && (
-            <>
-              <span
-                className={`text-xs ${
-                  isDarkMode ? 'text-white/70' : 'text-gray-700'
-                }`}
-              >
-                自由度:
-              </span>
-              <div className="flex items-center gap-2">
-                <input
-                  type="range"
-                  min="0"
-                  max="1"
-                  step="0.1"
-                  value={guidanceScale}
-                  onChange={(e) => onGuidanceScaleChange?.(parseFloat(e.target.value))}
-                  className="w-24"
-                  title="生成视频的自由度，值越大与提示词相关性越强"
-                />
-                <span
-                  className={`text-xs w-8 ${
-                    isDarkMode ? 'text-white/70' : 'text-gray-700'
-                  }`}
-                >
-                  {guidanceScale.toFixed(1)}
-                </span>
-              </div>
-
-              <label className="flex items-center gap-1 text-xs cursor-pointer">
-                <input
-                  type="checkbox"
-                  checked={sound === 'true'}
-                  onChange={(e) => onSoundChange?.(e.target.checked ? 'true' : 'false')}
-                  className="rounded border-gray-400"
-                  title="生成视频时是否同时生成声音"
-                />
-                <span
-                  className={`${
-                    isDarkMode ? 'text-white/70' : 'text-gray-700'
-                  }`}
-                >
-                  声音
-                </span>
-              </label>
-            </>
+          {/* 模型参数：按模型目录中的参数表渲染（比例、时长、分辨率、参考图数量等） */}
+          <ModelParamControls
+            params={paramSchema}
+            values={paramValues}
+            mode={generationMode}
+            isDarkMode={isDarkMode}
+            onChange={handleParamChange}
+          />
+          {modelSpec?.notes && (
+            <span className={`text-xs ${isDarkMode ? 'text-white/70' : 'text-gray-700'}`}>{modelSpec.notes}</span>
           )}
-
         </div>
 
-        {/* 右侧：运行按钮（图生视频时显示最多 N 张，以及价格） */}
+        {/* 右侧：运行按钮（价格） */}
         <div className="flex items-center gap-2 flex-shrink-0">
-          {isImageToVideoMode && inputImages && inputImages.length > 0 && (
-            <span
-              className={`text-xs font-medium px-2 py-1 rounded ${
-                isDarkMode ? 'text-white/50 bg-white/10' : 'text-gray-500 bg-gray-100'
-              }`}
-              title={`当前模型最多支持 ${maxRefImagesVideo} 张参考图`}
-            >
-              最多 {maxRefImagesVideo} 张
-            </span>
-          )}
           {videoPrice !== null && (
             <span
               className={`text-xs font-medium px-2 py-1 rounded ${
@@ -1152,6 +756,9 @@ const VideoInputPanel: React.FC<VideoInputPanelProps> = ({
             </span>
           )}
 
+          {fanOutSegmentCount > 0 && onFanOutToggle && (
+            <FanOutToggle segmentCount={fanOutSegmentCount} enabled={fanOutEnabled} locked={fanOutLocked} isDarkMode={isDarkMode} onChange={onFanOutToggle} />
+          )}
           <button
             onClick={handleExecute}
             disabled={isRunDisabled}
@@ -1166,7 +773,7 @@ const VideoInputPanel: React.FC<VideoInputPanelProps> = ({
                     ? 'bg-purple-500 text-white hover:bg-purple-600 shadow-md shadow-purple-500/30'
                     : 'bg-blue-500 text-white hover:bg-blue-600 shadow-md shadow-blue-500/30'
             }`}
-            title={modeLabel}
+            title={templateError || paramError || modeLabel}
           >
             {aiStatus === 'PROCESSING' ? (
               <>
@@ -1194,6 +801,16 @@ const VideoInputPanel: React.FC<VideoInputPanelProps> = ({
             提示词（视频描述）
           </label>
         </div>
+        {onPromptTemplateChange && (
+          <div className="mb-2 flex-shrink-0">
+            <PromptTemplateField
+              template={promptTemplate}
+              variables={templateVariables}
+              isDarkMode={isDarkMode}
+              onChange={onPromptTemplateChange}
+            />
+          </div>
+        )}
         <div className="flex-1 min-h-0">
           <textarea
             ref={promptInputRef}
@@ -1,9 +1,14 @@
 import React, { useState, useRef, useEffect, useCallback, memo, useMemo } from 'react';
 import { Handle, Position, NodeProps, useStore } from 'reactflow';
-import { Loader2, Upload, Video } from 'lucide-react';
+import { Ban, Loader2, Upload, Video } from 'lucide-react';
 import { ModuleProgressBar } from './ModuleProgressBar';
+import ErrorActionHint from './ErrorActionHint';
+import type { AIErrorCode } from '../../hooks/useAI';
+import type { VideoModelId } from '../../../main/ai/modelCatalog';
 import { VideoPreview, type VideoPreviewRef } from '../VideoPreview';
 import { normalizeVideoUrl } from '../../utils/normalizeVideoUrl';
+import type { FanOutItem } from '../../utils/fanOut';
+import { FanOutGallery } from './FanOutGallery';
 
 /** 缩放低于此值时不再渲染 <video>，仅显示占位，避免大纹理导致 GPU 崩溃 */
 const ZOOM_THRESHOLD_NO_VIDEO = 0.08;
@@ -40,7 +45,7 @@ interface VideoNodeData {
   title?: string;
   prompt?: string;
   aspectRatio?: '16:9' | '9:16';
-  model?: 'sora-2' | 'sora-2-pro' | 'kling-v2.6-pro' | 'wan-2.6' | 'wan-2.6-flash' | 'rhart-v3.1-fast' | 'rhart-v3.1-fast-se' | 'rhart-v3.1-pro' | 'rhart-v3.1-pro-se' | 'rhart-video-g' | 'rhart-video-s-i2v-pro' | 'kling-video-o1' | 'kling-video-o1-i2v' | 'kling-video-o1-start-end' | 'kling-video-o1-ref';
+  model?: VideoModelId;
   hd?: boolean;
   duration?: '5' | '10' | '15' | '25';
   shotType?: 'single' | 'multi';
@@ -53,12 +58,20 @@ interface VideoNodeData {
   progress?: number; // 视频生成进度 0-100
   progressMessage?: string; // 进度状态文案
   errorMessage?: string; // 错误信息
+  errorCode?: AIErrorCode; // 错误分类（决定错误区展示的操作提示）
+  cancelled?: boolean; // 任务已被用户取消
+  queuePosition?: number; // 调度排队位置（排队等待时显示）
+  fanOutItems?: FanOutItem[]; // 逐段批量的每段结果
 }
 
 interface VideoNodeProps extends NodeProps<VideoNodeData> {
   isDarkMode?: boolean;
   performanceMode?: boolean;
   onDataChange?: (nodeId: string, updates: Partial<VideoNodeData>) => void;
+  /** 错误提示中「前往设置」的回调（保存项目后跳转设置页） */
+  onOpenSettings?: () => void;
+  /** 逐段批量：重新运行失败的单段 */
+  onFanOutRetry?: (nodeId: string, index: number) => void;
 }
 
 const VideoNodeComponent: React.FC<VideoNodeProps> = (props) => {
@@ -69,6 +82,8 @@ const VideoNodeComponent: React.FC<VideoNodeProps> = (props) => {
     isDarkMode = true,
     performanceMode = false,
     onDataChange,
+    onOpenSettings,
+    onFanOutRetry,
     // 过滤 React Flow 内部属性，避免透传到 DOM
     xPos = 0,
     yPos = 0,
@@ -371,6 +386,7 @@ const VideoNodeComponent: React.FC<VideoNodeProps> = (props) => {
         visible={progress > 0}
         progress={progress}
         borderRadius={16}
+        label={data?.queuePosition ? `排队中 #${data.queuePosition}` : undefined}
         onFadeComplete={() => onDataChange?.(id, { progress: 0 })}
       />
 
@@ -397,6 +413,13 @@ const VideoNodeComponent: React.FC<VideoNodeProps> = (props) => {
           ) : (
             <VideoPlaceholder isDarkMode={!!isDarkMode} />
           )
+        ) : data?.cancelled ? (
+          <div className="flex flex-col items-center justify-center gap-2 p-4">
+            <Ban className={`w-6 h-6 ${isDarkMode ? 'text-white/40' : 'text-gray-400'}`} />
+            <p className={`text-sm font-semibold text-center ${isDarkMode ? 'text-white/60' : 'text-gray-500'}`}>
+              已取消
+            </p>
+          </div>
         ) : errorMessage ? (
           <div className="flex flex-col items-center justify-center gap-3 p-4">
             <div className={`text-2xl ${isDarkMode ? 'text-red-400' : 'text-red-600'}`}>
@@ -408,6 +431,7 @@ const VideoNodeComponent: React.FC<VideoNodeProps> = (props) => {
             <p className={`text-xs text-center line-clamp-3 ${isDarkMode ? 'text-white/60' : 'text-gray-600'}`}>
               {errorMessage}
             </p>
+            <ErrorActionHint errorCode={data?.errorCode} isDarkMode={isDarkMode} onOpenSettings={onOpenSettings} />
           </div>
         ) : (
           <p className={isDarkMode ? 'text-white/60' : 'text-gray-500'}>
@@ -415,6 +439,9 @@ const VideoNodeComponent: React.FC<VideoNodeProps> = (props) => {
           </p>
         )}
       </div>
+      {data?.fanOutItems && data.fanOutItems.length > 0 && (
+        <FanOutGallery nodeId={id} nodeType="video" items={data.fanOutItems} isDarkMode={isDarkMode} onRetry={onFanOutRetry} />
+      )}
       </>
       )}
     </div>
@@ -434,7 +461,11 @@ export const VideoNode = memo(VideoNodeComponent, (prevProps, nextProps) => {
     prevProps.data?.title === nextProps.data?.title &&
     prevProps.data?.progress === nextProps.data?.progress &&
     prevProps.data?.progressMessage === nextProps.data?.progressMessage &&
-    prevProps.data?.errorMessage === nextProps.data?.errorMessage
+    prevProps.data?.errorMessage === nextProps.data?.errorMessage &&
+    prevProps.data?.errorCode === nextProps.data?.errorCode &&
+    prevProps.data?.cancelled === nextProps.data?.cancelled &&
+    prevProps.data?.queuePosition === nextProps.data?.queuePosition &&
+    prevProps.data?.fanOutItems === nextProps.data?.fanOutItems
   );
 });
 VideoNode.displayName = 'VideoNode';
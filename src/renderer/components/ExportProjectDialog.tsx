@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { createPortal } from 'react-dom';
+
+export interface ExportProjectOptions {
+  selfContained: boolean;
+  stripOutputs: boolean;
+  includeRemote: boolean;
+}
+
+interface ExportProjectDialogProps {
+  projectName: string;
+  onClose: () => void;
+  onExport: (options: ExportProjectOptions) => void;
+}
+
+/**
+ * 导出选项：标准导出（data.json + 项目 assets）或自包含导出（打包节点引用的全部媒体，换电脑也能打开）
+ */
+const ExportProjectDialog: React.FC<ExportProjectDialogProps> = ({ projectName, onClose, onExport }) => {
+  const [options, setOptions] = useState<ExportProjectOptions>({ selfContained: true, stripOutputs: false, includeRemote: true });
+
+  const optionClass = (active: boolean) =>
+    `flex items-start gap-3 p-3 rounded-lg cursor-pointer border ${active ? 'border-apple-blue bg-white/10' : 'border-white/10 hover:bg-white/5'}`;
+
+  return createPortal(
+    <div
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-[9999]"
+      onClick={(e) => e.target === e.currentTarget && onClose()}
+    >
+      <div className="apple-panel rounded-xl p-6 w-[420px] space-y-3" onClick={(e) => e.stopPropagation()}>
+        <h3 className="text-xl font-bold text-white">导出「{projectName}」</h3>
+        <label className={optionClass(options.selfContained)}>
+          <input
+            type="radio"
+            name="export-mode"
+            checked={options.selfContained}
+            onChange={() => setOptions((prev) => ({ ...prev, selfContained: true }))}
+            className="mt-1"
+          />
+          <span>
+            <span className="block text-white text-sm">自包含导出（推荐）</span>
+            <span className="block text-white/50 text-xs">打包节点引用的全部图片、视频、音频（含头像与拖入的外部文件），在其他电脑导入后可直接使用</span>
+          </span>
+        </label>
+        <label className={optionClass(!options.selfContained)}>
+          <input
+            type="radio"
+            name="export-mode"
+            checked={!options.selfContained}
+            onChange={() => setOptions((prev) => ({ ...prev, selfContained: false }))}
+            className="mt-1"
+          />
+          <span>
+            <span className="block text-white text-sm">标准导出</span>
+            <span className="block text-white/50 text-xs">导出项目数据与项目 assets 文件夹，项目外的文件不会被打包</span>
+          </span>
+        </label>
+        {options.selfContained && (
+          <div className="space-y-2 pl-1">
+            <label className="flex items-center gap-2 text-white/80 text-sm cursor-pointer">
+              <input
+                type="checkbox"
+                checked={options.includeRemote}
+                onChange={(e) => setOptions((prev) => ({ ...prev, includeRemote: e.target.checked }))}
+              />
+              下载并打包远程媒体链接
+            </label>
+            <label className="flex items-center gap-2 text-white/80 text-sm cursor-pointer">
+              <input
+                type="checkbox"
+                checked={options.stripOutputs}
+                onChange={(e) => setOptions((prev) => ({ ...prev, stripOutputs: e.target.checked }))}
+              />
+              不包含生成结果（仅分享工作流与输入素材）
+            </label>
+          </div>
+        )}
+        <div className="flex gap-2 justify-end">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 apple-button-secondary rounded-lg text-white/60 hover:text-white transition-colors"
+          >
+            取消
+          </button>
+          <button
+            type="button"
+            onClick={() => onExport(options)}
+            className="px-4 py-2 apple-button-primary rounded-lg text-white transition-colors"
+          >
+            导出
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default ExportProjectDialog;
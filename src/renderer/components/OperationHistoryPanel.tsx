@@ -0,0 +1,100 @@
+import React, { useEffect, useRef } from 'react';
+import { X, Undo2, Redo2, Trash2 } from 'lucide-react';
+import type { HistoryEntry } from '../utils/operationHistory';
+
+interface OperationHistoryPanelProps {
+  entries: HistoryEntry[];
+  /** 当前位置：已应用的最后一条记录下标，-1 表示回到最初状态 */
+  index: number;
+  onJump: (index: number) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+const formatTime = (timestamp: number) => {
+  const d = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${pad(d.getMonth() + 1)}/${pad(d.getDate())} ${pad(d.getHours())}:${pad(d.getMinutes())}:${pad(d.getSeconds())}`;
+};
+
+/**
+ * 操作历史：按顺序列出画布操作，点击任一条回到该操作之后的状态；已撤销的记录置灰，新操作会覆盖它们
+ */
+const OperationHistoryPanel: React.FC<OperationHistoryPanelProps> = ({ entries, index, onJump, onUndo, onRedo, onClear, onClose }) => {
+  const currentRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    currentRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [index]);
+
+  const itemClass = (active: boolean, undone: boolean) =>
+    `px-3 py-1.5 cursor-pointer border-b border-white/5 text-sm ${
+      active ? 'bg-white/15 text-white' : undone ? 'text-white/35 hover:bg-white/5' : 'text-white/80 hover:bg-white/5'
+    }`;
+
+  return (
+    <div
+      className="fixed top-16 right-4 z-[100] w-80 max-h-[65vh] apple-panel rounded-xl flex flex-col shadow-2xl"
+      onMouseDown={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between px-3 py-2 border-b border-white/10">
+        <h3 className="text-sm font-bold text-white">操作历史</h3>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={onUndo}
+            disabled={index < 0}
+            className="p-1 rounded-lg text-white/60 hover:text-white hover:bg-white/10 disabled:opacity-30"
+            title="撤销 (Ctrl+Z)"
+          >
+            <Undo2 className="w-4 h-4" />
+          </button>
+          <button
+            onClick={onRedo}
+            disabled={index >= entries.length - 1}
+            className="p-1 rounded-lg text-white/60 hover:text-white hover:bg-white/10 disabled:opacity-30"
+            title="重做 (Ctrl+Y)"
+          >
+            <Redo2 className="w-4 h-4" />
+          </button>
+          <button
+            onClick={onClear}
+            disabled={entries.length === 0}
+            className="p-1 rounded-lg text-white/60 hover:text-red-400 hover:bg-white/10 disabled:opacity-30"
+            title="清空历史（不改变画布）"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+          <button onClick={onClose} className="p-1 rounded-lg text-white/60 hover:text-white hover:bg-white/10" title="关闭">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+      <div className="flex-1 overflow-y-auto custom-scrollbar">
+        <div ref={index === -1 ? currentRef : undefined} onClick={() => onJump(-1)} className={itemClass(index === -1, false)}>
+          初始状态
+        </div>
+        {entries.map((entry, i) => (
+          <div
+            key={entry.id}
+            ref={i === index ? currentRef : undefined}
+            onClick={() => onJump(i)}
+            className={itemClass(i === index, i > index)}
+            title={entry.label}
+          >
+            <div className="flex items-center gap-2">
+              <span className="flex-1 truncate">{entry.label}</span>
+              <span className="shrink-0 text-[10px] text-white/40">{formatTime(entry.timestamp)}</span>
+            </div>
+          </div>
+        ))}
+      </div>
+      <p className="px-3 py-1.5 border-t border-white/10 text-white/40 text-[11px]">
+        最近 {entries.length} 条操作，重新打开项目后仍可撤销
+      </p>
+    </div>
+  );
+};
+
+export default OperationHistoryPanel;
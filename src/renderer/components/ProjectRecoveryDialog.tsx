@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { createPortal } from 'react-dom';
+import { AlertTriangle } from 'lucide-react';
+
+type ProjectBackup = Awaited<ReturnType<Window['electronAPI']['listProjectBackups']>>[number];
+
+interface ProjectRecoveryDialogProps {
+  projectId: string;
+  reason: string;
+  backups: ProjectBackup[];
+  /** 备份已写回 data.json，由画布重新加载项目 */
+  onRestored: () => void;
+  onDismiss: () => void;
+}
+
+const formatTime = (timestamp: number) => {
+  const d = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}/${pad(d.getMonth() + 1)}/${pad(d.getDate())} ${pad(d.getHours())}:${pad(d.getMinutes())}:${pad(d.getSeconds())}`;
+};
+
+/**
+ * 项目文件损坏时的恢复对话框：列出完好的备份（最新在前），默认选中最近一份
+ */
+const ProjectRecoveryDialog: React.FC<ProjectRecoveryDialogProps> = ({ projectId, reason, backups, onRestored, onDismiss }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(backups.find((b) => !b.corrupted)?.id ?? backups[0]?.id ?? null);
+  const [restoring, setRestoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRestore = async () => {
+    if (!selectedId || restoring) return;
+    setRestoring(true);
+    setError(null);
+    const res = await window.electronAPI.restoreProjectBackup(projectId, selectedId);
+    setRestoring(false);
+    if (res.success) {
+      onRestored();
+    } else {
+      setError(res.error || '恢复失败');
+    }
+  };
+
+  return createPortal(
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-[9999]">
+      <div className="apple-panel rounded-xl p-6 w-[460px] space-y-3" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center gap-2">
+          <AlertTriangle className="w-5 h-5 text-yellow-400" />
+          <h3 className="text-lg font-bold text-white">项目文件已损坏</h3>
+        </div>
+        <p className="text-white/70 text-sm">{reason}。损坏的文件已移入项目目录下的 backups 文件夹，可选择一份备份恢复。</p>
+        {backups.length === 0 ? (
+          <p className="text-white/50 text-sm">没有可用的备份。</p>
+        ) : (
+          <div className="max-h-64 overflow-y-auto custom-scrollbar rounded-lg border border-white/10">
+            {backups.map((backup) => (
+              <label
+                key={backup.id}
+                className={`flex items-center gap-3 px-3 py-2 cursor-pointer border-b border-white/5 ${
+                  selectedId === backup.id ? 'bg-white/15' : 'hover:bg-white/5'
+                }`}
+              >
+                <input
+                  type="radio"
+                  name="project-backup"
+                  checked={selectedId === backup.id}
+                  onChange={() => setSelectedId(backup.id)}
+                />
+                <span className="flex-1 text-white text-sm">{formatTime(backup.savedAt)}</span>
+                <span className="text-white/50 text-xs">
+                  {backup.nodeCount} 个节点 · {backup.edgeCount} 条连线
+                </span>
+                {backup.corrupted && <span className="text-[10px] px-1 rounded bg-yellow-500/20 text-yellow-300">校验失败的原文件</span>}
+              </label>
+            ))}
+          </div>
+        )}
+        {error && <p className="text-red-400 text-sm">{error}</p>}
+        <div className="flex gap-2 justify-end">
+          <button
+            type="button"
+            onClick={onDismiss}
+            className="px-4 py-2 apple-button-secondary rounded-lg text-white/60 hover:text-white transition-colors"
+          >
+            使用空白画布
+          </button>
+          <button
+            type="button"
+            onClick={handleRestore}
+            disabled={!selectedId || restoring}
+            className="px-4 py-2 apple-button-primary rounded-lg text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {restoring ? '恢复中…' : '恢复所选备份'}
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default ProjectRecoveryDialog;
@@ -1,7 +1,9 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { createPortal } from 'react-dom';
 import { useNavigate } from 'react-router-dom';
-import { Plus, Edit2, Trash2, ArrowLeft, Download, Upload, FolderOpen, Power } from 'lucide-react';
+import { Plus, Edit2, Trash2, ArrowLeft, Download, Upload, FolderOpen, Power, LayoutTemplate } from 'lucide-react';
+import TemplateGallery, { SaveTemplateDialog } from './TemplateGallery';
+import ExportProjectDialog, { type ExportProjectOptions } from './ExportProjectDialog';
 
 const CARD_BG_STORAGE_KEY = 'nexflow-project-card-bg';
 function getCardBgKey(projectId: string) {
@@ -34,6 +36,12 @@ const Projects: React.FC<ProjectsProps> = ({ onBack }) => {
   const [deleteConfirmProject, setDeleteConfirmProject] = useState<Project | null>(null);
   /** 非阻塞提示（替代 alert，避免 stole 焦点导致输入框光标异常） */
   const [toastMessage, setToastMessage] = useState<string | null>(null);
+  /** 模板库弹窗 */
+  const [showTemplateGallery, setShowTemplateGallery] = useState(false);
+  /** 待另存为模板的项目（非空时显示存为模板弹窗） */
+  const [saveTemplateProject, setSaveTemplateProject] = useState<Project | null>(null);
+  /** 待导出的项目（非空时显示导出选项弹窗） */
+  const [exportProject, setExportProject] = useState<Project | null>(null);
   const createInputRef = useRef<HTMLInputElement>(null);
   const renameInputRef = useRef<HTMLInputElement>(null);
 
@@ -185,16 +193,21 @@ const Projects: React.FC<ProjectsProps> = ({ onBack }) => {
   };
 
   // 导出项目（含项目卡背景图）
-  const handleExportProject = async (projectId: string, projectName: string) => {
+  const handleExportProject = async (projectId: string, projectName: string, options: ExportProjectOptions) => {
     if (!window.electronAPI) {
       return;
     }
 
     try {
       const cardBgDataUrl = typeof localStorage !== 'undefined' ? localStorage.getItem(getCardBgKey(projectId)) : null;
-      const result = await window.electronAPI.exportProject(projectId, cardBgDataUrl || undefined);
+      const result = await window.electronAPI.exportProject(projectId, cardBgDataUrl || undefined, options);
       if (result.success) {
-        setToastMessage(`项目 "${projectName}" 已成功导出！`);
+        const missingCount = result.missing?.length ?? 0;
+        setToastMessage(
+          options.selfContained
+            ? `项目 "${projectName}" 已导出，打包 ${result.bundledCount ?? 0} 个媒体文件${missingCount > 0 ? `，${missingCount} 个引用的文件不存在或下载失败` : ''}`
+            : `项目 "${projectName}" 已成功导出！`
+        );
       }
     } catch (error: any) {
       console.error('导出项目失败:', error);
@@ -281,6 +294,14 @@ const Projects: React.FC<ProjectsProps> = ({ onBack }) => {
               <FolderOpen className="w-4 h-4" />
               <span>选择保存位置</span>
             </button>
+            <button
+              onClick={() => setShowTemplateGallery(true)}
+              className="flex items-center gap-2 px-4 py-2 apple-button-secondary rounded-lg text-white/60 hover:text-white transition-all"
+              title="从模板新建项目"
+            >
+              <LayoutTemplate className="w-4 h-4" />
+              <span>模板库</span>
+            </button>
             <button
               onClick={handleImportProject}
               className="flex items-center gap-2 px-4 py-2 apple-button-secondary rounded-lg text-white/60 hover:text-white transition-all"
@@ -392,7 +413,7 @@ const Projects: React.FC<ProjectsProps> = ({ onBack }) => {
                     </p>
                   </div>
                   
-                  {/* Hover 时显示：编辑、导出、删除 */}
+                  {/* Hover 时显示：编辑、存为模板、导出、删除 */}
                   <div className="absolute top-4 right-4 opacity-0 group-hover:opacity-100 transition-opacity flex gap-2 z-20">
                     <button
                       onClick={(e) => {
@@ -407,13 +428,23 @@ const Projects: React.FC<ProjectsProps> = ({ onBack }) => {
                     <button
                       onClick={(e) => {
                         e.stopPropagation();
-                        handleExportProject(project.id, project.name);
+                        setExportProject(project);
                       }}
                       className="p-2 apple-button-secondary rounded-lg text-white transition-colors"
                       title="导出项目"
                     >
                       <Download className="w-4 h-4" />
                     </button>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setSaveTemplateProject(project);
+                      }}
+                      className="p-2 apple-button-secondary rounded-lg text-white transition-colors"
+                      title="存为模板"
+                    >
+                      <LayoutTemplate className="w-4 h-4" />
+                    </button>
                     <button
                       onClick={(e) => {
                         e.stopPropagation();
@@ -507,6 +538,42 @@ const Projects: React.FC<ProjectsProps> = ({ onBack }) => {
           document.body
         )}
 
+      {/* 模板库：从模板新建项目后刷新列表并进入画布 */}
+      {showTemplateGallery && (
+        <TemplateGallery
+          onClose={() => setShowTemplateGallery(false)}
+          onCreated={(project) => {
+            setShowTemplateGallery(false);
+            setProjects((prev) => [...prev, project]);
+            navigate(`/workspace/${project.id}`);
+          }}
+        />
+      )}
+
+      {saveTemplateProject && (
+        <SaveTemplateDialog
+          projectId={saveTemplateProject.id}
+          projectName={saveTemplateProject.name}
+          thumbnail={cardBackgrounds[saveTemplateProject.id]}
+          onClose={() => setSaveTemplateProject(null)}
+          onSaved={(message) => {
+            setSaveTemplateProject(null);
+            setToastMessage(message);
+          }}
+        />
+      )}
+
+      {exportProject && (
+        <ExportProjectDialog
+          projectName={exportProject.name}
+          onClose={() => setExportProject(null)}
+          onExport={(options) => {
+            setExportProject(null);
+            handleExportProject(exportProject.id, exportProject.name, options);
+          }}
+        />
+      )}
+
       {/* 非阻塞提示 Toast */}
       {toastMessage &&
         createPortal(
@@ -1,5 +1,14 @@
 import React, { useState, useEffect } from 'react';
-import { Save, Key, ArrowLeft } from 'lucide-react';
+import { Save, Key, ArrowLeft, Server, Plus, Trash2, RefreshCw, Film } from 'lucide-react';
+
+/** 自定义 OpenAI 兼容 LLM 端点 */
+interface LLMEndpoint {
+  id: string;
+  name: string;
+  baseUrl: string;
+  apiKey: string;
+  models: string[];
+}
 
 interface SettingsProps {
   onSaveSuccess?: () => void;
@@ -12,6 +21,13 @@ const Settings: React.FC<SettingsProps> = ({ onSaveSuccess, onBackToSplash }) =>
   const [rhApiKey, setRhApiKey] = useState('');
   const [saving, setSaving] = useState(false);
   const [saved, setSaved] = useState(false);
+  const [llmEndpoints, setLlmEndpoints] = useState<LLMEndpoint[]>([]);
+  // 正在获取模型列表的端点 ID，以及每个端点的获取结果提示
+  const [discoveringId, setDiscoveringId] = useState<string | null>(null);
+  const [discoverMessages, setDiscoverMessages] = useState<Record<string, string>>({});
+  // ffmpeg 路径（留空自动查找）与当前实际使用的 ffmpeg
+  const [ffmpegPath, setFfmpegPath] = useState('');
+  const [resolvedFfmpegPath, setResolvedFfmpegPath] = useState<string | null>(null);
 
   useEffect(() => {
     // 加载已保存的 API Key
@@ -32,12 +48,17 @@ const Settings: React.FC<SettingsProps> = ({ onSaveSuccess, onBackToSplash }) =>
       }
 
       try {
-        const [bltcy, rh] = await Promise.all([
+        const [bltcy, rh, endpoints, ffmpeg] = await Promise.all([
           window.electronAPI.getBLTCYApiKey(),
           window.electronAPI.getRHApiKey(),
+          window.electronAPI.getLLMEndpoints(),
+          window.electronAPI.getFfmpegConfig(),
         ]);
         setBltcyApiKey(bltcy);
         setRhApiKey(rh);
+        setLlmEndpoints(endpoints || []);
+        setFfmpegPath(ffmpeg.path);
+        setResolvedFfmpegPath(ffmpeg.resolvedPath);
       } catch (error) {
         console.error('加载 API Key 失败:', error);
         // 即使失败也继续渲染UI
@@ -47,6 +68,38 @@ const Settings: React.FC<SettingsProps> = ({ onSaveSuccess, onBackToSplash }) =>
     loadApiKeys();
   }, []);
 
+  const updateEndpoint = (id: string, updates: Partial<LLMEndpoint>) => {
+    setLlmEndpoints((prev) => prev.map((e) => (e.id === id ? { ...e, ...updates } : e)));
+  };
+
+  const handleAddEndpoint = () => {
+    setLlmEndpoints((prev) => [
+      ...prev,
+      { id: `endpoint-${Date.now()}`, name: '', baseUrl: '', apiKey: '', models: [] },
+    ]);
+  };
+
+  const handleRemoveEndpoint = (id: string) => {
+    setLlmEndpoints((prev) => prev.filter((e) => e.id !== id));
+  };
+
+  /** 通过 {baseUrl}/models 获取端点可用模型 */
+  const handleDiscoverModels = async (endpoint: LLMEndpoint) => {
+    if (!window.electronAPI || !endpoint.baseUrl.trim()) return;
+    setDiscoveringId(endpoint.id);
+    try {
+      const result = await window.electronAPI.discoverLLMEndpointModels(endpoint.baseUrl, endpoint.apiKey);
+      if (result.success) {
+        updateEndpoint(endpoint.id, { models: result.models });
+        setDiscoverMessages((prev) => ({ ...prev, [endpoint.id]: `已获取 ${result.models.length} 个模型` }));
+      } else {
+        setDiscoverMessages((prev) => ({ ...prev, [endpoint.id]: `获取失败：${result.error || '未知错误'}` }));
+      }
+    } finally {
+      setDiscoveringId(null);
+    }
+  };
+
   const handleSave = async () => {
     if (!window.electronAPI) {
       console.error('electronAPI 未就绪，无法保存');
@@ -57,10 +110,13 @@ const Settings: React.FC<SettingsProps> = ({ onSaveSuccess, onBackToSplash }) =>
     setSaved(false);
 
     try {
-      await Promise.all([
+      const [, , , ffmpegResult] = await Promise.all([
         window.electronAPI.saveBLTCYApiKey(bltcyApiKey),
         window.electronAPI.saveRHApiKey(rhApiKey),
+        window.electronAPI.saveLLMEndpoints(llmEndpoints),
+        window.electronAPI.saveFfmpegPath(ffmpegPath),
       ]);
+      setResolvedFfmpegPath(ffmpegResult.resolvedPath);
       setSaved(true);
       
       // 保存成功后跳转到项目管理页面
@@ -137,6 +193,106 @@ const Settings: React.FC<SettingsProps> = ({ onSaveSuccess, onBackToSplash }) =>
           />
         </div>
 
+        {/* 自定义 LLM 端点（OpenAI 兼容：自建 vLLM、Ollama、企业网关等） */}
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <label className="block text-sm font-bold text-white">
+              <div className="flex items-center gap-2">
+                <Server className="w-4 h-4" />
+                LLM 端点（OpenAI 兼容）
+              </div>
+            </label>
+            <button
+              type="button"
+              onClick={handleAddEndpoint}
+              className="flex items-center gap-1 px-2 py-1 rounded-lg bg-white/10 hover:bg-white/20 text-white text-xs transition-colors"
+            >
+              <Plus className="w-3 h-3" />
+              添加端点
+            </button>
+          </div>
+          {llmEndpoints.length === 0 && (
+            <p className="text-xs text-white/40">LLM 节点默认使用核心算力；添加端点后可在 LLM 节点中切换</p>
+          )}
+          {llmEndpoints.map((endpoint) => (
+            <div key={endpoint.id} className="apple-panel rounded-lg p-3 space-y-2">
+              <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={endpoint.name}
+                  onChange={(e) => updateEndpoint(endpoint.id, { name: e.target.value })}
+                  placeholder="名称（如 本地 Ollama）"
+                  className="flex-1 px-3 py-1.5 apple-panel rounded-lg text-sm text-white placeholder-white/40 focus:outline-none focus:ring-2 focus:ring-apple-blue"
+                />
+                <button
+                  type="button"
+                  onClick={() => handleRemoveEndpoint(endpoint.id)}
+                  className="p-1.5 rounded-lg hover:bg-red-500/20 text-red-400 transition-colors"
+                  title="删除端点"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+              <input
+                type="text"
+                value={endpoint.baseUrl}
+                onChange={(e) => updateEndpoint(endpoint.id, { baseUrl: e.target.value })}
+                placeholder="Base URL（如 http://localhost:11434/v1）"
+                className="w-full px-3 py-1.5 apple-panel rounded-lg text-sm text-white placeholder-white/40 focus:outline-none focus:ring-2 focus:ring-apple-blue"
+              />
+              <input
+                type="password"
+                value={endpoint.apiKey}
+                onChange={(e) => updateEndpoint(endpoint.id, { apiKey: e.target.value })}
+                placeholder="API Key（无需鉴权可留空）"
+                className="w-full px-3 py-1.5 apple-panel rounded-lg text-sm text-white placeholder-white/40 focus:outline-none focus:ring-2 focus:ring-apple-blue"
+              />
+              <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={endpoint.models.join(', ')}
+                  onChange={(e) => updateEndpoint(endpoint.id, { models: e.target.value.split(',').map((m) => m.trim()) })}
+                  placeholder="模型列表（逗号分隔，或点击右侧获取）"
+                  className="flex-1 px-3 py-1.5 apple-panel rounded-lg text-sm text-white placeholder-white/40 focus:outline-none focus:ring-2 focus:ring-apple-blue"
+                />
+                <button
+                  type="button"
+                  onClick={() => handleDiscoverModels(endpoint)}
+                  disabled={!endpoint.baseUrl.trim() || discoveringId === endpoint.id}
+                  className="flex items-center gap-1 px-2 py-1.5 rounded-lg bg-white/10 hover:bg-white/20 text-white text-xs transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  title="通过 /models 获取可用模型"
+                >
+                  <RefreshCw className={`w-3 h-3 ${discoveringId === endpoint.id ? 'animate-spin' : ''}`} />
+                  获取模型
+                </button>
+              </div>
+              {discoverMessages[endpoint.id] && (
+                <p className="text-xs text-white/50">{discoverMessages[endpoint.id]}</p>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {/* ffmpeg 路径：检测视频编码，HEVC/VP9 等浏览器无法播放的视频自动转码为 H.264 */}
+        <div className="space-y-2">
+          <label className="block text-sm font-bold text-white">
+            <div className="flex items-center gap-2">
+              <Film className="w-4 h-4" />
+              ffmpeg 路径（视频转码）
+            </div>
+          </label>
+          <input
+            type="text"
+            value={ffmpegPath}
+            onChange={(e) => setFfmpegPath(e.target.value)}
+            placeholder="留空则使用内置 ffmpeg 或系统 PATH（可填写 ffmpeg 可执行文件或所在文件夹）"
+            className="w-full px-4 py-2 apple-panel rounded-lg text-white placeholder-white/40 focus:outline-none focus:ring-2 focus:ring-apple-blue"
+          />
+          <p className="text-xs text-white/40">
+            {resolvedFfmpegPath ? `当前使用：${resolvedFfmpegPath}` : '未找到可用的 ffmpeg，不兼容的视频将保持原格式'}
+          </p>
+        </div>
+
         {/* 保存按钮 */}
         <button
           onClick={handleSave}
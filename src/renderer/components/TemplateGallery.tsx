@@ -0,0 +1,282 @@
+import React, { useState, useEffect } from 'react';
+import { createPortal } from 'react-dom';
+import { LayoutTemplate, Trash2, X, ArrowLeft } from 'lucide-react';
+
+type TemplateSummary = Awaited<ReturnType<Window['electronAPI']['getProjectTemplates']>>[number];
+type CreatedProject = NonNullable<Awaited<ReturnType<Window['electronAPI']['createProjectFromTemplate']>>['project']>;
+
+interface TemplateGalleryProps {
+  onClose: () => void;
+  /** 从模板新建项目成功后回调（由项目页刷新列表并进入画布） */
+  onCreated: (project: CreatedProject) => void;
+}
+
+/**
+ * 模板库：列出内置与用户另存的工作流模板，选择后填写模板声明的参数并新建项目
+ */
+const TemplateGallery: React.FC<TemplateGalleryProps> = ({ onClose, onCreated }) => {
+  const [templates, setTemplates] = useState<TemplateSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<TemplateSummary | null>(null);
+  const [projectName, setProjectName] = useState('');
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [creating, setCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!window.electronAPI?.getProjectTemplates) return;
+    window.electronAPI
+      .getProjectTemplates()
+      .then(setTemplates)
+      .catch((e) => console.error('[TemplateGallery] 加载模板失败:', e))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const handleSelect = (template: TemplateSummary) => {
+    setSelected(template);
+    setProjectName(template.name);
+    setValues(Object.fromEntries(template.params.map((p) => [p.key, p.defaultValue ?? p.options?.[0] ?? ''])));
+    setError(null);
+  };
+
+  const handleCreate = async () => {
+    if (!selected || !projectName.trim() || creating) return;
+    setCreating(true);
+    setError(null);
+    try {
+      const res = await window.electronAPI.createProjectFromTemplate(selected.id, projectName.trim(), values);
+      if (res.success && res.project) {
+        onCreated(res.project);
+      } else {
+        setError(res.error || '新建项目失败');
+      }
+    } catch (e: any) {
+      setError(e?.message || '新建项目失败');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleDelete = async (template: TemplateSummary) => {
+    await window.electronAPI?.deleteProjectTemplate?.(template.id);
+    setTemplates((prev) => prev.filter((t) => t.id !== template.id));
+  };
+
+  const inputClass =
+    'w-full px-3 py-2 apple-panel rounded-lg text-white text-sm placeholder-white/40 focus:outline-none focus:ring-2 focus:ring-apple-blue';
+
+  return createPortal(
+    <div
+      className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-[9999]"
+      onClick={(e) => e.target === e.currentTarget && onClose()}
+    >
+      <div className="apple-panel rounded-xl p-6 w-[880px] max-h-[80vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center gap-2">
+            {selected && (
+              <button onClick={() => setSelected(null)} className="p-1 rounded-lg text-white/60 hover:text-white hover:bg-white/10" title="返回模板列表">
+                <ArrowLeft className="w-4 h-4" />
+              </button>
+            )}
+            <h3 className="text-xl font-bold text-white">{selected ? `从「${selected.name}」新建` : '模板库'}</h3>
+          </div>
+          <button onClick={onClose} className="p-1 rounded-lg text-white/60 hover:text-white hover:bg-white/10" title="关闭">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {selected ? (
+          <div className="flex-1 overflow-y-auto custom-scrollbar space-y-4">
+            {selected.description && <p className="text-white/60 text-sm">{selected.description}</p>}
+            <div>
+              <label className="block text-white/80 text-sm mb-1">项目名称</label>
+              <input
+                type="text"
+                value={projectName}
+                onChange={(e) => setProjectName(e.target.value)}
+                className={inputClass}
+                style={{ caretColor: 'white' }}
+                autoFocus
+              />
+            </div>
+            {selected.params.map((param) => (
+              <div key={param.key}>
+                <label className="block text-white/80 text-sm mb-1">{param.label}</label>
+                {param.options && param.options.length > 0 ? (
+                  <select
+                    value={values[param.key] ?? ''}
+                    onChange={(e) => setValues((prev) => ({ ...prev, [param.key]: e.target.value }))}
+                    className={inputClass}
+                  >
+                    {param.options.map((option) => (
+                      <option key={option} value={option} className="bg-zinc-900">
+                        {option}
+                      </option>
+                    ))}
+                  </select>
+                ) : (
+                  <textarea
+                    value={values[param.key] ?? ''}
+                    onChange={(e) => setValues((prev) => ({ ...prev, [param.key]: e.target.value }))}
+                    rows={2}
+                    placeholder={param.description}
+                    className={`${inputClass} resize-y custom-scrollbar`}
+                    style={{ caretColor: 'white' }}
+                  />
+                )}
+                {param.description && param.options && <p className="text-white/40 text-xs mt-1">{param.description}</p>}
+              </div>
+            ))}
+            {error && <p className="text-red-400 text-sm">{error}</p>}
+            <div className="flex gap-2 justify-end">
+              <button
+                type="button"
+                onClick={() => setSelected(null)}
+                className="px-4 py-2 apple-button-secondary rounded-lg text-white/60 hover:text-white transition-colors"
+              >
+                取消
+              </button>
+              <button
+                type="button"
+                onClick={handleCreate}
+                disabled={!projectName.trim() || creating}
+                className="px-4 py-2 apple-button-primary rounded-lg text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {creating ? '创建中…' : '创建项目'}
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="flex-1 overflow-y-auto custom-scrollbar">
+            {loading ? (
+              <p className="text-white/50 text-sm">加载中…</p>
+            ) : templates.length === 0 ? (
+              <p className="text-white/50 text-sm">暂无模板。在项目卡上点击「存为模板」即可保存自己的工作流。</p>
+            ) : (
+              <div className="grid grid-cols-3 gap-4">
+                {templates.map((template) => (
+                  <div
+                    key={template.id}
+                    onClick={() => handleSelect(template)}
+                    className="group relative apple-panel rounded-xl overflow-hidden cursor-pointer hover:bg-white/15 transition-all"
+                  >
+                    <div className="aspect-video bg-white/5 flex items-center justify-center">
+                      {template.thumbnail ? (
+                        <img src={template.thumbnail} alt="" className="w-full h-full object-cover" draggable={false} />
+                      ) : (
+                        <LayoutTemplate className="w-10 h-10 text-white/30" />
+                      )}
+                    </div>
+                    <div className="p-3 space-y-1">
+                      <div className="flex items-center gap-2">
+                        <span className="flex-1 truncate text-white font-semibold text-sm">{template.name}</span>
+                        <span className="shrink-0 text-[11px] px-1.5 py-0.5 rounded bg-white/10 text-white/60">
+                          {template.builtIn ? '内置' : '我的'}
+                        </span>
+                      </div>
+                      <p className="text-white/50 text-xs line-clamp-2 min-h-[2rem]">{template.description || '无描述'}</p>
+                      <p className="text-white/40 text-[11px]">
+                        {template.nodeCount} 个节点 · {template.params.length} 个参数
+                      </p>
+                    </div>
+                    {!template.builtIn && (
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleDelete(template);
+                        }}
+                        className="absolute top-2 right-2 p-1.5 opacity-0 group-hover:opacity-100 transition-opacity bg-red-500/20 hover:bg-red-500/30 border border-red-500/50 rounded-lg text-red-400"
+                        title="删除模板"
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+interface SaveTemplateDialogProps {
+  projectId: string;
+  projectName: string;
+  /** 项目卡背景图，作为模板缩略图 */
+  thumbnail?: string;
+  onClose: () => void;
+  onSaved: (message: string) => void;
+}
+
+/**
+ * 项目另存为模板：节点文本中的 ${参数名} 会成为模板参数
+ */
+export const SaveTemplateDialog: React.FC<SaveTemplateDialogProps> = ({ projectId, projectName, thumbnail, onClose, onSaved }) => {
+  const [name, setName] = useState(projectName);
+  const [description, setDescription] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = async () => {
+    if (!name.trim() || !window.electronAPI?.saveProjectAsTemplate) return;
+    const res = await window.electronAPI.saveProjectAsTemplate(projectId, { name: name.trim(), description, thumbnail });
+    if (res.success && res.template) {
+      onSaved(`已保存模板「${res.template.name}」（${res.template.paramCount} 个参数）`);
+    } else {
+      setError(res.error || '保存模板失败');
+    }
+  };
+
+  return createPortal(
+    <div
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-[9999]"
+      onClick={(e) => e.target === e.currentTarget && onClose()}
+    >
+      <div className="apple-panel rounded-xl p-6 w-96 space-y-3" onClick={(e) => e.stopPropagation()}>
+        <h3 className="text-xl font-bold text-white">存为模板</h3>
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="模板名称"
+          className="w-full px-4 py-2 apple-panel rounded-lg text-white placeholder-white/40 focus:outline-none focus:ring-2 focus:ring-apple-blue"
+          style={{ caretColor: 'white' }}
+          autoFocus
+        />
+        <textarea
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          rows={3}
+          placeholder="模板描述（可选）"
+          className="w-full px-4 py-2 apple-panel rounded-lg text-white text-sm placeholder-white/40 focus:outline-none focus:ring-2 focus:ring-apple-blue resize-none"
+          style={{ caretColor: 'white' }}
+        />
+        <p className="text-white/40 text-xs">在节点提示词中写入 {'${参数名}'}，从模板新建项目时会要求填写该参数。</p>
+        {error && <p className="text-red-400 text-sm">{error}</p>}
+        <div className="flex gap-2 justify-end">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 apple-button-secondary rounded-lg text-white/60 hover:text-white transition-colors"
+          >
+            取消
+          </button>
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={!name.trim()}
+            className="px-4 py-2 apple-button-primary rounded-lg text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            保存
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default TemplateGallery;
@@ -0,0 +1,358 @@
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { createPortal } from 'react-dom';
+import { X, Save, RotateCcw, GitFork, Trash2 } from 'lucide-react';
+import type { Edge, Node } from 'reactflow';
+import { diffSnapshots, isEmptyDiff, type SnapshotDiff } from '../utils/versionDiff';
+
+type VersionMeta = Awaited<ReturnType<Window['electronAPI']['listProjectVersions']>>[number];
+type VersionDetail = NonNullable<Awaited<ReturnType<Window['electronAPI']['getProjectVersion']>>>;
+type BranchedProject = NonNullable<Awaited<ReturnType<Window['electronAPI']['branchProjectVersion']>>['project']>;
+
+/** 对比对象：当前画布或另一个快照 */
+const CURRENT_CANVAS = 'current';
+
+const AUTO_SNAPSHOT_OPTIONS = [0, 5, 10, 30, 60];
+
+interface VersionHistoryPanelProps {
+  projectId: string;
+  currentNodes: Node[];
+  currentEdges: Edge[];
+  autoSnapshotMinutes: number;
+  onAutoSnapshotMinutesChange: (minutes: number) => void;
+  /** 保存当前画布后再创建版本，确保快照与画布一致 */
+  onCreateVersion: (note: string) => Promise<{ success: boolean; error?: string }>;
+  onRestore: (version: VersionDetail) => Promise<void>;
+  onBranched: (project: BranchedProject) => void;
+  onClose: () => void;
+}
+
+const formatTime = (timestamp: number) => {
+  const d = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}/${pad(d.getMonth() + 1)}/${pad(d.getDate())} ${pad(d.getHours())}:${pad(d.getMinutes())}:${pad(d.getSeconds())}`;
+};
+
+/**
+ * 版本历史：手动 / 自动快照列表，与当前画布或另一快照对比，恢复或分支为新项目
+ */
+const VersionHistoryPanel: React.FC<VersionHistoryPanelProps> = ({
+  projectId,
+  currentNodes,
+  currentEdges,
+  autoSnapshotMinutes,
+  onAutoSnapshotMinutesChange,
+  onCreateVersion,
+  onRestore,
+  onBranched,
+  onClose,
+}) => {
+  const [versions, setVersions] = useState<VersionMeta[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareId, setCompareId] = useState<string>(CURRENT_CANVAS);
+  const [details, setDetails] = useState<Record<string, VersionDetail>>({});
+  const [note, setNote] = useState('');
+  const [branchName, setBranchName] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const loadVersions = useCallback(async () => {
+    const list = await window.electronAPI.listProjectVersions(projectId);
+    setVersions(list);
+    return list;
+  }, [projectId]);
+
+  useEffect(() => {
+    loadVersions().then((list) => setSelectedId((prev) => prev ?? list[0]?.id ?? null));
+  }, [loadVersions]);
+
+  // 按需加载快照内容（对比与恢复用）
+  useEffect(() => {
+    [selectedId, compareId].forEach((id) => {
+      if (!id || id === CURRENT_CANVAS || details[id]) return;
+      window.electronAPI.getProjectVersion(projectId, id).then((detail) => {
+        if (detail) setDetails((prev) => ({ ...prev, [id]: detail }));
+      });
+    });
+  }, [selectedId, compareId, projectId, details]);
+
+  const selected = selectedId ? details[selectedId] : undefined;
+  const diff: SnapshotDiff | null = useMemo(() => {
+    if (!selected) return null;
+    if (compareId === CURRENT_CANVAS) return diffSnapshots(selected, { nodes: currentNodes, edges: currentEdges });
+    const other = details[compareId];
+    if (!other) return null;
+    // 较早的一方作为 before
+    return other.createdAt <= selected.createdAt ? diffSnapshots(other, selected) : diffSnapshots(selected, other);
+  }, [selected, compareId, details, currentNodes, currentEdges]);
+
+  const showMessage = (text: string) => {
+    setMessage(text);
+    setTimeout(() => setMessage(null), 3000);
+  };
+
+  const handleCreate = async () => {
+    setBusy(true);
+    const res = await onCreateVersion(note);
+    setBusy(false);
+    if (!res.success) {
+      showMessage(res.error || '保存版本失败');
+      return;
+    }
+    setNote('');
+    const list = await loadVersions();
+    setSelectedId(list[0]?.id ?? null);
+    showMessage('已保存版本');
+  };
+
+  const handleRestore = async () => {
+    if (!selected || busy) return;
+    setBusy(true);
+    await onRestore(selected);
+    setBusy(false);
+    await loadVersions();
+    showMessage(`已恢复到 ${formatTime(selected.createdAt)}（恢复前的画布已自动备份）`);
+  };
+
+  const handleBranch = async () => {
+    if (!selected || branchName === null || !branchName.trim() || busy) return;
+    setBusy(true);
+    const res = await window.electronAPI.branchProjectVersion(projectId, selected.id, branchName.trim());
+    setBusy(false);
+    if (res.success && res.project) {
+      onBranched(res.project);
+    } else {
+      showMessage(res.error || '分支失败');
+    }
+  };
+
+  const handleDelete = async (versionId: string) => {
+    await window.electronAPI.deleteProjectVersion(projectId, versionId);
+    if (selectedId === versionId) setSelectedId(null);
+    if (compareId === versionId) setCompareId(CURRENT_CANVAS);
+    await loadVersions();
+  };
+
+  const sectionTitle = 'text-white/80 text-sm font-semibold mt-3 mb-1';
+
+  return createPortal(
+    <div
+      className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-[9999]"
+      onClick={(e) => e.target === e.currentTarget && onClose()}
+    >
+      <div className="apple-panel rounded-xl w-[960px] h-[75vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between px-5 py-3 border-b border-white/10">
+          <h3 className="text-lg font-bold text-white">版本历史</h3>
+          <div className="flex items-center gap-3">
+            <label className="text-white/60 text-xs">自动快照</label>
+            <select
+              value={autoSnapshotMinutes}
+              onChange={(e) => onAutoSnapshotMinutesChange(Number(e.target.value))}
+              className="px-2 py-1 apple-panel rounded-lg text-white text-xs"
+            >
+              {AUTO_SNAPSHOT_OPTIONS.map((m) => (
+                <option key={m} value={m} className="bg-zinc-900">
+                  {m === 0 ? '关闭' : `每 ${m} 分钟`}
+                </option>
+              ))}
+            </select>
+            <button onClick={onClose} className="p-1 rounded-lg text-white/60 hover:text-white hover:bg-white/10" title="关闭">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 flex min-h-0">
+          {/* 左侧：保存版本与版本列表 */}
+          <div className="w-72 border-r border-white/10 flex flex-col min-h-0">
+            <div className="p-3 space-y-2 border-b border-white/10">
+              <input
+                type="text"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+                placeholder="版本备注（可选）"
+                className="w-full px-3 py-1.5 apple-panel rounded-lg text-white text-sm placeholder-white/40 focus:outline-none"
+                style={{ caretColor: 'white' }}
+              />
+              <button
+                onClick={handleCreate}
+                disabled={busy}
+                className="w-full flex items-center justify-center gap-2 px-3 py-1.5 apple-button-primary rounded-lg text-white text-sm disabled:opacity-50"
+              >
+                <Save className="w-4 h-4" />
+                保存版本
+              </button>
+            </div>
+            <div className="flex-1 overflow-y-auto custom-scrollbar">
+              {versions.length === 0 && <p className="p-3 text-white/40 text-xs">暂无版本</p>}
+              {versions.map((version) => (
+                <div
+                  key={version.id}
+                  onClick={() => setSelectedId(version.id)}
+                  className={`group px-3 py-2 cursor-pointer border-b border-white/5 ${
+                    selectedId === version.id ? 'bg-white/15' : 'hover:bg-white/5'
+                  }`}
+                >
+                  <div className="flex items-center gap-2">
+                    <span className="flex-1 text-white text-sm">{formatTime(version.createdAt)}</span>
+                    {version.auto && <span className="text-[10px] px-1 rounded bg-white/10 text-white/50">自动</span>}
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleDelete(version.id);
+                      }}
+                      className="opacity-0 group-hover:opacity-100 text-white/40 hover:text-red-400"
+                      title="删除版本"
+                    >
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                  <div className="text-white/50 text-xs truncate" title={version.note}>
+                    {version.note || '无备注'} · {version.nodeCount} 节点 / {version.edgeCount} 连线
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* 右侧：对比与操作 */}
+          <div className="flex-1 flex flex-col min-h-0">
+            {!selectedId ? (
+              <p className="p-5 text-white/40 text-sm">选择左侧版本查看差异</p>
+            ) : (
+              <>
+                <div className="flex items-center gap-2 px-5 py-3 border-b border-white/10 flex-wrap">
+                  <span className="text-white/60 text-xs">对比</span>
+                  <select
+                    value={compareId}
+                    onChange={(e) => setCompareId(e.target.value)}
+                    className="px-2 py-1 apple-panel rounded-lg text-white text-xs"
+                  >
+                    <option value={CURRENT_CANVAS} className="bg-zinc-900">当前画布</option>
+                    {versions
+                      .filter((v) => v.id !== selectedId)
+                      .map((v) => (
+                        <option key={v.id} value={v.id} className="bg-zinc-900">
+                          {formatTime(v.createdAt)} {v.note}
+                        </option>
+                      ))}
+                  </select>
+                  <div className="flex-1" />
+                  {branchName !== null ? (
+                    <>
+                      <input
+                        autoFocus
+                        value={branchName}
+                        onChange={(e) => setBranchName(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') handleBranch();
+                          if (e.key === 'Escape') setBranchName(null);
+                        }}
+                        placeholder="新项目名称"
+                        className="w-40 px-2 py-1 apple-panel rounded-lg text-white text-xs focus:outline-none"
+                        style={{ caretColor: 'white' }}
+                      />
+                      <button onClick={handleBranch} disabled={busy || !branchName.trim()} className="px-3 py-1 apple-button-primary rounded-lg text-white text-xs disabled:opacity-50">
+                        创建
+                      </button>
+                      <button onClick={() => setBranchName(null)} className="px-3 py-1 apple-button-secondary rounded-lg text-white/60 text-xs">
+                        取消
+                      </button>
+                    </>
+                  ) : (
+                    <>
+                      <button
+                        onClick={handleRestore}
+                        disabled={!selected || busy}
+                        className="flex items-center gap-1 px-3 py-1 apple-button-secondary rounded-lg text-white/80 hover:text-white text-xs disabled:opacity-50"
+                      >
+                        <RotateCcw className="w-3.5 h-3.5" />
+                        恢复此版本
+                      </button>
+                      <button
+                        onClick={() => setBranchName(selected?.note ? `${selected.note} 分支` : '分支项目')}
+                        disabled={!selected || busy}
+                        className="flex items-center gap-1 px-3 py-1 apple-button-secondary rounded-lg text-white/80 hover:text-white text-xs disabled:opacity-50"
+                      >
+                        <GitFork className="w-3.5 h-3.5" />
+                        分支为新项目
+                      </button>
+                    </>
+                  )}
+                </div>
+
+                <div className="flex-1 overflow-y-auto custom-scrollbar px-5 pb-4">
+                  {!diff ? (
+                    <p className="mt-3 text-white/40 text-sm">加载中…</p>
+                  ) : isEmptyDiff(diff) ? (
+                    <p className="mt-3 text-white/40 text-sm">两者内容相同</p>
+                  ) : (
+                    <>
+                      {diff.changedNodes.length > 0 && (
+                        <>
+                          <div className={sectionTitle}>修改的节点（{diff.changedNodes.length}）</div>
+                          {diff.changedNodes.map((node) => (
+                            <div key={node.id} className="mb-2 rounded-lg bg-white/5 p-2">
+                              <div className="text-white text-sm mb-1">
+                                {node.title} <span className="text-white/40 text-xs">{node.type}</span>
+                              </div>
+                              {node.changes.map((change) => (
+                                <div key={change.key} className="grid grid-cols-[100px_1fr_1fr] gap-2 text-xs py-0.5">
+                                  <span className={change.isPrompt ? 'text-amber-300' : 'text-white/50'}>{change.key}</span>
+                                  <span className="text-red-300/90 whitespace-pre-wrap break-all line-clamp-4" title={change.before}>
+                                    {change.before || '（空）'}
+                                  </span>
+                                  <span className="text-green-300/90 whitespace-pre-wrap break-all line-clamp-4" title={change.after}>
+                                    {change.after || '（空）'}
+                                  </span>
+                                </div>
+                              ))}
+                            </div>
+                          ))}
+                        </>
+                      )}
+                      {diff.addedNodes.length > 0 && (
+                        <>
+                          <div className={sectionTitle}>新增节点（{diff.addedNodes.length}）</div>
+                          {diff.addedNodes.map((n) => (
+                            <div key={n.id} className="text-green-300/90 text-xs py-0.5">+ {n.title} <span className="text-white/40">{n.type}</span></div>
+                          ))}
+                        </>
+                      )}
+                      {diff.removedNodes.length > 0 && (
+                        <>
+                          <div className={sectionTitle}>删除节点（{diff.removedNodes.length}）</div>
+                          {diff.removedNodes.map((n) => (
+                            <div key={n.id} className="text-red-300/90 text-xs py-0.5">- {n.title} <span className="text-white/40">{n.type}</span></div>
+                          ))}
+                        </>
+                      )}
+                      {(diff.addedEdges.length > 0 || diff.removedEdges.length > 0) && (
+                        <>
+                          <div className={sectionTitle}>连线变化</div>
+                          {diff.addedEdges.map((e) => (
+                            <div key={`+${e.id}`} className="text-green-300/90 text-xs py-0.5">+ {e.label}</div>
+                          ))}
+                          {diff.removedEdges.map((e) => (
+                            <div key={`-${e.id}`} className="text-red-300/90 text-xs py-0.5">- {e.label}</div>
+                          ))}
+                        </>
+                      )}
+                      {diff.movedNodeCount > 0 && (
+                        <p className="mt-3 text-white/40 text-xs">另有 {diff.movedNodeCount} 个节点仅位置变化</p>
+                      )}
+                    </>
+                  )}
+                </div>
+              </>
+            )}
+            {message && <div className="px-5 py-2 border-t border-white/10 text-white/70 text-xs">{message}</div>}
+          </div>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default VersionHistoryPanel;
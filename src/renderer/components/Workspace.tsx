@@ -19,7 +19,7 @@ import ReactFlow, {
   Position,
 } from 'reactflow';
 import 'reactflow/dist/style.css';
-import { ArrowLeft, User, Image, Film, ChevronLeft, ChevronRight, CheckCircle2, XCircle, Circle, Sun, Moon, Copy, Download, Maximize2, X, Trash2, FolderOpen, Play, Pause, Volume2, Power } from 'lucide-react';
+import { ArrowLeft, User, Image, Film, ChevronLeft, ChevronRight, CheckCircle2, XCircle, Circle, Sun, Moon, Copy, Download, Maximize2, X, Trash2, FolderOpen, Play, Pause, Volume2, Power, History, ListRestart, Library } from 'lucide-react';
 import { TextNode } from './Canvas/TextNode';
 import { MinimalistTextNode } from './Canvas/MinimalistTextNode';
 import { LLMNode } from './Canvas/LLMNode';
@@ -36,9 +36,67 @@ import { VideoPreview } from './VideoPreview';
 import { normalizeVideoUrl } from '../utils/normalizeVideoUrl';
 import { CharacterNode } from './Canvas/CharacterNode';
 import { TextSplitNode } from './Canvas/TextSplitNode';
+import { ForeachNode } from './Canvas/ForeachNode';
+import { ConditionNode } from './Canvas/ConditionNode';
+import { SequenceNode } from './Canvas/SequenceNode';
+import { FrameExtractNode } from './Canvas/FrameExtractNode';
+import { ImageEditNode } from './Canvas/ImageEditNode';
+import { GroupNode } from './Canvas/GroupNode';
 import CharacterInputPanel from './Canvas/CharacterInputPanel';
+import VersionHistoryPanel from './VersionHistoryPanel';
+import OperationHistoryPanel from './OperationHistoryPanel';
+import ProjectRecoveryDialog from './ProjectRecoveryDialog';
+import AssetBrowserPanel, { ASSET_DRAG_MIME, type ProjectAsset } from './AssetBrowserPanel';
 import CharacterList from './CharacterList';
 import { mapProjectPath } from '../utils/pathMapper';
+import type { AIErrorCode } from '../hooks/useAI';
+import {
+  buildModelPayload,
+  getImageModel,
+  getImageParamSchema,
+  getVideoModel,
+  getVideoParamSchema,
+  resolveVideoMode,
+  validateModelParams,
+  type VideoModelId,
+} from '../../main/ai/modelCatalog';
+import {
+  buildExecutionPlan,
+  resolveUpstreamInputs,
+  getImagesFromSource,
+  IMAGE_SOURCE_TYPES,
+  packetPayloadToOutputs,
+  invokeNodeAndWait,
+  runExecutionPlan,
+  NodeRunCancelledError,
+  GraphRunMode,
+  NodeOutputs,
+  NodeRunResult,
+} from '../utils/graphExecutor';
+import { collectTemplateVariables, resolveNodePromptTemplate } from '../utils/promptTemplate';
+import { findBlockingCondition, refreshControlFlowNodes } from '../utils/controlFlow';
+import { getInpaintSource } from '../utils/inpaintMask';
+import {
+  buildModuleFromGroup,
+  createGroupNode,
+  instantiateModule,
+  GROUP_NODE_TYPE,
+  MODULE_MENU_TYPE_PREFIX,
+} from '../utils/groups';
+import {
+  diffGraph,
+  pushHistoryEntry,
+  redoOperations,
+  undoOperations,
+  type HistoryEntry,
+} from '../utils/operationHistory';
+import {
+  buildFanOutItemNode,
+  getFanOutItemNodeId,
+  getFanOutSource,
+  isFanOutActive,
+  type FanOutItem,
+} from '../utils/fanOut';
 
 const CARD_BG_STORAGE_KEY = 'nexflow-project-card-bg';
 const getCardBgKey = (projectId: string) => `${CARD_BG_STORAGE_KEY}-${projectId}`;
@@ -262,8 +320,9 @@ interface Task {
   videoUrl?: string; // 视频 URL
   audioUrl?: string; // 音频 URL
   prompt: string;
+  promptTemplate?: string; // 提示词模板（启用模板时 prompt 为解析结果）
   createdAt: number; // 时间戳
-  status?: 'success' | 'error' | 'processing'; // 任务状态
+  status?: 'success' | 'error' | 'processing' | 'cancelled'; // 任务状态
   errorMessage?: string; // 错误信息
   taskType?: 'image' | 'video' | 'text' | 'audio'; // 任务类型
   localFilePath?: string; // 本地文件路径
@@ -571,14 +630,21 @@ const Workspace: React.FC<WorkspaceProps> = () => {
   const latestNodesRef = useRef<Node[]>([]);
   const latestEdgesRef = useRef<Edge[]>([]);
   
-  type HistorySnapshotReason = 'position' | 'general';
-  type HistorySnapshot = { nodes: Node[]; edges: Edge[]; reason: HistorySnapshotReason };
-
-  // 撤销/重做历史记录
-  const historyRef = useRef<HistorySnapshot[]>([]);
+  // 撤销/重做：操作历史（只记录变化部分），按项目持久化
+  const historyEntriesRef = useRef<HistoryEntry[]>([]);
   const historyIndexRef = useRef<number>(-1);
-  const isUndoRedoRef = useRef<boolean>(false);
+  // 上一次记录时的画布（与 React state 共享引用，不做拷贝）；项目加载完成前为 null
+  const historyBaseRef = useRef<{ nodes: Node[]; edges: Edge[] } | null>(null);
+  // 下一次记录使用的名称（如「恢复版本」），为空时根据操作自动命名
+  const pendingHistoryLabelRef = useRef<string | undefined>(undefined);
   const saveHistoryTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const persistHistoryTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const [historyView, setHistoryView] = useState<{ entries: HistoryEntry[]; index: number }>({ entries: [], index: -1 });
+  const [showOperationHistory, setShowOperationHistory] = useState(false);
+  const [showAssetBrowser, setShowAssetBrowser] = useState(false);
+  // 项目文件损坏时的恢复信息；projectLoadToken 递增会重新加载项目（恢复备份后）
+  const [projectRecovery, setProjectRecovery] = useState<Awaited<ReturnType<Window['electronAPI']['loadProjectData']>>['recovery'] | null>(null);
+  const [projectLoadToken, setProjectLoadToken] = useState(0);
   const [selectedNode, setSelectedNode] = useState<Node | null>(null);
   const [selectedEdge, setSelectedEdge] = useState<Edge | null>(null);
   const saveTimeoutRef = useRef<NodeJS.Timeout | null>(null);
@@ -588,8 +654,12 @@ const Workspace: React.FC<WorkspaceProps> = () => {
   const [previewImage, setPreviewImage] = useState<string | null>(null);
   const [previewAudio, setPreviewAudio] = useState<string | null>(null); // 音频预览
   const [batchRunInProgress, setBatchRunInProgress] = useState(false); // 批量运行中，用于禁用按钮并显示绿色
+  const [runningNodeIds, setRunningNodeIds] = useState<Set<string>>(() => new Set()); // 有运行中 AI 任务的节点
+  const graphRunStopRequestedRef = useRef(false); // 用户请求停止当前工作流运行
   const [isPerformanceMode, setIsPerformanceMode] = useState(false);
   const [showExitConfirm, setShowExitConfirm] = useState(false);
+  const [showVersionHistory, setShowVersionHistory] = useState(false);
+  const [autoSnapshotMinutes, setAutoSnapshotMinutes] = useState(0);
   const cardThumbnailCacheRef = useRef<string | null>(null);
   const cardThumbnailTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
@@ -619,75 +689,131 @@ const Workspace: React.FC<WorkspaceProps> = () => {
     await window.electronAPI.saveProjectData(projectId, nodesToSave, latestEdgesRef.current);
   }, [projectId, normalizeNodesForSave]);
 
-  // 保存历史记录
-  const saveHistory = useCallback((reason: HistorySnapshotReason = 'general') => {
-    if (isUndoRedoRef.current) return;
-
-    const currentNodes = latestNodesRef.current;
-    const currentEdges = latestEdgesRef.current;
-    const snapshot: HistorySnapshot = {
-      nodes: JSON.parse(JSON.stringify(currentNodes)),
-      edges: JSON.parse(JSON.stringify(currentEdges)),
-      reason,
-    };
+  // 更新历史位置并防抖写入项目目录
+  const updateHistory = useCallback((entries: HistoryEntry[], index: number, persist = true) => {
+    historyEntriesRef.current = entries;
+    historyIndexRef.current = index;
+    setHistoryView({ entries, index });
+    if (!persist || !projectId || !window.electronAPI?.saveProjectHistory) return;
+    if (persistHistoryTimeoutRef.current) clearTimeout(persistHistoryTimeoutRef.current);
+    persistHistoryTimeoutRef.current = setTimeout(() => {
+      persistHistoryTimeoutRef.current = null;
+      window.electronAPI.saveProjectHistory(projectId, { entries, index }).catch((error) => {
+        console.error('[Workspace] 保存操作历史失败:', error);
+      });
+    }, 1000);
+  }, [projectId]);
 
-    // 移除当前位置之后的历史记录（如果有新的操作）
-    if (historyIndexRef.current < historyRef.current.length - 1) {
-      historyRef.current = historyRef.current.slice(0, historyIndexRef.current + 1);
+  // 项目加载完成后以当前画布为基准，并恢复上次会话的操作历史
+  const initHistory = useCallback(async () => {
+    historyBaseRef.current = { nodes: latestNodesRef.current, edges: latestEdgesRef.current };
+    if (!projectId || !window.electronAPI?.loadProjectHistory) return;
+    try {
+      const saved = await window.electronAPI.loadProjectHistory(projectId);
+      if (saved && historyEntriesRef.current.length === 0) {
+        updateHistory(saved.entries as HistoryEntry[], saved.index, false);
+      }
+    } catch (error) {
+      console.error('[Workspace] 读取操作历史失败:', error);
     }
+  }, [projectId, updateHistory]);
+
+  // 对比上次记录时的画布，把变化记为一条历史（连续输入/拖动会合并）
+  const saveHistory = useCallback(() => {
+    const base = historyBaseRef.current;
+    if (!base) return;
+    const current = { nodes: latestNodesRef.current, edges: latestEdgesRef.current };
+    const label = pendingHistoryLabelRef.current;
+    pendingHistoryLabelRef.current = undefined;
+    const operations = diffGraph(base, current);
+    historyBaseRef.current = current;
+    if (operations.length === 0) return;
+    const next = pushHistoryEntry(historyEntriesRef.current, historyIndexRef.current, operations, { label, nodes: current.nodes });
+    updateHistory(next.entries, next.index);
+  }, [updateHistory]);
+
+  // 撤销/重做前先记录尚在防抖中的修改
+  const flushHistory = useCallback(() => {
+    if (!saveHistoryTimeoutRef.current) return;
+    clearTimeout(saveHistoryTimeoutRef.current);
+    saveHistoryTimeoutRef.current = null;
+    saveHistory();
+  }, [saveHistory]);
+
+  // 应用撤销/重做结果：同步更新基准，避免把撤销本身再记为新操作
+  const applyHistoryGraph = useCallback((graph: { nodes: Node[]; edges: Edge[] }) => {
+    historyBaseRef.current = graph;
+    latestNodesRef.current = graph.nodes;
+    latestEdgesRef.current = graph.edges;
+    setNodes(graph.nodes);
+    setEdges(graph.edges);
+  }, [setNodes, setEdges]);
 
-    const lastSnapshot = historyRef.current[historyRef.current.length - 1];
-    // 仅 position 连续变化时覆盖上一条，避免历史栈膨胀
-    if (reason === 'position' && lastSnapshot?.reason === 'position') {
-      historyRef.current[historyRef.current.length - 1] = snapshot;
-      historyIndexRef.current = historyRef.current.length - 1;
-      return;
+  // 跳转到指定历史位置（逐条撤销或重做）
+  const jumpToHistory = useCallback((targetIndex: number) => {
+    flushHistory();
+    const entries = historyEntriesRef.current;
+    const target = Math.max(-1, Math.min(targetIndex, entries.length - 1));
+    let index = historyIndexRef.current;
+    if (!historyBaseRef.current || target === index) return;
+    let graph = { nodes: latestNodesRef.current, edges: latestEdgesRef.current };
+    while (index > target) {
+      graph = undoOperations(graph, entries[index]);
+      index -= 1;
     }
-
-    historyRef.current.push(snapshot);
-
-    // 限制历史记录数量（最多保存50条）
-    if (historyRef.current.length > 50) {
-      historyRef.current.shift();
+    while (index < target) {
+      index += 1;
+      graph = redoOperations(graph, entries[index]);
     }
-    historyIndexRef.current = historyRef.current.length - 1;
-  }, []);
+    applyHistoryGraph(graph);
+    updateHistory(entries, index);
+  }, [flushHistory, applyHistoryGraph, updateHistory]);
 
   // 撤销操作
   const handleUndo = useCallback(() => {
-    if (historyIndexRef.current > 0) {
-      isUndoRedoRef.current = true;
-      historyIndexRef.current -= 1;
-      const snapshot = historyRef.current[historyIndexRef.current];
-      
-      if (snapshot) {
-        setNodes(snapshot.nodes);
-        setEdges(snapshot.edges);
-      }
-      
-      setTimeout(() => {
-        isUndoRedoRef.current = false;
-      }, 100);
-    }
-  }, [setNodes, setEdges]);
+    flushHistory();
+    jumpToHistory(historyIndexRef.current - 1);
+  }, [flushHistory, jumpToHistory]);
 
   // 重做操作
   const handleRedo = useCallback(() => {
-    if (historyIndexRef.current < historyRef.current.length - 1) {
-      isUndoRedoRef.current = true;
-      historyIndexRef.current += 1;
-      const snapshot = historyRef.current[historyIndexRef.current];
-      
-      if (snapshot) {
-        setNodes(snapshot.nodes);
-        setEdges(snapshot.edges);
+    flushHistory();
+    jumpToHistory(historyIndexRef.current + 1);
+  }, [flushHistory, jumpToHistory]);
+
+  // 清空历史（画布保持不变）
+  const handleClearHistory = useCallback(() => {
+    flushHistory();
+    updateHistory([], -1, false);
+    if (projectId) window.electronAPI?.clearProjectHistory?.(projectId).catch(() => {});
+  }, [flushHistory, updateHistory, projectId]);
+
+  // 画布变化后防抖记录历史；覆盖拖拽、连线、节点内编辑等所有修改途径
+  useEffect(() => {
+    if (!historyBaseRef.current) return;
+    if (saveHistoryTimeoutRef.current) clearTimeout(saveHistoryTimeoutRef.current);
+    saveHistoryTimeoutRef.current = setTimeout(() => {
+      saveHistoryTimeoutRef.current = null;
+      saveHistory();
+    }, 400);
+  }, [nodes, edges, saveHistory]);
+
+  // 离开画布时立即写入尚未保存的操作历史
+  useEffect(() => {
+    return () => {
+      if (saveHistoryTimeoutRef.current) clearTimeout(saveHistoryTimeoutRef.current);
+      if (persistHistoryTimeoutRef.current) clearTimeout(persistHistoryTimeoutRef.current);
+      historyBaseRef.current = null;
+      if (projectId && historyEntriesRef.current.length > 0) {
+        window.electronAPI?.saveProjectHistory?.(projectId, {
+          entries: historyEntriesRef.current,
+          index: historyIndexRef.current,
+        }).catch(() => {});
       }
-      
-      setTimeout(() => {
-        isUndoRedoRef.current = false;
-      }, 100);
-    }
-  }, [setNodes, setEdges]);
+      historyEntriesRef.current = [];
+      historyIndexRef.current = -1;
+    };
+  }, [projectId]);
 
   const handleQuitApp = useCallback(async () => {
     if (!window.electronAPI?.quitApp) return;
@@ -788,22 +914,6 @@ const Workspace: React.FC<WorkspaceProps> = () => {
       }
     }
     
-    const hasOnlyPositionChanges = changes.length > 0 && changes.every((change) => change.type === 'position');
-
-    // 如果不是撤销/重做操作，保存历史记录
-    if (!isUndoRedoRef.current) {
-      // 清除之前的定时器
-      if (saveHistoryTimeoutRef.current) {
-        clearTimeout(saveHistoryTimeoutRef.current);
-      }
-      
-      // 延迟保存历史记录，避免频繁操作（300ms 防抖）
-      const historyReason: HistorySnapshotReason = hasOnlyPositionChanges ? 'position' : 'general';
-      saveHistoryTimeoutRef.current = setTimeout(() => {
-        saveHistory(historyReason);
-      }, 300);
-    }
-    
     // 检查是否有 dimensions 或 position 变化
     const hasDimensionOrPositionChange = changes.some((change) => {
       return (
@@ -861,26 +971,13 @@ const Workspace: React.FC<WorkspaceProps> = () => {
         }
       }, 300);
     }
-  }, [onNodesChangeBase, projectId, saveHistory, removeTasksForNodeIds]);
+  }, [onNodesChangeBase, projectId, removeTasksForNodeIds]);
 
   // 包装 onEdgesChange，实时保存连线变化，并更新 Image 节点的输入图片列表
   const onEdgesChange = useCallback((changes: any[]) => {
     // 先应用变化
     onEdgesChangeBase(changes);
     
-    // 如果不是撤销/重做操作，保存历史记录
-    if (!isUndoRedoRef.current) {
-      // 清除之前的定时器
-      if (saveHistoryTimeoutRef.current) {
-        clearTimeout(saveHistoryTimeoutRef.current);
-      }
-      
-      // 延迟保存历史记录，避免频繁操作（300ms 防抖）
-      saveHistoryTimeoutRef.current = setTimeout(() => {
-        saveHistory('general');
-      }, 300);
-    }
-    
     // 当连接变化时，更新所有 Image 节点的输入图片列表
     // 使用 setEdges 的回调形式获取最新的边列表
     setEdges((eds) => {
@@ -891,11 +988,11 @@ const Workspace: React.FC<WorkspaceProps> = () => {
         const nodeById = new Map(freshNodes.map((n) => [n.id, n]));
         return nds.map((node) => {
           if (node.type === 'image') {
-            // Image 输入图：来自 image 节点 + cameraControl 节点（cameraControl 透传其 inputImage）
+            // Image 输入图：来自 image / 抽帧 / 图片编辑节点 + cameraControl 节点（cameraControl 透传其 inputImage）
             const incomingImageEdges = eds.filter((e) => {
               if (e.target !== node.id) return false;
               const src = nodeById.get(e.source);
-              return src?.type === 'image';
+              return IMAGE_SOURCE_TYPES.includes(src?.type || '');
             });
             const incomingCameraEdges = eds.filter((e) => {
               if (e.target !== node.id) return false;
@@ -905,10 +1002,10 @@ const Workspace: React.FC<WorkspaceProps> = () => {
             const collectedImages: string[] = [];
             incomingImageEdges.forEach((edge) => {
               const sourceNode = nodeById.get(edge.source);
-              if (sourceNode && sourceNode.type === 'image') {
-                const imgUrl = (sourceNode.data?.outputImage as string) || (sourceNode.data?.inputImages as string[])?.[0];
-                if (imgUrl && !collectedImages.includes(imgUrl)) collectedImages.push(imgUrl);
-              }
+              if (!sourceNode) return;
+              getImagesFromSource(sourceNode).forEach((imgUrl) => {
+                if (!collectedImages.includes(imgUrl)) collectedImages.push(imgUrl);
+              });
             });
             incomingCameraEdges.forEach((edge) => {
               const cc = nodeById.get(edge.source);
@@ -1036,7 +1133,7 @@ const Workspace: React.FC<WorkspaceProps> = () => {
         }
       }, 300);
     }
-  }, [onEdgesChangeBase, projectId, setEdges, setNodes, selectedNode, saveHistory]);
+  }, [onEdgesChangeBase, projectId, setEdges, setNodes, selectedNode]);
   
   const dedupedSortedTasks = useMemo(() => {
     const uniqueTasksMap = new Map<string, Task>();
@@ -1063,6 +1160,9 @@ const Workspace: React.FC<WorkspaceProps> = () => {
     imageUrlForReverse?: string;
     /** 图像反推使用的模型：gpt-4o | joy-caption-two */
     reverseCaptionModel?: 'gpt-4o' | 'joy-caption-two';
+    /** LLM 端点 ID 与该端点下的模型（文本对话模式） */
+    endpointId?: string;
+    endpointModel?: string;
   } | null>(null);
 
   // Image 输入面板状态（用于底部弹窗）
@@ -1082,7 +1182,7 @@ const Workspace: React.FC<WorkspaceProps> = () => {
     nodeId: string;
     prompt: string;
     aspectRatio: '16:9' | '9:16' | '1:1' | '2:3' | '3:2';
-    model: 'sora-2' | 'sora-2-pro' | 'kling-v2.6-pro' | 'kling-video-o1' | 'kling-video-o1-i2v' | 'kling-video-o1-start-end' | 'wan-2.6' | 'wan-2.6-flash' | 'rhart-v3.1-fast' | 'rhart-v3.1-fast-se' | 'rhart-v3.1-pro' | 'rhart-v3.1-pro-se' | 'rhart-video-g' | 'rhart-video-s-i2v-pro' | 'hailuo-02-t2v-standard' | 'hailuo-2.3-t2v-standard' | 'hailuo-02-i2v-standard' | 'hailuo-2.3-i2v-standard';
+    model: VideoModelId;
     hd: boolean;
     duration: '5' | '10' | '15' | '25';
     inputImages?: string[];
@@ -1271,6 +1371,11 @@ const Workspace: React.FC<WorkspaceProps> = () => {
     const loadProjectData = async () => {
       try {
         const projectData = await window.electronAPI.loadProjectData(projectId);
+        if (projectData.recovery) {
+          setProjectRecovery(projectData.recovery);
+        } else if (projectData.recovered) {
+          console.log('[Workspace] 已补完上次中断的项目保存');
+        }
         if (projectData.nodes && projectData.nodes.length > 0) {
           // 确保节点数据包含 width、height 和 position，正确恢复所有状态
           const nodesWithSize = projectData.nodes.map((node: Node) => {
@@ -1338,7 +1443,7 @@ const Workspace: React.FC<WorkspaceProps> = () => {
                 const sourceNode = projectData.nodes.find((n: Node) => n.id === edge.source);
                 let targetHandle = edge.targetHandle || 'input';
                 if (targetNode && targetNode.type === 'image') {
-                  targetHandle = edge.targetHandle ?? (sourceNode?.type === 'image' ? 'image-input' : 'input');
+                  targetHandle = edge.targetHandle ?? (IMAGE_SOURCE_TYPES.includes(sourceNode?.type || '') ? 'image-input' : 'input');
                 }
                 return {
                   ...edge,
@@ -1374,6 +1479,11 @@ const Workspace: React.FC<WorkspaceProps> = () => {
               });
             }, 100);
           }
+
+          // 初始化历史记录（等待连线恢复完成）
+          setTimeout(() => {
+            void initHistory();
+          }, 300);
         } else if (projectData.edges && projectData.edges.length > 0) {
           // 如果没有节点但有连线，也延迟加载
           setTimeout(() => {
@@ -1382,7 +1492,7 @@ const Workspace: React.FC<WorkspaceProps> = () => {
               const sourceNode = projectData.nodes?.find((n: Node) => n.id === edge.source);
               let targetHandle = edge.targetHandle || 'input';
               if (targetNode && targetNode.type === 'image') {
-                targetHandle = edge.targetHandle ?? (sourceNode?.type === 'image' ? 'image-input' : 'input');
+                targetHandle = edge.targetHandle ?? (IMAGE_SOURCE_TYPES.includes(sourceNode?.type || '') ? 'image-input' : 'input');
               }
               return {
                 ...edge,
@@ -1394,39 +1504,38 @@ const Workspace: React.FC<WorkspaceProps> = () => {
             
             // 初始化历史记录（项目加载完成后）
             setTimeout(() => {
-              setNodes((currentNodes) => {
-                setEdges((currentEdges) => {
-                  const initialSnapshot = {
-                    nodes: JSON.parse(JSON.stringify(currentNodes)),
-                    edges: JSON.parse(JSON.stringify(currentEdges)),
-                    reason: 'general' as const,
-                  };
-                  historyRef.current = [initialSnapshot];
-                  historyIndexRef.current = 0;
-                  return currentEdges;
-                });
-                return currentNodes;
-              });
+              void initHistory();
             }, 200);
           }, 100);
         } else {
           // 如果项目为空，也初始化历史记录
           setTimeout(() => {
-            setNodes((currentNodes) => {
-              setEdges((currentEdges) => {
-                const initialSnapshot = {
-                  nodes: JSON.parse(JSON.stringify(currentNodes)),
-                  edges: JSON.parse(JSON.stringify(currentEdges)),
-                  reason: 'general' as const,
-                };
-                historyRef.current = [initialSnapshot];
-                historyIndexRef.current = 0;
-                return currentEdges;
-              });
-              return currentNodes;
-            });
+            void initHistory();
           }, 200);
         }
+
+        // 恢复上次关闭应用时仍在生成的远程任务（结果通过 ai:status-update 回填到对应节点）
+        const resumeResult = await window.electronAPI.resumePendingAIJobs?.(projectId);
+        const resumedNodeIds = resumeResult?.nodeIds || [];
+        if (resumedNodeIds.length > 0) {
+          console.log('[Workspace] 已恢复未完成的远程任务:', resumedNodeIds);
+          setNodes((nds) =>
+            nds.map((n) =>
+              resumedNodeIds.includes(n.id)
+                ? {
+                    ...n,
+                    data: {
+                      ...n.data,
+                      progress: Math.max(1, n.data?.progress || 0),
+                      progressMessage: '正在恢复任务...',
+                      errorMessage: undefined,
+                      ...(n.type === 'audio' ? { aiStatus: 'PROCESSING' } : {}),
+                    },
+                  }
+                : n
+            )
+          );
+        }
       } catch (error) {
         console.error('加载项目数据失败:', error);
       }
@@ -1451,7 +1560,7 @@ const Workspace: React.FC<WorkspaceProps> = () => {
     };
     
     ensureMapping();
-  }, [projectId, setNodes, setEdges]);
+  }, [projectId, setNodes, setEdges, initHistory, projectLoadToken]);
 
   // 实时保存项目数据（防抖，监听 nodes 和 edges 变化）
   useEffect(() => {
@@ -1480,6 +1589,40 @@ const Workspace: React.FC<WorkspaceProps> = () => {
     };
   }, [projectId, nodes, edges, normalizeNodesForSave]);
 
+  // 版本快照：先落盘当前画布再由主进程读取 data.json 生成快照
+  const createVersionSnapshot = useCallback(async (options: { note?: string; auto?: boolean }) => {
+    if (!projectId || !window.electronAPI?.createProjectVersion) return { success: false, error: '版本功能不可用' };
+    await saveProjectNow();
+    return window.electronAPI.createProjectVersion(projectId, options);
+  }, [projectId, saveProjectNow]);
+
+  // 定时自动快照（内容未变化时主进程跳过）
+  useEffect(() => {
+    window.electronAPI?.getVersionAutoSnapshotMinutes?.().then(setAutoSnapshotMinutes).catch(() => {});
+  }, []);
+
+  useEffect(() => {
+    if (!projectId || autoSnapshotMinutes <= 0) return;
+    const timer = setInterval(() => {
+      createVersionSnapshot({ auto: true }).catch((error) => console.error('[Workspace] 自动快照失败:', error));
+    }, autoSnapshotMinutes * 60 * 1000);
+    return () => clearInterval(timer);
+  }, [projectId, autoSnapshotMinutes, createVersionSnapshot]);
+
+  const handleAutoSnapshotMinutesChange = useCallback((minutes: number) => {
+    setAutoSnapshotMinutes(minutes);
+    window.electronAPI?.setVersionAutoSnapshotMinutes?.(minutes).catch(() => {});
+  }, []);
+
+  // 恢复版本：先把当前画布备份为自动快照，再替换节点与连线（防抖保存会写回 data.json）
+  const handleRestoreVersion = useCallback(async (version: { nodes: any[]; edges: any[] }) => {
+    await createVersionSnapshot({ note: '恢复前自动备份', auto: true });
+    flushHistory();
+    pendingHistoryLabelRef.current = '恢复版本';
+    setNodes(version.nodes);
+    setEdges(version.edges);
+  }, [createVersionSnapshot, setNodes, setEdges, flushHistory]);
+
   // 离开画布前强制落盘一次，避免“刚拖入就退出”导致防抖保存未触发而丢失
   useEffect(() => {
     return () => {
@@ -1555,7 +1698,7 @@ const Workspace: React.FC<WorkspaceProps> = () => {
   }, [setNodes, edges]);
 
   // 用于 VideoNode 更新数据的回调（处理视频输出变化，同步到连接的 Character 节点）
-  const handleVideoNodeDataChange = useCallback((nodeId: string, updates: { outputVideo?: string; originalVideoUrl?: string; width?: number; height?: number; title?: string; progress?: number; progressMessage?: string; errorMessage?: string }) => {
+  const handleVideoNodeDataChange = useCallback((nodeId: string, updates: { outputVideo?: string; originalVideoUrl?: string; width?: number; height?: number; title?: string; progress?: number; progressMessage?: string; errorMessage?: string; errorCode?: AIErrorCode }) => {
     const applyUpdate = () => {
       // 通过对象解构生成新引用，保证 React 能正确检测 state 变更
       setNodes((nds) => {
@@ -2028,13 +2171,14 @@ const Workspace: React.FC<WorkspaceProps> = () => {
       }
       const resolvedPrompt = parts.join(',');
       const imageNode = nodes.find((n) => n.id === imageId);
-      const incomingImage = edges.filter((e) => e.target === imageId && nodes.find((n) => n.id === e.source)?.type === 'image');
+      const incomingImage = edges.filter((e) => e.target === imageId && IMAGE_SOURCE_TYPES.includes(nodes.find((n) => n.id === e.source)?.type || ''));
       const incomingCamera = edges.filter((e) => e.target === imageId && nodes.find((n) => n.id === e.source)?.type === 'cameraControl');
       const imgs: string[] = [];
       incomingImage.forEach((e) => {
         const s = nodes.find((n) => n.id === e.source);
-        const u = (s?.data?.outputImage as string) || (s?.data?.inputImages as string[])?.[0];
-        if (u && !imgs.includes(u)) imgs.push(u);
+        (s ? getImagesFromSource(s) : []).forEach((u) => {
+          if (!imgs.includes(u)) imgs.push(u);
+        });
       });
       incomingCamera.forEach((e) => {
         const c = nodes.find((n) => n.id === e.source);
@@ -2189,7 +2333,7 @@ const Workspace: React.FC<WorkspaceProps> = () => {
   }, [setNodes]);
 
   // 用于 AudioNode 更新数据的回调
-  const handleAudioNodeDataChange = useCallback((nodeId: string, updates: { outputAudio?: string; originalAudioUrl?: string; referenceAudioUrl?: string; width?: number; height?: number; title?: string; errorMessage?: string; aiStatus?: 'idle' | 'START' | 'PROCESSING' | 'SUCCESS' | 'ERROR' }) => {
+  const handleAudioNodeDataChange = useCallback((nodeId: string, updates: { outputAudio?: string; originalAudioUrl?: string; referenceAudioUrl?: string; width?: number; height?: number; title?: string; errorMessage?: string; errorCode?: AIErrorCode; aiStatus?: 'idle' | 'START' | 'PROCESSING' | 'SUCCESS' | 'ERROR' }) => {
     const applyUpdate = () => {
       setNodes((nds) =>
         nds.map((node) =>
@@ -2212,8 +2356,11 @@ const Workspace: React.FC<WorkspaceProps> = () => {
   const handleCleanupSplitEdgesRef = useRef<((nodeId: string, keepSourceHandles: string[]) => void) | null>(null);
   const handleAuxImageTaskCompleteRef = useRef<((params: { nodeId: string; type: 'matting' | 'watermark'; imageUrl: string }) => void) | null>(null);
   const handleAIStatusUpdateRef = useRef<(packet: { nodeId: string; status: string; payload?: any }) => void>(() => {});
+  const handleOpenSettingsRef = useRef<(() => void) | null>(null);
+  const handleFanOutRetryRef = useRef<((nodeId: string, index: number) => void) | null>(null);
+  const handleSaveGroupModuleRef = useRef<((groupId: string, name: string) => Promise<{ success: boolean; error?: string }>) | null>(null);
 
-  const handleImageNodeDataChange = useCallback((nodeId: string, updates: { outputImage?: string; inputImages?: string[]; localPath?: string; originalImageUrl?: string; width?: number; height?: number; progress?: number; progressMessage?: string; errorMessage?: string }) => {
+  const handleImageNodeDataChange = useCallback((nodeId: string, updates: { outputImage?: string; outputImages?: string[]; inputImages?: string[]; localPath?: string; originalImageUrl?: string; width?: number; height?: number; progress?: number; progressMessage?: string; errorMessage?: string; errorCode?: AIErrorCode }) => {
     setNodes((nds) => {
       const updatedNodes = nds.map((node) =>
         node.id === nodeId
@@ -2227,8 +2374,8 @@ const Workspace: React.FC<WorkspaceProps> = () => {
           : node
       );
 
-      // 图片节点 outputImage 或 inputImages 变化时，同步到下游 Image / CameraControl
-      if (updates.outputImage !== undefined || updates.inputImages !== undefined) {
+      // 图片 / 抽帧 / 图片编辑节点 outputImage(s) 或 inputImages 变化时，同步到下游 Image / CameraControl
+      if (updates.outputImage !== undefined || updates.outputImages !== undefined || updates.inputImages !== undefined) {
         const connectedEdges = edges.filter((e) => e.source === nodeId && e.target);
         connectedEdges.forEach((edge) => {
           const targetNode = updatedNodes.find((n) => n.id === edge.target);
@@ -2241,16 +2388,20 @@ const Workspace: React.FC<WorkspaceProps> = () => {
               const incomingEdges = edges.filter((e) => {
                 if (e.target !== edge.target) return false;
                 const src = nodes.find((n) => n.id === e.source);
-                return src?.type === 'image';
+                return IMAGE_SOURCE_TYPES.includes(src?.type || '');
               });
               const collectedImages: string[] = [];
               incomingEdges.forEach((incomingEdge) => {
                 const sourceNode = updatedNodes.find((n) => n.id === incomingEdge.source);
-                if (sourceNode && sourceNode.type === 'image' && sourceNode.data?.outputImage) {
+                if (sourceNode?.type === 'image' && sourceNode.data?.outputImage) {
                   const imgUrl = sourceNode.data.outputImage;
                   if (!collectedImages.includes(imgUrl)) {
                     collectedImages.push(imgUrl);
                   }
+                } else if (sourceNode && sourceNode.type !== 'image') {
+                  getImagesFromSource(sourceNode).forEach((imgUrl) => {
+                    if (!collectedImages.includes(imgUrl)) collectedImages.push(imgUrl);
+                  });
                 }
               });
               
@@ -2385,6 +2536,7 @@ const Workspace: React.FC<WorkspaceProps> = () => {
         imageUrl: isLocalPath ? imageUrl : imageUrl,
         localFilePath,
         prompt: prompt || '无提示词',
+        ...(node.data?.promptTemplate ? { promptTemplate: String(node.data.promptTemplate) } : {}),
         createdAt: Date.now(),
         status: 'success',
         taskType: 'image',
@@ -2443,6 +2595,15 @@ const Workspace: React.FC<WorkspaceProps> = () => {
   const invokeAuxImageTaskComplete = useCallback((params: { nodeId: string; type: 'matting' | 'watermark'; imageUrl: string }) => {
     handleAuxImageTaskCompleteRef.current?.(params);
   }, []);
+  const invokeOpenSettings = useCallback(() => {
+    handleOpenSettingsRef.current?.();
+  }, []);
+  const invokeFanOutRetry = useCallback((nodeId: string, index: number) => {
+    handleFanOutRetryRef.current?.(nodeId, index);
+  }, []);
+  const invokeSaveGroupModule = useCallback(async (groupId: string, name: string) => {
+    return handleSaveGroupModuleRef.current?.(groupId, name) ?? { success: false, error: '模块库不可用' };
+  }, []);
 
   // 节点类型定义（仅依赖 isDarkMode、projectId 与稳定 invoker，避免 nodes/edges 变化导致整画布重渲染、模块闪动）
   const nodeTypes: NodeTypes = useMemo(() => {
@@ -2452,7 +2613,7 @@ const Workspace: React.FC<WorkspaceProps> = () => {
     MinimalistTextNodeWrapper.displayName = 'MinimalistTextNodeWrapper';
 
     const LLMNodeWrapper: React.FC<any> = React.memo((props) => (
-      <LLMNode {...props} isDarkMode={isDarkMode} performanceMode={isPerformanceMode} />
+      <LLMNode {...props} isDarkMode={isDarkMode} performanceMode={isPerformanceMode} onOpenSettings={invokeOpenSettings} />
     ));
     LLMNodeWrapper.displayName = 'LLMNodeWrapper';
 
@@ -2464,12 +2625,14 @@ const Workspace: React.FC<WorkspaceProps> = () => {
         onDataChange={invokeImageNodeDataChange}
         projectId={projectId}
         onAuxImageTaskComplete={invokeAuxImageTaskComplete}
+        onOpenSettings={invokeOpenSettings}
+        onFanOutRetry={invokeFanOutRetry}
       />
     ));
     ImageNodeWrapper.displayName = 'ImageNodeWrapper';
 
     const VideoNodeWrapper: React.FC<any> = React.memo((props) => (
-      <VideoNode {...props} isDarkMode={isDarkMode} performanceMode={isPerformanceMode} onDataChange={invokeVideoNodeDataChange} />
+      <VideoNode {...props} isDarkMode={isDarkMode} performanceMode={isPerformanceMode} onDataChange={invokeVideoNodeDataChange} onOpenSettings={invokeOpenSettings} onFanOutRetry={invokeFanOutRetry} />
     ));
     VideoNodeWrapper.displayName = 'VideoNodeWrapper';
 
@@ -2479,7 +2642,7 @@ const Workspace: React.FC<WorkspaceProps> = () => {
     CharacterNodeWrapper.displayName = 'CharacterNodeWrapper';
 
     const AudioNodeWrapper: React.FC<any> = React.memo((props) => (
-      <AudioNode {...props} isDarkMode={isDarkMode} performanceMode={isPerformanceMode} onDataChange={invokeAudioNodeDataChange} />
+      <AudioNode {...props} isDarkMode={isDarkMode} performanceMode={isPerformanceMode} onDataChange={invokeAudioNodeDataChange} onOpenSettings={invokeOpenSettings} onFanOutRetry={invokeFanOutRetry} />
     ));
     AudioNodeWrapper.displayName = 'AudioNodeWrapper';
 
@@ -2493,6 +2656,36 @@ const Workspace: React.FC<WorkspaceProps> = () => {
     ));
     TextSplitNodeWrapper.displayName = 'TextSplitNodeWrapper';
 
+    const ForeachNodeWrapper: React.FC<any> = React.memo((props) => (
+      <ForeachNode {...props} isDarkMode={isDarkMode} />
+    ));
+    ForeachNodeWrapper.displayName = 'ForeachNodeWrapper';
+
+    const ConditionNodeWrapper: React.FC<any> = React.memo((props) => (
+      <ConditionNode {...props} isDarkMode={isDarkMode} onCleanupEdgesForHandles={invokeCleanupSplitEdges} />
+    ));
+    ConditionNodeWrapper.displayName = 'ConditionNodeWrapper';
+
+    const SequenceNodeWrapper: React.FC<any> = React.memo((props) => (
+      <SequenceNode {...props} isDarkMode={isDarkMode} projectId={projectId} />
+    ));
+    SequenceNodeWrapper.displayName = 'SequenceNodeWrapper';
+
+    const FrameExtractNodeWrapper: React.FC<any> = React.memo((props) => (
+      <FrameExtractNode {...props} isDarkMode={isDarkMode} projectId={projectId} onDataChange={invokeImageNodeDataChange} />
+    ));
+    FrameExtractNodeWrapper.displayName = 'FrameExtractNodeWrapper';
+
+    const ImageEditNodeWrapper: React.FC<any> = React.memo((props) => (
+      <ImageEditNode {...props} isDarkMode={isDarkMode} projectId={projectId} onDataChange={invokeImageNodeDataChange} />
+    ));
+    ImageEditNodeWrapper.displayName = 'ImageEditNodeWrapper';
+
+    const GroupNodeWrapper: React.FC<any> = React.memo((props) => (
+      <GroupNode {...props} isDarkMode={isDarkMode} onSaveModule={invokeSaveGroupModule} />
+    ));
+    GroupNodeWrapper.displayName = 'GroupNodeWrapper';
+
     return {
       custom: CustomNode,
       textNode: TextNodeWrapper as React.ComponentType<any>,
@@ -2504,8 +2697,14 @@ const Workspace: React.FC<WorkspaceProps> = () => {
       audio: AudioNodeWrapper,
       textSplit: TextSplitNodeWrapper,
       cameraControl: CameraControlNodeWrapper,
+      foreach: ForeachNodeWrapper,
+      condition: ConditionNodeWrapper,
+      sequence: SequenceNodeWrapper,
+      frameExtract: FrameExtractNodeWrapper,
+      imageEdit: ImageEditNodeWrapper,
+      [GROUP_NODE_TYPE]: GroupNodeWrapper,
     };
-  }, [isDarkMode, projectId, isPerformanceMode, invokeImageNodeDataChange, invokeVideoNodeDataChange, invokeAudioNodeDataChange, invokeCleanupSplitEdges, invokeAuxImageTaskComplete]);
+  }, [isDarkMode, projectId, isPerformanceMode, invokeImageNodeDataChange, invokeVideoNodeDataChange, invokeAudioNodeDataChange, invokeCleanupSplitEdges, invokeAuxImageTaskComplete, invokeOpenSettings, invokeFanOutRetry, invokeSaveGroupModule]);
 
   // 连接节点（拖拽中的临时线为虚线，连接完成后的线为实线）
   const onConnect = useCallback(
@@ -2520,7 +2719,7 @@ const Workspace: React.FC<WorkspaceProps> = () => {
         const targetNode = nodes.find((n) => n.id === params.target);
         const sourceNode = nodes.find((n) => n.id === params.source);
         if (targetNode && targetNode.type === 'image') {
-          if (sourceNode && sourceNode.type === 'image') {
+          if (sourceNode && IMAGE_SOURCE_TYPES.includes(sourceNode.type || '')) {
             targetHandle = 'image-input';
           } else {
             targetHandle = 'input';
@@ -2591,7 +2790,7 @@ const Workspace: React.FC<WorkspaceProps> = () => {
                 const imageSourceEdges = updatedEdges.filter((e) => {
                   if (e.target !== params.target) return false;
                   const src = freshNodes.find((n) => n.id === e.source);
-                  return src?.type === 'image';
+                  return IMAGE_SOURCE_TYPES.includes(src?.type || '');
                 });
                 const cameraSourceEdges = updatedEdges.filter((e) => {
                   if (e.target !== params.target) return false;
@@ -2621,10 +2820,10 @@ const Workspace: React.FC<WorkspaceProps> = () => {
                 const collectedImages: string[] = [];
                 imageSourceEdges.forEach((edge) => {
                   const src = freshNodes.find((n) => n.id === edge.source);
-                  if (src?.type === 'image') {
-                    const u = (src.data?.outputImage as string) || (src.data?.inputImages as string[])?.[0];
-                    if (u && !collectedImages.includes(u)) collectedImages.push(u);
-                  }
+                  if (!src) return;
+                  getImagesFromSource(src).forEach((u) => {
+                    if (!collectedImages.includes(u)) collectedImages.push(u);
+                  });
                 });
                 cameraSourceEdges.forEach((edge) => {
                   const cc = freshNodes.find((n) => n.id === edge.source);
@@ -2656,12 +2855,12 @@ const Workspace: React.FC<WorkspaceProps> = () => {
                   }, 0);
                 }
                 return updatedNodes;
-              } else if (sourceNode && sourceNode.type === 'image') {
-                // Image 连接到 Image：收集输入图片，切换到图生图模式（按源类型为 image 的入边）
+              } else if (sourceNode && IMAGE_SOURCE_TYPES.includes(sourceNode.type || '')) {
+                // Image / 抽帧 / 图片编辑连接到 Image：收集输入图片，切换到图生图模式（按源类型为图片类的入边）
                 const incomingEdges = updatedEdges.filter((e) => {
                   if (e.target !== params.target) return false;
                   const src = nds.find((n) => n.id === e.source);
-                  return src?.type === 'image';
+                  return IMAGE_SOURCE_TYPES.includes(src?.type || '');
                 });
                 const collectedImages: string[] = [];
                 incomingEdges.forEach((edge) => {
@@ -2671,6 +2870,10 @@ const Workspace: React.FC<WorkspaceProps> = () => {
                     if (!collectedImages.includes(imgUrl)) {
                       collectedImages.push(imgUrl);
                     }
+                  } else if (edgeSourceNode && edgeSourceNode.type !== 'image') {
+                    getImagesFromSource(edgeSourceNode).forEach((imgUrl) => {
+                      if (!collectedImages.includes(imgUrl)) collectedImages.push(imgUrl);
+                    });
                   }
                 });
                 
@@ -2845,6 +3048,27 @@ const Workspace: React.FC<WorkspaceProps> = () => {
                 return updatedNodes;
               }
 
+              // 抽帧 / 图片编辑 -> video：输出图片作为参考图（如上一段末帧作为首帧）
+              if (sourceNode && sourceNode.type !== 'image' && IMAGE_SOURCE_TYPES.includes(sourceNode.type || '')) {
+                const frames = getImagesFromSource(sourceNode);
+                if (frames.length > 0) {
+                  const mergeFrames = (existing: string[]) =>
+                    [...existing, ...frames.filter((frame) => !existing.includes(frame))].slice(0, 10);
+                  if (selectedNode && selectedNode.id === params.target) {
+                    setTimeout(() => {
+                      setVideoInputPanelData((prev) =>
+                        prev && prev.nodeId === params.target ? { ...prev, inputImages: mergeFrames(prev.inputImages || []) } : prev
+                      );
+                    }, 0);
+                  }
+                  return nds.map((node) =>
+                    node.id === params.target
+                      ? { ...node, data: { ...node.data, inputImages: mergeFrames((node.data?.inputImages || []) as string[]) } }
+                      : node
+                  );
+                }
+              }
+
               if (
                 sourceNode &&
                 (sourceNode.type === 'minimalistText' ||
@@ -3248,6 +3472,8 @@ const Workspace: React.FC<WorkspaceProps> = () => {
           isImageReverseMode: hasImageConnection && !!imageUrlForReverse,
           imageUrlForReverse,
           reverseCaptionModel: (node.data?.reverseCaptionModel as 'gpt-4o' | 'joy-caption-two') || 'gpt-4o',
+          endpointId: node.data?.endpointId,
+          endpointModel: node.data?.endpointModel,
         });
         setImageInputPanelData(null);
       } else if (nodeType === 'image') {
@@ -3257,7 +3483,7 @@ const Workspace: React.FC<WorkspaceProps> = () => {
         const incomingImageEdges = edges.filter((e) => {
           if (e.target !== node.id) return false;
           const src = nodes.find((n) => n.id === e.source);
-          return src?.type === 'image';
+          return IMAGE_SOURCE_TYPES.includes(src?.type || '');
         });
         const incomingCameraEdges = edges.filter((e) => {
           if (e.target !== node.id) return false;
@@ -3270,14 +3496,14 @@ const Workspace: React.FC<WorkspaceProps> = () => {
           return src && (src.type === 'minimalistText' || src.type === 'text' || src.type === 'llm' || src.type === 'textSplit' || src.type === 'cameraControl');
         });
         
-        // 收集输入图片：来自 image 节点 + cameraControl 节点（透传其 inputImage）
+        // 收集输入图片：来自 image / 抽帧 / 图片编辑节点 + cameraControl 节点（透传其 inputImage）
         let inputImages: string[] = [];
         incomingImageEdges.forEach((edge) => {
           const sourceNode = nodes.find((n) => n.id === edge.source);
-          if (sourceNode?.type === 'image') {
-            const imageUrl = (sourceNode.data?.outputImage as string) || (sourceNode.data?.inputImages as string[])?.[0];
-            if (imageUrl && !inputImages.includes(imageUrl)) inputImages.push(imageUrl);
-          }
+          if (!sourceNode) return;
+          getImagesFromSource(sourceNode).forEach((imageUrl) => {
+            if (!inputImages.includes(imageUrl)) inputImages.push(imageUrl);
+          });
         });
         incomingCameraEdges.forEach((edge) => {
           const cc = nodes.find((n) => n.id === edge.source);
@@ -3362,13 +3588,12 @@ const Workspace: React.FC<WorkspaceProps> = () => {
 
           // 统一输入点：可以接收图像或文本（targetHandle 为 'input'，handleMenuSelect 创建的边也为 'input'）
           if (edge.targetHandle === 'input' || edge.targetHandle === 'video-input') {
-            // 处理图像输入（图生视频模式）
-            if (sourceNode.type === 'image') {
-              const imageUrl = (sourceNode.data?.outputImage as string) || (sourceNode.data?.inputImages as string[])?.[0];
-              if (imageUrl && !inputImages.includes(imageUrl)) {
+            // 处理图像输入（图生视频模式；抽帧节点提供全部抽出的帧）
+            getImagesFromSource(sourceNode).forEach((imageUrl) => {
+              if (!inputImages.includes(imageUrl)) {
                 inputImages.push(imageUrl);
               }
-            }
+            });
             
             // 处理文本输入（文生视频模式，或图生视频模式的提示词）
             if (
@@ -3407,7 +3632,7 @@ const Workspace: React.FC<WorkspaceProps> = () => {
           nodeId: node.id,
           prompt: resolvedPrompt,
           aspectRatio: (node.data?.aspectRatio as '16:9' | '9:16' | '1:1' | '2:3' | '3:2') || '16:9',
-          model: (node.data?.model as 'sora-2' | 'sora-2-pro' | 'kling-v2.6-pro' | 'kling-video-o1' | 'kling-video-o1-i2v' | 'kling-video-o1-start-end' | 'kling-video-o1-ref' | 'wan-2.6' | 'wan-2.6-flash' | 'rhart-v3.1-fast' | 'rhart-v3.1-fast-se' | 'rhart-v3.1-pro' | 'rhart-v3.1-pro-se' | 'rhart-video-g' | 'rhart-video-s-i2v-pro' | 'hailuo-02-t2v-standard' | 'hailuo-2.3-t2v-standard' | 'hailuo-02-i2v-standard' | 'hailuo-2.3-i2v-standard') || 'sora-2',
+          model: (node.data?.model as VideoModelId) || 'sora-2',
           hd: !!node.data?.hd,
           duration: (node.data?.duration as '5' | '10' | '15' | '25') || '10',
           inputImages,
@@ -3773,492 +3998,787 @@ const Workspace: React.FC<WorkspaceProps> = () => {
     setTasks((prevTasks) => prevTasks.filter((task) => task.id !== taskId));
   }, []);
 
-  // 批量运行节点
-  const handleBatchRun = useCallback(async (nodeIds: string[]) => {
-    if (!window.electronAPI || nodeIds.length === 0) {
-      return;
-    }
-    if (batchRunInProgress) {
-      return; // 避免重复点击
-    }
-    setBatchRunInProgress(true);
-    const runPromises: Promise<void>[] = [];
+  // 提示词模板：当前选中节点可用的具名上游输入与模板内容
+  const selectedTemplateVariables = useMemo(
+    () => (selectedNode ? collectTemplateVariables(selectedNode.id, nodes, edges) : []),
+    [selectedNode?.id, nodes, edges]
+  );
+  const selectedPromptTemplate = selectedNode
+    ? String(nodes.find((n) => n.id === selectedNode.id)?.data?.promptTemplate || '')
+    : '';
+  const handlePromptTemplateChange = useCallback((nodeId: string, value: string) => {
+    setNodes((nds) =>
+      nds.map((n) => (n.id === nodeId ? { ...n, data: { ...n.data, promptTemplate: value || undefined } } : n))
+    );
+  }, [setNodes]);
 
-    console.log('[Workspace] 开始批量运行节点:', nodeIds);
+  // 逐段批量：当前选中节点上游文本拆分 / 循环节点的分段数与运行状态（连接循环节点时固定开启）
+  const selectedFanOutSource = useMemo(
+    () => (selectedNode ? getFanOutSource(selectedNode.id, nodes, edges) : null),
+    [selectedNode?.id, nodes, edges]
+  );
+  const selectedFanOutSegmentCount = selectedFanOutSource?.items.length ?? 0;
+  const selectedFanOutLocked = selectedFanOutSource?.sourceType === 'foreach';
+  const selectedFanOutNode = selectedNode ? nodes.find((n) => n.id === selectedNode.id) : undefined;
+  const selectedFanOutEnabled = selectedFanOutLocked || !!selectedFanOutNode?.data?.fanOut;
+  const selectedFanOutRunning = ((selectedFanOutNode?.data?.fanOutItems as FanOutItem[] | undefined) || []).some(
+    (item) => item.status === 'pending' || item.status === 'running'
+  );
+  const handleFanOutToggle = useCallback((nodeId: string, enabled: boolean) => {
+    setNodes((nds) =>
+      nds.map((n) => (n.id === nodeId ? { ...n, data: { ...n.data, fanOut: enabled || undefined } } : n))
+    );
+  }, [setNodes]);
 
-    // 遍历所有节点，构建 payload 并执行
-    for (let i = 0; i < nodeIds.length; i++) {
-      const nodeId = nodeIds[i];
-      const node = nodes.find((n) => n.id === nodeId);
-      
-      if (!node) {
-        console.warn(`[Workspace] 节点 ${nodeId} 不存在，跳过`);
-        continue;
-      }
+  // 根据节点类型构建运行 payload（批量运行与工作流图执行共用）；返回 null 表示缺少必要参数，跳过该节点
+  const buildNodeRunPayload = useCallback((node: Node, nodes: Node[], edges: Edge[]): { modelId: string; payload: any } | null => {
+    const nodeId = node.id;
+    let modelId: string;
+    let payload: any;
 
-      // 根据节点类型构建不同的 payload
-      let modelId: string;
-      let payload: any;
+    if (node.type === 'video') {
+      modelId = 'video';
+      const nodeData = node.data || {};
 
-      if (node.type === 'video') {
-        modelId = 'video';
-        const nodeData = node.data || {};
-        
-        // 检查是否有必要的参数
-        if (!nodeData.prompt?.trim()) {
-          console.warn(`[Workspace] 视频节点 ${nodeId} 缺少提示词，跳过`);
-          continue;
-        }
+      // 检查是否有必要的参数
+      if (!nodeData.prompt?.trim()) {
+        console.warn(`[Workspace] 视频节点 ${nodeId} 缺少提示词，跳过`);
+        return null;
+      }
 
-        // 图生视频需要至少一张参考图
-        const inputImages = nodeData.inputImages || [];
-        const isImageToVideoMode = inputImages.length > 0;
-        if (isImageToVideoMode && inputImages.length === 0) {
-          console.warn(`[Workspace] 视频节点 ${nodeId} 图生视频模式但缺少参考图，跳过`);
-          continue;
-        }
+      // 模型参数按模型目录中的参数表生成（与 VideoInputPanel 一致）
+      const model = nodeData.model || 'sora-2';
+      const spec = getVideoModel(model);
+      if (!spec) {
+        console.warn(`[Workspace] 视频节点 ${nodeId} 未知模型 ${model}，跳过`);
+        return null;
+      }
+      const inputImages = nodeData.inputImages || [];
+      const schema = getVideoParamSchema(spec);
+      const mode = resolveVideoMode(spec, inputImages.length);
+      const paramError = validateModelParams(schema, nodeData, mode);
+      if (paramError) {
+        console.warn(`[Workspace] 视频节点 ${nodeId} ${paramError}，跳过`);
+        return null;
+      }
 
-        payload = {
-          prompt: nodeData.prompt,
-          model: nodeData.model || 'sora-2',
-          aspect_ratio: nodeData.aspectRatio || '16:9',
-        };
+      payload = {
+        prompt: nodeData.prompt,
+        model,
+        ...buildModelPayload(schema, nodeData, mode),
+      };
 
-        // sora-2 系列参数
-        if (payload.model === 'sora-2' || payload.model === 'sora-2-pro') {
-          payload.hd = nodeData.hd ?? false;
-          payload.duration = nodeData.duration || '5';
+      // 可灵参考生视频o1：从连线解析参考视频 URL
+      if (payload.model === 'kling-video-o1-ref') {
+        const refEdge = edges.find((e) => e.target === nodeId && e.targetHandle === 'reference-video');
+        const refSource = refEdge ? nodes.find((n) => n.id === refEdge.source) : null;
+        const refUrl = refSource?.type === 'video'
+          ? (refSource.data?.originalVideoUrl || refSource.data?.outputVideo) as string | undefined
+          : undefined;
+        if (refUrl && (refUrl.startsWith('http://') || refUrl.startsWith('https://'))) {
+          payload.referenceVideoUrl = refUrl;
+        } else if (!refUrl || refUrl.trim() === '') {
+          console.warn(`[Workspace] 视频节点 ${nodeId} 可灵参考生视频o1 未连接参考视频或参考视频非公网链接，跳过`);
+          return null;
+        } else {
+          console.warn(`[Workspace] 视频节点 ${nodeId} 可灵参考生视频o1 的参考视频须为 http(s) 链接，跳过`);
+          return null;
         }
+      }
 
-        // kling-v2.6-pro 系列参数
-        const isKlingModel = payload.model === 'kling-v2.6-pro';
-        if (isKlingModel) {
-          payload.duration = nodeData.duration || '5';
-          if (nodeData.guidanceScale !== undefined) {
-            payload.guidanceScale = nodeData.guidanceScale;
-          }
-          if (nodeData.sound) {
-            payload.sound = nodeData.sound;
-          }
+      // 添加项目ID
+      if (projectId) {
+        payload.projectId = projectId;
+      }
+    } else if (node.type === 'image') {
+      modelId = 'image';
+      const nodeData = node.data || {};
+
+      // 检查是否有必要的参数
+      if (!nodeData.prompt?.trim()) {
+        console.warn(`[Workspace] 图片节点 ${nodeId} 缺少提示词，跳过`);
+        return null;
+      }
+
+      // 判断是否支持 image_size（仅 nano-banana-2-2k 和 nano-banana-2-4k 支持）
+      const model = nodeData.model || 'nano-banana-2';
+      const supportsImageSize = model === 'nano-banana-2-2k' || model === 'nano-banana-2-4k';
+
+      // 从 resolution 解析 image_size（如果支持）
+      let imageSize: '1K' | '2K' | '4K' | undefined;
+      const resolution = nodeData.resolution || '1024x1024';
+      if (supportsImageSize) {
+        if (resolution.includes('512') || resolution.includes('768')) {
+          imageSize = '1K';
+        } else if (resolution.includes('1024')) {
+          imageSize = '2K';
+        } else if (resolution.includes('1792') || model === 'nano-banana-2-4k') {
+          imageSize = '4K';
         }
+      }
 
-        // 万相2.6 / 全能V3.1 / 全能视频G 等参数（主进程从 input 读取）
-        if (nodeData.resolutionRhartV31) payload.resolutionRhartV31 = nodeData.resolutionRhartV31;
-        if (nodeData.durationWan26Flash) payload.durationWan26Flash = nodeData.durationWan26Flash;
-        if (nodeData.shotType) payload.shotType = nodeData.shotType;
-        if (nodeData.negativePrompt !== undefined) payload.negativePrompt = nodeData.negativePrompt;
-        if (nodeData.enableAudio !== undefined) payload.enableAudio = nodeData.enableAudio;
-        if (nodeData.resolutionWan26) payload.resolutionWan26 = nodeData.resolutionWan26;
-        if (nodeData.durationRhartVideoG) payload.durationRhartVideoG = nodeData.durationRhartVideoG;
-        if (nodeData.durationHailuo02) payload.durationHailuo02 = nodeData.durationHailuo02;
-        if (nodeData.durationKlingO1) payload.durationKlingO1 = nodeData.durationKlingO1;
-        if (nodeData.modeKlingO1) payload.modeKlingO1 = nodeData.modeKlingO1;
+      // 比例与参考图按模型目录中的参数表生成（与 ImageInputPanel 一致）
+      const spec = getImageModel(model);
+      if (!spec) {
+        console.warn(`[Workspace] 图片节点 ${nodeId} 未知模型 ${model}，跳过`);
+        return null;
+      }
+      const schema = getImageParamSchema(spec);
+      const mode = (nodeData.inputImages || []).length > 0 ? 'i2i' : 't2i';
+      const paramError = validateModelParams(schema, nodeData, mode);
+      if (paramError) {
+        console.warn(`[Workspace] 图片节点 ${nodeId} ${paramError}，跳过`);
+        return null;
+      }
+      payload = {
+        model,
+        prompt: nodeData.prompt,
+        response_format: 'url',
+        image_size: imageSize,
+        resolution: nodeData.resolution || '1024x1024',
+        ...buildModelPayload(schema, nodeData, mode),
+      };
+      if (model === 'seedream-v4.5') {
+        const minS = 1024;
+        const maxS = 4096;
+        payload.seedreamWidth = Math.max(minS, Math.min(maxS, Number(nodeData.seedreamWidth) || 2048));
+        payload.seedreamHeight = Math.max(minS, Math.min(maxS, Number(nodeData.seedreamHeight) || 2048));
+      }
 
-        // 可灵参考生视频o1：从连线解析参考视频 URL
-        if (payload.model === 'kling-video-o1-ref') {
-          const refEdge = edges.find((e) => e.target === nodeId && e.targetHandle === 'reference-video');
-          const refSource = refEdge ? nodes.find((n) => n.id === refEdge.source) : null;
-          const refUrl = refSource?.type === 'video'
-            ? (refSource.data?.originalVideoUrl || refSource.data?.outputVideo) as string | undefined
-            : undefined;
-          if (refUrl && (refUrl.startsWith('http://') || refUrl.startsWith('https://'))) {
-            payload.referenceVideoUrl = refUrl;
-          } else if (!refUrl || refUrl.trim() === '') {
-            console.warn(`[Workspace] 视频节点 ${nodeId} 可灵参考生视频o1 未连接参考视频或参考视频非公网链接，跳过`);
-            continue;
-          } else {
-            console.warn(`[Workspace] 视频节点 ${nodeId} 可灵参考生视频o1 的参考视频须为 http(s) 链接，跳过`);
-            continue;
-          }
-          if (nodeData.keepOriginalSound === true) payload.keepOriginalSound = true;
-        }
+      // 文悠船文生图-v7 可选 negativePrompt
+      if (model === 'youchuan-text-to-image-v7' && nodeData.negativePrompt !== undefined) {
+        payload.negativePrompt = nodeData.negativePrompt;
+      }
 
-        // 图生视频模式：添加图片
-        if (isImageToVideoMode && inputImages.length > 0) {
-          payload.images = inputImages.slice(0, 10);
-        }
+      // 添加项目ID
+      if (projectId) {
+        payload.projectId = projectId;
+      }
+    } else if (node.type === 'llm') {
+      modelId = 'chat';
+      const nodeData = node.data || {};
 
-        // 添加项目ID
-        if (projectId) {
-          payload.projectId = projectId;
-        }
-      } else if (node.type === 'image') {
-        modelId = 'image';
-        const nodeData = node.data || {};
-        
-        // 检查是否有必要的参数
-        if (!nodeData.prompt?.trim()) {
-          console.warn(`[Workspace] 图片节点 ${nodeId} 缺少提示词，跳过`);
-          continue;
-        }
+      // 批量运行时从连线解析「图片反推」：存在来自 Image 节点的连线则取源节点 outputImage
+      const incomingToLlm = edges.filter((e) => e.target === nodeId);
+      const imageEdge = incomingToLlm.find((e) => {
+        const src = nodes.find((n) => n.id === e.source);
+        return src?.type === 'image' && src?.data?.outputImage;
+      });
+      const resolvedImageUrlForReverse = imageEdge
+        ? (nodes.find((n) => n.id === imageEdge.source)?.data?.outputImage as string | undefined)
+        : undefined;
+      const isImageReverseMode = !!resolvedImageUrlForReverse;
 
-        const inputImages = nodeData.inputImages || [];
-        const isImageToImageMode = inputImages.length > 0;
+      const userInput = nodeData.userInput?.trim() || '';
+      const inputText = nodeData.inputText?.trim() || '';
 
-        // 判断是否支持 image_size（仅 nano-banana-2-2k 和 nano-banana-2-4k 支持）
-        const model = nodeData.model || 'nano-banana-2';
-        const supportsImageSize = model === 'nano-banana-2-2k' || model === 'nano-banana-2-4k';
-        
-        // 从 resolution 解析 image_size（如果支持）
-        let imageSize: '1K' | '2K' | '4K' | undefined;
-        const resolution = nodeData.resolution || '1024x1024';
-        if (supportsImageSize) {
-          if (resolution.includes('512') || resolution.includes('768')) {
-            imageSize = '1K';
-          } else if (resolution.includes('1024')) {
-            imageSize = '2K';
-          } else if (resolution.includes('1792') || model === 'nano-banana-2-4k') {
-            imageSize = '4K';
-          }
-        }
+      if (!isImageReverseMode && !userInput && !inputText) {
+        console.warn(`[Workspace] LLM 节点 ${nodeId} 缺少输入内容，跳过`);
+        return null;
+      }
 
-        let payloadAspectRatio = nodeData.aspectRatio || '1:1';
-        if (model === 'rhart-image-g-1.5') {
-          const validG15 = ['auto', '1:1', '3:2', '2:3'];
-          if (!validG15.includes(payloadAspectRatio)) payloadAspectRatio = '2:3';
-        }
+      // 图像反推模式
+      if (isImageReverseMode && resolvedImageUrlForReverse) {
+        const question = inputText.trim() || '这张图片有什么？';
+        const reverseModel = (nodeData.reverseCaptionModel as 'gpt-4o' | 'joy-caption-two') || 'gpt-4o';
         payload = {
-          model,
-          prompt: nodeData.prompt,
-          response_format: 'url',
-          aspect_ratio: payloadAspectRatio,
-          image_size: imageSize,
-          resolution: nodeData.resolution || '1024x1024',
+          model: reverseModel,
+          messages: [
+            {
+              role: 'user',
+              content: [
+                { type: 'text', text: question },
+                {
+                  type: 'image_url',
+                  image_url: {
+                    url: resolvedImageUrlForReverse,
+                  },
+                },
+              ],
+            },
+          ],
+          max_tokens: 400,
+          stream: false,
         };
-        if (model === 'seedream-v4.5') {
-          const minS = 1024;
-          const maxS = 4096;
-          payload.seedreamWidth = Math.max(minS, Math.min(maxS, Number(nodeData.seedreamWidth) || 2048));
-          payload.seedreamHeight = Math.max(minS, Math.min(maxS, Number(nodeData.seedreamHeight) || 2048));
-        }
+      } else {
+        // 普通文本对话模式
+        const messages: Array<{ role: 'system' | 'user'; content: string }> = [];
 
-        // 文悠船文生图-v7 可选 negativePrompt
-        if (model === 'youchuan-text-to-image-v7' && nodeData.negativePrompt !== undefined) {
-          payload.negativePrompt = nodeData.negativePrompt;
+        if (userInput) {
+          messages.push({
+            role: 'system',
+            content: userInput,
+          });
         }
 
-        // 图生图模式：如果有输入图片，添加 image 参数
-        if (isImageToImageMode && inputImages.length > 0) {
-          payload.image = inputImages.slice(0, 10);
+        if (inputText) {
+          messages.push({
+            role: 'user',
+            content: inputText,
+          });
         }
 
-        // 添加项目ID
-        if (projectId) {
-          payload.projectId = projectId;
+        if (messages.length === 0) {
+          console.warn(`[Workspace] LLM 节点 ${nodeId} 消息为空，跳过`);
+          return null;
         }
-      } else if (node.type === 'llm') {
-        modelId = 'chat';
-        const nodeData = node.data || {};
-        
-        // 批量运行时从连线解析「图片反推」：存在来自 Image 节点的连线则取源节点 outputImage
-        const incomingToLlm = edges.filter((e) => e.target === nodeId);
-        const imageEdge = incomingToLlm.find((e) => {
-          const src = nodes.find((n) => n.id === e.source);
-          return src?.type === 'image' && src?.data?.outputImage;
-        });
-        const resolvedImageUrlForReverse = imageEdge
-          ? (nodes.find((n) => n.id === imageEdge.source)?.data?.outputImage as string | undefined)
-          : undefined;
-        const isImageReverseMode = !!resolvedImageUrlForReverse;
 
-        const userInput = nodeData.userInput?.trim() || '';
-        const inputText = nodeData.inputText?.trim() || '';
-        
-        if (!isImageReverseMode && !userInput && !inputText) {
-          console.warn(`[Workspace] LLM 节点 ${nodeId} 缺少输入内容，跳过`);
-          continue;
+        // 自定义 LLM 端点：使用节点选择的端点模型（与 LLMInputPanel 一致）
+        const endpointId = nodeData.endpointId as string | undefined;
+        const isCustomEndpoint = !!endpointId && endpointId !== 'bltcy';
+        const endpointModel = String(nodeData.endpointModel || '').trim();
+        if (isCustomEndpoint && !endpointModel) {
+          console.warn(`[Workspace] LLM 节点 ${nodeId} 未选择端点模型，跳过`);
+          return null;
         }
+        payload = {
+          model: isCustomEndpoint ? endpointModel : 'gpt-3.5-turbo',
+          ...(isCustomEndpoint ? { endpointId } : {}),
+          messages,
+          temperature: 0.7,
+          max_tokens: 2000,
+          stream: true,
+        };
+      }
 
-        // 图像反推模式
-        if (isImageReverseMode && resolvedImageUrlForReverse) {
-          const question = inputText.trim() || '这张图片有什么？';
-          const reverseModel = (nodeData.reverseCaptionModel as 'gpt-4o' | 'joy-caption-two') || 'gpt-4o';
-          payload = {
-            model: reverseModel,
-            messages: [
-              {
-                role: 'user',
-                content: [
-                  { type: 'text', text: question },
-                  {
-                    type: 'image_url',
-                    image_url: {
-                      url: resolvedImageUrlForReverse,
-                    },
-                  },
-                ],
-              },
-            ],
-            max_tokens: 400,
-            stream: false,
-          };
-        } else {
-          // 普通文本对话模式
-          const messages: Array<{ role: 'system' | 'user'; content: string }> = [];
-          
-          if (userInput) {
-            messages.push({
-              role: 'system',
-              content: userInput,
-            });
-          }
-          
-          if (inputText) {
-            messages.push({
-              role: 'user',
-              content: inputText,
-            });
-          }
-          
-          if (messages.length === 0) {
-            console.warn(`[Workspace] LLM 节点 ${nodeId} 消息为空，跳过`);
-            continue;
+      // 添加项目ID和节点标题
+      if (projectId) {
+        payload.projectId = projectId;
+      }
+      const nodeTitle = node.data?.title || 'llm';
+      payload.nodeTitle = nodeTitle;
+    } else if (node.type === 'audio') {
+      modelId = 'audio';
+      const nodeData = node.data || {};
+      const audioModel = nodeData.model || 'speech-2.8-hd';
+      const isIndexTts2 = audioModel === 'index-tts2';
+      const isRhartSong = audioModel === 'rhart-song';
+
+      if (isRhartSong) {
+        if (!(nodeData.songName ?? '').trim() || !(nodeData.styleDesc ?? '').trim() || !(nodeData.lyrics ?? '').trim()) {
+          console.warn(`[Workspace] 音频节点 ${nodeId} 全能写歌 缺少歌曲名/风格描述/歌词，跳过`);
+          return null;
+        }
+      } else {
+        if (!nodeData.text?.trim()) {
+          console.warn(`[Workspace] 音频节点 ${nodeId} 缺少文本，跳过`);
+          return null;
+        }
+        if (!isIndexTts2 && !nodeData.voiceId) {
+          console.warn(`[Workspace] 音频节点 ${nodeId} 缺少音色，跳过`);
+          return null;
+        }
+      }
+      // 参考音：优先来自连接的声音节点，否则用节点自身的 referenceAudioUrl
+      let referenceAudioUrl = (nodeData.referenceAudioUrl || '').trim();
+      const audioIncomingEdges = edges.filter((e) => e.target === nodeId);
+      for (const e of audioIncomingEdges) {
+        const srcNode = nodes.find((n) => n.id === e.source);
+        if (srcNode?.type === 'audio') {
+          const ref = (srcNode.data?.originalAudioUrl && String(srcNode.data.originalAudioUrl).startsWith('http'))
+            ? String(srcNode.data.originalAudioUrl)
+            : (srcNode.data?.outputAudio && String(srcNode.data.outputAudio)) || '';
+          if (ref) {
+            referenceAudioUrl = ref;
+            break;
           }
-          
-          payload = {
-            model: 'gpt-3.5-turbo',
-            messages,
-            temperature: 0.7,
-            max_tokens: 2000,
-            stream: false,
-          };
         }
+      }
+      if (isIndexTts2 && !referenceAudioUrl) {
+        console.warn(`[Workspace] 音频节点 ${nodeId} Index-TTS2.0 缺少参考音，跳过`);
+        return null;
+      }
+      if (referenceAudioUrl.startsWith('local-resource://') || referenceAudioUrl.startsWith('file://')) {
+        referenceAudioUrl = referenceAudioUrl.replace(/%5C/gi, '/').replace(/^local-resource:\/\/+/, 'local-resource://').replace(/^file:\/\/+/, 'file://');
+      }
 
-        // 添加项目ID和节点标题
-        if (projectId) {
-          payload.projectId = projectId;
-        }
-        const nodeTitle = node.data?.title || 'llm';
-        payload.nodeTitle = nodeTitle;
-      } else if (node.type === 'audio') {
-        modelId = 'audio';
-        const nodeData = node.data || {};
-        const audioModel = nodeData.model || 'speech-2.8-hd';
-        const isIndexTts2 = audioModel === 'index-tts2';
-        const isRhartSong = audioModel === 'rhart-song';
+      payload = {
+        model: audioModel,
+        text: (nodeData.text || '').trim(),
+        enable_base64_output: false,
+        english_normalization: false,
+      };
+      if (isRhartSong) {
+        payload.songName = (nodeData.songName ?? '').trim();
+        payload.styleDesc = (nodeData.styleDesc ?? '').trim();
+        payload.lyrics = (nodeData.lyrics ?? '').trim();
+      } else if (isIndexTts2) {
+        payload.referenceAudioUrl = referenceAudioUrl;
+      } else {
+        payload.voice_id = nodeData.voiceId || 'Wise_Woman';
+        payload.speed = nodeData.speed ?? 1;
+        payload.volume = nodeData.volume ?? 1;
+        payload.pitch = nodeData.pitch ?? 0;
+        if (nodeData.emotion) payload.emotion = nodeData.emotion;
+      }
+      if (projectId) payload.projectId = projectId;
+    } else {
+      console.warn(`[Workspace] 不支持的节点类型: ${node.type}，跳过`);
+      return null;
+    }
+
+    return { modelId, payload };
+  }, [projectId]);
+
+  // 运行开始时立即初始化进度条（确保所有节点都能显示进度）
+  const markNodeRunStarting = useCallback((node: Node) => {
+    const nodeId = node.id;
+    if (node.type === 'video') {
+      // 设置初始进度（1%），确保显示进度条
+      setNodes((nds) =>
+        nds.map((n) =>
+          n.id === nodeId
+            ? {
+                ...n,
+                data: {
+                  ...n.data,
+                  progress: 1, // 设置为 1% 以显示进度条
+                  progressMessage: '正在初始化...',
+                  errorMessage: undefined, // 清除之前的错误信息
+                },
+              }
+            : n
+        )
+      );
+      // 同步更新到 handleVideoNodeDataChange
+      handleVideoNodeDataChange(nodeId, {
+        progress: 1,
+        progressMessage: '正在初始化...',
+        errorMessage: undefined,
+      });
+    } else if (node.type === 'image') {
+      // 图片节点也初始化进度条
+      setNodes((nds) =>
+        nds.map((n) =>
+          n.id === nodeId
+            ? {
+                ...n,
+                data: {
+                  ...n.data,
+                  progress: 1,
+                  progressMessage: '正在初始化...',
+                  errorMessage: undefined,
+                },
+              }
+            : n
+        )
+      );
+      handleImageNodeDataChange(nodeId, {
+        progress: 1,
+        progressMessage: '正在初始化...',
+        errorMessage: undefined,
+      });
+    } else if (node.type === 'llm') {
+      // LLM 节点也初始化进度条
+      setNodes((nds) =>
+        nds.map((n) =>
+          n.id === nodeId
+            ? {
+                ...n,
+                data: {
+                  ...n.data,
+                  progress: 1, // 设置为 1% 以显示进度条
+                  progressMessage: '正在初始化模型...',
+                  errorMessage: undefined, // 清除之前的错误信息
+                },
+              }
+            : n
+        )
+      );
+    } else if (node.type === 'audio') {
+      // Audio 节点也初始化状态
+      setNodes((nds) =>
+        nds.map((n) =>
+          n.id === nodeId
+            ? {
+                ...n,
+                data: {
+                  ...n.data,
+                  aiStatus: 'START', // 设置为 START 状态以显示加载动画
+                  errorMessage: undefined, // 清除之前的错误信息
+                },
+              }
+            : n
+        )
+      );
+      // 同步更新到 handleAudioNodeDataChange
+      handleAudioNodeDataChange(nodeId, {
+        errorMessage: undefined,
+      });
+    }
+  }, [setNodes, handleVideoNodeDataChange, handleImageNodeDataChange, handleAudioNodeDataChange]);
+
+  // 执行失败时，清除进度条并显示错误
+  const markNodeRunFailed = useCallback((node: Node, message: string) => {
+    const nodeId = node.id;
+    if (node.type === 'video') {
+      handleVideoNodeDataChange(nodeId, {
+        progress: 0,
+        errorMessage: message,
+      });
+    } else if (node.type === 'image') {
+      handleImageNodeDataChange(nodeId, {
+        progress: 0,
+        errorMessage: message,
+      });
+    } else if (node.type === 'llm') {
+      // LLM 节点执行失败时，清除进度条并显示错误
+      setNodes((nds) =>
+        nds.map((n) =>
+          n.id === nodeId
+            ? {
+                ...n,
+                data: {
+                  ...n.data,
+                  progress: 0,
+                  errorMessage: message,
+                },
+              }
+            : n
+        )
+      );
+    } else if (node.type === 'audio') {
+      // Audio 节点执行失败时，清除状态并显示错误
+      setNodes((nds) =>
+        nds.map((n) =>
+          n.id === nodeId
+            ? {
+                ...n,
+                data: {
+                  ...n.data,
+                  aiStatus: 'ERROR', // 设置为 ERROR 状态
+                  errorMessage: message,
+                },
+              }
+            : n
+        )
+      );
+      handleAudioNodeDataChange(nodeId, {
+        errorMessage: message,
+      });
+    }
+  }, [setNodes, handleVideoNodeDataChange, handleImageNodeDataChange, handleAudioNodeDataChange]);
+
+  // 逐段批量：更新某一段的运行状态
+  const updateFanOutItem = useCallback((nodeId: string, index: number, patch: Partial<FanOutItem>) => {
+    setNodes((nds) =>
+      nds.map((n) => {
+        if (n.id !== nodeId) return n;
+        const items = ((n.data?.fanOutItems as FanOutItem[] | undefined) || []).map((item) =>
+          item.index === index ? { ...item, ...patch } : item
+        );
+        return { ...n, data: { ...n.data, fanOutItems: items } };
+      })
+    );
+  }, [setNodes]);
+
+  // 逐段批量：每段结果记为独立任务（成功与失败都记录）
+  const addFanOutTask = useCallback((node: Node, item: FanOutItem, localPath?: string) => {
+    const taskType: Task['taskType'] = node.type === 'video' ? 'video' : node.type === 'audio' ? 'audio' : 'image';
+    const task: Task = {
+      id: `task-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      nodeId: node.id,
+      nodeTitle: `${node.data?.title || node.type} #${item.index + 1}`,
+      imageUrl: taskType === 'image' ? item.url : undefined,
+      videoUrl: taskType === 'video' ? item.url : undefined,
+      audioUrl: taskType === 'audio' ? item.url : undefined,
+      prompt: item.prompt || '无提示词',
+      ...(node.data?.promptTemplate ? { promptTemplate: String(node.data.promptTemplate) } : {}),
+      createdAt: Date.now(),
+      status: item.status === 'success' ? 'success' : 'error',
+      errorMessage: item.error,
+      taskType,
+      localFilePath: localPath,
+    };
+    setTasks((prev) => [task, ...prev]);
+  }, []);
+
+  /**
+   * 逐段批量运行：对上游文本拆分 / 循环节点的每一项各提交一次任务，结果写入 data.fanOutItems
+   * indices 指定时只重跑这些段（单段重试），其余段保留上次结果
+   * 至少一段成功即视为节点成功，产物取第一段成功的结果供下游使用
+   */
+  const runFanOut = useCallback(async (
+    node: Node,
+    nodesSnapshot: Node[],
+    edgesSnapshot: Edge[],
+    indices?: number[],
+    isStopped?: () => boolean
+  ): Promise<NodeRunResult> => {
+    const nodeId = node.id;
+    const source = getFanOutSource(nodeId, nodesSnapshot, edgesSnapshot);
+    const segments = source?.items ?? [];
+    if (!source || segments.length === 0) {
+      return { status: 'skipped', reason: '上游没有可用的分段' };
+    }
+
+    const previous = (node.data?.fanOutItems as FanOutItem[] | undefined) || [];
+    const targets = (indices ?? segments.map((_, i) => i)).filter((i) => i < segments.length);
+    const items: FanOutItem[] = segments.map((segment, index) => {
+      const prev = previous.find((item) => item.index === index);
+      return !targets.includes(index) && prev ? prev : { index, prompt: segment, status: 'pending' };
+    });
+    setNodes((nds) =>
+      nds.map((n) => (n.id === nodeId ? { ...n, data: { ...n.data, fanOutItems: items, errorMessage: undefined } } : n))
+    );
+    console.log(`[Workspace] 逐段批量 ${nodeId}：运行 ${targets.length}/${segments.length} 段`);
+
+    const outputsByIndex: Record<number, NodeOutputs> = {};
+    let lastLaunchAt = 0;
+    const finish = (index: number, patch: Partial<FanOutItem>) => {
+      items[index] = { ...items[index], ...patch };
+      updateFanOutItem(nodeId, index, patch);
+    };
+
+    const runItem = async (index: number): Promise<void> => {
+      const built = buildFanOutItemNode(node, segments[index], index, nodesSnapshot, edgesSnapshot, source.itemKind);
+      if ('error' in built) {
+        finish(index, { status: 'error', error: built.error });
+        addFanOutTask(node, items[index]);
+        return;
+      }
+      const run = buildNodeRunPayload(built.node, nodesSnapshot, edgesSnapshot);
+      if (!run) {
+        finish(index, { status: 'error', prompt: built.prompt, error: '缺少必要参数' });
+        addFanOutTask(node, items[index]);
+        return;
+      }
 
-        if (isRhartSong) {
-          if (!(nodeData.songName ?? '').trim() || !(nodeData.styleDesc ?? '').trim() || !(nodeData.lyrics ?? '').trim()) {
-            console.warn(`[Workspace] 音频节点 ${nodeId} 全能写歌 缺少歌曲名/风格描述/歌词，跳过`);
-            continue;
-          }
-        } else {
-          if (!nodeData.text?.trim()) {
-            console.warn(`[Workspace] 音频节点 ${nodeId} 缺少文本，跳过`);
-            continue;
-          }
-          if (!isIndexTts2 && !nodeData.voiceId) {
-            console.warn(`[Workspace] 音频节点 ${nodeId} 缺少音色，跳过`);
-            continue;
-          }
-        }
-        // 参考音：优先来自连接的声音节点，否则用节点自身的 referenceAudioUrl
-        let referenceAudioUrl = (nodeData.referenceAudioUrl || '').trim();
-        const audioIncomingEdges = edges.filter((e) => e.target === nodeId);
-        for (const e of audioIncomingEdges) {
-          const srcNode = nodes.find((n) => n.id === e.source);
-          if (srcNode?.type === 'audio') {
-            const ref = (srcNode.data?.originalAudioUrl && String(srcNode.data.originalAudioUrl).startsWith('http'))
-              ? String(srcNode.data.originalAudioUrl)
-              : (srcNode.data?.outputAudio && String(srcNode.data.outputAudio)) || '';
-            if (ref) {
-              referenceAudioUrl = ref;
-              break;
+      // 同时提交的段使用 50ms 间隔错开请求（并发与排队由主进程调度）
+      const now = Date.now();
+      const launchAt = Math.max(now, lastLaunchAt + 50);
+      lastLaunchAt = launchAt;
+      if (launchAt > now) {
+        await new Promise((resolve) => setTimeout(resolve, launchAt - now));
+      }
+      if (isStopped?.()) {
+        finish(index, { status: 'cancelled' });
+        return;
+      }
+
+      finish(index, { status: 'running', prompt: built.prompt, progress: 0, error: undefined, url: undefined });
+      try {
+        const resultPayload = await invokeNodeAndWait(
+          run.modelId,
+          getFanOutItemNodeId(nodeId, index),
+          run.payload,
+          'low',
+          (packet) => {
+            if (typeof packet.payload?.progress === 'number') {
+              updateFanOutItem(nodeId, index, { progress: packet.payload.progress });
             }
           }
+        );
+        const outputs = packetPayloadToOutputs(node.type, resultPayload);
+        outputsByIndex[index] = outputs;
+        finish(index, {
+          status: 'success',
+          progress: 100,
+          url: outputs.outputImage || outputs.outputVideo || outputs.outputAudio,
+        });
+        addFanOutTask(node, items[index], resultPayload?.localPath);
+      } catch (error) {
+        if (error instanceof NodeRunCancelledError) {
+          finish(index, { status: 'cancelled' });
+          return;
         }
-        if (isIndexTts2 && !referenceAudioUrl) {
-          console.warn(`[Workspace] 音频节点 ${nodeId} Index-TTS2.0 缺少参考音，跳过`);
-          continue;
-        }
-        if (referenceAudioUrl.startsWith('local-resource://') || referenceAudioUrl.startsWith('file://')) {
-          referenceAudioUrl = referenceAudioUrl.replace(/%5C/gi, '/').replace(/^local-resource:\/\/+/, 'local-resource://').replace(/^file:\/\/+/, 'file://');
-        }
+        console.error(`[Workspace] 逐段批量 ${nodeId} 第 ${index + 1} 段失败:`, error);
+        finish(index, { status: 'error', error: error instanceof Error ? error.message : '执行失败' });
+        addFanOutTask(node, items[index]);
+      }
+    };
 
-        payload = {
-          model: audioModel,
-          text: (nodeData.text || '').trim(),
-          enable_base64_output: false,
-          english_normalization: false,
-        };
-        if (isRhartSong) {
-          payload.songName = (nodeData.songName ?? '').trim();
-          payload.styleDesc = (nodeData.styleDesc ?? '').trim();
-          payload.lyrics = (nodeData.lyrics ?? '').trim();
-        } else if (isIndexTts2) {
-          payload.referenceAudioUrl = referenceAudioUrl;
-        } else {
-          payload.voice_id = nodeData.voiceId || 'Wise_Woman';
-          payload.speed = nodeData.speed ?? 1;
-          payload.volume = nodeData.volume ?? 1;
-          payload.pitch = nodeData.pitch ?? 0;
-          if (nodeData.emotion) payload.emotion = nodeData.emotion;
-        }
-        if (projectId) payload.projectId = projectId;
-      } else {
-        console.warn(`[Workspace] 不支持的节点类型: ${node.type}，跳过`);
-        continue;
+    await Promise.all(targets.map(runItem));
+
+    const firstSuccess = items.find((item) => item.status === 'success');
+    if (!firstSuccess) {
+      return items.every((item) => item.status === 'cancelled')
+        ? { status: 'cancelled' }
+        : { status: 'error', error: '逐段批量全部失败' };
+    }
+    const outputs = outputsByIndex[firstSuccess.index]
+      ?? packetPayloadToOutputs(node.type, { url: firstSuccess.url });
+    setNodes((nds) => nds.map((n) => (n.id === nodeId ? { ...n, data: { ...n.data, ...outputs } } : n)));
+    return { status: 'success', outputs };
+  }, [setNodes, updateFanOutItem, addFanOutTask, buildNodeRunPayload]);
+
+  // 逐段批量：从输入面板运行全部段
+  const handleFanOutRun = useCallback((nodeId: string) => {
+    const node = latestNodesRef.current.find((n) => n.id === nodeId);
+    if (!node) return;
+    void runFanOut(node, latestNodesRef.current, latestEdgesRef.current);
+  }, [runFanOut]);
+
+  // 逐段批量：画廊中重试单段
+  useEffect(() => {
+    handleFanOutRetryRef.current = (nodeId: string, index: number) => {
+      const node = latestNodesRef.current.find((n) => n.id === nodeId);
+      if (!node) return;
+      void runFanOut(node, latestNodesRef.current, latestEdgesRef.current, [index]);
+    };
+  }, [runFanOut]);
+
+  // 分组：把选中的节点收进一个展开的分组
+  const handleGroupNodes = useCallback((nodeIds: string[]) => {
+    setNodes((nds) => {
+      const group = createGroupNode(nds, nodeIds);
+      return group ? nds.map((n) => ({ ...n, selected: false })).concat({ ...group, selected: true }) : nds;
+    });
+  }, [setNodes]);
+
+  // 分组保存为模块：读取真实节点与连线（折叠时画布上的连线已改接到分组端口）
+  useEffect(() => {
+    handleSaveGroupModuleRef.current = async (groupId: string, name: string) => {
+      if (typeof window.electronAPI?.saveLibraryModule !== 'function') {
+        return { success: false, error: '模块库不可用，请确保运行在 Electron 环境' };
       }
+      const group = latestNodesRef.current.find((n) => n.id === groupId);
+      if (!group) return { success: false, error: '分组不存在' };
+      const module = buildModuleFromGroup(group, latestNodesRef.current, latestEdgesRef.current, name);
+      const res = await window.electronAPI.saveLibraryModule(module);
+      return res.success ? { success: true } : { success: false, error: res.error };
+    };
+  }, []);
 
-      // 批量运行时，立即初始化进度条（确保所有节点都能显示进度）
-      if (node.type === 'video') {
-        // 设置初始进度（1%），确保显示进度条
-        setNodes((nds) =>
-          nds.map((n) =>
-            n.id === nodeId
-              ? {
-                  ...n,
-                  data: {
-                    ...n.data,
-                    progress: 1, // 设置为 1% 以显示进度条
-                    progressMessage: '正在初始化...',
-                    errorMessage: undefined, // 清除之前的错误信息
-                  },
-                }
-              : n
-          )
-        );
-        // 同步更新到 handleVideoNodeDataChange
-        handleVideoNodeDataChange(nodeId, {
-          progress: 1,
-          progressMessage: '正在初始化...',
-          errorMessage: undefined,
-        });
-      } else if (node.type === 'image') {
-        // 图片节点也初始化进度条
-        setNodes((nds) =>
-          nds.map((n) =>
-            n.id === nodeId
-              ? {
-                  ...n,
-                  data: {
-                    ...n.data,
-                    progress: 1,
-                    progressMessage: '正在初始化...',
-                    errorMessage: undefined,
-                  },
-                }
-              : n
-          )
-        );
-        handleImageNodeDataChange(nodeId, {
-          progress: 1,
-          progressMessage: '正在初始化...',
-          errorMessage: undefined,
-        });
-      } else if (node.type === 'llm') {
-        // LLM 节点也初始化进度条
-        setNodes((nds) =>
-          nds.map((n) =>
-            n.id === nodeId
-              ? {
-                  ...n,
-                  data: {
-                    ...n.data,
-                    progress: 1, // 设置为 1% 以显示进度条
-                    progressMessage: '正在初始化模型...',
-                    errorMessage: undefined, // 清除之前的错误信息
-                  },
-                }
-              : n
-          )
-        );
-      } else if (node.type === 'audio') {
-        // Audio 节点也初始化状态
+  // 工作流图执行：按依赖拓扑顺序运行，上游 SUCCESS 后再启动下游，并把上游产物注入下游输入
+  const handleGraphRun = useCallback(async (mode: GraphRunMode, anchorIds: string[] = []) => {
+    if (!window.electronAPI) {
+      return;
+    }
+    if (batchRunInProgress) {
+      return; // 避免重复点击
+    }
+
+    const plan = buildExecutionPlan(latestNodesRef.current, latestEdgesRef.current, mode, anchorIds);
+    if (plan.issues.length > 0) {
+      // 环路与非法连线必须在任何计费请求发出前报告
+      console.warn('[Workspace] 工作流校验未通过:', plan.issues);
+      alert(`无法运行工作流：\n${plan.issues.map((issue) => `· ${issue.message}`).join('\n')}`);
+      return;
+    }
+    if (plan.order.length === 0) {
+      return;
+    }
+
+    setBatchRunInProgress(true);
+    graphRunStopRequestedRef.current = false;
+    console.log('[Workspace] 开始按依赖顺序运行节点:', plan.order, plan.dependencies);
+
+    // 本次运行已产出的结果：叠加到最新节点数据上解析下游输入，不依赖 React 状态的异步刷新
+    const producedOutputs: Record<string, NodeOutputs> = {};
+    let lastLaunchAt = 0;
+
+    const runNode = async (nodeId: string): Promise<NodeRunResult> => {
+      const edgesSnapshot = latestEdgesRef.current;
+      // 循环 / 条件节点按本次运行的上游产物重新计算，再解析下游输入
+      const nodesSnapshot = refreshControlFlowNodes(
+        latestNodesRef.current.map((n) =>
+          producedOutputs[n.id] ? { ...n, data: { ...n.data, ...producedOutputs[n.id] } } : n
+        ),
+        edgesSnapshot
+      );
+      const node = nodesSnapshot.find((n) => n.id === nodeId);
+      if (!node) {
+        return { status: 'skipped', reason: '节点不存在' };
+      }
+
+      const blockingCondition = findBlockingCondition(nodeId, nodesSnapshot, edgesSnapshot);
+      if (blockingCondition) {
+        return { status: 'skipped', reason: `条件「${blockingCondition.data?.title || blockingCondition.id}」未命中该分支` };
+      }
+
+      // 逐段批量：对每个 segment 各运行一次
+      if (isFanOutActive(node, nodesSnapshot, edgesSnapshot)) {
+        const result = await runFanOut(node, nodesSnapshot, edgesSnapshot, undefined, () => graphRunStopRequestedRef.current);
+        if (result.status === 'success') producedOutputs[nodeId] = result.outputs;
+        return result;
+      }
+
+      const resolvedInputs = resolveUpstreamInputs(node, nodesSnapshot, edgesSnapshot);
+      // 提示词模板：按具名上游输入解析，结果覆盖连线拼接的输入（写回节点，任务记录保存解析后的提示词）
+      const template = resolveNodePromptTemplate(node, nodesSnapshot, edgesSnapshot);
+      if (template?.missing.length) {
+        return { status: 'skipped', reason: `未找到模板变量：${template.missing.join('、')}` };
+      }
+      if (template) {
+        resolvedInputs[template.field] = template.text;
+      }
+      const nodeForRun = { ...node, data: { ...node.data, ...resolvedInputs } };
+      if (Object.keys(resolvedInputs).length > 0) {
         setNodes((nds) =>
-          nds.map((n) =>
-            n.id === nodeId
-              ? {
-                  ...n,
-                  data: {
-                    ...n.data,
-                    aiStatus: 'START', // 设置为 START 状态以显示加载动画
-                    errorMessage: undefined, // 清除之前的错误信息
-                  },
-                }
-              : n
-          )
+          nds.map((n) => (n.id === nodeId ? { ...n, data: { ...n.data, ...resolvedInputs } } : n))
         );
-        // 同步更新到 handleAudioNodeDataChange
-        handleAudioNodeDataChange(nodeId, {
-          errorMessage: undefined,
-        });
       }
 
-      // 异步执行，使用 50ms 间隔错开请求，并收集 Promise 以便全部完成后解除“运行中”状态
-      runPromises.push(
-        new Promise<void>((resolve) => {
-          setTimeout(async () => {
-            try {
-              console.log(`[Workspace] 执行节点 ${nodeId} (${node.type}):`, payload);
-              await window.electronAPI.invokeAI({
-                modelId,
-                nodeId,
-                input: payload,
-              });
-            } catch (error) {
-              console.error(`[Workspace] 节点 ${nodeId} 执行失败:`, error);
-              // 执行失败时，清除进度条并显示错误
-              if (node.type === 'video') {
-                handleVideoNodeDataChange(nodeId, {
-                  progress: 0,
-                  errorMessage: error instanceof Error ? error.message : '执行失败',
-                });
-              } else if (node.type === 'image') {
-                handleImageNodeDataChange(nodeId, {
-                  progress: 0,
-                  errorMessage: error instanceof Error ? error.message : '执行失败',
-                });
-              } else if (node.type === 'llm') {
-                // LLM 节点执行失败时，清除进度条并显示错误
-                setNodes((nds) =>
-                  nds.map((n) =>
-                    n.id === nodeId
-                      ? {
-                          ...n,
-                          data: {
-                            ...n.data,
-                            progress: 0,
-                            errorMessage: error instanceof Error ? error.message : '执行失败',
-                          },
-                        }
-                      : n
-                  )
-                );
-              } else if (node.type === 'audio') {
-                // Audio 节点执行失败时，清除状态并显示错误
-                setNodes((nds) =>
-                  nds.map((n) =>
-                    n.id === nodeId
-                      ? {
-                          ...n,
-                          data: {
-                            ...n.data,
-                            aiStatus: 'ERROR', // 设置为 ERROR 状态
-                            errorMessage: error instanceof Error ? error.message : '执行失败',
-                          },
-                        }
-                      : n
-                  )
-                );
-                handleAudioNodeDataChange(nodeId, {
-                  errorMessage: error instanceof Error ? error.message : '执行失败',
-                });
-              }
-            } finally {
-              resolve();
-            }
-          }, i * 50); // 每个请求间隔 50ms
-        })
-      );
-    }
+      const built = buildNodeRunPayload(nodeForRun, nodesSnapshot, edgesSnapshot);
+      if (!built) {
+        return { status: 'skipped', reason: '缺少必要参数' };
+      }
+
+      markNodeRunStarting(nodeForRun);
+
+      // 同时就绪的节点使用 50ms 间隔错开请求
+      const now = Date.now();
+      const launchAt = Math.max(now, lastLaunchAt + 50);
+      lastLaunchAt = launchAt;
+      if (launchAt > now) {
+        await new Promise((resolve) => setTimeout(resolve, launchAt - now));
+      }
+      if (graphRunStopRequestedRef.current) {
+        return { status: 'cancelled' };
+      }
+
+      try {
+        console.log(`[Workspace] 执行节点 ${nodeId} (${node.type}):`, built.payload);
+        const resultPayload = await invokeNodeAndWait(built.modelId, nodeId, built.payload);
+        const outputs = packetPayloadToOutputs(node.type, resultPayload);
+        producedOutputs[nodeId] = outputs;
+        return { status: 'success', outputs };
+      } catch (error) {
+        if (error instanceof NodeRunCancelledError) {
+          console.log(`[Workspace] 节点 ${nodeId} 已取消`);
+          return { status: 'cancelled' };
+        }
+        console.error(`[Workspace] 节点 ${nodeId} 执行失败:`, error);
+        const message = error instanceof Error ? error.message : '执行失败';
+        markNodeRunFailed(node, message);
+        return { status: 'error', error: message };
+      }
+    };
 
     try {
-      await Promise.all(runPromises);
+      const results = await runExecutionPlan(plan, runNode, undefined, () => graphRunStopRequestedRef.current);
+      const notRun = Object.entries(results).filter(([, r]) => r.status === 'skipped');
+      if (notRun.length > 0) {
+        console.warn('[Workspace] 以下节点未运行:', notRun);
+      }
     } finally {
       setBatchRunInProgress(false);
     }
-  }, [nodes, projectId, setNodes, handleVideoNodeDataChange, handleImageNodeDataChange, handleAudioNodeDataChange, batchRunInProgress]);
+  }, [batchRunInProgress, setNodes, buildNodeRunPayload, markNodeRunStarting, markNodeRunFailed, runFanOut]);
+
+  // 批量运行选中节点：同样按依赖顺序执行，选区内的下游会等待上游完成
+  const handleBatchRun = useCallback(async (nodeIds: string[]) => {
+    if (nodeIds.length === 0) {
+      return;
+    }
+    await handleGraphRun('selection', nodeIds);
+  }, [handleGraphRun]);
+
+  // 取消单个节点的运行中任务（主进程中断后推送 CANCELLED 状态）
+  const handleCancelNodeRun = useCallback((nodeId: string) => {
+    if (!window.electronAPI?.cancelAI) return;
+    window.electronAPI.cancelAI(nodeId, projectId).catch((error) => {
+      console.warn(`[Workspace] 取消节点 ${nodeId} 失败:`, error);
+    });
+  }, [projectId]);
+
+  // 停止当前工作流运行：不再启动新节点，并取消所有运行中的任务
+  const handleStopGraphRun = useCallback(() => {
+    graphRunStopRequestedRef.current = true;
+    runningNodeIds.forEach((nodeId) => handleCancelNodeRun(nodeId));
+  }, [runningNodeIds, handleCancelNodeRun]);
+
 
   // 视频生成完成时，创建任务记录并自动保存到本地
   const handleAddVideoTask = useCallback((nodeId: string, videoUrl: string, prompt: string, originalVideoUrl?: string) => {
@@ -4282,6 +4802,7 @@ const Workspace: React.FC<WorkspaceProps> = () => {
         nodeTitle,
         videoUrl,
         prompt: prompt || '无提示词',
+        ...(node.data?.promptTemplate ? { promptTemplate: String(node.data.promptTemplate) } : {}),
         createdAt: Date.now(),
         status: 'success',
         taskType: 'video',
@@ -4364,6 +4885,7 @@ const Workspace: React.FC<WorkspaceProps> = () => {
         nodeTitle,
         audioUrl,
         prompt: prompt || '无提示词',
+        ...(node.data?.promptTemplate ? { promptTemplate: String(node.data.promptTemplate) } : {}),
         createdAt: Date.now(),
         status: 'success',
         taskType: 'audio',
@@ -4435,6 +4957,20 @@ const Workspace: React.FC<WorkspaceProps> = () => {
   // 处理菜单项选择（connectFrom 存在时表示从连线拖到空白处弹出，创建节点后自动连边）
   const handleMenuSelect = useCallback((type: string, position: { x: number; y: number }, connectFrom?: { sourceNodeId: string; sourceHandleId: string | null; handleType: string | null }) => {
     console.log('[Workspace] handleMenuSelect 收到位置:', { type, position, connectFrom });
+
+    // 模块库：插入保存的模块（成员节点 + 组内连线，包在展开的分组中）
+    if (type.startsWith(MODULE_MENU_TYPE_PREFIX)) {
+      const moduleId = type.slice(MODULE_MENU_TYPE_PREFIX.length);
+      setContextMenu(null);
+      void window.electronAPI?.getModuleLibrary?.().then((modules) => {
+        const module = modules.find((m) => m.id === moduleId);
+        if (!module) return;
+        const inserted = instantiateModule(module, position);
+        setNodes((nds) => nds.concat(inserted.nodes));
+        setEdges((eds) => eds.concat(inserted.edges));
+      });
+      return;
+    }
     
     // 根据节点类型确定默认尺寸（LLM 与 Text 模块相同）
     const defaultWidth =
@@ -4454,6 +4990,16 @@ const Workspace: React.FC<WorkspaceProps> = () => {
                     ? 280  // 与 Text 模块相同的初始尺寸
                     : type === 'cameraControl'
                       ? 340
+                      : type === 'foreach'
+                        ? 260
+                        : type === 'condition'
+                          ? 300
+                          : type === 'sequence'
+                            ? 360
+                            : type === 'frameExtract'
+                              ? 300
+                              : type === 'imageEdit'
+                                ? 320
                     : 200;
     const defaultHeight =
       type === 'text'
@@ -4505,16 +5051,18 @@ const Workspace: React.FC<WorkspaceProps> = () => {
                       ? 'audio'
                       : type === 'cameraControl'
                         ? 'cameraControl'
+                        : type === 'foreach' || type === 'condition' || type === 'sequence' || type === 'frameExtract' || type === 'imageEdit'
+                          ? type
                       : 'custom',
       position: adjustedPosition,
       data: {
-        label: type === 'text' ? '文本节点' : type === 'llm' ? '大语言模型' : type === 'textSplit' ? '文本拆分' : type === 'image' ? '图片节点' : type === 'video' ? '视频节点' : type === 'character' ? '角色节点' : type === 'audio' ? '声音节点' : type === 'cameraControl' ? '3D视角控制器' : '声音节点',
+        label: type === 'text' ? '文本节点' : type === 'llm' ? '大语言模型' : type === 'textSplit' ? '文本拆分' : type === 'image' ? '图片节点' : type === 'video' ? '视频节点' : type === 'character' ? '角色节点' : type === 'audio' ? '声音节点' : type === 'cameraControl' ? '3D视角控制器' : type === 'foreach' ? '循环' : type === 'condition' ? '条件分支' : type === 'sequence' ? '序列剪辑' : type === 'frameExtract' ? '抽帧' : type === 'imageEdit' ? '图片编辑' : '声音节点',
         text: type === 'text' ? '' : type === 'audio' ? '' : undefined,
         width: defaultWidth,
         height: defaultHeight,
         isUserResized: false, // 新创建的节点，用户尚未手动调整尺寸
         prompt: type === 'llm' || type === 'image' || type === 'video' ? '' : undefined,
-        title: type === 'llm' ? 'llm' : type === 'image' ? 'image' : type === 'video' ? 'video' : type === 'character' ? 'character' : type === 'audio' ? 'audio' : type === 'textSplit' ? 'textSplit' : type === 'cameraControl' ? '3D视角控制器' : undefined,
+        title: type === 'llm' ? 'llm' : type === 'image' ? 'image' : type === 'video' ? 'video' : type === 'character' ? 'character' : type === 'audio' ? 'audio' : type === 'textSplit' ? 'textSplit' : type === 'cameraControl' ? '3D视角控制器' : type === 'foreach' ? 'foreach' : type === 'condition' ? 'condition' : type === 'sequence' ? 'sequence' : type === 'frameExtract' ? 'frameExtract' : type === 'imageEdit' ? 'imageEdit' : undefined,
         inputText: type === 'textSplit' ? '' : undefined,
         separator: type === 'textSplit' ? '&&&' : undefined,
         trimAndFilterEmpty: type === 'textSplit' ? true : undefined,
@@ -4541,22 +5089,27 @@ const Workspace: React.FC<WorkspaceProps> = () => {
         fov: type === 'cameraControl' ? 45 : undefined,
         cameraControl: type === 'cameraControl' ? { rotationX: 15, rotationY: 35, scale: 3.2, fov: 45 } : undefined,
         inputImage: type === 'cameraControl' ? '' : undefined,
+        source: type === 'foreach' ? 'lines' : undefined,
+        mode: type === 'condition' ? 'keyword' : type === 'frameExtract' ? 'last' : undefined,
+        branches: type === 'condition' ? [{ id: `b${Date.now()}`, label: '分支1', pattern: '' }] : undefined,
+        clips: type === 'sequence' ? [] : undefined,
+        musicVolume: type === 'sequence' ? 0.5 : undefined,
+        count: type === 'frameExtract' ? 4 : undefined,
+        settings: type === 'imageEdit' ? {} : undefined,
       },
     };
 
     const newNodeId = newNode.id;
 
-    // 从 Image 拖线创建 Video 时，预填 inputImages 进入图生视频模式
+    // 从 Image / 抽帧 / 图片编辑拖线创建 Video 时，预填 inputImages 进入图生视频模式
     if (type === 'video' && connectFrom?.sourceNodeId) {
       setNodes((nds) => {
         const sourceNode = nds.find((n) => n.id === connectFrom.sourceNodeId);
-        const imageUrl = sourceNode?.type === 'image'
-          ? ((sourceNode.data?.outputImage as string) || (sourceNode.data?.inputImages as string[])?.[0])
-          : null;
-        if (imageUrl) {
+        const images = sourceNode ? getImagesFromSource(sourceNode).slice(0, 10) : [];
+        if (images.length > 0) {
           const nodeWithInput = {
             ...newNode,
-            data: { ...newNode.data, inputImages: [imageUrl] },
+            data: { ...newNode.data, inputImages: images },
           };
           return nds.concat(nodeWithInput);
         }
@@ -4592,8 +5145,8 @@ const Workspace: React.FC<WorkspaceProps> = () => {
   };
 
   // 根据文件推断节点类型与初始 data
-  const getFileNodeTypeAndData = useCallback((file: File & { path?: string }): { type: string; nodeType: string; extraData: Record<string, unknown> } | null => {
-    const path = (file as File & { path?: string }).path;
+  const getFileNodeTypeAndData = useCallback((file: { name: string; type?: string; path?: string }): { type: string; nodeType: string; extraData: Record<string, unknown> } | null => {
+    const path = file.path;
     const name = (file.name || '').toLowerCase();
     const mime = (file.type || '').toLowerCase();
     const isImage = /\.(png|jpg|jpeg|gif|webp|bmp|svg)$/i.test(name) || mime.startsWith('image/');
@@ -4778,6 +5331,40 @@ const Workspace: React.FC<WorkspaceProps> = () => {
         return;
       }
 
+      // 从素材库拖入：用项目内文件创建节点，并带上生成时的提示词与模型
+      const assetData = event.dataTransfer.getData(ASSET_DRAG_MIME);
+      if (assetData) {
+        let asset: ProjectAsset;
+        try {
+          asset = JSON.parse(assetData);
+        } catch (error) {
+          console.error('解析素材拖放数据失败:', error);
+          return;
+        }
+        const filePath = asset.url.replace(/^local-resource:\/\//, '');
+        const fileInfo = getFileNodeTypeAndData({ name: asset.name, path: filePath });
+        if (!fileInfo) return;
+        const extraData: Record<string, unknown> = { ...fileInfo.extraData };
+        if (asset.prompt && (fileInfo.type === 'image' || fileInfo.type === 'video')) extraData.prompt = asset.prompt;
+        if (asset.model && fileInfo.type !== 'text') extraData.model = asset.model;
+        const nodeId = `${fileInfo.type}-${Date.now()}`;
+        setNodes((nds) =>
+          nds.concat({
+            id: nodeId,
+            type: fileInfo.nodeType as any,
+            position,
+            data: { label: fileInfo.type, ...extraData },
+          })
+        );
+        if (fileInfo.type === 'text') {
+          fetch(asset.url)
+            .then((res) => (res.ok ? res.text() : Promise.reject(new Error(`HTTP ${res.status}`))))
+            .then((text) => setNodes((nds) => nds.map((n) => (n.id === nodeId ? { ...n, data: { ...n.data, text } } : n))))
+            .catch((error) => console.warn('[onDrop] 读取文本素材失败', error));
+        }
+        return;
+      }
+
       // 从左侧边栏拖拽的节点数据
       const transferData = event.dataTransfer.getData('application/reactflow');
       if (!transferData || transferData.trim() === '') return;
@@ -4845,7 +5432,8 @@ const Workspace: React.FC<WorkspaceProps> = () => {
   const onDragOver = useCallback((event: React.DragEvent) => {
     event.preventDefault();
     // 从系统拖入文件时使用 copy，从侧栏拖节点时使用 move
-    event.dataTransfer.dropEffect = event.dataTransfer.types.includes('Files') ? 'copy' : 'move';
+    event.dataTransfer.dropEffect =
+      event.dataTransfer.types.includes('Files') || event.dataTransfer.types.includes(ASSET_DRAG_MIME) ? 'copy' : 'move';
   }, []);
 
   // 防抖引用：记录上次查询时间，防止频繁点击
@@ -4965,6 +5553,54 @@ const Workspace: React.FC<WorkspaceProps> = () => {
   useEffect(() => {
     handleAIStatusUpdateRef.current = (packet: { nodeId: string; status: string; payload?: any }) => {
       if (!packet || !packet.nodeId) return;
+
+      // 记录运行中的节点（用于右键菜单「停止此节点」），终态时移除
+      const isActive = packet.status === 'START' || packet.status === 'PROCESSING';
+      setRunningNodeIds((prev) => {
+        if (prev.has(packet.nodeId) === isActive) return prev;
+        const next = new Set(prev);
+        if (isActive) next.add(packet.nodeId);
+        else next.delete(packet.nodeId);
+        return next;
+      });
+
+      // 重新运行时清除上一次的「已取消」标记与错误分类
+      if (packet.status === 'START') {
+        setNodes((nds) =>
+          nds.some((n) => n.id === packet.nodeId && (n.data?.cancelled || n.data?.errorCode))
+            ? nds.map((n) => (n.id === packet.nodeId ? { ...n, data: { ...n.data, cancelled: undefined, errorCode: undefined } } : n))
+            : nds
+        );
+      }
+
+      // 调度排队：节点显示「排队中 #n」；开始执行或结束后清除排队位置
+      const queuePosition = packet.status === 'PROCESSING' ? packet.payload?.queuePosition : undefined;
+      if (queuePosition) {
+        setNodes((nds) =>
+          nds.map((n) =>
+            n.id === packet.nodeId
+              ? {
+                  ...n,
+                  data: {
+                    ...n.data,
+                    queuePosition,
+                    progress: Math.max(1, n.data?.progress || 0),
+                    progressMessage: `排队中 #${queuePosition}`,
+                  },
+                }
+              : n
+          )
+        );
+        return; // 排队通知不携带其他状态
+      }
+      if (packet.status !== 'PROCESSING') {
+        setNodes((nds) =>
+          nds.some((n) => n.id === packet.nodeId && n.data?.queuePosition)
+            ? nds.map((n) => (n.id === packet.nodeId ? { ...n, data: { ...n.data, queuePosition: undefined } } : n))
+            : nds
+        );
+      }
+
       // 当 AI 调用开始时（START 状态），触发余额查询
       // 注意：实际的余额刷新在主进程的 AICore 中完成，这里只是作为备用
       if (packet.status === 'START') {
@@ -5048,6 +5684,7 @@ const Workspace: React.FC<WorkspaceProps> = () => {
       if (packet.status === 'ERROR' && packet.payload?.error) {
         const nodeId = packet.nodeId;
         const errorMessage = packet.payload.error;
+        const errorCode = packet.payload.errorCode;
         
         // 使用函数式更新，确保基于最新状态
         setNodes((nds) => {
@@ -5068,6 +5705,7 @@ const Workspace: React.FC<WorkspaceProps> = () => {
                     progress: 0, // 停止进度条
                     progressMessage: undefined,
                     errorMessage: errorMessage, // 显示错误信息
+                    errorCode, // 错误分类（节点据此展示充值/修改 Key/修改提示词等操作）
                   },
                 }
               : node
@@ -5079,7 +5717,8 @@ const Workspace: React.FC<WorkspaceProps> = () => {
               handleVideoNodeDataChangeRef.current(nodeId, { 
                 progress: 0, 
                 progressMessage: undefined,
-                errorMessage: errorMessage 
+                errorMessage: errorMessage,
+                errorCode,
               });
             }
           }, 0);
@@ -5092,6 +5731,7 @@ const Workspace: React.FC<WorkspaceProps> = () => {
       if (packet.status === 'ERROR' && packet.payload?.error) {
         const nodeId = packet.nodeId;
         const errorMessage = packet.payload.error;
+        const errorCode = packet.payload.errorCode;
         
         // 使用函数式更新，确保基于最新状态
         setNodes((nds) => {
@@ -5111,6 +5751,7 @@ const Workspace: React.FC<WorkspaceProps> = () => {
                     ...node.data,
                     aiStatus: 'ERROR', // 更新状态为错误，停止加载动画
                     errorMessage: errorMessage, // 显示错误信息
+                    errorCode, // 错误分类（节点据此展示充值/修改 Key/修改提示词等操作）
                   },
                 }
               : node
@@ -5121,7 +5762,8 @@ const Workspace: React.FC<WorkspaceProps> = () => {
             if (handleAudioNodeDataChangeRef.current) {
               handleAudioNodeDataChangeRef.current(nodeId, { 
                 aiStatus: 'ERROR',
-                errorMessage: errorMessage 
+                errorMessage: errorMessage,
+                errorCode,
               });
             }
           }, 0);
@@ -5134,6 +5776,7 @@ const Workspace: React.FC<WorkspaceProps> = () => {
       if (packet.status === 'ERROR' && packet.payload?.error) {
         const nodeId = packet.nodeId;
         const errorMessage = packet.payload.error;
+        const errorCode = packet.payload.errorCode;
         
         // 使用函数式更新，确保基于最新状态
         setNodes((nds) => {
@@ -5154,6 +5797,7 @@ const Workspace: React.FC<WorkspaceProps> = () => {
                     progress: 0, // 停止进度条，中断加载动画
                     progressMessage: undefined,
                     errorMessage: errorMessage, // 显示错误信息
+                    errorCode, // 错误分类（节点据此展示充值/修改 Key/修改提示词等操作）
                   },
                 }
               : node
@@ -5165,7 +5809,8 @@ const Workspace: React.FC<WorkspaceProps> = () => {
               handleImageNodeDataChangeRef.current(nodeId, { 
                 progress: 0, 
                 progressMessage: undefined,
-                errorMessage: errorMessage 
+                errorMessage: errorMessage,
+                errorCode,
               });
             }
           }, 0);
@@ -5178,6 +5823,7 @@ const Workspace: React.FC<WorkspaceProps> = () => {
       if (packet.status === 'ERROR' && packet.payload?.error) {
         const nodeId = packet.nodeId;
         const errorMessage = packet.payload.error;
+        const errorCode = packet.payload.errorCode;
         
         // 使用函数式更新，确保基于最新状态
         setNodes((nds) => {
@@ -5196,6 +5842,7 @@ const Workspace: React.FC<WorkspaceProps> = () => {
                   data: {
                     ...node.data,
                     errorMessage: errorMessage, // 显示错误信息
+                    errorCode, // 错误分类（节点据此展示充值/修改 Key/修改提示词等操作）
                   },
                 }
               : node
@@ -5204,6 +5851,46 @@ const Workspace: React.FC<WorkspaceProps> = () => {
           return updatedNodes;
         });
       }
+
+      // 处理 CANCELLED 状态（用户取消）：停止进度与加载动画，显示「已取消」而非错误信息
+      if (packet.status === 'CANCELLED') {
+        const nodeId = packet.nodeId;
+        const targetNode = latestNodesRef.current.find((n) => n.id === nodeId);
+        if (targetNode && ['video', 'image', 'llm', 'audio', 'minimalistText'].includes(targetNode.type || '')) {
+          console.log(`[Workspace] 节点 ${nodeId} 任务已取消`);
+          setNodes((nds) =>
+            nds.map((node) =>
+              node.id === nodeId
+                ? {
+                    ...node,
+                    data: {
+                      ...node.data,
+                      progress: 0,
+                      progressMessage: undefined,
+                      errorMessage: undefined,
+                      cancelled: true,
+                      ...(node.type === 'audio' ? { aiStatus: 'idle' } : {}),
+                    },
+                  }
+                : node
+            )
+          );
+
+          // 记录已取消任务（与失败任务区分显示）
+          const taskType: Task['taskType'] =
+            targetNode.type === 'video' ? 'video' : targetNode.type === 'audio' ? 'audio' : targetNode.type === 'image' ? 'image' : 'text';
+          const cancelledTask: Task = {
+            id: `task-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+            nodeId,
+            nodeTitle: targetNode.data?.title || targetNode.type || '',
+            prompt: targetNode.data?.prompt || targetNode.data?.inputText || targetNode.data?.text || '',
+            createdAt: Date.now(),
+            status: 'cancelled',
+            taskType,
+          };
+          setTasks((prev) => [cancelledTask, ...prev]);
+        }
+      }
       
       // 处理视频节点的 SUCCESS 状态（批量运行时，未选中的节点没有 VideoInputPanel，需要在这里更新）
       if (packet.status === 'SUCCESS' && (packet.payload?.videoUrl || packet.payload?.url || packet.payload?.data?.results?.[0]?.url)) {
@@ -5709,6 +6396,17 @@ const Workspace: React.FC<WorkspaceProps> = () => {
     }
   }, [projectId, captureProjectCardThumbnail]);
 
+  // 节点错误提示「前往设置」（充值 / 修改 API Key）：先保存项目再跳转，与返回项目列表一致
+  const handleOpenSettings = useCallback(async () => {
+    await saveProjectNow();
+    void persistProjectCardThumbnail(true);
+    navigate('/settings');
+  }, [saveProjectNow, persistProjectCardThumbnail, navigate]);
+
+  useEffect(() => {
+    handleOpenSettingsRef.current = () => void handleOpenSettings();
+  }, [handleOpenSettings]);
+
   useEffect(() => {
     if (cardThumbnailTimerRef.current) {
       clearTimeout(cardThumbnailTimerRef.current);
@@ -5770,6 +6468,40 @@ const Workspace: React.FC<WorkspaceProps> = () => {
               <span>打开项目文件夹</span>
             </button>
           )}
+          {projectId && (
+            <button
+              onClick={() => setShowVersionHistory(true)}
+              className="flex items-center gap-2 px-3 py-1.5 apple-button-secondary rounded-lg text-white/60 hover:text-white transition-all text-sm"
+              title="版本历史：保存版本、对比差异、恢复或分支为新项目"
+            >
+              <History className="w-4 h-4" />
+              <span>版本历史</span>
+            </button>
+          )}
+          {projectId && (
+            <button
+              onClick={() => setShowOperationHistory((v) => !v)}
+              className={`flex items-center gap-2 px-3 py-1.5 apple-button-secondary rounded-lg transition-all text-sm ${
+                showOperationHistory ? 'text-white' : 'text-white/60 hover:text-white'
+              }`}
+              title="操作历史：查看并跳转到任一步操作（Ctrl+Z 撤销 / Ctrl+Y 重做）"
+            >
+              <ListRestart className="w-4 h-4" />
+              <span>操作历史</span>
+            </button>
+          )}
+          {projectId && (
+            <button
+              onClick={() => setShowAssetBrowser((v) => !v)}
+              className={`flex items-center gap-2 px-3 py-1.5 apple-button-secondary rounded-lg transition-all text-sm ${
+                showAssetBrowser ? 'text-white' : 'text-white/60 hover:text-white'
+              }`}
+              title="素材库：浏览项目中的图片、视频、音频与文本，拖到画布创建节点"
+            >
+              <Library className="w-4 h-4" />
+              <span>素材库</span>
+            </button>
+          )}
         </div>
 
         {/* 右侧：API 状态指示灯 */}
@@ -5917,11 +6649,16 @@ const Workspace: React.FC<WorkspaceProps> = () => {
               characterListCollapsed={characterListCollapsed}
               selectedNode={selectedNode}
               onBatchRun={handleBatchRun}
+              onGraphRun={handleGraphRun}
               batchRunInProgress={batchRunInProgress}
+              runningNodeIds={runningNodeIds}
+              onCancelNodeRun={handleCancelNodeRun}
+              onStopGraphRun={handleStopGraphRun}
               setNodes={setNodes}
               setEdges={setEdges}
               flowContentApiRef={flowContentApiRef}
               onPerformanceModeChange={setIsPerformanceMode}
+              onGroupNodes={handleGroupNodes}
             />
           </ReactFlowProvider>
         </div>
@@ -6136,7 +6873,7 @@ const Workspace: React.FC<WorkspaceProps> = () => {
                               isDarkMode ? 'text-white/50 bg-white/10' : 'text-gray-500 bg-gray-100'
                             }`}
                           >
-                            生成中...
+                            {task.status === 'cancelled' ? '已取消' : '生成中...'}
                           </div>
                         )}
                       </div>
@@ -6148,12 +6885,20 @@ const Workspace: React.FC<WorkspaceProps> = () => {
                         }`}>
                           {task.nodeTitle}
                         </div>
-                        <div className={`text-xs line-clamp-2 ${
-                          isDarkMode ? 'text-white/60' : 'text-gray-600'
-                        }`}>
+                        <div
+                          className={`text-xs line-clamp-2 ${
+                            isDarkMode ? 'text-white/60' : 'text-gray-600'
+                          }`}
+                          title={task.promptTemplate ? `模板：${task.promptTemplate}` : undefined}
+                        >
+                          {task.promptTemplate && task.status !== 'error' && task.status !== 'cancelled' && (
+                            <span className="mr-1 px-1 rounded bg-blue-500/80 text-white text-[10px]">模板</span>
+                          )}
                           {task.status === 'error'
                             ? task.errorMessage || '生成失败，请检查提示词或稍后重试'
-                            : task.prompt || '无提示词'}
+                            : task.status === 'cancelled'
+                              ? '任务已取消'
+                              : task.prompt || '无提示词'}
                         </div>
                         <div className="flex items-center justify-between text-xs">
                           <span className={isDarkMode ? 'text-white/50' : 'text-gray-500'}>
@@ -6170,12 +6915,16 @@ const Workspace: React.FC<WorkspaceProps> = () => {
                                 ? isDarkMode
                                   ? 'text-emerald-300/80'
                                   : 'text-emerald-600'
-                                : isDarkMode
-                                  ? 'text-red-300/80'
-                                  : 'text-red-600'
+                                : task.status === 'cancelled'
+                                  ? isDarkMode
+                                    ? 'text-white/40'
+                                    : 'text-gray-400'
+                                  : isDarkMode
+                                    ? 'text-red-300/80'
+                                    : 'text-red-600'
                             }
                           >
-                            {task.status === 'success' ? '已完成' : '生成失败'}
+                            {task.status === 'success' ? '已完成' : task.status === 'cancelled' ? '已取消' : '生成失败'}
                           </span>
                         </div>
                       </div>
@@ -6332,6 +7081,9 @@ const Workspace: React.FC<WorkspaceProps> = () => {
             <LLMInputPanel
               nodeId={llmInputPanelData.nodeId}
               isDarkMode={isDarkMode}
+              promptTemplate={selectedPromptTemplate}
+              templateVariables={selectedTemplateVariables}
+              onPromptTemplateChange={(value) => handlePromptTemplateChange(llmInputPanelData.nodeId, value)}
               inputText={llmInputPanelData.inputText}
               userInput={llmInputPanelData.userInput}
               isImageReverseMode={llmInputPanelData.isImageReverseMode}
@@ -6347,6 +7099,18 @@ const Workspace: React.FC<WorkspaceProps> = () => {
                 );
                 setLlmInputPanelData({ ...llmInputPanelData, reverseCaptionModel: value });
               }}
+              endpointId={llmInputPanelData.endpointId}
+              endpointModel={llmInputPanelData.endpointModel}
+              onEndpointChange={(endpointId, endpointModel) => {
+                setNodes((nds) =>
+                  nds.map((node) =>
+                    node.id === llmInputPanelData.nodeId
+                      ? { ...node, data: { ...node.data, endpointId, endpointModel } }
+                      : node
+                  )
+                );
+                setLlmInputPanelData({ ...llmInputPanelData, endpointId, endpointModel });
+              }}
               isInputLocked={llmInputPanelData.isInputLocked}
               savedPrompts={llmInputPanelData.savedPrompts}
               projectId={projectId}
@@ -6453,15 +7217,29 @@ const Workspace: React.FC<WorkspaceProps> = () => {
             <ImageInputPanel
               nodeId={imageInputPanelData.nodeId}
               isDarkMode={isDarkMode}
+              promptTemplate={selectedPromptTemplate}
+              templateVariables={selectedTemplateVariables}
+              onPromptTemplateChange={(value) => handlePromptTemplateChange(imageInputPanelData.nodeId, value)}
+              fanOutSegmentCount={selectedFanOutSegmentCount}
+              fanOutEnabled={selectedFanOutEnabled}
+              fanOutLocked={selectedFanOutLocked}
+              fanOutRunning={selectedFanOutRunning}
+              onFanOutToggle={(enabled) => handleFanOutToggle(imageInputPanelData.nodeId, enabled)}
+              onFanOutRun={() => handleFanOutRun(imageInputPanelData.nodeId)}
               prompt={imageInputPanelData.prompt}
               resolution={imageInputPanelData.resolution}
               aspectRatio={imageInputPanelData.aspectRatio}
               model={imageInputPanelData.model}
               seedreamWidth={Math.max(1024, Math.min(4096, imageInputPanelData.seedreamWidth ?? 2048))}
               seedreamHeight={Math.max(1024, Math.min(4096, imageInputPanelData.seedreamHeight ?? 2048))}
-              isConnected={edges.some((e) => e.target === imageInputPanelData.nodeId && nodes.find((n) => n.id === e.source)?.type === 'image')}
+              isConnected={edges.some((e) => e.target === imageInputPanelData.nodeId && IMAGE_SOURCE_TYPES.includes(nodes.find((n) => n.id === e.source)?.type || ''))}
               inputImages={imageInputPanelData.inputImages || []}
               projectId={projectId}
+              inpaintSource={getInpaintSource(selectedNode.data?.outputImage ? formatImagePathSync(selectedNode.data.outputImage) : undefined, selectedNode.data)}
+              onMaskExported={(maskUrl) => {
+                const targetNodeId = imageInputPanelData.nodeId;
+                setNodes((nds) => nds.map((node) => (node.id === targetNodeId ? { ...node, data: { ...node.data, maskImage: maskUrl } } : node)));
+              }}
               onSeedreamWidthChange={(value) => {
                 setNodes((nds) =>
                   nds.map((node) =>
@@ -6593,6 +7371,15 @@ const Workspace: React.FC<WorkspaceProps> = () => {
             <VideoInputPanel
               nodeId={videoInputPanelData.nodeId}
               isDarkMode={isDarkMode}
+              promptTemplate={selectedPromptTemplate}
+              templateVariables={selectedTemplateVariables}
+              onPromptTemplateChange={(value) => handlePromptTemplateChange(videoInputPanelData.nodeId, value)}
+              fanOutSegmentCount={selectedFanOutSegmentCount}
+              fanOutEnabled={selectedFanOutEnabled}
+              fanOutLocked={selectedFanOutLocked}
+              fanOutRunning={selectedFanOutRunning}
+              onFanOutToggle={(enabled) => handleFanOutToggle(videoInputPanelData.nodeId, enabled)}
+              onFanOutRun={() => handleFanOutRun(videoInputPanelData.nodeId)}
               prompt={videoInputPanelData.prompt}
               aspectRatio={videoInputPanelData.aspectRatio}
               model={videoInputPanelData.model}
@@ -7310,6 +8097,15 @@ const Workspace: React.FC<WorkspaceProps> = () => {
             <AudioInputPanel
               nodeId={audioInputPanelData.nodeId}
               isDarkMode={isDarkMode}
+              promptTemplate={selectedPromptTemplate}
+              templateVariables={selectedTemplateVariables}
+              onPromptTemplateChange={(value) => handlePromptTemplateChange(audioInputPanelData.nodeId, value)}
+              fanOutSegmentCount={selectedFanOutSegmentCount}
+              fanOutEnabled={selectedFanOutEnabled}
+              fanOutLocked={selectedFanOutLocked}
+              fanOutRunning={selectedFanOutRunning}
+              onFanOutToggle={(enabled) => handleFanOutToggle(audioInputPanelData.nodeId, enabled)}
+              onFanOutRun={() => handleFanOutRun(audioInputPanelData.nodeId)}
               text={audioInputPanelData.text}
               model={audioInputPanelData.model || 'speech-2.8-hd'}
               voiceId={audioInputPanelData.voiceId}
@@ -7518,7 +8314,51 @@ const Workspace: React.FC<WorkspaceProps> = () => {
           } opacity-50 hover:opacity-100 transition-opacity`} />
         </div>
 
+        {projectRecovery && projectId && (
+          <ProjectRecoveryDialog
+            projectId={projectId}
+            reason={projectRecovery.reason}
+            backups={projectRecovery.backups}
+            onRestored={() => {
+              setProjectRecovery(null);
+              // 恢复的内容不作为一次操作记录
+              historyBaseRef.current = null;
+              setProjectLoadToken((t) => t + 1);
+            }}
+            onDismiss={() => setProjectRecovery(null)}
+          />
+        )}
+        {showAssetBrowser && projectId && (
+          <AssetBrowserPanel projectId={projectId} nodes={nodes as Node[]} onClose={() => setShowAssetBrowser(false)} />
+        )}
+        {showOperationHistory && (
+          <OperationHistoryPanel
+            entries={historyView.entries}
+            index={historyView.index}
+            onJump={jumpToHistory}
+            onUndo={handleUndo}
+            onRedo={handleRedo}
+            onClear={handleClearHistory}
+            onClose={() => setShowOperationHistory(false)}
+          />
+        )}
         {/* ESC 退出确认弹窗（深色系） */}
+        {showVersionHistory && projectId && (
+          <VersionHistoryPanel
+            projectId={projectId}
+            currentNodes={nodes as Node[]}
+            currentEdges={edges as Edge[]}
+            autoSnapshotMinutes={autoSnapshotMinutes}
+            onAutoSnapshotMinutesChange={handleAutoSnapshotMinutesChange}
+            onCreateVersion={(note) => createVersionSnapshot({ note })}
+            onRestore={handleRestoreVersion}
+            onBranched={(project) => {
+              setShowVersionHistory(false);
+              void saveProjectNow().then(() => navigate(`/workspace/${project.id}`));
+            }}
+            onClose={() => setShowVersionHistory(false)}
+          />
+        )}
         {showExitConfirm && (
           <div className="fixed inset-0 z-[120] bg-black/55 backdrop-blur-sm flex items-center justify-center">
             <div className="w-[340px] rounded-2xl border border-white/10 bg-zinc-900/95 p-5 shadow-2xl">
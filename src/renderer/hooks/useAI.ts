@@ -4,11 +4,17 @@
  */
 
 import { useState, useCallback, useRef, useEffect } from 'react';
+import { useParams } from 'react-router-dom';
 
 /**
  * AI 状态类型
  */
-export type AIStatus = 'idle' | 'START' | 'PROCESSING' | 'SUCCESS' | 'ERROR';
+export type AIStatus = 'idle' | 'START' | 'PROCESSING' | 'SUCCESS' | 'ERROR' | 'CANCELLED';
+
+/**
+ * 错误分类码（与主进程 AIErrorCode 一致）
+ */
+export type AIErrorCode = 'RETRYABLE' | 'CONTENT_POLICY' | 'AUTH' | 'INSUFFICIENT_BALANCE' | 'UNKNOWN';
 
 /**
  * AI 状态数据包
@@ -18,12 +24,14 @@ export interface AIStatusPacket {
   status: AIStatus;
   payload?: {
     text?: string;
+    delta?: string; // 流式输出的文本增量（PROCESSING）
     url?: string;
     imageUrl?: string;
     videoUrl?: string;
     localPath?: string; // 本地文件路径（自动下载后）
     progress?: number;
     error?: string;
+    errorCode?: AIErrorCode; // 错误分类：RETRYABLE / CONTENT_POLICY / AUTH / INSUFFICIENT_BALANCE / UNKNOWN
     taskId?: string;
   };
 }
@@ -60,6 +68,8 @@ export interface UseAIReturn {
  */
 export const useAI = (options: UseAIOptions): UseAIReturn => {
   const { nodeId, modelId, onStatusUpdate, onComplete, onError } = options;
+  // 当前项目 ID：节点 ID 在不同项目间可能重复，主进程按项目 + 节点区分任务
+  const { projectId } = useParams<{ projectId: string }>();
   
   const [status, setStatus] = useState<AIStatus>('idle');
   const [payload, setPayload] = useState<AIStatusPacket['payload'] | null>(null);
@@ -332,8 +342,8 @@ export const useAI = (options: UseAIOptions): UseAIReturn => {
 
       // 正常状态更新（使用函数式更新，避免闭包问题）
       setStatus((prev) => {
-        // 如果状态已经是 ERROR 或 SUCCESS，且新状态是 START，允许更新（用于重新生成）
-        if ((prev === 'ERROR' || prev === 'SUCCESS') && packet.status === 'START') {
+        // 如果状态已经是 ERROR、SUCCESS 或 CANCELLED，且新状态是 START，允许更新（用于重新生成）
+        if ((prev === 'ERROR' || prev === 'SUCCESS' || prev === 'CANCELLED') && packet.status === 'START') {
           return packet.status;
         }
         // 如果状态已经是 SUCCESS，且新状态也是 SUCCESS，允许更新（可能包含新的数据）
@@ -344,8 +354,8 @@ export const useAI = (options: UseAIOptions): UseAIReturn => {
         if (packet.status === 'START' || packet.status === 'PROCESSING') {
           return packet.status;
         }
-        // 如果状态已经是 ERROR 或 SUCCESS，且新状态不是 START 或 SUCCESS，不再更新
-        if (prev === 'ERROR' || prev === 'SUCCESS') {
+        // 如果状态已经是 ERROR、SUCCESS 或 CANCELLED，且新状态不是 START 或 SUCCESS，不再更新
+        if (prev === 'ERROR' || prev === 'SUCCESS' || prev === 'CANCELLED') {
           return prev;
         }
         return packet.status;
@@ -489,7 +499,9 @@ export const useAI = (options: UseAIOptions): UseAIReturn => {
       await window.electronAPI.invokeAI({
         modelId,
         nodeId: (nodeId != null ? String(nodeId).trim() : ''),
+        projectId: input?.projectId ?? projectId,
         input,
+        priority: 'high', // 单次交互运行优先于批量/工作流任务调度
       });
       // 成功调用后，状态更新会通过 onStatus 回调传递，这里不需要检查返回值
     } catch (error) {
@@ -506,13 +518,17 @@ export const useAI = (options: UseAIOptions): UseAIReturn => {
 
       // 不再向外抛出，避免控制台出现 Uncaught (in promise) 等干扰性错误
     }
-  }, [modelId, nodeId]);
+  }, [modelId, nodeId, projectId]);
 
-  // 取消 AI 调用（当前版本仅重置状态，未来可扩展为真正的取消）
+  // 取消 AI 调用：通知主进程中断任务，主进程随后会推送 CANCELLED 状态
   const cancel = useCallback(() => {
-    setStatus('idle');
+    setStatus('CANCELLED');
     setPayload(null);
-  }, []);
+    if (!window.electronAPI?.cancelAI) return;
+    window.electronAPI.cancelAI(String(nodeId || '').trim(), projectId).catch((error) => {
+      console.warn(`[useAI] 取消任务失败: nodeId=${nodeId}`, error);
+    });
+  }, [nodeId, projectId]);
 
   return {
     status,
@@ -14,6 +14,11 @@ export const MENU_TYPE_TO_NODE_TYPE: Record<string, string> = {
   character: 'character',
   audio: 'audio',
   cameraControl: 'cameraControl',
+  foreach: 'foreach',
+  condition: 'condition',
+  sequence: 'sequence',
+  frameExtract: 'frameExtract',
+  imageEdit: 'imageEdit',
 };
 
 export const NODE_TYPE_TO_MENU_TYPE: Record<string, string> = {
@@ -25,32 +30,47 @@ export const NODE_TYPE_TO_MENU_TYPE: Record<string, string> = {
   character: 'character',
   audio: 'audio',
   cameraControl: 'cameraControl',
+  foreach: 'foreach',
+  condition: 'condition',
+  sequence: 'sequence',
+  frameExtract: 'frameExtract',
+  imageEdit: 'imageEdit',
 };
 
 /** 从源节点类型看：不能作为“新建目标”的菜单类型（拖线创建菜单中要隐藏） */
 const FORBIDDEN_TARGET_MENU_TYPES_BY_SOURCE: Record<string, string[]> = {
-  text: ['text', 'character', 'cameraControl'], // text 不能接入 text
-  minimalistText: ['text', 'character', 'cameraControl'],
-  llm: ['text', 'character', 'cameraControl'],
-  textSplit: ['text', 'character', 'cameraControl'],
-  image: ['text', 'textSplit', 'character', 'audio'],
-  video: ['text', 'image', 'llm', 'textSplit', 'audio', 'cameraControl'], // video 不能接入 llm、文本拆分、声音
-  character: ['text', 'llm', 'textSplit', 'image', 'video', 'character', 'audio', 'cameraControl'], // 角色无输出节点，拖出时不展示任何创建项
-  audio: ['text', 'llm', 'textSplit', 'image', 'character', 'cameraControl'],
-  cameraControl: ['text', 'llm', 'textSplit', 'video', 'character', 'audio', 'cameraControl'], // 3D 只能接入图片，不能接入 3D
+  text: ['text', 'character', 'cameraControl', 'sequence', 'frameExtract', 'imageEdit'], // text 不能接入 text
+  minimalistText: ['text', 'character', 'cameraControl', 'sequence', 'frameExtract', 'imageEdit'],
+  llm: ['text', 'character', 'cameraControl', 'sequence', 'frameExtract', 'imageEdit'],
+  textSplit: ['text', 'character', 'cameraControl', 'sequence', 'frameExtract', 'imageEdit'],
+  image: ['text', 'textSplit', 'character', 'audio', 'foreach', 'condition', 'sequence', 'frameExtract'],
+  video: ['text', 'image', 'llm', 'textSplit', 'audio', 'cameraControl', 'foreach', 'condition', 'imageEdit'], // video 不能接入 llm、文本拆分、声音
+  character: ['text', 'llm', 'textSplit', 'image', 'video', 'character', 'audio', 'cameraControl', 'foreach', 'condition', 'sequence', 'frameExtract', 'imageEdit'], // 角色无输出节点，拖出时不展示任何创建项
+  audio: ['text', 'llm', 'textSplit', 'image', 'character', 'cameraControl', 'foreach', 'condition', 'frameExtract', 'imageEdit'],
+  cameraControl: ['text', 'llm', 'textSplit', 'video', 'character', 'audio', 'cameraControl', 'foreach', 'condition', 'sequence', 'frameExtract', 'imageEdit'], // 3D 只能接入图片，不能接入 3D
+  foreach: ['text', 'textSplit', 'character', 'cameraControl', 'foreach', 'condition', 'sequence', 'frameExtract', 'imageEdit'], // 循环只驱动逐项运行的节点与 LLM
+  condition: ['text', 'character', 'cameraControl', 'sequence', 'frameExtract', 'imageEdit'],
+  sequence: ['text', 'llm', 'textSplit', 'image', 'video', 'character', 'audio', 'cameraControl', 'foreach', 'condition', 'imageEdit'], // 序列成片只能继续拼接到序列或抽帧
+  frameExtract: ['text', 'llm', 'textSplit', 'character', 'audio', 'cameraControl', 'foreach', 'condition', 'sequence', 'frameExtract'], // 抽帧只能接入图片、视频、图片编辑
+  imageEdit: ['text', 'llm', 'textSplit', 'character', 'audio', 'cameraControl', 'foreach', 'condition', 'sequence', 'frameExtract'], // 编辑结果只能接入图片、视频、图片编辑
 };
 
 /** 从源节点类型看：不能连到的目标节点 type（用于 isValidConnection） */
 const FORBIDDEN_TARGET_NODE_TYPES_BY_SOURCE: Record<string, string[]> = {
-  minimalistText: ['minimalistText', 'character', 'cameraControl'], // text 不能接入 text
-  text: ['minimalistText', 'character', 'cameraControl'],
-  llm: ['minimalistText', 'character', 'cameraControl'],
-  textSplit: ['minimalistText', 'character', 'cameraControl'],
-  image: ['minimalistText', 'textSplit', 'character', 'audio'],
-  video: ['minimalistText', 'image', 'llm', 'textSplit', 'audio', 'cameraControl'], // video 不能接入 llm、文本拆分、声音
-  character: ['minimalistText', 'llm', 'textSplit', 'image', 'video', 'character', 'audio', 'cameraControl'], // 角色无输出
-  audio: ['minimalistText', 'llm', 'textSplit', 'image', 'character', 'cameraControl'],
-  cameraControl: ['minimalistText', 'llm', 'textSplit', 'video', 'character', 'audio', 'cameraControl'], // 3D 不能接入 3D
+  minimalistText: ['minimalistText', 'character', 'cameraControl', 'sequence', 'frameExtract', 'imageEdit'], // text 不能接入 text
+  text: ['minimalistText', 'character', 'cameraControl', 'sequence', 'frameExtract', 'imageEdit'],
+  llm: ['minimalistText', 'character', 'cameraControl', 'sequence', 'frameExtract', 'imageEdit'],
+  textSplit: ['minimalistText', 'character', 'cameraControl', 'sequence', 'frameExtract', 'imageEdit'],
+  image: ['minimalistText', 'textSplit', 'character', 'audio', 'foreach', 'condition', 'sequence', 'frameExtract'],
+  video: ['minimalistText', 'image', 'llm', 'textSplit', 'audio', 'cameraControl', 'foreach', 'condition', 'imageEdit'], // video 不能接入 llm、文本拆分、声音
+  character: ['minimalistText', 'llm', 'textSplit', 'image', 'video', 'character', 'audio', 'cameraControl', 'foreach', 'condition', 'sequence', 'frameExtract', 'imageEdit'], // 角色无输出
+  audio: ['minimalistText', 'llm', 'textSplit', 'image', 'character', 'cameraControl', 'foreach', 'condition', 'frameExtract', 'imageEdit'],
+  cameraControl: ['minimalistText', 'llm', 'textSplit', 'video', 'character', 'audio', 'cameraControl', 'foreach', 'condition', 'sequence', 'frameExtract', 'imageEdit'], // 3D 不能接入 3D
+  foreach: ['minimalistText', 'textSplit', 'character', 'cameraControl', 'foreach', 'condition', 'sequence', 'frameExtract', 'imageEdit'], // 循环只驱动逐项运行的节点与 LLM
+  condition: ['minimalistText', 'character', 'cameraControl', 'sequence', 'frameExtract', 'imageEdit'],
+  sequence: ['minimalistText', 'llm', 'textSplit', 'image', 'video', 'character', 'audio', 'cameraControl', 'foreach', 'condition', 'imageEdit'], // 序列成片只能继续拼接到序列或抽帧
+  frameExtract: ['minimalistText', 'llm', 'textSplit', 'character', 'audio', 'cameraControl', 'foreach', 'condition', 'sequence', 'frameExtract'], // 抽帧只能接入图片、视频、图片编辑
+  imageEdit: ['minimalistText', 'llm', 'textSplit', 'character', 'audio', 'cameraControl', 'foreach', 'condition', 'sequence', 'frameExtract'], // 编辑结果只能接入图片、视频、图片编辑
 };
 
 /** 角色节点：已去除输出节点，不允许从角色连出 */
@@ -59,7 +79,7 @@ const CHARACTER_OUTPUT_ALLOWED_TARGETS: string[] = [];
 /** 3D 视角控制器：输出只能连到 image */
 const CAMERA_CONTROL_OUTPUT_ALLOWED_TARGETS = ['image'];
 
-const ALL_MENU_TYPES = ['text', 'llm', 'textSplit', 'image', 'video', 'character', 'audio', 'cameraControl'];
+const ALL_MENU_TYPES = ['text', 'llm', 'textSplit', 'image', 'video', 'character', 'audio', 'cameraControl', 'foreach', 'condition', 'sequence', 'frameExtract', 'imageEdit'];
 
 /**
  * 拖线创建菜单：根据源节点 type 返回禁止出现的菜单类型（菜单项中要隐藏）
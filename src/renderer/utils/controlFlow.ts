@@ -0,0 +1,212 @@
+/**
+ * 流程控制节点：循环（Foreach）与条件分支（Condition）
+ * - Foreach：把列表（文本逐行、文本拆分的全部 segments、文件夹中的图片）交给下游图片 / 视频 / 声音节点逐项运行（复用逐段批量）
+ * - Condition：按正则、关键词或 LLM 分类结果选择一个分支，只有命中分支的输出把手向下游透传输入文本
+ * - 两者都不调用 AI，运行时由 refreshControlFlowNodes 按最新上游数据重新计算；未命中分支下游的节点在批量运行中跳过
+ */
+
+import type { Node, Edge } from 'reactflow';
+import { TEXT_SOURCE_TYPES, getTextFromSource, isRunnableNodeType } from './graphExecutor';
+
+export const CONTROL_NODE_TYPES = ['foreach', 'condition'];
+
+export const isControlNodeType = (type: string | undefined): boolean =>
+  !!type && CONTROL_NODE_TYPES.includes(type);
+
+/** Foreach 列表来源：文本逐行（或上游文本拆分的 segments）/ 图片文件夹 */
+export type ForeachSource = 'lines' | 'folder';
+
+export type ForeachItemKind = 'text' | 'image';
+
+export interface ForeachItems {
+  items: string[];
+  kind: ForeachItemKind;
+}
+
+/** Condition 匹配方式：正则 / 关键词（任一命中）/ LLM 分类答案（与分支名称匹配） */
+export type ConditionMode = 'regex' | 'keyword' | 'llm';
+
+export interface ConditionBranch {
+  id: string;
+  /** 分支名称；LLM 分类模式下即类别名 */
+  label: string;
+  /** 正则表达式或关键词（逗号、竖线分隔）；LLM 分类模式不使用 */
+  pattern: string;
+}
+
+/** 所有分支均未命中时走默认分支 */
+export const CONDITION_DEFAULT_BRANCH = 'default';
+
+/** 条件节点单个分支的输出把手 ID */
+export const getConditionBranchHandle = (branchId: string | undefined): string =>
+  `branch-${branchId || CONDITION_DEFAULT_BRANCH}`;
+
+const splitLines = (text: string): string[] =>
+  text.split(/\r?\n/).map((line) => line.trim()).filter(Boolean);
+
+/**
+ * 计算 Foreach 节点的列表：文件夹模式取已选图片；否则优先取上游文本拆分的全部 segments，
+ * 其次把上游文本按行拆分，未连接时使用节点自身输入的文本
+ */
+export function getForeachItems(node: Node, nodes: Node[], edges: Edge[]): ForeachItems {
+  if ((node.data?.source as ForeachSource | undefined) === 'folder') {
+    return { items: ((node.data?.folderImages as string[] | undefined) || []).filter(Boolean), kind: 'image' };
+  }
+
+  const nodeById = new Map(nodes.map((n) => [n.id, n]));
+  const incoming = edges.filter((e) => e.target === node.id);
+  const splitSource = incoming.map((e) => nodeById.get(e.source)).find((src) => src?.type === 'textSplit');
+  if (splitSource) {
+    const segments = (splitSource.data?.segments as (string | number | boolean)[] | undefined) || [];
+    return { items: segments.map((seg) => String(seg).trim()).filter(Boolean), kind: 'text' };
+  }
+
+  const textParts: string[] = [];
+  incoming.forEach((e) => {
+    const src = nodeById.get(e.source);
+    if (!src || !TEXT_SOURCE_TYPES.includes(src.type || '')) return;
+    const text = getTextFromSource(src, e);
+    if (text) textParts.push(text);
+  });
+  if (textParts.length > 0) {
+    return { items: textParts.flatMap(splitLines), kind: 'text' };
+  }
+  return { items: splitLines(String(node.data?.text || '')), kind: 'text' };
+}
+
+/** 条件节点的输入文本：全部文本类入边按顺序换行拼接 */
+export function getConditionInputText(nodeId: string, nodes: Node[], edges: Edge[]): string {
+  const nodeById = new Map(nodes.map((n) => [n.id, n]));
+  return edges
+    .filter((e) => e.target === nodeId)
+    .map((e) => {
+      const src = nodeById.get(e.source);
+      return src && TEXT_SOURCE_TYPES.includes(src.type || '') ? getTextFromSource(src, e) : '';
+    })
+    .filter(Boolean)
+    .join('\n');
+}
+
+/** 正则无法编译时返回错误信息（用于节点内提示） */
+export function getRegexError(pattern: string): string | null {
+  if (!pattern.trim()) return null;
+  try {
+    new RegExp(pattern, 'i');
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : '正则表达式无效';
+  }
+}
+
+const normalizeAnswer = (text: string): string =>
+  text.trim().toLowerCase().replace(/^["'“”「『]+|["'“”」』。.!！]+$/g, '').trim();
+
+const matchesBranch = (mode: ConditionMode, branch: ConditionBranch, text: string): boolean => {
+  if (mode === 'regex') {
+    if (!branch.pattern.trim() || getRegexError(branch.pattern)) return false;
+    return new RegExp(branch.pattern, 'i').test(text);
+  }
+  if (mode === 'keyword') {
+    const keywords = branch.pattern.split(/[,，|｜]/).map((k) => k.trim().toLowerCase()).filter(Boolean);
+    const lower = text.toLowerCase();
+    return keywords.some((k) => lower.includes(k));
+  }
+  // LLM 分类：答案与分支名称一致，或答案中包含分支名称
+  const label = normalizeAnswer(branch.label);
+  const answer = normalizeAnswer(text);
+  return !!label && (answer === label || answer.includes(label));
+};
+
+/**
+ * 按顺序匹配分支，返回第一个命中的分支 ID；输入为空或都未命中时返回默认分支
+ * LLM 分类模式优先完全一致的分支，避免「猫」被「猫头鹰」之前的分支抢先命中
+ */
+export function evaluateCondition(mode: ConditionMode, branches: ConditionBranch[], text: string): string {
+  if (!text.trim()) return CONDITION_DEFAULT_BRANCH;
+  if (mode === 'llm') {
+    const exact = branches.find((b) => normalizeAnswer(b.label) && normalizeAnswer(b.label) === normalizeAnswer(text));
+    if (exact) return exact.id;
+  }
+  return branches.find((b) => matchesBranch(mode, b, text))?.id ?? CONDITION_DEFAULT_BRANCH;
+}
+
+/** 控制节点需写回 data 的计算结果 */
+export function computeControlNodeData(node: Node, nodes: Node[], edges: Edge[]): Record<string, any> {
+  if (node.type === 'foreach') {
+    const { items, kind } = getForeachItems(node, nodes, edges);
+    return { items, itemKind: kind };
+  }
+  if (node.type === 'condition') {
+    const inputText = getConditionInputText(node.id, nodes, edges);
+    const mode = (node.data?.mode as ConditionMode | undefined) || 'keyword';
+    const branches = (node.data?.branches as ConditionBranch[] | undefined) || [];
+    return { inputText, matchedBranch: evaluateCondition(mode, branches, inputText) };
+  }
+  return {};
+}
+
+/**
+ * 按最新上游数据重新计算全部控制节点（条件可串联，迭代至稳定）
+ * 批量运行时上游产物尚未经过 React 刷新，需在解析下游输入前调用
+ */
+export function refreshControlFlowNodes(nodes: Node[], edges: Edge[]): Node[] {
+  const controlCount = nodes.filter((n) => isControlNodeType(n.type)).length;
+  let current = nodes;
+  for (let pass = 0; pass < controlCount; pass++) {
+    let changed = false;
+    const snapshot = current;
+    current = snapshot.map((n) => {
+      if (!isControlNodeType(n.type)) return n;
+      const updates = computeControlNodeData(n, snapshot, edges);
+      const isSame = Object.keys(updates).every((key) => JSON.stringify(n.data?.[key]) === JSON.stringify(updates[key]));
+      if (isSame) return n;
+      changed = true;
+      return { ...n, data: { ...n.data, ...updates } };
+    });
+    if (!changed) break;
+  }
+  return current;
+}
+
+/**
+ * 找出使节点不应运行的条件节点：节点的输入经由条件分支而来，且所有这些分支都未命中时返回该条件节点
+ * 沿入边穿过不调用 AI 的透传节点（文本拆分、Foreach）向上查找；命中的分支继续检查条件节点自身是否被上游条件拦截
+ */
+export function findBlockingCondition(nodeId: string, nodes: Node[], edges: Edge[]): Node | null {
+  const nodeById = new Map(nodes.map((n) => [n.id, n]));
+  const seen = new Set<string>([nodeId]);
+
+  const visit = (id: string): Node | null => {
+    const incoming = edges.filter((e) => e.target === id);
+    const conditionEdges = incoming.filter((e) => nodeById.get(e.source)?.type === 'condition');
+
+    if (conditionEdges.length === 0) {
+      for (const e of incoming) {
+        const src = nodeById.get(e.source);
+        if (!src || isRunnableNodeType(src.type) || seen.has(src.id)) continue;
+        seen.add(src.id);
+        const blocking = visit(src.id);
+        if (blocking) return blocking;
+      }
+      return null;
+    }
+
+    let firstBlocking: Node | null = null;
+    for (const e of conditionEdges) {
+      const condition = nodeById.get(e.source)!;
+      if (e.sourceHandle !== getConditionBranchHandle(condition.data?.matchedBranch)) {
+        firstBlocking ??= condition;
+        continue;
+      }
+      if (seen.has(condition.id)) return null;
+      seen.add(condition.id);
+      const upstream = visit(condition.id);
+      // 至少一条命中的分支可达即可运行
+      if (!upstream) return null;
+      firstBlocking ??= upstream;
+    }
+    return firstBlocking;
+  };
+
+  return visit(nodeId);
+}
@@ -0,0 +1,128 @@
+/**
+ * 逐段批量（fan-out）
+ * - 图片 / 视频 / 声音节点连接文本拆分节点后可开启「逐段批量」，单个节点对每个 segment 各运行一次
+ * - 连接循环（Foreach）节点时自动逐项运行；列表为图片时作为每次运行的参考图，提示词沿用节点自身
+ * - 每段的提示词：节点设置了提示词模板时按模板解析（额外提供 {{item}} 当前段、{{index}} 段序号），否则直接使用该段文本
+ * - 每段以独立的任务 ID（nodeId__item{n}）提交，结果写入节点 data.fanOutItems，在节点下方以画廊展示
+ */
+
+import type { Node, Edge } from 'reactflow';
+import { collectTemplateVariables, getTemplateTargetField, renderPromptTemplate } from './promptTemplate';
+
+/** 支持逐段批量的节点类型 */
+export const FAN_OUT_NODE_TYPES = ['image', 'video', 'audio'];
+
+export type FanOutItemStatus = 'pending' | 'running' | 'success' | 'error' | 'cancelled';
+
+/** 单段运行记录（节点 data.fanOutItems） */
+export interface FanOutItem {
+  index: number;
+  /** 该段实际使用的提示词 */
+  prompt: string;
+  status: FanOutItemStatus;
+  progress?: number;
+  url?: string;
+  error?: string;
+}
+
+export const isFanOutNodeType = (type: string | undefined): boolean =>
+  !!type && FAN_OUT_NODE_TYPES.includes(type);
+
+/** 单段任务的 nodeId（主进程按 nodeId 调度与推送状态，需与节点自身区分） */
+export const getFanOutItemNodeId = (nodeId: string, index: number): string => `${nodeId}__item${index}`;
+
+/** 逐段批量的列表来源 */
+export interface FanOutSource {
+  sourceNodeId: string;
+  sourceType: 'textSplit' | 'foreach';
+  items: string[];
+  itemKind: 'text' | 'image';
+}
+
+/**
+ * 取节点的逐段批量来源：优先上游循环节点（data.items），其次第一条来自文本拆分的入边；没有时返回 null
+ */
+export function getFanOutSource(nodeId: string, nodes: Node[], edges: Edge[]): FanOutSource | null {
+  const nodeById = new Map(nodes.map((n) => [n.id, n]));
+  const sources = edges.filter((e) => e.target === nodeId).map((e) => nodeById.get(e.source));
+  const foreach = sources.find((src) => src?.type === 'foreach');
+  if (foreach) {
+    return {
+      sourceNodeId: foreach.id,
+      sourceType: 'foreach',
+      items: ((foreach.data?.items as string[] | undefined) || []).map((item) => String(item).trim()).filter(Boolean),
+      itemKind: foreach.data?.itemKind === 'image' ? 'image' : 'text',
+    };
+  }
+  const split = sources.find((src) => src?.type === 'textSplit');
+  if (!split) return null;
+  const segments = (split.data?.segments as (string | number | boolean)[] | undefined) || [];
+  return {
+    sourceNodeId: split.id,
+    sourceType: 'textSplit',
+    items: segments.map((seg) => String(seg).trim()).filter(Boolean),
+    itemKind: 'text',
+  };
+}
+
+/**
+ * 取节点逐段批量的全部分段；没有时返回空数组
+ */
+export function getFanOutSegments(nodeId: string, nodes: Node[], edges: Edge[]): string[] {
+  return getFanOutSource(nodeId, nodes, edges)?.items ?? [];
+}
+
+/** 节点是否处于逐段批量模式且有可用的分段（连接循环节点时始终逐项运行） */
+export function isFanOutActive(node: Node, nodes: Node[], edges: Edge[]): boolean {
+  if (!isFanOutNodeType(node.type)) return false;
+  const source = getFanOutSource(node.id, nodes, edges);
+  if (!source || source.items.length === 0) return false;
+  return source.sourceType === 'foreach' || !!node.data?.fanOut;
+}
+
+/**
+ * 生成某一段的运行节点：把该段提示词写入节点输入字段（图片/视频 prompt，声音 text 或 lyrics）
+ * 图片列表项写入 inputImages，提示词沿用节点自身（或模板解析结果）
+ *
+ * @returns 模板变量缺失时返回 error
+ */
+export function buildFanOutItemNode(
+  node: Node,
+  segment: string,
+  index: number,
+  nodes: Node[],
+  edges: Edge[],
+  itemKind: FanOutSource['itemKind'] = 'text'
+): { node: Node; prompt: string } | { error: string } {
+  const field = getTemplateTargetField(node);
+  if (!field) return { error: `节点类型 ${node.type} 不支持逐段批量` };
+  if (itemKind === 'image' && node.type === 'audio') return { error: '声音节点不支持图片列表' };
+
+  let prompt = itemKind === 'image' ? String(node.data?.[field] || '').trim() : segment;
+  const template = String(node.data?.promptTemplate || '').trim();
+  if (template) {
+    const variables = [
+      ...collectTemplateVariables(node.id, nodes, edges),
+      { name: 'item', sourceNodeId: `${node.id}:item`, value: segment },
+      { name: 'index', sourceNodeId: `${node.id}:index`, value: index + 1 },
+    ];
+    const rendered = renderPromptTemplate(template, variables);
+    if (rendered.missing.length > 0) return { error: `未找到模板变量：${rendered.missing.join('、')}` };
+    prompt = rendered.text;
+  }
+  const imageInput = itemKind === 'image' ? { inputImages: [segment] } : {};
+  return { node: { ...node, data: { ...node.data, [field]: prompt, ...imageInput } }, prompt };
+}
+
+/**
+ * 合并进度：已结束的段计 100，运行中的段按其进度计
+ */
+export function getFanOutProgress(items: FanOutItem[]): number {
+  if (items.length === 0) return 0;
+  const total = items.reduce((sum, item) => {
+    if (item.status === 'success' || item.status === 'error' || item.status === 'cancelled') return sum + 100;
+    if (item.status === 'running') return sum + Math.min(99, item.progress ?? 0);
+    return sum;
+  }, 0);
+  return Math.round(total / items.length);
+}
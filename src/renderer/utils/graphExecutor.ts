@@ -0,0 +1,459 @@
+/**
+ * 工作流图执行引擎
+ * - 对画布节点/连线做拓扑排序，按依赖顺序执行 AI 节点（LLM / 图片 / 视频 / 声音）
+ * - 上游节点 SUCCESS 后才启动下游，并把 outputText / outputImage / outputVideo 注入下游输入
+ * - 支持「从此处运行」「运行到此处」「运行全部」以及框选批量运行
+ * - 执行前校验环路与非法连线（connectionRules），在任何计费请求发出前报告问题
+ */
+
+import type { Node, Edge } from 'reactflow';
+import { isConnectionAllowed } from './connectionRules';
+
+/** 运行范围：全部 / 从锚点向下游 / 从上游运行到锚点 / 指定节点集合 */
+export type GraphRunMode = 'all' | 'from' | 'to' | 'selection';
+
+/** 会真正调用 AI 的节点类型；其余节点（文本、文本拆分、3D 视角、循环、条件分支）只做数据透传 */
+export const RUNNABLE_NODE_TYPES = ['llm', 'image', 'video', 'audio'];
+
+/** 文本类来源节点 */
+export const TEXT_SOURCE_TYPES = ['minimalistText', 'text', 'llm', 'textSplit', 'foreach', 'condition'];
+
+/** 图片类来源节点（连入 Image / Video 节点作为 inputImages） */
+export const IMAGE_SOURCE_TYPES = ['image', 'frameExtract', 'imageEdit'];
+
+export interface GraphIssue {
+  type: 'cycle' | 'invalid-link';
+  message: string;
+  nodeIds: string[];
+  edgeId?: string;
+}
+
+export interface ExecutionPlan {
+  /** 拓扑序排列的可运行节点 ID */
+  order: string[];
+  /** nodeId -> 本次运行中必须先成功的上游可运行节点 */
+  dependencies: Record<string, string[]>;
+  /** 非空时不应开始执行 */
+  issues: GraphIssue[];
+}
+
+/** 节点运行产物：写回节点 data，同时供下游解析输入 */
+export type NodeOutputs = Partial<{
+  outputText: string;
+  outputImage: string;
+  outputVideo: string;
+  originalVideoUrl: string;
+  outputAudio: string;
+  originalAudioUrl: string;
+}>;
+
+export type NodeRunResult =
+  | { status: 'success'; outputs: NodeOutputs }
+  | { status: 'error'; error: string }
+  | { status: 'skipped'; reason: string }
+  | { status: 'cancelled' };
+
+/**
+ * 节点任务被用户取消（收到 CANCELLED 状态包）
+ */
+export class NodeRunCancelledError extends Error {
+  constructor(message: string = '任务已取消') {
+    super(message);
+    this.name = 'NodeRunCancelledError';
+  }
+}
+
+export const isRunnableNodeType = (type: string | undefined): boolean =>
+  !!type && RUNNABLE_NODE_TYPES.includes(type);
+
+const getNodeTitle = (node: Node | undefined): string =>
+  (node?.data?.title as string) || node?.type || node?.id || '';
+
+/** 收集锚点的全部下游（含自身） */
+const collectDownstream = (anchorId: string, edges: Edge[]): Set<string> => {
+  const visited = new Set<string>([anchorId]);
+  const stack = [anchorId];
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    edges.forEach((e) => {
+      if (e.source === current && !visited.has(e.target)) {
+        visited.add(e.target);
+        stack.push(e.target);
+      }
+    });
+  }
+  return visited;
+};
+
+/** 收集锚点的全部上游（含自身） */
+const collectUpstream = (anchorId: string, edges: Edge[]): Set<string> => {
+  const visited = new Set<string>([anchorId]);
+  const stack = [anchorId];
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    edges.forEach((e) => {
+      if (e.target === current && !visited.has(e.source)) {
+        visited.add(e.source);
+        stack.push(e.source);
+      }
+    });
+  }
+  return visited;
+};
+
+/**
+ * 计算运行范围内的节点 ID 集合
+ */
+export function collectRunScope(
+  nodes: Node[],
+  edges: Edge[],
+  mode: GraphRunMode,
+  anchorIds: string[] = []
+): Set<string> {
+  const existing = new Set(nodes.map((n) => n.id));
+  if (mode === 'all') return existing;
+  if (mode === 'selection') return new Set(anchorIds.filter((id) => existing.has(id)));
+  const scope = new Set<string>();
+  anchorIds.forEach((id) => {
+    if (!existing.has(id)) return;
+    const part = mode === 'from' ? collectDownstream(id, edges) : collectUpstream(id, edges);
+    part.forEach((p) => scope.add(p));
+  });
+  return scope;
+}
+
+/**
+ * 找出某可运行节点在本次运行中的上游依赖：
+ * 沿入边向上查找，遇到范围内的可运行节点即为依赖；遇到透传节点（文本拆分等）则继续向上
+ */
+const findRunnableDependencies = (
+  nodeId: string,
+  nodeById: Map<string, Node>,
+  edges: Edge[],
+  scope: Set<string>
+): string[] => {
+  const deps = new Set<string>();
+  const visited = new Set<string>([nodeId]);
+  const stack = [nodeId];
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    edges.forEach((e) => {
+      if (e.target !== current || visited.has(e.source)) return;
+      visited.add(e.source);
+      const src = nodeById.get(e.source);
+      if (!src) return;
+      if (isRunnableNodeType(src.type)) {
+        if (scope.has(src.id)) deps.add(src.id);
+        // 范围外的可运行节点：直接使用其已有产物，不再向上追溯
+        return;
+      }
+      stack.push(src.id);
+    });
+  }
+  return Array.from(deps);
+};
+
+/**
+ * 构建执行计划：校验连线与环路，并给出可运行节点的拓扑序
+ */
+export function buildExecutionPlan(
+  nodes: Node[],
+  edges: Edge[],
+  mode: GraphRunMode,
+  anchorIds: string[] = []
+): ExecutionPlan {
+  const nodeById = new Map(nodes.map((n) => [n.id, n]));
+  const scope = collectRunScope(nodes, edges, mode, anchorIds);
+  const issues: GraphIssue[] = [];
+
+  // 1. 非法连线：范围内（或指向范围内节点）的每条边都必须满足 connectionRules
+  edges.forEach((e) => {
+    if (!scope.has(e.target) && !scope.has(e.source)) return;
+    const src = nodeById.get(e.source);
+    const tgt = nodeById.get(e.target);
+    if (!src || !tgt) {
+      issues.push({
+        type: 'invalid-link',
+        message: `连线 ${e.id} 指向不存在的节点`,
+        nodeIds: [e.source, e.target],
+        edgeId: e.id,
+      });
+      return;
+    }
+    if (!isConnectionAllowed(src.type || '', tgt.type || '', e.sourceHandle, e.targetHandle)) {
+      issues.push({
+        type: 'invalid-link',
+        message: `「${getNodeTitle(src)}」不能连接到「${getNodeTitle(tgt)}」`,
+        nodeIds: [src.id, tgt.id],
+        edgeId: e.id,
+      });
+    }
+  });
+
+  // 2. 环路检测（Kahn）：在范围内的子图上进行
+  const inDegree = new Map<string, number>();
+  scope.forEach((id) => inDegree.set(id, 0));
+  const scopedEdges = edges.filter((e) => scope.has(e.source) && scope.has(e.target));
+  scopedEdges.forEach((e) => inDegree.set(e.target, (inDegree.get(e.target) ?? 0) + 1));
+  const queue = Array.from(scope).filter((id) => (inDegree.get(id) ?? 0) === 0);
+  const topo: string[] = [];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    topo.push(id);
+    scopedEdges.forEach((e) => {
+      if (e.source !== id) return;
+      const next = (inDegree.get(e.target) ?? 0) - 1;
+      inDegree.set(e.target, next);
+      if (next === 0) queue.push(e.target);
+    });
+  }
+  if (topo.length < scope.size) {
+    const cyclic = Array.from(scope).filter((id) => !topo.includes(id));
+    issues.push({
+      type: 'cycle',
+      message: `检测到循环连线：${cyclic.map((id) => `「${getNodeTitle(nodeById.get(id))}」`).join('、')}`,
+      nodeIds: cyclic,
+    });
+  }
+
+  // 3. 可运行节点按拓扑序排列，并记录其依赖
+  const order = topo.filter((id) => isRunnableNodeType(nodeById.get(id)?.type));
+  const dependencies: Record<string, string[]> = {};
+  order.forEach((id) => {
+    dependencies[id] = findRunnableDependencies(id, nodeById, edges, scope);
+  });
+
+  return { order, dependencies, issues };
+}
+
+/** 从文本类来源节点取该连线对应的文本 */
+export const getTextFromSource = (src: Node, edge: Edge): string => {
+  if (src.type === 'minimalistText' || src.type === 'text') {
+    return src.data?.text ? String(src.data.text).trim() : '';
+  }
+  if (src.type === 'llm') {
+    return src.data?.outputText ? String(src.data.outputText).trim() : '';
+  }
+  if (src.type === 'textSplit' && src.data?.segments) {
+    const sh = edge.sourceHandle || '';
+    const idx = sh.startsWith('output-') && sh !== 'output-null' ? parseInt(sh.replace('output-', ''), 10) : -1;
+    const seg = src.data.segments as (string | number | boolean)[];
+    return Number.isInteger(idx) && seg[idx] !== undefined ? String(seg[idx]).trim() : '';
+  }
+  if (src.type === 'foreach') {
+    // 循环节点：文本列表整体换行拼接（图片列表只用于逐项运行）
+    const items = (src.data?.items as string[] | undefined) || [];
+    return src.data?.itemKind === 'image' ? '' : items.join('\n').trim();
+  }
+  if (src.type === 'condition') {
+    // 条件节点：只有命中分支的输出把手透传输入文本
+    const active = `branch-${src.data?.matchedBranch || 'default'}`;
+    return edge.sourceHandle === active && src.data?.inputText ? String(src.data.inputText).trim() : '';
+  }
+  return '';
+};
+
+/** 从图片类来源节点取图片：图片节点优先 outputImage（无则用参考图），抽帧节点取全部抽出的帧，图片编辑节点取编辑结果 */
+export const getImagesFromSource = (src: Node): string[] => {
+  if (src.type === 'image') {
+    const img = (src.data?.outputImage as string) || (src.data?.inputImages as string[] | undefined)?.[0];
+    return img ? [img] : [];
+  }
+  if (src.type === 'frameExtract') {
+    return ((src.data?.outputImages as string[] | undefined) || []).filter(Boolean);
+  }
+  if (src.type === 'imageEdit') {
+    return src.data?.outputImage ? [src.data.outputImage as string] : [];
+  }
+  return [];
+};
+
+/** 从 3D 视角控制器取提示词 */
+export const getCameraPrompt = (src: Node): string => {
+  const pp = src.data?.prompt_payload as { qwen_instruction?: string; prompt_metadata?: { formatted_output?: string }; full_camera_prompt?: string; camera_tags?: string } | undefined;
+  return String(pp?.qwen_instruction || pp?.prompt_metadata?.formatted_output || pp?.full_camera_prompt || pp?.camera_tags || '').trim();
+};
+
+/**
+ * 根据上游节点当前数据，解析目标节点的输入（与画布连线同步逻辑一致：按入边顺序逗号拼接）
+ * 返回需要合并进节点 data 的字段；没有上游文本/图片时不覆盖节点自身输入
+ */
+export function resolveUpstreamInputs(node: Node, nodes: Node[], edges: Edge[]): Record<string, any> {
+  const nodeById = new Map(nodes.map((n) => [n.id, n]));
+  const incoming = edges.filter((e) => e.target === node.id);
+  const textParts: string[] = [];
+  const images: string[] = [];
+
+  incoming.forEach((e) => {
+    const src = nodeById.get(e.source);
+    if (!src) return;
+    if (TEXT_SOURCE_TYPES.includes(src.type || '')) {
+      const text = getTextFromSource(src, e);
+      if (text) textParts.push(text);
+    } else if (src.type === 'cameraControl') {
+      const text = getCameraPrompt(src);
+      if (text) textParts.push(text);
+      const img = src.data?.inputImage as string | undefined;
+      if (img && !images.includes(img)) images.push(img);
+    } else if (IMAGE_SOURCE_TYPES.includes(src.type || '') && e.targetHandle !== 'reference-video') {
+      getImagesFromSource(src).forEach((img) => {
+        if (!images.includes(img)) images.push(img);
+      });
+    }
+  });
+
+  const updates: Record<string, any> = {};
+  if (node.type === 'llm') {
+    if (textParts.length > 0) updates.inputText = textParts.join(',');
+  } else if (node.type === 'image') {
+    if (textParts.length > 0) updates.prompt = textParts.join(',');
+    if (images.length > 0) updates.inputImages = images.slice(0, 10);
+  } else if (node.type === 'video') {
+    // 视频节点沿用面板逻辑：最后一个文本来源作为提示词
+    if (textParts.length > 0) updates.prompt = textParts[textParts.length - 1];
+    if (images.length > 0) updates.inputImages = images.slice(0, 10);
+  } else if (node.type === 'audio') {
+    if (textParts.length > 0) {
+      if (node.data?.model === 'rhart-song') updates.lyrics = textParts.join('\n');
+      else updates.text = textParts.join(',');
+    }
+  }
+  return updates;
+}
+
+/**
+ * 将 SUCCESS 状态包的 payload 转换为节点产物
+ */
+export function packetPayloadToOutputs(nodeType: string | undefined, payload: any): NodeOutputs {
+  if (!payload) return {};
+  if (nodeType === 'llm') {
+    return payload.text ? { outputText: String(payload.text) } : {};
+  }
+  if (nodeType === 'image') {
+    const url = payload.imageUrl || payload.url;
+    return url ? { outputImage: url } : {};
+  }
+  if (nodeType === 'video') {
+    const url = payload.videoUrl || payload.url;
+    if (!url) return {};
+    return { outputVideo: url, ...(payload.originalVideoUrl ? { originalVideoUrl: payload.originalVideoUrl } : {}) };
+  }
+  if (nodeType === 'audio') {
+    const url = payload.audioUrl || payload.url;
+    if (!url) return {};
+    return { outputAudio: url, ...(payload.originalAudioUrl ? { originalAudioUrl: payload.originalAudioUrl } : {}) };
+  }
+  return {};
+}
+
+/**
+ * 调用主进程执行节点，并等待该节点的终态（SUCCESS / ERROR / CANCELLED）
+ * 任务被取消时以 NodeRunCancelledError 结束
+ * 工作流/批量运行默认使用 low 优先级通道，不阻塞用户的单次交互运行
+ * onPacket 接收终态之前的状态包（START / PROCESSING），用于展示进度
+ * 主进程在资源下载（及视频转码）完成后才发送 SUCCESS，结果中的地址为本地资源
+ */
+export function invokeNodeAndWait(
+  modelId: string,
+  nodeId: string,
+  input: any,
+  priority: 'high' | 'normal' | 'low' = 'low',
+  onPacket?: (packet: any) => void
+): Promise<any> {
+  return new Promise((resolve, reject) => {
+    if (!window.electronAPI) {
+      reject(new Error('electronAPI not available'));
+      return;
+    }
+    let settled = false;
+    const removeListener = window.electronAPI.onAIStatusUpdate((packet) => {
+      if (settled || String(packet?.nodeId || '').trim() !== nodeId) return;
+      if (packet.status === 'SUCCESS') {
+        settled = true;
+        removeListener?.();
+        resolve(packet.payload || {});
+      } else if (packet.status === 'ERROR') {
+        settled = true;
+        removeListener?.();
+        reject(new Error(packet.payload?.error || '执行失败'));
+      } else if (packet.status === 'CANCELLED') {
+        settled = true;
+        removeListener?.();
+        reject(new NodeRunCancelledError());
+      } else {
+        onPacket?.(packet);
+      }
+    });
+    window.electronAPI.invokeAI({ modelId, nodeId, projectId: input?.projectId, input, priority }).catch((error: unknown) => {
+      if (settled) return;
+      settled = true;
+      removeListener?.();
+      reject(error instanceof Error ? error : new Error(String(error)));
+    });
+  });
+}
+
+/**
+ * 按执行计划运行：依赖全部成功的节点立即并行启动，上游失败/跳过时下游标记为跳过
+ *
+ * @param plan buildExecutionPlan 的结果（调用方需先确认 issues 为空）
+ * @param runNode 执行单个节点，返回其结果；upstream 为已完成依赖的产物
+ * @param onNodeFinished 每个节点结束时回调（包括被跳过的节点）
+ * @param isStopped 返回 true 时不再启动新节点，尚未启动的节点标记为已取消
+ */
+export async function runExecutionPlan(
+  plan: ExecutionPlan,
+  runNode: (nodeId: string, upstream: Record<string, NodeOutputs>) => Promise<NodeRunResult>,
+  onNodeFinished?: (nodeId: string, result: NodeRunResult) => void,
+  isStopped?: () => boolean
+): Promise<Record<string, NodeRunResult>> {
+  const results: Record<string, NodeRunResult> = {};
+  const pending = new Set(plan.order);
+  const running = new Map<string, Promise<void>>();
+
+  const finish = (nodeId: string, result: NodeRunResult) => {
+    results[nodeId] = result;
+    pending.delete(nodeId);
+    onNodeFinished?.(nodeId, result);
+  };
+
+  while (pending.size > 0 || running.size > 0) {
+    for (const nodeId of plan.order) {
+      if (!pending.has(nodeId) || running.has(nodeId)) continue;
+      if (isStopped?.()) {
+        finish(nodeId, { status: 'cancelled' });
+        continue;
+      }
+      const deps = plan.dependencies[nodeId] || [];
+      const failedDep = deps.find((d) => results[d] && results[d].status !== 'success');
+      if (failedDep) {
+        finish(nodeId, { status: 'skipped', reason: `上游节点 ${failedDep} 未成功` });
+        continue;
+      }
+      if (!deps.every((d) => results[d]?.status === 'success')) continue;
+
+      const upstream: Record<string, NodeOutputs> = {};
+      deps.forEach((d) => {
+        const r = results[d];
+        if (r?.status === 'success') upstream[d] = r.outputs;
+      });
+      const task = runNode(nodeId, upstream)
+        .catch((error): NodeRunResult =>
+          error instanceof NodeRunCancelledError
+            ? { status: 'cancelled' }
+            : { status: 'error', error: error instanceof Error ? error.message : String(error) }
+        )
+        .then((result) => {
+          running.delete(nodeId);
+          finish(nodeId, result);
+        });
+      running.set(nodeId, task);
+    }
+    if (running.size === 0) break;
+    await Promise.race(running.values());
+  }
+
+  // 理论上不会发生（计划已通过环路校验），兜底避免死循环后遗留未处理节点
+  pending.forEach((nodeId) => finish(nodeId, { status: 'skipped', reason: '依赖无法满足' }));
+  return results;
+}
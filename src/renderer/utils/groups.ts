@@ -0,0 +1,274 @@
+/**
+ * 分组（子图）与模块库
+ * - 分组节点（type: 'group'）只记录成员 ID 与折叠状态，成员节点与连线保持原样，工作流执行不受分组影响
+ * - 展开时分组显示为包住成员的框；折叠时隐藏成员，跨越分组边界的连线改接到分组的输入 / 输出端口
+ * - 分组可保存为模块（节点 + 组内连线），在其他项目中通过添加节点菜单插入
+ */
+
+import type { Node, Edge, Connection } from 'reactflow';
+
+export const GROUP_NODE_TYPE = 'group';
+
+/** 展开时分组框相对成员包围盒的留白，顶部额外留出标题栏 */
+export const GROUP_PADDING = 24;
+export const GROUP_HEADER_HEIGHT = 36;
+
+/** 从添加节点菜单插入模块时使用的菜单类型前缀 */
+export const MODULE_MENU_TYPE_PREFIX = 'module:';
+
+export interface GroupNodeData {
+  title?: string;
+  memberIds: string[];
+  collapsed?: boolean;
+}
+
+/** 折叠分组对外暴露的端口：对应一个成员节点的把手 */
+export interface GroupPort {
+  handleId: string;
+  nodeId: string;
+  nodeHandle: string | null;
+  label: string;
+}
+
+export interface LibraryModule {
+  id: string;
+  name: string;
+  nodes: Node[];
+  edges: Edge[];
+  createdAt: number;
+}
+
+/** 保存为模块时去除的运行状态与产物字段 */
+const RUNTIME_DATA_KEYS = [
+  'aiStatus', 'progress', 'progressMessage', 'errorMessage', 'streamingText', 'fanOutItems',
+  'outputText', 'outputImage', 'outputVideo', 'originalVideoUrl', 'outputAudio', 'originalAudioUrl',
+];
+
+export const isGroupNode = (node: Node | undefined): boolean => node?.type === GROUP_NODE_TYPE;
+
+const getNodeSize = (node: Node): { width: number; height: number } => ({
+  width: Number(node.width ?? node.data?.width ?? 300),
+  height: Number(node.height ?? node.data?.height ?? 200),
+});
+
+/** 成员节点的包围盒（不含留白）；没有成员时返回 null */
+export function getMembersBounds(members: Node[]): { x: number; y: number; width: number; height: number } | null {
+  if (members.length === 0) return null;
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  members.forEach((n) => {
+    const { width, height } = getNodeSize(n);
+    minX = Math.min(minX, n.position.x);
+    minY = Math.min(minY, n.position.y);
+    maxX = Math.max(maxX, n.position.x + width);
+    maxY = Math.max(maxY, n.position.y + height);
+  });
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+/** 分组框左上角（成员包围盒向外留白） */
+export const getGroupFrameOrigin = (bounds: { x: number; y: number }): { x: number; y: number } => ({
+  x: bounds.x - GROUP_PADDING,
+  y: bounds.y - GROUP_PADDING - GROUP_HEADER_HEIGHT,
+});
+
+const getMemberIds = (group: Node): string[] => ((group.data as GroupNodeData | undefined)?.memberIds || []);
+
+const toPortHandleId = (direction: 'in' | 'out', nodeId: string, handle: string | null | undefined): string =>
+  `${direction}:${nodeId}:${handle || ''}`;
+
+/** 解析端口把手 ID（in:nodeId:handle / out:nodeId:handle）；不是端口时返回 null */
+export function parseGroupPortHandle(handleId: string | null | undefined): { direction: 'in' | 'out'; nodeId: string; handle: string | null } | null {
+  const match = (handleId || '').match(/^(in|out):([^:]+):(.*)$/);
+  if (!match) return null;
+  return { direction: match[1] as 'in' | 'out', nodeId: match[2], handle: match[3] || null };
+}
+
+/**
+ * 折叠分组的输入 / 输出端口：取显示用连线（applyGroupDisplay 结果）中接到分组端口的把手，按把手去重
+ */
+export function getGroupPorts(groupId: string, nodes: Node[], displayEdges: Edge[]): { inputs: GroupPort[]; outputs: GroupPort[] } {
+  const nodeById = new Map(nodes.map((n) => [n.id, n]));
+  const title = (nodeId: string) => String(nodeById.get(nodeId)?.data?.title || nodeById.get(nodeId)?.type || nodeId);
+  const inputs: GroupPort[] = [];
+  const outputs: GroupPort[] = [];
+
+  displayEdges.forEach((e) => {
+    const input = e.target === groupId ? parseGroupPortHandle(e.targetHandle) : null;
+    if (input?.direction === 'in' && !inputs.some((p) => p.handleId === e.targetHandle)) {
+      inputs.push({ handleId: e.targetHandle!, nodeId: input.nodeId, nodeHandle: input.handle, label: title(input.nodeId) });
+    }
+    const output = e.source === groupId ? parseGroupPortHandle(e.sourceHandle) : null;
+    if (output?.direction === 'out' && !outputs.some((p) => p.handleId === e.sourceHandle)) {
+      outputs.push({ handleId: e.sourceHandle!, nodeId: output.nodeId, nodeHandle: output.handle, label: title(output.nodeId) });
+    }
+  });
+  return { inputs, outputs };
+}
+
+/**
+ * 画布显示用的节点与连线：折叠分组隐藏成员并把跨边界连线改接到分组端口，展开分组的框包住成员
+ * 只用于渲染；节点组件通过 useReactFlow().setNodes 更新时显示字段可能被写回，因此这里每次都完整覆盖 hidden 与分组框样式
+ */
+export function applyGroupDisplay(nodes: Node[], edges: Edge[]): { nodes: Node[]; edges: Edge[] } {
+  const groups = nodes.filter(isGroupNode);
+  if (groups.length === 0 && !nodes.some((n) => n.hidden)) return { nodes, edges };
+
+  const nodeById = new Map(nodes.map((n) => [n.id, n]));
+  const collapsedGroupOf = new Map<string, string>();
+  groups.forEach((g) => {
+    if ((g.data as GroupNodeData).collapsed) getMemberIds(g).forEach((id) => collapsedGroupOf.set(id, g.id));
+  });
+
+  const displayNodes = nodes.map((n) => {
+    if (collapsedGroupOf.has(n.id)) return n.hidden ? n : { ...n, hidden: true };
+    if (!isGroupNode(n)) return n.hidden ? { ...n, hidden: false } : n;
+    const members = getMemberIds(n).map((id) => nodeById.get(id)).filter((m): m is Node => !!m);
+    const bounds = getMembersBounds(members);
+    if ((n.data as GroupNodeData).collapsed || !bounds) {
+      return { ...n, draggable: true, zIndex: undefined, style: undefined };
+    }
+    const width = bounds.width + GROUP_PADDING * 2;
+    const height = bounds.height + GROUP_PADDING * 2 + GROUP_HEADER_HEIGHT;
+    // 展开的分组框位于成员下层，框体不拦截画布交互（标题栏除外）
+    return {
+      ...n,
+      position: getGroupFrameOrigin(bounds),
+      draggable: false,
+      zIndex: -1,
+      style: { width, height, pointerEvents: 'none' as const },
+    };
+  });
+
+  if (collapsedGroupOf.size === 0) return { nodes: displayNodes, edges };
+
+  const displayEdges: Edge[] = [];
+  edges.forEach((e) => {
+    const sourceGroup = collapsedGroupOf.get(e.source);
+    const targetGroup = collapsedGroupOf.get(e.target);
+    if (sourceGroup && sourceGroup === targetGroup) return; // 组内连线随成员隐藏
+    if (!sourceGroup && !targetGroup) {
+      displayEdges.push(e);
+      return;
+    }
+    displayEdges.push({
+      ...e,
+      ...(sourceGroup ? { source: sourceGroup, sourceHandle: toPortHandleId('out', e.source, e.sourceHandle) } : {}),
+      ...(targetGroup ? { target: targetGroup, targetHandle: toPortHandleId('in', e.target, e.targetHandle) } : {}),
+    });
+  });
+  return { nodes: displayNodes, edges: displayEdges };
+}
+
+/**
+ * 连到折叠分组端口的连线还原为连到对应成员节点的把手
+ */
+export function resolveGroupConnection<T extends Connection>(params: T, nodes: Node[]): T {
+  const nodeById = new Map(nodes.map((n) => [n.id, n]));
+  let resolved = params;
+  if (params.source && isGroupNode(nodeById.get(params.source))) {
+    const port = parseGroupPortHandle(params.sourceHandle);
+    if (port?.direction === 'out') resolved = { ...resolved, source: port.nodeId, sourceHandle: port.handle };
+  }
+  if (params.target && isGroupNode(nodeById.get(params.target))) {
+    const port = parseGroupPortHandle(params.targetHandle);
+    if (port?.direction === 'in') resolved = { ...resolved, target: port.nodeId, targetHandle: port.handle };
+  }
+  return resolved;
+}
+
+/**
+ * 由选中节点创建分组；分组节点本身与已在其他分组中的节点不会再被加入
+ * 返回 null 表示可分组的节点不足 2 个
+ */
+export function createGroupNode(nodes: Node[], selectedIds: string[], title: string = 'group'): Node | null {
+  const grouped = new Set(nodes.filter(isGroupNode).flatMap(getMemberIds));
+  const members = nodes.filter((n) => selectedIds.includes(n.id) && !isGroupNode(n) && !grouped.has(n.id));
+  const bounds = getMembersBounds(members);
+  if (!bounds || members.length < 2) return null;
+  return {
+    id: `group-${Date.now()}`,
+    type: GROUP_NODE_TYPE,
+    position: getGroupFrameOrigin(bounds),
+    data: { title, memberIds: members.map((n) => n.id), collapsed: false } as GroupNodeData,
+  };
+}
+
+/**
+ * 折叠 / 展开分组：折叠时分组卡片放在成员框的位置；展开时成员跟随折叠期间被拖动的卡片平移
+ */
+export function toggleGroupCollapsed(nodes: Node[], groupId: string): Node[] {
+  const group = nodes.find((n) => n.id === groupId);
+  if (!group) return nodes;
+  const memberIds = new Set(getMemberIds(group));
+  const bounds = getMembersBounds(nodes.filter((n) => memberIds.has(n.id)));
+  const collapsed = !!(group.data as GroupNodeData).collapsed;
+
+  if (!collapsed) {
+    const origin = bounds ? getGroupFrameOrigin(bounds) : group.position;
+    return nodes.map((n) => {
+      if (n.id === groupId) return { ...n, position: origin, data: { ...n.data, collapsed: true } };
+      return memberIds.has(n.id) ? { ...n, selected: false } : n;
+    });
+  }
+
+  const origin = bounds ? getGroupFrameOrigin(bounds) : group.position;
+  const dx = group.position.x - origin.x;
+  const dy = group.position.y - origin.y;
+  return nodes.map((n) => {
+    if (n.id === groupId) return { ...n, data: { ...n.data, collapsed: false } };
+    if (!memberIds.has(n.id) || (dx === 0 && dy === 0)) return n;
+    return { ...n, position: { x: n.position.x + dx, y: n.position.y + dy } };
+  });
+}
+
+/**
+ * 把分组导出为模块：成员节点（去除运行状态与产物）与两端都在组内的连线
+ */
+export function buildModuleFromGroup(group: Node, nodes: Node[], edges: Edge[], name: string): LibraryModule {
+  const memberIds = new Set(getMemberIds(group));
+  const moduleNodes = nodes
+    .filter((n) => memberIds.has(n.id))
+    .map((n) => {
+      const data = { ...n.data };
+      RUNTIME_DATA_KEYS.forEach((key) => delete data[key]);
+      return { id: n.id, type: n.type, position: n.position, data, ...(n.style ? { style: n.style } : {}) } as Node;
+    });
+  const moduleEdges = edges
+    .filter((e) => memberIds.has(e.source) && memberIds.has(e.target))
+    .map((e) => ({ id: e.id, source: e.source, target: e.target, sourceHandle: e.sourceHandle, targetHandle: e.targetHandle }) as Edge);
+  return { id: `module-${Date.now()}`, name, nodes: moduleNodes, edges: moduleEdges, createdAt: Date.now() };
+}
+
+/**
+ * 在画布指定位置插入模块：节点与连线换新 ID，并包成一个展开的分组
+ */
+export function instantiateModule(module: LibraryModule, position: { x: number; y: number }): { nodes: Node[]; edges: Edge[] } {
+  const stamp = Date.now();
+  const idMap = new Map<string, string>();
+  const bounds = getMembersBounds(module.nodes) ?? { x: 0, y: 0, width: 0, height: 0 };
+
+  const nodes: Node[] = module.nodes.map((n, i) => {
+    const id = `${n.type || 'node'}-${stamp}-${i}`;
+    idMap.set(n.id, id);
+    return {
+      ...n,
+      id,
+      selected: false,
+      position: { x: position.x + (n.position.x - bounds.x), y: position.y + (n.position.y - bounds.y) },
+    };
+  });
+  const edges: Edge[] = module.edges
+    .filter((e) => idMap.has(e.source) && idMap.has(e.target))
+    .map((e, i) => ({
+      ...e,
+      id: `e-${idMap.get(e.source)}-${idMap.get(e.target)}-${stamp}-${i}`,
+      source: idMap.get(e.source)!,
+      target: idMap.get(e.target)!,
+    }));
+
+  const group = createGroupNode(nodes, nodes.map((n) => n.id), module.name);
+  return { nodes: group ? [...nodes, group] : nodes, edges };
+}
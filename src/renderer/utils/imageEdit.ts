@@ -0,0 +1,300 @@
+/**
+ * 图片编辑节点：本地（非 AI）图片处理
+ * - 处理顺序：多图拼接（宫格）→ 裁剪 → 旋转/翻转 → 适配目标比例（留边/居中裁切）→ 缩放 → 亮度/对比度 → 叠加 Logo / 文字
+ * - 几何计算为纯函数，canvas 绘制在 renderImageEdit 中完成
+ */
+
+/** 目标比例选项（与视频节点 aspectRatio 一致，另含常用图片比例） */
+export const IMAGE_EDIT_ASPECT_RATIOS = ['16:9', '9:16', '1:1', '4:3', '3:4', '21:9'];
+
+/** 输出最大边长，避免超大 canvas 导致 GPU 崩溃 */
+export const IMAGE_EDIT_MAX_SIZE = 4096;
+
+export type OverlayPosition = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right' | 'center';
+
+export interface ImageEditSettings {
+  /** 多张输入时的排版：single 只处理第一张，grid 按宫格拼接全部输入 */
+  layout?: 'single' | 'grid';
+  /** 宫格列数（为空时自动接近正方形） */
+  gridColumns?: number;
+  /** 宫格间距（像素） */
+  gridGap?: number;
+  /** 裁剪区域（归一化 0-1），为空时不裁剪 */
+  crop?: { x: number; y: number; width: number; height: number };
+  rotate?: 0 | 90 | 180 | 270;
+  flipH?: boolean;
+  flipV?: boolean;
+  /** 目标比例（如 16:9），为空时保持原比例 */
+  aspectRatio?: string;
+  /** 适配目标比例的方式：pad 留边（letterbox），crop 居中裁切 */
+  fitMode?: 'pad' | 'crop';
+  /** 留边 / 宫格背景色 */
+  background?: string;
+  /** 缩放到指定宽高（只填一项时按比例计算另一项） */
+  resizeWidth?: number;
+  resizeHeight?: number;
+  /** 亮度、对比度（百分比，100 为原始） */
+  brightness?: number;
+  contrast?: number;
+  overlayText?: string;
+  overlayTextColor?: string;
+  /** 文字大小（相对输出短边的百分比） */
+  overlayTextSize?: number;
+  overlayTextPosition?: OverlayPosition;
+  /** 作为 Logo 叠加的输入序号（从 0 开始，为空时不叠加；该输入不参与宫格拼接） */
+  logoIndex?: number;
+  /** Logo 宽度（相对输出宽度的百分比） */
+  logoScale?: number;
+  logoPosition?: OverlayPosition;
+}
+
+export interface Size {
+  width: number;
+  height: number;
+}
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** 解析 "16:9" 为宽高比数值，无效时返回 null */
+export function parseAspectRatio(ratio: string | undefined): number | null {
+  const match = (ratio || '').match(/^\s*(\d+(?:\.\d+)?)\s*:\s*(\d+(?:\.\d+)?)\s*$/);
+  if (!match) return null;
+  const w = Number(match[1]);
+  const h = Number(match[2]);
+  return w > 0 && h > 0 ? w / h : null;
+}
+
+/** 归一化裁剪区域换算为像素区域（限制在图片范围内，至少 1 像素） */
+export function computeCropRect(size: Size, crop: ImageEditSettings['crop']): Rect {
+  if (!crop) return { x: 0, y: 0, width: size.width, height: size.height };
+  const clamp01 = (v: number) => Math.min(1, Math.max(0, Number.isFinite(v) ? v : 0));
+  const x = Math.round(clamp01(crop.x) * size.width);
+  const y = Math.round(clamp01(crop.y) * size.height);
+  const width = Math.max(1, Math.min(size.width - x, Math.round(clamp01(crop.width) * size.width)));
+  const height = Math.max(1, Math.min(size.height - y, Math.round(clamp01(crop.height) * size.height)));
+  return { x, y, width, height };
+}
+
+/**
+ * 适配目标比例：返回画布尺寸，以及原图在画布中的绘制区域（dest）与取自原图的区域（source）
+ * pad 模式原图完整放入画布两侧留边；crop 模式从原图中央裁出目标比例
+ */
+export function fitToAspectRatio(size: Size, ratio: number | null, mode: 'pad' | 'crop' = 'pad'): { canvas: Size; source: Rect; dest: Rect } {
+  const full: Rect = { x: 0, y: 0, width: size.width, height: size.height };
+  if (!ratio) return { canvas: { ...size }, source: full, dest: full };
+  const current = size.width / size.height;
+  if (Math.abs(current - ratio) < 0.001) return { canvas: { ...size }, source: full, dest: full };
+
+  if (mode === 'crop') {
+    const width = current > ratio ? Math.round(size.height * ratio) : size.width;
+    const height = current > ratio ? size.height : Math.round(size.width / ratio);
+    const source = { x: Math.round((size.width - width) / 2), y: Math.round((size.height - height) / 2), width, height };
+    return { canvas: { width, height }, source, dest: { x: 0, y: 0, width, height } };
+  }
+  const canvas =
+    current > ratio
+      ? { width: size.width, height: Math.round(size.width / ratio) }
+      : { width: Math.round(size.height * ratio), height: size.height };
+  const dest = {
+    x: Math.round((canvas.width - size.width) / 2),
+    y: Math.round((canvas.height - size.height) / 2),
+    width: size.width,
+    height: size.height,
+  };
+  return { canvas, source: full, dest };
+}
+
+/** 缩放目标尺寸：只填一项时按比例计算另一项，结果不超过 IMAGE_EDIT_MAX_SIZE */
+export function computeResize(size: Size, width?: number, height?: number): Size {
+  let w = width && width > 0 ? width : 0;
+  let h = height && height > 0 ? height : 0;
+  if (!w && !h) {
+    w = size.width;
+    h = size.height;
+  } else if (!h) {
+    h = (size.height * w) / size.width;
+  } else if (!w) {
+    w = (size.width * h) / size.height;
+  }
+  const scale = Math.min(1, IMAGE_EDIT_MAX_SIZE / Math.max(w, h));
+  return { width: Math.max(1, Math.round(w * scale)), height: Math.max(1, Math.round(h * scale)) };
+}
+
+/**
+ * 宫格排版：每格大小取第一张图的尺寸，图片等比放入格子居中
+ * @returns 画布尺寸与每张图的绘制区域
+ */
+export function computeGridLayout(sizes: Size[], columns?: number, gap = 0): { canvas: Size; cells: Rect[] } {
+  if (sizes.length === 0) return { canvas: { width: 1, height: 1 }, cells: [] };
+  const cols = Math.max(1, Math.min(sizes.length, Math.floor(columns || Math.ceil(Math.sqrt(sizes.length)))));
+  const rows = Math.ceil(sizes.length / cols);
+  const cell = sizes[0];
+  const cells = sizes.map((size, index) => {
+    const scale = Math.min(cell.width / size.width, cell.height / size.height);
+    const width = Math.round(size.width * scale);
+    const height = Math.round(size.height * scale);
+    const col = index % cols;
+    const row = Math.floor(index / cols);
+    return {
+      x: gap + col * (cell.width + gap) + Math.round((cell.width - width) / 2),
+      y: gap + row * (cell.height + gap) + Math.round((cell.height - height) / 2),
+      width,
+      height,
+    };
+  });
+  return {
+    canvas: { width: cols * cell.width + (cols + 1) * gap, height: rows * cell.height + (rows + 1) * gap },
+    cells,
+  };
+}
+
+/** 叠加元素（Logo / 文字）在画布中的左上角坐标，边距为短边的 3% */
+export function computeOverlayOrigin(canvas: Size, item: Size, position: OverlayPosition = 'bottom-right'): { x: number; y: number } {
+  const margin = Math.round(Math.min(canvas.width, canvas.height) * 0.03);
+  const left = margin;
+  const right = canvas.width - item.width - margin;
+  const top = margin;
+  const bottom = canvas.height - item.height - margin;
+  switch (position) {
+    case 'top-left':
+      return { x: left, y: top };
+    case 'top-right':
+      return { x: right, y: top };
+    case 'bottom-left':
+      return { x: left, y: bottom };
+    case 'center':
+      return { x: Math.round((canvas.width - item.width) / 2), y: Math.round((canvas.height - item.height) / 2) };
+    default:
+      return { x: right, y: bottom };
+  }
+}
+
+/** 编辑设置的简短描述（写入素材元数据，便于在素材库中辨认） */
+export function describeImageEdit(settings: ImageEditSettings): string {
+  const parts: string[] = [];
+  if (settings.layout === 'grid') parts.push('宫格拼接');
+  if (settings.crop) parts.push('裁剪');
+  if (settings.rotate) parts.push(`旋转${settings.rotate}°`);
+  if (settings.flipH || settings.flipV) parts.push('翻转');
+  if (parseAspectRatio(settings.aspectRatio)) parts.push(`${settings.fitMode === 'crop' ? '裁切' : '留边'}至 ${settings.aspectRatio}`);
+  if (settings.resizeWidth || settings.resizeHeight) parts.push(`缩放 ${settings.resizeWidth || 'auto'}x${settings.resizeHeight || 'auto'}`);
+  if ((settings.brightness ?? 100) !== 100 || (settings.contrast ?? 100) !== 100) parts.push('亮度/对比度');
+  if (settings.logoIndex !== undefined) parts.push('Logo');
+  if (settings.overlayText?.trim()) parts.push('文字');
+  return parts.join('、') || '无修改';
+}
+
+/** 加载图片（local-resource 协议已开启 CORS，anonymous 加载后 canvas 可导出） */
+export function loadImage(url: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error(`图片加载失败: ${url}`));
+    img.src = url;
+  });
+}
+
+const createCanvas = (size: Size): { canvas: HTMLCanvasElement; ctx: CanvasRenderingContext2D } => {
+  const canvas = document.createElement('canvas');
+  canvas.width = size.width;
+  canvas.height = size.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('无法获取 canvas 上下文');
+  return { canvas, ctx };
+};
+
+const sizeOf = (source: HTMLImageElement | HTMLCanvasElement): Size =>
+  source instanceof HTMLImageElement
+    ? { width: source.naturalWidth, height: source.naturalHeight }
+    : { width: source.width, height: source.height };
+
+/**
+ * 按设置处理输入图片，返回结果 canvas
+ * @param images 按连线顺序的输入图片
+ */
+export function renderImageEdit(images: HTMLImageElement[], settings: ImageEditSettings): HTMLCanvasElement {
+  const logo = settings.logoIndex !== undefined ? images[settings.logoIndex] : undefined;
+  const bases = images.filter((img) => img !== logo);
+  if (bases.length === 0) throw new Error('没有可编辑的输入图片');
+  const background = settings.background || '#000000';
+
+  // 1. 宫格拼接 / 单图
+  let current: HTMLImageElement | HTMLCanvasElement = bases[0];
+  if (settings.layout === 'grid' && bases.length > 1) {
+    const layout = computeGridLayout(bases.map(sizeOf), settings.gridColumns, settings.gridGap ?? 0);
+    const { canvas, ctx } = createCanvas(layout.canvas);
+    ctx.fillStyle = background;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    bases.forEach((img, i) => ctx.drawImage(img, layout.cells[i].x, layout.cells[i].y, layout.cells[i].width, layout.cells[i].height));
+    current = canvas;
+  }
+
+  // 2. 裁剪
+  const crop = computeCropRect(sizeOf(current), settings.crop);
+  {
+    const { canvas, ctx } = createCanvas({ width: crop.width, height: crop.height });
+    ctx.drawImage(current, crop.x, crop.y, crop.width, crop.height, 0, 0, crop.width, crop.height);
+    current = canvas;
+  }
+
+  // 3. 旋转 / 翻转
+  const rotate = settings.rotate ?? 0;
+  if (rotate || settings.flipH || settings.flipV) {
+    const size = sizeOf(current);
+    const swap = rotate === 90 || rotate === 270;
+    const { canvas, ctx } = createCanvas(swap ? { width: size.height, height: size.width } : size);
+    ctx.translate(canvas.width / 2, canvas.height / 2);
+    ctx.rotate((rotate * Math.PI) / 180);
+    ctx.scale(settings.flipH ? -1 : 1, settings.flipV ? -1 : 1);
+    ctx.drawImage(current, -size.width / 2, -size.height / 2);
+    current = canvas;
+  }
+
+  // 4. 适配目标比例
+  const fit = fitToAspectRatio(sizeOf(current), parseAspectRatio(settings.aspectRatio), settings.fitMode);
+  // 5. 缩放 + 6. 亮度/对比度（在最终绘制时一并完成）
+  const output = computeResize(fit.canvas, settings.resizeWidth, settings.resizeHeight);
+  const scaleX = output.width / fit.canvas.width;
+  const scaleY = output.height / fit.canvas.height;
+  const { canvas, ctx } = createCanvas(output);
+  ctx.fillStyle = background;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.filter = `brightness(${settings.brightness ?? 100}%) contrast(${settings.contrast ?? 100}%)`;
+  ctx.drawImage(
+    current,
+    fit.source.x, fit.source.y, fit.source.width, fit.source.height,
+    fit.dest.x * scaleX, fit.dest.y * scaleY, fit.dest.width * scaleX, fit.dest.height * scaleY
+  );
+  ctx.filter = 'none';
+
+  // 7. 叠加 Logo / 文字
+  if (logo) {
+    const logoSize = sizeOf(logo);
+    const width = Math.max(1, Math.round((output.width * (settings.logoScale ?? 15)) / 100));
+    const height = Math.max(1, Math.round((logoSize.height * width) / logoSize.width));
+    const origin = computeOverlayOrigin(output, { width, height }, settings.logoPosition ?? 'bottom-right');
+    ctx.drawImage(logo, origin.x, origin.y, width, height);
+  }
+  const text = settings.overlayText?.trim();
+  if (text) {
+    const fontSize = Math.max(8, Math.round((Math.min(output.width, output.height) * (settings.overlayTextSize ?? 6)) / 100));
+    ctx.font = `bold ${fontSize}px sans-serif`;
+    ctx.textBaseline = 'top';
+    const textSize = { width: Math.ceil(ctx.measureText(text).width), height: fontSize };
+    const origin = computeOverlayOrigin(output, textSize, settings.overlayTextPosition ?? 'bottom-left');
+    // 半透明描边保证在亮/暗背景上都可读
+    ctx.lineWidth = Math.max(2, fontSize / 8);
+    ctx.strokeStyle = 'rgba(0, 0, 0, 0.6)';
+    ctx.strokeText(text, origin.x, origin.y);
+    ctx.fillStyle = settings.overlayTextColor || '#ffffff';
+    ctx.fillText(text, origin.x, origin.y);
+  }
+  return canvas;
+}
@@ -0,0 +1,209 @@
+/**
+ * 局部重绘蒙版：在图片节点上涂抹需要重绘的区域，导出黑白蒙版并把重绘结果按蒙版合成回原图
+ * - 笔画坐标归一化 0-1（与 imageDrawStrokes 一致），笔刷大小 / 羽化按图片宽度的比例保存，与显示尺寸无关
+ * - 蒙版约定：白色为重绘区域，黑色为保持不变
+ */
+
+import { loadImage } from './imageEdit';
+
+export type MaskStrokeMode = 'paint' | 'erase';
+
+export interface MaskStroke {
+  mode: MaskStrokeMode;
+  /** 笔刷直径（相对图片宽度的比例） */
+  size: number;
+  points: { x: number; y: number }[];
+}
+
+export interface MaskOptions {
+  /** 羽化半径（相对图片宽度的比例），仅用于合成时的边缘过渡 */
+  feather?: number;
+  /** 反选：重绘未涂抹的区域 */
+  inverted?: boolean;
+}
+
+/** 局部重绘来源：节点当前图片与蒙版 */
+export interface InpaintSource extends MaskOptions {
+  image: string;
+  strokes: MaskStroke[];
+}
+
+/** 笔刷大小选项（相对图片宽度） */
+export const MASK_BRUSH_SIZES = [0.02, 0.04, 0.08, 0.14];
+export const DEFAULT_MASK_BRUSH_SIZE = 0.04;
+/** 羽化上限（相对图片宽度） */
+export const MAX_MASK_FEATHER = 0.1;
+/** 重绘结果与原图宽高比相差超过该比例时不合成，直接使用模型结果 */
+const COMPOSITE_RATIO_TOLERANCE = 0.02;
+
+/**
+ * 图片节点的局部重绘来源：已有图片且涂抹过蒙版（或整图反选）时返回，否则为 undefined
+ */
+export function getInpaintSource(
+  image: string | undefined,
+  data: { imageMaskStrokes?: MaskStroke[]; maskFeather?: number; maskInverted?: boolean } | undefined
+): InpaintSource | undefined {
+  const strokes = data?.imageMaskStrokes ?? [];
+  if (!image || (!strokes.some((stroke) => stroke.mode === 'paint') && !data?.maskInverted)) return undefined;
+  return { image, strokes, feather: data?.maskFeather, inverted: data?.maskInverted };
+}
+
+/** 绘制单条蒙版笔画（单点时画圆点） */
+function drawMaskStroke(ctx: CanvasRenderingContext2D, stroke: MaskStroke, width: number, height: number, color: string): void {
+  const lineWidth = Math.max(1, stroke.size * width);
+  const [first, ...rest] = stroke.points;
+  if (!first) return;
+  ctx.strokeStyle = color;
+  ctx.fillStyle = color;
+  ctx.lineWidth = lineWidth;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  if (rest.length === 0) {
+    ctx.beginPath();
+    ctx.arc(first.x * width, first.y * height, lineWidth / 2, 0, Math.PI * 2);
+    ctx.fill();
+    return;
+  }
+  ctx.beginPath();
+  ctx.moveTo(first.x * width, first.y * height);
+  rest.forEach((p) => ctx.lineTo(p.x * width, p.y * height));
+  ctx.stroke();
+}
+
+/**
+ * 按笔画顺序栅格化蒙版（涂抹为白、擦除为黑），返回 width×height 的 canvas
+ * @param soft 为 true 时保留抗锯齿并按 feather 模糊（合成用）；否则二值化（发送给模型）
+ */
+export function rasterizeMask(strokes: MaskStroke[], width: number, height: number, options: MaskOptions = {}, soft = false): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('无法获取 canvas 上下文');
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, 0, width, height);
+  strokes.forEach((stroke) => drawMaskStroke(ctx, stroke, width, height, stroke.mode === 'erase' ? '#000000' : '#ffffff'));
+  if (options.inverted) {
+    ctx.globalCompositeOperation = 'difference';
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, width, height);
+    ctx.globalCompositeOperation = 'source-over';
+  }
+
+  if (!soft) {
+    const imageData = ctx.getImageData(0, 0, width, height);
+    const pixels = imageData.data;
+    for (let i = 0; i < pixels.length; i += 4) {
+      const value = pixels[i] >= 128 ? 255 : 0;
+      pixels[i] = value;
+      pixels[i + 1] = value;
+      pixels[i + 2] = value;
+      pixels[i + 3] = 255;
+    }
+    ctx.putImageData(imageData, 0, 0);
+    return canvas;
+  }
+
+  const blur = Math.min(MAX_MASK_FEATHER, Math.max(0, options.feather ?? 0)) * width;
+  if (blur < 0.5) return canvas;
+  const blurred = document.createElement('canvas');
+  blurred.width = width;
+  blurred.height = height;
+  const blurredCtx = blurred.getContext('2d');
+  if (!blurredCtx) throw new Error('无法获取 canvas 上下文');
+  blurredCtx.filter = `blur(${blur.toFixed(1)}px)`;
+  blurredCtx.drawImage(canvas, 0, 0);
+  return blurred;
+}
+
+/** 蒙版亮度转为透明度：白色区域保留、黑色区域透明，用作 destination-in 的遮罩 */
+function maskToAlpha(mask: HTMLCanvasElement, color: [number, number, number] = [255, 255, 255], opacity = 1): HTMLCanvasElement {
+  const ctx = mask.getContext('2d');
+  if (!ctx) throw new Error('无法获取 canvas 上下文');
+  const imageData = ctx.getImageData(0, 0, mask.width, mask.height);
+  const pixels = imageData.data;
+  for (let i = 0; i < pixels.length; i += 4) {
+    const alpha = pixels[i] * opacity;
+    pixels[i] = color[0];
+    pixels[i + 1] = color[1];
+    pixels[i + 2] = color[2];
+    pixels[i + 3] = alpha;
+  }
+  ctx.putImageData(imageData, 0, 0);
+  return mask;
+}
+
+/**
+ * 在图片叠层上绘制蒙版预览（半透明红色，含羽化效果）
+ * @param width / height 叠层的 CSS 显示尺寸
+ */
+export function drawMaskOverlay(canvas: HTMLCanvasElement, strokes: MaskStroke[], width: number, height: number, options: MaskOptions = {}): void {
+  const dpr = window.devicePixelRatio || 1;
+  canvas.width = Math.round(width * dpr);
+  canvas.height = Math.round(height * dpr);
+  canvas.style.width = `${width}px`;
+  canvas.style.height = `${height}px`;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+  if (strokes.length === 0 && !options.inverted) return;
+  const overlay = maskToAlpha(rasterizeMask(strokes, canvas.width, canvas.height, options, true), [255, 59, 48], 0.5);
+  ctx.drawImage(overlay, 0, 0);
+}
+
+/** 导出发送给模型的二值蒙版 PNG（与原图同尺寸） */
+export async function exportMaskPng(strokes: MaskStroke[], width: number, height: number, options: MaskOptions = {}): Promise<Blob> {
+  const canvas = rasterizeMask(strokes, width, height, options);
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/png'));
+  if (!blob) throw new Error('导出蒙版失败');
+  return blob;
+}
+
+/**
+ * 将模型重绘结果按羽化蒙版合成回原图，仅蒙版区域发生变化
+ * @returns 合成后的 PNG；结果与原图比例不一致时返回 null（无法对齐，直接使用模型结果）
+ */
+export async function compositeInpaintResult(originalUrl: string, resultUrl: string, strokes: MaskStroke[], options: MaskOptions = {}): Promise<Blob | null> {
+  const [original, result] = await Promise.all([loadImage(originalUrl), loadImage(resultUrl)]);
+  const width = original.naturalWidth;
+  const height = original.naturalHeight;
+  if (!width || !height || !result.naturalWidth || !result.naturalHeight) return null;
+  const ratioDiff = Math.abs(result.naturalWidth / result.naturalHeight / (width / height) - 1);
+  if (ratioDiff > COMPOSITE_RATIO_TOLERANCE) {
+    console.warn('[局部重绘] 重绘结果比例与原图不一致，跳过合成');
+    return null;
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('无法获取 canvas 上下文');
+  // 重绘结果仅保留蒙版区域，再把原图垫在下方
+  ctx.drawImage(result, 0, 0, width, height);
+  ctx.globalCompositeOperation = 'destination-in';
+  ctx.drawImage(maskToAlpha(rasterizeMask(strokes, width, height, options, true)), 0, 0);
+  ctx.globalCompositeOperation = 'destination-over';
+  ctx.drawImage(original, 0, 0, width, height);
+  ctx.globalCompositeOperation = 'source-over';
+
+  return new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/png'));
+}
+
+/**
+ * 局部重绘提示词：所选模型没有独立的蒙版参数，原图与蒙版作为前两张参考图传入，并在提示词中说明用途
+ * @param extraReferenceCount 额外连接的参考图数量（从第 3 张开始）
+ */
+export function buildInpaintPrompt(prompt: string, extraReferenceCount = 0): string {
+  const references =
+    extraReferenceCount === 1
+      ? ' Image 3 is an additional reference for the new content.'
+      : extraReferenceCount > 1
+        ? ` Images 3-${extraReferenceCount + 2} are additional references for the new content.`
+        : '';
+  return (
+    'Inpainting task: image 1 is the original picture, image 2 is a black-and-white mask. ' +
+    'Regenerate only the white area of the mask and keep every black-area pixel identical to image 1, ' +
+    `with the same resolution, framing, lighting and style.${references} New content for the white area: ${prompt.trim()}`
+  );
+}
@@ -0,0 +1,314 @@
+/**
+ * 画布操作历史：记录节点/连线的增删、移动、字段修改等操作及其逆操作，用于撤销/重做
+ * 与整图快照不同，每条记录只保存发生变化的部分；运行状态与生成产物不进入历史
+ */
+
+import type { CSSProperties } from 'react';
+import type { Edge, Node, XYPosition } from 'reactflow';
+import { PROMPT_DATA_KEYS } from './versionDiff';
+
+export type HistoryOperation =
+  | { type: 'addNode'; node: Node; index: number }
+  | { type: 'removeNode'; node: Node; index: number }
+  | { type: 'moveNode'; id: string; from: XYPosition; to: XYPosition }
+  /** before/after 为 undefined 表示该字段不存在 */
+  | { type: 'updateData'; id: string; key: string; before: unknown; after: unknown }
+  | { type: 'updateStyle'; id: string; before?: CSSProperties; after?: CSSProperties }
+  | { type: 'addEdge'; edge: Edge }
+  | { type: 'removeEdge'; edge: Edge };
+
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  timestamp: number;
+  /** 相同 key 的相邻记录在时间窗口内合并（连续输入、连续拖动） */
+  coalesceKey?: string;
+  operations: HistoryOperation[];
+}
+
+export const MAX_HISTORY_ENTRIES = 200;
+export const HISTORY_COALESCE_MS = 1500;
+
+/** 运行状态与生成产物：由任务写入，不作为用户操作记录 */
+const UNTRACKED_DATA_KEYS = new Set([
+  'progress', 'progressMessage', 'errorMessage', 'errorCode', 'aiStatus', 'queuePosition', 'cancelled', 'streamingText',
+  'segments', 'segmentCount', 'items', 'itemKind', 'matchedBranch', 'fanOutItems',
+  'outputText', 'outputImage', 'outputVideo', 'originalVideoUrl', 'outputAudio', 'originalAudioUrl', 'localPath', 'originalImageUrl',
+]);
+
+const RUNTIME_DATA_KEYS = ['progress', 'progressMessage', 'aiStatus', 'queuePosition', 'streamingText'];
+
+const DATA_KEY_LABELS: Record<string, string> = {
+  title: '标题',
+  label: '名称',
+  width: '尺寸',
+  height: '尺寸',
+};
+
+type Graph = { nodes: Node[]; edges: Edge[] };
+
+const isSameValue = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true;
+  if (a == null || b == null || typeof a !== 'object' || typeof b !== 'object') return false;
+  return JSON.stringify(a) === JSON.stringify(b);
+};
+
+/** 保存到历史中的节点：去掉选中/测量等界面状态与运行状态 */
+function toStoredNode(node: Node): Node {
+  const { selected: _selected, dragging: _dragging, positionAbsolute: _positionAbsolute, width: _width, height: _height, ...rest } = node;
+  const data = { ...(node.data || {}) };
+  RUNTIME_DATA_KEYS.forEach((key) => delete data[key]);
+  return { ...rest, data } as Node;
+}
+
+function toStoredEdge(edge: Edge): Edge {
+  const { selected: _selected, ...rest } = edge;
+  return rest as Edge;
+}
+
+const isSameEdge = (a: Edge, b: Edge) =>
+  a.source === b.source && a.target === b.target && (a.sourceHandle ?? null) === (b.sourceHandle ?? null) && (a.targetHandle ?? null) === (b.targetHandle ?? null);
+
+const styleSize = (style?: CSSProperties) => ({ width: style?.width, height: style?.height });
+
+/**
+ * 对比两次提交之间的画布，得到操作列表；未变化的节点按引用跳过，不做深拷贝
+ */
+export function diffGraph(prev: Graph, next: Graph): HistoryOperation[] {
+  const nodeOps: HistoryOperation[] = [];
+  const prevNodes = new Map(prev.nodes.map((node, index) => [node.id, { node, index }]));
+  const nextNodeIds = new Set<string>();
+
+  next.nodes.forEach((node, index) => {
+    nextNodeIds.add(node.id);
+    const previous = prevNodes.get(node.id)?.node;
+    if (!previous) {
+      nodeOps.push({ type: 'addNode', node: toStoredNode(node), index });
+      return;
+    }
+    if (previous === node) return;
+    if (previous.position?.x !== node.position?.x || previous.position?.y !== node.position?.y) {
+      nodeOps.push({ type: 'moveNode', id: node.id, from: { ...previous.position }, to: { ...node.position } });
+    }
+    if (!isSameValue(styleSize(previous.style), styleSize(node.style))) {
+      nodeOps.push({ type: 'updateStyle', id: node.id, before: previous.style && { ...previous.style }, after: node.style && { ...node.style } });
+    }
+    if (previous.data !== node.data) {
+      const keys = new Set([...Object.keys(previous.data || {}), ...Object.keys(node.data || {})]);
+      keys.forEach((key) => {
+        if (UNTRACKED_DATA_KEYS.has(key)) return;
+        const before = previous.data?.[key];
+        const after = node.data?.[key];
+        if (!isSameValue(before, after)) nodeOps.push({ type: 'updateData', id: node.id, key, before, after });
+      });
+    }
+  });
+
+  prev.nodes.forEach((node, index) => {
+    if (!nextNodeIds.has(node.id)) nodeOps.push({ type: 'removeNode', node: toStoredNode(node), index });
+  });
+
+  const edgeOps: HistoryOperation[] = [];
+  const prevEdges = new Map(prev.edges.map((edge) => [edge.id, edge]));
+  const nextEdges = new Map(next.edges.map((edge) => [edge.id, edge]));
+  prev.edges.forEach((edge) => {
+    const current = nextEdges.get(edge.id);
+    if (!current || !isSameEdge(edge, current)) edgeOps.push({ type: 'removeEdge', edge: toStoredEdge(edge) });
+  });
+  next.edges.forEach((edge) => {
+    const previous = prevEdges.get(edge.id);
+    if (!previous || !isSameEdge(previous, edge)) edgeOps.push({ type: 'addEdge', edge: toStoredEdge(edge) });
+  });
+
+  return [...nodeOps, ...edgeOps];
+}
+
+function invertOperation(op: HistoryOperation): HistoryOperation {
+  switch (op.type) {
+    case 'addNode':
+      return { type: 'removeNode', node: op.node, index: op.index };
+    case 'removeNode':
+      return { type: 'addNode', node: op.node, index: op.index };
+    case 'moveNode':
+      return { ...op, from: op.to, to: op.from };
+    case 'updateData':
+    case 'updateStyle':
+      return { ...op, before: op.after, after: op.before } as HistoryOperation;
+    case 'addEdge':
+      return { type: 'removeEdge', edge: op.edge };
+    case 'removeEdge':
+      return { type: 'addEdge', edge: op.edge };
+  }
+}
+
+/**
+ * 把操作应用到当前画布；只改动记录涉及的节点与字段，运行中的任务状态不受影响
+ */
+export function applyOperations(graph: Graph, operations: HistoryOperation[]): Graph {
+  const nodes = [...graph.nodes];
+  let edges = [...graph.edges];
+  const patchNode = (id: string, patch: (node: Node) => Node) => {
+    const index = nodes.findIndex((n) => n.id === id);
+    if (index >= 0) nodes[index] = patch(nodes[index]);
+  };
+
+  operations.forEach((op) => {
+    switch (op.type) {
+      case 'addNode':
+        if (!nodes.some((n) => n.id === op.node.id)) {
+          nodes.splice(Math.min(op.index, nodes.length), 0, { ...op.node, data: { ...op.node.data } });
+        }
+        break;
+      case 'removeNode': {
+        const index = nodes.findIndex((n) => n.id === op.node.id);
+        if (index >= 0) nodes.splice(index, 1);
+        edges = edges.filter((e) => e.source !== op.node.id && e.target !== op.node.id);
+        break;
+      }
+      case 'moveNode':
+        patchNode(op.id, (node) => ({ ...node, position: { ...op.to } }));
+        break;
+      case 'updateData':
+        patchNode(op.id, (node) => {
+          const data = { ...node.data };
+          if (op.after === undefined) delete data[op.key];
+          else data[op.key] = op.after;
+          return { ...node, data };
+        });
+        break;
+      case 'updateStyle':
+        patchNode(op.id, (node) => ({ ...node, style: op.after && { ...op.after } }));
+        break;
+      case 'addEdge':
+        if (!edges.some((e) => e.id === op.edge.id)) edges.push({ ...op.edge });
+        break;
+      case 'removeEdge':
+        edges = edges.filter((e) => e.id !== op.edge.id);
+        break;
+    }
+  });
+
+  return { nodes, edges };
+}
+
+export const undoOperations = (graph: Graph, entry: HistoryEntry): Graph =>
+  applyOperations(graph, [...entry.operations].reverse().map(invertOperation));
+
+export const redoOperations = (graph: Graph, entry: HistoryEntry): Graph => applyOperations(graph, entry.operations);
+
+/**
+ * 合并同一节点同一字段的连续修改：保留最早的 before 与最新的 after，前后相同时整条丢弃
+ */
+function compactOperations(operations: HistoryOperation[]): HistoryOperation[] {
+  const merged: HistoryOperation[] = [];
+  const slots = new Map<string, number>();
+  operations.forEach((op) => {
+    const slotKey =
+      op.type === 'moveNode' ? `move:${op.id}` :
+      op.type === 'updateStyle' ? `style:${op.id}` :
+      op.type === 'updateData' ? `data:${op.id}:${op.key}` : null;
+    const slot = slotKey ? slots.get(slotKey) : undefined;
+    if (slotKey && slot !== undefined) {
+      const existing = merged[slot];
+      merged[slot] = op.type === 'moveNode'
+        ? { ...op, from: (existing as typeof op).from }
+        : ({ ...op, before: (existing as { before?: unknown }).before } as HistoryOperation);
+      return;
+    }
+    if (slotKey) slots.set(slotKey, merged.length);
+    merged.push(op);
+  });
+  return merged.filter((op) => {
+    if (op.type === 'moveNode') return op.from.x !== op.to.x || op.from.y !== op.to.y;
+    if (op.type === 'updateData') return !isSameValue(op.before, op.after);
+    if (op.type === 'updateStyle') return !isSameValue(styleSize(op.before), styleSize(op.after));
+    return true;
+  });
+}
+
+/** 仅字段修改或仅移动的记录可合并：key 相同表示修改的是同一批节点/字段 */
+function getCoalesceKey(operations: HistoryOperation[]): string | undefined {
+  if (operations.every((op) => op.type === 'updateData')) {
+    return `data:${[...new Set(operations.map((op) => op.type === 'updateData' && `${op.id}.${op.key}`))].sort().join(',')}`;
+  }
+  if (operations.every((op) => op.type === 'moveNode' || op.type === 'updateStyle')) {
+    return `layout:${[...new Set(operations.map((op) => (op as { id: string }).id))].sort().join(',')}`;
+  }
+  return undefined;
+}
+
+const titleOf = (node: Node | undefined, fallbackId: string) =>
+  String(node?.data?.title || node?.data?.label || node?.type || fallbackId);
+
+/**
+ * 根据操作生成历史面板中显示的名称
+ */
+export function describeOperations(operations: HistoryOperation[], nodes: Node[]): string {
+  const nodeById = new Map(nodes.map((n) => [n.id, n]));
+  const byType = <T extends HistoryOperation['type']>(type: T) =>
+    operations.filter((op): op is Extract<HistoryOperation, { type: T }> => op.type === type);
+  const nodeTitle = (id: string) => `「${titleOf(nodeById.get(id), id)}」`;
+  const edgeTitle = (edge: Edge) => `${nodeTitle(edge.source)} → ${nodeTitle(edge.target)}`;
+
+  const removed = byType('removeNode');
+  if (removed.length > 0) {
+    return removed.length === 1 ? `删除节点「${titleOf(removed[0].node, removed[0].node.id)}」` : `删除 ${removed.length} 个节点`;
+  }
+  const added = byType('addNode');
+  if (added.length > 0) {
+    return added.length === 1 ? `添加节点「${titleOf(added[0].node, added[0].node.id)}」` : `添加 ${added.length} 个节点`;
+  }
+  const addedEdges = byType('addEdge');
+  const removedEdges = byType('removeEdge');
+  if (addedEdges.length > 0 && removedEdges.length > 0) return `调整连线（${addedEdges.length + removedEdges.length} 处）`;
+  if (addedEdges.length > 0) return addedEdges.length === 1 ? `连线 ${edgeTitle(addedEdges[0].edge)}` : `添加 ${addedEdges.length} 条连线`;
+  if (removedEdges.length > 0) {
+    return removedEdges.length === 1 ? `断开连线 ${edgeTitle(removedEdges[0].edge)}` : `断开 ${removedEdges.length} 条连线`;
+  }
+  const updates = byType('updateData');
+  const updatedIds = new Set(updates.map((op) => op.id));
+  if (updatedIds.size > 1) return `编辑 ${updatedIds.size} 个节点`;
+  if (updates.length > 0) {
+    const keyLabels = [...new Set(updates.map((op) => (PROMPT_DATA_KEYS.includes(op.key) ? '提示词' : DATA_KEY_LABELS[op.key] ?? op.key)))];
+    return `编辑${nodeTitle(updates[0].id)}的${keyLabels.slice(0, 2).join('、')}${keyLabels.length > 2 ? '等' : ''}`;
+  }
+  const resized = byType('updateStyle');
+  if (resized.length > 0) return resized.length === 1 ? `调整${nodeTitle(resized[0].id)}尺寸` : `调整 ${resized.length} 个节点尺寸`;
+  const moved = byType('moveNode');
+  return moved.length === 1 ? `移动节点${nodeTitle(moved[0].id)}` : `移动 ${moved.length} 个节点`;
+}
+
+/**
+ * 把一次提交加入历史：丢弃已撤销的分支；与上一条可合并时合并，否则追加；超出上限时移除最早的记录
+ */
+export function pushHistoryEntry(
+  entries: HistoryEntry[],
+  index: number,
+  operations: HistoryOperation[],
+  options: { label?: string; nodes: Node[]; now?: number }
+): { entries: HistoryEntry[]; index: number } {
+  const now = options.now ?? Date.now();
+  const kept = entries.slice(0, index + 1);
+  const coalesceKey = options.label ? undefined : getCoalesceKey(operations);
+  const last = kept[kept.length - 1];
+
+  // 连续输入/拖动合并到上一条（只合并当前位置的最新记录，撤销后的新操作不合并）
+  if (coalesceKey && last?.coalesceKey === coalesceKey && index === entries.length - 1 && now - last.timestamp <= HISTORY_COALESCE_MS) {
+    const merged = compactOperations([...last.operations, ...operations]);
+    if (merged.length === 0) {
+      return { entries: kept.slice(0, -1), index: kept.length - 2 };
+    }
+    kept[kept.length - 1] = { ...last, operations: merged, timestamp: now, label: describeOperations(merged, options.nodes) };
+    return { entries: kept, index: kept.length - 1 };
+  }
+
+  kept.push({
+    id: `history-${now}-${Math.random().toString(36).slice(2, 8)}`,
+    label: options.label || describeOperations(operations, options.nodes),
+    timestamp: now,
+    coalesceKey,
+    operations,
+  });
+  const trimmed = kept.slice(-MAX_HISTORY_ENTRIES);
+  return { entries: trimmed, index: trimmed.length - 1 };
+}
@@ -0,0 +1,155 @@
+/**
+ * 提示词模板
+ * - 节点的 promptTemplate 中可写 {{shot}}、{{character.name}}、{{segment[3]}} 等占位符，运行时由具名上游输入解析
+ * - 变量名取上游节点标题（文本拆分节点固定为 segment），同名时依次追加 _2、_3
+ * - 文本内容为 JSON（含 ```json 代码块）时可用 .key 取字段；文本拆分节点的值为全部 segments、循环节点的值为全部列表项，可用 [n] 取第 n 项
+ * - 下标从 1 开始，与文本拆分节点的 ①②③ 编号一致
+ * - 模板解析结果写入节点原有输入字段（LLM inputText / 图片、视频 prompt / 声音 text 或 lyrics），任务记录随之保存解析后的提示词
+ */
+
+import type { Node, Edge } from 'reactflow';
+import { TEXT_SOURCE_TYPES, getCameraPrompt, getTextFromSource } from './graphExecutor';
+
+export type TemplateValue = string | number | boolean | null | TemplateValue[] | { [key: string]: TemplateValue };
+
+export interface TemplateVariable {
+  name: string;
+  sourceNodeId: string;
+  value: TemplateValue;
+}
+
+export interface RenderedTemplate {
+  text: string;
+  /** 未能解析的占位符（原样保留在 text 中） */
+  missing: string[];
+}
+
+/** {{name}} / {{name.key}} / {{name[3]}} / {{name[2].key}} */
+const PLACEHOLDER_PATTERN = /\{\{\s*([^{}\s.[\]]+)((?:\.[^{}\s.[\]]+|\[\d+\])*)\s*\}\}/g;
+
+const PATH_SEGMENT_PATTERN = /\.([^.[\]]+)|\[(\d+)\]/g;
+
+/** 文本拆分节点标题不可编辑，统一使用该变量名 */
+const TEXT_SPLIT_VARIABLE_NAME = 'segment';
+
+export const hasTemplatePlaceholders = (text: string | undefined): boolean =>
+  !!text && new RegExp(PLACEHOLDER_PATTERN.source).test(text);
+
+/** 节点标题转变量名：去掉空白与占位符语法字符 */
+const toVariableName = (title: string): string =>
+  title.trim().replace(/[\s.[\]{}]+/g, '_').replace(/^_+|_+$/g, '');
+
+/** 文本为 JSON 对象/数组时解析为结构化值（兼容 LLM 输出的 ```json 代码块） */
+const parseStructuredText = (text: string): TemplateValue => {
+  const fenced = text.match(/^```(?:json)?\s*([\s\S]*?)\s*```$/i);
+  const body = (fenced ? fenced[1] : text).trim();
+  if (!body.startsWith('{') && !body.startsWith('[')) return text;
+  try {
+    return JSON.parse(body) as TemplateValue;
+  } catch {
+    return text;
+  }
+};
+
+const getSourceValue = (src: Node, edge: Edge): TemplateValue => {
+  if (src.type === 'textSplit') {
+    const segments = (src.data?.segments as (string | number | boolean)[] | undefined) || [];
+    return segments.map((seg) => (typeof seg === 'string' ? seg.trim() : seg));
+  }
+  if (src.type === 'foreach') return (src.data?.items as string[] | undefined) || [];
+  if (src.type === 'cameraControl') return getCameraPrompt(src);
+  return parseStructuredText(getTextFromSource(src, edge));
+};
+
+/**
+ * 收集目标节点可用的模板变量（按入边顺序；同一来源节点多条连线只计一次）
+ */
+export function collectTemplateVariables(nodeId: string, nodes: Node[], edges: Edge[]): TemplateVariable[] {
+  const nodeById = new Map(nodes.map((n) => [n.id, n]));
+  const variables: TemplateVariable[] = [];
+  const usedNames = new Set<string>();
+
+  edges.forEach((e) => {
+    if (e.target !== nodeId || variables.some((v) => v.sourceNodeId === e.source)) return;
+    const src = nodeById.get(e.source);
+    if (!src || (!TEXT_SOURCE_TYPES.includes(src.type || '') && src.type !== 'cameraControl')) return;
+
+    const baseName =
+      src.type === 'textSplit'
+        ? TEXT_SPLIT_VARIABLE_NAME
+        : toVariableName(String(src.data?.title || '')) || src.type || 'input';
+    let name = baseName;
+    for (let i = 2; usedNames.has(name); i++) name = `${baseName}_${i}`;
+    usedNames.add(name);
+
+    variables.push({ name, sourceNodeId: src.id, value: getSourceValue(src, e) });
+  });
+
+  return variables;
+}
+
+/** 按 .key / [n] 路径取值；取不到时返回 undefined */
+const lookupPath = (value: TemplateValue, path: string): TemplateValue | undefined => {
+  let current: TemplateValue | undefined = value;
+  for (const match of path.matchAll(PATH_SEGMENT_PATTERN)) {
+    if (current === null || current === undefined) return undefined;
+    if (match[2] !== undefined) {
+      const index = parseInt(match[2], 10) - 1;
+      current = Array.isArray(current) && index >= 0 ? current[index] : undefined;
+    } else {
+      const key = match[1];
+      current = typeof current === 'object' && !Array.isArray(current) ? current[key] : undefined;
+    }
+  }
+  return current;
+};
+
+/** 值转文本：数组逗号拼接（与连线拼接一致），对象输出 JSON */
+const stringifyValue = (value: TemplateValue): string => {
+  if (value === null) return '';
+  if (Array.isArray(value)) return value.map(stringifyValue).filter(Boolean).join(',');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value).trim();
+};
+
+/**
+ * 渲染模板：可解析的占位符替换为变量值，其余原样保留并记入 missing
+ */
+export function renderPromptTemplate(template: string, variables: TemplateVariable[]): RenderedTemplate {
+  const byName = new Map(variables.map((v) => [v.name, v.value]));
+  const missing: string[] = [];
+  const text = template.replace(PLACEHOLDER_PATTERN, (placeholder, name: string, path: string) => {
+    const root = byName.get(name);
+    const value = root === undefined ? undefined : lookupPath(root, path);
+    if (value === undefined) {
+      if (!missing.includes(placeholder)) missing.push(placeholder);
+      return placeholder;
+    }
+    return stringifyValue(value);
+  });
+  return { text: text.trim(), missing };
+}
+
+/**
+ * 模板解析结果写入的节点字段
+ */
+export function getTemplateTargetField(node: Node): 'inputText' | 'prompt' | 'text' | 'lyrics' | null {
+  if (node.type === 'llm') return 'inputText';
+  if (node.type === 'image' || node.type === 'video') return 'prompt';
+  if (node.type === 'audio') return node.data?.model === 'rhart-song' ? 'lyrics' : 'text';
+  return null;
+}
+
+/**
+ * 解析节点的提示词模板；节点未设置模板时返回 null
+ */
+export function resolveNodePromptTemplate(
+  node: Node,
+  nodes: Node[],
+  edges: Edge[]
+): (RenderedTemplate & { field: NonNullable<ReturnType<typeof getTemplateTargetField>> }) | null {
+  const template = String(node.data?.promptTemplate || '').trim();
+  const field = getTemplateTargetField(node);
+  if (!template || !field) return null;
+  return { field, ...renderPromptTemplate(template, collectTemplateVariables(node.id, nodes, edges)) };
+}
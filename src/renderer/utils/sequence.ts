@@ -0,0 +1,120 @@
+/**
+ * 序列剪辑节点：收集上游视频 / 声音节点的产物，维护时间线片段顺序，生成主进程 ffmpeg 渲染参数
+ */
+
+import type { Edge, Node } from 'reactflow';
+
+/** 可作为片段的上游节点（序列节点的成片也可再次拼接） */
+export const SEQUENCE_CLIP_SOURCE_TYPES = ['video', 'sequence'];
+/** 可作为背景音乐的上游节点 */
+export const SEQUENCE_MUSIC_SOURCE_TYPES = ['audio'];
+
+export interface SequenceClip {
+  /** 上游视频节点 ID */
+  sourceNodeId: string;
+  /** 入点（秒） */
+  trimIn?: number;
+  /** 出点（秒），为空时到片段结尾 */
+  trimOut?: number;
+  /** 片段音量（0-2，1 为原始音量） */
+  volume?: number;
+  /** 与下一段的交叉淡化（秒），0 为硬切 */
+  crossfade?: number;
+}
+
+export interface SequenceInput {
+  nodeId: string;
+  title: string;
+  /** 上游节点当前产物，未生成时为空 */
+  url?: string;
+}
+
+export interface SequenceRenderSpec {
+  clips: Array<{ url: string; trimIn?: number; trimOut?: number; volume?: number; crossfade?: number }>;
+  music?: { url: string; volume?: number };
+}
+
+const getOutputUrl = (node: Node, kind: 'video' | 'audio'): string | undefined => {
+  const url = kind === 'video' ? node.data?.outputVideo : node.data?.outputAudio;
+  return typeof url === 'string' && url.trim() ? url : undefined;
+};
+
+/**
+ * 按连线顺序列出连接到序列节点的视频与声音节点
+ */
+export function getSequenceInputs(nodeId: string, nodes: Node[], edges: Edge[]): { videos: SequenceInput[]; audios: SequenceInput[] } {
+  const videos: SequenceInput[] = [];
+  const audios: SequenceInput[] = [];
+  const seen = new Set<string>();
+  for (const edge of edges) {
+    if (edge.target !== nodeId || seen.has(edge.source)) continue;
+    const source = nodes.find((n) => n.id === edge.source);
+    if (!source?.type) continue;
+    seen.add(source.id);
+    const title = source.data?.title || source.data?.label || source.id;
+    if (SEQUENCE_CLIP_SOURCE_TYPES.includes(source.type)) {
+      videos.push({ nodeId: source.id, title, url: getOutputUrl(source, 'video') });
+    } else if (SEQUENCE_MUSIC_SOURCE_TYPES.includes(source.type)) {
+      audios.push({ nodeId: source.id, title, url: getOutputUrl(source, 'audio') });
+    }
+  }
+  return { videos, audios };
+}
+
+/**
+ * 时间线与连线同步：保留已有片段的顺序与剪辑参数，新连接的视频追加到末尾，断开的移除
+ * 无变化时返回原数组
+ */
+export function syncSequenceClips(clips: SequenceClip[], videos: SequenceInput[]): SequenceClip[] {
+  const connected = new Set(videos.map((v) => v.nodeId));
+  const kept = clips.filter((clip) => connected.has(clip.sourceNodeId));
+  const existing = new Set(kept.map((clip) => clip.sourceNodeId));
+  const added = videos.filter((v) => !existing.has(v.nodeId)).map((v): SequenceClip => ({ sourceNodeId: v.nodeId, volume: 1, crossfade: 0 }));
+  if (added.length === 0 && kept.length === clips.length) return clips;
+  return [...kept, ...added];
+}
+
+/**
+ * 生成渲染参数；有片段尚未生成视频时返回错误
+ */
+export function buildSequenceRenderSpec(
+  clips: SequenceClip[],
+  videos: SequenceInput[],
+  music: { input?: SequenceInput; volume?: number }
+): SequenceRenderSpec | { error: string } {
+  if (clips.length === 0) return { error: '请先连接视频节点' };
+  const byId = new Map(videos.map((v) => [v.nodeId, v]));
+  const specClips: SequenceRenderSpec['clips'] = [];
+  for (const [index, clip] of clips.entries()) {
+    const input = byId.get(clip.sourceNodeId);
+    if (!input?.url) return { error: `片段 ${index + 1}「${input?.title || clip.sourceNodeId}」还没有生成视频` };
+    specClips.push({
+      url: input.url,
+      trimIn: clip.trimIn,
+      trimOut: clip.trimOut,
+      volume: clip.volume ?? 1,
+      // 最后一段后面没有片段，不需要淡化
+      crossfade: index < clips.length - 1 ? clip.crossfade ?? 0 : 0,
+    });
+  }
+  return {
+    clips: specClips,
+    music: music.input?.url ? { url: music.input.url, volume: music.volume ?? 0.5 } : undefined,
+  };
+}
+
+/**
+ * 估算成片时长（秒）；片段原始时长未知时返回 null
+ */
+export function estimateSequenceDuration(clips: SequenceClip[], durations: Record<string, number>): number | null {
+  let total = 0;
+  for (const [index, clip] of clips.entries()) {
+    const full = durations[clip.sourceNodeId];
+    if (!full) return null;
+    const trimIn = Math.max(0, clip.trimIn || 0);
+    const end = clip.trimOut && clip.trimOut > trimIn ? Math.min(clip.trimOut, full) : full;
+    total += Math.max(0, end - trimIn);
+    if (index < clips.length - 1) total -= clip.crossfade || 0;
+  }
+  return Math.max(0, total);
+}
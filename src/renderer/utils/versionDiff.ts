@@ -0,0 +1,129 @@
+/**
+ * 项目快照对比：节点增删、节点内容（提示词等）变化与连线增删
+ * 只比较用户编辑的内容，尺寸、运行状态与计算结果等字段不参与比较
+ */
+
+import type { Edge, Node } from 'reactflow';
+
+export interface NodeFieldChange {
+  key: string;
+  before: string;
+  after: string;
+  /** 提示词类字段（在对比中优先展示） */
+  isPrompt: boolean;
+}
+
+export interface NodeSummary {
+  id: string;
+  type: string;
+  title: string;
+}
+
+export interface NodeDiff extends NodeSummary {
+  changes: NodeFieldChange[];
+}
+
+export interface EdgeSummary {
+  id: string;
+  label: string;
+}
+
+export interface SnapshotDiff {
+  addedNodes: NodeSummary[];
+  removedNodes: NodeSummary[];
+  changedNodes: NodeDiff[];
+  /** 仅位置变化的节点数 */
+  movedNodeCount: number;
+  addedEdges: EdgeSummary[];
+  removedEdges: EdgeSummary[];
+}
+
+export const PROMPT_DATA_KEYS = ['prompt', 'text', 'inputText', 'promptTemplate', 'systemPrompt'];
+
+const IGNORED_DATA_KEYS = new Set([
+  'label', 'width', 'height', 'isUserResized',
+  'progress', 'progressMessage', 'errorMessage', 'errorCode', 'aiStatus', 'queuePosition', 'cancelled', 'streamingText',
+  'segments', 'segmentCount', 'items', 'itemKind', 'matchedBranch', 'fanOutItems',
+]);
+
+type SnapshotNode = Pick<Node, 'id' | 'type' | 'position' | 'data'>;
+type SnapshotEdge = Pick<Edge, 'id' | 'source' | 'target' | 'sourceHandle' | 'targetHandle'>;
+
+const toSummary = (node: SnapshotNode): NodeSummary => ({
+  id: node.id,
+  type: node.type || 'node',
+  title: String(node.data?.title || node.data?.label || node.type || node.id),
+});
+
+const formatValue = (value: unknown): string => {
+  if (value == null) return '';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+};
+
+const edgeKey = (edge: SnapshotEdge) =>
+  `${edge.source}:${edge.sourceHandle ?? ''}->${edge.target}:${edge.targetHandle ?? ''}`;
+
+function diffNodeData(before: SnapshotNode, after: SnapshotNode): NodeFieldChange[] {
+  const keys = new Set([...Object.keys(before.data || {}), ...Object.keys(after.data || {})]);
+  const changes: NodeFieldChange[] = [];
+  keys.forEach((key) => {
+    if (IGNORED_DATA_KEYS.has(key)) return;
+    const beforeValue = formatValue(before.data?.[key]);
+    const afterValue = formatValue(after.data?.[key]);
+    if (beforeValue === afterValue) return;
+    changes.push({ key, before: beforeValue, after: afterValue, isPrompt: PROMPT_DATA_KEYS.includes(key) });
+  });
+  return changes.sort((a, b) => Number(b.isPrompt) - Number(a.isPrompt));
+}
+
+/**
+ * 对比两个快照：before 为较早（或被对比）的一方，after 为较新（或当前画布）的一方
+ */
+export function diffSnapshots(
+  before: { nodes: SnapshotNode[]; edges: SnapshotEdge[] },
+  after: { nodes: SnapshotNode[]; edges: SnapshotEdge[] }
+): SnapshotDiff {
+  const beforeNodes = new Map(before.nodes.map((n) => [n.id, n]));
+  const afterNodes = new Map(after.nodes.map((n) => [n.id, n]));
+  const titleOf = (id: string) => {
+    const node = afterNodes.get(id) ?? beforeNodes.get(id);
+    return node ? toSummary(node).title : id;
+  };
+
+  const changedNodes: NodeDiff[] = [];
+  let movedNodeCount = 0;
+  after.nodes.forEach((node) => {
+    const previous = beforeNodes.get(node.id);
+    if (!previous) return;
+    const changes = diffNodeData(previous, node);
+    if (changes.length > 0) {
+      changedNodes.push({ ...toSummary(node), changes });
+    } else if (previous.position?.x !== node.position?.x || previous.position?.y !== node.position?.y) {
+      movedNodeCount += 1;
+    }
+  });
+
+  const beforeEdgeKeys = new Set(before.edges.map(edgeKey));
+  const afterEdgeKeys = new Set(after.edges.map(edgeKey));
+  const toEdgeSummary = (edge: SnapshotEdge): EdgeSummary => ({
+    id: edge.id,
+    label: `${titleOf(edge.source)} → ${titleOf(edge.target)}`,
+  });
+
+  return {
+    addedNodes: after.nodes.filter((n) => !beforeNodes.has(n.id)).map(toSummary),
+    removedNodes: before.nodes.filter((n) => !afterNodes.has(n.id)).map(toSummary),
+    changedNodes,
+    movedNodeCount,
+    addedEdges: after.edges.filter((e) => !beforeEdgeKeys.has(edgeKey(e))).map(toEdgeSummary),
+    removedEdges: before.edges.filter((e) => !afterEdgeKeys.has(edgeKey(e))).map(toEdgeSummary),
+  };
+}
+
+export const isEmptyDiff = (diff: SnapshotDiff): boolean =>
+  diff.addedNodes.length === 0 &&
+  diff.removedNodes.length === 0 &&
+  diff.changedNodes.length === 0 &&
+  diff.movedNodeCount === 0 &&
+  diff.addedEdges.length === 0 &&
+  diff.removedEdges.length === 0;
@@ -31,19 +31,73 @@ interface Window {
 
     // 项目数据（节点和边）
     saveProjectData: (projectId: string, nodes: any[], edges: any[]) => Promise<{ success: boolean }>;
-    loadProjectData: (projectId: string) => Promise<{ nodes: any[]; edges: any[]; lastModified: number }>;
+    loadProjectData: (projectId: string) => Promise<{
+      nodes: any[];
+      edges: any[];
+      lastModified: number;
+      /** 上次保存中断，已用完整的临时文件补完 */
+      recovered?: boolean;
+      /** 项目文件损坏时返回，由用户选择恢复的备份 */
+      recovery?: {
+        reason: string;
+        backups: { id: string; savedAt: number; nodeCount: number; edgeCount: number; corrupted: boolean }[];
+      };
+    }>;
+    listProjectBackups: (projectId: string) => Promise<{ id: string; savedAt: number; nodeCount: number; edgeCount: number; corrupted: boolean }[]>;
+    restoreProjectBackup: (projectId: string, backupId: string) => Promise<{ success: boolean; error?: string }>;
+    listProjectAssets: (projectId: string) => Promise<{
+      relativePath: string;
+      name: string;
+      url: string;
+      type: 'image' | 'video' | 'audio' | 'text';
+      size: number;
+      createdAt: number;
+      prompt?: string;
+      model?: string;
+      nodeId?: string;
+      nodeTitle?: string;
+      textPreview?: string;
+    }[]>;
+    renderSequence: (
+      spec: {
+        clips: Array<{ url: string; trimIn?: number; trimOut?: number; volume?: number; crossfade?: number }>;
+        music?: { url: string; volume?: number };
+        width?: number;
+        height?: number;
+        fps?: number;
+      },
+      meta: { projectId?: string; nodeId: string; nodeTitle?: string }
+    ) => Promise<{ success: boolean; localPath?: string; url?: string; error?: string }>;
+    onSequenceRenderProgress: (callback: (data: { nodeId: string; progress: number }) => void) => () => void;
+    extractVideoFrames: (
+      videoUrl: string,
+      options: { mode: 'first' | 'last' | 'time' | 'even'; time?: number; count?: number },
+      meta: { projectId?: string; nodeId: string; nodeTitle?: string }
+    ) => Promise<{ success: boolean; frames?: Array<{ time: number; url: string }>; error?: string }>;
+    saveEditedImage: (
+      buffer: ArrayBuffer,
+      meta: { projectId?: string; nodeId: string; nodeTitle?: string; operations?: string }
+    ) => Promise<{ success: boolean; url?: string; error?: string }>;
     copyFileToProjectAssets: (projectId: string | undefined, sourceFilePath: string) => Promise<{ savedPath: string }>;
     saveDroppedFileBufferToProjectAssets: (projectId: string | undefined, fileName: string, buffer: ArrayBuffer) => Promise<{ savedPath: string }>;
 
     // 项目导入导出
-    exportProject: (projectId: string, cardBgDataUrl?: string) => Promise<{ success: boolean; canceled?: boolean; filePath?: string }>;
+    exportProject: (
+      projectId: string,
+      cardBgDataUrl?: string,
+      options?: { selfContained?: boolean; stripOutputs?: boolean; includeRemote?: boolean }
+    ) => Promise<{ success: boolean; canceled?: boolean; filePath?: string; bundledCount?: number; missing?: string[] }>;
     importProject: () => Promise<{ success: boolean; canceled?: boolean; project?: { id: string; name: string; date: string; createdAt: number; lastModified: number }; cardBackground?: string }>;
 
     // AI 调用
-    invokeAI: (params: { modelId: string; nodeId: string; input: any }) => Promise<void>;
+    invokeAI: (params: { modelId: string; nodeId: string; projectId?: string; input: any; priority?: 'high' | 'normal' | 'low' }) => Promise<void>;
+    // AI 任务取消
+    cancelAI: (nodeId: string, projectId?: string) => Promise<{ success: boolean }>;
+    // 恢复应用重启前未完成的远程任务
+    resumePendingAIJobs: (projectId?: string) => Promise<{ success: boolean; nodeIds: string[] }>;
     
     // AI 状态更新监听（返回清理函数）
-    onAIStatusUpdate: (callback: (packet: { nodeId: string; status: 'START' | 'PROCESSING' | 'SUCCESS' | 'ERROR'; payload?: { text?: string; url?: string; progress?: number; error?: string } }) => void) => (() => void) | void;
+    onAIStatusUpdate: (callback: (packet: { nodeId: string; status: 'START' | 'PROCESSING' | 'SUCCESS' | 'ERROR' | 'CANCELLED'; payload?: { text?: string; url?: string; progress?: number; error?: string; errorCode?: 'RETRYABLE' | 'CONTENT_POLICY' | 'AUTH' | 'INSUFFICIENT_BALANCE' | 'UNKNOWN'; queuePosition?: number } }) => void) => (() => void) | void;
     
     // 移除 AI 状态更新监听（保留以兼容旧代码）
     removeAIStatusUpdateListener: () => void;
@@ -59,6 +113,57 @@ interface Window {
     updateGlobalLLMPersonas: (personas: Array<{ id: string; name: string; content: string }>) => Promise<{ success: boolean }>;
     deleteGlobalLLMPersona: (personaId: string) => Promise<{ success: boolean }>;
 
+    // LLM 端点管理（OpenAI 兼容端点，不含内置核心算力端点）
+    getLLMEndpoints: () => Promise<Array<{ id: string; name: string; baseUrl: string; apiKey: string; models: string[] }>>;
+    saveLLMEndpoints: (endpoints: Array<{ id: string; name: string; baseUrl: string; apiKey: string; models: string[] }>) => Promise<{ success: boolean; endpoints: Array<{ id: string; name: string; baseUrl: string; apiKey: string; models: string[] }> }>;
+    discoverLLMEndpointModels: (baseUrl: string, apiKey?: string) => Promise<{ success: boolean; models: string[]; error?: string }>;
+    getFfmpegConfig: () => Promise<{ path: string; resolvedPath: string | null }>;
+    saveFfmpegPath: (ffmpegPath: string) => Promise<{ success: boolean; resolvedPath: string | null }>;
+
+    // 模块库（分组保存的可复用模块）
+    getModuleLibrary: () => Promise<Array<{ id: string; name: string; nodes: any[]; edges: any[]; createdAt: number }>>;
+    saveLibraryModule: (module: { id: string; name: string; nodes: any[]; edges: any[]; createdAt: number }) => Promise<{ success: boolean; error?: string }>;
+    deleteLibraryModule: (moduleId: string) => Promise<{ success: boolean }>;
+
+    // 工作流模板（内置 + 用户另存）
+    getProjectTemplates: () => Promise<Array<{
+      id: string;
+      name: string;
+      description: string;
+      thumbnail?: string;
+      params: Array<{ key: string; label: string; description?: string; defaultValue?: string; options?: string[] }>;
+      builtIn?: boolean;
+      createdAt: number;
+      nodeCount: number;
+    }>>;
+    createProjectFromTemplate: (templateId: string, name: string, values: Record<string, string>) => Promise<{
+      success: boolean;
+      project?: { id: string; name: string; date: string; createdAt: number; lastModified: number };
+      error?: string;
+    }>;
+    saveProjectAsTemplate: (projectId: string, info: { name: string; description?: string; thumbnail?: string }) => Promise<{
+      success: boolean;
+      template?: { id: string; name: string; paramCount: number };
+      error?: string;
+    }>;
+    deleteProjectTemplate: (templateId: string) => Promise<{ success: boolean }>;
+
+    // 项目版本快照（保存在项目目录 versions/ 下）
+    listProjectVersions: (projectId: string) => Promise<{ id: string; createdAt: number; note: string; auto: boolean; nodeCount: number; edgeCount: number }[]>;
+    createProjectVersion: (projectId: string, options: { note?: string; auto?: boolean }) => Promise<{ success: boolean; version?: { id: string; createdAt: number; note: string; auto: boolean; nodeCount: number; edgeCount: number } | null; error?: string }>;
+    getProjectVersion: (projectId: string, versionId: string) => Promise<{ id: string; createdAt: number; note: string; auto: boolean; nodeCount: number; edgeCount: number; nodes: any[]; edges: any[] } | null>;
+    deleteProjectVersion: (projectId: string, versionId: string) => Promise<{ success: boolean }>;
+    branchProjectVersion: (projectId: string, versionId: string, name: string) => Promise<{
+      success: boolean;
+      project?: { id: string; name: string; date: string; createdAt: number; lastModified: number };
+      error?: string;
+    }>;
+    getVersionAutoSnapshotMinutes: () => Promise<number>;
+    setVersionAutoSnapshotMinutes: (minutes: number) => Promise<number>;
+    loadProjectHistory: (projectId: string) => Promise<{ entries: any[]; index: number; savedAt: number } | null>;
+    saveProjectHistory: (projectId: string, history: { entries: any[]; index: number }) => Promise<{ success: boolean; error?: string }>;
+    clearProjectHistory: (projectId: string) => Promise<{ success: boolean }>;
+
     // 选择自定义保存路径
     selectSavePath: () => Promise<{ success: boolean; path?: string; error?: string }>;
     
@@ -82,6 +187,7 @@ interface Window {
     showOpenAudioDialog: () => Promise<{ success: boolean; filePath?: string; error?: string }>;
     // 选择视频文件（与 AudioNode 一致的 IPC 方案）
     showOpenVideoDialog: () => Promise<{ success: boolean; filePath?: string; error?: string }>;
+    showOpenImageFolderDialog: () => Promise<{ success: boolean; folderPath?: string; filePaths: string[]; error?: string }>;
     // 在文件管理器中显示文件（打开文件所在的文件夹并选中文件）
     showItemInFolder: (filePath: string) => Promise<{ success: boolean; error?: string }>;
     